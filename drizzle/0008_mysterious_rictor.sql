@@ -0,0 +1,26 @@
+CREATE TYPE "public"."tender_status" AS ENUM('open', 'closed', 'cancelled', 'awarded');--> statement-breakpoint
+CREATE TABLE "tenders" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"reference_number" text NOT NULL,
+	"title" text NOT NULL,
+	"description" text,
+	"closing_date" timestamp NOT NULL,
+	"briefing_date" timestamp,
+	"briefing_venue" text,
+	"briefing_compulsory" boolean DEFAULT false NOT NULL,
+	"publisher_id" uuid NOT NULL,
+	"province_id" uuid NOT NULL,
+	"status" "tender_status" DEFAULT 'open' NOT NULL,
+	"created_by" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "tenders" ADD CONSTRAINT "tenders_publisher_id_publishers_id_fk" FOREIGN KEY ("publisher_id") REFERENCES "public"."publishers"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "tenders" ADD CONSTRAINT "tenders_province_id_provinces_id_fk" FOREIGN KEY ("province_id") REFERENCES "public"."provinces"("id") ON DELETE restrict ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "tenders" ADD CONSTRAINT "tenders_created_by_user_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "tenders_publisher_idx" ON "tenders" USING btree ("publisher_id");--> statement-breakpoint
+CREATE INDEX "tenders_province_idx" ON "tenders" USING btree ("province_id");--> statement-breakpoint
+CREATE INDEX "tenders_status_idx" ON "tenders" USING btree ("status");--> statement-breakpoint
+CREATE INDEX "tenders_closing_date_idx" ON "tenders" USING btree ("closing_date");--> statement-breakpoint
+CREATE UNIQUE INDEX "tenders_publisher_reference_idx" ON "tenders" USING btree ("publisher_id","reference_number");
\ No newline at end of file
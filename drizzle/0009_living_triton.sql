@@ -0,0 +1,36 @@
+CREATE TYPE "public"."tender_source_type" AS ENUM('rss', 'atom', 'json', 'html');--> statement-breakpoint
+CREATE TABLE "tender_ingestion_runs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"source_id" uuid NOT NULL,
+	"status" text NOT NULL,
+	"found" integer DEFAULT 0 NOT NULL,
+	"created" integer DEFAULT 0 NOT NULL,
+	"updated" integer DEFAULT 0 NOT NULL,
+	"failed" integer DEFAULT 0 NOT NULL,
+	"errors" jsonb,
+	"started_at" timestamp NOT NULL,
+	"completed_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE "tender_sources" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"publisher_id" uuid NOT NULL,
+	"name" text NOT NULL,
+	"type" "tender_source_type" NOT NULL,
+	"url" text NOT NULL,
+	"config" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"enabled" boolean DEFAULT true NOT NULL,
+	"last_run_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "tenders" ADD COLUMN "source_url" text;--> statement-breakpoint
+ALTER TABLE "tenders" ADD COLUMN "source_id" uuid;--> statement-breakpoint
+ALTER TABLE "tender_ingestion_runs" ADD CONSTRAINT "tender_ingestion_runs_source_id_tender_sources_id_fk" FOREIGN KEY ("source_id") REFERENCES "public"."tender_sources"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "tender_sources" ADD CONSTRAINT "tender_sources_publisher_id_publishers_id_fk" FOREIGN KEY ("publisher_id") REFERENCES "public"."publishers"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "tender_ingestion_runs_source_idx" ON "tender_ingestion_runs" USING btree ("source_id");--> statement-breakpoint
+CREATE INDEX "tender_ingestion_runs_started_at_idx" ON "tender_ingestion_runs" USING btree ("started_at");--> statement-breakpoint
+CREATE INDEX "tender_sources_publisher_idx" ON "tender_sources" USING btree ("publisher_id");--> statement-breakpoint
+CREATE INDEX "tender_sources_enabled_idx" ON "tender_sources" USING btree ("enabled");--> statement-breakpoint
+ALTER TABLE "tenders" ADD CONSTRAINT "tenders_source_id_tender_sources_id_fk" FOREIGN KEY ("source_id") REFERENCES "public"."tender_sources"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
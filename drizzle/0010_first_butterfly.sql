@@ -0,0 +1,34 @@
+CREATE TABLE "saved_search_matches" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"saved_search_id" uuid NOT NULL,
+	"tender_id" uuid NOT NULL,
+	"matched_at" timestamp DEFAULT now() NOT NULL,
+	"notified_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE "saved_searches" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"name" text NOT NULL,
+	"keywords" text,
+	"province_ids" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"publisher_ids" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"categories" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"min_value" numeric(15, 2),
+	"max_value" numeric(15, 2),
+	"alerts_enabled" boolean DEFAULT true NOT NULL,
+	"last_matched_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "tenders" ADD COLUMN "category" text;--> statement-breakpoint
+ALTER TABLE "tenders" ADD COLUMN "estimated_value" numeric(15, 2);--> statement-breakpoint
+ALTER TABLE "saved_search_matches" ADD CONSTRAINT "saved_search_matches_saved_search_id_saved_searches_id_fk" FOREIGN KEY ("saved_search_id") REFERENCES "public"."saved_searches"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "saved_search_matches" ADD CONSTRAINT "saved_search_matches_tender_id_tenders_id_fk" FOREIGN KEY ("tender_id") REFERENCES "public"."tenders"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "saved_searches" ADD CONSTRAINT "saved_searches_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "saved_search_matches_search_tender_idx" ON "saved_search_matches" USING btree ("saved_search_id","tender_id");--> statement-breakpoint
+CREATE INDEX "saved_search_matches_notified_at_idx" ON "saved_search_matches" USING btree ("notified_at");--> statement-breakpoint
+CREATE INDEX "saved_searches_user_idx" ON "saved_searches" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "tenders_category_idx" ON "tenders" USING btree ("category");--> statement-breakpoint
+CREATE INDEX "tenders_created_at_idx" ON "tenders" USING btree ("created_at");
\ No newline at end of file
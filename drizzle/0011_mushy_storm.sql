@@ -0,0 +1,13 @@
+CREATE TABLE "tracked_tenders" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"tender_id" uuid NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "email_preferences" ADD COLUMN "tender_reminders" boolean DEFAULT true NOT NULL;--> statement-breakpoint
+ALTER TABLE "email_preferences" ADD COLUMN "tender_reminder_lead_days" jsonb DEFAULT '[7,2,0]'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "tracked_tenders" ADD CONSTRAINT "tracked_tenders_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "tracked_tenders" ADD CONSTRAINT "tracked_tenders_tender_id_tenders_id_fk" FOREIGN KEY ("tender_id") REFERENCES "public"."tenders"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "tracked_tenders_user_tender_idx" ON "tracked_tenders" USING btree ("user_id","tender_id");--> statement-breakpoint
+CREATE INDEX "tracked_tenders_tender_idx" ON "tracked_tenders" USING btree ("tender_id");
\ No newline at end of file
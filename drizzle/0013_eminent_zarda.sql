@@ -0,0 +1,22 @@
+CREATE TYPE "public"."pipeline_stage" AS ENUM('identified', 'reviewing', 'bid', 'submitted', 'won', 'lost', 'no_bid');--> statement-breakpoint
+CREATE TABLE "tender_pipeline" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tender_id" uuid NOT NULL,
+	"stage" "pipeline_stage" DEFAULT 'identified' NOT NULL,
+	"owner_id" text,
+	"review_due_date" timestamp,
+	"submission_due_date" timestamp,
+	"notes" text,
+	"outcome_reason" text,
+	"stage_changed_at" timestamp DEFAULT now() NOT NULL,
+	"created_by" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "tender_pipeline_tender_id_unique" UNIQUE("tender_id")
+);
+--> statement-breakpoint
+ALTER TABLE "tender_pipeline" ADD CONSTRAINT "tender_pipeline_tender_id_tenders_id_fk" FOREIGN KEY ("tender_id") REFERENCES "public"."tenders"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "tender_pipeline" ADD CONSTRAINT "tender_pipeline_owner_id_user_id_fk" FOREIGN KEY ("owner_id") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "tender_pipeline" ADD CONSTRAINT "tender_pipeline_created_by_user_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "tender_pipeline_stage_idx" ON "tender_pipeline" USING btree ("stage");--> statement-breakpoint
+CREATE INDEX "tender_pipeline_owner_idx" ON "tender_pipeline" USING btree ("owner_id");
\ No newline at end of file
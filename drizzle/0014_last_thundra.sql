@@ -0,0 +1,10 @@
+CREATE TYPE "public"."publisher_category" AS ENUM('government', 'municipal', 'provincial', 'private');--> statement-breakpoint
+ALTER TABLE "publishers" ADD COLUMN "category" "publisher_category";--> statement-breakpoint
+ALTER TABLE "publishers" ADD COLUMN "description" text;--> statement-breakpoint
+ALTER TABLE "publishers" ADD COLUMN "tags" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "publishers" ADD COLUMN "contact_name" text;--> statement-breakpoint
+ALTER TABLE "publishers" ADD COLUMN "contact_email" text;--> statement-breakpoint
+ALTER TABLE "publishers" ADD COLUMN "contact_phone" text;--> statement-breakpoint
+ALTER TABLE "publishers" ADD COLUMN "procurement_portal_url" text;--> statement-breakpoint
+ALTER TABLE "publishers" ADD COLUMN "logo_url" text;--> statement-breakpoint
+CREATE INDEX "publishers_category_idx" ON "publishers" USING btree ("category");
\ No newline at end of file
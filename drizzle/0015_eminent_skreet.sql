@@ -0,0 +1,4 @@
+ALTER TABLE "publishers" ADD COLUMN "search_vector" "tsvector" GENERATED ALWAYS AS (setweight(to_tsvector('english', coalesce("publishers"."name", '')), 'A') || setweight(to_tsvector('english', coalesce("publishers"."description", '')), 'B')) STORED;--> statement-breakpoint
+ALTER TABLE "tenders" ADD COLUMN "search_vector" "tsvector" GENERATED ALWAYS AS (setweight(to_tsvector('english', coalesce("tenders"."title", '') || ' ' || coalesce("tenders"."reference_number", '')), 'A') || setweight(to_tsvector('english', coalesce("tenders"."description", '')), 'B')) STORED;--> statement-breakpoint
+CREATE INDEX "publishers_search_idx" ON "publishers" USING gin ("search_vector");--> statement-breakpoint
+CREATE INDEX "tenders_search_idx" ON "tenders" USING gin ("search_vector");
\ No newline at end of file
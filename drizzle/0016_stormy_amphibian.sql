@@ -0,0 +1,26 @@
+CREATE TABLE "publisher_link_checks" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"publisher_id" uuid NOT NULL,
+	"url" text NOT NULL,
+	"ok" boolean NOT NULL,
+	"status_code" integer,
+	"redirect_url" text,
+	"response_time_ms" integer,
+	"tls_expires_at" timestamp,
+	"error" text,
+	"checked_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "publisher_link_status" (
+	"publisher_id" uuid PRIMARY KEY NOT NULL,
+	"consecutive_failures" integer DEFAULT 0 NOT NULL,
+	"broken_since" timestamp,
+	"last_checked_at" timestamp NOT NULL,
+	"last_status_code" integer,
+	"last_error" text,
+	"tls_expires_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "publisher_link_checks" ADD CONSTRAINT "publisher_link_checks_publisher_id_publishers_id_fk" FOREIGN KEY ("publisher_id") REFERENCES "public"."publishers"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "publisher_link_status" ADD CONSTRAINT "publisher_link_status_publisher_id_publishers_id_fk" FOREIGN KEY ("publisher_id") REFERENCES "public"."publishers"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "publisher_link_checks_publisher_idx" ON "publisher_link_checks" USING btree ("publisher_id","checked_at");
\ No newline at end of file
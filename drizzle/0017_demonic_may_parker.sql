@@ -0,0 +1,15 @@
+CREATE TABLE "publisher_snapshots" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"publisher_id" uuid NOT NULL,
+	"url" text NOT NULL,
+	"content_hash" text NOT NULL,
+	"content" text NOT NULL,
+	"diff" jsonb,
+	"added_lines" integer DEFAULT 0 NOT NULL,
+	"removed_lines" integer DEFAULT 0 NOT NULL,
+	"captured_at" timestamp DEFAULT now() NOT NULL,
+	"last_seen_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "publisher_snapshots" ADD CONSTRAINT "publisher_snapshots_publisher_id_publishers_id_fk" FOREIGN KEY ("publisher_id") REFERENCES "public"."publishers"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "publisher_snapshots_publisher_idx" ON "publisher_snapshots" USING btree ("publisher_id","captured_at");
\ No newline at end of file
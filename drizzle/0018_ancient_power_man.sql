@@ -0,0 +1,55 @@
+CREATE TABLE "organization" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"slug" text NOT NULL,
+	"created_by" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "organization_slug_unique" UNIQUE("slug")
+);
+--> statement-breakpoint
+CREATE TABLE "organization_member" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"user_id" text NOT NULL,
+	"role" "role" DEFAULT 'user' NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "system_settings" DROP CONSTRAINT "system_settings_setting_key_unique";--> statement-breakpoint
+ALTER TABLE "tender_pipeline" DROP CONSTRAINT "tender_pipeline_tender_id_unique";--> statement-breakpoint
+ALTER TABLE "audit_log" ADD COLUMN "organization_id" uuid;--> statement-breakpoint
+ALTER TABLE "invitation" ADD COLUMN "organization_id" uuid;--> statement-breakpoint
+ALTER TABLE "system_settings" ADD COLUMN "organization_id" uuid;--> statement-breakpoint
+ALTER TABLE "tender_pipeline" ADD COLUMN "organization_id" uuid;--> statement-breakpoint
+ALTER TABLE "user" ADD COLUMN "active_organization_id" uuid;--> statement-breakpoint
+ALTER TABLE "user_bookmarks" ADD COLUMN "organization_id" uuid;--> statement-breakpoint
+-- Move existing data into a default organisation, keeping each user's role
+INSERT INTO "organization" ("name", "slug") VALUES ('Tender Hub', 'default');--> statement-breakpoint
+INSERT INTO "organization_member" ("organization_id", "user_id", "role")
+SELECT (SELECT "id" FROM "organization" WHERE "slug" = 'default'), "id", "role" FROM "user";--> statement-breakpoint
+UPDATE "user" SET "active_organization_id" = (SELECT "id" FROM "organization" WHERE "slug" = 'default');--> statement-breakpoint
+UPDATE "user_bookmarks" SET "organization_id" = (SELECT "id" FROM "organization" WHERE "slug" = 'default');--> statement-breakpoint
+UPDATE "tender_pipeline" SET "organization_id" = (SELECT "id" FROM "organization" WHERE "slug" = 'default');--> statement-breakpoint
+UPDATE "invitation" SET "organization_id" = (SELECT "id" FROM "organization" WHERE "slug" = 'default');--> statement-breakpoint
+UPDATE "audit_log" SET "organization_id" = (SELECT "id" FROM "organization" WHERE "slug" = 'default');--> statement-breakpoint
+UPDATE "system_settings" SET "organization_id" = (SELECT "id" FROM "organization" WHERE "slug" = 'default');--> statement-breakpoint
+ALTER TABLE "user_bookmarks" ALTER COLUMN "organization_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "tender_pipeline" ALTER COLUMN "organization_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "invitation" ALTER COLUMN "organization_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "organization" ADD CONSTRAINT "organization_created_by_user_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "organization_member" ADD CONSTRAINT "organization_member_organization_id_organization_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organization"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "organization_member" ADD CONSTRAINT "organization_member_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "organization_member_organization_user_idx" ON "organization_member" USING btree ("organization_id","user_id");--> statement-breakpoint
+CREATE INDEX "organization_member_user_idx" ON "organization_member" USING btree ("user_id");--> statement-breakpoint
+ALTER TABLE "audit_log" ADD CONSTRAINT "audit_log_organization_id_organization_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organization"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "invitation" ADD CONSTRAINT "invitation_organization_id_organization_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organization"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "system_settings" ADD CONSTRAINT "system_settings_organization_id_organization_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organization"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "tender_pipeline" ADD CONSTRAINT "tender_pipeline_organization_id_organization_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organization"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "user" ADD CONSTRAINT "user_active_organization_id_organization_id_fk" FOREIGN KEY ("active_organization_id") REFERENCES "public"."organization"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "user_bookmarks" ADD CONSTRAINT "user_bookmarks_organization_id_organization_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organization"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "audit_log_organization_idx" ON "audit_log" USING btree ("organization_id");--> statement-breakpoint
+CREATE INDEX "invitation_organization_idx" ON "invitation" USING btree ("organization_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "tender_pipeline_organization_tender_idx" ON "tender_pipeline" USING btree ("organization_id","tender_id");--> statement-breakpoint
+CREATE INDEX "user_bookmarks_organization_idx" ON "user_bookmarks" USING btree ("organization_id");--> statement-breakpoint
+ALTER TABLE "system_settings" ADD CONSTRAINT "system_settings_organization_key_unique" UNIQUE NULLS NOT DISTINCT("organization_id","setting_key");
\ No newline at end of file
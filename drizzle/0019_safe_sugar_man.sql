@@ -0,0 +1,5 @@
+ALTER TABLE "user" ADD COLUMN "failed_login_attempts" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "user" ADD COLUMN "locked_until" timestamp;--> statement-breakpoint
+-- General, security and database settings cover the whole platform, so they are stored without an organisation
+DELETE FROM "system_settings" WHERE "organization_id" IS NULL AND "setting_key" IN ('general', 'security', 'database') AND "setting_key" IN (SELECT "setting_key" FROM "system_settings" WHERE "organization_id" = (SELECT "id" FROM "organization" WHERE "slug" = 'default'));--> statement-breakpoint
+UPDATE "system_settings" SET "organization_id" = NULL WHERE "setting_key" IN ('general', 'security', 'database') AND "organization_id" = (SELECT "id" FROM "organization" WHERE "slug" = 'default');
@@ -0,0 +1,16 @@
+CREATE TABLE "two_factor" (
+	"id" text PRIMARY KEY NOT NULL,
+	"secret" text NOT NULL,
+	"backup_codes" text NOT NULL,
+	"user_id" text NOT NULL,
+	"verified" boolean DEFAULT true,
+	"failed_verification_count" integer DEFAULT 0,
+	"locked_until" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "user" ADD COLUMN "two_factor_enabled" boolean DEFAULT false;--> statement-breakpoint
+ALTER TABLE "two_factor" ADD CONSTRAINT "two_factor_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "two_factor_user_idx" ON "two_factor" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "two_factor_secret_idx" ON "two_factor" USING btree ("secret");--> statement-breakpoint
+-- "Require 2FA" applied to admin accounts; it becomes a list of roles
+UPDATE "system_settings" SET "setting_value" = ("setting_value" - 'twoFactorRequired') || jsonb_build_object('twoFactorRequiredRoles', CASE WHEN ("setting_value"->>'twoFactorRequired')::boolean THEN '["owner", "admin"]'::jsonb ELSE '[]'::jsonb END) WHERE "setting_key" = 'security' AND "setting_value" ? 'twoFactorRequired';
@@ -0,0 +1,18 @@
+CREATE TABLE "coverage_assignments" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"user_id" text NOT NULL,
+	"publisher_id" uuid,
+	"province_id" uuid,
+	"assigned_by" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "coverage_assignments" ADD CONSTRAINT "coverage_assignments_organization_id_organization_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organization"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "coverage_assignments" ADD CONSTRAINT "coverage_assignments_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "coverage_assignments" ADD CONSTRAINT "coverage_assignments_publisher_id_publishers_id_fk" FOREIGN KEY ("publisher_id") REFERENCES "public"."publishers"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "coverage_assignments" ADD CONSTRAINT "coverage_assignments_province_id_provinces_id_fk" FOREIGN KEY ("province_id") REFERENCES "public"."provinces"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "coverage_assignments" ADD CONSTRAINT "coverage_assignments_assigned_by_user_id_fk" FOREIGN KEY ("assigned_by") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "coverage_assignments_organization_user_idx" ON "coverage_assignments" USING btree ("organization_id","user_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "coverage_assignments_user_publisher_idx" ON "coverage_assignments" USING btree ("organization_id","user_id","publisher_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "coverage_assignments_user_province_idx" ON "coverage_assignments" USING btree ("organization_id","user_id","province_id");
\ No newline at end of file
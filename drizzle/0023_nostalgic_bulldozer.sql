@@ -0,0 +1,17 @@
+CREATE TABLE "retention_policy_runs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"policy_id" uuid NOT NULL,
+	"status" text NOT NULL,
+	"matched" integer DEFAULT 0 NOT NULL,
+	"deleted" integer DEFAULT 0 NOT NULL,
+	"cutoff" timestamp NOT NULL,
+	"error" text,
+	"triggered_by" text,
+	"started_at" timestamp NOT NULL,
+	"completed_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "retention_policy_runs" ADD CONSTRAINT "retention_policy_runs_policy_id_retention_policies_id_fk" FOREIGN KEY ("policy_id") REFERENCES "public"."retention_policies"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "retention_policy_runs" ADD CONSTRAINT "retention_policy_runs_triggered_by_user_id_fk" FOREIGN KEY ("triggered_by") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "retention_policy_runs_policy_idx" ON "retention_policy_runs" USING btree ("policy_id");--> statement-breakpoint
+CREATE INDEX "retention_policy_runs_started_at_idx" ON "retention_policy_runs" USING btree ("started_at");
\ No newline at end of file
@@ -0,0 +1,19 @@
+CREATE TABLE "data_erasure_request" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"reason" text,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"requested_at" timestamp DEFAULT now() NOT NULL,
+	"reviewed_by" text,
+	"reviewed_at" timestamp,
+	"rejection_reason" text,
+	"summary" jsonb,
+	"completed_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "data_erasure_request" ADD CONSTRAINT "data_erasure_request_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "data_erasure_request" ADD CONSTRAINT "data_erasure_request_organization_id_organization_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organization"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "data_erasure_request" ADD CONSTRAINT "data_erasure_request_reviewed_by_user_id_fk" FOREIGN KEY ("reviewed_by") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "data_erasure_user_idx" ON "data_erasure_request" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "data_erasure_organization_status_idx" ON "data_erasure_request" USING btree ("organization_id","status");
\ No newline at end of file
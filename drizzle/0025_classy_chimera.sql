@@ -0,0 +1,50 @@
+CREATE TABLE "alert_incidents" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"rule_id" uuid,
+	"rule_name" text NOT NULL,
+	"severity" text NOT NULL,
+	"status" text DEFAULT 'open' NOT NULL,
+	"context" jsonb NOT NULL,
+	"occurrences" integer DEFAULT 1 NOT NULL,
+	"notified_channels" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"last_notified_at" timestamp,
+	"opened_at" timestamp DEFAULT now() NOT NULL,
+	"last_triggered_at" timestamp DEFAULT now() NOT NULL,
+	"acknowledged_by" text,
+	"acknowledged_at" timestamp,
+	"resolved_by" text,
+	"resolved_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE "alert_rules" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"metric" text NOT NULL,
+	"operator" text DEFAULT 'gt' NOT NULL,
+	"threshold" double precision NOT NULL,
+	"time_window" text,
+	"severity" text NOT NULL,
+	"cooldown_minutes" integer DEFAULT 15 NOT NULL,
+	"channels" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"enabled" boolean DEFAULT true NOT NULL,
+	"muted_until" timestamp,
+	"created_by" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "alert_rules_name_unique" UNIQUE("name")
+);
+--> statement-breakpoint
+ALTER TABLE "alert_incidents" ADD CONSTRAINT "alert_incidents_rule_id_alert_rules_id_fk" FOREIGN KEY ("rule_id") REFERENCES "public"."alert_rules"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "alert_incidents" ADD CONSTRAINT "alert_incidents_acknowledged_by_user_id_fk" FOREIGN KEY ("acknowledged_by") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "alert_incidents" ADD CONSTRAINT "alert_incidents_resolved_by_user_id_fk" FOREIGN KEY ("resolved_by") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "alert_rules" ADD CONSTRAINT "alert_rules_created_by_user_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "alert_incidents_rule_status_idx" ON "alert_incidents" USING btree ("rule_id","status");--> statement-breakpoint
+CREATE INDEX "alert_incidents_opened_at_idx" ON "alert_incidents" USING btree ("opened_at");--> statement-breakpoint
+CREATE INDEX "alert_rules_enabled_idx" ON "alert_rules" USING btree ("enabled");--> statement-breakpoint
+-- Start from the rules that used to be hard-coded in sentry-alerting.ts
+INSERT INTO "alert_rules" ("name", "metric", "operator", "threshold", "time_window", "severity", "cooldown_minutes", "channels") VALUES
+('High Error Rate', 'error_rate', 'gt', 0.05, NULL, 'high', 15, '["email","webhook","sentry"]'),
+('Critical Error Spike', 'error_count', 'gt', 10, NULL, 'critical', 5, '["email","webhook","sentry"]'),
+('Performance Degradation', 'average_response_time', 'gt', 500, NULL, 'medium', 30, '["webhook","sentry"]'),
+('Database Connection Issues', 'error_count', 'gt', 5, '5m', 'high', 10, '["email","webhook","sentry"]'),
+('Authentication Failures', 'error_count', 'gt', 10, '10m', 'medium', 20, '["webhook","sentry"]');
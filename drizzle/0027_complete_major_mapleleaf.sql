@@ -0,0 +1,8 @@
+ALTER TABLE "backup_history" ADD COLUMN "checksum" text;--> statement-breakpoint
+ALTER TABLE "backup_history" ADD COLUMN "verification_status" text;--> statement-breakpoint
+ALTER TABLE "backup_history" ADD COLUMN "verification_error" text;--> statement-breakpoint
+ALTER TABLE "backup_history" ADD COLUMN "verified_at" timestamp;--> statement-breakpoint
+ALTER TABLE "backup_history" ADD COLUMN "pruned_at" timestamp;--> statement-breakpoint
+-- Alert when scheduled backups or their verification fail
+INSERT INTO "alert_rules" ("name", "metric", "operator", "threshold", "time_window", "severity", "cooldown_minutes", "channels") VALUES
+('Database Backup Failures', 'backup_failures', 'gt', 0, NULL, 'high', 60, '["email","webhook","sentry"]');
@@ -0,0 +1,2 @@
+ALTER TABLE "backup_history" ADD COLUMN "storage_target" text DEFAULT 'local' NOT NULL;--> statement-breakpoint
+ALTER TABLE "backup_history" ADD COLUMN "encrypted" boolean DEFAULT false NOT NULL;
\ No newline at end of file
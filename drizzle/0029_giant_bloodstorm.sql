@@ -0,0 +1,6 @@
+ALTER TABLE "backup_history" ADD COLUMN "restore_status" text;--> statement-breakpoint
+ALTER TABLE "backup_history" ADD COLUMN "restore_error" text;--> statement-breakpoint
+ALTER TABLE "backup_history" ADD COLUMN "restored_at" timestamp;--> statement-breakpoint
+-- Alert when restoring the database from a backup fails
+INSERT INTO "alert_rules" ("name", "metric", "operator", "threshold", "time_window", "severity", "cooldown_minutes", "channels") VALUES
+('Database Restore Failures', 'restore_failures', 'gt', 0, NULL, 'critical', 60, '["email","webhook","sentry"]');
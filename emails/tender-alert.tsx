@@ -0,0 +1,190 @@
+import {
+  Body,
+  Button,
+  Container,
+  Head,
+  Hr,
+  Html,
+  Link,
+  Preview,
+  Section,
+  Tailwind,
+  Text,
+} from "@react-email/components";
+
+interface TenderAlertTender {
+  title: string;
+  referenceNumber: string;
+  publisherName: string;
+  closingDate: string;
+  url?: string | null;
+}
+
+interface TenderAlertEmailProps {
+  userEmail?: string;
+  userName?: string;
+  frequency?: "immediate" | "daily" | "weekly";
+  searches?: {
+    name: string;
+    tenders: TenderAlertTender[];
+  }[];
+  tendersUrl?: string;
+  unsubscribeUrl?: string;
+}
+
+const TenderAlertEmail = (props: TenderAlertEmailProps) => {
+  const {
+    userEmail = "user@example.com",
+    userName = "User",
+    frequency = "immediate",
+    searches = [],
+    tendersUrl = "https://tenderhub.com/dashboard/tenders",
+    unsubscribeUrl = "https://tenderhub.com/unsubscribe",
+  } = props;
+
+  const total = searches.reduce(
+    (sum, search) => sum + search.tenders.length,
+    0,
+  );
+
+  const getHeading = () => {
+    switch (frequency) {
+      case "daily":
+        return "Your Daily Tender Digest";
+      case "weekly":
+        return "Your Weekly Tender Digest";
+      default:
+        return "New Matching Tenders";
+    }
+  };
+
+  return (
+    <Html lang="en" dir="ltr">
+      <Tailwind>
+        <Head />
+        <Preview>
+          {`${total} new ${total === 1 ? "tender matches" : "tenders match"} your saved searches`}
+        </Preview>
+        <Body className="bg-gray-100 font-sans py-[40px]">
+          <Container className="bg-white rounded-[8px] shadow-sm max-w-[600px] mx-auto">
+            <Section className="p-[40px]">
+              <Text className="text-[32px] font-bold text-gray-900 text-center mb-[16px] m-0">
+                {getHeading()} 📋
+              </Text>
+
+              <Text className="text-[18px] text-gray-700 text-center mb-[32px] m-0">
+                Hi {userName}, {total} new{" "}
+                {total === 1 ? "tender matches" : "tenders match"} your saved
+                searches.
+              </Text>
+
+              {searches.map((search) => (
+                <Section
+                  key={search.name}
+                  className="bg-gray-50 border border-gray-200 rounded-[8px] p-[20px] mb-[24px]"
+                >
+                  <Text className="text-[16px] font-semibold text-gray-800 mb-[12px] m-0">
+                    🔎 {search.name}
+                  </Text>
+                  {search.tenders.map((tender) => (
+                    <Section
+                      key={`${search.name}-${tender.referenceNumber}`}
+                      className="mb-[16px]"
+                    >
+                      <Text className="text-[14px] font-semibold text-gray-900 leading-[20px] m-0">
+                        {tender.url ? (
+                          <Link
+                            href={tender.url}
+                            className="text-blue-600 underline"
+                          >
+                            {tender.title}
+                          </Link>
+                        ) : (
+                          tender.title
+                        )}
+                      </Text>
+                      <Text className="text-[13px] text-gray-600 leading-[18px] m-0">
+                        {tender.referenceNumber} • {tender.publisherName}
+                      </Text>
+                      <Text className="text-[13px] text-gray-600 leading-[18px] m-0">
+                        Closes {tender.closingDate}
+                      </Text>
+                    </Section>
+                  ))}
+                </Section>
+              ))}
+
+              <Section className="text-center mb-[32px]">
+                <Button
+                  href={tendersUrl}
+                  className="bg-blue-600 text-white px-[32px] py-[16px] rounded-[8px] text-[16px] font-semibold no-underline box-border hover:bg-blue-700"
+                >
+                  View Open Tenders
+                </Button>
+              </Section>
+
+              <Hr className="border-gray-200 my-[32px]" />
+
+              <Text className="text-[14px] text-gray-600 leading-[20px] mb-[16px] m-0">
+                You are receiving this because you saved a tender search with
+                alerts enabled. You can change how often you receive these
+                emails in your account's email preferences.
+              </Text>
+
+              {/* Footer */}
+              <Section className="border-t border-gray-200 pt-[24px]">
+                <Text className="text-[12px] text-gray-500 text-center leading-[16px] m-0 mb-[8px]">
+                  This email was sent to {userEmail}
+                </Text>
+                <Text className="text-[12px] text-gray-500 text-center leading-[16px] m-0 mb-[8px]">
+                  Tender Hub, 123 Business District, Sandton, Johannesburg, 2196
+                </Text>
+                <Text className="text-[12px] text-gray-500 text-center leading-[16px] m-0 mb-[8px]">
+                  <Link
+                    href={unsubscribeUrl}
+                    className="text-gray-500 underline"
+                  >
+                    Unsubscribe from these alerts
+                  </Link>
+                </Text>
+                <Text className="text-[12px] text-gray-500 text-center leading-[16px] m-0">
+                  © {new Date().getFullYear()} Tender Hub. All rights reserved.
+                </Text>
+              </Section>
+            </Section>
+          </Container>
+        </Body>
+      </Tailwind>
+    </Html>
+  );
+};
+
+TenderAlertEmail.PreviewProps = {
+  userEmail: "john.doe@example.com",
+  userName: "John Doe",
+  frequency: "daily" as const,
+  searches: [
+    {
+      name: "Gauteng construction",
+      tenders: [
+        {
+          title: "Upgrade of municipal roads in Ward 12",
+          referenceNumber: "COJ/2025/114",
+          publisherName: "City of Johannesburg",
+          closingDate: "14 November 2025, 11:00",
+          url: "https://example.gov.za/tenders/coj-2025-114",
+        },
+        {
+          title: "Construction of community clinic",
+          referenceNumber: "GDID/2025/031",
+          publisherName: "Gauteng Department of Infrastructure Development",
+          closingDate: "21 November 2025, 12:00",
+        },
+      ],
+    },
+  ],
+  tendersUrl: "https://tenderhub.com/dashboard/tenders",
+  unsubscribeUrl: "https://tenderhub.com/unsubscribe?token=example",
+};
+
+export default TenderAlertEmail;
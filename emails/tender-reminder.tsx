@@ -0,0 +1,153 @@
+import {
+  Body,
+  Button,
+  Container,
+  Head,
+  Hr,
+  Html,
+  Link,
+  Preview,
+  Section,
+  Tailwind,
+  Text,
+} from "@react-email/components";
+
+interface TenderReminderEmailProps {
+  userEmail?: string;
+  userName?: string;
+  tender?: {
+    title: string;
+    referenceNumber: string;
+    publisherName: string;
+    closingDate: string;
+    briefingDate?: string | null;
+    url?: string | null;
+  };
+  leadDays?: number;
+  calendarUrl?: string;
+  unsubscribeUrl?: string;
+}
+
+const TenderReminderEmail = (props: TenderReminderEmailProps) => {
+  const {
+    userEmail = "user@example.com",
+    userName = "User",
+    tender = {
+      title: "Tender",
+      referenceNumber: "REF-001",
+      publisherName: "Publisher",
+      closingDate: "",
+    },
+    leadDays = 7,
+    calendarUrl = "https://tenderhub.com/dashboard/calendar",
+    unsubscribeUrl = "https://tenderhub.com/unsubscribe",
+  } = props;
+
+  const when =
+    leadDays === 0
+      ? "closes today"
+      : `closes in ${leadDays} ${leadDays === 1 ? "day" : "days"}`;
+
+  return (
+    <Html lang="en" dir="ltr">
+      <Tailwind>
+        <Head />
+        <Preview>
+          {`${tender.referenceNumber} ${when}: ${tender.title}`}
+        </Preview>
+        <Body className="bg-gray-100 font-sans py-[40px]">
+          <Container className="bg-white rounded-[8px] shadow-sm max-w-[600px] mx-auto">
+            <Section className="p-[40px]">
+              <Text className="text-[32px] font-bold text-gray-900 text-center mb-[16px] m-0">
+                Closing Soon ⏰
+              </Text>
+
+              <Text className="text-[18px] text-gray-700 text-center mb-[32px] m-0">
+                Hi {userName}, a tender you are following {when}.
+              </Text>
+
+              <Section className="bg-amber-50 border border-amber-200 rounded-[8px] p-[20px] mb-[32px]">
+                <Text className="text-[16px] font-semibold text-gray-900 leading-[22px] mb-[8px] m-0">
+                  {tender.url ? (
+                    <Link href={tender.url} className="text-blue-600 underline">
+                      {tender.title}
+                    </Link>
+                  ) : (
+                    tender.title
+                  )}
+                </Text>
+                <Text className="text-[14px] text-gray-700 leading-[20px] m-0">
+                  {tender.referenceNumber} • {tender.publisherName}
+                </Text>
+                <Text className="text-[14px] text-gray-700 leading-[20px] m-0">
+                  <strong>Closes:</strong> {tender.closingDate}
+                </Text>
+                {tender.briefingDate && (
+                  <Text className="text-[14px] text-gray-700 leading-[20px] m-0">
+                    <strong>Briefing:</strong> {tender.briefingDate}
+                  </Text>
+                )}
+              </Section>
+
+              <Section className="text-center mb-[32px]">
+                <Button
+                  href={calendarUrl}
+                  className="bg-blue-600 text-white px-[32px] py-[16px] rounded-[8px] text-[16px] font-semibold no-underline box-border hover:bg-blue-700"
+                >
+                  Open Deadline Calendar
+                </Button>
+              </Section>
+
+              <Hr className="border-gray-200 my-[32px]" />
+
+              <Text className="text-[14px] text-gray-600 leading-[20px] mb-[16px] m-0">
+                You are receiving this because you track this tender or
+                bookmarked its publisher. You can change when reminders are sent
+                in your account's email preferences.
+              </Text>
+
+              {/* Footer */}
+              <Section className="border-t border-gray-200 pt-[24px]">
+                <Text className="text-[12px] text-gray-500 text-center leading-[16px] m-0 mb-[8px]">
+                  This email was sent to {userEmail}
+                </Text>
+                <Text className="text-[12px] text-gray-500 text-center leading-[16px] m-0 mb-[8px]">
+                  Tender Hub, 123 Business District, Sandton, Johannesburg, 2196
+                </Text>
+                <Text className="text-[12px] text-gray-500 text-center leading-[16px] m-0 mb-[8px]">
+                  <Link
+                    href={unsubscribeUrl}
+                    className="text-gray-500 underline"
+                  >
+                    Unsubscribe from closing reminders
+                  </Link>
+                </Text>
+                <Text className="text-[12px] text-gray-500 text-center leading-[16px] m-0">
+                  © {new Date().getFullYear()} Tender Hub. All rights reserved.
+                </Text>
+              </Section>
+            </Section>
+          </Container>
+        </Body>
+      </Tailwind>
+    </Html>
+  );
+};
+
+TenderReminderEmail.PreviewProps = {
+  userEmail: "john.doe@example.com",
+  userName: "John Doe",
+  tender: {
+    title: "Upgrade of municipal roads in Ward 12",
+    referenceNumber: "COJ/2025/114",
+    publisherName: "City of Johannesburg",
+    closingDate: "14 November 2025, 11:00",
+    briefingDate: "4 November 2025, 10:00",
+    url: "https://example.gov.za/tenders/coj-2025-114",
+  },
+  leadDays: 2,
+  calendarUrl: "https://tenderhub.com/dashboard/calendar",
+  unsubscribeUrl: "https://tenderhub.com/unsubscribe?token=example",
+};
+
+export default TenderReminderEmail;
@@ -9,6 +9,8 @@ const nextConfig: NextConfig = {
   },
   // Enable standalone build for containerized/Docker deployments
   output: "standalone",
+  // Backup storage clients loaded at runtime; ssh2 has optional native bindings
+  serverExternalPackages: ["ssh2", "ssh2-sftp-client"],
 
   // Production security headers
   async headers() {
@@ -1,5 +1,9 @@
-import { desc, eq } from "drizzle-orm";
+import { format, formatDistanceToNow, subDays } from "date-fns";
+import { and, desc, eq } from "drizzle-orm";
 import Link from "next/link";
+import { TenderStatusBadge } from "@/components/tenders/TenderStatusBadge";
+import { TrackTenderButton } from "@/components/tenders/TrackTenderButton";
+import { Badge } from "@/components/ui/badge";
 import {
   Card,
   CardContent,
@@ -9,9 +13,20 @@ import {
 } from "@/components/ui/card";
 import { db } from "@/db";
 import { provinces, publishers, userBookmarks } from "@/db/schema";
+import { requireAuth } from "@/lib/auth-utils";
+import { FEED_HISTORY_DAYS } from "@/lib/calendar-feed";
+import { getBookmarkedTenders } from "@/lib/tender-deadlines";
 
 export default async function BookmarksPage() {
-  // Get user's bookmarked publishers (empty for now since we removed auth)
+  const session = await requireAuth();
+
+  // Same tenders as the user's calendar feed
+  const deadlineTenders = await getBookmarkedTenders(
+    session.user.id,
+    subDays(new Date(), FEED_HISTORY_DAYS),
+  );
+
+  // Get user's bookmarked publishers
   const bookmarkedPublishers = await db
     .select({
       id: publishers.id,
@@ -23,6 +38,12 @@ export default async function BookmarksPage() {
     .from(userBookmarks)
     .innerJoin(publishers, eq(userBookmarks.publisherId, publishers.id))
     .leftJoin(provinces, eq(publishers.province_id, provinces.id))
+    .where(
+      and(
+        eq(userBookmarks.userId, session.user.id),
+        eq(userBookmarks.organizationId, session.organization.id),
+      ),
+    )
     .limit(10)
     .orderBy(desc(userBookmarks.createdAt));
 
@@ -84,6 +105,64 @@ export default async function BookmarksPage() {
           </div>
         )}
 
+        <Card>
+          <CardHeader>
+            <CardTitle>Tender Deadlines</CardTitle>
+            <CardDescription>
+              Tenders you track and open tenders from your bookmarked
+              publishers. These also appear in your calendar subscription.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {deadlineTenders.length === 0 ? (
+              <p className="py-6 text-center text-sm text-muted-foreground">
+                No upcoming deadlines. Track tenders from the{" "}
+                <Link
+                  href="/dashboard/tenders"
+                  className="text-primary hover:underline"
+                >
+                  tenders page
+                </Link>{" "}
+                to follow their closing dates.
+              </p>
+            ) : (
+              <div className="divide-y">
+                {deadlineTenders.map((tender) => (
+                  <div
+                    key={tender.id}
+                    className="flex items-center justify-between gap-4 py-3"
+                  >
+                    <div className="min-w-0">
+                      <p className="truncate font-medium">{tender.title}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {tender.referenceNumber} · {tender.publisherName}
+                      </p>
+                    </div>
+                    <div className="flex shrink-0 items-center gap-2">
+                      {!tender.trackedAt && (
+                        <Badge variant="outline">Bookmarked publisher</Badge>
+                      )}
+                      <TenderStatusBadge status={tender.status} />
+                      <div className="text-right text-sm">
+                        <p>{format(new Date(tender.closingDate), "PPp")}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {formatDistanceToNow(new Date(tender.closingDate), {
+                            addSuffix: true,
+                          })}
+                        </p>
+                      </div>
+                      <TrackTenderButton
+                        tenderId={tender.id}
+                        tracked={Boolean(tender.trackedAt)}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
         <div className="flex justify-start">
           <Link
             href="/dashboard"
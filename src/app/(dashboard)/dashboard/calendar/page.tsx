@@ -0,0 +1,131 @@
+import { format } from "date-fns";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import Link from "next/link";
+import { DeadlineCalendar } from "@/components/tenders/DeadlineCalendar";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { requireAuth } from "@/lib/auth-utils";
+import {
+  CALENDAR_VIEWS,
+  type CalendarView,
+  getCalendarRange,
+  parseCalendarDate,
+  parseCalendarView,
+  shiftCalendarDate,
+} from "@/lib/tender-deadline-schedule";
+import { getUserDeadlineTenders } from "@/lib/tender-deadlines";
+
+interface CalendarPageProps {
+  searchParams: Promise<{ view?: string; date?: string }>;
+}
+
+const viewLabels: Record<CalendarView, string> = {
+  month: "Month",
+  week: "Week",
+  agenda: "Agenda",
+};
+
+function calendarHref(view: CalendarView, date: Date) {
+  return `/dashboard/calendar?view=${view}&date=${format(date, "yyyy-MM-dd")}`;
+}
+
+function getRangeTitle(
+  view: CalendarView,
+  range: { from: Date; to: Date },
+  date: Date,
+) {
+  if (view === "month") return format(date, "MMMM yyyy");
+  return `${format(range.from, "d MMM")} – ${format(range.to, "d MMM yyyy")}`;
+}
+
+export default async function CalendarPage({
+  searchParams,
+}: CalendarPageProps) {
+  const session = await requireAuth();
+  const params = await searchParams;
+
+  const view = parseCalendarView(params.view);
+  const date = parseCalendarDate(params.date);
+  const range = getCalendarRange(view, date);
+
+  const deadlineTenders = await getUserDeadlineTenders(session.user.id, range);
+
+  return (
+    <div className="flex flex-1 flex-col gap-4 p-4 pt-0">
+      <div className="space-y-8">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">
+            Deadline Calendar
+          </h1>
+          <p className="text-muted-foreground">
+            Closing dates and briefings for tenders you track and publishers you
+            bookmarked
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-4">
+            <div>
+              <CardTitle>{getRangeTitle(view, range, date)}</CardTitle>
+              <CardDescription>
+                Reminder emails follow the lead times in your{" "}
+                <Link href="/account" className="text-primary hover:underline">
+                  email preferences
+                </Link>
+              </CardDescription>
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <div className="flex items-center gap-1">
+                <Button variant="outline" size="sm" asChild>
+                  <Link
+                    href={calendarHref(view, shiftCalendarDate(view, date, -1))}
+                  >
+                    <ChevronLeft className="h-4 w-4" />
+                  </Link>
+                </Button>
+                <Button variant="outline" size="sm" asChild>
+                  <Link href={calendarHref(view, new Date())}>Today</Link>
+                </Button>
+                <Button variant="outline" size="sm" asChild>
+                  <Link
+                    href={calendarHref(view, shiftCalendarDate(view, date, 1))}
+                  >
+                    <ChevronRight className="h-4 w-4" />
+                  </Link>
+                </Button>
+              </div>
+              <div className="flex items-center gap-1">
+                {CALENDAR_VIEWS.map((option) => (
+                  <Button
+                    key={option}
+                    variant={option === view ? "default" : "outline"}
+                    size="sm"
+                    asChild
+                  >
+                    <Link href={calendarHref(option, date)}>
+                      {viewLabels[option]}
+                    </Link>
+                  </Button>
+                ))}
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <DeadlineCalendar
+              view={view}
+              date={date}
+              range={range}
+              tenders={deadlineTenders}
+            />
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,17 @@
 "use client";
 
-import { Building, CheckCircle, FileText, Settings, Users } from "lucide-react";
+import {
+  Building,
+  CheckCircle,
+  ClipboardList,
+  FileText,
+  Settings,
+  Users,
+} from "lucide-react";
 import Link from "next/link";
 import { useEffect, useState } from "react";
 import { OnboardingTour } from "@/components/onboarding-tour";
+import { TenderStatusBadge } from "@/components/tenders/TenderStatusBadge";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import {
@@ -13,6 +21,7 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
+import type { TenderStatus } from "@/db/schema";
 import { formatUserRole } from "@/lib/auth-utils-client";
 
 interface User {
@@ -30,11 +39,22 @@ interface Publisher {
   createdAt: Date | string;
 }
 
+interface Tender {
+  id: string;
+  referenceNumber: string;
+  title: string;
+  closingDate: Date | string;
+  status: TenderStatus;
+  publisherName: string;
+  provinceName?: string | null;
+}
+
 interface DashboardContentProps {
   user: User | null;
   provinceCount: number;
   publisherCount: number;
   recentPublishers: Publisher[];
+  upcomingTenders: Tender[];
 }
 
 export function DashboardContent({
@@ -42,6 +62,7 @@ export function DashboardContent({
   provinceCount,
   publisherCount,
   recentPublishers,
+  upcomingTenders,
 }: DashboardContentProps) {
   const [showTour, setShowTour] = useState(false);
   const [tourCompleted, setTourCompleted] = useState(false);
@@ -126,6 +147,11 @@ export function DashboardContent({
               label: "Browse Publishers",
               href: "/dashboard/publishers",
             },
+            {
+              icon: ClipboardList,
+              label: "Open Tenders",
+              href: "/dashboard/tenders",
+            },
             { icon: FileText, label: "My Account", href: "/account" },
           ],
         };
@@ -229,8 +255,81 @@ export function DashboardContent({
                 </p>
               </CardContent>
             </Card>
+
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">
+                  Closing Soon
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold text-orange-600">
+                  {upcomingTenders.length}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Next open tenders
+                </p>
+              </CardContent>
+            </Card>
           </div>
 
+          {/* Upcoming Tenders */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Upcoming Tenders</CardTitle>
+              <CardDescription>
+                Open tenders closing soonest and the publishers that issued
+                them
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {upcomingTenders.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  No open tenders at the moment.
+                </p>
+              ) : (
+                <div className="space-y-4">
+                  {upcomingTenders.map((tender) => (
+                    <div
+                      key={tender.id}
+                      className="flex items-center justify-between p-4 border rounded-lg hover:bg-muted/50 transition-colors"
+                    >
+                      <div className="space-y-1">
+                        <p className="text-sm font-medium">{tender.title}</p>
+                        <div className="flex items-center space-x-2 text-xs text-muted-foreground">
+                          <span className="font-mono">
+                            {tender.referenceNumber}
+                          </span>
+                          <span>•</span>
+                          <span>{tender.publisherName}</span>
+                          {tender.provinceName && (
+                            <>
+                              <span>•</span>
+                              <span>{tender.provinceName}</span>
+                            </>
+                          )}
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-3">
+                        <span className="text-xs text-muted-foreground">
+                          Closes{" "}
+                          {new Date(tender.closingDate).toLocaleDateString()}
+                        </span>
+                        <TenderStatusBadge status={tender.status} />
+                      </div>
+                    </div>
+                  ))}
+                  <Link
+                    href="/dashboard/tenders"
+                    className="text-primary hover:text-primary/80 transition-colors text-sm font-medium"
+                  >
+                    View all open tenders
+                  </Link>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
           {/* Recent Publishers */}
           <Card>
             <CardHeader>
@@ -1,5 +1,6 @@
-import { count, desc, eq } from "drizzle-orm";
+import { formatDistanceToNow } from "date-fns";
 import Link from "next/link";
+import { Button } from "@/components/ui/button";
 import {
   Card,
   CardContent,
@@ -7,80 +8,176 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
-import { db } from "@/db";
-import { pageViews, provinces, publishers } from "@/db/schema";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { getMyConsentStatus } from "@/server/consent";
+import { getMyVisitHistory } from "@/server/visits";
+
+// Quick ranges offered above the history, in days
+const RANGE_PRESETS = [7, 30, 90] as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
 
-export default async function MostVisitedPage() {
-  // Get most visited publishers based on page views (no user filtering)
-  const mostVisitedPublishers = await db
-    .select({
-      id: publishers.id,
-      name: publishers.name,
-      website: publishers.website,
-      provinceName: provinces.name,
-      visitCount: count(pageViews.id),
-    })
-    .from(publishers)
-    .leftJoin(provinces, eq(publishers.province_id, provinces.id))
-    .leftJoin(pageViews, eq(pageViews.url, publishers.website))
-    .groupBy(publishers.id, publishers.name, publishers.website, provinces.name)
-    .orderBy(desc(count(pageViews.id)))
-    .limit(10);
+interface MostVisitedPageProps {
+  searchParams: Promise<{ from?: string; to?: string }>;
+}
+
+function toDay(date: Date) {
+  return date.toISOString().split("T")[0];
+}
+
+export default async function MostVisitedPage({
+  searchParams,
+}: MostVisitedPageProps) {
+  const [{ from, to, history }, consent] = await Promise.all([
+    getMyVisitHistory(await searchParams),
+    getMyConsentStatus(),
+  ]);
+  const analyticsGranted = !!consent?.preferences.analytics;
+  const fromDay = toDay(from);
+  const toDayInclusive = toDay(new Date(to.getTime() - DAY_MS));
+  const today = toDay(new Date());
 
   return (
     <div className="flex flex-1 flex-col gap-4 p-4 pt-0">
       <div className="space-y-8">
         <div>
           <h1 className="text-3xl font-bold tracking-tight">
-            Most Visited Publishers
+            Your Visit History
           </h1>
           <p className="text-muted-foreground">
-            Publishers visited most frequently
+            Pages you visited most between {fromDay} and {toDayInclusive},
+            across all your devices
           </p>
         </div>
 
-        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-          {mostVisitedPublishers.map((publisher, index) => (
-            <Card key={publisher.id} className="relative">
-              <CardHeader className="pb-3">
-                <div className="flex items-center justify-between">
-                  <CardTitle className="text-lg">{publisher.name}</CardTitle>
-                  <span className="text-2xl font-bold text-primary">
-                    #{index + 1}
-                  </span>
-                </div>
-                <CardDescription>{publisher.provinceName}</CardDescription>
-              </CardHeader>
-              <CardContent>
-                <div className="space-y-2">
-                  {publisher.website && (
-                    <Link
-                      href={publisher.website}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="text-sm text-blue-600 hover:underline break-all"
-                    >
-                      {publisher.website}
-                    </Link>
-                  )}
-                  <div className="flex items-center justify-between text-sm text-muted-foreground">
-                    <span>Visits</span>
-                    <span className="font-medium">{publisher.visitCount}</span>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
-          ))}
+        <div className="flex flex-wrap items-end gap-4">
+          <form className="flex flex-wrap items-end gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="from">From</Label>
+              <Input
+                id="from"
+                name="from"
+                type="date"
+                defaultValue={fromDay}
+                max={today}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="to">To</Label>
+              <Input
+                id="to"
+                name="to"
+                type="date"
+                defaultValue={toDayInclusive}
+                max={today}
+              />
+            </div>
+            <Button type="submit">Apply</Button>
+          </form>
+          <div className="flex gap-1">
+            {RANGE_PRESETS.map((days) => (
+              <Button key={days} asChild size="sm" variant="outline">
+                <Link
+                  href={`/dashboard/most-visited?from=${toDay(
+                    new Date(Date.now() - (days - 1) * DAY_MS),
+                  )}&to=${today}`}
+                >
+                  {days}d
+                </Link>
+              </Button>
+            ))}
+          </div>
         </div>
 
-        {mostVisitedPublishers.length === 0 && (
-          <div className="text-center py-12">
-            <p className="text-muted-foreground">
-              No visit data available yet. Start visiting publishers to see your
-              most visited list.
-            </p>
-          </div>
-        )}
+        <div className="grid gap-4 md:grid-cols-3">
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Visits</CardDescription>
+              <CardTitle className="text-2xl">{history.totalVisits}</CardTitle>
+            </CardHeader>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Pages</CardDescription>
+              <CardTitle className="text-2xl">{history.uniquePages}</CardTitle>
+            </CardHeader>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Sessions</CardDescription>
+              <CardTitle className="text-2xl">{history.sessions}</CardTitle>
+            </CardHeader>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Most Visited</CardTitle>
+            <CardDescription>Most visited pages first</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {history.pages.length === 0 ? (
+              <div className="py-12 text-center">
+                <p className="text-muted-foreground">
+                  {analyticsGranted
+                    ? "No visits in this range yet."
+                    : "Analytics is turned off in your privacy preferences, so visits are not recorded."}
+                </p>
+                {!analyticsGranted && (
+                  <Link
+                    href="/account#privacy"
+                    className="mt-4 inline-flex items-center justify-center rounded-lg bg-primary px-4 py-2 font-medium text-primary-foreground transition-colors hover:bg-primary/90"
+                  >
+                    Privacy Preferences
+                  </Link>
+                )}
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Page</TableHead>
+                    <TableHead className="text-right">Visits</TableHead>
+                    <TableHead>Last visited</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {history.pages.map((page) => (
+                    <TableRow key={`${page.url}-${page.publisherName}`}>
+                      <TableCell className="max-w-md">
+                        <Link
+                          href={page.url}
+                          className="break-all text-blue-600 hover:underline"
+                        >
+                          {page.publisherName ?? page.url}
+                        </Link>
+                      </TableCell>
+                      <TableCell className="text-right font-medium">
+                        {page.visits}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {page.lastVisitedAt
+                          ? formatDistanceToNow(page.lastVisitedAt, {
+                              addSuffix: true,
+                            })
+                          : "Never"}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
 
         <div className="flex justify-start">
           <Link
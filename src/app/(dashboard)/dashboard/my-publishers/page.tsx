@@ -0,0 +1,127 @@
+import { formatDistanceToNow } from "date-fns";
+import Link from "next/link";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { normalizeWebsiteUrl } from "@/lib/link-health";
+import { COVERAGE_STALE_DAYS } from "@/lib/validations/coverage";
+import { getMyCoveredPublishers } from "@/server/coverage";
+
+export default async function MyPublishersPage() {
+  const coveredPublishers = await getMyCoveredPublishers();
+  const staleBefore = Date.now() - COVERAGE_STALE_DAYS * 24 * 60 * 60 * 1000;
+
+  return (
+    <div className="flex flex-1 flex-col gap-4 p-4 pt-0">
+      <div className="space-y-8">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">My Publishers</h1>
+          <p className="text-muted-foreground">
+            Publishers your manager has assigned to you, least recently visited
+            first
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Coverage</CardTitle>
+            <CardDescription>
+              {coveredPublishers.length} publishers. Those you have not visited
+              in {COVERAGE_STALE_DAYS} days are flagged.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {coveredPublishers.length === 0 ? (
+              <div className="py-12 text-center">
+                <p className="text-muted-foreground">
+                  No publishers are assigned to you yet. Your manager assigns
+                  publishers and provinces from the team page.
+                </p>
+                <Link
+                  href="/dashboard/publishers"
+                  className="mt-4 inline-flex items-center justify-center rounded-lg bg-primary px-4 py-2 font-medium text-primary-foreground transition-colors hover:bg-primary/90"
+                >
+                  Browse Publishers
+                </Link>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Publisher</TableHead>
+                    <TableHead>Province</TableHead>
+                    <TableHead>Assigned</TableHead>
+                    <TableHead>Last visited</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {coveredPublishers.map((publisher) => {
+                    const page =
+                      publisher.procurementPortalUrl ?? publisher.website;
+                    const stale =
+                      !publisher.lastVisitedAt ||
+                      publisher.lastVisitedAt.getTime() < staleBefore;
+
+                    return (
+                      <TableRow key={publisher.id}>
+                        <TableCell className="font-medium">
+                          {page ? (
+                            <Link
+                              href={normalizeWebsiteUrl(page)}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="text-blue-600 hover:underline"
+                            >
+                              {publisher.name}
+                            </Link>
+                          ) : (
+                            publisher.name
+                          )}
+                        </TableCell>
+                        <TableCell>{publisher.provinceName}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline">
+                            {publisher.assignedVia === "province"
+                              ? "Via province"
+                              : "Directly"}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            <span className="text-sm text-muted-foreground">
+                              {publisher.lastVisitedAt
+                                ? formatDistanceToNow(publisher.lastVisitedAt, {
+                                    addSuffix: true,
+                                  })
+                                : "Never"}
+                            </span>
+                            {stale && (
+                              <Badge variant="destructive">Needs a visit</Badge>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -1,16 +1,14 @@
 import { count, desc, eq } from "drizzle-orm";
-import { headers } from "next/headers";
 import { redirect } from "next/navigation";
 import { db } from "@/db";
 import { provinces, publishers } from "@/db/schema";
-import { auth } from "@/lib/auth";
+import { getSessionWithRole } from "@/lib/auth-utils";
+import { getTenders } from "@/server/tender";
 import { DashboardContent } from "./dashboard-content";
 
 export default async function Dashboard() {
-  // Get session from Better Auth
-  const session = await auth.api.getSession({
-    headers: await headers(),
-  });
+  // Get session with the role in the active organisation
+  const session = await getSessionWithRole();
 
   // Redirect to sign-in if not authenticated
   if (!session?.user) {
@@ -20,7 +18,7 @@ export default async function Dashboard() {
   const user = session.user;
 
   // Role-based redirects
-  if (user.role === 'admin') {
+  if (user.role === 'owner' || user.role === 'admin') {
     redirect('/admin');
   }
   
@@ -46,12 +44,20 @@ export default async function Dashboard() {
     .orderBy(desc(publishers.createdAt))
     .limit(5);
 
+  // Open tenders closing soonest, with their issuing publisher
+  const upcomingTenders = await getTenders({
+    status: "open",
+    closingAfter: new Date(),
+    limit: 5,
+  });
+
   return (
     <DashboardContent
       user={user}
       provinceCount={provinceCount.count}
       publisherCount={publisherCount.count}
       recentPublishers={recentPublishers}
+      upcomingTenders={upcomingTenders}
     />
   );
 }
@@ -0,0 +1,40 @@
+import { PipelineBoard } from "@/components/tenders/PipelineBoard";
+import { PipelineReportCard } from "@/components/tenders/PipelineReportCard";
+import {
+  getPipelineBoard,
+  getPipelineCandidates,
+  getPipelineOwners,
+  getTeamPipelineReport,
+} from "@/server/pipeline";
+
+export default async function PipelinePage() {
+  const [board, candidates] = await Promise.all([
+    getPipelineBoard(),
+    getPipelineCandidates(),
+  ]);
+
+  // Only managers can reassign cards and see team outcomes
+  const [owners, report] = board.teamView
+    ? await Promise.all([getPipelineOwners(), getTeamPipelineReport()])
+    : [undefined, null];
+
+  return (
+    <div className="flex flex-1 flex-col gap-4 p-4 pt-0">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Bid Pipeline</h1>
+        <p className="text-muted-foreground">
+          Move tenders from first look to bid decision and outcome
+        </p>
+      </div>
+
+      {report && <PipelineReportCard report={report} />}
+
+      <PipelineBoard
+        items={board.items}
+        candidates={candidates}
+        owners={owners}
+        teamView={board.teamView}
+      />
+    </div>
+  );
+}
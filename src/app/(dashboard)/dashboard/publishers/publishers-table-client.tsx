@@ -1,19 +1,56 @@
 "use client";
 
-import { ArrowUpDown, Bookmark, BookmarkCheck } from "lucide-react";
+import { format } from "date-fns";
+import {
+  AlertTriangle,
+  ArrowUpDown,
+  Bookmark,
+  BookmarkCheck,
+  X,
+} from "lucide-react";
 import Link from "next/link";
 import { useMemo, useState } from "react";
 import { toast } from "sonner";
+import { PublisherLogo } from "@/components/publisher-logo";
 import { PublisherVisitBadge } from "@/components/publisher-visit-badge";
 import Table from "@/components/Table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import type { PublisherCategory } from "@/db/schema";
+import {
+  PUBLISHER_CATEGORIES,
+  publisherCategoryLabels,
+} from "@/lib/validations/publisher";
+import type { PublisherPageChange } from "@/lib/visit-utils";
 
 interface Publisher {
   id: string;
   name: string;
   website: string | null;
+  category: PublisherCategory | null;
+  tags: string[];
+  logoUrl: string | null;
+  // Set when the website failed several health checks in a row
+  linkBrokenSince: Date | null;
+  lastChange: PublisherPageChange | null;
   isBookmarked?: boolean;
 }
 
+// Select value for "no filter"
+const ALL = "all";
+
 interface PublishersTableClientProps {
   publishers: Publisher[];
 }
@@ -27,9 +64,26 @@ export function PublishersTableClient({
   const [publishers, setPublishers] = useState(initialPublishers);
   const [sortKey, setSortKey] = useState<SortKey>("name");
   const [sortDirection, setSortDirection] = useState<SortDirection>("asc");
+  const [categoryFilter, setCategoryFilter] = useState<string>(ALL);
+  const [tagFilter, setTagFilter] = useState<string>(ALL);
+
+  const tagOptions = useMemo(
+    () => [...new Set(publishers.flatMap((p) => p.tags))].sort(),
+    [publishers],
+  );
+
+  const filteredPublishers = useMemo(
+    () =>
+      publishers.filter(
+        (p) =>
+          (categoryFilter === ALL || p.category === categoryFilter) &&
+          (tagFilter === ALL || p.tags.includes(tagFilter)),
+      ),
+    [publishers, categoryFilter, tagFilter],
+  );
 
   const sortedPublishers = useMemo(() => {
-    return [...publishers].sort((a: Publisher, b: Publisher) => {
+    return [...filteredPublishers].sort((a: Publisher, b: Publisher) => {
       const aVal = a[sortKey];
       const bVal = b[sortKey];
 
@@ -47,7 +101,7 @@ export function PublishersTableClient({
 
       return 0;
     });
-  }, [publishers, sortKey, sortDirection]);
+  }, [filteredPublishers, sortKey, sortDirection]);
 
   const handleSort = (key: SortKey) => {
     if (sortKey === key) {
@@ -157,6 +211,7 @@ export function PublishersTableClient({
       ),
       render: (value: string, item: Publisher) => (
         <div className="flex items-center gap-2">
+          <PublisherLogo name={item.name} logoUrl={item.logoUrl} />
           <Link
             href={`/publishers/${item.id}`}
             className="text-primary hover:underline font-medium transition-colors"
@@ -167,6 +222,7 @@ export function PublishersTableClient({
             publisherId={item.id}
             publisherName={item.name}
             size="sm"
+            lastChange={item.lastChange}
           />
         </div>
       ),
@@ -187,7 +243,57 @@ export function PublishersTableClient({
           />
         </button>
       ),
-      render: (value: string | null) => validateAndRenderUrl(value),
+      render: (value: string | null, item: Publisher) => (
+        <div className="flex items-center gap-2">
+          {validateAndRenderUrl(value)}
+          {item.linkBrokenSince && (
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Badge
+                  variant="outline"
+                  className="gap-1 border-amber-500 text-amber-600"
+                >
+                  <AlertTriangle className="h-3 w-3" />
+                  May be broken
+                </Badge>
+              </TooltipTrigger>
+              <TooltipContent>
+                This website has not responded to our checks since{" "}
+                {format(item.linkBrokenSince, "d MMM yyyy")}
+              </TooltipContent>
+            </Tooltip>
+          )}
+        </div>
+      ),
+    },
+    {
+      key: "category",
+      header: "Category",
+      render: (value: PublisherCategory | null) =>
+        value ? publisherCategoryLabels[value] : "N/A",
+    },
+    {
+      key: "tags",
+      header: "Tags",
+      render: (value: string[]) => (
+        <div className="flex flex-wrap gap-1">
+          {value.map((tag) => (
+            <button
+              key={tag}
+              type="button"
+              onClick={() => setTagFilter(tag)}
+              title={`Show publishers tagged "${tag}"`}
+            >
+              <Badge
+                variant={tagFilter === tag ? "default" : "secondary"}
+                className="text-xs"
+              >
+                {tag}
+              </Badge>
+            </button>
+          ))}
+        </div>
+      ),
     },
     {
       key: "bookmark",
@@ -211,5 +317,61 @@ export function PublishersTableClient({
     },
   ];
 
-  return <Table data={sortedPublishers} columns={columns} />;
+  const isFiltered = categoryFilter !== ALL || tagFilter !== ALL;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={categoryFilter} onValueChange={setCategoryFilter}>
+          <SelectTrigger className="w-[200px]" aria-label="Filter by category">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All categories</SelectItem>
+            {PUBLISHER_CATEGORIES.map((category) => (
+              <SelectItem key={category} value={category}>
+                {publisherCategoryLabels[category]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={tagFilter} onValueChange={setTagFilter}>
+          <SelectTrigger className="w-[200px]" aria-label="Filter by tag">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All tags</SelectItem>
+            {tagOptions.map((tag) => (
+              <SelectItem key={tag} value={tag}>
+                {tag}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {isFiltered && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => {
+              setCategoryFilter(ALL);
+              setTagFilter(ALL);
+            }}
+          >
+            <X className="mr-1 h-4 w-4" />
+            Clear filters
+          </Button>
+        )}
+        <span className="ml-auto text-sm text-muted-foreground">
+          {sortedPublishers.length} of {publishers.length} publishers
+        </span>
+      </div>
+      {sortedPublishers.length === 0 ? (
+        <p className="py-8 text-center text-sm text-muted-foreground">
+          No publishers match these filters
+        </p>
+      ) : (
+        <Table data={sortedPublishers} columns={columns} />
+      )}
+    </div>
+  );
 }
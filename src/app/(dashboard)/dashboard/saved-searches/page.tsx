@@ -0,0 +1,18 @@
+import { SavedSearchManagement } from "@/components/tenders/SavedSearchManagement";
+import { getMySavedSearches } from "@/server/saved-search";
+import { getTenderFormOptions } from "@/server/tender";
+
+export default async function SavedSearchesPage() {
+  const [searches, options] = await Promise.all([
+    getMySavedSearches(),
+    getTenderFormOptions(),
+  ]);
+
+  return (
+    <SavedSearchManagement
+      searches={searches}
+      publishers={options.publishers}
+      provinces={options.provinces}
+    />
+  );
+}
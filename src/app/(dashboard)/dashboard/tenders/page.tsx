@@ -0,0 +1,159 @@
+import { format, formatDistanceToNow } from "date-fns";
+import Link from "next/link";
+import { TenderStatusBadge } from "@/components/tenders/TenderStatusBadge";
+import { TrackTenderButton } from "@/components/tenders/TrackTenderButton";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { NoDataEmptyState } from "@/components/ui/empty-state";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { getMySavedSearch } from "@/server/saved-search";
+import { getTenders } from "@/server/tender";
+import { getMyTrackedTenderIds } from "@/server/tracked-tender";
+
+interface TendersPageProps {
+  searchParams: Promise<{ search?: string }>;
+}
+
+export default async function TendersPage({ searchParams }: TendersPageProps) {
+  const { search: searchId } = await searchParams;
+  const savedSearch = searchId ? await getMySavedSearch(searchId) : null;
+
+  // Only show tenders that are still open for submissions
+  const [openTenders, trackedTenderIds] = await Promise.all([
+    getTenders({
+      status: "open",
+      closingAfter: new Date(),
+      criteria: savedSearch ?? undefined,
+    }),
+    getMyTrackedTenderIds(),
+  ]);
+  const trackedIds = new Set(trackedTenderIds);
+
+  return (
+    <div className="flex flex-1 flex-col gap-4 p-4 pt-0">
+      <div className="space-y-8">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Open Tenders</h1>
+          <p className="text-muted-foreground">
+            {savedSearch ? (
+              <>
+                Open tenders matching "{savedSearch.name}" ·{" "}
+                <Link
+                  href="/dashboard/tenders"
+                  className="text-primary hover:underline"
+                >
+                  Show all
+                </Link>
+              </>
+            ) : (
+              "Tenders currently open for submission, ordered by closing date"
+            )}
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Tenders</CardTitle>
+            <CardDescription>
+              {openTenders.length}{" "}
+              {openTenders.length === 1 ? "tender" : "tenders"} closing soonest
+              first
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {openTenders.length === 0 ? (
+              <NoDataEmptyState
+                title="No Open Tenders"
+                message="There are no open tenders right now. New tenders will appear here once they are captured."
+              />
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-[140px]">Reference</TableHead>
+                    <TableHead>Title</TableHead>
+                    <TableHead className="w-[220px]">Publisher</TableHead>
+                    <TableHead className="w-[130px]">Province</TableHead>
+                    <TableHead className="w-[180px]">Closing</TableHead>
+                    <TableHead className="w-[90px]">Status</TableHead>
+                    <TableHead className="w-[70px] text-right">Track</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {openTenders.map((tender) => (
+                    <TableRow key={tender.id}>
+                      <TableCell className="font-mono text-xs">
+                        {tender.referenceNumber}
+                      </TableCell>
+                      <TableCell>
+                        <p className="font-medium">{tender.title}</p>
+                        {tender.briefingDate && (
+                          <p className="text-xs text-muted-foreground">
+                            Briefing{" "}
+                            {format(new Date(tender.briefingDate), "PPp")}
+                            {tender.briefingVenue &&
+                              ` at ${tender.briefingVenue}`}
+                            {tender.briefingCompulsory && " (compulsory)"}
+                          </p>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {tender.publisherWebsite ? (
+                          <Link
+                            href={tender.publisherWebsite}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-primary hover:underline"
+                          >
+                            {tender.publisherName}
+                          </Link>
+                        ) : (
+                          tender.publisherName
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline">
+                          {tender.provinceName || "Unknown"}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        <p>{format(new Date(tender.closingDate), "PPp")}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {formatDistanceToNow(new Date(tender.closingDate), {
+                            addSuffix: true,
+                          })}
+                        </p>
+                      </TableCell>
+                      <TableCell>
+                        <TenderStatusBadge status={tender.status} />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <TrackTenderButton
+                          tenderId={tender.id}
+                          tracked={trackedIds.has(tender.id)}
+                        />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -1,18 +1,20 @@
 export const dynamic = "force-dynamic";
 
 import type { Metadata } from "next";
-import { headers } from "next/headers";
 import { redirect } from "next/navigation";
 import { ErrorBoundary } from "@/components/error-boundary";
 import { RoleBasedSidebar } from "@/components/sidebar/role-based-sidebar";
 import { DynamicBreadcrumb } from "@/components/dynamic-breadcrumb";
+import { SearchCommand } from "@/components/search-command";
 import { Separator } from "@/components/ui/separator";
 import {
   SidebarInset,
   SidebarProvider,
   SidebarTrigger,
 } from "@/components/ui/sidebar";
-import { auth } from "@/lib/auth";
+import { getSessionWithRole } from "@/lib/auth-utils";
+import { getUserOrganizations } from "@/lib/organization";
+import { isTwoFactorEnrollmentRequired } from "@/lib/two-factor";
 
 export const metadata: Metadata = {
   title: "Tender Hub | Dashboard",
@@ -24,26 +26,37 @@ export default async function DashboardLayout({
 }: Readonly<{
   children: React.ReactNode;
 }>) {
-  // Get session from Better Auth
-  const session = await auth.api.getSession({
-    headers: await headers(),
-  });
+  // Get session with the role in the active organisation
+  const session = await getSessionWithRole();
 
   // Redirect to sign-in if not authenticated
   if (!session?.user) {
     redirect('/sign-in');
   }
 
+  // Roles that require two-factor authentication must enrol first
+  if (await isTwoFactorEnrollmentRequired(session.user)) {
+    redirect('/account');
+  }
+
   return (
     <ErrorBoundary>
       <SidebarProvider>
-        <RoleBasedSidebar user={session.user} />
+        <RoleBasedSidebar
+          user={session.user}
+          organization={session.organization}
+          organizations={await getUserOrganizations(session.user.id)}
+          permissions={session.organization.permissions}
+        />
         <SidebarInset>
           <header className="flex h-16 shrink-0 items-center gap-2">
             <div className="flex items-center gap-2 px-4">
               <SidebarTrigger className="-ml-1" />
               <DynamicBreadcrumb />
             </div>
+            <div className="ml-auto px-4">
+              <SearchCommand />
+            </div>
           </header>
           <div className="flex flex-1 flex-col gap-4 p-4 pt-0">{children}</div>
         </SidebarInset>
@@ -0,0 +1,29 @@
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { getSystemSettings } from "@/lib/system-settings";
+
+export const dynamic = "force-dynamic";
+
+export default async function MaintenancePage() {
+  const { general } = await getSystemSettings();
+
+  return (
+    <div className="flex items-center justify-center min-h-[60vh] px-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>Down for Maintenance</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="mb-4">
+            {general.siteName} is undergoing scheduled maintenance. Please check
+            back shortly.
+          </p>
+          <Link href="/sign-in">
+            <Button variant="outline">Administrator sign in</Button>
+          </Link>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -3,7 +3,13 @@
 import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Input } from "@/components/ui/input";
+import {
+  InputOTP,
+  InputOTPGroup,
+  InputOTPSlot,
+} from "@/components/ui/input-otp";
 import { Label } from "@/components/ui/label";
 import {
   Card,
@@ -19,6 +25,11 @@ export default function SignInPage() {
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [loading, setLoading] = useState(false);
+  // Second step for accounts with two-factor authentication
+  const [twoFactorStep, setTwoFactorStep] = useState(false);
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [code, setCode] = useState("");
+  const [trustDevice, setTrustDevice] = useState(false);
   const router = useRouter();
   const [callbackUrl, setCallbackUrl] = useState<string | null>(null);
 
@@ -40,6 +51,7 @@ export default function SignInPage() {
     
     // Default redirects based on role
     switch (userRole) {
+      case 'owner':
       case 'admin':
         return '/admin';
       case 'manager':
@@ -49,6 +61,15 @@ export default function SignInPage() {
     }
   };
 
+  const completeSignIn = (user: { name?: string; email: string; role?: string | null }) => {
+    toast.success(`Welcome back, ${user.name || user.email}!`);
+
+    // Redirect based on user role
+    const redirectUrl = getRedirectUrl(user.role || 'user');
+    router.push(redirectUrl);
+    router.refresh(); // Refresh to update session state
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -69,14 +90,14 @@ export default function SignInPage() {
           // Show loading state
         },
         onSuccess: (ctx) => {
+          if (ctx.data?.twoFactorRedirect) {
+            setTwoFactorStep(true);
+            return;
+          }
+
           const user = ctx.data?.user;
           if (user) {
-            toast.success(`Welcome back, ${user.name || user.email}!`);
-            
-            // Redirect based on user role
-            const redirectUrl = getRedirectUrl(user.role || 'user');
-            router.push(redirectUrl);
-            router.refresh(); // Refresh to update session state
+            completeSignIn(user);
           }
         },
         onError: (ctx) => {
@@ -95,6 +116,123 @@ export default function SignInPage() {
     }
   };
 
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!code.trim()) {
+      toast.error(useRecoveryCode ? "Please enter a recovery code" : "Please enter the 6-digit code");
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      const { data, error } = useRecoveryCode
+        ? await authClient.twoFactor.verifyBackupCode({ code: code.trim(), trustDevice })
+        : await authClient.twoFactor.verifyTotp({ code, trustDevice });
+
+      if (error) {
+        toast.error(error.message || "Verification failed");
+        setCode("");
+        return;
+      }
+
+      if (data?.user) {
+        completeSignIn(data.user);
+      }
+    } catch (error) {
+      console.error("Two-factor verification error:", error);
+      toast.error("An unexpected error occurred");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleRecoveryCode = () => {
+    setUseRecoveryCode(!useRecoveryCode);
+    setCode("");
+  };
+
+  if (twoFactorStep) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+        <Card className="w-full max-w-md">
+          <CardHeader className="space-y-1">
+            <CardTitle className="text-2xl text-center">
+              Two-factor authentication
+            </CardTitle>
+            <CardDescription className="text-center">
+              {useRecoveryCode
+                ? "Enter one of your recovery codes. Each code works only once."
+                : "Enter the 6-digit code from your authenticator app"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleVerify} className="space-y-4">
+              {useRecoveryCode ? (
+                <div className="space-y-2">
+                  <Label htmlFor="recovery-code">Recovery code</Label>
+                  <Input
+                    id="recovery-code"
+                    placeholder="xxxxx-xxxxx"
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    autoComplete="off"
+                    autoFocus
+                    disabled={loading}
+                  />
+                </div>
+              ) : (
+                <div className="flex justify-center">
+                  <InputOTP
+                    maxLength={6}
+                    value={code}
+                    onChange={setCode}
+                    autoFocus
+                    disabled={loading}
+                  >
+                    <InputOTPGroup>
+                      {[0, 1, 2, 3, 4, 5].map((index) => (
+                        <InputOTPSlot key={index} index={index} />
+                      ))}
+                    </InputOTPGroup>
+                  </InputOTP>
+                </div>
+              )}
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="trust-device"
+                  checked={trustDevice}
+                  onCheckedChange={(checked) => setTrustDevice(checked === true)}
+                  disabled={loading}
+                />
+                <Label htmlFor="trust-device" className="font-normal">
+                  Trust this device for 30 days
+                </Label>
+              </div>
+              <Button type="submit" className="w-full" disabled={loading}>
+                {loading ? "Verifying..." : "Verify"}
+              </Button>
+            </form>
+
+            <div className="mt-6 text-center text-sm">
+              <Button
+                type="button"
+                variant="link"
+                onClick={toggleRecoveryCode}
+                disabled={loading}
+              >
+                {useRecoveryCode
+                  ? "Use your authenticator app instead"
+                  : "Lost your device? Use a recovery code"}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
 
 
   return (
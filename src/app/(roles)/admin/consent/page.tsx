@@ -0,0 +1,97 @@
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  CONSENT_CATEGORY_DETAILS,
+  CURRENT_CONSENT_POLICY_VERSION,
+  OPTIONAL_CONSENT_CATEGORIES,
+} from "@/lib/validations/consent";
+import { getOrganizationConsentReport } from "@/server/consent";
+
+function formatRate(granted: number, decided: number) {
+  if (decided === 0) return "—";
+  return `${Math.round((granted / decided) * 100)}%`;
+}
+
+export default async function ConsentReportPage() {
+  const report = await getOrganizationConsentReport();
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Consent</h1>
+        <p className="text-gray-600">
+          How members of this organisation answered each version of the privacy
+          policy. A member who changed their mind counts once, with their latest
+          answer.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Consent Rates by Policy Version</CardTitle>
+          <CardDescription>
+            Share of members granting each optional category
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Version</TableHead>
+                <TableHead>Effective</TableHead>
+                <TableHead className="text-right">Members</TableHead>
+                {OPTIONAL_CONSENT_CATEGORIES.map((category) => (
+                  <TableHead key={category} className="text-right">
+                    {CONSENT_CATEGORY_DETAILS[category].label}
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {[...report].reverse().map((row) => (
+                <TableRow key={row.version}>
+                  <TableCell className="font-medium">
+                    <div className="flex items-center gap-2">
+                      {row.version}
+                      {row.version === CURRENT_CONSENT_POLICY_VERSION && (
+                        <Badge variant="secondary">Current</Badge>
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell>{row.effectiveDate ?? "Unknown"}</TableCell>
+                  <TableCell className="text-right">{row.members}</TableCell>
+                  {OPTIONAL_CONSENT_CATEGORIES.map((category) => (
+                    <TableCell key={category} className="text-right">
+                      {formatRate(
+                        row.categories[category].granted,
+                        row.categories[category].decided,
+                      )}
+                      <span className="ml-1 text-xs text-muted-foreground">
+                        ({row.categories[category].granted}/
+                        {row.categories[category].decided})
+                      </span>
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
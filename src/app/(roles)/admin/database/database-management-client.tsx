@@ -8,13 +8,16 @@ import {
   Download,
   HardDrive,
   Loader2,
+  Lock,
   RefreshCw,
   Server,
+  ShieldCheck,
   Upload,
   XCircle,
 } from "lucide-react";
 import { useEffect, useState } from "react";
 import { toast } from "sonner";
+import { RetentionPoliciesPanel } from "@/components/admin/retention-policies-panel";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import {
@@ -42,10 +45,44 @@ interface BackupRecord {
   fileSize?: number;
   duration?: number;
   errorMessage?: string;
+  checksum?: string;
+  storageTarget?: string;
+  encrypted?: boolean;
+  verificationStatus?: string;
+  verificationError?: string;
+  verifiedAt?: string;
+  restoreStatus?: string;
+  restoreError?: string;
+  restoredAt?: string;
+  prunedAt?: string;
   createdAt: string;
   initiatedBy?: string;
 }
 
+interface BackupSettings {
+  backupFrequency: "daily" | "weekly" | "monthly";
+  retentionDays: number;
+  autoOptimize: boolean;
+  monitoringEnabled: boolean;
+}
+
+interface BackupStorageInfo {
+  target: string;
+  configured: string[];
+  encrypted: boolean;
+}
+
+const STORAGE_LABELS: Record<string, string> = {
+  local: "Local disk",
+  s3: "S3",
+  sftp: "SFTP",
+};
+
+interface BackupSchedule {
+  lastScheduledAt: string | null;
+  nextDueAt: string;
+}
+
 interface DatabaseStats {
   status: string;
   totalBackups: number;
@@ -64,7 +101,12 @@ export function DatabaseManagementClient() {
   const [_loading, setLoading] = useState(true);
   const [isCreatingBackup, setIsCreatingBackup] = useState(false);
   const [isRestoring, setIsRestoring] = useState(false);
+  const [verifyingId, setVerifyingId] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState("overview");
+  const [schedule, setSchedule] = useState<BackupSchedule | null>(null);
+  const [storage, setStorage] = useState<BackupStorageInfo | null>(null);
+  const [settingsForm, setSettingsForm] = useState<BackupSettings | null>(null);
+  const [isSavingSettings, setIsSavingSettings] = useState(false);
 
   const fetchDatabaseInfo = async () => {
     try {
@@ -72,6 +114,11 @@ export function DatabaseManagementClient() {
       if (response.ok) {
         const data = await response.json();
         setBackups(data.backups || []);
+        setSchedule(data.schedule ?? null);
+        setStorage(data.storage ?? null);
+        if (data.settings) {
+          setSettingsForm((current) => current ?? data.settings);
+        }
         setStats({
           status: data.status || "unknown",
           totalBackups: data.stats?.total || 0,
@@ -111,7 +158,7 @@ export function DatabaseManagementClient() {
 
       if (response.ok) {
         const data = await response.json();
-        toast.success(`Backup started successfully! ID: ${data.backupId}`);
+        toast.success(`Backup queued! ID: ${data.backupId}`);
         // Refresh the backup list
         fetchDatabaseInfo();
       } else {
@@ -137,18 +184,161 @@ export function DatabaseManagementClient() {
       });
 
       if (response.ok) {
-        toast.success("Database restoration started successfully");
+        toast.success(
+          "Restore queued - the result will appear in the backup history",
+        );
+        fetchDatabaseInfo();
       } else {
-        toast.error("Failed to start restoration");
+        const data = await response.json().catch(() => null);
+        toast.error(data?.error || "Failed to queue restoration");
       }
     } catch (error) {
-      toast.error("Error starting restoration");
+      toast.error("Error queueing restoration");
       console.error("Restore error:", error);
     } finally {
       setIsRestoring(false);
     }
   };
 
+  const handleVerify = async (backupId: string) => {
+    setVerifyingId(backupId);
+    try {
+      const response = await fetch("/api/admin/database", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ action: "verify", backupId }),
+      });
+
+      if (response.ok) {
+        toast.success(
+          "Verification queued - the result will appear in the backup history",
+        );
+        fetchDatabaseInfo();
+      } else {
+        const data = await response.json().catch(() => null);
+        toast.error(data?.error || "Failed to start verification");
+      }
+    } catch (error) {
+      toast.error("Error starting verification");
+      console.error("Verify error:", error);
+    } finally {
+      setVerifyingId(null);
+    }
+  };
+
+  const handleSaveSettings = async () => {
+    if (!settingsForm) return;
+    setIsSavingSettings(true);
+    try {
+      const response = await fetch("/api/admin/settings", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ settings: { database: settingsForm } }),
+      });
+
+      if (response.ok) {
+        toast.success("Database settings saved");
+        fetchDatabaseInfo();
+      } else {
+        const data = await response.json().catch(() => null);
+        toast.error(
+          data?.details?.[0]?.message ||
+            data?.error ||
+            "Failed to save database settings",
+        );
+      }
+    } catch (error) {
+      toast.error("Error saving database settings");
+      console.error("Settings error:", error);
+    } finally {
+      setIsSavingSettings(false);
+    }
+  };
+
+  const getVerificationBadge = (backup: BackupRecord) => {
+    if (backup.prunedAt) {
+      return <Badge variant="secondary">Pruned</Badge>;
+    }
+    switch (backup.verificationStatus) {
+      case "passed":
+        return (
+          <Badge
+            variant="default"
+            className="bg-green-500"
+            title={
+              backup.verifiedAt
+                ? `Verified ${formatDate(backup.verifiedAt)}`
+                : undefined
+            }
+          >
+            <ShieldCheck className="h-3 w-3 mr-1" />
+            Verified
+          </Badge>
+        );
+      case "failed":
+        return (
+          <Badge variant="destructive" title={backup.verificationError}>
+            <XCircle className="h-3 w-3 mr-1" />
+            Failed
+          </Badge>
+        );
+      case "skipped":
+        return <Badge variant="secondary">Not restorable</Badge>;
+      case "queued":
+        return <Badge variant="secondary">Verification queued</Badge>;
+      case "running":
+        return (
+          <Badge variant="default" className="bg-blue-500">
+            <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+            Verifying
+          </Badge>
+        );
+      default:
+        return <span className="text-muted-foreground">Not verified</span>;
+    }
+  };
+
+  const getRestoreBadge = (backup: BackupRecord) => {
+    switch (backup.restoreStatus) {
+      case "completed":
+        return (
+          <Badge
+            variant="default"
+            className="bg-green-500"
+            title={
+              backup.restoredAt
+                ? `Restored ${formatDate(backup.restoredAt)}`
+                : undefined
+            }
+          >
+            Restored
+          </Badge>
+        );
+      case "failed":
+        return (
+          <Badge variant="destructive" title={backup.restoreError}>
+            <XCircle className="h-3 w-3 mr-1" />
+            Restore failed
+          </Badge>
+        );
+      case "queued":
+        return <Badge variant="secondary">Restore queued</Badge>;
+      case "running":
+        return (
+          <Badge variant="default" className="bg-blue-500">
+            <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+            Restoring
+          </Badge>
+        );
+      default:
+        return null;
+    }
+  };
+
   const getStatusBadge = (status: string) => {
     switch (status) {
       case "completed":
@@ -158,6 +348,8 @@ export function DatabaseManagementClient() {
             Completed
           </Badge>
         );
+      case "queued":
+        return <Badge variant="secondary">Queued</Badge>;
       case "running":
         return (
           <Badge variant="default" className="bg-blue-500">
@@ -232,11 +424,12 @@ export function DatabaseManagementClient() {
         onValueChange={setActiveTab}
         className="space-y-6"
       >
-        <TabsList className="grid w-full grid-cols-4">
+        <TabsList className="grid w-full grid-cols-5">
           <TabsTrigger value="overview">Overview</TabsTrigger>
           <TabsTrigger value="backups">Backups</TabsTrigger>
           <TabsTrigger value="settings">Settings</TabsTrigger>
           <TabsTrigger value="monitoring">Monitoring</TabsTrigger>
+          <TabsTrigger value="retention">Retention</TabsTrigger>
         </TabsList>
 
         <TabsContent value="overview" className="space-y-6">
@@ -466,6 +659,7 @@ export function DatabaseManagementClient() {
                       <TableHead>Type</TableHead>
                       <TableHead>File Size</TableHead>
                       <TableHead>Duration</TableHead>
+                      <TableHead>Verification</TableHead>
                       <TableHead>Actions</TableHead>
                     </TableRow>
                   </TableHeader>
@@ -482,8 +676,22 @@ export function DatabaseManagementClient() {
                             {formatDate(backup.createdAt)}
                           </TableCell>
                           <TableCell>{getStatusBadge(backup.status)}</TableCell>
-                          <TableCell className="capitalize">
-                            {backup.backupType}
+                          <TableCell>
+                            <div className="capitalize">
+                              {backup.backupType}
+                            </div>
+                            {backup.storageTarget && (
+                              <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                                {STORAGE_LABELS[backup.storageTarget] ??
+                                  backup.storageTarget}
+                                {backup.encrypted && (
+                                  <Lock
+                                    className="h-3 w-3"
+                                    aria-label="Encrypted"
+                                  />
+                                )}
+                              </div>
+                            )}
                           </TableCell>
                           <TableCell>
                             {formatFileSize(backup.fileSize)}
@@ -492,20 +700,51 @@ export function DatabaseManagementClient() {
                             {formatDuration(backup.duration)}
                           </TableCell>
                           <TableCell>
-                            {backup.status === "completed" && (
-                              <div className="flex gap-2">
-                                <Button
-                                  size="sm"
-                                  variant="outline"
-                                  onClick={() => handleRestore(backup.id)}
-                                  disabled={isRestoring}
-                                  title="Restore from this backup"
+                            <div className="space-y-1">
+                              {getVerificationBadge(backup)}
+                              {getRestoreBadge(backup)}
+                              {backup.checksum && (
+                                <div
+                                  className="font-mono text-xs text-muted-foreground"
+                                  title={`SHA-256 ${backup.checksum}`}
                                 >
-                                  <Upload className="h-3 w-3 mr-1" />
-                                  Restore
-                                </Button>
-                              </div>
-                            )}
+                                  {backup.checksum.slice(0, 12)}
+                                </div>
+                              )}
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            {backup.status === "completed" &&
+                              !backup.prunedAt && (
+                                <div className="flex gap-2">
+                                  {backup.verificationStatus !== "skipped" && (
+                                    <Button
+                                      size="sm"
+                                      variant="outline"
+                                      onClick={() => handleVerify(backup.id)}
+                                      disabled={verifyingId === backup.id}
+                                      title="Restore into a scratch schema and check the data"
+                                    >
+                                      {verifyingId === backup.id ? (
+                                        <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                                      ) : (
+                                        <ShieldCheck className="h-3 w-3 mr-1" />
+                                      )}
+                                      Verify
+                                    </Button>
+                                  )}
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => handleRestore(backup.id)}
+                                    disabled={isRestoring}
+                                    title="Restore from this backup"
+                                  >
+                                    <Upload className="h-3 w-3 mr-1" />
+                                    Restore
+                                  </Button>
+                                </div>
+                              )}
                           </TableCell>
                         </TableRow>
                       ))}
@@ -524,10 +763,61 @@ export function DatabaseManagementClient() {
                 Database Settings
               </CardTitle>
               <CardDescription>
-                Configure database backup and optimization settings
+                Configure database backup and optimization settings. Scheduled
+                and manual backups run from the <code>db:backup</code> job,
+                which also verifies each backup and deletes expired files.
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
+              {schedule && (
+                <div className="grid gap-4 md:grid-cols-2 text-sm">
+                  <div>
+                    <span className="text-muted-foreground">
+                      Last scheduled backup:
+                    </span>
+                    <div className="font-medium">
+                      {schedule.lastScheduledAt
+                        ? formatDate(schedule.lastScheduledAt)
+                        : "Never"}
+                    </div>
+                  </div>
+                  <div>
+                    <span className="text-muted-foreground">
+                      Next backup due:
+                    </span>
+                    <div className="font-medium">
+                      {new Date(schedule.nextDueAt) <= new Date()
+                        ? "Now"
+                        : formatDate(schedule.nextDueAt)}
+                    </div>
+                  </div>
+                </div>
+              )}
+
+              {storage && (
+                <div className="grid gap-4 md:grid-cols-2 text-sm">
+                  <div>
+                    <span className="text-muted-foreground">
+                      New backups are stored in:
+                    </span>
+                    <div className="font-medium">
+                      {STORAGE_LABELS[storage.target] ?? storage.target}
+                      {storage.encrypted ? ", encrypted" : ""}
+                    </div>
+                  </div>
+                  <div>
+                    <span className="text-muted-foreground">
+                      Restores can read from:
+                    </span>
+                    <div className="font-medium">
+                      {storage.configured
+                        .map((name) => STORAGE_LABELS[name] ?? name)
+                        .join(", ")}
+                    </div>
+                  </div>
+                </div>
+              )}
+
               <div className="grid gap-4 md:grid-cols-2">
                 <div className="space-y-2">
                   <label className="text-sm font-medium">
@@ -536,6 +826,16 @@ export function DatabaseManagementClient() {
                   <select
                     className="w-full p-2 border border-gray-300 rounded-md"
                     title="Select backup frequency"
+                    value={settingsForm?.backupFrequency ?? "daily"}
+                    disabled={!settingsForm}
+                    onChange={(event) =>
+                      settingsForm &&
+                      setSettingsForm({
+                        ...settingsForm,
+                        backupFrequency: event.target
+                          .value as BackupSettings["backupFrequency"],
+                      })
+                    }
                   >
                     <option value="daily">Daily</option>
                     <option value="weekly">Weekly</option>
@@ -549,9 +849,17 @@ export function DatabaseManagementClient() {
                   <input
                     type="number"
                     className="w-full p-2 border border-gray-300 rounded-md"
-                    defaultValue={30}
+                    value={settingsForm?.retentionDays ?? 30}
+                    disabled={!settingsForm}
+                    onChange={(event) =>
+                      settingsForm &&
+                      setSettingsForm({
+                        ...settingsForm,
+                        retentionDays: Number(event.target.value),
+                      })
+                    }
                     min={1}
-                    max={365}
+                    max={3650}
                     title="Number of days to retain backup files"
                     placeholder="30"
                   />
@@ -570,7 +878,15 @@ export function DatabaseManagementClient() {
                   </div>
                   <input
                     type="checkbox"
-                    defaultChecked
+                    checked={settingsForm?.autoOptimize ?? true}
+                    disabled={!settingsForm}
+                    onChange={(event) =>
+                      settingsForm &&
+                      setSettingsForm({
+                        ...settingsForm,
+                        autoOptimize: event.target.checked,
+                      })
+                    }
                     title="Enable automatic database optimization"
                   />
                 </div>
@@ -586,13 +902,30 @@ export function DatabaseManagementClient() {
                   </div>
                   <input
                     type="checkbox"
-                    defaultChecked
+                    checked={settingsForm?.monitoringEnabled ?? true}
+                    disabled={!settingsForm}
+                    onChange={(event) =>
+                      settingsForm &&
+                      setSettingsForm({
+                        ...settingsForm,
+                        monitoringEnabled: event.target.checked,
+                      })
+                    }
                     title="Enable real-time database monitoring"
                   />
                 </div>
               </div>
 
-              <Button className="w-full">Save Database Settings</Button>
+              <Button
+                className="w-full"
+                onClick={handleSaveSettings}
+                disabled={!settingsForm || isSavingSettings}
+              >
+                {isSavingSettings && (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                )}
+                Save Database Settings
+              </Button>
             </CardContent>
           </Card>
         </TabsContent>
@@ -678,6 +1011,10 @@ export function DatabaseManagementClient() {
             </Card>
           </div>
         </TabsContent>
+
+        <TabsContent value="retention" className="space-y-6">
+          <RetentionPoliciesPanel />
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -1,7 +1,6 @@
 export const dynamic = "force-dynamic";
 
 import type { Metadata } from "next";
-import { headers } from "next/headers";
 import { redirect } from "next/navigation";
 import { ErrorBoundary } from "@/components/error-boundary";
 import { RoleBasedSidebar } from "@/components/sidebar/role-based-sidebar";
@@ -12,7 +11,9 @@ import {
   SidebarProvider,
   SidebarTrigger,
 } from "@/components/ui/sidebar";
-import { auth } from "@/lib/auth";
+import { getSessionWithRole } from "@/lib/auth-utils";
+import { getUserOrganizations } from "@/lib/organization";
+import { isTwoFactorEnrollmentRequired } from "@/lib/two-factor";
 
 /**
  * TODO: Admin Role Implementation Checklist
@@ -49,10 +50,8 @@ export default async function AdminLayout({
 }: Readonly<{
   children: React.ReactNode;
 }>) {
-  // Get session from Better Auth
-  const session = await auth.api.getSession({
-    headers: await headers(),
-  });
+  // Get session with the role in the active organisation
+  const session = await getSessionWithRole();
 
   // Redirect to sign-in if not authenticated
   if (!session?.user) {
@@ -60,14 +59,24 @@ export default async function AdminLayout({
   }
 
   // Check if user has admin role
-  if (session.user.role !== 'admin') {
+  if (!['owner', 'admin'].includes(session.user.role)) {
     redirect('/dashboard');
   }
 
+  // Roles that require two-factor authentication must enrol first
+  if (await isTwoFactorEnrollmentRequired(session.user)) {
+    redirect('/account');
+  }
+
   return (
     <ErrorBoundary>
       <SidebarProvider>
-        <RoleBasedSidebar user={session.user} />
+        <RoleBasedSidebar
+          user={session.user}
+          organization={session.organization}
+          organizations={await getUserOrganizations(session.user.id)}
+          permissions={session.organization.permissions}
+        />
         <SidebarInset>
           <header className="flex h-16 shrink-0 items-center gap-2">
             <div className="flex items-center gap-2 px-4">
@@ -1,56 +1,608 @@
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+"use client";
+
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import {
+  AlertTriangle,
+  Bell,
+  BellOff,
+  CheckCircle,
+  Clock,
+  Loader2,
+  Pencil,
+  Plus,
+  Settings,
+  Trash2,
+} from "lucide-react";
+import { useState, useTransition } from "react";
+import { toast } from "sonner";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Alert, AlertDescription } from "@/components/ui/alert";
-import { Bell, BellOff, AlertTriangle, CheckCircle, XCircle, Clock, Settings } from "lucide-react";
-import { ALERT_RULES } from "@/lib/sentry-alerting";
-import { sentryConfig } from "@/lib/env-validation";
-
-interface AlertStatus {
-  id: string;
-  rule: string;
-  status: "active" | "resolved" | "muted";
-  severity: "low" | "medium" | "high" | "critical";
-  triggeredAt: string;
-  resolvedAt?: string;
-  description: string;
-  affectedServices: string[];
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import type { AlertRule } from "@/db/schema";
+import {
+  ALERT_CHANNELS,
+  ALERT_METRIC_NAMES,
+  ALERT_METRICS,
+  ALERT_MUTE_HOURS,
+  ALERT_OPERATORS,
+  ALERT_SEVERITIES,
+  ALERT_TIME_WINDOWS,
+  type AlertChannel,
+  type AlertMetric,
+  type AlertOperator,
+  type AlertRuleFormData,
+  type AlertSeverity,
+} from "@/lib/validations/alerts";
+import {
+  acknowledgeAlertIncidentAction,
+  createAlertRuleAction,
+  deleteAlertRuleAction,
+  getAlertOverview,
+  muteAlertRuleAction,
+  resolveAlertIncidentAction,
+  unmuteAlertRuleAction,
+  updateAlertRuleAction,
+} from "@/server/alerts";
+
+// Select value for "any window"; Radix selects cannot use ""
+const ANY_WINDOW = "any";
+
+const EMPTY_RULE: AlertRuleFormData = {
+  name: "",
+  metric: "error_count",
+  operator: "gt",
+  threshold: 10,
+  timeWindow: null,
+  severity: "medium",
+  cooldownMinutes: 15,
+  channels: ["email"],
+  enabled: true,
+};
+
+const CHANNEL_LABELS: Record<AlertChannel, string> = {
+  email: "Email",
+  webhook: "Webhook",
+  sentry: "Sentry",
+};
+
+type Incident = Awaited<
+  ReturnType<typeof getAlertOverview>
+>["incidents"]["unresolved"][number];
+
+function getSeverityColor(severity: string) {
+  switch (severity) {
+    case "critical":
+      return "text-red-600 border-red-600 bg-red-50";
+    case "high":
+      return "text-orange-600 border-orange-600 bg-orange-50";
+    case "medium":
+      return "text-yellow-600 border-yellow-600 bg-yellow-50";
+    case "low":
+      return "text-blue-600 border-blue-600 bg-blue-50";
+    default:
+      return "text-gray-600 border-gray-600 bg-gray-50";
+  }
+}
+
+function metricLabel(metric: string) {
+  return metric in ALERT_METRICS
+    ? ALERT_METRICS[metric as AlertMetric]
+    : metric;
+}
+
+function conditionLabel(rule: AlertRule) {
+  const operator =
+    ALERT_OPERATORS[rule.operator as AlertOperator] ?? rule.operator;
+  const window = rule.timeWindow ? ` over ${rule.timeWindow}` : "";
+  return `${metricLabel(rule.metric)} ${operator} ${rule.threshold}${window}`;
+}
+
+function contextLabel(context: unknown) {
+  if (!context || typeof context !== "object") return null;
+  const {
+    errorCount,
+    timeWindow,
+    errorRate,
+    affectedUsers,
+    backupFailures,
+    restoreFailures,
+  } = context as Record<string, unknown>;
+  const parts = [
+    typeof errorCount === "number" &&
+      `${errorCount} errors${typeof timeWindow === "string" ? ` in ${timeWindow}` : ""}`,
+    typeof errorRate === "number" &&
+      `${(errorRate * 100).toFixed(1)}% error rate`,
+    typeof affectedUsers === "number" && `${affectedUsers} users affected`,
+    typeof backupFailures === "number" &&
+      `${backupFailures} backups failed in a row`,
+    typeof restoreFailures === "number" &&
+      `${restoreFailures} database restore failed`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(", ") : null;
+}
+
+function isMuted(rule: AlertRule) {
+  return !!rule.mutedUntil && new Date(rule.mutedUntil) > new Date();
+}
+
+function formatRelative(date: Date) {
+  return formatDistanceToNow(date, { addSuffix: true });
+}
+
+function RuleDialog({
+  rule,
+  open,
+  onOpenChange,
+  onSaved,
+}: {
+  rule: AlertRule | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}) {
+  const [isSaving, startTransition] = useTransition();
+  const [form, setForm] = useState<AlertRuleFormData>(EMPTY_RULE);
+  const [lastRule, setLastRule] = useState<AlertRule | null>(null);
+
+  // Start from the rule being edited each time the dialog opens
+  if (open && rule !== lastRule) {
+    setLastRule(rule);
+    setForm(
+      rule
+        ? {
+            name: rule.name,
+            metric: rule.metric as AlertMetric,
+            operator: rule.operator as AlertOperator,
+            threshold: rule.threshold,
+            timeWindow: rule.timeWindow as AlertRuleFormData["timeWindow"],
+            severity: rule.severity as AlertSeverity,
+            cooldownMinutes: rule.cooldownMinutes,
+            channels: rule.channels as AlertChannel[],
+            enabled: rule.enabled,
+          }
+        : EMPTY_RULE,
+    );
+  }
+
+  const toggleChannel = (channel: AlertChannel, checked: boolean) =>
+    setForm({
+      ...form,
+      channels: checked
+        ? [...form.channels, channel]
+        : form.channels.filter((value) => value !== channel),
+    });
+
+  const handleSave = () => {
+    startTransition(async () => {
+      const result = rule
+        ? await updateAlertRuleAction(rule.id, form)
+        : await createAlertRuleAction(form);
+      if (result.error) {
+        toast.error(result.error);
+        return;
+      }
+      toast.success(rule ? "Alert rule updated" : "Alert rule created");
+      onSaved();
+      onOpenChange(false);
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>
+            {rule ? "Edit Alert Rule" : "New Alert Rule"}
+          </DialogTitle>
+          <DialogDescription>
+            The rule opens an incident when the metric passes the threshold.
+            Repeat notifications wait for the cooldown.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="alert-rule-name">Name</Label>
+            <Input
+              id="alert-rule-name"
+              value={form.name}
+              onChange={(event) =>
+                setForm({ ...form, name: event.target.value })
+              }
+            />
+          </div>
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div className="space-y-2 sm:col-span-2">
+              <Label htmlFor="alert-rule-metric">Metric</Label>
+              <Select
+                value={form.metric}
+                onValueChange={(value) =>
+                  setForm({ ...form, metric: value as AlertMetric })
+                }
+              >
+                <SelectTrigger id="alert-rule-metric">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ALERT_METRIC_NAMES.map((metric) => (
+                    <SelectItem key={metric} value={metric}>
+                      {ALERT_METRICS[metric]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="alert-rule-window">Window</Label>
+              <Select
+                value={form.timeWindow ?? ANY_WINDOW}
+                onValueChange={(value) =>
+                  setForm({
+                    ...form,
+                    timeWindow:
+                      value === ANY_WINDOW
+                        ? null
+                        : (value as AlertRuleFormData["timeWindow"]),
+                  })
+                }
+              >
+                <SelectTrigger id="alert-rule-window">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY_WINDOW}>Any</SelectItem>
+                  {ALERT_TIME_WINDOWS.map((window) => (
+                    <SelectItem key={window} value={window}>
+                      {window}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div className="space-y-2">
+              <Label htmlFor="alert-rule-operator">Operator</Label>
+              <Select
+                value={form.operator}
+                onValueChange={(value) =>
+                  setForm({ ...form, operator: value as AlertOperator })
+                }
+              >
+                <SelectTrigger id="alert-rule-operator">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(ALERT_OPERATORS).map(([name, symbol]) => (
+                    <SelectItem key={name} value={name}>
+                      {symbol}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="alert-rule-threshold">Threshold</Label>
+              <Input
+                id="alert-rule-threshold"
+                type="number"
+                min={0}
+                step="any"
+                value={form.threshold}
+                onChange={(event) =>
+                  setForm({ ...form, threshold: Number(event.target.value) })
+                }
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="alert-rule-severity">Severity</Label>
+              <Select
+                value={form.severity}
+                onValueChange={(value) =>
+                  setForm({ ...form, severity: value as AlertSeverity })
+                }
+              >
+                <SelectTrigger id="alert-rule-severity">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ALERT_SEVERITIES.map((severity) => (
+                    <SelectItem key={severity} value={severity}>
+                      {severity}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="alert-rule-cooldown">Cooldown (minutes)</Label>
+            <Input
+              id="alert-rule-cooldown"
+              type="number"
+              min={1}
+              max={1440}
+              value={form.cooldownMinutes}
+              onChange={(event) =>
+                setForm({
+                  ...form,
+                  cooldownMinutes: Number(event.target.value),
+                })
+              }
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Notify</Label>
+            <div className="flex gap-4">
+              {ALERT_CHANNELS.map((channel) => (
+                <div key={channel} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`alert-rule-channel-${channel}`}
+                    checked={form.channels.includes(channel)}
+                    onCheckedChange={(checked) =>
+                      toggleChannel(channel, checked === true)
+                    }
+                  />
+                  <Label htmlFor={`alert-rule-channel-${channel}`}>
+                    {CHANNEL_LABELS[channel]}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="alert-rule-enabled">Enabled</Label>
+            <Switch
+              id="alert-rule-enabled"
+              checked={form.enabled}
+              onCheckedChange={(enabled) => setForm({ ...form, enabled })}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={isSaving}
+          >
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Rule
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
 }
 
-export async function AlertsPanel() {
-  const alertStatuses = await fetchAlertStatuses();
-  const alertConfig = getAlertConfiguration();
-
-  const getSeverityColor = (severity: string) => {
-    switch (severity) {
-      case "critical":
-        return "text-red-600 border-red-600 bg-red-50";
-      case "high":
-        return "text-orange-600 border-orange-600 bg-orange-50";
-      case "medium":
-        return "text-yellow-600 border-yellow-600 bg-yellow-50";
-      case "low":
-        return "text-blue-600 border-blue-600 bg-blue-50";
-      default:
-        return "text-gray-600 border-gray-600 bg-gray-50";
-    }
+function MuteMenu({
+  disabled,
+  onMute,
+}: {
+  disabled: boolean;
+  onMute: (hours: number) => void;
+}) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" disabled={disabled}>
+          Mute
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {ALERT_MUTE_HOURS.map((hours) => (
+          <DropdownMenuItem key={hours} onClick={() => onMute(hours)}>
+            For{" "}
+            {hours === 24 ? "1 day" : `${hours} hour${hours > 1 ? "s" : ""}`}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+export function AlertsPanel() {
+  const queryClient = useQueryClient();
+  const [isPending, startTransition] = useTransition();
+  const [editing, setEditing] = useState<AlertRule | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState<AlertRule | null>(null);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["alert-overview"],
+    queryFn: () => getAlertOverview(),
+    retry: false,
+  });
+
+  const refresh = () =>
+    queryClient.invalidateQueries({ queryKey: ["alert-overview"] });
+
+  const run = (
+    action: () => Promise<{ error?: string }>,
+    successMessage: string,
+    onSuccess?: () => void,
+  ) => {
+    startTransition(async () => {
+      const result = await action();
+      if (result.error) {
+        toast.error(result.error);
+        refresh();
+        return;
+      }
+      toast.success(successMessage);
+      onSuccess?.();
+      refresh();
+    });
   };
 
-  const getStatusIcon = (status: string) => {
-    switch (status) {
-      case "active":
-        return <AlertTriangle className="h-4 w-4 text-red-600" />;
-      case "resolved":
-        return <CheckCircle className="h-4 w-4 text-green-600" />;
-      case "muted":
-        return <BellOff className="h-4 w-4 text-gray-600" />;
-      default:
-        return <Clock className="h-4 w-4 text-gray-600" />;
-    }
+  const openDialog = (rule: AlertRule | null) => {
+    setEditing(rule);
+    setDialogOpen(true);
   };
 
-  const activeAlerts = alertStatuses.filter(alert => alert.status === "active");
-  const resolvedAlerts = alertStatuses.filter(alert => alert.status === "resolved");
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <p className="py-8 text-center text-sm text-muted-foreground">
+        You do not have access to alerts.
+      </p>
+    );
+  }
+
+  const { rules, incidents, channels } = data;
+  const rulesById = new Map(rules.map((rule) => [rule.id, rule]));
+  const enabledChannels = ALERT_CHANNELS.filter((channel) => channels[channel]);
+
+  const renderIncident = (incident: Incident) => {
+    const rule = incident.ruleId ? rulesById.get(incident.ruleId) : undefined;
+    const summary = contextLabel(incident.context);
+
+    return (
+      <Alert
+        key={incident.id}
+        className={
+          incident.status === "open"
+            ? "border-l-4 border-l-red-500"
+            : "border-l-4 border-l-yellow-500"
+        }
+      >
+        <div className="flex items-start justify-between gap-4">
+          <div className="flex items-start gap-3">
+            {incident.status === "open" ? (
+              <AlertTriangle className="h-4 w-4 text-red-600" />
+            ) : (
+              <Clock className="h-4 w-4 text-yellow-600" />
+            )}
+            <div className="flex-1">
+              <div className="mb-1 flex items-center gap-2">
+                <span className="text-sm font-medium">{incident.ruleName}</span>
+                <Badge
+                  variant="outline"
+                  className={getSeverityColor(incident.severity)}
+                >
+                  {incident.severity.toUpperCase()}
+                </Badge>
+                {rule && isMuted(rule) && (
+                  <Badge variant="secondary">Muted</Badge>
+                )}
+              </div>
+              {summary && (
+                <AlertDescription className="text-xs">
+                  {summary}
+                </AlertDescription>
+              )}
+              <div className="mt-2 text-xs text-muted-foreground">
+                Opened {formatRelative(incident.openedAt)}
+                {incident.occurrences > 1 &&
+                  `, triggered ${incident.occurrences} times, last ${formatRelative(incident.lastTriggeredAt)}`}
+              </div>
+              <div className="mt-1 text-xs text-muted-foreground">
+                {incident.status === "acknowledged"
+                  ? `Acknowledged by ${incident.acknowledgedByName ?? "a deleted user"}${incident.acknowledgedAt ? ` ${formatRelative(incident.acknowledgedAt)}` : ""}`
+                  : incident.notifiedChannels.length > 0
+                    ? `Notified via ${incident.notifiedChannels.join(", ")}`
+                    : "No notifications sent"}
+              </div>
+            </div>
+          </div>
+          <div className="flex gap-1">
+            {incident.status === "open" && (
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={isPending}
+                onClick={() =>
+                  run(
+                    () => acknowledgeAlertIncidentAction(incident.id),
+                    "Incident acknowledged",
+                  )
+                }
+              >
+                Acknowledge
+              </Button>
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={isPending}
+              onClick={() =>
+                run(
+                  () => resolveAlertIncidentAction(incident.id),
+                  "Incident resolved",
+                )
+              }
+            >
+              Resolve
+            </Button>
+            {rule && !isMuted(rule) && (
+              <MuteMenu
+                disabled={isPending}
+                onMute={(hours) =>
+                  run(
+                    () => muteAlertRuleAction(rule.id, hours),
+                    `${rule.name} muted`,
+                  )
+                }
+              />
+            )}
+          </div>
+        </div>
+      </Alert>
+    );
+  };
 
   return (
     <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
@@ -66,96 +618,69 @@ export async function AlertsPanel() {
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-4">
             <div className="text-center">
               <div className="text-2xl font-bold text-red-600">
-                {activeAlerts.length}
+                {
+                  incidents.unresolved.filter(
+                    (incident) => incident.status === "open",
+                  ).length
+                }
+              </div>
+              <div className="text-xs text-muted-foreground">
+                Open Incidents
               </div>
-              <div className="text-xs text-muted-foreground">Active Alerts</div>
             </div>
             <div className="text-center">
-              <div className="text-2xl font-bold text-green-600">
-                {resolvedAlerts.length}
+              <div className="text-2xl font-bold text-yellow-600">
+                {
+                  incidents.unresolved.filter(
+                    (incident) => incident.status === "acknowledged",
+                  ).length
+                }
               </div>
-              <div className="text-xs text-muted-foreground">Resolved Today</div>
+              <div className="text-xs text-muted-foreground">Acknowledged</div>
             </div>
             <div className="text-center">
               <div className="text-2xl font-bold text-blue-600">
-                {ALERT_RULES.length}
+                {rules.filter((rule) => rule.enabled).length}
               </div>
-              <div className="text-xs text-muted-foreground">Alert Rules</div>
+              <div className="text-xs text-muted-foreground">Active Rules</div>
             </div>
             <div className="text-center">
               <div className="text-2xl font-bold text-purple-600">
-                {alertConfig.channels.length}
+                {enabledChannels.length}
+              </div>
+              <div className="text-xs text-muted-foreground">
+                Notification Channels
               </div>
-              <div className="text-xs text-muted-foreground">Notification Channels</div>
             </div>
           </div>
         </CardContent>
       </Card>
 
-      {/* Active Alerts */}
+      {/* Active Incidents */}
       <Card className="lg:col-span-2">
         <CardHeader>
-          <CardTitle className="text-sm font-medium flex items-center gap-2">
+          <CardTitle className="flex items-center gap-2 text-sm font-medium">
             <AlertTriangle className="h-4 w-4" />
-            Active Alerts
+            Active Incidents
           </CardTitle>
           <CardDescription>
-            Alerts requiring immediate attention
+            Acknowledge an incident to stop repeat notifications while you work
+            on it
           </CardDescription>
         </CardHeader>
         <CardContent>
-          {activeAlerts.length > 0 ? (
+          {incidents.unresolved.length > 0 ? (
             <div className="space-y-3">
-              {activeAlerts.map((alert) => (
-                <Alert key={alert.id} className="border-l-4 border-l-red-500">
-                  <div className="flex items-start justify-between">
-                    <div className="flex items-start gap-3">
-                      {getStatusIcon(alert.status)}
-                      <div className="flex-1">
-                        <div className="flex items-center gap-2 mb-1">
-                          <span className="font-medium text-sm">{alert.rule}</span>
-                          <Badge variant="outline" className={getSeverityColor(alert.severity)}>
-                            {alert.severity.toUpperCase()}
-                          </Badge>
-                        </div>
-                        <AlertDescription className="text-xs">
-                          {alert.description}
-                        </AlertDescription>
-                        <div className="flex items-center gap-2 mt-2 text-xs text-muted-foreground">
-                          <Clock className="h-3 w-3" />
-                          {alert.triggeredAt}
-                        </div>
-                        {alert.affectedServices.length > 0 && (
-                          <div className="flex gap-1 mt-2">
-                            {alert.affectedServices.map((service) => (
-                              <Badge key={service} variant="secondary" className="text-xs">
-                                {service}
-                              </Badge>
-                            ))}
-                          </div>
-                        )}
-                      </div>
-                    </div>
-                    <div className="flex gap-1">
-                      <Button variant="outline" size="sm">
-                        Resolve
-                      </Button>
-                      <Button variant="ghost" size="sm">
-                        Mute
-                      </Button>
-                    </div>
-                  </div>
-                </Alert>
-              ))}
+              {incidents.unresolved.map(renderIncident)}
             </div>
           ) : (
-            <div className="text-center py-8 text-muted-foreground">
-              <CheckCircle className="h-12 w-12 mx-auto mb-4 opacity-50" />
-              <p>No active alerts</p>
-              <p className="text-xs mt-1">All systems are operating normally</p>
+            <div className="py-8 text-center text-muted-foreground">
+              <CheckCircle className="mx-auto mb-4 h-12 w-12 opacity-50" />
+              <p>No active incidents</p>
+              <p className="mt-1 text-xs">All systems are operating normally</p>
             </div>
           )}
         </CardContent>
@@ -164,84 +689,140 @@ export async function AlertsPanel() {
       {/* Alert Configuration */}
       <Card>
         <CardHeader>
-          <CardTitle className="text-sm font-medium flex items-center gap-2">
+          <CardTitle className="flex items-center gap-2 text-sm font-medium">
             <Settings className="h-4 w-4" />
             Configuration
           </CardTitle>
         </CardHeader>
         <CardContent>
-          <div className="space-y-4">
-            <div>
-              <h4 className="text-sm font-medium mb-2">Notification Channels</h4>
-              <div className="space-y-2">
-                {alertConfig.channels.map((channel) => (
-                  <div key={channel.name} className="flex items-center justify-between">
-                    <span className="text-sm">{channel.name}</span>
-                    <Badge variant="outline" className={channel.enabled ? "text-green-600 border-green-600" : "text-gray-600 border-gray-600"}>
-                      {channel.enabled ? "Enabled" : "Disabled"}
-                    </Badge>
-                  </div>
-                ))}
-              </div>
-            </div>
-
-            <div>
-              <h4 className="text-sm font-medium mb-2">Thresholds</h4>
-              <div className="space-y-2 text-xs">
-                <div className="flex justify-between">
-                  <span className="text-muted-foreground">Error Threshold:</span>
-                  <span className="font-medium">{alertConfig.thresholds.errors}</span>
-                </div>
-                <div className="flex justify-between">
-                  <span className="text-muted-foreground">Performance:</span>
-                  <span className="font-medium">{alertConfig.thresholds.performance}ms</span>
-                </div>
-                <div className="flex justify-between">
-                  <span className="text-muted-foreground">Response Time:</span>
-                  <span className="font-medium">{alertConfig.thresholds.responseTime}ms</span>
-                </div>
+          <h4 className="mb-2 text-sm font-medium">Notification Channels</h4>
+          <div className="space-y-2">
+            {ALERT_CHANNELS.map((channel) => (
+              <div key={channel} className="flex items-center justify-between">
+                <span className="text-sm">{CHANNEL_LABELS[channel]}</span>
+                <Badge
+                  variant="outline"
+                  className={
+                    channels[channel]
+                      ? "border-green-600 text-green-600"
+                      : "border-gray-600 text-gray-600"
+                  }
+                >
+                  {channels[channel] ? "Enabled" : "Disabled"}
+                </Badge>
               </div>
-            </div>
-
-            <Button variant="outline" size="sm" className="w-full">
-              Configure Alerts
-            </Button>
+            ))}
           </div>
+          <p className="mt-4 text-xs text-muted-foreground">
+            Channels are configured with the SENTRY_ALERT_EMAIL,
+            SENTRY_ALERT_WEBHOOK and SENTRY_DSN environment variables.
+          </p>
         </CardContent>
       </Card>
 
       {/* Alert Rules */}
       <Card className="lg:col-span-3">
         <CardHeader>
-          <CardTitle className="text-sm font-medium">Alert Rules</CardTitle>
-          <CardDescription>
-            Configured monitoring rules and their current status
-          </CardDescription>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="text-sm font-medium">Alert Rules</CardTitle>
+              <CardDescription>
+                Rules checked against error and performance metrics
+              </CardDescription>
+            </div>
+            <Button size="sm" onClick={() => openDialog(null)}>
+              <Plus className="mr-2 h-4 w-4" />
+              New Rule
+            </Button>
+          </div>
         </CardHeader>
         <CardContent>
-          <div className="space-y-3">
-            {ALERT_RULES.map((rule, index) => (
-              <div key={index} className="flex items-center justify-between p-3 border rounded-lg">
-                <div className="flex items-center gap-3">
-                  <Badge variant="outline" className={getSeverityColor(rule.severity)}>
-                    {rule.severity.toUpperCase()}
-                  </Badge>
-                  <div>
-                    <div className="font-medium text-sm">{rule.name}</div>
-                    <div className="text-xs text-muted-foreground">
-                      Cooldown: {rule.cooldown} minutes | Channels: {rule.channels.join(", ")}
+          {rules.length === 0 ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">
+              No alert rules yet. Nothing will be alerted on.
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {rules.map((rule) => (
+                <div
+                  key={rule.id}
+                  className="flex items-center justify-between rounded-lg border p-3"
+                >
+                  <div className="flex items-center gap-3">
+                    <Badge
+                      variant="outline"
+                      className={getSeverityColor(rule.severity)}
+                    >
+                      {rule.severity.toUpperCase()}
+                    </Badge>
+                    <div>
+                      <div className="text-sm font-medium">{rule.name}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {conditionLabel(rule)} | Cooldown:{" "}
+                        {rule.cooldownMinutes} minutes | Channels:{" "}
+                        {rule.channels.join(", ")}
+                      </div>
                     </div>
                   </div>
+                  <div className="flex items-center gap-2">
+                    {!rule.enabled ? (
+                      <Badge variant="outline">Disabled</Badge>
+                    ) : isMuted(rule) && rule.mutedUntil ? (
+                      <Badge variant="secondary">
+                        <BellOff className="mr-1 h-3 w-3" />
+                        Muted until{" "}
+                        {new Date(rule.mutedUntil).toLocaleTimeString()}
+                      </Badge>
+                    ) : (
+                      <Badge variant="secondary">Active</Badge>
+                    )}
+                    {isMuted(rule) ? (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={isPending}
+                        onClick={() =>
+                          run(
+                            () => unmuteAlertRuleAction(rule.id),
+                            `${rule.name} unmuted`,
+                          )
+                        }
+                      >
+                        Unmute
+                      </Button>
+                    ) : (
+                      <MuteMenu
+                        disabled={isPending || !rule.enabled}
+                        onMute={(hours) =>
+                          run(
+                            () => muteAlertRuleAction(rule.id, hours),
+                            `${rule.name} muted`,
+                          )
+                        }
+                      />
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      title="Edit"
+                      onClick={() => openDialog(rule)}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      title="Delete"
+                      disabled={isPending}
+                      onClick={() => setConfirmDelete(rule)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
                 </div>
-                <div className="flex items-center gap-2">
-                  <Badge variant="secondary">Active</Badge>
-                  <Button variant="ghost" size="sm">
-                    Edit
-                  </Button>
-                </div>
-              </div>
-            ))}
-          </div>
+              ))}
+            </div>
+          )}
         </CardContent>
       </Card>
 
@@ -249,98 +830,84 @@ export async function AlertsPanel() {
       <Card className="lg:col-span-2">
         <CardHeader>
           <CardTitle className="text-sm font-medium">Recent Activity</CardTitle>
-          <CardDescription>
-            Latest alert activity and resolutions
-          </CardDescription>
+          <CardDescription>The latest resolved incidents</CardDescription>
         </CardHeader>
         <CardContent>
-          {resolvedAlerts.length > 0 ? (
+          {incidents.resolved.length > 0 ? (
             <div className="space-y-3">
-              {resolvedAlerts.slice(0, 5).map((alert) => (
-                <div key={alert.id} className="flex items-center gap-3 p-2 border rounded">
-                  {getStatusIcon(alert.status)}
+              {incidents.resolved.map((incident) => (
+                <div
+                  key={incident.id}
+                  className="flex items-center gap-3 rounded border p-2"
+                >
+                  <CheckCircle className="h-4 w-4 text-green-600" />
                   <div className="flex-1">
-                    <div className="text-sm font-medium">{alert.rule}</div>
+                    <div className="text-sm font-medium">
+                      {incident.ruleName}
+                    </div>
                     <div className="text-xs text-muted-foreground">
-                      Resolved {alert.resolvedAt}
+                      Opened {formatRelative(incident.openedAt)}
+                      {incident.resolvedAt &&
+                        `, resolved ${formatRelative(incident.resolvedAt)}`}
+                      {incident.occurrences > 1 &&
+                        ` after ${incident.occurrences} triggers`}
                     </div>
                   </div>
-                  <Badge variant="outline" className={getSeverityColor(alert.severity)}>
-                    {alert.severity}
+                  <Badge
+                    variant="outline"
+                    className={getSeverityColor(incident.severity)}
+                  >
+                    {incident.severity}
                   </Badge>
                 </div>
               ))}
             </div>
           ) : (
-            <div className="text-center py-4 text-muted-foreground text-sm">
+            <div className="py-4 text-center text-sm text-muted-foreground">
               No recent alert activity
             </div>
           )}
         </CardContent>
       </Card>
+
+      <RuleDialog
+        rule={editing}
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        onSaved={refresh}
+      />
+
+      <AlertDialog
+        open={!!confirmDelete}
+        onOpenChange={(open) => !open && setConfirmDelete(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {confirmDelete?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The rule stops being checked. Its past incidents are kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isPending}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={isPending}
+              onClick={(event) => {
+                event.preventDefault();
+                if (confirmDelete) {
+                  run(
+                    () => deleteAlertRuleAction(confirmDelete.id),
+                    "Alert rule deleted",
+                    () => setConfirmDelete(null),
+                  );
+                }
+              }}
+            >
+              Delete Rule
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
-
-async function fetchAlertStatuses(): Promise<AlertStatus[]> {
-  // In a real implementation, this would fetch from your alerting system
-  // For now, we'll return mock data
-  return [
-    // Mock active alert
-    ...(Math.random() > 0.7 ? [{
-      id: "alert-1",
-      rule: "High Error Rate",
-      status: "active" as const,
-      severity: "high" as const,
-      triggeredAt: "2 minutes ago",
-      description: "Error rate has exceeded 5% threshold",
-      affectedServices: ["API", "Database"],
-    }] : []),
-    
-    // Mock resolved alerts
-    {
-      id: "alert-2",
-      rule: "Database Connection Issues",
-      status: "resolved" as const,
-      severity: "medium" as const,
-      triggeredAt: "1 hour ago",
-      resolvedAt: "45 minutes ago",
-      description: "Database connection pool exhausted",
-      affectedServices: ["Database"],
-    },
-    {
-      id: "alert-3",
-      rule: "Performance Degradation",
-      status: "resolved" as const,
-      severity: "low" as const,
-      triggeredAt: "3 hours ago",
-      resolvedAt: "2 hours ago",
-      description: "API response time exceeded threshold",
-      affectedServices: ["API"],
-    },
-  ];
-}
-
-function getAlertConfiguration() {
-  return {
-    channels: [
-      {
-        name: "Email",
-        enabled: sentryConfig.alerting.email !== undefined,
-      },
-      {
-        name: "Webhook",
-        enabled: sentryConfig.alerting.webhook !== undefined,
-      },
-      {
-        name: "Sentry",
-        enabled: sentryConfig.dsn !== undefined,
-      },
-    ],
-    thresholds: {
-      errors: sentryConfig.alerting.errorThreshold,
-      performance: sentryConfig.alerting.performanceThreshold,
-      responseTime: 500,
-    },
-  };
-}
\ No newline at end of file
@@ -1,6 +1,5 @@
 import { subDays } from "date-fns";
-import { count, desc, eq, gte } from "drizzle-orm";
-import { headers } from "next/headers";
+import { and, count, desc, eq, gte } from "drizzle-orm";
 import { redirect } from "next/navigation";
 import Link from "next/link";
 import { Badge } from "@/components/ui/badge";
@@ -13,8 +12,8 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { db } from "@/db";
-import { auditLog, invitation, user } from "@/db/schema";
-import { auth } from "@/lib/auth";
+import { auditLog, invitation, organizationMember, user } from "@/db/schema";
+import { getSessionWithRole } from "@/lib/auth-utils";
 
 /**
  * TODO: Admin Dashboard Implementation Checklist
@@ -56,10 +55,8 @@ import { auth } from "@/lib/auth";
  */
 
 export default async function AdminDashboard() {
-  // Get session from Better Auth
-  const session = await auth.api.getSession({
-    headers: await headers(),
-  });
+  // Get session with the role in the active organisation
+  const session = await getSessionWithRole();
 
   // Redirect to sign-in if not authenticated
   if (!session?.user) {
@@ -67,23 +64,38 @@ export default async function AdminDashboard() {
   }
 
   // Check if user has admin role
-  if (session.user.role !== 'admin') {
+  if (!['owner', 'admin'].includes(session.user.role)) {
     redirect('/dashboard');
   }
 
-  // Get real statistics from database
-  const [totalUsers] = await db.select({ count: count() }).from(user);
+  // Get real statistics for the active organisation
+  const organizationId = session.organization.id;
+  const [totalUsers] = await db
+    .select({ count: count() })
+    .from(organizationMember)
+    .where(eq(organizationMember.organizationId, organizationId));
   const [pendingInvitations] = await db
     .select({ count: count() })
     .from(invitation)
-    .where(eq(invitation.status, "pending"));
+    .where(
+      and(
+        eq(invitation.organizationId, organizationId),
+        eq(invitation.status, "pending"),
+      ),
+    );
 
   // Get recently created users (users created within last 30 days)
   const thirtyDaysAgo = subDays(new Date(), 30);
   const [recentUsers] = await db
     .select({ count: count() })
-    .from(user)
-    .where(gte(user.createdAt, thirtyDaysAgo));
+    .from(organizationMember)
+    .innerJoin(user, eq(organizationMember.userId, user.id))
+    .where(
+      and(
+        eq(organizationMember.organizationId, organizationId),
+        gte(user.createdAt, thirtyDaysAgo),
+      ),
+    );
 
   // Get recent audit logs
   const recentAuditLogs = await db
@@ -96,6 +108,7 @@ export default async function AdminDashboard() {
       createdAt: auditLog.createdAt,
     })
     .from(auditLog)
+    .where(eq(auditLog.organizationId, organizationId))
     .orderBy(desc(auditLog.createdAt))
     .limit(5);
 
@@ -3,7 +3,9 @@
 import { Edit, ExternalLink, Plus, Search, Trash2 } from "lucide-react";
 import { useEffect, useState } from "react";
 import { toast } from "sonner";
+import { BrokenLinksPanel } from "@/components/admin/broken-links-panel";
 import PublisherForm from "@/components/PublisherForm";
+import { PublisherLogo } from "@/components/publisher-logo";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -41,6 +43,8 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
+import type { PublisherCategory } from "@/db/schema";
+import { publisherCategoryLabels } from "@/lib/validations/publisher";
 
 interface Province {
   id: string;
@@ -56,6 +60,14 @@ interface Publisher {
   website?: string;
   province_id: string;
   province_name?: string;
+  category: PublisherCategory | null;
+  description: string | null;
+  tags: string[];
+  contactName: string | null;
+  contactEmail: string | null;
+  contactPhone: string | null;
+  procurementPortalUrl: string | null;
+  logoUrl: string | null;
   createdAt: string;
 }
 
@@ -232,7 +244,7 @@ export default function AdminPublishersPage() {
                 Add Publisher
               </Button>
             </DialogTrigger>
-            <DialogContent className="sm:max-w-[425px]">
+            <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
               <DialogHeader>
                 <DialogTitle>Create Publisher</DialogTitle>
                 <DialogDescription>
@@ -252,6 +264,8 @@ export default function AdminPublishersPage() {
         </div>
       </div>
 
+      <BrokenLinksPanel />
+
       <Card className="bg-background">
         <CardHeader className="space-y-4">
           <div className="flex items-center justify-between">
@@ -301,6 +315,7 @@ export default function AdminPublishersPage() {
                   <TableHead className="w-[250px]">Name</TableHead>
                   <TableHead className="w-[250px]">Website</TableHead>
                   <TableHead className="w-[150px]">Province</TableHead>
+                  <TableHead className="w-[150px]">Category</TableHead>
                   <TableHead className="w-[120px]">Created</TableHead>
                   <TableHead className="w-[100px] text-right">Actions</TableHead>
                 </TableRow>
@@ -308,8 +323,29 @@ export default function AdminPublishersPage() {
               <TableBody>
                 {publishers.map((publisher) => (
                   <TableRow key={publisher.id}>
-                    <TableCell className="font-medium">
-                      {publisher.name}
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <PublisherLogo
+                          name={publisher.name}
+                          logoUrl={publisher.logoUrl}
+                        />
+                        <div className="min-w-0">
+                          <p className="font-medium">{publisher.name}</p>
+                          {publisher.tags.length > 0 && (
+                            <div className="mt-1 flex flex-wrap gap-1">
+                              {publisher.tags.map((tag) => (
+                                <Badge
+                                  key={tag}
+                                  variant="secondary"
+                                  className="text-xs"
+                                >
+                                  {tag}
+                                </Badge>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                      </div>
                     </TableCell>
                     <TableCell>
                       {publisher.website ? (
@@ -333,6 +369,15 @@ export default function AdminPublishersPage() {
                         {publisher.province_name || "Unknown"}
                       </Badge>
                     </TableCell>
+                    <TableCell>
+                      {publisher.category ? (
+                        publisherCategoryLabels[publisher.category]
+                      ) : (
+                        <span className="text-muted-foreground">
+                          Uncategorised
+                        </span>
+                      )}
+                    </TableCell>
                     <TableCell>
                       {new Date(publisher.createdAt).toLocaleDateString()}
                     </TableCell>
@@ -357,7 +402,7 @@ export default function AdminPublishersPage() {
                               <Edit className="h-4 w-4" />
                             </Button>
                           </DialogTrigger>
-                          <DialogContent className="sm:max-w-[425px]">
+                          <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
                             <DialogHeader>
                               <DialogTitle>Edit Publisher</DialogTitle>
                               <DialogDescription>
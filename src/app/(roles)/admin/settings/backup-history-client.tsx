@@ -74,6 +74,8 @@ export function BackupHistoryClient() {
             Completed
           </Badge>
         );
+      case "queued":
+        return <Badge variant="secondary">Queued</Badge>;
       case "running":
         return (
           <Badge variant="default" className="bg-blue-500">
@@ -21,7 +21,7 @@ export function DatabaseSettingsClient() {
 
       if (response.ok) {
         const data = await response.json();
-        toast.success(`Backup started successfully! ID: ${data.backupId}`);
+        toast.success(`Backup queued! ID: ${data.backupId}`);
       } else {
         toast.error("Failed to start backup");
       }
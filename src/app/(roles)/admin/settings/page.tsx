@@ -6,6 +6,8 @@ import {
   Shield,
   Users,
 } from "lucide-react";
+import { redirect } from "next/navigation";
+import { CustomRolesManager } from "@/components/admin/custom-roles-manager";
 import {
   Card,
   CardContent,
@@ -16,64 +18,31 @@ import {
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
+import { getPermissionChecker, getSessionWithRole } from "@/lib/auth-utils";
+import { getCustomRoles } from "@/lib/roles";
+import { getSystemSettings } from "@/lib/system-settings";
 
-export default async function SystemSettingsPage() {
-  // Mock admin access for demo purposes
-  // In a real app, this would validate proper admin role
-
-  // Fetch real system settings from database directly
-  let systemSettings;
-  try {
-    const { db } = await import("@/db");
-    const { systemSettings: systemSettingsTable } = await import("@/db/schema");
+const TWO_FACTOR_ROLE_OPTIONS = [
+  { role: "owner", label: "Owners" },
+  { role: "admin", label: "Administrators" },
+  { role: "manager", label: "Managers" },
+  { role: "user", label: "Users" },
+] as const;
 
-    const settings = await db.select().from(systemSettingsTable);
+export default async function SystemSettingsPage() {
+  const session = await getSessionWithRole();
+  if (!session) redirect("/sign-in");
+  const permissions = getPermissionChecker(session);
 
-    // Transform the settings into the expected format
-    const settingsMap = settings.reduce(
-      (acc, setting) => {
-        acc[setting.settingKey] = setting.settingValue;
-        return acc;
-      },
-      {} as Record<string, any>,
-    );
+  // Platform settings cover every organisation; custom roles only this one
+  const isPlatformAdmin =
+    session.user.platformRole === "admin" ||
+    session.user.platformRole === "owner";
 
-    systemSettings = {
-      general: settingsMap.general || {
-        siteName: "Tender Hub",
-        siteDescription: "Professional tender and procurement platform",
-        maintenanceMode: false,
-        registrationEnabled: true,
-        emailVerificationRequired: true,
-      },
-      security: settingsMap.security || {
-        passwordMinLength: 8,
-        sessionTimeout: 24,
-        maxLoginAttempts: 5,
-        twoFactorRequired: false,
-        forcePasswordChange: false,
-      },
-    };
-  } catch (error) {
-    console.error("Error fetching settings:", error);
-    // Fallback to default values if API fails
-    systemSettings = {
-      general: {
-        siteName: "Tender Hub",
-        siteDescription: "Professional tender and procurement platform",
-        maintenanceMode: false,
-        registrationEnabled: true,
-        emailVerificationRequired: true,
-      },
-      security: {
-        passwordMinLength: 8,
-        sessionTimeout: 24,
-        maxLoginAttempts: 5,
-        twoFactorRequired: false,
-        forcePasswordChange: false,
-      },
-    };
-  }
+  const [systemSettings, customRoles] = await Promise.all([
+    isPlatformAdmin ? getSystemSettings() : null,
+    getCustomRoles(session.organization.id),
+  ]);
 
   return (
     <div className="space-y-6">
@@ -137,137 +106,183 @@ export default async function SystemSettingsPage() {
         </Card>
       </div>
 
-      {/* General Settings */}
-      <Card>
-        <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <Settings className="h-5 w-5" />
-            General Settings
-          </CardTitle>
-          <CardDescription>
-            Basic system configuration and preferences
-          </CardDescription>
-        </CardHeader>
-        <CardContent className="space-y-4">
-          <div className="grid gap-4 md:grid-cols-2">
-            <div className="space-y-2">
-              <Label htmlFor="site-name">Site Name</Label>
-              <Input
-                id="site-name"
-                defaultValue={systemSettings.general.siteName}
-              />
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="site-description">Site Description</Label>
-              <Input
-                id="site-description"
-                defaultValue={systemSettings.general.siteDescription}
-              />
-            </div>
-          </div>
+      {systemSettings && (
+        <>
+          {/* General Settings */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Settings className="h-5 w-5" />
+                General Settings
+              </CardTitle>
+              <CardDescription>
+                Basic system configuration and preferences
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="site-name">Site Name</Label>
+                  <Input
+                    id="site-name"
+                    defaultValue={systemSettings.general.siteName}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="site-description">Site Description</Label>
+                  <Input
+                    id="site-description"
+                    defaultValue={systemSettings.general.siteDescription}
+                  />
+                </div>
+              </div>
+
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label>Maintenance Mode</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Enable maintenance mode to restrict access
+                  </p>
+                </div>
+                <Switch
+                  defaultChecked={systemSettings.general.maintenanceMode}
+                />
+              </div>
+
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label>Registration Enabled</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Allow new user registrations
+                  </p>
+                </div>
+                <Switch
+                  defaultChecked={systemSettings.general.registrationEnabled}
+                />
+              </div>
 
-          <div className="flex items-center justify-between">
-            <div className="space-y-0.5">
-              <Label>Maintenance Mode</Label>
-              <p className="text-sm text-muted-foreground">
-                Enable maintenance mode to restrict access
-              </p>
-            </div>
-            <Switch defaultChecked={systemSettings.general.maintenanceMode} />
-          </div>
+              <div className="space-y-2">
+                <Label htmlFor="allowed-signup-domains">
+                  Allowed Sign-up Domains
+                </Label>
+                <Input
+                  id="allowed-signup-domains"
+                  placeholder="example.gov.za, example.co.za"
+                  defaultValue={systemSettings.general.allowedSignupDomains.join(
+                    ", ",
+                  )}
+                />
+                <p className="text-sm text-muted-foreground">
+                  Only these email domains may register without an invitation.
+                  Leave empty to allow any domain. New accounts always start as
+                  users.
+                </p>
+              </div>
 
-          <div className="flex items-center justify-between">
-            <div className="space-y-0.5">
-              <Label>Registration Enabled</Label>
-              <p className="text-sm text-muted-foreground">
-                Allow new user registrations
-              </p>
-            </div>
-            <Switch
-              defaultChecked={systemSettings.general.registrationEnabled}
-            />
-          </div>
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label>Email Verification Required</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Require a verified email address to sign in
+                  </p>
+                </div>
+                <Switch
+                  defaultChecked={
+                    systemSettings.general.emailVerificationRequired
+                  }
+                />
+              </div>
+            </CardContent>
+          </Card>
 
-          <div className="flex items-center justify-between">
-            <div className="space-y-0.5">
-              <Label>Email Verification Required</Label>
-              <p className="text-sm text-muted-foreground">
-                Require email verification for new accounts
-              </p>
-            </div>
-            <Switch
-              defaultChecked={systemSettings.general.emailVerificationRequired}
-            />
-          </div>
-        </CardContent>
-      </Card>
+          {/* Security Settings */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Shield className="h-5 w-5" />
+                Security Settings
+              </CardTitle>
+              <CardDescription>
+                Password policies and authentication settings
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="password-min-length">
+                    Minimum Password Length
+                  </Label>
+                  <Input
+                    id="password-min-length"
+                    type="number"
+                    defaultValue={systemSettings.security.passwordMinLength}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="session-timeout">
+                    Session Timeout (hours)
+                  </Label>
+                  <Input
+                    id="session-timeout"
+                    type="number"
+                    defaultValue={systemSettings.security.sessionTimeout}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="max-login-attempts">Max Login Attempts</Label>
+                  <Input
+                    id="max-login-attempts"
+                    type="number"
+                    defaultValue={systemSettings.security.maxLoginAttempts}
+                  />
+                </div>
+              </div>
 
-      {/* Security Settings */}
-      <Card>
-        <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <Shield className="h-5 w-5" />
-            Security Settings
-          </CardTitle>
-          <CardDescription>
-            Password policies and authentication settings
-          </CardDescription>
-        </CardHeader>
-        <CardContent className="space-y-4">
-          <div className="grid gap-4 md:grid-cols-2">
-            <div className="space-y-2">
-              <Label htmlFor="password-min-length">
-                Minimum Password Length
-              </Label>
-              <Input
-                id="password-min-length"
-                type="number"
-                defaultValue={systemSettings.security.passwordMinLength}
-              />
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="session-timeout">Session Timeout (hours)</Label>
-              <Input
-                id="session-timeout"
-                type="number"
-                defaultValue={systemSettings.security.sessionTimeout}
-              />
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="max-login-attempts">Max Login Attempts</Label>
-              <Input
-                id="max-login-attempts"
-                type="number"
-                defaultValue={systemSettings.security.maxLoginAttempts}
-              />
-            </div>
-          </div>
+              <div className="space-y-3">
+                <div className="space-y-0.5">
+                  <Label>Two-Factor Authentication Required</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Members with these roles must set up 2FA before they can
+                    continue
+                  </p>
+                </div>
+                {TWO_FACTOR_ROLE_OPTIONS.map((option) => (
+                  <div
+                    key={option.role}
+                    className="flex items-center justify-between pl-4"
+                  >
+                    <Label className="font-normal">{option.label}</Label>
+                    <Switch
+                      defaultChecked={systemSettings.security.twoFactorRequiredRoles.includes(
+                        option.role,
+                      )}
+                    />
+                  </div>
+                ))}
+              </div>
 
-          <div className="flex items-center justify-between">
-            <div className="space-y-0.5">
-              <Label>Two-Factor Authentication Required</Label>
-              <p className="text-sm text-muted-foreground">
-                Require 2FA for all admin accounts
-              </p>
-            </div>
-            <Switch
-              defaultChecked={systemSettings.security.twoFactorRequired}
-            />
-          </div>
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label>Force Password Change</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Require password change every 90 days
+                  </p>
+                </div>
+                <Switch
+                  defaultChecked={systemSettings.security.forcePasswordChange}
+                />
+              </div>
+            </CardContent>
+          </Card>
+        </>
+      )}
 
-          <div className="flex items-center justify-between">
-            <div className="space-y-0.5">
-              <Label>Force Password Change</Label>
-              <p className="text-sm text-muted-foreground">
-                Require password change every 90 days
-              </p>
-            </div>
-            <Switch
-              defaultChecked={systemSettings.security.forcePasswordChange}
-            />
-          </div>
-        </CardContent>
-      </Card>
+      <CustomRolesManager
+        roles={customRoles}
+        canCreate={permissions.can("role", "create")}
+        canUpdate={permissions.can("role", "update")}
+        canDelete={permissions.can("role", "delete")}
+      />
     </div>
   );
 }
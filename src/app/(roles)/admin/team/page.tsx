@@ -1,11 +1,14 @@
 "use client";
 
-import { useQueryClient } from "@tanstack/react-query";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { useCallback, useState } from "react";
 import { toast } from "sonner";
 import { ActivityFeed } from "@/components/team/ActivityFeed";
 import { ConfirmDialog } from "@/components/team/ConfirmDialog";
-import { EditMemberDialog } from "@/components/team/EditMemberDialog";
+import {
+  type EditMemberData,
+  EditMemberDialog,
+} from "@/components/team/EditMemberDialog";
 import { InviteMemberDialog } from "@/components/team/InviteMemberDialog";
 import { TeamAnalytics } from "@/components/team/TeamAnalytics";
 import {
@@ -14,6 +17,7 @@ import {
 } from "@/components/team/TeamMemberTable";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { checkPermission } from "@/lib/permissions";
+import { getOrganizationRoles } from "@/server/roles";
 
 export default function AdminTeamManagement() {
   const [inviteDialogOpen, setInviteDialogOpen] = useState(false);
@@ -35,10 +39,18 @@ export default function AdminTeamManagement() {
 
   const queryClient = useQueryClient();
 
+  // Only members who may assign roles can load them; the API re-checks
+  const { data: customRoles = [] } = useQuery({
+    queryKey: ["custom-roles"],
+    queryFn: () => getOrganizationRoles(),
+    retry: false,
+  });
+
   // Mock current user - in real app this would come from auth context
-  const currentUser = null; // Removed hardcoded mock user
+  // Carries the member's role in the active organisation
+  const currentUser = null as { id: string; role: string } | null; // Removed hardcoded mock user
 
-  const userPermissions = currentUser ? checkPermission(currentUser) : {
+  const userPermissions = currentUser ? checkPermission(currentUser, currentUser.role) : {
     canInviteUsers: () => false,
     hasRole: (role: string) => false,
     hasRoleOrHigher: (role: string) => false,
@@ -95,7 +107,7 @@ export default function AdminTeamManagement() {
   // Edit member
   const handleEditMember = async (
     memberId: string,
-    data: { name: string; role?: string; status?: string },
+    data: EditMemberData,
   ) => {
     try {
       const response = await fetch(`/api/team/${memberId}`, {
@@ -224,6 +236,8 @@ export default function AdminTeamManagement() {
             canEdit={userPermissions.hasRole("admin")}
             canSuspend={userPermissions.hasRoleOrHigher("manager")}
             canDelete={currentUser ? userPermissions.canDeleteUser(currentUser) : false}
+            // The admin layout only renders for admins; the API re-checks
+            canResetTwoFactor={(member) => member.role !== "owner"}
             showAnalytics={true}
             enablePolling={true}
             onOptimisticUpdate={handleOptimisticUpdate}
@@ -263,6 +277,7 @@ export default function AdminTeamManagement() {
         onSave={handleEditMember}
         canEditRole={userPermissions.hasRole("admin")}
         canEditStatus={userPermissions.hasRoleOrHigher("manager")}
+        customRoles={customRoles}
       />
 
       <ConfirmDialog
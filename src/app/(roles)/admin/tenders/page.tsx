@@ -0,0 +1,19 @@
+import { TenderManagement } from "@/components/tenders/TenderManagement";
+import { getTenderFormOptions, getTenders } from "@/server/tender";
+
+export default async function AdminTendersPage() {
+  const [tenders, options] = await Promise.all([
+    getTenders(),
+    getTenderFormOptions(),
+  ]);
+
+  return (
+    <TenderManagement
+      tenders={tenders}
+      publishers={options.publishers}
+      provinces={options.provinces}
+      canDelete
+      canManageSources
+    />
+  );
+}
@@ -0,0 +1,14 @@
+import { TenderSourceManagement } from "@/components/tenders/TenderSourceManagement";
+import { getTenderFormOptions } from "@/server/tender";
+import { getTenderSources } from "@/server/tender-source";
+
+export default async function AdminTenderSourcesPage() {
+  const [sources, options] = await Promise.all([
+    getTenderSources(),
+    getTenderFormOptions(),
+  ]);
+
+  return (
+    <TenderSourceManagement sources={sources} publishers={options.publishers} />
+  );
+}
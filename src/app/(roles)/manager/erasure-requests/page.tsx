@@ -0,0 +1,47 @@
+import { ErasureRequestTable } from "@/components/team/ErasureRequestTable";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { requireAuth } from "@/lib/auth-utils";
+import { getOrganizationErasureRequests } from "@/server/personal-data";
+
+export default async function ErasureRequestsPage() {
+  const session = await requireAuth();
+  const requests = await getOrganizationErasureRequests();
+  const open = requests.filter(
+    (request) => request.status === "pending" || request.status === "approved",
+  );
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Erasure Requests</h1>
+        <p className="text-gray-600">
+          Members asking for their personal data to be erased under POPIA.
+          Approving closes their account and anonymises their usage history.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Requests</CardTitle>
+          <CardDescription>
+            {open.length === 0
+              ? "Nothing awaiting review"
+              : `${open.length} awaiting review`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ErasureRequestTable
+            requests={requests}
+            currentUserId={session.user.id}
+          />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
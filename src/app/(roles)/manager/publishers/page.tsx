@@ -4,6 +4,7 @@ import { Edit, ExternalLink, Plus, Search } from "lucide-react";
 import { useEffect, useState } from "react";
 import { toast } from "sonner";
 import PublisherForm from "@/components/PublisherForm";
+import { PublisherLogo } from "@/components/publisher-logo";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import {
@@ -30,6 +31,8 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
+import type { PublisherCategory } from "@/db/schema";
+import { publisherCategoryLabels } from "@/lib/validations/publisher";
 
 interface Province {
   id: string;
@@ -45,6 +48,14 @@ interface Publisher {
   website?: string;
   province_id: string;
   province_name?: string;
+  category: PublisherCategory | null;
+  description: string | null;
+  tags: string[];
+  contactName: string | null;
+  contactEmail: string | null;
+  contactPhone: string | null;
+  procurementPortalUrl: string | null;
+  logoUrl: string | null;
   createdAt: string;
 }
 
@@ -186,7 +197,7 @@ export default function ManagerPublishersPage() {
               Add Publisher
             </Button>
           </DialogTrigger>
-          <DialogContent className="sm:max-w-[425px]">
+          <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle>Create Publisher</DialogTitle>
               <DialogDescription>
@@ -248,6 +259,7 @@ export default function ManagerPublishersPage() {
                   <TableHead>Name</TableHead>
                   <TableHead>Website</TableHead>
                   <TableHead>Province</TableHead>
+                  <TableHead>Category</TableHead>
                   <TableHead>Created</TableHead>
                   <TableHead className="text-right">Actions</TableHead>
                 </TableRow>
@@ -255,8 +267,29 @@ export default function ManagerPublishersPage() {
               <TableBody>
                 {publishers.map((publisher) => (
                   <TableRow key={publisher.id}>
-                    <TableCell className="font-medium">
-                      {publisher.name}
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <PublisherLogo
+                          name={publisher.name}
+                          logoUrl={publisher.logoUrl}
+                        />
+                        <div className="min-w-0">
+                          <p className="font-medium">{publisher.name}</p>
+                          {publisher.tags.length > 0 && (
+                            <div className="mt-1 flex flex-wrap gap-1">
+                              {publisher.tags.map((tag) => (
+                                <Badge
+                                  key={tag}
+                                  variant="secondary"
+                                  className="text-xs"
+                                >
+                                  {tag}
+                                </Badge>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                      </div>
                     </TableCell>
                     <TableCell>
                       {publisher.website ? (
@@ -280,6 +313,15 @@ export default function ManagerPublishersPage() {
                         {publisher.province_name || "Unknown"}
                       </Badge>
                     </TableCell>
+                    <TableCell>
+                      {publisher.category ? (
+                        publisherCategoryLabels[publisher.category]
+                      ) : (
+                        <span className="text-muted-foreground">
+                          Uncategorised
+                        </span>
+                      )}
+                    </TableCell>
                     <TableCell>
                       {new Date(publisher.createdAt).toLocaleDateString()}
                     </TableCell>
@@ -304,7 +346,7 @@ export default function ManagerPublishersPage() {
                               <Edit className="h-4 w-4" />
                             </Button>
                           </DialogTrigger>
-                          <DialogContent className="sm:max-w-[425px]">
+                          <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
                             <DialogHeader>
                               <DialogTitle>Edit Publisher</DialogTitle>
                               <DialogDescription>
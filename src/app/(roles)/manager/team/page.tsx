@@ -4,6 +4,7 @@ import { useQueryClient } from "@tanstack/react-query";
 import { useCallback, useState } from "react";
 import { toast } from "sonner";
 import { ConfirmDialog } from "@/components/team/ConfirmDialog";
+import { CoverageDialog } from "@/components/team/CoverageDialog";
 import { EditMemberDialog } from "@/components/team/EditMemberDialog";
 import { InviteMemberDialog } from "@/components/team/InviteMemberDialog";
 import {
@@ -16,6 +17,9 @@ export default function ManagerTeamManagement() {
   const [inviteDialogOpen, setInviteDialogOpen] = useState(false);
   const [editDialogOpen, setEditDialogOpen] = useState(false);
   const [selectedMember, setSelectedMember] = useState<TeamMember | null>(null);
+  const [coverageMember, setCoverageMember] = useState<TeamMember | null>(
+    null,
+  );
   const [confirmDialog, setConfirmDialog] = useState<{
     open: boolean;
     title: string;
@@ -33,9 +37,10 @@ export default function ManagerTeamManagement() {
   const queryClient = useQueryClient();
 
   // Mock current user - in real app this would come from auth context
-  const currentUser = null; // Removed hardcoded mock user
+  // Carries the member's role in the active organisation
+  const currentUser = null as { id: string; role: string } | null; // Removed hardcoded mock user
 
-  const userPermissions = currentUser ? checkPermission(currentUser) : {
+  const userPermissions = currentUser ? checkPermission(currentUser, currentUser.role) : {
     canInviteUsers: () => false,
     hasRole: (role: string) => false,
     hasRoleOrHigher: (role: string) => false,
@@ -179,6 +184,7 @@ export default function ManagerTeamManagement() {
         }}
         onSuspendMember={handleSuspendMember}
         onActivateMember={handleActivateMember}
+        onEditCoverage={setCoverageMember} // Saving re-checks coverage:assign
         canInvite={userPermissions.canInviteUsers()}
         canEdit={false} // Managers cannot edit roles
         canSuspend={userPermissions.hasRoleOrHigher("manager")}
@@ -206,6 +212,12 @@ export default function ManagerTeamManagement() {
         canEditStatus={userPermissions.hasRoleOrHigher("manager")}
       />
 
+      <CoverageDialog
+        member={coverageMember}
+        open={coverageMember !== null}
+        onOpenChange={(open) => !open && setCoverageMember(null)}
+      />
+
       <ConfirmDialog
         open={confirmDialog.open}
         onOpenChange={(open) => setConfirmDialog({ ...confirmDialog, open })}
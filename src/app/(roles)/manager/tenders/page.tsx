@@ -0,0 +1,17 @@
+import { TenderManagement } from "@/components/tenders/TenderManagement";
+import { getTenderFormOptions, getTenders } from "@/server/tender";
+
+export default async function ManagerTendersPage() {
+  const [tenders, options] = await Promise.all([
+    getTenders(),
+    getTenderFormOptions(),
+  ]);
+
+  return (
+    <TenderManagement
+      tenders={tenders}
+      publishers={options.publishers}
+      provinces={options.provinces}
+    />
+  );
+}
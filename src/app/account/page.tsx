@@ -1,6 +1,11 @@
 import { format } from "date-fns";
 import { ArrowLeft } from "lucide-react";
 import { redirect } from "next/navigation";
+import { CalendarFeedCard } from "@/components/calendar-feed-card";
+import { ConsentPreferencesCard } from "@/components/consent-preferences-card";
+import { EmailPreferencesForm } from "@/components/email-preferences-form";
+import { PersonalDataCard } from "@/components/personal-data-card";
+import { TwoFactorCard } from "@/components/two-factor-card";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -14,9 +19,13 @@ import {
 import { Progress } from "@/components/ui/progress";
 import { Separator } from "@/components/ui/separator";
 import { getSessionWithRole } from "@/lib/auth-utils";
+import { getConsentStatus } from "@/lib/consent";
+import { getLatestErasureRequest } from "@/lib/personal-data";
+import { isTwoFactorRequired } from "@/lib/two-factor";
 import { db } from "@/db";
 import { user } from "@/db/schema";
 import { eq } from "drizzle-orm";
+import { getMyCalendarFeed } from "@/server/calendar-feed";
 
 function getUserInitials(user: { name: string; email: string }) {
   if (user.name) {
@@ -86,6 +95,10 @@ export default async function AccountPage() {
   }
 
   const profile = userAccount[0];
+  const calendarFeed = await getMyCalendarFeed();
+  const consentStatus = await getConsentStatus(session.user.id);
+  const erasureRequest = await getLatestErasureRequest(session.user.id);
+  const twoFactorRequired = await isTwoFactorRequired(session.user);
   
   // Calculate account completeness
   const completeness = {
@@ -282,7 +295,29 @@ export default async function AccountPage() {
           </Card>
         </div>
 
+        <div className="mt-6">
+          <TwoFactorCard
+            enabled={!!session.user.twoFactorEnabled}
+            required={twoFactorRequired}
+          />
+        </div>
+
+        <div className="mt-6">
+          <CalendarFeedCard feed={calendarFeed} />
+        </div>
+
+        <div className="mt-6">
+          <ConsentPreferencesCard status={consentStatus} />
+        </div>
+
+        <div className="mt-6">
+          <PersonalDataCard erasureRequest={erasureRequest} />
+        </div>
 
+        <div className="mt-6 space-y-4">
+          <h2 className="text-2xl font-semibold">Email Preferences</h2>
+          <EmailPreferencesForm />
+        </div>
       </div>
     </div>
   );
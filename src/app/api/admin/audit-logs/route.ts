@@ -1,15 +1,15 @@
 import { subDays } from "date-fns";
-import { desc, eq, gte, count } from "drizzle-orm";
+import { and, desc, eq, gte, count } from "drizzle-orm";
 import { type NextRequest, NextResponse } from "next/server";
 import { db } from "@/db";
 import { auditLog, user } from "@/db/schema";
-import { requireAuth } from "@/lib/auth-utils";
+import { getPermissionChecker, requireAuth } from "@/lib/auth-utils";
+import { withRequestMetrics } from "@/lib/performance-monitor";
 
-export async function GET(request: NextRequest) {
+async function handleGet(request: NextRequest) {
   try {
-    // Require admin authentication
     const session = await requireAuth();
-    if (session.user.role !== "admin") {
+    if (!getPermissionChecker(session).can("auditLog", "read")) {
       return NextResponse.json(
         { error: "Unauthorized access" },
         { status: 403 },
@@ -42,7 +42,12 @@ export async function GET(request: NextRequest) {
         createdAt: auditLog.createdAt,
       })
       .from(auditLog)
-      .where(gte(auditLog.createdAt, fromDate))
+      .where(
+        and(
+          eq(auditLog.organizationId, session.organization.id),
+          gte(auditLog.createdAt, fromDate),
+        ),
+      )
       .orderBy(desc(auditLog.createdAt))
       .limit(1000); // Get more data to filter from
 
@@ -173,3 +178,5 @@ export async function GET(request: NextRequest) {
     );
   }
 }
+
+export const GET = withRequestMetrics("/api/admin/audit-logs", handleGet);
@@ -1,19 +1,32 @@
-import { execSync } from "node:child_process";
-import { existsSync, mkdirSync, statSync } from "node:fs";
-import { join } from "node:path";
-import { eq } from "drizzle-orm";
+import { count, desc, eq } from "drizzle-orm";
 import { type NextRequest, NextResponse } from "next/server";
 import { db } from "@/db";
 import { auditLog, backupHistory } from "@/db/schema";
 import { requireAuth } from "@/lib/auth-utils";
-
-// GET /api/admin/database - Get database status and backup history
-export async function GET() {
+import {
+  getConfiguredBackupStorages,
+  isBackupEncryptionEnabled,
+} from "@/lib/backup-storage";
+import {
+  getNextScheduledBackup,
+  queueBackupVerification,
+  queueDatabaseBackup,
+} from "@/lib/database-backup";
+import { backupConfig } from "@/lib/env-validation";
+import { withRequestMetrics } from "@/lib/performance-monitor";
+import { getSystemSettings } from "@/lib/system-settings";
+
+// GET /api/admin/database - Get database status, backup history and schedule
+async function handleGet() {
   try {
     const session = await requireAuth();
 
-    // Only admins and owners can view database info
-    if (session.user.role !== "admin" && session.user.role !== "owner") {
+    // Only platform admins and owners can view database info; the database
+    // holds every organisation
+    if (
+      session.user.platformRole !== "admin" &&
+      session.user.platformRole !== "owner"
+    ) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
     }
 
@@ -21,26 +34,38 @@ export async function GET() {
     const recentBackups = await db
       .select()
       .from(backupHistory)
-      .orderBy(backupHistory.createdAt)
+      .orderBy(desc(backupHistory.createdAt))
       .limit(10);
 
     // Get backup statistics
-    const allBackups = await db.select().from(backupHistory);
+    const statusCounts = await db
+      .select({ status: backupHistory.status, count: count() })
+      .from(backupHistory)
+      .groupBy(backupHistory.status);
+    const countOf = (status: string) =>
+      statusCounts.find((row) => row.status === status)?.count ?? 0;
 
     const stats = {
-      total: allBackups.length,
-      completed: allBackups.filter((b) => b.status === "completed").length,
-      failed: allBackups.filter((b) => b.status === "failed").length,
-      lastBackup:
-        allBackups.length > 0
-          ? allBackups[allBackups.length - 1].createdAt
-          : null,
+      total: statusCounts.reduce((sum, row) => sum + row.count, 0),
+      completed: countOf("completed"),
+      failed: countOf("failed"),
+      lastBackup: recentBackups[0]?.createdAt ?? null,
     };
 
+    const { database } = await getSystemSettings();
+    const schedule = await getNextScheduledBackup(database);
+
     return NextResponse.json({
       status: "healthy", // This would be determined by actual DB health check
       backups: recentBackups,
       stats,
+      settings: database,
+      schedule,
+      storage: {
+        target: backupConfig.storage,
+        configured: getConfiguredBackupStorages(),
+        encrypted: isBackupEncryptionEnabled(),
+      },
     });
   } catch (error) {
     console.error("Error fetching database info:", error);
@@ -51,232 +76,112 @@ export async function GET() {
   }
 }
 
-// POST /api/admin/database/backup - Create manual backup
-export async function POST(request: NextRequest) {
+export const GET = withRequestMetrics("/api/admin/database", handleGet);
+
+// POST /api/admin/database - Queue a manual backup or a verification
+async function handlePost(request: NextRequest) {
   try {
     const session = await requireAuth();
 
-    // Only admins and owners can create backups
-    if (session.user.role !== "admin" && session.user.role !== "owner") {
+    // Only platform admins and owners can create backups; the database
+    // holds every organisation
+    if (
+      session.user.platformRole !== "admin" &&
+      session.user.platformRole !== "owner"
+    ) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
     }
 
     const body = await request.json();
     const { action } = body;
+    const ipAddress = request.headers.get("x-forwarded-for") || "unknown";
 
     if (action === "backup") {
-      // Create backup history record
-      const backupId = crypto.randomUUID();
-      const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
-      const backupDir = "backups";
-      const backupFileName = `backup-${timestamp}.sql`;
-      const backupPath = join(process.cwd(), backupDir, backupFileName);
+      // Dumps take minutes, so the scheduler runs the backup rather than
+      // this request; its outcome is recorded on the history row
+      const backup = await queueDatabaseBackup(session.user.id);
 
-      // Ensure backup directory exists
-      if (!existsSync(backupDir)) {
-        mkdirSync(backupDir, { recursive: true });
-      }
+      // Log the backup action
+      await db.insert(auditLog).values({
+        id: crypto.randomUUID(),
+        userId: session.user.id,
+        action: "manual_database_backup",
+        metadata: { backupId: backup.id },
+        ipAddress,
+      });
+
+      return NextResponse.json(
+        {
+          message: "Backup queued successfully",
+          backupId: backup.id,
+        },
+        { status: 202 },
+      );
+    }
 
-      // Get database connection details from environment
-      const databaseUrl = process.env.DATABASE_URL;
-      if (!databaseUrl) {
+    if (action === "verify") {
+      const { backupId } = body;
+      if (typeof backupId !== "string") {
         return NextResponse.json(
-          { error: "DATABASE_URL not configured" },
-          { status: 500 },
+          { error: "Backup ID is required" },
+          { status: 400 },
         );
       }
 
-      // Insert backup record with "running" status
-      await db.insert(backupHistory).values({
-        id: backupId,
-        backupType: "manual",
-        status: "running",
-        initiatedBy: session.user.id,
-      });
+      const [backup] = await db
+        .select()
+        .from(backupHistory)
+        .where(eq(backupHistory.id, backupId))
+        .limit(1);
+
+      if (!backup) {
+        return NextResponse.json(
+          { error: "Backup not found" },
+          { status: 404 },
+        );
+      }
+      if (
+        backup.status !== "completed" ||
+        backup.prunedAt ||
+        backup.verificationStatus === "skipped"
+      ) {
+        return NextResponse.json(
+          { error: "Can only verify completed backups that are still on disk" },
+          { status: 400 },
+        );
+      }
+      if (!(await queueBackupVerification(backupId))) {
+        return NextResponse.json(
+          { error: "This backup is already being verified" },
+          { status: 409 },
+        );
+      }
 
-      // Log the backup action
       await db.insert(auditLog).values({
         id: crypto.randomUUID(),
         userId: session.user.id,
-        action: "manual_database_backup",
-        metadata: { backupId, backupPath },
-        ipAddress: request.headers.get("x-forwarded-for") || "unknown",
+        action: "database_backup_verification",
+        metadata: { backupId },
+        ipAddress,
       });
 
-      // Start backup process asynchronously
-      startBackupProcess(backupId, backupPath, databaseUrl);
-
-      return NextResponse.json({
-        message: "Backup started successfully",
-        backupId,
-      });
+      return NextResponse.json(
+        {
+          message: "Backup verification queued successfully",
+          backupId,
+        },
+        { status: 202 },
+      );
     }
 
     return NextResponse.json({ error: "Invalid action" }, { status: 400 });
   } catch (error) {
-    console.error("Error creating backup:", error);
+    console.error("Error queueing backup job:", error);
     return NextResponse.json(
-      { error: "Failed to create backup" },
+      { error: "Failed to queue backup job" },
       { status: 500 },
     );
   }
 }
 
-// Helper function to execute backup process
-async function startBackupProcess(
-  backupId: string,
-  backupPath: string,
-  databaseUrl: string,
-) {
-  const startTime = Date.now();
-
-  try {
-    // Check if this is a Neon database (contains neon.tech domain)
-    const isNeonDatabase =
-      databaseUrl.includes("neon.tech") ||
-      databaseUrl.includes("neon.database");
-
-    if (isNeonDatabase) {
-      // For Neon databases, use direct connection instead of pg_dump
-      await createNeonBackup(backupId, backupPath, databaseUrl, startTime);
-    } else {
-      // For regular PostgreSQL databases, use pg_dump
-      await createPostgresBackup(backupId, backupPath, databaseUrl, startTime);
-    }
-  } catch (error) {
-    console.error("Backup process failed:", error);
-    const duration = Math.round((Date.now() - startTime) / 1000);
-
-    // Update backup record with failure
-    await db
-      .update(backupHistory)
-      .set({
-        status: "failed",
-        errorMessage: error instanceof Error ? error.message : "Unknown error",
-        duration: duration,
-      })
-      .where(eq(backupHistory.id, backupId));
-  }
-}
-
-// Backup function for regular PostgreSQL databases using pg_dump
-async function createPostgresBackup(
-  backupId: string,
-  backupPath: string,
-  databaseUrl: string,
-  startTime: number,
-) {
-  // Parse database URL to extract connection parameters
-  const urlMatch = databaseUrl.match(
-    /postgresql:\/\/([^:]+):([^@]+)@([^:]+):(\d+)\/(.+)/,
-  );
-  if (!urlMatch) {
-    throw new Error(`Invalid database URL format: ${databaseUrl}`);
-  }
-
-  const [, username, password, host, port, database] = urlMatch;
-
-  // Set environment variables for pg_dump
-  process.env.PGPASSWORD = password;
-
-  // Construct pg_dump command
-  const pgDumpCommand = `pg_dump -h ${host} -p ${port} -U ${username} -d ${database} -f "${backupPath}" --verbose --no-password --format=custom --compress=6`;
-
-  console.log(`Starting pg_dump: ${pgDumpCommand.replace(password, "***")}`);
-
-  // Execute pg_dump with password in environment (not exposed in command line)
-  execSync(pgDumpCommand, {
-    stdio: ["pipe", "pipe", "pipe"],
-    env: { ...process.env, PGPASSWORD: password },
-  });
-
-  const fileSize = statSync(backupPath).size;
-  const duration = Math.round((Date.now() - startTime) / 1000);
-
-  await db
-    .update(backupHistory)
-    .set({
-      status: "completed",
-      filePath: backupPath,
-      fileSize: fileSize,
-      duration: duration,
-    })
-    .where(eq(backupHistory.id, backupId));
-
-  console.log(
-    `Backup completed successfully: ${backupPath} (${fileSize} bytes, ${duration}s)`,
-  );
-}
-
-// Backup function for Neon databases - provides guidance instead of actual backup
-async function createNeonBackup(
-  backupId: string,
-  backupPath: string,
-  _databaseUrl: string,
-  startTime: number,
-) {
-  console.log("Detected Neon database - providing backup guidance");
-
-  // For Neon databases, we cannot use pg_dump directly due to their serverless architecture
-  // Instead, we create a guidance document and mark as informational
-  const guidance = `-- Neon Database Backup Guidance
--- Generated on: ${new Date().toISOString()}
-
--- IMPORTANT: Neon databases do not support direct pg_dump/restore operations
--- due to their serverless, connection-pooled architecture.
-
--- RECOMMENDED BACKUP OPTIONS FOR NEON:
-
-1. NEON DASHBOARD EXPORT (Recommended):
-   - Go to your Neon dashboard: https://neon.tech
-   - Navigate to your project → Database → Export
-   - Download full database export as SQL file
-   - This is the secure production backup method
-
-2. READ REPLICA BACKUP (Automated):
-   - Set up a read replica with direct PostgreSQL access
-   - Use pg_dump on the replica for automated backups
-   - Keep the replica in sync for disaster recovery
-
-3. PROGRAMMATIC EXPORT:
-   - Use Neon's HTTP API to export data programmatically
-   - Consider using a separate connection pooling service
-   - Implement custom data export logic
-
-4. THIRD-PARTY BACKUP SERVICES:
-   - Use services like pgBackRest with Neon
-   - Consider managed backup solutions
-
--- SECURITY NOTE: Never include database credentials in backup files
--- Current backup marked as "guidance" rather than actual backup
--- Visit: https://neon.tech/docs/introduction/export-import-datasets/
-`;
-
-  try {
-    const fs = require("node:fs");
-    fs.writeFileSync(backupPath, guidance, "utf8");
-
-    const fileSize = statSync(backupPath).size;
-    const duration = Math.round((Date.now() - startTime) / 1000);
-
-    await db
-      .update(backupHistory)
-      .set({
-        status: "completed", // Still mark as completed since guidance was provided
-        filePath: backupPath,
-        fileSize: fileSize,
-        duration: duration,
-        errorMessage:
-          "Neon database - backup guidance provided (see file content)",
-      })
-      .where(eq(backupHistory.id, backupId));
-
-    console.log(
-      `Neon backup guidance created: ${backupPath} (${fileSize} bytes, ${duration}s)`,
-    );
-  } catch (error) {
-    throw new Error(
-      `Neon guidance creation failed: ${error instanceof Error ? error.message : "Unknown error"}`,
-    );
-  }
-}
+export const POST = withRequestMetrics("/api/admin/database", handlePost);
@@ -1,4 +1,4 @@
-import { eq } from "drizzle-orm";
+import { and, eq } from "drizzle-orm";
 import { type NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { db } from "@/db";
@@ -6,6 +6,7 @@ import { invitation } from "@/db/schema";
 import { AuditLogger } from "@/lib/audit-logger";
 import { requireAdmin } from "@/lib/auth-utils";
 import { sendEmail } from "@/lib/email";
+import { withRequestMetrics } from "@/lib/performance-monitor";
 
 /**
  * Cancel invitation validation schema
@@ -21,7 +22,7 @@ const cancelInvitationSchema = z.object({
  * POST /api/admin/invitations/[id]/cancel
  * Cancel an invitation
  */
-export async function POST(
+async function handlePost(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> },
 ) {
@@ -60,7 +61,12 @@ export async function POST(
         expiresAt: invitation.expiresAt,
       })
       .from(invitation)
-      .where(eq(invitation.id, invitationId))
+      .where(
+        and(
+          eq(invitation.id, invitationId),
+          eq(invitation.organizationId, currentUser.organization.id),
+        ),
+      )
       .limit(1);
 
     if (existingInvitation.length === 0) {
@@ -172,3 +178,8 @@ export async function POST(
     );
   }
 }
+
+export const POST = withRequestMetrics(
+  "/api/admin/invitations/[id]/cancel",
+  handlePost,
+);
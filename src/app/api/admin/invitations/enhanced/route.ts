@@ -5,6 +5,7 @@ import { user } from "@/db/schema";
 import { AuditLogger } from "@/lib/audit-logger";
 import { requireAdmin } from "@/lib/auth-utils";
 import { createInvitation } from "@/lib/invitation";
+import { withRequestMetrics } from "@/lib/performance-monitor";
 import { invitationValidationHelpers } from "@/lib/validations/invitations";
 
 /**
@@ -40,7 +41,7 @@ import { invitationValidationHelpers } from "@/lib/validations/invitations";
  * [ ] Follow-up email sequences
  */
 
-export async function POST(request: NextRequest) {
+async function handlePost(request: NextRequest) {
   try {
     // Authenticate and authorize admin user
     const currentUser = await requireAdmin();
@@ -186,7 +187,9 @@ export async function POST(request: NextRequest) {
   }
 }
 
-export async function GET(request: NextRequest) {
+export const POST = withRequestMetrics("/api/admin/invitations/enhanced", handlePost);
+
+async function handleGet(request: NextRequest) {
   try {
     // Authenticate and authorize admin user
     const currentUser = await requireAdmin();
@@ -249,6 +252,8 @@ export async function GET(request: NextRequest) {
   }
 }
 
+export const GET = withRequestMetrics("/api/admin/invitations/enhanced", handleGet);
+
 // Helper functions for enhanced invitation system
 async function getInvitationAnalytics() {
   try {
@@ -3,9 +3,10 @@ import { type NextRequest, NextResponse } from "next/server";
 import { db } from "@/db";
 import { invitation } from "@/db/schema";
 import { requireAdmin } from "@/lib/auth-utils";
+import { withRequestMetrics } from "@/lib/performance-monitor";
 import { invitationQuerySchema } from "@/lib/validations/invitations";
 
-export async function POST(request: NextRequest) {
+async function handlePost(request: NextRequest) {
   try {
     console.log("🚀 INVITATION CREATION STARTED");
     console.log("Request method:", request.method);
@@ -60,7 +61,12 @@ export async function POST(request: NextRequest) {
         inviterId: invitation.inviterId,
       })
       .from(invitation)
-      .where(eq(invitation.email, email))
+      .where(
+        and(
+          eq(invitation.organizationId, currentUser.organization.id),
+          eq(invitation.email, email),
+        ),
+      )
       .limit(1);
 
     if (existingInvitation.length > 0) {
@@ -82,6 +88,7 @@ export async function POST(request: NextRequest) {
       status: "pending" as const,
       expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // 7 days
       inviterId: currentUser.user.id,
+      organizationId: currentUser.organization.id,
     };
 
     console.log(
@@ -209,10 +216,12 @@ export async function POST(request: NextRequest) {
   }
 }
 
-export async function GET(request: NextRequest) {
+export const POST = withRequestMetrics("/api/admin/invitations", handlePost);
+
+async function handleGet(request: NextRequest) {
   try {
     // Authenticate and authorize admin user
-    const _currentUser = await requireAdmin();
+    const currentUser = await requireAdmin();
 
     // Parse query parameters
     const { searchParams } = new URL(request.url);
@@ -243,7 +252,9 @@ export async function GET(request: NextRequest) {
     const offset = (page - 1) * limit;
 
     // Build where conditions
-    const whereConditions = [];
+    const whereConditions = [
+      eq(invitation.organizationId, currentUser.organization.id),
+    ];
 
     if (status) {
       whereConditions.push(eq(invitation.status, status));
@@ -266,9 +277,10 @@ export async function GET(request: NextRequest) {
         status: invitation.status,
         expiresAt: invitation.expiresAt,
         inviterId: invitation.inviterId,
+        organizationId: invitation.organizationId,
       })
       .from(invitation)
-      .where(whereConditions.length > 0 ? and(...whereConditions) : undefined)
+      .where(and(...whereConditions))
       .orderBy(desc(invitation.expiresAt))
       .limit(limit)
       .offset(offset);
@@ -276,7 +288,7 @@ export async function GET(request: NextRequest) {
     const countQuery = db
       .select({ count: sql<number>`count(*)` })
       .from(invitation)
-      .where(whereConditions.length > 0 ? and(...whereConditions) : undefined);
+      .where(and(...whereConditions));
 
     const [invitationResults, countResult] = await Promise.all([
       invitationsQuery,
@@ -330,3 +342,5 @@ export async function GET(request: NextRequest) {
     );
   }
 }
+
+export const GET = withRequestMetrics("/api/admin/invitations", handleGet);
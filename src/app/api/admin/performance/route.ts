@@ -5,14 +5,14 @@
 
 import { NextRequest, NextResponse } from "next/server";
 import { requireAdminAPI } from "@/lib/auth-utils";
-import { performanceMonitor, getPerformanceHealth } from "@/lib/performance-monitor";
+import { performanceMonitor, getPerformanceHealth, withRequestMetrics } from "@/lib/performance-monitor";
 import { getCacheHealth, cacheInvalidator } from "@/lib/cache-production";
 
 /**
  * GET /api/admin/performance
  * Get comprehensive performance metrics and system health
  */
-export async function GET(request: NextRequest) {
+async function handleGet(request: NextRequest) {
   try {
     // Require admin authentication
     const authResult = await requireAdminAPI();
@@ -93,11 +93,13 @@ export async function GET(request: NextRequest) {
   }
 }
 
+export const GET = withRequestMetrics("/api/admin/performance", handleGet);
+
 /**
  * POST /api/admin/performance/clear
  * Clear performance metrics (admin only)
  */
-export async function POST(request: NextRequest) {
+async function handlePost(request: NextRequest) {
   try {
     // Require admin authentication
     const authResult = await requireAdminAPI();
@@ -152,4 +154,6 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
+
+export const POST = withRequestMetrics("/api/admin/performance", handlePost);
\ No newline at end of file
@@ -2,14 +2,15 @@ import { eq } from "drizzle-orm";
 import { type NextRequest, NextResponse } from "next/server";
 import { db } from "@/db";
 import { provinces } from "@/db/schema";
-import { requireAdminAPI } from "@/lib/auth-utils";
+import { requirePermissionAPI } from "@/lib/auth-utils";
+import { withRequestMetrics } from "@/lib/performance-monitor";
 
-export async function PUT(
+async function handlePut(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> },
 ) {
   try {
-    const authResult = await requireAdminAPI();
+    const authResult = await requirePermissionAPI("province", "update");
     if ("error" in authResult) {
       return authResult.error;
     }
@@ -70,12 +71,14 @@ export async function PUT(
   }
 }
 
-export async function DELETE(
+export const PUT = withRequestMetrics("/api/admin/provinces/[id]", handlePut);
+
+async function handleDelete(
   _request: NextRequest,
   { params }: { params: Promise<{ id: string }> },
 ) {
   try {
-    const authResult = await requireAdminAPI();
+    const authResult = await requirePermissionAPI("province", "delete");
     if ("error" in authResult) {
       return authResult.error;
     }
@@ -115,3 +118,8 @@ export async function DELETE(
     );
   }
 }
+
+export const DELETE = withRequestMetrics(
+  "/api/admin/provinces/[id]",
+  handleDelete,
+);
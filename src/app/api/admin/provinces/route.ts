@@ -2,11 +2,12 @@ import { desc, eq, ilike } from "drizzle-orm";
 import { type NextRequest, NextResponse } from "next/server";
 import { db } from "@/db";
 import { provinces } from "@/db/schema";
-import { requireAdminAPI } from "@/lib/auth-utils";
+import { requirePermissionAPI } from "@/lib/auth-utils";
+import { withRequestMetrics } from "@/lib/performance-monitor";
 
-export async function GET(request: NextRequest) {
+async function handleGet(request: NextRequest) {
   try {
-    const authResult = await requireAdminAPI();
+    const authResult = await requirePermissionAPI("province", "read");
     if ("error" in authResult) {
       console.log('[api/admin/provinces] auth error', authResult.error);
       return authResult.error;
@@ -62,9 +63,11 @@ export async function GET(request: NextRequest) {
   }
 }
 
-export async function POST(request: NextRequest) {
+export const GET = withRequestMetrics("/api/admin/provinces", handleGet);
+
+async function handlePost(request: NextRequest) {
   try {
-    const authResult = await requireAdminAPI();
+    const authResult = await requirePermissionAPI("province", "create");
     if ("error" in authResult) {
       console.log('[api/admin/provinces] auth error', authResult.error);
       return authResult.error;
@@ -116,3 +119,5 @@ export async function POST(request: NextRequest) {
     );
   }
 }
+
+export const POST = withRequestMetrics("/api/admin/provinces", handlePost);
@@ -4,8 +4,9 @@ import { headers } from "next/headers";
 import { db } from "@/db";
 import { provinces, publishers } from "@/db/schema";
 import { auth } from "@/lib/auth";
+import { withRequestMetrics } from "@/lib/performance-monitor";
 
-export async function GET(request: NextRequest) {
+async function handleGet(request: NextRequest) {
   try {
     console.log("Simple Publishers API: Starting request");
     
@@ -93,4 +94,6 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
+
+export const GET = withRequestMetrics("/api/admin/publishers-simple", handleGet);
\ No newline at end of file
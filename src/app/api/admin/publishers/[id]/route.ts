@@ -2,14 +2,17 @@ import { eq } from "drizzle-orm";
 import { type NextRequest, NextResponse } from "next/server";
 import { db } from "@/db";
 import { provinces, publishers } from "@/db/schema";
-import { requireAdminAPI } from "@/lib/auth-utils";
+import { AuditLogger } from "@/lib/audit-logger";
+import { requirePermissionAPI } from "@/lib/auth-utils";
+import { withRequestMetrics } from "@/lib/performance-monitor";
+import { parsePublisherDetails } from "@/lib/validations/publisher";
 
-export async function PUT(
+async function handlePut(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> },
 ) {
   try {
-    const authResult = await requireAdminAPI();
+    const authResult = await requirePermissionAPI("publisher", "update");
     if ("error" in authResult) {
       return authResult.error;
     }
@@ -41,13 +44,21 @@ export async function PUT(
       );
     }
 
+    const details = parsePublisherDetails(formData);
+    if ("error" in details) {
+      return NextResponse.json({ error: details.error }, { status: 400 });
+    }
+
+    const changes = {
+      name: name.trim(),
+      website: website?.trim() || null,
+      province_id,
+      ...details.values,
+    };
+
     const [updatedPublisher] = await db
       .update(publishers)
-      .set({
-        name: name.trim(),
-        website: website?.trim() || null,
-        province_id,
-      })
+      .set(changes)
       .where(eq(publishers.id, id))
       .returning();
 
@@ -58,7 +69,15 @@ export async function PUT(
       );
     }
 
-    // TODO: Add audit logging for publisher update
+    await AuditLogger.logPublisherUpdated(
+      authResult.session.user.id,
+      id,
+      changes,
+      {
+        ipAddress: request.headers.get("x-forwarded-for") || undefined,
+        userAgent: request.headers.get("user-agent") || undefined,
+      },
+    );
 
     return NextResponse.json({ publisher: updatedPublisher });
   } catch (error) {
@@ -70,12 +89,14 @@ export async function PUT(
   }
 }
 
-export async function DELETE(
+export const PUT = withRequestMetrics("/api/admin/publishers/[id]", handlePut);
+
+async function handleDelete(
   _request: NextRequest,
   { params }: { params: Promise<{ id: string }> },
 ) {
   try {
-    const authResult = await requireAdminAPI();
+    const authResult = await requirePermissionAPI("publisher", "delete");
     if ("error" in authResult) {
       return authResult.error;
     }
@@ -104,3 +125,8 @@ export async function DELETE(
     );
   }
 }
+
+export const DELETE = withRequestMetrics(
+  "/api/admin/publishers/[id]",
+  handleDelete,
+);
@@ -0,0 +1,92 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { requirePermissionAPI } from "@/lib/auth-utils";
+import { createAppError, logError } from "@/lib/error-utils";
+import {
+  getBrokenPublisherLinks,
+  LINK_FAILURE_THRESHOLD,
+  runLinkHealthCheck,
+} from "@/lib/link-health";
+import { withRequestMetrics } from "@/lib/performance-monitor";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Publishers whose website is flagged as broken.
+ */
+async function handleGet() {
+  const authResult = await requirePermissionAPI("publisher", "read");
+  if ("error" in authResult) return authResult.error;
+
+  try {
+    const brokenLinks = await getBrokenPublisherLinks();
+    return NextResponse.json({
+      brokenLinks,
+      failureThreshold: LINK_FAILURE_THRESHOLD,
+    });
+  } catch (error) {
+    logError(
+      createAppError("Failed to fetch broken publisher links", {
+        code: "LINK_HEALTH_FETCH_FAILED",
+        statusCode: 500,
+        details: { originalError: error },
+      }),
+      "medium",
+    );
+    return NextResponse.json(
+      { error: "Failed to fetch broken links" },
+      { status: 500 },
+    );
+  }
+}
+
+export const GET = withRequestMetrics(
+  "/api/admin/publishers/link-health",
+  handleGet,
+);
+
+/**
+ * Re-check one publisher's website now, e.g. after fixing its URL.
+ */
+async function handlePost(request: NextRequest) {
+  const authResult = await requirePermissionAPI("publisher", "update");
+  if ("error" in authResult) return authResult.error;
+
+  const body = await request.json().catch(() => null);
+  const publisherId = body?.publisherId;
+  if (typeof publisherId !== "string" || !publisherId) {
+    return NextResponse.json(
+      { error: "Publisher ID is required" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const report = await runLinkHealthCheck({ publisherIds: [publisherId] });
+    const [result] = report.results;
+    if (!result) {
+      return NextResponse.json(
+        { error: "Publisher not found or has no website" },
+        { status: 404 },
+      );
+    }
+    return NextResponse.json({ result });
+  } catch (error) {
+    logError(
+      createAppError("Failed to check publisher link", {
+        code: "LINK_CHECK_FAILED",
+        statusCode: 500,
+        details: { publisherId, originalError: error },
+      }),
+      "medium",
+    );
+    return NextResponse.json(
+      { error: "Failed to check publisher link" },
+      { status: 500 },
+    );
+  }
+}
+
+export const POST = withRequestMetrics(
+  "/api/admin/publishers/link-health",
+  handlePost,
+);
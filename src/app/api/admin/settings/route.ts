@@ -1,51 +1,24 @@
 import { type NextRequest, NextResponse } from "next/server";
-import { db } from "@/db";
-import { auditLog, systemSettings } from "@/db/schema";
 import { requireAuth } from "@/lib/auth-utils";
+import { withRequestMetrics } from "@/lib/performance-monitor";
+import { getSystemSettings, updateSystemSettings } from "@/lib/system-settings";
+import { systemSettingsUpdateSchema } from "@/lib/validations/system-settings";
 
-// GET /api/admin/settings - Fetch all system settings
-export async function GET() {
+// GET /api/admin/settings - Fetch the platform settings
+async function handleGet() {
   try {
     const session = await requireAuth();
 
-    // Only admins and owners can view settings
-    if (session.user.role !== "admin" && session.user.role !== "owner") {
+    // Settings apply to every organisation, so only platform admins and
+    // owners can view them
+    if (
+      session.user.platformRole !== "admin" &&
+      session.user.platformRole !== "owner"
+    ) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
     }
 
-    const settings = await db.select().from(systemSettings);
-
-    // Transform the settings into the expected format
-    const settingsMap = settings.reduce(
-      (acc, setting) => {
-        acc[setting.settingKey] = setting.settingValue;
-        return acc;
-      },
-      {} as Record<string, any>,
-    );
-
-    return NextResponse.json({
-      general: settingsMap.general || {
-        siteName: "Tender Hub",
-        siteDescription: "Professional tender and procurement platform",
-        maintenanceMode: false,
-        registrationEnabled: true,
-        emailVerificationRequired: true,
-      },
-      security: settingsMap.security || {
-        passwordMinLength: 8,
-        sessionTimeout: 24,
-        maxLoginAttempts: 5,
-        twoFactorRequired: false,
-        forcePasswordChange: false,
-      },
-      database: settingsMap.database || {
-        backupFrequency: "daily",
-        retentionDays: 30,
-        autoOptimize: true,
-        monitoringEnabled: true,
-      },
-    });
+    return NextResponse.json(await getSystemSettings());
   } catch (error) {
     console.error("Error fetching settings:", error);
     return NextResponse.json(
@@ -55,58 +28,54 @@ export async function GET() {
   }
 }
 
-// POST /api/admin/settings - Update system settings
-export async function POST(request: NextRequest) {
+export const GET = withRequestMetrics("/api/admin/settings", handleGet);
+
+// POST /api/admin/settings - Update the platform settings
+async function handlePost(request: NextRequest) {
   try {
     const session = await requireAuth();
 
-    // Only admins and owners can update settings
-    if (session.user.role !== "admin" && session.user.role !== "owner") {
+    // Settings apply to every organisation, so only platform admins and
+    // owners can change them
+    if (
+      session.user.platformRole !== "admin" &&
+      session.user.platformRole !== "owner"
+    ) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
     }
 
     const body = await request.json();
-    const { settings } = body;
 
-    if (!settings) {
+    if (!body?.settings) {
       return NextResponse.json(
         { error: "Settings data is required" },
         { status: 400 },
       );
     }
 
-    // Update each setting category
-    for (const [category, values] of Object.entries(settings)) {
-      const settingKey = category;
-
-      await db
-        .insert(systemSettings)
-        .values({
-          settingKey,
-          settingValue: values,
-          updatedBy: session.user.id,
-        })
-        .onConflictDoUpdate({
-          target: systemSettings.settingKey,
-          set: {
-            settingValue: values,
-            updatedBy: session.user.id,
-            updatedAt: new Date(),
-          },
-        });
+    const parsed = systemSettingsUpdateSchema.safeParse(body.settings);
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid settings",
+          details: parsed.error.issues.map((issue) => ({
+            field: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 },
+      );
     }
 
-    // Log the settings update
-    await db.insert(auditLog).values({
-      id: crypto.randomUUID(),
+    const settings = await updateSystemSettings(parsed.data, {
       userId: session.user.id,
-      action: "update_system_settings",
-      metadata: { updatedCategories: Object.keys(settings) },
       ipAddress: request.headers.get("x-forwarded-for") || "unknown",
+      userAgent: request.headers.get("user-agent") || undefined,
     });
 
     return NextResponse.json({
       message: "Settings updated successfully",
+      settings,
     });
   } catch (error) {
     console.error("Error updating settings:", error);
@@ -116,3 +85,5 @@ export async function POST(request: NextRequest) {
     );
   }
 }
+
+export const POST = withRequestMetrics("/api/admin/settings", handlePost);
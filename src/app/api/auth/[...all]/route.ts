@@ -1,4 +1,8 @@
 import { auth } from "@/lib/auth";
 import { toNextJsHandler } from "better-auth/next-js";
+import { withRequestMetrics } from "@/lib/performance-monitor";
 
-export const { POST, GET } = toNextJsHandler(auth.handler);
\ No newline at end of file
+const handlers = toNextJsHandler(auth.handler);
+
+export const POST = withRequestMetrics("/api/auth/[...all]", handlers.POST);
+export const GET = withRequestMetrics("/api/auth/[...all]", handlers.GET);
\ No newline at end of file
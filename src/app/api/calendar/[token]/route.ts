@@ -0,0 +1,55 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { getCalendarFeed } from "@/lib/calendar-feed";
+import { createAppError, logError } from "@/lib/error-utils";
+import { withRequestMetrics } from "@/lib/performance-monitor";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * iCalendar subscription feed. Authenticated by the secret token in the
+ * URL because calendar apps cannot send a session cookie.
+ */
+async function handleGet(
+  _request: NextRequest,
+  { params }: { params: Promise<{ token: string }> },
+) {
+  const { token: rawToken } = await params;
+  const token = rawToken.replace(/\.ics$/, "");
+
+  if (!/^[0-9a-f]{64}$/.test(token)) {
+    return NextResponse.json({ error: "Calendar not found" }, { status: 404 });
+  }
+
+  try {
+    const calendar = await getCalendarFeed(token);
+    if (!calendar) {
+      return NextResponse.json(
+        { error: "Calendar not found" },
+        { status: 404 },
+      );
+    }
+
+    return new NextResponse(calendar, {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="tender-deadlines.ics"',
+        "Cache-Control": "private, max-age=900",
+      },
+    });
+  } catch (error) {
+    logError(
+      createAppError("Failed to generate calendar feed", {
+        code: "CALENDAR_FEED_FAILED",
+        statusCode: 500,
+        details: { originalError: error },
+      }),
+      "medium",
+    );
+    return NextResponse.json(
+      { error: "Failed to generate calendar feed" },
+      { status: 500 },
+    );
+  }
+}
+
+export const GET = withRequestMetrics("/api/calendar/[token]", handleGet);
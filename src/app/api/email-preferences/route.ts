@@ -7,8 +7,10 @@ import {
   type EmailPreferenceUpdate,
 } from "@/lib/email-preferences";
 import { AuditLogger } from "@/lib/audit-logger";
+import { isValidReminderLeadDays } from "@/lib/tender-deadline-schedule";
+import { withRequestMetrics } from "@/lib/performance-monitor";
 
-export async function GET(request: NextRequest) {
+async function handleGet(request: NextRequest) {
   try {
     const session = await auth.api.getSession({
       headers: request.headers,
@@ -60,6 +62,8 @@ export async function GET(request: NextRequest) {
           immediateNotifications: preferences.immediateNotifications,
           dailyDigest: preferences.dailyDigest,
           weeklyDigestNotifications: preferences.weeklyDigestNotifications,
+          tenderReminders: preferences.tenderReminders,
+          tenderReminderLeadDays: preferences.tenderReminderLeadDays,
           lastUpdated: preferences.lastUpdated,
         },
       },
@@ -81,7 +85,9 @@ export async function GET(request: NextRequest) {
   }
 }
 
-export async function PUT(request: NextRequest) {
+export const GET = withRequestMetrics("/api/email-preferences", handleGet);
+
+async function handlePut(request: NextRequest) {
   try {
     const session = await auth.api.getSession({
       headers: request.headers,
@@ -132,6 +138,8 @@ export async function PUT(request: NextRequest) {
       "immediateNotifications",
       "dailyDigest",
       "weeklyDigestNotifications",
+      "tenderReminders",
+      "tenderReminderLeadDays",
     ];
 
     const invalidKeys = Object.keys(updates).filter(key => !validKeys.includes(key));
@@ -148,6 +156,22 @@ export async function PUT(request: NextRequest) {
       );
     }
 
+    if (
+      updates.tenderReminderLeadDays !== undefined &&
+      !isValidReminderLeadDays(updates.tenderReminderLeadDays)
+    ) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "INVALID_INPUT",
+            message: "Invalid reminder lead times",
+          },
+        },
+        { status: 400 }
+      );
+    }
+
     // Update preferences
     const updatedPreferences = await updateEmailPreferences(session.user.id, updates);
 
@@ -178,6 +202,8 @@ export async function PUT(request: NextRequest) {
           immediateNotifications: updatedPreferences.immediateNotifications,
           dailyDigest: updatedPreferences.dailyDigest,
           weeklyDigestNotifications: updatedPreferences.weeklyDigestNotifications,
+          tenderReminders: updatedPreferences.tenderReminders,
+          tenderReminderLeadDays: updatedPreferences.tenderReminderLeadDays,
           lastUpdated: updatedPreferences.lastUpdated,
         },
       },
@@ -198,4 +224,6 @@ export async function PUT(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
+
+export const PUT = withRequestMetrics("/api/email-preferences", handlePut);
\ No newline at end of file
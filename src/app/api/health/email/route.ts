@@ -1,10 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
 import { Resend } from "resend";
 import { AuditLogger } from "@/lib/audit-logger";
+import { withRequestMetrics } from "@/lib/performance-monitor";
 
 const _resend = new Resend(process.env.RESEND_API_KEY);
 
-export async function GET(_request: NextRequest) {
+async function handleGet(_request: NextRequest) {
   try {
     // Check if Resend API key is configured
     if (!process.env.RESEND_API_KEY) {
@@ -96,4 +97,6 @@ export async function GET(_request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
+
+export const GET = withRequestMetrics("/api/health/email", handleGet);
\ No newline at end of file
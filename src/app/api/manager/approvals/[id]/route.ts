@@ -3,7 +3,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { db } from "@/db";
 import { profileUpdateRequest, user } from "@/db/schema";
-import { requireManager } from "@/lib/auth-utils";
+import { requirePermission } from "@/lib/auth-utils";
 import { AuditLogger } from "@/lib/audit-logger";
 import { 
   withErrorHandling, 
@@ -26,7 +26,7 @@ export const GET = withErrorHandling(async (
   { params }: { params: { id: string } }
 ) => {
   // Authenticate and authorize manager user
-  const currentUser = await requireManager();
+  const currentUser = await requirePermission("profileUpdate", "approve");
 
     const { id } = params;
 
@@ -112,14 +112,14 @@ export const GET = withErrorHandling(async (
     });
 
   return createSuccessResponse(response);
-});
+}, { endpoint: "/api/manager/approvals/[id]" });
 
 export const POST = withErrorHandling(async (
   request: NextRequest,
   { params }: { params: { id: string } }
 ) => {
   // Authenticate and authorize manager user
-  const currentUser = await requireManager();
+  const currentUser = await requirePermission("profileUpdate", "approve");
 
     const { id } = params;
     const body = await request.json();
@@ -178,4 +178,4 @@ export const POST = withErrorHandling(async (
       reviewedAt: new Date(),
       reviewedBy: currentUser.user.id,
     });
-});
\ No newline at end of file
+}, { endpoint: "/api/manager/approvals/[id]" });
\ No newline at end of file
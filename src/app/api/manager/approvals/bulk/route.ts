@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from "next/server";
-import { requireManager } from "@/lib/auth-utils";
+import { requirePermission } from "@/lib/auth-utils";
 import { withErrorHandling, createSuccessResponse } from "@/lib/api-error-handler";
 
 /**
@@ -8,7 +8,7 @@ import { withErrorHandling, createSuccessResponse } from "@/lib/api-error-handle
  */
 export const POST = withErrorHandling(async (request: NextRequest) => {
   // Authenticate and authorize manager user
-  await requireManager();
+  await requirePermission("profileUpdate", "approve");
 
   // For now, return a placeholder response
   // TODO: Implement actual bulk approval logic
@@ -2,12 +2,12 @@ import { count, eq } from "drizzle-orm";
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/db";
 import { profileUpdateRequest } from "@/db/schema";
-import { requireManager } from "@/lib/auth-utils";
+import { requirePermission } from "@/lib/auth-utils";
 import { withErrorHandling, createSuccessResponse } from "@/lib/api-error-handler";
 
 export const GET = withErrorHandling(async (request: NextRequest) => {
   // Authenticate and authorize manager user
-  await requireManager();
+  await requirePermission("profileUpdate", "approve");
 
     // Get count of pending approvals
     const result = await db
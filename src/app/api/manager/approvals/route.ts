@@ -3,7 +3,7 @@ import { type NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { db } from "@/db";
 import { profileUpdateRequest, user } from "@/db/schema";
-import { requireAuth, requireManager } from "@/lib/auth-utils";
+import { requireAuth, requirePermission } from "@/lib/auth-utils";
 import { sendEmail } from "@/lib/email";
 import { AuditLogger } from "@/lib/audit-logger";
 import { 
@@ -28,7 +28,7 @@ import {
 
 export const GET = withErrorHandling(async (request: NextRequest) => {
   // Authenticate and authorize manager user
-  const currentUser = await requireManager();
+  const currentUser = await requirePermission("profileUpdate", "approve");
 
     // Validate query parameters
     const { searchParams } = new URL(request.url);
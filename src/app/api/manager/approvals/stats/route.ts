@@ -2,7 +2,7 @@ import { count, eq, and, gte, sql } from "drizzle-orm";
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/db";
 import { profileUpdateRequest, user } from "@/db/schema";
-import { requireManager } from "@/lib/auth-utils";
+import { requirePermission } from "@/lib/auth-utils";
 import { AuditLogger } from "@/lib/audit-logger";
 import { withErrorHandling, createSuccessResponse, handleValidationError } from "@/lib/api-error-handler";
 import { 
@@ -13,7 +13,7 @@ import {
 
 export const GET = withErrorHandling(async (request: NextRequest) => {
   // Authenticate and authorize manager user
-  const currentUser = await requireManager();
+  const currentUser = await requirePermission("profileUpdate", "approve");
 
     // Validate query parameters
     const { searchParams } = new URL(request.url);
@@ -2,11 +2,12 @@ import { desc, eq, ilike } from "drizzle-orm";
 import { type NextRequest, NextResponse } from "next/server";
 import { db } from "@/db";
 import { provinces } from "@/db/schema";
-import { requireManager } from "@/lib/auth-utils";
+import { requirePermission } from "@/lib/auth-utils";
+import { withRequestMetrics } from "@/lib/performance-monitor";
 
-export async function GET(request: NextRequest) {
+async function handleGet(request: NextRequest) {
   try {
-    const _user = await requireManager();
+    const _user = await requirePermission("province", "read");
 
     const { searchParams } = new URL(request.url);
     const search = searchParams.get("search");
@@ -55,9 +56,11 @@ export async function GET(request: NextRequest) {
   }
 }
 
-export async function POST(request: NextRequest) {
+export const GET = withRequestMetrics("/api/manager/provinces", handleGet);
+
+async function handlePost(request: NextRequest) {
   try {
-    const _user = await requireManager();
+    const _user = await requirePermission("province", "create");
 
     const formData = await request.formData();
     const name = formData.get("name") as string;
@@ -105,3 +108,5 @@ export async function POST(request: NextRequest) {
     );
   }
 }
+
+export const POST = withRequestMetrics("/api/manager/provinces", handlePost);
@@ -0,0 +1,96 @@
+import { eq } from "drizzle-orm";
+import { type NextRequest, NextResponse } from "next/server";
+import { db } from "@/db";
+import { provinces, publishers } from "@/db/schema";
+import { AuditLogger } from "@/lib/audit-logger";
+import { requirePermissionAPI } from "@/lib/auth-utils";
+import { withRequestMetrics } from "@/lib/performance-monitor";
+import { parsePublisherDetails } from "@/lib/validations/publisher";
+
+// Managers can edit publishers but not delete them
+async function handlePut(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const authResult = await requirePermissionAPI("publisher", "update");
+    if ("error" in authResult) {
+      return authResult.error;
+    }
+    const { id } = await params;
+
+    const formData = await request.formData();
+    const name = formData.get("name") as string;
+    const website = formData.get("website") as string;
+    const province_id = formData.get("province_id") as string;
+
+    if (!name || !province_id) {
+      return NextResponse.json(
+        { error: "Name and province are required" },
+        { status: 400 },
+      );
+    }
+
+    // Verify province exists
+    const provinceExists = await db
+      .select()
+      .from(provinces)
+      .where(eq(provinces.id, province_id))
+      .limit(1);
+
+    if (provinceExists.length === 0) {
+      return NextResponse.json(
+        { error: "Selected province does not exist" },
+        { status: 400 },
+      );
+    }
+
+    const details = parsePublisherDetails(formData);
+    if ("error" in details) {
+      return NextResponse.json({ error: details.error }, { status: 400 });
+    }
+
+    const changes = {
+      name: name.trim(),
+      website: website?.trim() || null,
+      province_id,
+      ...details.values,
+    };
+
+    const [updatedPublisher] = await db
+      .update(publishers)
+      .set(changes)
+      .where(eq(publishers.id, id))
+      .returning();
+
+    if (!updatedPublisher) {
+      return NextResponse.json(
+        { error: "Publisher not found" },
+        { status: 404 },
+      );
+    }
+
+    await AuditLogger.logPublisherUpdated(
+      authResult.session.user.id,
+      id,
+      changes,
+      {
+        ipAddress: request.headers.get("x-forwarded-for") || undefined,
+        userAgent: request.headers.get("user-agent") || undefined,
+      },
+    );
+
+    return NextResponse.json({ publisher: updatedPublisher });
+  } catch (error) {
+    console.error("Error updating publisher:", error);
+    return NextResponse.json(
+      { error: "Failed to update publisher" },
+      { status: 500 },
+    );
+  }
+}
+
+export const PUT = withRequestMetrics(
+  "/api/manager/publishers/[id]",
+  handlePut,
+);
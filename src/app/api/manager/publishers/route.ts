@@ -1,12 +1,18 @@
-import { desc, eq, ilike } from "drizzle-orm";
+import { and, desc, eq, ilike, type SQL } from "drizzle-orm";
 import { type NextRequest, NextResponse } from "next/server";
 import { db } from "@/db";
 import { provinces, publishers } from "@/db/schema";
-import { requireManager } from "@/lib/auth-utils";
+import { requirePermission } from "@/lib/auth-utils";
+import { withRequestMetrics } from "@/lib/performance-monitor";
+import { publisherHasTag } from "@/lib/publisher-query";
+import {
+  isPublisherCategory,
+  parsePublisherDetails,
+} from "@/lib/validations/publisher";
 
-export async function GET(request: NextRequest) {
+async function handleGet(request: NextRequest) {
   try {
-    const _user = await requireManager();
+    const _user = await requirePermission("publisher", "read");
 
     const { searchParams } = new URL(request.url);
     const search = searchParams.get("search");
@@ -14,44 +20,43 @@ export async function GET(request: NextRequest) {
     const limit = parseInt(searchParams.get("limit") || "50", 10);
     const offset = (page - 1) * limit;
 
-    let publishersList;
-
-    if (search) {
-      publishersList = await db
-        .select({
-          id: publishers.id,
-          name: publishers.name,
-          website: publishers.website,
-          province_id: publishers.province_id,
-          province_name: provinces.name,
-          createdAt: publishers.createdAt,
-          // updatedAt: publishers.updatedAt, // TODO: Add updatedAt to publishers table
-        })
-        .from(publishers)
-        .leftJoin(provinces, eq(publishers.province_id, provinces.id))
-        .where(ilike(publishers.name, `%${search}%`))
-        .orderBy(desc(publishers.createdAt))
-        .limit(limit)
-        .offset(offset);
-    } else {
-      publishersList = await db
-        .select({
-          id: publishers.id,
-          name: publishers.name,
-          website: publishers.website,
-          province_id: publishers.province_id,
-          province_name: provinces.name,
-          createdAt: publishers.createdAt,
-          // updatedAt: publishers.updatedAt, // TODO: Add updatedAt to publishers table
-        })
-        .from(publishers)
-        .leftJoin(provinces, eq(publishers.province_id, provinces.id))
-        .orderBy(desc(publishers.createdAt))
-        .limit(limit)
-        .offset(offset);
+    const category = searchParams.get("category");
+    const tag = searchParams.get("tag");
+
+    const conditions: SQL[] = [];
+    if (search) conditions.push(ilike(publishers.name, `%${search}%`));
+    if (category && isPublisherCategory(category)) {
+      conditions.push(eq(publishers.category, category));
     }
+    if (tag) conditions.push(publisherHasTag(tag));
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const publishersList = await db
+      .select({
+        id: publishers.id,
+        name: publishers.name,
+        website: publishers.website,
+        province_id: publishers.province_id,
+        province_name: provinces.name,
+        category: publishers.category,
+        description: publishers.description,
+        tags: publishers.tags,
+        contactName: publishers.contactName,
+        contactEmail: publishers.contactEmail,
+        contactPhone: publishers.contactPhone,
+        procurementPortalUrl: publishers.procurementPortalUrl,
+        logoUrl: publishers.logoUrl,
+        createdAt: publishers.createdAt,
+        // updatedAt: publishers.updatedAt, // TODO: Add updatedAt to publishers table
+      })
+      .from(publishers)
+      .leftJoin(provinces, eq(publishers.province_id, provinces.id))
+      .where(where)
+      .orderBy(desc(publishers.createdAt))
+      .limit(limit)
+      .offset(offset);
 
-    const totalCount = await db.$count(publishers);
+    const totalCount = await db.$count(publishers, where);
 
     // TODO: Add audit logging for publisher viewing
 
@@ -73,9 +78,11 @@ export async function GET(request: NextRequest) {
   }
 }
 
-export async function POST(request: NextRequest) {
+export const GET = withRequestMetrics("/api/manager/publishers", handleGet);
+
+async function handlePost(request: NextRequest) {
   try {
-    const _user = await requireManager();
+    const _user = await requirePermission("publisher", "create");
 
     const formData = await request.formData();
     const name = formData.get("name") as string;
@@ -103,12 +110,18 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const details = parsePublisherDetails(formData);
+    if ("error" in details) {
+      return NextResponse.json({ error: details.error }, { status: 400 });
+    }
+
     const [newPublisher] = await db
       .insert(publishers)
       .values({
         name: name.trim(),
         website: website?.trim() || null,
         province_id,
+        ...details.values,
       })
       .returning();
 
@@ -123,3 +136,5 @@ export async function POST(request: NextRequest) {
     );
   }
 }
+
+export const POST = withRequestMetrics("/api/manager/publishers", handlePost);
@@ -0,0 +1,49 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import { type NextRequest, NextResponse } from "next/server";
+import { metricsConfig } from "@/lib/env-validation";
+import { withRequestMetrics } from "@/lib/performance-monitor";
+import {
+  PROMETHEUS_CONTENT_TYPE,
+  renderPrometheusMetrics,
+} from "@/lib/prometheus-metrics";
+
+export const dynamic = "force-dynamic";
+
+// Compare digests so the check takes the same time whatever the input
+function tokenMatches(provided: string, expected: string) {
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(digest(provided), digest(expected));
+}
+
+/**
+ * GET /api/metrics - Prometheus scrape endpoint. Authenticated with
+ * `Authorization: Bearer <METRICS_TOKEN>`; without a token configured the
+ * endpoint does not exist.
+ */
+async function handleGet(request: NextRequest) {
+  const expected = metricsConfig.token;
+  if (!expected) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const header = request.headers.get("authorization") ?? "";
+  const provided = header.startsWith("Bearer ") ? header.slice(7) : "";
+  if (!provided || !tokenMatches(provided, expected)) {
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      {
+        status: 401,
+        headers: { "WWW-Authenticate": 'Bearer realm="metrics"' },
+      },
+    );
+  }
+
+  return new NextResponse(renderPrometheusMetrics(), {
+    headers: {
+      "Content-Type": PROMETHEUS_CONTENT_TYPE,
+      "Cache-Control": "no-store",
+    },
+  });
+}
+
+export const GET = withRequestMetrics("/api/metrics", handleGet);
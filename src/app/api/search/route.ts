@@ -0,0 +1,78 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { requireAuthAPI } from "@/lib/auth-utils";
+import { createAppError, logError } from "@/lib/error-utils";
+import { withRequestMetrics } from "@/lib/performance-monitor";
+import {
+  DEFAULT_SEARCH_LIMIT,
+  MAX_SEARCH_LIMIT,
+  MAX_SEARCH_QUERY_LENGTH,
+  SEARCH_RESULT_TYPES,
+  type SearchResultType,
+  search,
+} from "@/lib/search";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Full-text search across publishers and tenders.
+ *
+ * Query parameters: `q` (required), `type` (repeatable, publisher or
+ * tender) and `limit` per type.
+ */
+async function handleGet(request: NextRequest) {
+  const authResult = await requireAuthAPI();
+  if (authResult.error) return authResult.error;
+
+  const { searchParams } = new URL(request.url);
+  const query = searchParams.get("q")?.trim() ?? "";
+
+  if (query.length > MAX_SEARCH_QUERY_LENGTH) {
+    return NextResponse.json(
+      {
+        error: `Search query must be ${MAX_SEARCH_QUERY_LENGTH} characters or fewer`,
+      },
+      { status: 400 },
+    );
+  }
+
+  const requestedTypes = searchParams.getAll("type");
+  const types = requestedTypes.filter((type): type is SearchResultType =>
+    SEARCH_RESULT_TYPES.includes(type as SearchResultType),
+  );
+  if (types.length !== requestedTypes.length) {
+    return NextResponse.json(
+      { error: `Type must be one of: ${SEARCH_RESULT_TYPES.join(", ")}` },
+      { status: 400 },
+    );
+  }
+
+  const limit = Math.min(
+    Math.max(
+      Number.parseInt(searchParams.get("limit") ?? "", 10) ||
+        DEFAULT_SEARCH_LIMIT,
+      1,
+    ),
+    MAX_SEARCH_LIMIT,
+  );
+
+  try {
+    const results = await search(query, {
+      types: types.length > 0 ? types : SEARCH_RESULT_TYPES,
+      limit,
+    });
+
+    return NextResponse.json({ query, results });
+  } catch (error) {
+    logError(
+      createAppError("Search failed", {
+        code: "SEARCH_FAILED",
+        statusCode: 500,
+        details: { query, originalError: error },
+      }),
+      "medium",
+    );
+    return NextResponse.json({ error: "Search failed" }, { status: 500 });
+  }
+}
+
+export const GET = withRequestMetrics("/api/search", handleGet);
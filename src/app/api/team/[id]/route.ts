@@ -1,38 +1,58 @@
-import { count, eq } from "drizzle-orm";
+import { and, count, eq } from "drizzle-orm";
 import { type NextRequest, NextResponse } from "next/server";
 import { db } from "@/db";
-import { auditLog, user } from "@/db/schema";
-import { auth } from "@/lib/auth";
-import { checkPermission } from "@/lib/permissions";
+import {
+  auditLog,
+  organizationMember,
+  user,
+  userStatusEnum,
+} from "@/db/schema";
+import { getPermissionChecker, getSessionWithRole } from "@/lib/auth-utils";
+import { withRequestMetrics } from "@/lib/performance-monitor";
+import { assignCustomRole, RoleGrantError } from "@/lib/roles";
+
+/**
+ * A user as a member of the organisation, with their role there. Users
+ * outside the organisation are not found.
+ */
+async function getOrganizationMember(organizationId: string, userId: string) {
+  const [member] = await db
+    .select({
+      id: user.id,
+      name: user.name,
+      email: user.email,
+      role: organizationMember.role,
+      customRoleId: organizationMember.customRoleId,
+      status: user.status,
+    })
+    .from(organizationMember)
+    .innerJoin(user, eq(organizationMember.userId, user.id))
+    .where(
+      and(
+        eq(organizationMember.organizationId, organizationId),
+        eq(organizationMember.userId, userId),
+      ),
+    )
+    .limit(1);
+
+  return member;
+}
 
 // PUT /api/team/[id] - Update team member
-export async function PUT(
+async function handlePut(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> },
 ) {
   try {
-    // Authenticate user
-    const session = await auth.api.getSession({
-      headers: request.headers,
-    });
+    // Authenticate user with their role in the active organisation
+    const session = await getSessionWithRole();
 
     if (!session) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    // Get full user data from database
-    const fullUser = await db
-      .select()
-      .from(user)
-      .where(eq(user.id, session.user.id))
-      .limit(1);
-
-    if (fullUser.length === 0) {
-      return NextResponse.json({ error: "User not found" }, { status: 404 });
-    }
-
-    const userPermissions = checkPermission(fullUser[0]);
-    if (!userPermissions.hasRoleOrHigher("manager")) {
+    const userPermissions = getPermissionChecker(session);
+    if (!userPermissions.can("team", "update")) {
       return NextResponse.json(
         { error: "Insufficient permissions" },
         { status: 403 },
@@ -41,47 +61,136 @@ export async function PUT(
 
     const { id } = await params;
     const body = await request.json();
-    const { name, role, status } = body;
+    const { name, role, status, customRoleId } = body;
 
-    // Get target user
-    const targetUser = await db
-      .select()
-      .from(user)
-      .where(eq(user.id, id))
-      .limit(1);
+    const statuses: readonly unknown[] = userStatusEnum.enumValues;
+    if (status !== undefined && !statuses.includes(status)) {
+      return NextResponse.json({ error: "Invalid status" }, { status: 400 });
+    }
+
+    // Get target member
+    const targetUserData = await getOrganizationMember(
+      session.organization.id,
+      id,
+    );
 
-    if (targetUser.length === 0) {
+    if (!targetUserData) {
       return NextResponse.json({ error: "User not found" }, { status: 404 });
     }
 
-    const targetUserData = targetUser[0];
+    // Name and status belong to the account, which every organisation the
+    // user is in shares, so the organisation role alone cannot change them
+    // for someone else
+    const isPlatformAdmin =
+      session.user.platformRole === "admin" ||
+      session.user.platformRole === "owner";
+
+    if (name !== undefined && id !== session.user.id && !isPlatformAdmin) {
+      return NextResponse.json(
+        { error: "Only platform administrators can rename other users" },
+        { status: 403 },
+      );
+    }
+
+    if (status !== undefined && !isPlatformAdmin) {
+      return NextResponse.json(
+        { error: "Only platform administrators can change account status" },
+        { status: 403 },
+      );
+    }
 
     // Check permissions for the operation
-    if (role && !userPermissions.canModifyUser(targetUserData)) {
+    if (name !== undefined && !userPermissions.canModifyUser(targetUserData)) {
+      return NextResponse.json(
+        { error: "Cannot modify this user" },
+        { status: 403 },
+      );
+    }
+
+    if (
+      role !== undefined &&
+      !userPermissions.canChangeRole(targetUserData, String(role))
+    ) {
       return NextResponse.json(
-        { error: "Cannot modify this user's role" },
+        { error: "Cannot give this user that role" },
         { status: 403 },
       );
     }
 
-    if (status && !userPermissions.canSuspendUser(targetUserData)) {
+    if (
+      status !== undefined &&
+      !userPermissions.canSuspendUser(targetUserData)
+    ) {
       return NextResponse.json(
         { error: "Cannot modify this user's status" },
         { status: 403 },
       );
     }
 
+    if (
+      customRoleId !== undefined &&
+      !userPermissions.canAssignRoles(targetUserData)
+    ) {
+      return NextResponse.json(
+        { error: "Cannot assign roles to this user" },
+        { status: 403 },
+      );
+    }
+
+    // Roles belong to the membership, not the account. A built-in role
+    // replaces any custom role.
+    let membership = {
+      role: role ?? targetUserData.role,
+      customRoleId:
+        role === undefined && customRoleId === undefined
+          ? targetUserData.customRoleId
+          : null,
+    };
+
+    if (customRoleId !== undefined && customRoleId !== null) {
+      let assigned: Awaited<ReturnType<typeof assignCustomRole>>;
+      try {
+        assigned = await assignCustomRole(
+          session.organization.id,
+          id,
+          customRoleId,
+          userPermissions,
+        );
+      } catch (error) {
+        if (error instanceof RoleGrantError) {
+          return NextResponse.json({ error: error.message }, { status: 403 });
+        }
+        throw error;
+      }
+      if (!assigned) {
+        return NextResponse.json(
+          { error: "Custom role not found" },
+          { status: 404 },
+        );
+      }
+      membership = assigned;
+    } else if (role !== undefined || customRoleId === null) {
+      await db
+        .update(organizationMember)
+        .set(membership)
+        .where(
+          and(
+            eq(organizationMember.organizationId, session.organization.id),
+            eq(organizationMember.userId, id),
+          ),
+        );
+    }
+
     // Prepare update data
-    const updateData: any = {
+    const updateData: Partial<typeof user.$inferInsert> = {
       updatedAt: new Date(),
     };
 
     if (name !== undefined) updateData.name = name;
-    if (role !== undefined) updateData.role = role;
     if (status !== undefined) updateData.status = status;
 
     // Update user
-    const updatedUser = await db
+    const [updatedUser] = await db
       .update(user)
       .set(updateData)
       .where(eq(user.id, id))
@@ -91,13 +200,18 @@ export async function PUT(
     await db.insert(auditLog).values({
       id: crypto.randomUUID(),
       userId: session.user.id,
+      organizationId: session.organization.id,
       action: "team_member_updated",
       targetUserId: id,
       metadata: JSON.stringify({
-        changes: updateData,
+        changes:
+          role !== undefined || customRoleId !== undefined
+            ? { ...updateData, ...membership }
+            : updateData,
         previousData: {
           name: targetUserData.name,
           role: targetUserData.role,
+          customRoleId: targetUserData.customRoleId,
           status: targetUserData.status,
         },
       }),
@@ -107,7 +221,7 @@ export async function PUT(
 
     return NextResponse.json({
       success: true,
-      member: updatedUser[0],
+      member: { ...updatedUser, ...membership },
     });
   } catch (error) {
     console.error("Team update API error:", error);
@@ -118,48 +232,34 @@ export async function PUT(
   }
 }
 
-// DELETE /api/team/[id] - Delete team member (Admin only)
-export async function DELETE(
+export const PUT = withRequestMetrics("/api/team/[id]", handlePut);
+
+// DELETE /api/team/[id] - Remove team member from the organisation (Admin only)
+async function handleDelete(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> },
 ) {
   try {
-    // Authenticate user
-    const session = await auth.api.getSession({
-      headers: request.headers,
-    });
+    // Authenticate user with their role in the active organisation
+    const session = await getSessionWithRole();
 
     if (!session) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    // Get full user data from database
-    const fullUser = await db
-      .select()
-      .from(user)
-      .where(eq(user.id, session.user.id))
-      .limit(1);
-
-    if (fullUser.length === 0) {
-      return NextResponse.json({ error: "User not found" }, { status: 404 });
-    }
-
     const { id } = await params;
 
-    // Get target user for audit log
-    const targetUser = await db
-      .select()
-      .from(user)
-      .where(eq(user.id, id))
-      .limit(1);
+    // Get target member for audit log
+    const targetUserData = await getOrganizationMember(
+      session.organization.id,
+      id,
+    );
 
-    if (targetUser.length === 0) {
+    if (!targetUserData) {
       return NextResponse.json({ error: "User not found" }, { status: 404 });
     }
 
-    const targetUserData = targetUser[0];
-
-    const userPermissions = checkPermission(fullUser[0]);
+    const userPermissions = getPermissionChecker(session);
     if (!userPermissions.canDeleteUser(targetUserData)) {
       return NextResponse.json(
         { error: "Only admins can delete users" },
@@ -171,8 +271,13 @@ export async function DELETE(
     if (targetUserData.role === "admin") {
       const adminCount = await db
         .select({ count: count() })
-        .from(user)
-        .where(eq(user.role, "admin"));
+        .from(organizationMember)
+        .where(
+          and(
+            eq(organizationMember.organizationId, session.organization.id),
+            eq(organizationMember.role, "admin"),
+          ),
+        );
 
       if (adminCount[0].count <= 1) {
         return NextResponse.json(
@@ -182,13 +287,21 @@ export async function DELETE(
       }
     }
 
-    // Delete user (cascade will handle related records)
-    await db.delete(user).where(eq(user.id, id));
+    // Remove the membership; the account may belong to other organisations
+    await db
+      .delete(organizationMember)
+      .where(
+        and(
+          eq(organizationMember.organizationId, session.organization.id),
+          eq(organizationMember.userId, id),
+        ),
+      );
 
     // Audit log
     await db.insert(auditLog).values({
       id: crypto.randomUUID(),
       userId: session.user.id,
+      organizationId: session.organization.id,
       action: "team_member_deleted",
       targetUserId: id,
       metadata: JSON.stringify({
@@ -214,34 +327,23 @@ export async function DELETE(
   }
 }
 
+export const DELETE = withRequestMetrics("/api/team/[id]", handleDelete);
+
 // GET /api/team/[id] - Get specific team member details
-export async function GET(
-  request: NextRequest,
+async function handleGet(
+  _request: NextRequest,
   { params }: { params: Promise<{ id: string }> },
 ) {
   try {
-    // Authenticate user
-    const session = await auth.api.getSession({
-      headers: request.headers,
-    });
+    // Authenticate user with their role in the active organisation
+    const session = await getSessionWithRole();
 
     if (!session) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    // Get full user data from database
-    const fullUser = await db
-      .select()
-      .from(user)
-      .where(eq(user.id, session.user.id))
-      .limit(1);
-
-    if (fullUser.length === 0) {
-      return NextResponse.json({ error: "User not found" }, { status: 404 });
-    }
-
-    const userPermissions = checkPermission(fullUser[0]);
-    if (!userPermissions.hasRoleOrHigher("manager")) {
+    const userPermissions = getPermissionChecker(session);
+    if (!userPermissions.can("team", "read")) {
       return NextResponse.json(
         { error: "Insufficient permissions" },
         { status: 403 },
@@ -256,7 +358,7 @@ export async function GET(
         id: user.id,
         name: user.name,
         email: user.email,
-        role: user.role,
+        role: organizationMember.role,
         status: user.status,
         invitedBy: user.invitedBy,
         invitedAt: user.invitedAt,
@@ -264,8 +366,14 @@ export async function GET(
         updatedAt: user.updatedAt,
         lastLogin: user.updatedAt, // Using updatedAt as last activity
       })
-      .from(user)
-      .where(eq(user.id, id))
+      .from(organizationMember)
+      .innerJoin(user, eq(organizationMember.userId, user.id))
+      .where(
+        and(
+          eq(organizationMember.organizationId, session.organization.id),
+          eq(organizationMember.userId, id),
+        ),
+      )
       .limit(1);
 
     if (teamMember.length === 0) {
@@ -283,3 +391,5 @@ export async function GET(
     );
   }
 }
+
+export const GET = withRequestMetrics("/api/team/[id]", handleGet);
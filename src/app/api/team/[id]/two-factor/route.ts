@@ -0,0 +1,54 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { getPermissionChecker, getSessionWithRole } from "@/lib/auth-utils";
+import { getMemberRole } from "@/lib/organization";
+import { withRequestMetrics } from "@/lib/performance-monitor";
+import { resetTwoFactor } from "@/lib/two-factor";
+
+// DELETE /api/team/[id]/two-factor - Reset a member's two-factor authentication (Admin only)
+async function handleDelete(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    // Authenticate user with their role in the active organisation
+    const session = await getSessionWithRole();
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const role = await getMemberRole(session.organization.id, id);
+    if (!role) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const userPermissions = getPermissionChecker(session);
+    if (!userPermissions.canResetTwoFactor({ id, role })) {
+      return NextResponse.json(
+        { error: "Cannot reset this user's two-factor authentication" },
+        { status: 403 },
+      );
+    }
+
+    await resetTwoFactor(id, session.user.id, {
+      organizationId: session.organization.id,
+      ipAddress: request.headers.get("x-forwarded-for") || undefined,
+      userAgent: request.headers.get("user-agent") || undefined,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Two-factor reset API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
+
+export const DELETE = withRequestMetrics(
+  "/api/team/[id]/two-factor",
+  handleDelete,
+);
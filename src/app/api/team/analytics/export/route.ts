@@ -1,10 +1,7 @@
-import { eq } from "drizzle-orm";
 import jsPDF from "jspdf";
 import { type NextRequest, NextResponse } from "next/server";
-import { db } from "@/db";
-import { user } from "@/db/schema";
-import { auth } from "@/lib/auth";
-import { checkPermission } from "@/lib/permissions";
+import { getPermissionChecker, getSessionWithRole } from "@/lib/auth-utils";
+import { withRequestMetrics } from "@/lib/performance-monitor";
 
 function getPeriodLabel(period: string): string {
   switch (period) {
@@ -22,30 +19,20 @@ function getPeriodLabel(period: string): string {
 }
 
 // POST /api/team/analytics/export - Export analytics data
-export async function POST(request: NextRequest) {
+async function handlePost(request: NextRequest) {
   try {
-    // Authenticate user
-    const session = await auth.api.getSession({
-      headers: request.headers,
-    });
+    // Authenticate user with their role in the active organisation
+    const session = await getSessionWithRole();
 
     if (!session) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    // Get full user data from database
-    const fullUser = await db
-      .select()
-      .from(user)
-      .where(eq(user.id, session.user.id))
-      .limit(1);
-
-    if (fullUser.length === 0) {
-      return NextResponse.json({ error: "User not found" }, { status: 404 });
-    }
-
-    const userPermissions = checkPermission(fullUser[0]);
-    if (!userPermissions.hasRoleOrHigher("manager")) {
+    const userPermissions = getPermissionChecker(session);
+    if (
+      !userPermissions.canViewAggregateAnalytics() ||
+      !userPermissions.can("analytics", "export")
+    ) {
       return NextResponse.json(
         { error: "Insufficient permissions" },
         { status: 403 },
@@ -124,6 +111,11 @@ export async function POST(request: NextRequest) {
   }
 }
 
+export const POST = withRequestMetrics(
+  "/api/team/analytics/export",
+  handlePost,
+);
+
 function generateCSV(
   analyticsData: any,
   timestamp: string,
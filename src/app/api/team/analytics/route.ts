@@ -1,10 +1,10 @@
 import { and, count, desc, eq, gte, lte, sql } from "drizzle-orm";
 import { type NextRequest, NextResponse } from "next/server";
 import { db } from "@/db";
-import { auditLog, user } from "@/db/schema";
-import { auth } from "@/lib/auth";
+import { auditLog, organizationMember, user } from "@/db/schema";
+import { getPermissionChecker, getSessionWithRole } from "@/lib/auth-utils";
 import { InvitationAnalyticsCache } from "@/lib/invitation-analytics-cache";
-import { checkPermission } from "@/lib/permissions";
+import { withRequestMetrics } from "@/lib/performance-monitor";
 
 interface TeamAnalytics {
   overview: {
@@ -50,30 +50,17 @@ interface TeamAnalytics {
 }
 
 // GET /api/team/analytics - Get comprehensive team analytics
-export async function GET(request: NextRequest) {
+async function handleGet(request: NextRequest) {
   try {
-    // Authenticate user
-    const session = await auth.api.getSession({
-      headers: request.headers,
-    });
+    // Authenticate user with their role in the active organisation
+    const session = await getSessionWithRole();
 
     if (!session) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    // Get full user data from database
-    const fullUser = await db
-      .select()
-      .from(user)
-      .where(eq(user.id, session.user.id))
-      .limit(1);
-
-    if (fullUser.length === 0) {
-      return NextResponse.json({ error: "User not found" }, { status: 404 });
-    }
-
-    const userPermissions = checkPermission(fullUser[0]);
-    if (!userPermissions.hasRoleOrHigher("manager")) {
+    const userPermissions = getPermissionChecker(session);
+    if (!userPermissions.canViewAggregateAnalytics()) {
       return NextResponse.json(
         { error: "Insufficient permissions" },
         { status: 403 },
@@ -106,7 +93,8 @@ export async function GET(request: NextRequest) {
 
     // Try to get from cache first
     const cache = InvitationAnalyticsCache.getInstance();
-    const cacheKey = `team_analytics:${period}:${includeActivity}`;
+    const organizationId = session.organization.id;
+    const cacheKey = `team_analytics:${organizationId}:${period}:${includeActivity}`;
     const cachedData = await cache.get<TeamAnalytics>(cacheKey);
 
     if (cachedData) {
@@ -114,21 +102,33 @@ export async function GET(request: NextRequest) {
     }
 
     // Calculate overview metrics
-    const overviewMetrics = await calculateOverviewMetrics(from, now);
+    const overviewMetrics = await calculateOverviewMetrics(
+      organizationId,
+      from,
+      now,
+    );
 
     // Calculate role distribution
-    const roleDistribution = await calculateRoleDistribution();
+    const roleDistribution = await calculateRoleDistribution(organizationId);
 
     // Calculate activity trends
-    const activityTrends = await calculateActivityTrends(from, now);
+    const activityTrends = await calculateActivityTrends(
+      organizationId,
+      from,
+      now,
+    );
 
     // Calculate invitation metrics
-    const invitationMetrics = await calculateInvitationMetrics(from, now);
+    const invitationMetrics = await calculateInvitationMetrics(
+      organizationId,
+      from,
+      now,
+    );
 
     // Calculate recent activity if requested
     let recentActivity: TeamAnalytics["recentActivity"] = [];
     if (includeActivity) {
-      recentActivity = await calculateRecentActivity(from, now);
+      recentActivity = await calculateRecentActivity(organizationId, from, now);
     }
 
     const analytics: TeamAnalytics = {
@@ -146,6 +146,7 @@ export async function GET(request: NextRequest) {
     await db.insert(auditLog).values({
       id: crypto.randomUUID(),
       userId: session.user.id,
+      organizationId,
       action: "team_analytics_viewed",
       metadata: JSON.stringify({
         period,
@@ -166,9 +167,26 @@ export async function GET(request: NextRequest) {
   }
 }
 
-async function calculateOverviewMetrics(_from: Date, _to: Date) {
+export const GET = withRequestMetrics("/api/team/analytics", handleGet);
+
+// Users who are members of the organisation
+function memberUsers(organizationId: string) {
+  return and(
+    eq(organizationMember.userId, user.id),
+    eq(organizationMember.organizationId, organizationId),
+  );
+}
+
+async function calculateOverviewMetrics(
+  organizationId: string,
+  _from: Date,
+  _to: Date,
+) {
   // Get total members
-  const totalResult = await db.select({ count: count() }).from(user);
+  const totalResult = await db
+    .select({ count: count() })
+    .from(user)
+    .innerJoin(organizationMember, memberUsers(organizationId));
 
   // Get status breakdown
   const statusBreakdown = await db
@@ -177,6 +195,7 @@ async function calculateOverviewMetrics(_from: Date, _to: Date) {
       count: count(),
     })
     .from(user)
+    .innerJoin(organizationMember, memberUsers(organizationId))
     .groupBy(user.status);
 
   const totalMembers = Number(totalResult[0]?.count || 0);
@@ -206,14 +225,15 @@ async function calculateOverviewMetrics(_from: Date, _to: Date) {
   };
 }
 
-async function calculateRoleDistribution() {
+async function calculateRoleDistribution(organizationId: string) {
   const roleStats = await db
     .select({
-      role: user.role,
+      role: organizationMember.role,
       count: count(),
     })
-    .from(user)
-    .groupBy(user.role);
+    .from(organizationMember)
+    .where(eq(organizationMember.organizationId, organizationId))
+    .groupBy(organizationMember.role);
 
   const totalMembers = roleStats.reduce(
     (sum, stat) => sum + Number(stat.count),
@@ -230,7 +250,11 @@ async function calculateRoleDistribution() {
   }));
 }
 
-async function calculateActivityTrends(from: Date, to: Date) {
+async function calculateActivityTrends(
+  organizationId: string,
+  from: Date,
+  to: Date,
+) {
   // Get daily activity for the period
   const dailyActivity = await db
     .select({
@@ -240,6 +264,7 @@ async function calculateActivityTrends(from: Date, to: Date) {
       suspendedMembers: sql<number>`count(case when ${user.status} = 'suspended' then 1 end)`,
     })
     .from(user)
+    .innerJoin(organizationMember, memberUsers(organizationId))
     .where(and(gte(user.createdAt, from), lte(user.createdAt, to)))
     .groupBy(sql`date(${user.createdAt})`)
     .orderBy(sql`date(${user.createdAt})`);
@@ -252,17 +277,23 @@ async function calculateActivityTrends(from: Date, to: Date) {
   }));
 }
 
-async function calculateInvitationMetrics(from: Date, to: Date) {
+async function calculateInvitationMetrics(
+  organizationId: string,
+  from: Date,
+  to: Date,
+) {
   // This would integrate with invitation system
   // For now, return basic metrics based on user data
   const totalUsers = await db
     .select({ count: count() })
     .from(user)
+    .innerJoin(organizationMember, memberUsers(organizationId))
     .where(and(gte(user.createdAt, from), lte(user.createdAt, to)));
 
   const activeUsers = await db
     .select({ count: count() })
     .from(user)
+    .innerJoin(organizationMember, memberUsers(organizationId))
     .where(
       and(
         eq(user.status, "active"),
@@ -274,6 +305,7 @@ async function calculateInvitationMetrics(from: Date, to: Date) {
   const pendingUsers = await db
     .select({ count: count() })
     .from(user)
+    .innerJoin(organizationMember, memberUsers(organizationId))
     .where(
       and(
         eq(user.status, "pending"),
@@ -302,6 +334,7 @@ async function calculateInvitationMetrics(from: Date, to: Date) {
 }
 
 async function calculateRecentActivity(
+  organizationId: string,
   from: Date,
   to: Date,
 ): Promise<TeamAnalytics["recentActivity"]> {
@@ -318,6 +351,7 @@ async function calculateRecentActivity(
     .from(auditLog)
     .where(
       and(
+        eq(auditLog.organizationId, organizationId),
         gte(auditLog.createdAt, from),
         lte(auditLog.createdAt, to),
         sql`${auditLog.action} LIKE 'team_%'`,
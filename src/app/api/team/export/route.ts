@@ -2,35 +2,22 @@ import { eq } from "drizzle-orm";
 import jsPDF from "jspdf";
 import { type NextRequest, NextResponse } from "next/server";
 import { db } from "@/db";
-import { user } from "@/db/schema";
-import { auth } from "@/lib/auth";
-import { checkPermission } from "@/lib/permissions";
+import { organizationMember, user } from "@/db/schema";
+import { getPermissionChecker, getSessionWithRole } from "@/lib/auth-utils";
+import { withRequestMetrics } from "@/lib/performance-monitor";
 
 // POST /api/team/export - Export team member data
-export async function POST(request: NextRequest) {
+async function handlePost(request: NextRequest) {
   try {
-    // Authenticate user
-    const session = await auth.api.getSession({
-      headers: request.headers,
-    });
+    // Authenticate user with their role in the active organisation
+    const session = await getSessionWithRole();
 
     if (!session) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    // Get full user data from database
-    const fullUser = await db
-      .select()
-      .from(user)
-      .where(eq(user.id, session.user.id))
-      .limit(1);
-
-    if (fullUser.length === 0) {
-      return NextResponse.json({ error: "User not found" }, { status: 404 });
-    }
-
-    const userPermissions = checkPermission(fullUser[0]);
-    if (!userPermissions.hasRoleOrHigher("manager")) {
+    const userPermissions = getPermissionChecker(session);
+    if (!userPermissions.can("team", "read")) {
       return NextResponse.json(
         { error: "Insufficient permissions" },
         { status: 403 },
@@ -47,20 +34,22 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Get all team members
+    // Get all members of the active organisation
     const teamMembers = await db
       .select({
         id: user.id,
         name: user.name,
         email: user.email,
-        role: user.role,
+        role: organizationMember.role,
         status: user.status,
         invitedBy: user.invitedBy,
         invitedAt: user.invitedAt,
         createdAt: user.createdAt,
         updatedAt: user.updatedAt,
       })
-      .from(user)
+      .from(organizationMember)
+      .innerJoin(user, eq(organizationMember.userId, user.id))
+      .where(eq(organizationMember.organizationId, session.organization.id))
       .orderBy(user.createdAt);
 
     // Generate export
@@ -105,6 +94,8 @@ export async function POST(request: NextRequest) {
   }
 }
 
+export const POST = withRequestMetrics("/api/team/export", handlePost);
+
 function generateMembersCSV(members: any[], timestamp: string): string {
   const lines: string[] = [];
 
@@ -1,10 +1,10 @@
 import { and, asc, count, desc, eq, ilike, inArray, or } from "drizzle-orm";
 import { type NextRequest, NextResponse } from "next/server";
 import { db } from "@/db";
-import { auditLog, user } from "@/db/schema";
-import { requireAuth } from "@/lib/auth-utils";
+import { auditLog, customRole, organizationMember, user } from "@/db/schema";
+import { getPermissionChecker, requireAuth } from "@/lib/auth-utils";
 import { createInvitation } from "@/lib/invitation";
-import { checkPermission } from "@/lib/permissions";
+import { withRequestMetrics } from "@/lib/performance-monitor";
 
 // Team member interface for API responses
 interface TeamMember {
@@ -12,6 +12,8 @@ interface TeamMember {
   name: string;
   email: string;
   role: string;
+  customRoleId?: string | null;
+  customRoleName?: string | null;
   status: string;
   invitedBy?: string | null;
   invitedAt?: Date | null;
@@ -20,21 +22,15 @@ interface TeamMember {
   lastLogin?: Date | null;
 }
 
-// GET /api/team - List all team members (admin/manager access)
-export async function GET(request: NextRequest) {
+// GET /api/team - List members of the active organisation (admin/manager access)
+async function handleGet(request: NextRequest) {
   try {
     // Authenticate user and get full user data including role
     const session = await requireAuth();
 
     // Check permissions - both admin and manager can view team
-    const userPermissions = checkPermission({
-      ...session.user,
-      password: null,
-      emailVerified: true,
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    });
-    if (!userPermissions.hasRoleOrHigher("manager")) {
+    const userPermissions = getPermissionChecker(session);
+    if (!userPermissions.can("team", "read")) {
       return NextResponse.json(
         { error: "Insufficient permissions" },
         { status: 403 },
@@ -54,7 +50,9 @@ export async function GET(request: NextRequest) {
     const sortOrder = searchParams.get("sortOrder") === "asc" ? asc : desc;
 
     // Build where conditions
-    const whereConditions = [];
+    const whereConditions = [
+      eq(organizationMember.organizationId, session.organization.id),
+    ];
 
     // Status filter
     if (status && ["active", "suspended", "pending"].includes(status)) {
@@ -66,22 +64,28 @@ export async function GET(request: NextRequest) {
     // Role filter
     if (role && ["owner", "admin", "manager", "user"].includes(role)) {
       whereConditions.push(
-        eq(user.role, role as "owner" | "admin" | "manager" | "user"),
+        eq(
+          organizationMember.role,
+          role as "owner" | "admin" | "manager" | "user",
+        ),
       );
     }
 
     // Search filter
     if (search) {
-      whereConditions.push(
-        or(ilike(user.name, `%${search}%`), ilike(user.email, `%${search}%`)),
+      const searchCondition = or(
+        ilike(user.name, `%${search}%`),
+        ilike(user.email, `%${search}%`),
       );
+      if (searchCondition) whereConditions.push(searchCondition);
     }
 
     // Get total count for pagination
     const totalResult = await db
       .select({ count: count() })
-      .from(user)
-      .where(whereConditions.length > 0 ? and(...whereConditions) : undefined);
+      .from(organizationMember)
+      .innerJoin(user, eq(organizationMember.userId, user.id))
+      .where(and(...whereConditions));
 
     const total = totalResult[0].count;
     const totalPages = Math.ceil(total / limit);
@@ -97,7 +101,7 @@ export async function GET(request: NextRequest) {
         orderBy = sortOrder(user.email);
         break;
       case "role":
-        orderBy = sortOrder(user.role);
+        orderBy = sortOrder(organizationMember.role);
         break;
       case "status":
         orderBy = sortOrder(user.status);
@@ -113,16 +117,21 @@ export async function GET(request: NextRequest) {
         id: user.id,
         name: user.name,
         email: user.email,
-        role: user.role,
+        role: organizationMember.role,
+        customRoleId: organizationMember.customRoleId,
+        customRoleName: customRole.name,
         status: user.status,
+        twoFactorEnabled: user.twoFactorEnabled,
         invitedBy: user.invitedBy,
         invitedAt: user.invitedAt,
         createdAt: user.createdAt,
         updatedAt: user.updatedAt,
         lastLogin: user.updatedAt, // Using updatedAt as last activity
       })
-      .from(user)
-      .where(whereConditions.length > 0 ? and(...whereConditions) : undefined)
+      .from(organizationMember)
+      .innerJoin(user, eq(organizationMember.userId, user.id))
+      .leftJoin(customRole, eq(organizationMember.customRoleId, customRole.id))
+      .where(and(...whereConditions))
       .orderBy(orderBy)
       .limit(limit)
       .offset(offset);
@@ -131,6 +140,7 @@ export async function GET(request: NextRequest) {
     await db.insert(auditLog).values({
       id: crypto.randomUUID(),
       userId: session.user.id,
+      organizationId: session.organization.id,
       action: "team_members_viewed",
       metadata: JSON.stringify({
         filters: { status, role, search, sortBy, sortOrder },
@@ -160,21 +170,17 @@ export async function GET(request: NextRequest) {
   }
 }
 
+export const GET = withRequestMetrics("/api/team", handleGet);
+
 // POST /api/team/bulk - Bulk operations for team members
-export async function PATCH(request: NextRequest) {
+async function handlePatch(request: NextRequest) {
   try {
     // Authenticate user and get full user data including role
     const session = await requireAuth();
 
     // Check permissions - both admin and manager can perform bulk operations
-    const userPermissions = checkPermission({
-      ...session.user,
-      password: null,
-      emailVerified: true,
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    });
-    if (!userPermissions.hasRoleOrHigher("manager")) {
+    const userPermissions = getPermissionChecker(session);
+    if (!userPermissions.can("team", "read")) {
       return NextResponse.json(
         { error: "Insufficient permissions" },
         { status: 403 },
@@ -204,6 +210,18 @@ export async function PATCH(request: NextRequest) {
       );
     }
 
+    // Account status is shared by every organisation the user is in
+    if (
+      action !== "delete" &&
+      session.user.platformRole !== "admin" &&
+      session.user.platformRole !== "owner"
+    ) {
+      return NextResponse.json(
+        { error: "Only platform administrators can change account status" },
+        { status: 403 },
+      );
+    }
+
     // Validate member IDs
     if (memberIds.length > 50) {
       return NextResponse.json(
@@ -212,11 +230,21 @@ export async function PATCH(request: NextRequest) {
       );
     }
 
-    // Get target users for validation
+    // Get target members of the active organisation for validation
     const targetUsers = await db
-      .select()
-      .from(user)
-      .where(inArray(user.id, memberIds));
+      .select({
+        id: user.id,
+        email: user.email,
+        role: organizationMember.role,
+      })
+      .from(organizationMember)
+      .innerJoin(user, eq(organizationMember.userId, user.id))
+      .where(
+        and(
+          eq(organizationMember.organizationId, session.organization.id),
+          inArray(organizationMember.userId, memberIds),
+        ),
+      );
 
     if (targetUsers.length !== memberIds.length) {
       return NextResponse.json(
@@ -250,8 +278,13 @@ export async function PATCH(request: NextRequest) {
       if (adminUsers.length > 0) {
         const totalAdmins = await db
           .select({ count: count() })
-          .from(user)
-          .where(eq(user.role, "admin"));
+          .from(organizationMember)
+          .where(
+            and(
+              eq(organizationMember.organizationId, session.organization.id),
+              eq(organizationMember.role, "admin"),
+            ),
+          );
 
         if (totalAdmins[0].count - adminUsers.length <= 0) {
           return NextResponse.json(
@@ -271,7 +304,18 @@ export async function PATCH(request: NextRequest) {
       for (const memberId of memberIds) {
         try {
           if (action === "delete") {
-            await tx.delete(user).where(eq(user.id, memberId));
+            // Removes the membership; the account may belong elsewhere
+            await tx
+              .delete(organizationMember)
+              .where(
+                and(
+                  eq(
+                    organizationMember.organizationId,
+                    session.organization.id,
+                  ),
+                  eq(organizationMember.userId, memberId),
+                ),
+              );
             results.push({ memberId, success: true });
           } else {
             const status = action === "suspend" ? "suspended" : "active";
@@ -286,6 +330,7 @@ export async function PATCH(request: NextRequest) {
           await tx.insert(auditLog).values({
             id: crypto.randomUUID(),
             userId: session.user.id,
+            organizationId: session.organization.id,
             action: `team_member_bulk_${action}`,
             targetUserId: memberId,
             metadata: JSON.stringify({
@@ -324,21 +369,17 @@ export async function PATCH(request: NextRequest) {
   }
 }
 
+export const PATCH = withRequestMetrics("/api/team", handlePatch);
+
 // POST /api/team - Create/invite new team member
-export async function POST(request: NextRequest) {
+async function handlePost(request: NextRequest) {
   try {
     // Authenticate user and get full user data including role
     const session = await requireAuth();
 
     // Check permissions - both admin and manager can create team members
-    const userPermissions = checkPermission({
-      ...session.user,
-      password: null,
-      emailVerified: true,
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    });
-    if (!userPermissions.hasRoleOrHigher("manager")) {
+    const userPermissions = getPermissionChecker(session);
+    if (!userPermissions.canInviteUsers()) {
       return NextResponse.json(
         { error: "Insufficient permissions" },
         { status: 403 },
@@ -371,16 +412,22 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Check if user already exists
-    const existingUser = await db
-      .select()
-      .from(user)
-      .where(eq(user.email, email))
+    // Check if user is already a member of this organisation
+    const existingMember = await db
+      .select({ id: user.id })
+      .from(organizationMember)
+      .innerJoin(user, eq(organizationMember.userId, user.id))
+      .where(
+        and(
+          eq(organizationMember.organizationId, session.organization.id),
+          eq(user.email, email),
+        ),
+      )
       .limit(1);
 
-    if (existingUser.length > 0) {
+    if (existingMember.length > 0) {
       return NextResponse.json(
-        { error: "User with this email already exists" },
+        { error: "User with this email is already a team member" },
         { status: 409 },
       );
     }
@@ -397,6 +444,7 @@ export async function POST(request: NextRequest) {
       await db.insert(auditLog).values({
         id: crypto.randomUUID(),
         userId: session.user.id,
+        organizationId: session.organization.id,
         action: "team_member_invited",
         targetUserId: invitation.id, // Use invitation ID as target
         metadata: JSON.stringify({
@@ -428,3 +476,5 @@ export async function POST(request: NextRequest) {
     );
   }
 }
+
+export const POST = withRequestMetrics("/api/team", handlePost);
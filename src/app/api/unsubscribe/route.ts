@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { unsubscribeUser, type UnsubscribeOptions } from "@/lib/email-preferences";
 import { AuditLogger } from "@/lib/audit-logger";
+import { withRequestMetrics } from "@/lib/performance-monitor";
 
-export async function GET(request: NextRequest) {
+async function handleGet(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const token = searchParams.get("token");
@@ -75,7 +76,9 @@ export async function GET(request: NextRequest) {
   }
 }
 
-export async function POST(request: NextRequest) {
+export const GET = withRequestMetrics("/api/unsubscribe", handleGet);
+
+async function handlePost(request: NextRequest) {
   try {
     const body = await request.json();
     const { token, emailType, reason, unsubscribeAll } = body;
@@ -145,4 +148,6 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
+
+export const POST = withRequestMetrics("/api/unsubscribe", handlePost);
\ No newline at end of file
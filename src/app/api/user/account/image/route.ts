@@ -4,13 +4,14 @@ import { db } from "@/db";
 import { user } from "@/db/schema";
 import { AuditLogger } from "@/lib/audit-logger";
 import { requireAuth } from "@/lib/auth-utils";
+import { withRequestMetrics } from "@/lib/performance-monitor";
 
 /**
  * Account Image Upload API
  * POST /api/user/account/image - Upload and update user account image
  */
 
-export async function POST(request: NextRequest) {
+async function handlePost(request: NextRequest) {
   try {
     // Authenticate user
     const currentUser = await requireAuth();
@@ -111,3 +112,5 @@ export async function POST(request: NextRequest) {
     );
   }
 }
+
+export const POST = withRequestMetrics("/api/user/account/image", handlePost);
@@ -4,6 +4,7 @@ import { db } from "@/db";
 import { profileUpdateRequest, user } from "@/db/schema";
 import { AuditLogger } from "@/lib/audit-logger";
 import { requireAuth } from "@/lib/auth-utils";
+import { withRequestMetrics } from "@/lib/performance-monitor";
 import { authValidationHelpers } from "@/lib/validations/auth";
 
 /**
@@ -29,7 +30,7 @@ import { authValidationHelpers } from "@/lib/validations/auth";
  * [x] Role-specific field requirements
  */
 
-export async function GET(_request: NextRequest) {
+async function handleGet(_request: NextRequest) {
   try {
     // Authenticate user
     const currentUser = await requireAuth();
@@ -79,7 +80,9 @@ export async function GET(_request: NextRequest) {
   }
 }
 
-export async function PUT(request: NextRequest) {
+export const GET = withRequestMetrics("/api/user/account", handleGet);
+
+async function handlePut(request: NextRequest) {
   try {
     // Authenticate user
     const currentUser = await requireAuth();
@@ -182,7 +185,9 @@ export async function PUT(request: NextRequest) {
   }
 }
 
-export async function POST(request: NextRequest) {
+export const PUT = withRequestMetrics("/api/user/account", handlePut);
+
+async function handlePost(request: NextRequest) {
   try {
     // Authenticate user
     const currentUser = await requireAuth();
@@ -330,6 +335,8 @@ export async function POST(request: NextRequest) {
   }
 }
 
+export const POST = withRequestMetrics("/api/user/account", handlePost);
+
 // Helper functions
 function calculateAccountCompleteness(account: any): number {
   const fields = ["name", "email", "role"];
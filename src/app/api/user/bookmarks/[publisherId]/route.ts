@@ -1,8 +1,9 @@
 import { type NextRequest, NextResponse } from "next/server";
 import { requireAuth } from "@/lib/auth-utils";
+import { withRequestMetrics } from "@/lib/performance-monitor";
 import { toggleBookmark } from "@/server/publisher";
 
-export async function POST(
+async function handlePost(
   request: NextRequest,
   { params }: { params: Promise<{ publisherId: string }> },
 ) {
@@ -68,7 +69,7 @@ export async function POST(
       "publisherId:",
       publisherId,
     );
-    const result = await toggleBookmark(user.user.id, publisherId);
+    const result = await toggleBookmark(publisherId);
     console.log("Toggle bookmark result:", result);
 
     return NextResponse.json(result);
@@ -80,3 +81,8 @@ export async function POST(
     );
   }
 }
+
+export const POST = withRequestMetrics(
+  "/api/user/bookmarks/[publisherId]",
+  handlePost,
+);
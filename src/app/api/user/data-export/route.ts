@@ -0,0 +1,69 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { AuditLogger } from "@/lib/audit-logger";
+import { requireAuthAPI } from "@/lib/auth-utils";
+import { createAppError, logError } from "@/lib/error-utils";
+import { withRequestMetrics } from "@/lib/performance-monitor";
+import {
+  buildPersonalDataArchive,
+  collectPersonalData,
+  countPersonalDataRecords,
+} from "@/lib/personal-data";
+import { personalDataErrorMessages } from "@/lib/validations/personal-data";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/user/data-export - Download everything held about the
+ * signed-in user as a ZIP of JSON and CSV files.
+ */
+async function handleGet(request: NextRequest) {
+  const authResult = await requireAuthAPI();
+  if (authResult.error) return authResult.error;
+  const userId = authResult.session.user.id;
+
+  try {
+    const data = await collectPersonalData(userId);
+    if (!data) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const archive = buildPersonalDataArchive(data);
+
+    await AuditLogger.logDataExported(
+      userId,
+      "personal_data",
+      countPersonalDataRecords(data),
+      {
+        resourceType: "user",
+        resourceId: userId,
+        ipAddress:
+          request.headers.get("x-forwarded-for")?.split(",")[0]?.trim() ||
+          "unknown",
+        userAgent: request.headers.get("user-agent") || undefined,
+      },
+    );
+
+    const timestamp = new Date().toISOString().split("T")[0];
+    return new NextResponse(new Uint8Array(archive), {
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Disposition": `attachment; filename="tender-hub-data-${timestamp}.zip"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    logError(
+      createAppError(personalDataErrorMessages.exportFailed, {
+        code: "EXPORT_FAILED",
+        statusCode: 500,
+        details: { userId, originalError: error },
+      }),
+    );
+    return NextResponse.json(
+      { error: personalDataErrorMessages.exportFailed },
+      { status: 500 },
+    );
+  }
+}
+
+export const GET = withRequestMetrics("/api/user/data-export", handleGet);
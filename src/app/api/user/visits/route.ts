@@ -0,0 +1,72 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { requireAuthAPI } from "@/lib/auth-utils";
+import { hasConsent } from "@/lib/consent";
+import { createAppError, logError } from "@/lib/error-utils";
+import { withRequestMetrics } from "@/lib/performance-monitor";
+import { visitBatchSchema, visitErrorMessages } from "@/lib/validations/visits";
+import { recordVisits } from "@/lib/visit-history";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Batched visit ingestion for the browser's visit tracker.
+ *
+ * Responds 403 with code `CONSENT_REQUIRED` when the user has not granted
+ * analytics consent, so the client can stop queueing. Any other failure is
+ * safe to retry with the same batch.
+ */
+async function handlePost(request: NextRequest) {
+  const authResult = await requireAuthAPI();
+  if (authResult.error) return authResult.error;
+  const { session } = authResult;
+
+  if (!(await hasConsent(session.user.id, "analytics"))) {
+    return NextResponse.json(
+      {
+        error: visitErrorMessages.consentRequired,
+        code: "CONSENT_REQUIRED",
+      },
+      { status: 403 },
+    );
+  }
+
+  const body = await request.json().catch(() => null);
+  const parsed = visitBatchSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        error: visitErrorMessages.invalidBatch,
+        details: parsed.error.issues.map((issue) => ({
+          field: issue.path.join("."),
+          message: issue.message,
+        })),
+      },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const accepted = await recordVisits(session.user.id, parsed.data, {
+      ipAddress:
+        request.headers.get("x-forwarded-for")?.split(",")[0]?.trim() ||
+        "unknown",
+      userAgent: request.headers.get("user-agent") || undefined,
+    });
+
+    return NextResponse.json({ accepted });
+  } catch (error) {
+    logError(
+      createAppError(visitErrorMessages.syncFailed, {
+        code: "VISIT_SYNC_FAILED",
+        statusCode: 500,
+        details: { userId: session.user.id, originalError: error },
+      }),
+    );
+    return NextResponse.json(
+      { error: visitErrorMessages.syncFailed },
+      { status: 500 },
+    );
+  }
+}
+
+export const POST = withRequestMetrics("/api/user/visits", handlePost);
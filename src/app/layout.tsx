@@ -2,6 +2,7 @@ import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 
 import "./globals.css";
+import { ConsentBanner } from "@/components/consent-banner";
 import { ErrorBoundary } from "@/components/error-boundary";
 import { QueryProvider } from "@/components/query-provider";
 import { SessionProvider } from "@/components/providers/session-provider";
@@ -43,6 +44,7 @@ export default function RootLayout({
               <VisitTrackerProvider>
                 <main className="">{children}</main>
                 <Toaster />
+                <ConsentBanner />
               </VisitTrackerProvider>
             </SessionProvider>
           </QueryProvider>
@@ -64,6 +64,10 @@ function UnsubscribeContent() {
       marketingEmails: "marketing emails",
       weeklyDigest: "weekly digest emails",
       monthlyReport: "monthly report emails",
+      immediateNotifications: "instant tender alert emails",
+      dailyDigest: "daily digest emails",
+      weeklyDigestNotifications: "weekly tender alert emails",
+      tenderReminders: "tender closing reminder emails",
     };
 
     return typeMap[type] || `${type} emails`;
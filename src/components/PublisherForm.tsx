@@ -1,13 +1,23 @@
 "use client";
 
 import { zodResolver } from "@hookform/resolvers/zod";
-import { Building, Globe, MapPin } from "lucide-react";
+import {
+  Building,
+  Globe,
+  Image,
+  Mail,
+  MapPin,
+  Phone,
+  Tags,
+  User,
+} from "lucide-react";
 import { useForm } from "react-hook-form";
 import { toast } from "sonner";
 import { Button } from "@/components/ui/button";
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -26,15 +36,19 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Spinner } from "@/components/ui/spinner";
+import { Textarea } from "@/components/ui/textarea";
 import type { Province, Publisher } from "@/db/schema";
 import {
+  PUBLISHER_CATEGORIES,
   type PublisherFormData,
+  parsePublisherTags,
+  publisherCategoryLabels,
   publisherDefaultValues,
   publisherFormSchema,
 } from "@/lib/validations/publisher";
 
 interface PublisherFormProps {
-  publisher?: Publisher;
+  publisher?: Omit<Publisher, "searchVector">;
   provinces: Province[];
   action: (prevState: any, formData: FormData) => Promise<any>;
 }
@@ -51,6 +65,14 @@ export default function PublisherForm({
           name: publisher.name,
           website: publisher.website || "",
           province_id: publisher.province_id,
+          category: publisher.category ?? "",
+          description: publisher.description ?? "",
+          tags: publisher.tags.join(", "),
+          contactName: publisher.contactName ?? "",
+          contactEmail: publisher.contactEmail ?? "",
+          contactPhone: publisher.contactPhone ?? "",
+          procurementPortalUrl: publisher.procurementPortalUrl ?? "",
+          logoUrl: publisher.logoUrl ?? "",
         }
       : publisherDefaultValues,
   });
@@ -61,6 +83,19 @@ export default function PublisherForm({
       formData.append("name", data.name.trim());
       formData.append("website", data.website?.trim() || "");
       formData.append("province_id", data.province_id);
+      formData.append("category", data.category || "");
+      formData.append("description", data.description?.trim() || "");
+      for (const tag of parsePublisherTags(data.tags ?? "")) {
+        formData.append("tags", tag);
+      }
+      formData.append("contactName", data.contactName?.trim() || "");
+      formData.append("contactEmail", data.contactEmail?.trim() || "");
+      formData.append("contactPhone", data.contactPhone?.trim() || "");
+      formData.append(
+        "procurementPortalUrl",
+        data.procurementPortalUrl?.trim() || "",
+      );
+      formData.append("logoUrl", data.logoUrl?.trim() || "");
       if (publisher?.id) formData.append("id", publisher.id);
 
       const result = await action({}, formData);
@@ -154,6 +189,183 @@ export default function PublisherForm({
             </FormItem>
           )}
         />
+        <FormField
+          control={form.control}
+          name="category"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Category (Optional)</FormLabel>
+              <Select onValueChange={field.onChange} value={field.value}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a category" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {PUBLISHER_CATEGORIES.map((category) => (
+                    <SelectItem key={category} value={category}>
+                      {publisherCategoryLabels[category]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="tags"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Tags (Optional)</FormLabel>
+              <FormControl>
+                <InputGroup>
+                  <InputGroupAddon>
+                    <Tags className="size-4" />
+                  </InputGroupAddon>
+                  <InputGroupInput
+                    placeholder="e.g. infrastructure, water, health"
+                    {...field}
+                  />
+                </InputGroup>
+              </FormControl>
+              <FormDescription>Separate tags with commas.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="description"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Description (Optional)</FormLabel>
+              <FormControl>
+                <Textarea
+                  rows={3}
+                  placeholder="What this publisher procures"
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="procurementPortalUrl"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Procurement Portal (Optional)</FormLabel>
+              <FormControl>
+                <InputGroup>
+                  <InputGroupAddon>
+                    <Globe className="size-4" />
+                  </InputGroupAddon>
+                  <InputGroupInput
+                    type="url"
+                    placeholder="https://etenders.gov.za"
+                    {...field}
+                  />
+                </InputGroup>
+              </FormControl>
+              <FormDescription>
+                Where tenders are listed, if not on the main website.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="logoUrl"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Logo URL (Optional)</FormLabel>
+              <FormControl>
+                <InputGroup>
+                  <InputGroupAddon>
+                    <Image className="size-4" />
+                  </InputGroupAddon>
+                  <InputGroupInput
+                    type="url"
+                    placeholder="https://www.organization.gov.za/logo.png"
+                    {...field}
+                  />
+                </InputGroup>
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="contactName"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Contact Person (Optional)</FormLabel>
+              <FormControl>
+                <InputGroup>
+                  <InputGroupAddon>
+                    <User className="size-4" />
+                  </InputGroupAddon>
+                  <InputGroupInput
+                    placeholder="e.g. Supply Chain Management Unit"
+                    {...field}
+                  />
+                </InputGroup>
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <div className="grid gap-4 sm:grid-cols-2">
+          <FormField
+            control={form.control}
+            name="contactEmail"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Contact Email (Optional)</FormLabel>
+                <FormControl>
+                  <InputGroup>
+                    <InputGroupAddon>
+                      <Mail className="size-4" />
+                    </InputGroupAddon>
+                    <InputGroupInput
+                      type="email"
+                      placeholder="tenders@organization.gov.za"
+                      {...field}
+                    />
+                  </InputGroup>
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="contactPhone"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Contact Phone (Optional)</FormLabel>
+                <FormControl>
+                  <InputGroup>
+                    <InputGroupAddon>
+                      <Phone className="size-4" />
+                    </InputGroupAddon>
+                    <InputGroupInput
+                      type="tel"
+                      placeholder="+27 11 123 4567"
+                      {...field}
+                    />
+                  </InputGroup>
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
         <Button type="submit" disabled={form.formState.isSubmitting}>
           {form.formState.isSubmitting && <Spinner className="mr-2" />}
           {publisher ? "Update" : "Create"} Publisher
@@ -0,0 +1,423 @@
+"use client";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { format } from "date-fns";
+import { Banknote, CalendarClock, FileText, Hash, MapPin } from "lucide-react";
+import { useForm } from "react-hook-form";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  InputGroup,
+  InputGroupAddon,
+  InputGroupInput,
+} from "@/components/ui/input-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Spinner } from "@/components/ui/spinner";
+import { Textarea } from "@/components/ui/textarea";
+import type { TenderStatus } from "@/db/schema";
+import {
+  TENDER_CATEGORIES,
+  TENDER_STATUSES,
+  type TenderCategory,
+  type TenderFormData,
+  tenderCategoryLabels,
+  tenderDefaultValues,
+  tenderFormSchema,
+  tenderStatusLabels,
+} from "@/lib/validations/tender";
+
+interface TenderFormTender {
+  id: string;
+  referenceNumber: string;
+  title: string;
+  description: string | null;
+  closingDate: Date | string;
+  briefingDate: Date | string | null;
+  briefingVenue: string | null;
+  briefingCompulsory: boolean;
+  publisherId: string;
+  provinceId: string;
+  status: TenderStatus;
+  category: string | null;
+  estimatedValue: string | null;
+}
+
+interface TenderFormProps {
+  tender?: TenderFormTender;
+  publishers: { id: string; name: string; province_id: string }[];
+  provinces: { id: string; name: string }[];
+  action: (
+    prevState: Record<string, unknown>,
+    formData: FormData,
+  ) => Promise<{ error?: string; success?: boolean }>;
+}
+
+// Format a date for a datetime-local input (local time, minute precision)
+function toDateTimeLocal(value: Date | string | null | undefined) {
+  if (!value) return "";
+  return format(new Date(value), "yyyy-MM-dd'T'HH:mm");
+}
+
+export default function TenderForm({
+  tender,
+  publishers,
+  provinces,
+  action,
+}: TenderFormProps) {
+  const form = useForm<TenderFormData>({
+    resolver: zodResolver(tenderFormSchema),
+    defaultValues: tender
+      ? {
+          referenceNumber: tender.referenceNumber,
+          title: tender.title,
+          description: tender.description || "",
+          closingDate: toDateTimeLocal(tender.closingDate),
+          briefingDate: toDateTimeLocal(tender.briefingDate),
+          briefingVenue: tender.briefingVenue || "",
+          briefingCompulsory: tender.briefingCompulsory,
+          publisherId: tender.publisherId,
+          provinceId: tender.provinceId,
+          status: tender.status,
+          category: (tender.category as TenderCategory | null) || "",
+          estimatedValue: tender.estimatedValue || "",
+        }
+      : tenderDefaultValues,
+  });
+
+  const onSubmit = async (data: TenderFormData) => {
+    try {
+      const formData = new FormData();
+      formData.append("referenceNumber", data.referenceNumber.trim());
+      formData.append("title", data.title.trim());
+      formData.append("description", data.description?.trim() || "");
+      // Send absolute timestamps so the server does not reinterpret local time
+      formData.append("closingDate", new Date(data.closingDate).toISOString());
+      formData.append(
+        "briefingDate",
+        data.briefingDate ? new Date(data.briefingDate).toISOString() : "",
+      );
+      formData.append("briefingVenue", data.briefingVenue?.trim() || "");
+      formData.append("briefingCompulsory", String(data.briefingCompulsory));
+      formData.append("publisherId", data.publisherId);
+      formData.append("provinceId", data.provinceId);
+      formData.append("status", data.status);
+      formData.append("category", data.category || "");
+      formData.append("estimatedValue", data.estimatedValue?.trim() || "");
+      if (tender?.id) formData.append("id", tender.id);
+
+      const result = await action({}, formData);
+
+      if (result?.error) {
+        toast.error(result.error);
+      } else {
+        toast.success(
+          tender
+            ? "Tender updated successfully"
+            : "Tender created successfully",
+        );
+      }
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "An unexpected error occurred";
+      toast.error(errorMessage);
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <div className="grid gap-4 sm:grid-cols-2">
+          <FormField
+            control={form.control}
+            name="referenceNumber"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Reference Number</FormLabel>
+                <FormControl>
+                  <InputGroup>
+                    <InputGroupAddon>
+                      <Hash className="size-4" />
+                    </InputGroupAddon>
+                    <InputGroupInput
+                      placeholder="e.g. RFQ/2025/014"
+                      {...field}
+                    />
+                  </InputGroup>
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="status"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Status</FormLabel>
+                <Select
+                  onValueChange={field.onChange}
+                  defaultValue={field.value}
+                >
+                  <FormControl>
+                    <SelectTrigger className="w-full">
+                      <SelectValue placeholder="Select a status" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {TENDER_STATUSES.map((status) => (
+                      <SelectItem key={status} value={status}>
+                        {tenderStatusLabels[status]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        <FormField
+          control={form.control}
+          name="title"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Title</FormLabel>
+              <FormControl>
+                <InputGroup>
+                  <InputGroupAddon>
+                    <FileText className="size-4" />
+                  </InputGroupAddon>
+                  <InputGroupInput
+                    placeholder="Enter tender title"
+                    {...field}
+                  />
+                </InputGroup>
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="description"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Description (Optional)</FormLabel>
+              <FormControl>
+                <Textarea
+                  placeholder="Scope of work, eligibility and other details"
+                  rows={4}
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <div className="grid gap-4 sm:grid-cols-2">
+          <FormField
+            control={form.control}
+            name="publisherId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Issuing Publisher</FormLabel>
+                <Select
+                  onValueChange={(value) => {
+                    field.onChange(value);
+                    // Default the province to the publisher's province
+                    const publisher = publishers.find((p) => p.id === value);
+                    if (publisher && !form.getValues("provinceId")) {
+                      form.setValue("provinceId", publisher.province_id, {
+                        shouldValidate: true,
+                      });
+                    }
+                  }}
+                  defaultValue={field.value}
+                >
+                  <FormControl>
+                    <SelectTrigger className="w-full">
+                      <SelectValue placeholder="Select a publisher" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {publishers.map((pub) => (
+                      <SelectItem key={pub.id} value={pub.id}>
+                        {pub.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="provinceId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="flex items-center gap-2">
+                  <MapPin className="size-4" />
+                  Province
+                </FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger className="w-full">
+                      <SelectValue placeholder="Select a province" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {provinces.map((prov) => (
+                      <SelectItem key={prov.id} value={prov.id}>
+                        {prov.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        <div className="grid gap-4 sm:grid-cols-2">
+          <FormField
+            control={form.control}
+            name="category"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Category (Optional)</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger className="w-full">
+                      <SelectValue placeholder="Select a category" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {TENDER_CATEGORIES.map((category) => (
+                      <SelectItem key={category} value={category}>
+                        {tenderCategoryLabels[category]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="estimatedValue"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Estimated Value (Optional)</FormLabel>
+                <FormControl>
+                  <InputGroup>
+                    <InputGroupAddon>
+                      <Banknote className="size-4" />
+                    </InputGroupAddon>
+                    <InputGroupInput
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      placeholder="Amount in Rand"
+                      {...field}
+                    />
+                  </InputGroup>
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        <FormField
+          control={form.control}
+          name="closingDate"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Closing Date & Time</FormLabel>
+              <FormControl>
+                <InputGroup>
+                  <InputGroupAddon>
+                    <CalendarClock className="size-4" />
+                  </InputGroupAddon>
+                  <InputGroupInput type="datetime-local" {...field} />
+                </InputGroup>
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <div className="space-y-4 rounded-lg border p-4">
+          <p className="text-sm font-medium">Briefing Session (Optional)</p>
+          <div className="grid gap-4 sm:grid-cols-2">
+            <FormField
+              control={form.control}
+              name="briefingDate"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Date & Time</FormLabel>
+                  <FormControl>
+                    <Input type="datetime-local" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="briefingVenue"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Venue</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Venue or meeting link" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+          <FormField
+            control={form.control}
+            name="briefingCompulsory"
+            render={({ field }) => (
+              <FormItem className="flex flex-row items-center gap-2">
+                <FormControl>
+                  <Checkbox
+                    checked={field.value}
+                    onCheckedChange={(checked) =>
+                      field.onChange(checked === true)
+                    }
+                  />
+                </FormControl>
+                <FormLabel className="font-normal">
+                  Attendance is compulsory
+                </FormLabel>
+              </FormItem>
+            )}
+          />
+        </div>
+        <Button type="submit" disabled={form.formState.isSubmitting}>
+          {form.formState.isSubmitting && <Spinner className="mr-2" />}
+          {tender ? "Update" : "Create"} Tender
+        </Button>
+      </form>
+    </Form>
+  );
+}
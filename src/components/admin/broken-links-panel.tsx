@@ -0,0 +1,167 @@
+"use client";
+
+import { formatDistanceToNow } from "date-fns";
+import { AlertTriangle, ExternalLink, RefreshCw } from "lucide-react";
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { BrokenPublisherLink } from "@/lib/link-health";
+
+// Dates arrive as strings from the JSON API
+type BrokenLinkRow = Omit<
+  BrokenPublisherLink,
+  "brokenSince" | "lastCheckedAt"
+> & {
+  brokenSince: string;
+  lastCheckedAt: string;
+};
+
+/**
+ * Publishers whose website failed several health checks in a row, with a
+ * button to re-check one immediately.
+ */
+export function BrokenLinksPanel() {
+  const [brokenLinks, setBrokenLinks] = useState<BrokenLinkRow[]>([]);
+  const [failureThreshold, setFailureThreshold] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [checkingId, setCheckingId] = useState<string | null>(null);
+
+  const fetchBrokenLinks = useCallback(async () => {
+    try {
+      const response = await fetch("/api/admin/publishers/link-health");
+      if (!response.ok) throw new Error("Failed to fetch broken links");
+      const data = await response.json();
+      setBrokenLinks(data.brokenLinks);
+      setFailureThreshold(data.failureThreshold);
+    } catch (error) {
+      console.error("Error fetching broken links:", error);
+      toast.error("Failed to load broken links");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchBrokenLinks();
+  }, [fetchBrokenLinks]);
+
+  const handleRecheck = async (publisherId: string) => {
+    setCheckingId(publisherId);
+    try {
+      const response = await fetch("/api/admin/publishers/link-health", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ publisherId }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        toast.error(data.error || "Failed to check link");
+        return;
+      }
+
+      if (data.result.ok) {
+        toast.success(`${data.result.publisherName} is reachable again`);
+      } else {
+        toast.error(
+          `${data.result.publisherName} is still failing: ${data.result.error}`,
+        );
+      }
+      await fetchBrokenLinks();
+    } catch (error) {
+      console.error("Error checking link:", error);
+      toast.error("Failed to check link");
+    } finally {
+      setCheckingId(null);
+    }
+  };
+
+  if (isLoading || brokenLinks.length === 0) return null;
+
+  return (
+    <Card className="border-destructive/50 bg-background">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <AlertTriangle className="h-5 w-5 text-destructive" />
+          Broken Links
+          <Badge variant="destructive">{brokenLinks.length}</Badge>
+        </CardTitle>
+        <CardDescription>
+          Publisher websites that failed {failureThreshold} or more health
+          checks in a row. Update the website or re-check once it is back.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Publisher</TableHead>
+              <TableHead>Last result</TableHead>
+              <TableHead>Failures</TableHead>
+              <TableHead>Broken since</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {brokenLinks.map((link) => (
+              <TableRow key={link.publisherId}>
+                <TableCell>
+                  <div className="font-medium">{link.publisherName}</div>
+                  {link.website && (
+                    <a
+                      href={link.website}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex items-center gap-1 text-xs text-muted-foreground hover:underline"
+                    >
+                      {link.website}
+                      <ExternalLink className="h-3 w-3" />
+                    </a>
+                  )}
+                </TableCell>
+                <TableCell className="max-w-[280px] truncate text-sm">
+                  {link.lastError ??
+                    (link.lastStatusCode ? `HTTP ${link.lastStatusCode}` : "—")}
+                </TableCell>
+                <TableCell>{link.consecutiveFailures}</TableCell>
+                <TableCell className="text-sm text-muted-foreground">
+                  {formatDistanceToNow(new Date(link.brokenSince), {
+                    addSuffix: true,
+                  })}
+                </TableCell>
+                <TableCell className="text-right">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={checkingId !== null}
+                    onClick={() => handleRecheck(link.publisherId)}
+                  >
+                    <RefreshCw
+                      className={`mr-2 h-4 w-4 ${checkingId === link.publisherId ? "animate-spin" : ""}`}
+                    />
+                    Re-check
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
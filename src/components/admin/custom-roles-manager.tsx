@@ -0,0 +1,350 @@
+"use client";
+
+import { Pencil, Plus, ShieldPlus, Trash2 } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { useState, useTransition } from "react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  appStatement,
+  hasPermission,
+  PERMISSION_RESOURCES,
+  type PermissionResource,
+  type Permissions,
+} from "@/lib/permissions";
+import { CUSTOM_ROLE_BASE_ROLES } from "@/lib/validations/custom-role";
+import {
+  createCustomRoleAction,
+  deleteCustomRoleAction,
+  updateCustomRoleAction,
+} from "@/server/roles";
+
+const RESOURCE_LABELS: Record<PermissionResource, string> = {
+  project: "Projects",
+  publisher: "Publishers",
+  tender: "Tenders",
+  province: "Provinces",
+  pipeline: "Pipeline",
+  coverage: "Coverage",
+  analytics: "Analytics",
+  team: "Team",
+  invitation: "Invitations",
+  profileUpdate: "Profile updates",
+  dataErasure: "Data erasure",
+  role: "Roles",
+  auditLog: "Audit logs",
+  settings: "Settings",
+};
+
+const BASE_ROLE_LABELS: Record<
+  (typeof CUSTOM_ROLE_BASE_ROLES)[number],
+  string
+> = {
+  manager: "Manager area",
+  user: "User dashboard",
+};
+
+export interface CustomRoleRow {
+  id: string;
+  name: string;
+  description: string | null;
+  baseRole: (typeof CUSTOM_ROLE_BASE_ROLES)[number] | string;
+  permissions: Permissions;
+  memberCount: number;
+}
+
+interface CustomRolesManagerProps {
+  roles: CustomRoleRow[];
+  canCreate: boolean;
+  canUpdate: boolean;
+  canDelete: boolean;
+}
+
+function formatAction(action: string) {
+  return action.replace(/_/g, " ");
+}
+
+function countPermissions(permissions: Permissions) {
+  return Object.values(permissions).reduce(
+    (total, actions) => total + (actions?.length ?? 0),
+    0,
+  );
+}
+
+export function CustomRolesManager({
+  roles,
+  canCreate,
+  canUpdate,
+  canDelete,
+}: CustomRolesManagerProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  // null while closed, "new" when creating
+  const [editing, setEditing] = useState<CustomRoleRow | "new" | null>(null);
+  const [baseRole, setBaseRole] = useState<string>("user");
+
+  const openEditor = (role: CustomRoleRow | "new") => {
+    setBaseRole(role === "new" ? "user" : role.baseRole);
+    setEditing(role);
+  };
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const formData = new FormData(event.currentTarget);
+    formData.set("baseRole", baseRole);
+
+    startTransition(async () => {
+      const result =
+        editing === "new"
+          ? await createCustomRoleAction({}, formData)
+          : await updateCustomRoleAction({}, formData);
+
+      if (result?.error) {
+        toast.error(result.error);
+        return;
+      }
+      toast.success(editing === "new" ? "Role created" : "Role updated");
+      setEditing(null);
+      router.refresh();
+    });
+  };
+
+  const handleDelete = (role: CustomRoleRow) => {
+    const warning =
+      role.memberCount > 0
+        ? `${role.memberCount} member(s) hold "${role.name}" and will fall back to their base role's permissions. Delete it?`
+        : `Delete "${role.name}"?`;
+    if (!window.confirm(warning)) return;
+
+    const formData = new FormData();
+    formData.set("id", role.id);
+
+    startTransition(async () => {
+      const result = await deleteCustomRoleAction(formData);
+      if (result?.error) {
+        toast.error(result.error);
+        return;
+      }
+      toast.success("Role deleted");
+      router.refresh();
+    });
+  };
+
+  const current = editing === "new" ? null : editing;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <ShieldPlus className="h-5 w-5" />
+            Custom Roles
+          </CardTitle>
+          <CardDescription>
+            Define roles with exactly the permissions a job needs, then assign
+            them to members from the team page
+          </CardDescription>
+        </div>
+        {canCreate && (
+          <Button size="sm" onClick={() => openEditor("new")}>
+            <Plus className="mr-2 h-4 w-4" />
+            New role
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {roles.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No custom roles yet. Members use the built-in owner, admin, manager
+            and user roles.
+          </p>
+        ) : (
+          roles.map((role) => (
+            <div
+              key={role.id}
+              className="flex items-center justify-between rounded-md border p-3"
+            >
+              <div className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{role.name}</span>
+                  <Badge variant="outline">
+                    {BASE_ROLE_LABELS[
+                      role.baseRole as keyof typeof BASE_ROLE_LABELS
+                    ] ?? role.baseRole}
+                  </Badge>
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {role.description || "No description"} ·{" "}
+                  {countPermissions(role.permissions)} permissions ·{" "}
+                  {role.memberCount} members
+                </p>
+              </div>
+              <div className="flex gap-1">
+                {canUpdate && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    disabled={isPending}
+                    onClick={() => openEditor(role)}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                )}
+                {canDelete && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    disabled={isPending}
+                    onClick={() => handleDelete(role)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+
+      <Dialog
+        open={editing !== null}
+        onOpenChange={(open) => !open && setEditing(null)}
+      >
+        <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>
+                {current ? `Edit ${current.name}` : "New custom role"}
+              </DialogTitle>
+              <DialogDescription>
+                Members with this role get exactly the permissions selected
+                below.
+              </DialogDescription>
+            </DialogHeader>
+
+            {current && <input type="hidden" name="id" value={current.id} />}
+
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="role-name">Name</Label>
+                <Input
+                  id="role-name"
+                  name="name"
+                  placeholder="Bid Coordinator"
+                  defaultValue={current?.name}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Works in</Label>
+                <Select value={baseRole} onValueChange={setBaseRole}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CUSTOM_ROLE_BASE_ROLES.map((role) => (
+                      <SelectItem key={role} value={role}>
+                        {BASE_ROLE_LABELS[role]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="role-description">Description</Label>
+              <Textarea
+                id="role-description"
+                name="description"
+                rows={2}
+                defaultValue={current?.description ?? ""}
+              />
+            </div>
+
+            <div className="space-y-3">
+              <Label>Permissions</Label>
+              {PERMISSION_RESOURCES.map((resource) => (
+                <div
+                  key={resource}
+                  className="grid grid-cols-[10rem_1fr] items-start gap-2"
+                >
+                  <span className="text-sm font-medium">
+                    {RESOURCE_LABELS[resource]}
+                  </span>
+                  <div className="flex flex-wrap gap-x-4 gap-y-2">
+                    {appStatement[resource].map((action) => {
+                      const id = `permission-${resource}-${action}`;
+                      return (
+                        <div key={action} className="flex items-center gap-2">
+                          <Checkbox
+                            id={id}
+                            name="permissions"
+                            value={`${resource}:${action}`}
+                            defaultChecked={
+                              current
+                                ? hasPermission(
+                                    current.permissions,
+                                    resource,
+                                    action,
+                                  )
+                                : false
+                            }
+                          />
+                          <Label htmlFor={id} className="font-normal">
+                            {formatAction(action)}
+                          </Label>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setEditing(null)}
+                disabled={isPending}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isPending}>
+                {current ? "Save role" : "Create role"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,591 @@
+"use client";
+
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import {
+  Eraser,
+  FlaskConical,
+  Loader2,
+  Pencil,
+  Play,
+  Plus,
+  Trash2,
+} from "lucide-react";
+import { useState, useTransition } from "react";
+import { toast } from "sonner";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { RetentionPolicy } from "@/db/schema";
+import {
+  RETENTION_MAX_DAYS,
+  RETENTION_MIN_DAYS,
+  RETENTION_TABLE_NAMES,
+  RETENTION_TABLES,
+  type RetentionPolicyFormData,
+  type RetentionTableName,
+} from "@/lib/validations/retention";
+import {
+  createRetentionPolicyAction,
+  deleteRetentionPolicyAction,
+  getRetentionOverview,
+  runRetentionPolicyAction,
+  updateRetentionPolicyAction,
+} from "@/server/retention";
+
+// Select value for "no condition"; Radix selects cannot use ""
+const ALL_ROWS = "all";
+
+const EMPTY_POLICY: RetentionPolicyFormData = {
+  policyName: "",
+  tableName: "audit_log",
+  retentionDays: 90,
+  condition: null,
+  enabled: true,
+};
+
+function tableLabel(tableName: string) {
+  return Object.hasOwn(RETENTION_TABLES, tableName)
+    ? RETENTION_TABLES[tableName as RetentionTableName].label
+    : tableName;
+}
+
+function conditionLabel(tableName: string, condition: string | null) {
+  if (!condition) return "All rows";
+  const conditions: Record<string, string> =
+    RETENTION_TABLES[tableName as RetentionTableName]?.conditions ?? {};
+  return Object.hasOwn(conditions, condition)
+    ? conditions[condition]
+    : condition;
+}
+
+function formatRelative(date: Date | null) {
+  return date ? formatDistanceToNow(date, { addSuffix: true }) : "Never";
+}
+
+const STATUS_VARIANTS = {
+  success: "default",
+  dry_run: "secondary",
+  failed: "destructive",
+} as const;
+
+function PolicyDialog({
+  policy,
+  open,
+  onOpenChange,
+  onSaved,
+}: {
+  policy: RetentionPolicy | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}) {
+  const [isSaving, startTransition] = useTransition();
+  const [form, setForm] = useState<RetentionPolicyFormData>(EMPTY_POLICY);
+  const [lastPolicy, setLastPolicy] = useState<RetentionPolicy | null>(null);
+
+  // Start from the policy being edited each time the dialog opens
+  if (open && policy !== lastPolicy) {
+    setLastPolicy(policy);
+    setForm(
+      policy
+        ? {
+            policyName: policy.policyName,
+            tableName: policy.tableName as RetentionTableName,
+            retentionDays: policy.retentionDays,
+            condition: policy.condition,
+            enabled: policy.enabled,
+          }
+        : EMPTY_POLICY,
+    );
+  }
+
+  const conditions: Record<string, string> =
+    RETENTION_TABLES[form.tableName].conditions;
+
+  const handleSave = () => {
+    startTransition(async () => {
+      const result = policy
+        ? await updateRetentionPolicyAction(policy.id, form)
+        : await createRetentionPolicyAction(form);
+      if (result.error) {
+        toast.error(result.error);
+        return;
+      }
+      toast.success(
+        policy ? "Retention policy updated" : "Retention policy created",
+      );
+      onSaved();
+      onOpenChange(false);
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>
+            {policy ? "Edit Retention Policy" : "New Retention Policy"}
+          </DialogTitle>
+          <DialogDescription>
+            Rows older than the retention period are deleted when the policy
+            runs. Use a dry run to see how many rows that is first.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="retention-name">Name</Label>
+            <Input
+              id="retention-name"
+              value={form.policyName}
+              onChange={(event) =>
+                setForm({ ...form, policyName: event.target.value })
+              }
+            />
+          </div>
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="retention-table">Table</Label>
+              <Select
+                value={form.tableName}
+                onValueChange={(value) =>
+                  setForm({
+                    ...form,
+                    tableName: value as RetentionTableName,
+                    condition: null,
+                  })
+                }
+              >
+                <SelectTrigger id="retention-table">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RETENTION_TABLE_NAMES.map((tableName) => (
+                    <SelectItem key={tableName} value={tableName}>
+                      {RETENTION_TABLES[tableName].label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="retention-condition">Rows</Label>
+              <Select
+                value={form.condition ?? ALL_ROWS}
+                onValueChange={(value) =>
+                  setForm({
+                    ...form,
+                    condition: value === ALL_ROWS ? null : value,
+                  })
+                }
+              >
+                <SelectTrigger id="retention-condition">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_ROWS}>All rows</SelectItem>
+                  {Object.entries(conditions).map(([name, label]) => (
+                    <SelectItem key={name} value={name}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="retention-days">Keep for (days)</Label>
+            <Input
+              id="retention-days"
+              type="number"
+              min={RETENTION_MIN_DAYS}
+              max={RETENTION_MAX_DAYS}
+              value={form.retentionDays}
+              onChange={(event) =>
+                setForm({ ...form, retentionDays: Number(event.target.value) })
+              }
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="retention-enabled">Run on schedule</Label>
+            <Switch
+              id="retention-enabled"
+              checked={form.enabled}
+              onCheckedChange={(enabled) => setForm({ ...form, enabled })}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={isSaving}
+          >
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Policy
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function RetentionPoliciesPanel() {
+  const queryClient = useQueryClient();
+  const [isPending, startTransition] = useTransition();
+  const [editing, setEditing] = useState<RetentionPolicy | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [confirmRun, setConfirmRun] = useState<RetentionPolicy | null>(null);
+  const [confirmDelete, setConfirmDelete] = useState<RetentionPolicy | null>(
+    null,
+  );
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["retention-overview"],
+    queryFn: () => getRetentionOverview(),
+    retry: false,
+  });
+
+  const refresh = () =>
+    queryClient.invalidateQueries({ queryKey: ["retention-overview"] });
+
+  const openDialog = (policy: RetentionPolicy | null) => {
+    setEditing(policy);
+    setDialogOpen(true);
+  };
+
+  const handleRun = (policy: RetentionPolicy, dryRun: boolean) => {
+    startTransition(async () => {
+      const response = await runRetentionPolicyAction(policy.id, dryRun);
+      if ("error" in response) {
+        toast.error(response.error);
+        return;
+      }
+      const { result } = response;
+      if (result.status === "failed") {
+        toast.error(`${policy.policyName} failed: ${result.error}`);
+      } else if (dryRun) {
+        toast.success(`${result.matched} rows would be deleted`);
+      } else {
+        toast.success(`${result.deleted} rows deleted`);
+      }
+      setConfirmRun(null);
+      refresh();
+    });
+  };
+
+  const handleDelete = (policy: RetentionPolicy) => {
+    startTransition(async () => {
+      const result = await deleteRetentionPolicyAction(policy.id);
+      if (result.error) {
+        toast.error(result.error);
+        return;
+      }
+      toast.success("Retention policy deleted");
+      setConfirmDelete(null);
+      refresh();
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <p className="py-8 text-center text-sm text-muted-foreground">
+        You do not have access to retention policies.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Eraser className="h-5 w-5" />
+                Retention Policies
+              </CardTitle>
+              <CardDescription>
+                Delete old rows from supported tables on a daily schedule
+              </CardDescription>
+            </div>
+            <Button onClick={() => openDialog(null)}>
+              <Plus className="mr-2 h-4 w-4" />
+              New Policy
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {data.policies.length === 0 ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">
+              No retention policies yet. Data is kept indefinitely.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Policy</TableHead>
+                  <TableHead>Table</TableHead>
+                  <TableHead className="text-right">Keep for</TableHead>
+                  <TableHead>Last run</TableHead>
+                  <TableHead>Next run</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.policies.map((policy) => (
+                  <TableRow key={policy.id}>
+                    <TableCell>
+                      <div className="flex items-center gap-2 font-medium">
+                        {policy.policyName}
+                        {!policy.enabled && (
+                          <Badge variant="outline">Paused</Badge>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <div>{tableLabel(policy.tableName)}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {conditionLabel(policy.tableName, policy.condition)}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {policy.retentionDays} days
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {formatRelative(policy.lastRun)}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {policy.enabled ? formatRelative(policy.nextRun) : "—"}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          title="Dry run"
+                          disabled={isPending}
+                          onClick={() => handleRun(policy, true)}
+                        >
+                          <FlaskConical className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          title="Run now"
+                          disabled={isPending}
+                          onClick={() => setConfirmRun(policy)}
+                        >
+                          <Play className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          title="Edit"
+                          onClick={() => openDialog(policy)}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          title="Delete"
+                          disabled={isPending}
+                          onClick={() => setConfirmDelete(policy)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Run History</CardTitle>
+          <CardDescription>
+            The latest runs, including dry runs and scheduled runs
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {data.runs.length === 0 ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">
+              No policy has run yet.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Started</TableHead>
+                  <TableHead>Policy</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Matched</TableHead>
+                  <TableHead className="text-right">Deleted</TableHead>
+                  <TableHead>Trigger</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.runs.map((run) => (
+                  <TableRow key={run.id}>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {formatRelative(run.startedAt)}
+                    </TableCell>
+                    <TableCell>
+                      <div className="font-medium">{run.policyName}</div>
+                      <div className="text-xs text-muted-foreground">
+                        Before {run.cutoff.toLocaleDateString()}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge
+                        variant={
+                          STATUS_VARIANTS[
+                            run.status as keyof typeof STATUS_VARIANTS
+                          ] ?? "outline"
+                        }
+                        title={run.error ?? undefined}
+                      >
+                        {run.status.replace("_", " ")}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">{run.matched}</TableCell>
+                    <TableCell className="text-right">{run.deleted}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {run.triggeredBy ? "Manual" : "Scheduled"}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <PolicyDialog
+        policy={editing}
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        onSaved={refresh}
+      />
+
+      <AlertDialog
+        open={!!confirmRun}
+        onOpenChange={(open) => !open && setConfirmRun(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Run {confirmRun?.policyName} now?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              Rows in {confirmRun && tableLabel(confirmRun.tableName)} older
+              than {confirmRun?.retentionDays} days will be permanently deleted.
+              Run a dry run first if you are unsure how many.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isPending}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={isPending}
+              onClick={(event) => {
+                event.preventDefault();
+                if (confirmRun) handleRun(confirmRun, false);
+              }}
+            >
+              Delete Rows
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog
+        open={!!confirmDelete}
+        onOpenChange={(open) => !open && setConfirmDelete(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Delete {confirmDelete?.policyName}?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              The policy and its run history are removed. Data it would have
+              deleted is kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isPending}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={isPending}
+              onClick={(event) => {
+                event.preventDefault();
+                if (confirmDelete) handleDelete(confirmDelete);
+              }}
+            >
+              Delete Policy
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+"use client";
+
+import { formatDistanceToNow } from "date-fns";
+import { CalendarDays, Copy, RefreshCw, Trash2 } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { useTransition } from "react";
+import { toast } from "sonner";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { createCalendarFeed, revokeCalendarFeed } from "@/server/calendar-feed";
+
+interface CalendarFeedCardProps {
+  feed: {
+    url: string;
+    createdAt: Date;
+    lastAccessedAt: Date | null;
+  } | null;
+}
+
+export function CalendarFeedCard({ feed }: CalendarFeedCardProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+
+  const handleCreate = () => {
+    startTransition(async () => {
+      const result = await createCalendarFeed();
+      if ("error" in result) {
+        toast.error(result.error);
+        return;
+      }
+      toast.success(
+        feed
+          ? "New calendar link created. The old link no longer works."
+          : "Calendar link created",
+      );
+      router.refresh();
+    });
+  };
+
+  const handleRevoke = () => {
+    startTransition(async () => {
+      const result = await revokeCalendarFeed();
+      if (result.error) {
+        toast.error(result.error);
+        return;
+      }
+      toast.success("Calendar link revoked");
+      router.refresh();
+    });
+  };
+
+  const handleCopy = async () => {
+    if (!feed) return;
+    try {
+      await navigator.clipboard.writeText(feed.url);
+      toast.success("Calendar link copied");
+    } catch {
+      toast.error("Could not copy the link");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center space-x-2">
+          <CalendarDays className="h-5 w-5 text-blue-600" />
+          <CardTitle>Calendar Subscription</CardTitle>
+        </div>
+        <CardDescription>
+          Subscribe from Outlook or Google Calendar to see closing dates and
+          briefings for the tenders you track and your bookmarked publishers.
+          Anyone with the link can read it, so keep it private.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {feed ? (
+          <>
+            <div className="flex gap-2">
+              <Input readOnly value={feed.url} className="font-mono text-xs" />
+              <Button variant="outline" onClick={handleCopy} title="Copy link">
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Created{" "}
+              {formatDistanceToNow(new Date(feed.createdAt), {
+                addSuffix: true,
+              })}
+              {" · "}
+              {feed.lastAccessedAt
+                ? `last synced ${formatDistanceToNow(new Date(feed.lastAccessedAt), { addSuffix: true })}`
+                : "not synced yet"}
+            </p>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                onClick={handleCreate}
+                disabled={isPending}
+              >
+                <RefreshCw className="mr-2 h-4 w-4" />
+                Regenerate Link
+              </Button>
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="outline" disabled={isPending}>
+                    <Trash2 className="mr-2 h-4 w-4" />
+                    Revoke
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Revoke Calendar Link</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      Calendars subscribed with this link will stop receiving
+                      tender deadlines. You can create a new link at any time.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction
+                      onClick={handleRevoke}
+                      className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                    >
+                      Revoke
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </div>
+          </>
+        ) : (
+          <Button onClick={handleCreate} disabled={isPending}>
+            <CalendarDays className="mr-2 h-4 w-4" />
+            Create Calendar Link
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,96 @@
+"use client";
+
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import Link from "next/link";
+import { useEffect, useState, useTransition } from "react";
+import { toast } from "sonner";
+import { useSessionContext } from "@/components/providers/session-provider";
+import { Button } from "@/components/ui/button";
+import {
+  type ConsentPreferences,
+  CURRENT_CONSENT_POLICY_VERSION,
+} from "@/lib/validations/consent";
+import { flushPendingVisits } from "@/lib/visit-sync";
+import { setAnalyticsConsent } from "@/lib/visit-utils";
+import { getMyConsentStatus, updateConsentPreferences } from "@/server/consent";
+
+/**
+ * Asks signed-in users for consent until they have decided under the
+ * current policy version, and keeps the browser's tracking in step with
+ * the choices stored on their account.
+ */
+export function ConsentBanner() {
+  const { user } = useSessionContext();
+  const queryClient = useQueryClient();
+  const [isPending, startTransition] = useTransition();
+  const [dismissed, setDismissed] = useState(false);
+
+  const { data: status } = useQuery({
+    queryKey: ["consent-status", user?.id],
+    queryFn: () => getMyConsentStatus(),
+    enabled: !!user,
+  });
+
+  useEffect(() => {
+    if (status) {
+      setAnalyticsConsent(status.preferences.analytics);
+    }
+  }, [status]);
+
+  const handleChoice = (preferences: ConsentPreferences) => {
+    startTransition(async () => {
+      const result = await updateConsentPreferences(preferences);
+      if (result.error) {
+        toast.error(result.error);
+        return;
+      }
+
+      setAnalyticsConsent(preferences.analytics);
+      if (preferences.analytics) {
+        void flushPendingVisits();
+      }
+      setDismissed(true);
+      queryClient.invalidateQueries({ queryKey: ["consent-status"] });
+    });
+  };
+
+  if (!user || !status?.needsReview || dismissed) return null;
+
+  return (
+    <div
+      role="dialog"
+      aria-label="Privacy preferences"
+      className="fixed inset-x-4 bottom-4 z-50 mx-auto max-w-2xl rounded-lg border bg-background p-4 shadow-lg"
+    >
+      <p className="text-sm">
+        We would like to record the pages you visit to sync your visit history
+        and show your manager which publishers have been covered, and to send
+        you relevant product news. Necessary storage for sign-in and settings is
+        always on.{" "}
+        {status.version && status.version !== CURRENT_CONSENT_POLICY_VERSION
+          ? "Our privacy policy has changed since you last chose. "
+          : ""}
+        <Link href="/account#privacy" className="text-blue-600 underline">
+          Choose categories
+        </Link>
+      </p>
+      <div className="mt-3 flex justify-end gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={isPending}
+          onClick={() => handleChoice({ analytics: false, marketing: false })}
+        >
+          Necessary Only
+        </Button>
+        <Button
+          size="sm"
+          disabled={isPending}
+          onClick={() => handleChoice({ analytics: true, marketing: true })}
+        >
+          Accept All
+        </Button>
+      </div>
+    </div>
+  );
+}
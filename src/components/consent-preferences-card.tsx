@@ -0,0 +1,142 @@
+"use client";
+
+import { useQueryClient } from "@tanstack/react-query";
+import { Loader2, ShieldCheck } from "lucide-react";
+import Link from "next/link";
+import { useState, useTransition } from "react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Switch } from "@/components/ui/switch";
+import type { ConsentStatus } from "@/lib/consent";
+import {
+  CONSENT_CATEGORIES,
+  CONSENT_CATEGORY_DETAILS,
+  CONSENT_POLICY_VERSIONS,
+  type ConsentPreferences,
+  CURRENT_CONSENT_POLICY_VERSION,
+} from "@/lib/validations/consent";
+import { flushPendingVisits } from "@/lib/visit-sync";
+import { setAnalyticsConsent } from "@/lib/visit-utils";
+import { updateConsentPreferences } from "@/server/consent";
+
+interface ConsentPreferencesCardProps {
+  status: ConsentStatus;
+}
+
+export function ConsentPreferencesCard({
+  status,
+}: ConsentPreferencesCardProps) {
+  const queryClient = useQueryClient();
+  const [isPending, startTransition] = useTransition();
+  const [preferences, setPreferences] = useState<ConsentPreferences>(
+    status.preferences,
+  );
+
+  const handleSave = () => {
+    startTransition(async () => {
+      const result = await updateConsentPreferences(preferences);
+      if (result.error) {
+        toast.error(result.error);
+        return;
+      }
+
+      setAnalyticsConsent(preferences.analytics);
+      if (preferences.analytics) {
+        void flushPendingVisits();
+      }
+      queryClient.invalidateQueries({ queryKey: ["consent-status"] });
+      toast.success("Privacy preferences saved");
+    });
+  };
+
+  return (
+    <Card id="privacy">
+      <CardHeader>
+        <div className="flex items-center space-x-2">
+          <ShieldCheck className="h-5 w-5 text-blue-600" />
+          <CardTitle>Privacy Preferences</CardTitle>
+        </div>
+        <CardDescription>
+          Choose what Tender Hub may record about how you use it. You can change
+          this at any time.{" "}
+          <Link
+            href="/dashboard/most-visited"
+            className="text-blue-600 hover:underline"
+          >
+            View your visit history
+          </Link>
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {CONSENT_CATEGORIES.map((category) => (
+          <div
+            key={category}
+            className="flex items-start justify-between gap-4"
+          >
+            <div className="space-y-1">
+              <Label htmlFor={`consent-${category}`}>
+                {CONSENT_CATEGORY_DETAILS[category].label}
+              </Label>
+              <p className="text-sm text-muted-foreground">
+                {CONSENT_CATEGORY_DETAILS[category].description}
+              </p>
+            </div>
+            <Switch
+              id={`consent-${category}`}
+              checked={category === "necessary" || preferences[category]}
+              disabled={category === "necessary" || isPending}
+              onCheckedChange={(checked) => {
+                if (category === "necessary") return;
+                setPreferences({ ...preferences, [category]: checked });
+              }}
+            />
+          </div>
+        ))}
+
+        <div className="flex items-center justify-between gap-4">
+          <p className="text-xs text-muted-foreground">
+            {status.version
+              ? `Last chosen under policy version ${status.version}.`
+              : "You have not made a choice yet."}
+          </p>
+          <Button onClick={handleSave} disabled={isPending}>
+            {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Preferences
+          </Button>
+        </div>
+
+        <Separator />
+
+        <div className="space-y-2">
+          <span className="text-sm font-medium">Policy History</span>
+          <ul className="space-y-2">
+            {[...CONSENT_POLICY_VERSIONS].reverse().map((policy) => (
+              <li key={policy.version} className="text-sm">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">Version {policy.version}</span>
+                  <span className="text-muted-foreground">
+                    {policy.effectiveDate}
+                  </span>
+                  {policy.version === CURRENT_CONSENT_POLICY_VERSION && (
+                    <Badge variant="secondary">Current</Badge>
+                  )}
+                </div>
+                <p className="text-muted-foreground">{policy.summary}</p>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -25,8 +25,12 @@ const breadcrumbConfig: Record<string, BreadcrumbConfig> = {
   "/admin/database": { label: "Database" },
   "/admin/performance": { label: "Performance" },
   "/admin/settings": { label: "Settings" },
+  "/admin/tenders": { label: "Tenders" },
+  "/admin/tenders/sources": { label: "Sources" },
   "/manager": { label: "Manager" },
   "/manager/approvals": { label: "Approvals" },
+  "/manager/erasure-requests": { label: "Erasure Requests" },
+  "/manager/tenders": { label: "Tenders" },
   "/team": { label: "Team" },
 };
 
@@ -4,10 +4,12 @@ import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
 import { toast } from "sonner";
-import { Mail, Shield, Bell, TrendingUp, Loader2 } from "lucide-react";
+import { Mail, Shield, Bell, TrendingUp, Loader2, CalendarClock } from "lucide-react";
+import { formatLeadTime, REMINDER_LEAD_DAY_OPTIONS } from "@/lib/tender-deadline-schedule";
 
 interface EmailPreferences {
   invitations: boolean;
@@ -24,6 +26,8 @@ interface EmailPreferences {
   immediateNotifications: boolean;
   dailyDigest: boolean;
   weeklyDigestNotifications: boolean;
+  tenderReminders: boolean;
+  tenderReminderLeadDays: number[];
   lastUpdated: string;
 }
 
@@ -91,6 +95,16 @@ export function EmailPreferencesForm() {
     updatePreferences({ [key]: value });
   };
 
+  const handleLeadDayToggle = (days: number, checked: boolean) => {
+    if (!preferences) return;
+
+    const leadDays = checked
+      ? [...preferences.tenderReminderLeadDays, days].sort((a, b) => b - a)
+      : preferences.tenderReminderLeadDays.filter((existing) => existing !== days);
+    setPreferences({ ...preferences, tenderReminderLeadDays: leadDays });
+    updatePreferences({ tenderReminderLeadDays: leadDays });
+  };
+
   if (loading) {
     return (
       <Card>
@@ -244,6 +258,77 @@ export function EmailPreferencesForm() {
         </CardContent>
       </Card>
 
+      {/* Tender Notifications */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center space-x-2">
+            <CalendarClock className="h-5 w-5 text-amber-600" />
+            <CardTitle>Tender Notifications</CardTitle>
+          </div>
+          <CardDescription>
+            Alerts for your saved searches and reminders before tracked tenders close.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="immediate-notifications" className="flex-1">
+              Instant Tender Alerts
+              <p className="text-sm text-muted-foreground">As soon as new tenders match a saved search</p>
+            </Label>
+            <Switch
+              id="immediate-notifications"
+              checked={preferences.immediateNotifications}
+              onCheckedChange={(checked) => handleToggle("immediateNotifications", checked)}
+              disabled={saving}
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="weekly-digest-notifications" className="flex-1">
+              Weekly Tender Alerts
+              <p className="text-sm text-muted-foreground">One weekly email with new saved search matches</p>
+            </Label>
+            <Switch
+              id="weekly-digest-notifications"
+              checked={preferences.weeklyDigestNotifications}
+              onCheckedChange={(checked) => handleToggle("weeklyDigestNotifications", checked)}
+              disabled={saving}
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="tender-reminders" className="flex-1">
+              Closing Date Reminders
+              <p className="text-sm text-muted-foreground">Before tenders you track or from bookmarked publishers close</p>
+            </Label>
+            <Switch
+              id="tender-reminders"
+              checked={preferences.tenderReminders}
+              onCheckedChange={(checked) => handleToggle("tenderReminders", checked)}
+              disabled={saving}
+            />
+          </div>
+
+          {preferences.tenderReminders && (
+            <div className="grid grid-cols-2 gap-2 sm:grid-cols-3">
+              {REMINDER_LEAD_DAY_OPTIONS.map((days) => (
+                <div key={days} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`reminder-lead-${days}`}
+                    checked={preferences.tenderReminderLeadDays.includes(days)}
+                    onCheckedChange={(checked) => handleLeadDayToggle(days, checked === true)}
+                    disabled={saving}
+                  />
+                  <Label htmlFor={`reminder-lead-${days}`} className="text-sm font-normal">
+                    {formatLeadTime(days)}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Reports & Digests */}
       <Card>
         <CardHeader>
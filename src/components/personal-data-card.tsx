@@ -0,0 +1,194 @@
+"use client";
+
+import { format } from "date-fns";
+import { Download, FileLock2, Loader2 } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { useState, useTransition } from "react";
+import { toast } from "sonner";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Textarea } from "@/components/ui/textarea";
+import type { DataErasureRequest } from "@/db/schema";
+import { cancelErasureRequest, requestErasure } from "@/server/personal-data";
+
+interface PersonalDataCardProps {
+  erasureRequest: DataErasureRequest | null;
+}
+
+export function PersonalDataCard({ erasureRequest }: PersonalDataCardProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [reason, setReason] = useState("");
+
+  const isOpen =
+    erasureRequest?.status === "pending" ||
+    erasureRequest?.status === "approved";
+
+  const handleRequest = () => {
+    startTransition(async () => {
+      const result = await requestErasure({ reason });
+      if (result.error) {
+        toast.error(result.error);
+        return;
+      }
+      setReason("");
+      toast.success("Erasure request sent to your manager");
+      router.refresh();
+    });
+  };
+
+  const handleCancel = () => {
+    if (!erasureRequest) return;
+    startTransition(async () => {
+      const result = await cancelErasureRequest(erasureRequest.id);
+      if (result.error) {
+        toast.error(result.error);
+        return;
+      }
+      toast.success("Erasure request cancelled");
+      router.refresh();
+    });
+  };
+
+  return (
+    <Card id="your-data">
+      <CardHeader>
+        <div className="flex items-center space-x-2">
+          <FileLock2 className="h-5 w-5 text-blue-600" />
+          <CardTitle>Your Data</CardTitle>
+        </div>
+        <CardDescription>
+          Under POPIA you can get a copy of the personal information we hold
+          about you, or ask us to erase it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1">
+            <span className="text-sm font-medium">Download your data</span>
+            <p className="text-sm text-muted-foreground">
+              Your profile, bookmarks, saved searches, visits, consent choices,
+              emails sent to you and account activity, as JSON and CSV files in
+              a ZIP.
+            </p>
+          </div>
+          <Button variant="outline" asChild>
+            <a href="/api/user/data-export" download>
+              <Download className="mr-2 h-4 w-4" />
+              Download
+            </a>
+          </Button>
+        </div>
+
+        <Separator />
+
+        <div className="space-y-3">
+          <div className="space-y-1">
+            <span className="text-sm font-medium">Erase your data</span>
+            <p className="text-sm text-muted-foreground">
+              A manager reviews the request. Once approved your account is
+              closed, personal records are deleted and your usage history is
+              kept only anonymously.
+            </p>
+          </div>
+
+          {isOpen && erasureRequest ? (
+            <div className="flex items-center justify-between gap-4 rounded-md border p-3">
+              <div className="space-y-1 text-sm">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">Erasure requested</span>
+                  <Badge variant="secondary">
+                    {erasureRequest.status === "pending"
+                      ? "Awaiting review"
+                      : "In progress"}
+                  </Badge>
+                </div>
+                <p className="text-muted-foreground">
+                  Sent {format(erasureRequest.requestedAt, "d MMM yyyy")}
+                </p>
+              </div>
+              {erasureRequest.status === "pending" && (
+                <Button
+                  variant="outline"
+                  onClick={handleCancel}
+                  disabled={isPending}
+                >
+                  {isPending && (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  )}
+                  Cancel Request
+                </Button>
+              )}
+            </div>
+          ) : (
+            <>
+              {erasureRequest?.status === "rejected" && (
+                <p className="text-sm text-muted-foreground">
+                  Your last request was declined
+                  {erasureRequest.rejectionReason
+                    ? `: ${erasureRequest.rejectionReason}`
+                    : "."}
+                </p>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="erasure-reason">Reason (optional)</Label>
+                <Textarea
+                  id="erasure-reason"
+                  value={reason}
+                  maxLength={500}
+                  onChange={(event) => setReason(event.target.value)}
+                />
+              </div>
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="destructive" disabled={isPending}>
+                    {isPending && (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    )}
+                    Request Erasure
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Erase your data?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      If a manager approves, you will be signed out and will not
+                      be able to sign in again. Download your data first if you
+                      want a copy.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction onClick={handleRequest}>
+                      Send Request
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,38 @@
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { cn } from "@/lib/utils";
+
+interface PublisherLogoProps {
+  name: string;
+  logoUrl?: string | null;
+  className?: string;
+}
+
+/**
+ * Publisher logo, falling back to the publisher's initials when there is
+ * no logo or it fails to load.
+ */
+export function PublisherLogo({
+  name,
+  logoUrl,
+  className,
+}: PublisherLogoProps) {
+  const initials = name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((word) => word[0].toUpperCase())
+    .join("");
+
+  return (
+    <Avatar className={cn("h-8 w-8 rounded-md", className)}>
+      {logoUrl && (
+        <AvatarImage
+          src={logoUrl}
+          alt={`${name} logo`}
+          className="object-contain"
+        />
+      )}
+      <AvatarFallback className="rounded-md text-xs">{initials}</AvatarFallback>
+    </Avatar>
+  );
+}
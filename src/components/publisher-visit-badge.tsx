@@ -9,7 +9,12 @@ import {
 import { VisitedBadge } from "@/components/ui/visited-badge";
 import { getCachedLocalStorage } from "@/lib/performance-utils";
 import { cn } from "@/lib/utils";
-import { getVisitStats } from "@/lib/visit-utils";
+import {
+  formatPageChange,
+  getVisitStats,
+  hasChangedSinceVisit,
+  type PublisherPageChange,
+} from "@/lib/visit-utils";
 
 // Define proper interfaces for visit data
 interface Visit {
@@ -40,6 +45,8 @@ interface PublisherVisitBadgeProps {
   showCount?: boolean;
   /** Show detailed visit information */
   showDetails?: boolean;
+  /** Latest change detected on the publisher's page */
+  lastChange?: PublisherPageChange | null;
 }
 
 /**
@@ -54,6 +61,7 @@ const PublisherVisitBadge = memo(
     size = "sm",
     showCount = true,
     showDetails = true,
+    lastChange,
   }: PublisherVisitBadgeProps) => {
     // Generate publisher URL pattern for visit tracking
     const publisherUrl = useMemo(() => {
@@ -94,6 +102,11 @@ const PublisherVisitBadge = memo(
       };
     }, [publisherUrl, getAllVisitsCached]);
 
+    const changedSinceVisit = hasChangedSinceVisit(
+      lastChange,
+      visitStats.lastVisit,
+    );
+
     // Memoized helper function to format time ago
     const formatTimeAgo = useCallback((date: Date): string => {
       const now = new Date();
@@ -159,6 +172,12 @@ const PublisherVisitBadge = memo(
         parts.push(`Last visited: ${lastVisitFormatted} (${timeAgo})`);
       }
 
+      if (changedSinceVisit && lastChange) {
+        parts.push(
+          `Page changed since your last visit: ${formatPageChange(lastChange)} (${formatTimeAgo(new Date(lastChange.changedAt))})`,
+        );
+      }
+
       return parts.join("\n");
     }, [
       visitStats,
@@ -166,6 +185,8 @@ const PublisherVisitBadge = memo(
       showDetails,
       formatTimeAgo,
       formatLastVisit,
+      changedSinceVisit,
+      lastChange,
     ]);
 
     if (!visitStats.isVisited && visitStats.visitCount === 0) {
@@ -194,6 +215,12 @@ const PublisherVisitBadge = memo(
                 {visitStats.visitCount}
               </span>
             )}
+            {changedSinceVisit && (
+              <span className="inline-flex items-center gap-1 rounded-full bg-amber-100 px-1.5 py-0.5 text-xs font-medium text-amber-700 dark:bg-amber-500/20 dark:text-amber-300">
+                <span className="h-1.5 w-1.5 rounded-full bg-amber-500" />
+                Changed
+              </span>
+            )}
           </div>
         </TooltipTrigger>
         <TooltipContent side="top" className="text-xs max-w-xs">
@@ -213,6 +240,7 @@ export interface PublisherVisitIndicatorProps {
   publisherName?: string;
   showCount?: boolean;
   className?: string;
+  lastChange?: PublisherPageChange | null;
 }
 
 export const PublisherVisitIndicator = memo(
@@ -221,6 +249,7 @@ export const PublisherVisitIndicator = memo(
     publisherName,
     showCount = true,
     className,
+    lastChange,
   }: PublisherVisitIndicatorProps) => {
     return (
       <PublisherVisitBadge
@@ -230,6 +259,7 @@ export const PublisherVisitIndicator = memo(
         showCount={showCount}
         showDetails={false}
         className={className}
+        lastChange={lastChange}
       />
     );
   },
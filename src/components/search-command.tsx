@@ -0,0 +1,213 @@
+"use client";
+
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { Building2, FileText, Search } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { Kbd, KbdGroup } from "@/components/ui/kbd";
+import { Spinner } from "@/components/ui/spinner";
+import type {
+  HighlightSegment,
+  SearchResult,
+  SearchResults,
+} from "@/lib/search";
+
+// Wait for a pause in typing before querying
+const SEARCH_DEBOUNCE_MS = 200;
+
+const GROUPS = [
+  {
+    type: "publisher",
+    heading: "Publishers",
+    icon: Building2,
+    fallbackHref: "/dashboard/publishers",
+  },
+  {
+    type: "tender",
+    heading: "Tenders",
+    icon: FileText,
+    fallbackHref: "/dashboard/tenders",
+  },
+] as const;
+
+function Highlighted({ segments }: { segments: HighlightSegment[] }) {
+  return (
+    <>
+      {segments.map((segment, index) =>
+        segment.match ? (
+          <mark
+            // biome-ignore lint/suspicious/noArrayIndexKey: segments are static
+            key={index}
+            className="rounded-sm bg-yellow-200 px-0.5 text-foreground dark:bg-yellow-500/40"
+          >
+            {segment.text}
+          </mark>
+        ) : (
+          // biome-ignore lint/suspicious/noArrayIndexKey: segments are static
+          <span key={index}>{segment.text}</span>
+        ),
+      )}
+    </>
+  );
+}
+
+/**
+ * Global search palette, opened with Cmd+K / Ctrl+K or the header button.
+ * Results are grouped by type; arrow keys move through them and Enter
+ * opens the selected one.
+ */
+export function SearchCommand() {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [input, setInput] = useState("");
+  const [query, setQuery] = useState("");
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "k" && (event.metaKey || event.ctrlKey)) {
+        event.preventDefault();
+        setOpen((current) => !current);
+      }
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  useEffect(() => {
+    const timeout = setTimeout(
+      () => setQuery(input.trim()),
+      SEARCH_DEBOUNCE_MS,
+    );
+    return () => clearTimeout(timeout);
+  }, [input]);
+
+  const { data, isFetching, isError } = useQuery({
+    queryKey: ["search", query],
+    queryFn: async ({ signal }) => {
+      const response = await fetch(
+        `/api/search?${new URLSearchParams({ q: query })}`,
+        { signal },
+      );
+      if (!response.ok) {
+        throw new Error("Failed to search");
+      }
+      const body = await response.json();
+      return body.results as SearchResults;
+    },
+    enabled: open && query.length > 0,
+    placeholderData: keepPreviousData,
+    staleTime: 30_000,
+  });
+
+  const results = query.length > 0 ? data : undefined;
+  const hasResults = results
+    ? GROUPS.some((group) => results[group.type].length > 0)
+    : false;
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (!nextOpen) setInput("");
+  };
+
+  const handleSelect = (result: SearchResult, fallbackHref: string) => {
+    handleOpenChange(false);
+    if (result.url) {
+      window.open(result.url, "_blank", "noopener,noreferrer");
+    } else {
+      router.push(fallbackHref);
+    }
+  };
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        className="h-9 w-full justify-start gap-2 text-muted-foreground sm:w-64"
+        onClick={() => setOpen(true)}
+      >
+        <Search className="h-4 w-4" />
+        <span className="flex-1 text-left">Search…</span>
+        <KbdGroup>
+          <Kbd>⌘</Kbd>
+          <Kbd>K</Kbd>
+        </KbdGroup>
+      </Button>
+
+      <CommandDialog
+        open={open}
+        onOpenChange={handleOpenChange}
+        title="Search"
+        description="Search publishers and tenders"
+        // Results are ranked by Postgres, cmdk must not filter or re-sort them
+        shouldFilter={false}
+      >
+        <CommandInput
+          value={input}
+          onValueChange={setInput}
+          placeholder="Search publishers and tenders…"
+        />
+        <CommandList>
+          {query.length === 0 ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">
+              Type to search publisher names, tender titles and descriptions
+            </p>
+          ) : isError ? (
+            <p className="py-6 text-center text-sm text-destructive">
+              Search failed. Please try again.
+            </p>
+          ) : !results ? (
+            <div className="flex justify-center py-6">
+              <Spinner />
+            </div>
+          ) : (
+            !hasResults &&
+            !isFetching && <CommandEmpty>No results for "{query}"</CommandEmpty>
+          )}
+
+          {results &&
+            GROUPS.map(
+              ({ type, heading, icon: Icon, fallbackHref }) =>
+                results[type].length > 0 && (
+                  <CommandGroup key={type} heading={heading}>
+                    {results[type].map((result) => (
+                      <CommandItem
+                        key={result.id}
+                        value={`${type}-${result.id}`}
+                        onSelect={() => handleSelect(result, fallbackHref)}
+                        className="items-start"
+                      >
+                        <Icon className="mt-0.5 h-4 w-4 shrink-0" />
+                        <div className="min-w-0 space-y-0.5">
+                          <p className="truncate font-medium">
+                            <Highlighted segments={result.title} />
+                          </p>
+                          {result.subtitle && (
+                            <p className="truncate text-xs text-muted-foreground">
+                              {result.subtitle}
+                            </p>
+                          )}
+                          {result.snippet && (
+                            <p className="line-clamp-2 text-xs text-muted-foreground">
+                              <Highlighted segments={result.snippet} />
+                            </p>
+                          )}
+                        </div>
+                      </CommandItem>
+                    ))}
+                  </CommandGroup>
+                ),
+            )}
+        </CommandList>
+      </CommandDialog>
+    </>
+  );
+}
@@ -0,0 +1,170 @@
+"use client";
+
+import { Building2, Check, ChevronsUpDown, Plus } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { type FormEvent, useState, useTransition } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  SidebarMenu,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  useSidebar,
+} from "@/components/ui/sidebar";
+import { formatUserRole } from "@/lib/auth-utils-client";
+import type { ActiveOrganization } from "@/lib/organization";
+import {
+  createOrganizationAction,
+  switchOrganization,
+} from "@/server/organization";
+
+/**
+ * Shows the active organisation and lets the user switch to another of
+ * their organisations or create a new one.
+ */
+export function OrganizationSwitcher({
+  organization,
+  organizations,
+}: {
+  organization: ActiveOrganization;
+  organizations: ActiveOrganization[];
+}) {
+  const { isMobile } = useSidebar();
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+
+  const handleSwitch = (organizationId: string) => {
+    if (organizationId === organization.id) return;
+
+    startTransition(async () => {
+      const formData = new FormData();
+      formData.append("organizationId", organizationId);
+      const result = await switchOrganization(formData);
+
+      if (result?.error) {
+        toast.error(result.error);
+        return;
+      }
+      router.refresh();
+    });
+  };
+
+  const handleCreate = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const formData = new FormData(event.currentTarget);
+
+    startTransition(async () => {
+      const result = await createOrganizationAction({}, formData);
+
+      if (result?.error) {
+        toast.error(result.error);
+        return;
+      }
+      toast.success("Organisation created");
+      setIsCreateDialogOpen(false);
+      router.refresh();
+    });
+  };
+
+  return (
+    <>
+      <SidebarMenu>
+        <SidebarMenuItem>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <SidebarMenuButton
+                size="lg"
+                disabled={isPending}
+                className="data-[state=open]:bg-sidebar-accent data-[state=open]:text-sidebar-accent-foreground"
+              >
+                <div className="flex aspect-square size-8 items-center justify-center rounded-lg border">
+                  <Building2 className="size-4" />
+                </div>
+                <div className="grid flex-1 text-left text-sm leading-tight">
+                  <span className="truncate font-medium">
+                    {organization.name}
+                  </span>
+                  <span className="truncate text-xs">
+                    {formatUserRole(organization.role)}
+                  </span>
+                </div>
+                <ChevronsUpDown className="ml-auto size-4" />
+              </SidebarMenuButton>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent
+              className="w-(--radix-dropdown-menu-trigger-width) min-w-56 rounded-lg"
+              side={isMobile ? "bottom" : "right"}
+              align="start"
+              sideOffset={4}
+            >
+              <DropdownMenuLabel className="text-muted-foreground text-xs">
+                Organisations
+              </DropdownMenuLabel>
+              {organizations.map((org) => (
+                <DropdownMenuItem
+                  key={org.id}
+                  onClick={() => handleSwitch(org.id)}
+                >
+                  <span className="flex-1 truncate">{org.name}</span>
+                  {org.id === organization.id && <Check className="size-4" />}
+                </DropdownMenuItem>
+              ))}
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onClick={() => setIsCreateDialogOpen(true)}>
+                <Plus className="size-4" />
+                Create organisation
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </SidebarMenuItem>
+      </SidebarMenu>
+
+      <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+        <DialogContent className="sm:max-w-[425px]">
+          <form onSubmit={handleCreate} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>Create Organisation</DialogTitle>
+              <DialogDescription>
+                You will be its admin and can invite your team afterwards.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2">
+              <Label htmlFor="organization-name">Name</Label>
+              <Input
+                id="organization-name"
+                name="name"
+                required
+                minLength={2}
+                maxLength={100}
+              />
+            </div>
+            <DialogFooter>
+              <Button type="submit" disabled={isPending}>
+                {isPending ? "Creating..." : "Create"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -1,16 +1,24 @@
 "use client";
 
 import {
+  BellRing,
   Bookmark,
   BookOpen,
+  CalendarDays,
   CheckCircle,
+  ClipboardList,
   Command,
   Database,
+  FileLock2,
   FileText,
   Home,
+  Kanban,
+  ListChecks,
   Mail,
   Map,
   Monitor,
+  Radar,
+  ShieldCheck,
   TrendingUp,
   UserCheck,
   Users,
@@ -28,6 +36,14 @@ import {
   SidebarMenuButton,
   SidebarMenuItem,
 } from "@/components/ui/sidebar";
+import type { ActiveOrganization } from "@/lib/organization";
+import {
+  hasPermission,
+  type PermissionAction,
+  type PermissionResource,
+  type Permissions,
+} from "@/lib/permissions";
+import { OrganizationSwitcher } from "./organization-switcher";
 
 interface RoleBasedSidebarProps extends React.ComponentProps<typeof Sidebar> {
   user: {
@@ -36,29 +52,81 @@ interface RoleBasedSidebarProps extends React.ComponentProps<typeof Sidebar> {
     avatar: string;
     role: string;
   } | null;
+  organization?: ActiveOrganization;
+  organizations?: ActiveOrganization[];
+  // The member's permissions in the active organisation
+  permissions?: Permissions;
 }
 
-// Role-based navigation filtering
-const getNavigationItems = (userRole: string) => {
-  const baseItems = [{ title: "Back to Site", url: "/", icon: Home }];
+interface NavigationItem {
+  title: string;
+  url: string;
+  icon: React.ComponentType<any>;
+  // Hidden unless the member holds this permission
+  permission?: {
+    [R in PermissionResource]: [R, PermissionAction<R>];
+  }[PermissionResource];
+}
 
-  const roleSpecificItems: Record<
-    string,
-    Array<{ title: string; url: string; icon: React.ComponentType<any> }>
-  > = {
+// Role-based navigation filtering, narrowed by the member's permissions
+const getNavigationItems = (userRole: string, permissions?: Permissions) => {
+  const baseItems: NavigationItem[] = [
+    { title: "Back to Site", url: "/", icon: Home },
+  ];
+
+  const roleSpecificItems: Record<string, NavigationItem[]> = {
     admin: [
       { title: "Dashboard", url: "/admin", icon: Command },
       { title: "Monitoring", url: "/admin/monitoring", icon: Monitor },
-      { title: "Team", url: "/admin/team", icon: Users },
-      { title: "Provinces", url: "/admin/provinces", icon: Map },
-      { title: "Publishers", url: "/admin/publishers", icon: BookOpen },
-      { title: "Invitations", url: "/admin/invitations", icon: Mail },
+      {
+        title: "Team",
+        url: "/admin/team",
+        icon: Users,
+        permission: ["team", "read"],
+      },
+      {
+        title: "Provinces",
+        url: "/admin/provinces",
+        icon: Map,
+        permission: ["province", "update"],
+      },
+      {
+        title: "Publishers",
+        url: "/admin/publishers",
+        icon: BookOpen,
+        permission: ["publisher", "update"],
+      },
+      {
+        title: "Tenders",
+        url: "/admin/tenders",
+        icon: ClipboardList,
+        permission: ["tender", "update"],
+      },
+      { title: "Pipeline", url: "/dashboard/pipeline", icon: Kanban },
+      {
+        title: "Invitations",
+        url: "/admin/invitations",
+        icon: Mail,
+        permission: ["invitation", "read"],
+      },
       { title: "Database", url: "/admin/database", icon: Database },
-      { title: "Audit Logs", url: "/admin/audit-logs", icon: FileText },
+      {
+        title: "Audit Logs",
+        url: "/admin/audit-logs",
+        icon: FileText,
+        permission: ["auditLog", "read"],
+      },
+      {
+        title: "Consent",
+        url: "/admin/consent",
+        icon: ShieldCheck,
+        permission: ["auditLog", "read"],
+      },
       {
         title: "Settings",
         url: "/admin/settings",
         icon: Command,
+        permission: ["settings", "read"],
       },
     ],
     manager: [
@@ -71,31 +139,72 @@ const getNavigationItems = (userRole: string) => {
         title: "Team",
         url: "/manager/team",
         icon: Users,
+        permission: ["team", "read"],
       },
       {
         title: "Approvals",
         url: "/manager/approvals",
         icon: CheckCircle,
+        permission: ["profileUpdate", "approve"],
+      },
+      {
+        title: "Erasure Requests",
+        url: "/manager/erasure-requests",
+        icon: FileLock2,
+        permission: ["dataErasure", "approve"],
       },
       {
         title: "Provinces",
         url: "/manager/provinces",
         icon: Map,
+        permission: ["province", "update"],
       },
       {
         title: "Publishers",
         url: "/manager/publishers",
         icon: BookOpen,
+        permission: ["publisher", "update"],
+      },
+      {
+        title: "Tenders",
+        url: "/manager/tenders",
+        icon: ClipboardList,
+        permission: ["tender", "update"],
+      },
+      {
+        title: "Pipeline",
+        url: "/dashboard/pipeline",
+        icon: Kanban,
       },
       {
         title: "Reports",
         url: "/manager/reports",
         icon: FileText,
+        permission: ["analytics", "view"],
+      },
+      {
+        title: "Coverage",
+        url: "/manager/coverage",
+        icon: Radar,
+        permission: ["coverage", "read"],
       },
     ],
     user: [
       { title: "Dashboard", url: "/dashboard", icon: Command },
       { title: "Publishers", url: "/dashboard/publishers", icon: BookOpen },
+      {
+        title: "My Publishers",
+        url: "/dashboard/my-publishers",
+        icon: ListChecks,
+      },
+      { title: "Tenders", url: "/dashboard/tenders", icon: ClipboardList },
+      {
+        title: "Saved Searches",
+        url: "/dashboard/saved-searches",
+        icon: BellRing,
+      },
+      { title: "Calendar", url: "/dashboard/calendar", icon: CalendarDays },
+      { title: "Pipeline", url: "/dashboard/pipeline", icon: Kanban },
       {
         title: "Most Visited",
         url: "/dashboard/most-visited",
@@ -105,7 +214,15 @@ const getNavigationItems = (userRole: string) => {
     ],
   };
 
-  return [...baseItems, ...(roleSpecificItems[userRole] || [])];
+  // Owners work in the admin area
+  const items = roleSpecificItems[userRole === "owner" ? "admin" : userRole];
+
+  return [...baseItems, ...(items || [])].filter(
+    (item) =>
+      !item.permission ||
+      !permissions ||
+      hasPermission(permissions, item.permission[0], item.permission[1]),
+  );
 };
 
 function RoleSpecificHeader({ role }: { role: string }) {
@@ -138,7 +255,7 @@ function RoleSpecificHeader({ role }: { role: string }) {
     },
   };
 
-  const header = headers[role] || headers.user;
+  const header = headers[role === "owner" ? "admin" : role] || headers.user;
 
   return (
     <SidebarMenu>
@@ -159,14 +276,26 @@ function RoleSpecificHeader({ role }: { role: string }) {
   );
 }
 
-export function RoleBasedSidebar({ user, ...props }: RoleBasedSidebarProps) {
+export function RoleBasedSidebar({
+  user,
+  organization,
+  organizations = [],
+  permissions,
+  ...props
+}: RoleBasedSidebarProps) {
   const userRole = user?.role || "user";
-  const navigationItems = getNavigationItems(userRole);
+  const navigationItems = getNavigationItems(userRole, permissions);
 
   return (
     <Sidebar variant="inset" {...props}>
       <SidebarHeader>
         <RoleSpecificHeader role={userRole} />
+        {organization && (
+          <OrganizationSwitcher
+            organization={organization}
+            organizations={organizations}
+          />
+        )}
       </SidebarHeader>
       <SidebarContent>
         <SidebarMenu>
@@ -9,7 +9,12 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip";
 import { cn } from "@/lib/utils";
-import { getVisitStats } from "@/lib/visit-utils";
+import {
+  formatPageChange,
+  getVisitStats,
+  hasChangedSinceVisit,
+  type PublisherPageChange,
+} from "@/lib/visit-utils";
 
 interface TableRowWithVisitsProps {
   /** The publisher data */
@@ -18,6 +23,8 @@ interface TableRowWithVisitsProps {
     name: string;
     website?: string | null;
     provinceName?: string | null;
+    /** Latest change detected on the publisher's page */
+    lastChange?: PublisherPageChange | null;
     [key: string]: any;
   };
   /** Column definitions */
@@ -91,6 +98,11 @@ export function TableRowWithVisits({
     };
   }, [publisherUrl, getAllVisits]);
 
+  const changedSinceVisit = hasChangedSinceVisit(
+    publisher.lastChange,
+    visitInfo.lastVisit,
+  );
+
   // Format last visit time for display
   const formatLastVisit = React.useCallback((date: Date): string => {
     const now = new Date();
@@ -114,9 +126,10 @@ export function TableRowWithVisits({
           "border-l-2 border-primary/30",
         ],
       !visitInfo.isVisited && "hover:bg-muted/50",
+      changedSinceVisit && "border-l-2 border-amber-500",
       className,
     );
-  }, [highlightVisited, visitInfo.isVisited, className]);
+  }, [highlightVisited, visitInfo.isVisited, changedSinceVisit, className]);
 
   // Generate tooltip content for the entire row
   const rowTooltipContent = React.useMemo(() => {
@@ -133,8 +146,20 @@ export function TableRowWithVisits({
       parts.push(formatLastVisit(visitInfo.lastVisit));
     }
 
+    if (changedSinceVisit && publisher.lastChange) {
+      parts.push(
+        `Changed since your last visit (${formatPageChange(publisher.lastChange)})`,
+      );
+    }
+
     return parts.join("\n");
-  }, [publisher.name, visitInfo, formatLastVisit]);
+  }, [
+    publisher.name,
+    publisher.lastChange,
+    visitInfo,
+    changedSinceVisit,
+    formatLastVisit,
+  ]);
 
   return (
     <Tooltip>
@@ -153,6 +178,7 @@ export function TableRowWithVisits({
                     publisherId={publisher.id}
                     publisherName={publisher.name}
                     size="sm"
+                    lastChange={publisher.lastChange}
                   />
                 )}
               </div>
@@ -168,6 +194,7 @@ export function TableRowWithVisits({
                   publisherName={publisher.name}
                   size="sm"
                   showDetails={true}
+                  lastChange={publisher.lastChange}
                 />
                 {visitInfo.lastVisit && (
                   <span className="text-xs text-muted-foreground">
@@ -0,0 +1,215 @@
+"use client";
+
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { useEffect, useMemo, useState, useTransition } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  getMemberCoverageOptions,
+  updateMemberCoverage,
+} from "@/server/coverage";
+import type { TeamMember } from "./TeamMemberTable";
+
+interface CoverageDialogProps {
+  member: TeamMember | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function toggle(set: Set<string>, id: string, checked: boolean) {
+  const next = new Set(set);
+  if (checked) next.add(id);
+  else next.delete(id);
+  return next;
+}
+
+export function CoverageDialog({
+  member,
+  open,
+  onOpenChange,
+}: CoverageDialogProps) {
+  const queryClient = useQueryClient();
+  const [isSaving, startTransition] = useTransition();
+  const [provinceIds, setProvinceIds] = useState<Set<string>>(new Set());
+  const [publisherIds, setPublisherIds] = useState<Set<string>>(new Set());
+  const [search, setSearch] = useState("");
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["member-coverage", member?.id],
+    queryFn: () => getMemberCoverageOptions(member?.id ?? ""),
+    enabled: open && !!member,
+  });
+
+  // Start from the member's current assignments
+  useEffect(() => {
+    if (!data) return;
+    setProvinceIds(new Set(data.coverage.provinceIds));
+    setPublisherIds(new Set(data.coverage.publisherIds));
+    setSearch("");
+  }, [data]);
+
+  const visiblePublishers = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return (data?.publishers ?? []).filter(
+      (publisher) => !term || publisher.name.toLowerCase().includes(term),
+    );
+  }, [data, search]);
+
+  const provinceNames = useMemo(
+    () =>
+      new Map(
+        (data?.provinces ?? []).map((province) => [province.id, province.name]),
+      ),
+    [data],
+  );
+
+  const handleSave = () => {
+    if (!member) return;
+
+    const formData = new FormData();
+    formData.set("userId", member.id);
+    for (const id of provinceIds) formData.append("provinceIds", id);
+    // Publishers already covered through their province need no row
+    for (const publisher of data?.publishers ?? []) {
+      if (
+        publisherIds.has(publisher.id) &&
+        !provinceIds.has(publisher.provinceId)
+      ) {
+        formData.append("publisherIds", publisher.id);
+      }
+    }
+
+    startTransition(async () => {
+      const result = await updateMemberCoverage({}, formData);
+      if (result?.error) {
+        toast.error(result.error);
+        return;
+      }
+      toast.success(`Coverage updated for ${member.name}`);
+      queryClient.invalidateQueries({
+        queryKey: ["member-coverage", member.id],
+      });
+      onOpenChange(false);
+    });
+  };
+
+  if (!member) return null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Coverage for {member.name}</DialogTitle>
+          <DialogDescription>
+            Assign whole provinces or individual publishers. Assignments replace
+            the member's current coverage.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !data ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="grid gap-6 md:grid-cols-[12rem_1fr]">
+            <div className="space-y-2">
+              <Label>Provinces</Label>
+              {data.provinces.map((province) => (
+                <div key={province.id} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`coverage-province-${province.id}`}
+                    checked={provinceIds.has(province.id)}
+                    onCheckedChange={(checked) =>
+                      setProvinceIds(
+                        toggle(provinceIds, province.id, checked === true),
+                      )
+                    }
+                  />
+                  <Label
+                    htmlFor={`coverage-province-${province.id}`}
+                    className="font-normal"
+                  >
+                    {province.name}
+                  </Label>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="coverage-search">Publishers</Label>
+              <Input
+                id="coverage-search"
+                placeholder="Search publishers"
+                value={search}
+                onChange={(event) => setSearch(event.target.value)}
+              />
+              <ScrollArea className="h-72 rounded-md border p-2">
+                {visiblePublishers.map((publisher) => {
+                  const viaProvince = provinceIds.has(publisher.provinceId);
+                  return (
+                    <div
+                      key={publisher.id}
+                      className="flex items-center gap-2 py-1"
+                    >
+                      <Checkbox
+                        id={`coverage-publisher-${publisher.id}`}
+                        checked={viaProvince || publisherIds.has(publisher.id)}
+                        disabled={viaProvince}
+                        onCheckedChange={(checked) =>
+                          setPublisherIds(
+                            toggle(
+                              publisherIds,
+                              publisher.id,
+                              checked === true,
+                            ),
+                          )
+                        }
+                      />
+                      <Label
+                        htmlFor={`coverage-publisher-${publisher.id}`}
+                        className="font-normal"
+                      >
+                        {publisher.name}
+                        <span className="ml-2 text-xs text-muted-foreground">
+                          {provinceNames.get(publisher.provinceId)}
+                        </span>
+                      </Label>
+                    </div>
+                  );
+                })}
+              </ScrollArea>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={isSaving}
+          >
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || !data}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Coverage
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -35,19 +35,32 @@ import type { TeamMember } from "./TeamMemberTable";
 const editMemberSchema = z.object({
   name: z.string().min(2, "Name must be at least 2 characters"),
   role: z.enum(["owner", "admin", "manager", "user"]).optional(),
+  // A custom role id, or NO_CUSTOM_ROLE to keep the built-in role
+  customRoleId: z.string().optional(),
   status: z.enum(["active", "suspended", "pending"]).optional(),
 });
 
+const NO_CUSTOM_ROLE = "none";
+
 type EditMemberForm = z.infer<typeof editMemberSchema>;
 
+export interface EditMemberData {
+  name: string;
+  role?: EditMemberForm["role"];
+  customRoleId?: string | null;
+  status?: EditMemberForm["status"];
+}
+
 interface EditMemberDialogProps {
   member: TeamMember | null;
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onSave: (memberId: string, data: EditMemberForm) => Promise<void>;
+  onSave: (memberId: string, data: EditMemberData) => Promise<void>;
   isSaving?: boolean;
   canEditRole?: boolean;
   canEditStatus?: boolean;
+  // Custom roles the member can be given; the field is hidden when empty
+  customRoles?: Array<{ id: string; name: string }>;
   availableRoles?: Array<{ value: string; label: string; description: string }>;
 }
 
@@ -59,6 +72,7 @@ export function EditMemberDialog({
   isSaving = false,
   canEditRole = false,
   canEditStatus = false,
+  customRoles = [],
   availableRoles = [
     {
       value: "user",
@@ -84,9 +98,11 @@ export function EditMemberDialog({
     defaultValues: {
       name: "",
       role: undefined,
+      customRoleId: undefined,
       status: undefined,
     },
   });
+  const canAssignCustomRole = customRoles.length > 0;
 
   // Update form when member changes
   useEffect(() => {
@@ -94,17 +110,32 @@ export function EditMemberDialog({
       form.reset({
         name: member.name,
         role: canEditRole ? member.role : undefined,
+        customRoleId: canAssignCustomRole
+          ? (member.customRoleId ?? NO_CUSTOM_ROLE)
+          : undefined,
         status: canEditStatus ? member.status : undefined,
       });
     }
-  }, [member, canEditRole, canEditStatus, form.reset]);
+  }, [member, canEditRole, canEditStatus, canAssignCustomRole, form.reset]);
 
   const onSubmit = async (data: EditMemberForm) => {
     if (!member) return;
 
+    const { customRoleId, role, ...changes } = data;
+    const update: EditMemberData = { ...changes };
+    // Only send role changes the user made, so a custom role is not
+    // replaced by resubmitting its base role
+    if (role !== member.role) update.role = role;
+    if (customRoleId !== undefined) {
+      const selected = customRoleId === NO_CUSTOM_ROLE ? null : customRoleId;
+      if (selected !== (member.customRoleId ?? null)) {
+        update.customRoleId = selected;
+      }
+    }
+
     try {
       setError(null);
-      await onSave(member.id, data);
+      await onSave(member.id, update);
       onOpenChange(false);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to update member");
@@ -169,6 +200,36 @@ export function EditMemberDialog({
               />
             )}
 
+            {canAssignCustomRole && (
+              <FormField
+                control={form.control}
+                name="customRoleId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Custom Role</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select a custom role" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={NO_CUSTOM_ROLE}>
+                          None (built-in role permissions)
+                        </SelectItem>
+                        {customRoles.map((role) => (
+                          <SelectItem key={role.id} value={role.id}>
+                            {role.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
             {canEditStatus && (
               <FormField
                 control={form.control}
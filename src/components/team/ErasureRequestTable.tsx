@@ -0,0 +1,255 @@
+"use client";
+
+import { format } from "date-fns";
+import { Loader2 } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { useState, useTransition } from "react";
+import { toast } from "sonner";
+import { ConfirmDialog } from "@/components/team/ConfirmDialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import type { ErasureRequestStatus } from "@/lib/validations/personal-data";
+import { reviewErasureRequest } from "@/server/personal-data";
+
+export interface ErasureRequestRow {
+  id: string;
+  userId: string;
+  userName: string;
+  userEmail: string;
+  memberRole: string | null;
+  reason: string | null;
+  status: string;
+  requestedAt: Date;
+  reviewedAt: Date | null;
+  rejectionReason: string | null;
+  summary: unknown;
+  completedAt: Date | null;
+}
+
+const STATUS_LABELS: Record<ErasureRequestStatus, string> = {
+  pending: "Pending",
+  approved: "Incomplete",
+  completed: "Erased",
+  rejected: "Rejected",
+  cancelled: "Cancelled",
+};
+
+const STATUS_VARIANTS: Record<
+  ErasureRequestStatus,
+  "default" | "secondary" | "destructive" | "outline"
+> = {
+  pending: "default",
+  approved: "destructive",
+  completed: "secondary",
+  rejected: "outline",
+  cancelled: "outline",
+};
+
+function rowsTouched(summary: unknown) {
+  if (!summary || typeof summary !== "object") return 0;
+  return Object.values(summary as Record<string, number>).reduce(
+    (total, count) => total + count,
+    0,
+  );
+}
+
+interface ErasureRequestTableProps {
+  requests: ErasureRequestRow[];
+  currentUserId: string;
+}
+
+export function ErasureRequestTable({
+  requests,
+  currentUserId,
+}: ErasureRequestTableProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [approving, setApproving] = useState<ErasureRequestRow | null>(null);
+  const [rejecting, setRejecting] = useState<ErasureRequestRow | null>(null);
+  const [rejectionReason, setRejectionReason] = useState("");
+
+  const review = (
+    request: ErasureRequestRow,
+    action: "approve" | "reject",
+    reason?: string,
+  ) => {
+    startTransition(async () => {
+      const result = await reviewErasureRequest({
+        requestId: request.id,
+        action,
+        reason,
+      });
+      if (result.error) {
+        toast.error(result.error);
+        router.refresh();
+        return;
+      }
+      toast.success(
+        action === "approve"
+          ? `${request.userName}'s data has been erased`
+          : "Erasure request rejected",
+      );
+      setApproving(null);
+      setRejecting(null);
+      setRejectionReason("");
+      router.refresh();
+    });
+  };
+
+  if (requests.length === 0) {
+    return (
+      <p className="py-6 text-center text-sm text-muted-foreground">
+        No erasure requests yet.
+      </p>
+    );
+  }
+
+  return (
+    <>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Member</TableHead>
+            <TableHead>Reason</TableHead>
+            <TableHead>Requested</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead className="text-right">Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {requests.map((request) => {
+            const status = request.status as ErasureRequestStatus;
+            const canReview =
+              request.userId !== currentUserId &&
+              (status === "pending" || status === "approved");
+
+            return (
+              <TableRow key={request.id}>
+                <TableCell>
+                  <div className="font-medium">{request.userName}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {request.userEmail}
+                  </div>
+                </TableCell>
+                <TableCell className="max-w-xs text-sm text-muted-foreground">
+                  {request.reason || "—"}
+                </TableCell>
+                <TableCell className="text-sm text-muted-foreground">
+                  {format(request.requestedAt, "d MMM yyyy")}
+                </TableCell>
+                <TableCell>
+                  <Badge
+                    variant={STATUS_VARIANTS[status] ?? "outline"}
+                    title={request.rejectionReason ?? undefined}
+                  >
+                    {STATUS_LABELS[status] ?? request.status}
+                  </Badge>
+                  {status === "completed" && request.completedAt && (
+                    <div className="mt-1 text-xs text-muted-foreground">
+                      {format(request.completedAt, "d MMM yyyy")},{" "}
+                      {rowsTouched(request.summary)} rows
+                    </div>
+                  )}
+                </TableCell>
+                <TableCell>
+                  {canReview && (
+                    <div className="flex justify-end gap-2">
+                      {status === "pending" && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={isPending}
+                          onClick={() => setRejecting(request)}
+                        >
+                          Reject
+                        </Button>
+                      )}
+                      <Button
+                        variant="destructive"
+                        size="sm"
+                        disabled={isPending}
+                        onClick={() => setApproving(request)}
+                      >
+                        {status === "pending" ? "Approve" : "Retry"}
+                      </Button>
+                    </div>
+                  )}
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+
+      <ConfirmDialog
+        open={!!approving}
+        onOpenChange={(open) => !open && setApproving(null)}
+        title={`Erase ${approving?.userName ?? "member"}'s data?`}
+        description="Their account is closed and anonymised, personal records are deleted and analytics are kept without any link to them. This cannot be undone."
+        confirmText="Erase Data"
+        variant="destructive"
+        isLoading={isPending}
+        onConfirm={() => approving && review(approving, "approve")}
+      />
+
+      <Dialog
+        open={!!rejecting}
+        onOpenChange={(open) => !open && setRejecting(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject Erasure Request</DialogTitle>
+            <DialogDescription>
+              {rejecting?.userName} sees this reason on their account page.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="erasure-rejection-reason">Reason</Label>
+            <Textarea
+              id="erasure-rejection-reason"
+              value={rejectionReason}
+              maxLength={500}
+              onChange={(event) => setRejectionReason(event.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setRejecting(null)}
+              disabled={isPending}
+            >
+              Cancel
+            </Button>
+            <Button
+              disabled={isPending || !rejectionReason.trim()}
+              onClick={() =>
+                rejecting && review(rejecting, "reject", rejectionReason)
+              }
+            >
+              {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Reject Request
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -51,7 +51,11 @@ export interface TeamMember {
   name: string;
   email: string;
   role: "owner" | "admin" | "manager" | "user";
+  // Custom role held in the organisation, if any
+  customRoleId?: string | null;
+  customRoleName?: string | null;
   status: "active" | "suspended" | "pending";
+  twoFactorEnabled?: boolean | null;
   invitedBy?: string | null;
   invitedAt?: Date | null;
   createdAt: Date;
@@ -67,10 +71,12 @@ interface TeamMemberTableProps {
   onSuspendMember?: (member: TeamMember) => void;
   onActivateMember?: (member: TeamMember) => void;
   onDeleteMember?: (member: TeamMember) => void;
+  onEditCoverage?: (member: TeamMember) => void;
   canInvite?: boolean;
   canEdit?: boolean;
   canSuspend?: boolean;
   canDelete?: boolean;
+  canResetTwoFactor?: (member: TeamMember) => boolean;
   showAnalytics?: boolean;
   enablePolling?: boolean; // New prop to enable/disable polling
   onOptimisticUpdate?: (memberId: string, data: Partial<TeamMember>) => void; // Callback for optimistic updates
@@ -86,10 +92,12 @@ export function TeamMemberTable({
   onSuspendMember,
   onActivateMember,
   onDeleteMember,
+  onEditCoverage,
   canInvite = false,
   canEdit = false,
   canSuspend = false,
   canDelete = false,
+  canResetTwoFactor,
   showAnalytics = false,
   enablePolling = true,
   onOptimisticUpdate,
@@ -261,6 +269,32 @@ export function TeamMemberTable({
     },
   });
 
+  const resetTwoFactorMutation = useMutation({
+    mutationFn: async (memberId: string) => {
+      const response = await fetch(`/api/team/${memberId}/two-factor`, {
+        method: "DELETE",
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(
+          error.error || "Failed to reset two-factor authentication",
+        );
+      }
+      return response.json();
+    },
+    onError: (err) => {
+      toast.error(
+        err instanceof Error
+          ? err.message
+          : "Failed to reset two-factor authentication",
+      );
+    },
+    onSuccess: () => {
+      toast.success("Two-factor authentication reset");
+      queryClient.invalidateQueries({ queryKey: ["team-members"] });
+    },
+  });
+
   // Handle selection logic
   const handleSelectMember = (memberId: string, checked: boolean) => {
     const newSelected = new Set(selectedMembers);
@@ -788,6 +822,11 @@ export function TeamMemberTable({
                     <div className="flex items-center space-x-2">
                       {getRoleIcon(member.role)}
                       {getRoleBadge(member.role)}
+                      {member.customRoleName && (
+                        <Badge variant="secondary">
+                          {member.customRoleName}
+                        </Badge>
+                      )}
                     </div>
                   </TableCell>
                   <TableCell>{getStatusBadge(member.status)}</TableCell>
@@ -816,6 +855,13 @@ export function TeamMemberTable({
                             Edit Member
                           </DropdownMenuItem>
                         )}
+                        {onEditCoverage && (
+                          <DropdownMenuItem
+                            onClick={() => onEditCoverage(member)}
+                          >
+                            Edit Coverage
+                          </DropdownMenuItem>
+                        )}
                         {canSuspend && member.status === "active" && (
                           <DropdownMenuItem
                             onClick={() => {
@@ -842,6 +888,17 @@ export function TeamMemberTable({
                             Activate Member
                           </DropdownMenuItem>
                         )}
+                        {member.twoFactorEnabled &&
+                          canResetTwoFactor?.(member) && (
+                            <DropdownMenuItem
+                              onClick={() => {
+                                resetTwoFactorMutation.mutate(member.id);
+                              }}
+                              className="text-orange-600"
+                            >
+                              Reset 2FA
+                            </DropdownMenuItem>
+                          )}
                         {canDelete && (
                           <>
                             <DropdownMenuSeparator />
@@ -0,0 +1,293 @@
+import {
+  eachDayOfInterval,
+  format,
+  isSameDay,
+  isSameMonth,
+  isToday,
+} from "date-fns";
+import { Bookmark } from "lucide-react";
+import Link from "next/link";
+import { Badge } from "@/components/ui/badge";
+import type { CalendarView } from "@/lib/tender-deadline-schedule";
+import type { DeadlineTender } from "@/lib/tender-deadlines";
+import { cn } from "@/lib/utils";
+
+export interface DeadlineEvent {
+  key: string;
+  kind: "closing" | "briefing";
+  date: Date;
+  tender: DeadlineTender;
+}
+
+interface DeadlineCalendarProps {
+  view: CalendarView;
+  date: Date;
+  range: { from: Date; to: Date };
+  tenders: DeadlineTender[];
+}
+
+const WEEKDAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+// Events shown in a month cell before collapsing into "+N more"
+const MAX_MONTH_CELL_EVENTS = 3;
+
+/**
+ * Closing and briefing dates that fall inside the range, in date order.
+ */
+export function getDeadlineEvents(
+  tenders: DeadlineTender[],
+  range: { from: Date; to: Date },
+) {
+  const events: DeadlineEvent[] = [];
+  const inRange = (date: Date) => date >= range.from && date <= range.to;
+
+  for (const tender of tenders) {
+    const closingDate = new Date(tender.closingDate);
+    if (inRange(closingDate)) {
+      events.push({
+        key: `${tender.id}-closing`,
+        kind: "closing",
+        date: closingDate,
+        tender,
+      });
+    }
+    if (tender.briefingDate) {
+      const briefingDate = new Date(tender.briefingDate);
+      if (inRange(briefingDate)) {
+        events.push({
+          key: `${tender.id}-briefing`,
+          kind: "briefing",
+          date: briefingDate,
+          tender,
+        });
+      }
+    }
+  }
+
+  return events.sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+function EventItem({
+  event,
+  compact = false,
+}: {
+  event: DeadlineEvent;
+  compact?: boolean;
+}) {
+  const { tender } = event;
+  const label = `${event.kind === "closing" ? "Closes" : "Briefing"} ${format(event.date, "HH:mm")}`;
+
+  const content = (
+    <div
+      className={cn(
+        "rounded-md border-l-4 px-2 py-1 text-xs",
+        event.kind === "closing"
+          ? "border-l-destructive bg-destructive/10"
+          : "border-l-blue-500 bg-blue-500/10",
+      )}
+      title={`${tender.referenceNumber} – ${tender.title} (${tender.publisherName})`}
+    >
+      <div className="flex items-center gap-1 font-medium">
+        {!tender.trackedAt && (
+          <Bookmark className="h-3 w-3 shrink-0 text-muted-foreground" />
+        )}
+        <span className="truncate">
+          {compact ? tender.referenceNumber : tender.title}
+        </span>
+      </div>
+      <div className="text-muted-foreground">{label}</div>
+    </div>
+  );
+
+  return tender.sourceUrl ? (
+    <Link href={tender.sourceUrl} target="_blank" rel="noopener noreferrer">
+      {content}
+    </Link>
+  ) : (
+    content
+  );
+}
+
+function MonthView({
+  date,
+  range,
+  events,
+}: {
+  date: Date;
+  range: { from: Date; to: Date };
+  events: DeadlineEvent[];
+}) {
+  const days = eachDayOfInterval({ start: range.from, end: range.to });
+
+  return (
+    <div className="grid grid-cols-7 overflow-hidden rounded-md border">
+      {WEEKDAYS.map((weekday) => (
+        <div
+          key={weekday}
+          className="border-b bg-muted/50 p-2 text-center text-xs font-medium text-muted-foreground"
+        >
+          {weekday}
+        </div>
+      ))}
+      {days.map((day) => {
+        const dayEvents = events.filter((event) => isSameDay(event.date, day));
+        const hidden = dayEvents.length - MAX_MONTH_CELL_EVENTS;
+
+        return (
+          <div
+            key={day.toISOString()}
+            className={cn(
+              "min-h-[110px] space-y-1 border-b border-r p-1",
+              !isSameMonth(day, date) && "bg-muted/30 text-muted-foreground",
+            )}
+          >
+            <div
+              className={cn(
+                "flex h-6 w-6 items-center justify-center rounded-full text-xs",
+                isToday(day) && "bg-primary text-primary-foreground",
+              )}
+            >
+              {format(day, "d")}
+            </div>
+            {dayEvents.slice(0, MAX_MONTH_CELL_EVENTS).map((event) => (
+              <EventItem key={event.key} event={event} compact />
+            ))}
+            {hidden > 0 && (
+              <div className="px-2 text-xs text-muted-foreground">
+                +{hidden} more
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function WeekView({
+  range,
+  events,
+}: {
+  range: { from: Date; to: Date };
+  events: DeadlineEvent[];
+}) {
+  const days = eachDayOfInterval({ start: range.from, end: range.to });
+
+  return (
+    <div className="grid gap-2 md:grid-cols-7">
+      {days.map((day) => {
+        const dayEvents = events.filter((event) => isSameDay(event.date, day));
+
+        return (
+          <div
+            key={day.toISOString()}
+            className="space-y-2 rounded-md border p-2"
+          >
+            <div
+              className={cn(
+                "text-sm font-medium",
+                isToday(day) && "text-primary",
+              )}
+            >
+              {format(day, "EEE d MMM")}
+            </div>
+            {dayEvents.length === 0 ? (
+              <p className="text-xs text-muted-foreground">No deadlines</p>
+            ) : (
+              dayEvents.map((event) => (
+                <EventItem key={event.key} event={event} />
+              ))
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function AgendaView({ events }: { events: DeadlineEvent[] }) {
+  const days = new Map<string, DeadlineEvent[]>();
+  for (const event of events) {
+    const key = format(event.date, "yyyy-MM-dd");
+    days.set(key, [...(days.get(key) ?? []), event]);
+  }
+
+  if (days.size === 0) {
+    return (
+      <p className="py-12 text-center text-sm text-muted-foreground">
+        No closing dates or briefings in this period
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {[...days.entries()].map(([key, dayEvents]) => (
+        <div key={key} className="space-y-2">
+          <h3
+            className={cn(
+              "text-sm font-semibold",
+              isToday(dayEvents[0].date) && "text-primary",
+            )}
+          >
+            {format(dayEvents[0].date, "EEEE, d MMMM yyyy")}
+          </h3>
+          <div className="divide-y rounded-md border">
+            {dayEvents.map((event) => (
+              <div
+                key={event.key}
+                className="flex items-center justify-between gap-4 p-3"
+              >
+                <div className="min-w-0">
+                  <p className="truncate font-medium">{event.tender.title}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {event.tender.referenceNumber} ·{" "}
+                    {event.tender.publisherName}
+                    {event.kind === "briefing" &&
+                      event.tender.briefingVenue &&
+                      ` · ${event.tender.briefingVenue}`}
+                  </p>
+                </div>
+                <div className="flex shrink-0 items-center gap-2">
+                  {!event.tender.trackedAt && (
+                    <Badge variant="outline">Bookmarked publisher</Badge>
+                  )}
+                  <Badge
+                    variant={
+                      event.kind === "closing" ? "destructive" : "secondary"
+                    }
+                  >
+                    {event.kind === "closing" ? "Closes" : "Briefing"}{" "}
+                    {format(event.date, "HH:mm")}
+                  </Badge>
+                  {event.kind === "briefing" &&
+                    event.tender.briefingCompulsory && (
+                      <Badge variant="outline">Compulsory</Badge>
+                    )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function DeadlineCalendar({
+  view,
+  date,
+  range,
+  tenders,
+}: DeadlineCalendarProps) {
+  const events = getDeadlineEvents(tenders, range);
+
+  switch (view) {
+    case "week":
+      return <WeekView range={range} events={events} />;
+    case "agenda":
+      return <AgendaView events={events} />;
+    default:
+      return <MonthView date={date} range={range} events={events} />;
+  }
+}
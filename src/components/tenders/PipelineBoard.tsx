@@ -0,0 +1,533 @@
+"use client";
+
+import { format, formatDistanceToNow, isPast } from "date-fns";
+import {
+  CalendarClock,
+  Edit,
+  ExternalLink,
+  GripVertical,
+  Plus,
+  Trash2,
+  User,
+} from "lucide-react";
+import { useRouter } from "next/navigation";
+import { type DragEvent, useEffect, useState } from "react";
+import { toast } from "sonner";
+import PipelineItemForm from "@/components/tenders/PipelineItemForm";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import type { PipelineStage } from "@/db/schema";
+import { cn } from "@/lib/utils";
+import {
+  PIPELINE_REASON_SUGGESTIONS,
+  PIPELINE_STAGE_LABELS,
+  PIPELINE_STAGES,
+  requiresPipelineReason,
+} from "@/lib/validations/pipeline";
+import {
+  addTenderToPipeline,
+  type getPipelineBoard,
+  type getPipelineCandidates,
+  movePipelineItem,
+  removePipelineItem,
+  updatePipelineItem,
+} from "@/server/pipeline";
+
+type PipelineItem = Awaited<
+  ReturnType<typeof getPipelineBoard>
+>["items"][number];
+type PipelineCandidate = Awaited<
+  ReturnType<typeof getPipelineCandidates>
+>[number];
+
+interface PipelineBoardProps {
+  items: PipelineItem[];
+  candidates: PipelineCandidate[];
+  // Present for managers, who can reassign cards
+  owners?: { id: string; name: string }[];
+  teamView: boolean;
+}
+
+interface PendingMove {
+  item: PipelineItem;
+  stage: PipelineStage;
+}
+
+const STAGE_ACCENTS: Record<PipelineStage, string> = {
+  identified: "border-t-slate-400",
+  reviewing: "border-t-blue-500",
+  bid: "border-t-violet-500",
+  submitted: "border-t-amber-500",
+  won: "border-t-green-600",
+  lost: "border-t-red-500",
+  no_bid: "border-t-muted-foreground",
+};
+
+function DueDate({ label, date }: { label: string; date: Date | null }) {
+  if (!date) return null;
+  const overdue = isPast(date);
+
+  return (
+    <div
+      className={cn(
+        "flex items-center gap-1 text-xs",
+        overdue ? "text-destructive" : "text-muted-foreground",
+      )}
+      title={format(date, "d MMM yyyy, HH:mm")}
+    >
+      <CalendarClock className="h-3 w-3 shrink-0" />
+      {label} {formatDistanceToNow(date, { addSuffix: true })}
+    </div>
+  );
+}
+
+export function PipelineBoard({
+  items,
+  candidates,
+  owners,
+  teamView,
+}: PipelineBoardProps) {
+  const router = useRouter();
+  const [boardItems, setBoardItems] = useState(items);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropStage, setDropStage] = useState<PipelineStage | null>(null);
+  const [pendingMove, setPendingMove] = useState<PendingMove | null>(null);
+  const [reason, setReason] = useState("");
+  const [editingItem, setEditingItem] = useState<PipelineItem | null>(null);
+  const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
+  const [selectedTenderId, setSelectedTenderId] = useState("");
+
+  // Server data wins after every refresh
+  useEffect(() => setBoardItems(items), [items]);
+
+  const moveItem = async (
+    item: PipelineItem,
+    stage: PipelineStage,
+    outcomeReason = "",
+  ) => {
+    const previousStage = item.stage;
+    setBoardItems((current) =>
+      current.map((existing) =>
+        existing.id === item.id
+          ? { ...existing, stage, outcomeReason: outcomeReason || null }
+          : existing,
+      ),
+    );
+
+    const formData = new FormData();
+    formData.append("id", item.id);
+    formData.append("stage", stage);
+    formData.append("reason", outcomeReason);
+    const result = await movePipelineItem(formData);
+
+    if (result.error) {
+      setBoardItems((current) =>
+        current.map((existing) =>
+          existing.id === item.id
+            ? { ...existing, stage: previousStage }
+            : existing,
+        ),
+      );
+      toast.error(result.error);
+      return;
+    }
+    router.refresh();
+  };
+
+  const requestMove = (item: PipelineItem, stage: PipelineStage) => {
+    if (item.stage === stage) return;
+    if (requiresPipelineReason(stage)) {
+      setReason("");
+      setPendingMove({ item, stage });
+      return;
+    }
+    void moveItem(item, stage);
+  };
+
+  const handleDragStart = (event: DragEvent, item: PipelineItem) => {
+    event.dataTransfer.setData("text/plain", item.id);
+    event.dataTransfer.effectAllowed = "move";
+    setDraggedId(item.id);
+  };
+
+  const handleDragOver = (event: DragEvent, stage: PipelineStage) => {
+    event.preventDefault();
+    event.dataTransfer.dropEffect = "move";
+    setDropStage(stage);
+  };
+
+  const handleDrop = (event: DragEvent, stage: PipelineStage) => {
+    event.preventDefault();
+    const id = event.dataTransfer.getData("text/plain");
+    const item = boardItems.find((existing) => existing.id === id);
+    setDraggedId(null);
+    setDropStage(null);
+    if (item) requestMove(item, stage);
+  };
+
+  const handleConfirmMove = async () => {
+    if (!pendingMove) return;
+    if (!reason.trim()) {
+      toast.error("Please give a reason");
+      return;
+    }
+    const { item, stage } = pendingMove;
+    setPendingMove(null);
+    await moveItem(item, stage, reason.trim());
+  };
+
+  const handleAddTender = async () => {
+    if (!selectedTenderId) return;
+    const formData = new FormData();
+    formData.append("tenderId", selectedTenderId);
+    const result = await addTenderToPipeline({}, formData);
+
+    if (result.error) {
+      toast.error(result.error);
+      return;
+    }
+    toast.success("Tender added to the pipeline");
+    setSelectedTenderId("");
+    setIsAddDialogOpen(false);
+    router.refresh();
+  };
+
+  const handleUpdateItem = async (
+    prevState: Record<string, unknown>,
+    formData: FormData,
+  ) => {
+    const result = await updatePipelineItem(prevState, formData);
+    if (!result.error) {
+      setEditingItem(null);
+      router.refresh();
+    }
+    return result;
+  };
+
+  const handleRemoveItem = async (item: PipelineItem) => {
+    try {
+      const formData = new FormData();
+      formData.append("id", item.id);
+      await removePipelineItem(formData);
+      toast.success("Tender removed from the pipeline");
+      router.refresh();
+    } catch (error) {
+      console.error("Error removing pipeline card:", error);
+      toast.error("Failed to remove pipeline card");
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          {teamView
+            ? "Showing the whole team's pipeline."
+            : "Showing the tenders you own."}{" "}
+          Drag cards between stages, or use the stage menu on a card.
+        </p>
+        <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
+          <DialogTrigger asChild>
+            <Button>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Tender
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="sm:max-w-[520px]">
+            <DialogHeader>
+              <DialogTitle>Add a Tender</DialogTitle>
+              <DialogDescription>
+                Choose one of your tracked tenders. It starts in Identified with
+                you as the owner.
+              </DialogDescription>
+            </DialogHeader>
+            {candidates.length === 0 ? (
+              <p className="py-4 text-sm text-muted-foreground">
+                Track open tenders from the Tenders page to add them here.
+              </p>
+            ) : (
+              <Select
+                value={selectedTenderId}
+                onValueChange={setSelectedTenderId}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue placeholder="Select a tender" />
+                </SelectTrigger>
+                <SelectContent>
+                  {candidates.map((candidate) => (
+                    <SelectItem key={candidate.id} value={candidate.id}>
+                      {candidate.referenceNumber} – {candidate.title}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <DialogFooter>
+              <Button onClick={handleAddTender} disabled={!selectedTenderId}>
+                Add to Pipeline
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      <div className="flex gap-3 overflow-x-auto pb-4">
+        {PIPELINE_STAGES.map((stage) => {
+          const stageItems = boardItems.filter((item) => item.stage === stage);
+
+          return (
+            <section
+              key={stage}
+              aria-label={PIPELINE_STAGE_LABELS[stage]}
+              onDragOver={(event) => handleDragOver(event, stage)}
+              onDragLeave={() => setDropStage(null)}
+              onDrop={(event) => handleDrop(event, stage)}
+              className={cn(
+                "flex w-72 shrink-0 flex-col rounded-md border border-t-4 bg-muted/30",
+                STAGE_ACCENTS[stage],
+                dropStage === stage &&
+                  draggedId &&
+                  "bg-muted ring-2 ring-primary/40",
+              )}
+            >
+              <div className="flex items-center justify-between p-3">
+                <h2 className="text-sm font-semibold">
+                  {PIPELINE_STAGE_LABELS[stage]}
+                </h2>
+                <Badge variant="secondary">{stageItems.length}</Badge>
+              </div>
+              <div className="flex min-h-[120px] flex-1 flex-col gap-2 p-2 pt-0">
+                {stageItems.map((item) => (
+                  <article
+                    key={item.id}
+                    draggable
+                    onDragStart={(event) => handleDragStart(event, item)}
+                    onDragEnd={() => {
+                      setDraggedId(null);
+                      setDropStage(null);
+                    }}
+                    className={cn(
+                      "cursor-grab space-y-2 rounded-md border bg-background p-3 shadow-sm active:cursor-grabbing",
+                      draggedId === item.id && "opacity-50",
+                    )}
+                  >
+                    <div className="flex items-start gap-1">
+                      <GripVertical className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+                      <div className="min-w-0 flex-1">
+                        <p className="line-clamp-2 text-sm font-medium">
+                          {item.title}
+                        </p>
+                        <p className="truncate text-xs text-muted-foreground">
+                          {item.referenceNumber} · {item.publisherName}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="space-y-1">
+                      <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                        <User className="h-3 w-3 shrink-0" />
+                        {item.ownerName ?? "Unassigned"}
+                      </div>
+                      <DueDate label="Review" date={item.reviewDueDate} />
+                      <DueDate
+                        label="Submission"
+                        date={item.submissionDueDate}
+                      />
+                      <div className="text-xs text-muted-foreground">
+                        Closes {format(item.closingDate, "d MMM yyyy, HH:mm")}
+                      </div>
+                    </div>
+                    {item.outcomeReason && (
+                      <p className="rounded bg-muted px-2 py-1 text-xs">
+                        {item.outcomeReason}
+                      </p>
+                    )}
+                    <div className="flex items-center gap-1">
+                      <Select
+                        value={item.stage}
+                        onValueChange={(value) =>
+                          requestMove(item, value as PipelineStage)
+                        }
+                      >
+                        <SelectTrigger
+                          size="sm"
+                          className="h-7 flex-1 text-xs"
+                          aria-label="Stage"
+                        >
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {PIPELINE_STAGES.map((option) => (
+                            <SelectItem key={option} value={option}>
+                              {PIPELINE_STAGE_LABELS[option]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {item.sourceUrl && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          asChild
+                          title="Tender documents"
+                        >
+                          <a
+                            href={item.sourceUrl}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                          >
+                            <ExternalLink className="h-4 w-4" />
+                          </a>
+                        </Button>
+                      )}
+                      <Dialog
+                        open={editingItem?.id === item.id}
+                        onOpenChange={(open) =>
+                          setEditingItem(open ? item : null)
+                        }
+                      >
+                        <DialogTrigger asChild>
+                          <Button variant="ghost" size="sm" title="Edit card">
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                        </DialogTrigger>
+                        <DialogContent className="sm:max-w-[520px]">
+                          <DialogHeader>
+                            <DialogTitle>Edit Pipeline Card</DialogTitle>
+                            <DialogDescription>
+                              {item.referenceNumber} – {item.title}
+                            </DialogDescription>
+                          </DialogHeader>
+                          <PipelineItemForm
+                            item={item}
+                            owners={owners}
+                            action={handleUpdateItem}
+                          />
+                        </DialogContent>
+                      </Dialog>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Remove from pipeline"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>
+                              Remove from Pipeline
+                            </AlertDialogTitle>
+                            <AlertDialogDescription>
+                              Remove "{item.title}" from the board? Its stage
+                              history stays in the audit log.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction
+                              onClick={() => handleRemoveItem(item)}
+                              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                            >
+                              Remove
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </div>
+                  </article>
+                ))}
+              </div>
+            </section>
+          );
+        })}
+      </div>
+
+      <Dialog
+        open={pendingMove !== null}
+        onOpenChange={(open) => !open && setPendingMove(null)}
+      >
+        <DialogContent className="sm:max-w-[480px]">
+          <DialogHeader>
+            <DialogTitle>
+              {pendingMove?.stage === "no_bid"
+                ? "Why are we not bidding?"
+                : "Why did we lose?"}
+            </DialogTitle>
+            <DialogDescription>
+              {pendingMove?.item.referenceNumber} – {pendingMove?.item.title}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            {pendingMove && requiresPipelineReason(pendingMove.stage) && (
+              <div className="flex flex-wrap gap-2">
+                {PIPELINE_REASON_SUGGESTIONS[
+                  pendingMove.stage as keyof typeof PIPELINE_REASON_SUGGESTIONS
+                ].map((suggestion) => (
+                  <Button
+                    key={suggestion}
+                    type="button"
+                    variant={reason === suggestion ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => setReason(suggestion)}
+                  >
+                    {suggestion}
+                  </Button>
+                ))}
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="pipeline-reason">Reason</Label>
+              <Textarea
+                id="pipeline-reason"
+                rows={3}
+                value={reason}
+                onChange={(event) => setReason(event.target.value)}
+                placeholder="Pick a reason above or describe it"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPendingMove(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleConfirmMove}>
+              Move to{" "}
+              {pendingMove ? PIPELINE_STAGE_LABELS[pendingMove.stage] : ""}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
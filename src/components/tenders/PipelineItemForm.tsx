@@ -0,0 +1,184 @@
+"use client";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { format } from "date-fns";
+import { useForm } from "react-hook-form";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Spinner } from "@/components/ui/spinner";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  type PipelineItemFormData,
+  pipelineItemFormSchema,
+} from "@/lib/validations/pipeline";
+
+interface PipelineItemFormProps {
+  item: {
+    id: string;
+    ownerId: string | null;
+    reviewDueDate: Date | null;
+    submissionDueDate: Date | null;
+    notes: string | null;
+  };
+  // Team members the card can be assigned to; omitted for non-managers
+  owners?: { id: string; name: string }[];
+  action: (
+    prevState: Record<string, unknown>,
+    formData: FormData,
+  ) => Promise<{ error?: string; success?: boolean }>;
+}
+
+// Format a date for a datetime-local input (local time, minute precision)
+function toDateTimeLocal(value: Date | string | null | undefined) {
+  if (!value) return "";
+  return format(new Date(value), "yyyy-MM-dd'T'HH:mm");
+}
+
+export default function PipelineItemForm({
+  item,
+  owners,
+  action,
+}: PipelineItemFormProps) {
+  const form = useForm<PipelineItemFormData>({
+    resolver: zodResolver(pipelineItemFormSchema),
+    defaultValues: {
+      ownerId: item.ownerId ?? "",
+      reviewDueDate: toDateTimeLocal(item.reviewDueDate),
+      submissionDueDate: toDateTimeLocal(item.submissionDueDate),
+      notes: item.notes ?? "",
+    },
+  });
+
+  const onSubmit = async (data: PipelineItemFormData) => {
+    try {
+      const formData = new FormData();
+      formData.append("id", item.id);
+      formData.append("ownerId", data.ownerId || "");
+      formData.append(
+        "reviewDueDate",
+        data.reviewDueDate ? new Date(data.reviewDueDate).toISOString() : "",
+      );
+      formData.append(
+        "submissionDueDate",
+        data.submissionDueDate
+          ? new Date(data.submissionDueDate).toISOString()
+          : "",
+      );
+      formData.append("notes", data.notes?.trim() || "");
+
+      const result = await action({}, formData);
+
+      if (result?.error) {
+        toast.error(result.error);
+      } else {
+        toast.success("Pipeline card updated successfully");
+      }
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "An unexpected error occurred";
+      toast.error(errorMessage);
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        {owners && (
+          <FormField
+            control={form.control}
+            name="ownerId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Owner</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger className="w-full">
+                      <SelectValue placeholder="Select a team member" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {owners.map((owner) => (
+                      <SelectItem key={owner.id} value={owner.id}>
+                        {owner.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormDescription>
+                  The owner gets the tender's deadlines and reminders.
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+        <div className="grid gap-4 sm:grid-cols-2">
+          <FormField
+            control={form.control}
+            name="reviewDueDate"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Review Due</FormLabel>
+                <FormControl>
+                  <Input type="datetime-local" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="submissionDueDate"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Submission Due</FormLabel>
+                <FormControl>
+                  <Input type="datetime-local" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        <FormField
+          control={form.control}
+          name="notes"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Notes</FormLabel>
+              <FormControl>
+                <Textarea
+                  rows={4}
+                  placeholder="Bid strategy, partners, open questions..."
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" disabled={form.formState.isSubmitting}>
+          {form.formState.isSubmitting && <Spinner className="mr-2" />}
+          Update Card
+        </Button>
+      </form>
+    </Form>
+  );
+}
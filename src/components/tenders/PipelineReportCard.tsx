@@ -0,0 +1,86 @@
+import { format } from "date-fns";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import type {
+  PipelineReasonCount,
+  PipelineReport,
+} from "@/lib/pipeline-report";
+
+// Reasons listed per outcome before the rest are left out
+const MAX_REASONS = 5;
+
+function ReasonList({
+  title,
+  reasons,
+}: {
+  title: string;
+  reasons: PipelineReasonCount[];
+}) {
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-medium">{title}</h3>
+      {reasons.length === 0 ? (
+        <p className="text-sm text-muted-foreground">None recorded</p>
+      ) : (
+        <ul className="space-y-1">
+          {reasons.slice(0, MAX_REASONS).map((entry) => (
+            <li
+              key={entry.reason}
+              className="flex items-center justify-between gap-4 text-sm"
+            >
+              <span className="truncate">{entry.reason}</span>
+              <span className="shrink-0 text-muted-foreground">
+                {entry.count}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export function PipelineReportCard({ report }: { report: PipelineReport }) {
+  const stats = [
+    {
+      label: "Win rate",
+      value:
+        report.winRate === null ? "–" : `${Math.round(report.winRate * 100)}%`,
+    },
+    { label: "Won", value: report.won },
+    { label: "Lost", value: report.lost },
+    { label: "No-bid", value: report.noBid },
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Team Outcomes</CardTitle>
+        <CardDescription>
+          Stage changes since {format(report.since, "d MMMM yyyy")}, from the
+          audit log. Win rate counts won against lost bids.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-6 md:grid-cols-3">
+        <div className="grid grid-cols-2 gap-4">
+          {stats.map((stat) => (
+            <div key={stat.label}>
+              <p className="text-2xl font-bold">{stat.value}</p>
+              <p className="text-xs text-muted-foreground">{stat.label}</p>
+            </div>
+          ))}
+        </div>
+        <ReasonList
+          title="Reasons for not bidding"
+          reasons={report.declineReasons}
+        />
+        <ReasonList title="Reasons for losing" reasons={report.lossReasons} />
+      </CardContent>
+    </Card>
+  );
+}
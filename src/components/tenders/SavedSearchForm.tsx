@@ -0,0 +1,338 @@
+"use client";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Banknote, Search } from "lucide-react";
+import { useForm } from "react-hook-form";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  InputGroup,
+  InputGroupAddon,
+  InputGroupInput,
+} from "@/components/ui/input-group";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Spinner } from "@/components/ui/spinner";
+import { Switch } from "@/components/ui/switch";
+import type { SavedSearch } from "@/db/schema";
+import {
+  type SavedSearchFormData,
+  savedSearchDefaultValues,
+  savedSearchFormSchema,
+} from "@/lib/validations/saved-search";
+import {
+  TENDER_CATEGORIES,
+  type TenderCategory,
+  tenderCategoryLabels,
+} from "@/lib/validations/tender";
+
+interface SavedSearchFormProps {
+  search?: SavedSearch;
+  publishers: { id: string; name: string }[];
+  provinces: { id: string; name: string }[];
+  action: (
+    prevState: Record<string, unknown>,
+    formData: FormData,
+  ) => Promise<{ error?: string; success?: boolean }>;
+}
+
+interface CheckboxOptionProps {
+  id: string;
+  label: string;
+  checked: boolean;
+  onCheckedChange: (checked: boolean) => void;
+}
+
+function CheckboxOption({
+  id,
+  label,
+  checked,
+  onCheckedChange,
+}: CheckboxOptionProps) {
+  return (
+    <div className="flex items-center gap-2">
+      <Checkbox
+        id={id}
+        checked={checked}
+        onCheckedChange={(value) => onCheckedChange(value === true)}
+      />
+      <Label htmlFor={id} className="text-sm font-normal">
+        {label}
+      </Label>
+    </div>
+  );
+}
+
+function toggleValue<T extends string>(
+  values: T[],
+  value: T,
+  checked: boolean,
+) {
+  return checked
+    ? [...values, value]
+    : values.filter((existing) => existing !== value);
+}
+
+export default function SavedSearchForm({
+  search,
+  publishers,
+  provinces,
+  action,
+}: SavedSearchFormProps) {
+  const form = useForm<SavedSearchFormData>({
+    resolver: zodResolver(savedSearchFormSchema),
+    defaultValues: search
+      ? {
+          name: search.name,
+          keywords: search.keywords ?? "",
+          provinceIds: search.provinceIds,
+          publisherIds: search.publisherIds,
+          categories: search.categories as TenderCategory[],
+          minValue: search.minValue ?? "",
+          maxValue: search.maxValue ?? "",
+          alertsEnabled: search.alertsEnabled,
+        }
+      : savedSearchDefaultValues,
+  });
+
+  const onSubmit = async (data: SavedSearchFormData) => {
+    try {
+      const formData = new FormData();
+      formData.append("name", data.name.trim());
+      formData.append("keywords", data.keywords?.trim() || "");
+      for (const id of data.provinceIds) formData.append("provinceIds", id);
+      for (const id of data.publisherIds) formData.append("publisherIds", id);
+      for (const category of data.categories) {
+        formData.append("categories", category);
+      }
+      formData.append("minValue", data.minValue || "");
+      formData.append("maxValue", data.maxValue || "");
+      formData.append("alertsEnabled", String(data.alertsEnabled));
+      if (search?.id) formData.append("id", search.id);
+
+      const result = await action({}, formData);
+
+      if (result?.error) {
+        toast.error(result.error);
+      } else {
+        toast.success(
+          search
+            ? "Saved search updated successfully"
+            : "Search saved successfully",
+        );
+      }
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "An unexpected error occurred";
+      toast.error(errorMessage);
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Name</FormLabel>
+              <FormControl>
+                <InputGroup>
+                  <InputGroupAddon>
+                    <Search className="size-4" />
+                  </InputGroupAddon>
+                  <InputGroupInput
+                    placeholder="e.g. Gauteng construction"
+                    {...field}
+                  />
+                </InputGroup>
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="keywords"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Keywords</FormLabel>
+              <FormControl>
+                <InputGroup>
+                  <InputGroupInput placeholder="e.g. roads paving" {...field} />
+                </InputGroup>
+              </FormControl>
+              <FormDescription>
+                Every keyword must appear in the title, description or reference
+                number.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="categories"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Categories</FormLabel>
+              <div className="grid grid-cols-2 gap-2">
+                {TENDER_CATEGORIES.map((category) => (
+                  <CheckboxOption
+                    key={category}
+                    id={`saved-search-category-${category}`}
+                    label={tenderCategoryLabels[category]}
+                    checked={field.value.includes(category)}
+                    onCheckedChange={(checked) =>
+                      field.onChange(
+                        toggleValue(field.value, category, checked),
+                      )
+                    }
+                  />
+                ))}
+              </div>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="provinceIds"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Provinces</FormLabel>
+              <div className="grid grid-cols-2 gap-2">
+                {provinces.map((province) => (
+                  <CheckboxOption
+                    key={province.id}
+                    id={`saved-search-province-${province.id}`}
+                    label={province.name}
+                    checked={field.value.includes(province.id)}
+                    onCheckedChange={(checked) =>
+                      field.onChange(
+                        toggleValue(field.value, province.id, checked),
+                      )
+                    }
+                  />
+                ))}
+              </div>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="publisherIds"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Publishers</FormLabel>
+              <ScrollArea className="h-40 rounded-md border p-2">
+                <div className="space-y-2">
+                  {publishers.map((pub) => (
+                    <CheckboxOption
+                      key={pub.id}
+                      id={`saved-search-publisher-${pub.id}`}
+                      label={pub.name}
+                      checked={field.value.includes(pub.id)}
+                      onCheckedChange={(checked) =>
+                        field.onChange(
+                          toggleValue(field.value, pub.id, checked),
+                        )
+                      }
+                    />
+                  ))}
+                </div>
+              </ScrollArea>
+              <FormDescription>
+                Leave a list empty to match tenders from any of them.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <div className="grid gap-4 sm:grid-cols-2">
+          <FormField
+            control={form.control}
+            name="minValue"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Minimum Value (R)</FormLabel>
+                <FormControl>
+                  <InputGroup>
+                    <InputGroupAddon>
+                      <Banknote className="size-4" />
+                    </InputGroupAddon>
+                    <InputGroupInput
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      placeholder="Any"
+                      {...field}
+                    />
+                  </InputGroup>
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="maxValue"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Maximum Value (R)</FormLabel>
+                <FormControl>
+                  <InputGroup>
+                    <InputGroupAddon>
+                      <Banknote className="size-4" />
+                    </InputGroupAddon>
+                    <InputGroupInput
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      placeholder="Any"
+                      {...field}
+                    />
+                  </InputGroup>
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        <FormField
+          control={form.control}
+          name="alertsEnabled"
+          render={({ field }) => (
+            <FormItem className="flex flex-row items-center gap-2">
+              <FormControl>
+                <Switch
+                  checked={field.value}
+                  onCheckedChange={field.onChange}
+                />
+              </FormControl>
+              <FormLabel className="font-normal">
+                Email me when new tenders match this search
+              </FormLabel>
+            </FormItem>
+          )}
+        />
+        <Button type="submit" disabled={form.formState.isSubmitting}>
+          {form.formState.isSubmitting && <Spinner className="mr-2" />}
+          {search ? "Update" : "Save"} Search
+        </Button>
+      </form>
+    </Form>
+  );
+}
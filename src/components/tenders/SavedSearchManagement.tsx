@@ -0,0 +1,320 @@
+"use client";
+
+import { formatDistanceToNow } from "date-fns";
+import { Edit, ExternalLink, Plus, Trash2 } from "lucide-react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { toast } from "sonner";
+import SavedSearchForm from "@/components/tenders/SavedSearchForm";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { SavedSearch } from "@/db/schema";
+import {
+  type TenderCategory,
+  tenderCategoryLabels,
+} from "@/lib/validations/tender";
+import {
+  createSavedSearch,
+  deleteSavedSearch,
+  updateSavedSearch,
+} from "@/server/saved-search";
+
+interface SavedSearchManagementProps {
+  searches: SavedSearch[];
+  publishers: { id: string; name: string }[];
+  provinces: { id: string; name: string }[];
+}
+
+function formatAmount(value: string) {
+  return `R ${Number(value).toLocaleString("en-ZA")}`;
+}
+
+export function SavedSearchManagement({
+  searches,
+  publishers,
+  provinces,
+}: SavedSearchManagementProps) {
+  const router = useRouter();
+  const [editingSearch, setEditingSearch] = useState<SavedSearch | null>(null);
+  const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+
+  const provinceNames = new Map(provinces.map((p) => [p.id, p.name]));
+  const publisherNames = new Map(publishers.map((p) => [p.id, p.name]));
+
+  const describeCriteria = (search: SavedSearch) => {
+    const parts: string[] = [];
+    if (search.keywords) parts.push(`"${search.keywords}"`);
+    if (search.categories.length > 0) {
+      parts.push(
+        search.categories
+          .map(
+            (category) =>
+              tenderCategoryLabels[category as TenderCategory] ?? category,
+          )
+          .join(", "),
+      );
+    }
+    if (search.provinceIds.length > 0) {
+      parts.push(
+        search.provinceIds
+          .map((id) => provinceNames.get(id) ?? "Unknown province")
+          .join(", "),
+      );
+    }
+    if (search.publisherIds.length > 0) {
+      parts.push(
+        search.publisherIds
+          .map((id) => publisherNames.get(id) ?? "Unknown publisher")
+          .join(", "),
+      );
+    }
+    if (search.minValue && search.maxValue) {
+      parts.push(
+        `${formatAmount(search.minValue)} – ${formatAmount(search.maxValue)}`,
+      );
+    } else if (search.minValue) {
+      parts.push(`from ${formatAmount(search.minValue)}`);
+    } else if (search.maxValue) {
+      parts.push(`up to ${formatAmount(search.maxValue)}`);
+    }
+    return parts.length > 0 ? parts.join(" · ") : "All open tenders";
+  };
+
+  const handleCreateSearch = async (
+    prevState: Record<string, unknown>,
+    formData: FormData,
+  ) => {
+    const result = await createSavedSearch(prevState, formData);
+    if (!result.error) {
+      setIsCreateDialogOpen(false);
+      router.refresh();
+    }
+    return result;
+  };
+
+  const handleUpdateSearch = async (
+    prevState: Record<string, unknown>,
+    formData: FormData,
+  ) => {
+    const result = await updateSavedSearch(prevState, formData);
+    if (!result.error) {
+      setEditingSearch(null);
+      router.refresh();
+    }
+    return result;
+  };
+
+  const handleDeleteSearch = async (search: SavedSearch) => {
+    try {
+      const formData = new FormData();
+      formData.append("id", search.id);
+      await deleteSavedSearch(formData);
+      toast.success("Saved search deleted successfully");
+      router.refresh();
+    } catch (error) {
+      console.error("Error deleting saved search:", error);
+      toast.error("Failed to delete saved search");
+    }
+  };
+
+  return (
+    <div className="flex-1 space-y-4 p-4 pt-0">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Saved Searches</h1>
+          <p className="text-muted-foreground">
+            Get emailed when new tenders match what you are looking for
+          </p>
+        </div>
+        <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+          <DialogTrigger asChild>
+            <Button>
+              <Plus className="mr-2 h-4 w-4" />
+              New Search
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>Save a Search</DialogTitle>
+              <DialogDescription>
+                Choose the tenders you want to hear about.
+              </DialogDescription>
+            </DialogHeader>
+            <SavedSearchForm
+              publishers={publishers}
+              provinces={provinces}
+              action={handleCreateSearch}
+            />
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Your Searches</CardTitle>
+          <CardDescription>
+            How often alerts arrive follows your{" "}
+            <Link href="/account" className="text-primary hover:underline">
+              email preferences
+            </Link>
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {searches.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-12">
+              <div className="text-sm text-muted-foreground mb-4">
+                You have not saved any searches yet
+              </div>
+              <Button
+                variant="outline"
+                onClick={() => setIsCreateDialogOpen(true)}
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                New Search
+              </Button>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Search</TableHead>
+                  <TableHead className="w-[110px]">Alerts</TableHead>
+                  <TableHead className="w-[160px]">Created</TableHead>
+                  <TableHead className="w-[140px] text-right">
+                    Actions
+                  </TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {searches.map((search) => (
+                  <TableRow key={search.id}>
+                    <TableCell>
+                      <p className="font-medium">{search.name}</p>
+                      <p className="text-xs text-muted-foreground max-w-[420px] truncate">
+                        {describeCriteria(search)}
+                      </p>
+                    </TableCell>
+                    <TableCell>
+                      <Badge
+                        variant={search.alertsEnabled ? "default" : "outline"}
+                      >
+                        {search.alertsEnabled ? "On" : "Off"}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {formatDistanceToNow(new Date(search.createdAt), {
+                        addSuffix: true,
+                      })}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex items-center justify-end gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          asChild
+                          title="View matching tenders"
+                        >
+                          <Link href={`/dashboard/tenders?search=${search.id}`}>
+                            <ExternalLink className="h-4 w-4" />
+                          </Link>
+                        </Button>
+                        <Dialog
+                          open={editingSearch?.id === search.id}
+                          onOpenChange={(open) =>
+                            setEditingSearch(open ? search : null)
+                          }
+                        >
+                          <DialogTrigger asChild>
+                            <Button variant="outline" size="sm">
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                          </DialogTrigger>
+                          <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+                            <DialogHeader>
+                              <DialogTitle>Edit Saved Search</DialogTitle>
+                              <DialogDescription>
+                                Update the criteria or turn alerts on or off.
+                              </DialogDescription>
+                            </DialogHeader>
+                            <SavedSearchForm
+                              search={search}
+                              publishers={publishers}
+                              provinces={provinces}
+                              action={handleUpdateSearch}
+                            />
+                          </DialogContent>
+                        </Dialog>
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button variant="outline" size="sm">
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>
+                                Delete Saved Search
+                              </AlertDialogTitle>
+                              <AlertDialogDescription>
+                                Are you sure you want to delete "{search.name}
+                                "? You will stop receiving alerts for it.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction
+                                onClick={() => handleDeleteSearch(search)}
+                                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                              >
+                                Delete
+                              </AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
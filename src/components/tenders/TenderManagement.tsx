@@ -0,0 +1,355 @@
+"use client";
+
+import { format } from "date-fns";
+import { Edit, Plus, Rss, Search, Trash2 } from "lucide-react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useMemo, useState } from "react";
+import { toast } from "sonner";
+import TenderForm from "@/components/TenderForm";
+import { TenderStatusBadge } from "@/components/tenders/TenderStatusBadge";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { TenderStatus } from "@/db/schema";
+import { TENDER_STATUSES, tenderStatusLabels } from "@/lib/validations/tender";
+import {
+  createTender,
+  deleteTender,
+  type TenderListItem,
+  updateTender,
+} from "@/server/tender";
+
+interface TenderManagementProps {
+  tenders: TenderListItem[];
+  publishers: { id: string; name: string; province_id: string }[];
+  provinces: { id: string; name: string }[];
+  canDelete?: boolean;
+  // Admins manage automated ingestion sources
+  canManageSources?: boolean;
+}
+
+export function TenderManagement({
+  tenders,
+  publishers,
+  provinces,
+  canDelete = false,
+  canManageSources = false,
+}: TenderManagementProps) {
+  const router = useRouter();
+  const [searchTerm, setSearchTerm] = useState("");
+  const [statusFilter, setStatusFilter] = useState<TenderStatus | "all">("all");
+  const [editingTender, setEditingTender] = useState<TenderListItem | null>(
+    null,
+  );
+  const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+
+  const filteredTenders = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    return tenders.filter((tender) => {
+      if (statusFilter !== "all" && tender.status !== statusFilter) {
+        return false;
+      }
+      if (!term) return true;
+      return (
+        tender.title.toLowerCase().includes(term) ||
+        tender.referenceNumber.toLowerCase().includes(term) ||
+        tender.publisherName.toLowerCase().includes(term)
+      );
+    });
+  }, [tenders, searchTerm, statusFilter]);
+
+  const handleCreateTender = async (
+    prevState: Record<string, unknown>,
+    formData: FormData,
+  ) => {
+    const result = await createTender(prevState, formData);
+    if (!result.error) {
+      setIsCreateDialogOpen(false);
+      router.refresh();
+    }
+    return result;
+  };
+
+  const handleUpdateTender = async (
+    prevState: Record<string, unknown>,
+    formData: FormData,
+  ) => {
+    const result = await updateTender(prevState, formData);
+    if (!result.error) {
+      setEditingTender(null);
+      router.refresh();
+    }
+    return result;
+  };
+
+  const handleDeleteTender = async (tender: TenderListItem) => {
+    try {
+      const formData = new FormData();
+      formData.append("id", tender.id);
+      await deleteTender(formData);
+      toast.success("Tender deleted successfully");
+      router.refresh();
+    } catch (error) {
+      console.error("Error deleting tender:", error);
+      toast.error("Failed to delete tender");
+    }
+  };
+
+  return (
+    <div className="flex-1 space-y-4 p-4 pt-0">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold">Tender Management</h1>
+          <p className="text-muted-foreground">
+            Capture and maintain tenders issued by publishers
+          </p>
+        </div>
+        <div className="flex items-center gap-4">
+          <p className="text-sm text-muted-foreground">
+            {tenders.length} {tenders.length === 1 ? "tender" : "tenders"} total
+          </p>
+          {canManageSources && (
+            <Button variant="outline" asChild>
+              <Link href="/admin/tenders/sources">
+                <Rss className="mr-2 h-4 w-4" />
+                Sources
+              </Link>
+            </Button>
+          )}
+          <Dialog
+            open={isCreateDialogOpen}
+            onOpenChange={setIsCreateDialogOpen}
+          >
+            <DialogTrigger asChild>
+              <Button>
+                <Plus className="mr-2 h-4 w-4" />
+                Add Tender
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>Create Tender</DialogTitle>
+                <DialogDescription>
+                  Capture a tender published by one of the publishers.
+                </DialogDescription>
+              </DialogHeader>
+              <TenderForm
+                publishers={publishers}
+                provinces={provinces}
+                action={handleCreateTender}
+              />
+            </DialogContent>
+          </Dialog>
+        </div>
+      </div>
+
+      <Card className="bg-background">
+        <CardHeader className="space-y-4">
+          <div>
+            <CardTitle>Tenders</CardTitle>
+            <CardDescription>
+              All tenders ordered by closing date
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <div className="relative flex-1 max-w-sm">
+              <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search by title, reference or publisher..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-8 w-full"
+              />
+            </div>
+            <Select
+              value={statusFilter}
+              onValueChange={(value) =>
+                setStatusFilter(value as TenderStatus | "all")
+              }
+            >
+              <SelectTrigger className="w-[160px]">
+                <SelectValue placeholder="Status" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                {TENDER_STATUSES.map((status) => (
+                  <SelectItem key={status} value={status}>
+                    {tenderStatusLabels[status]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {filteredTenders.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-12">
+              <div className="text-sm text-muted-foreground mb-4">
+                {tenders.length > 0
+                  ? "No tenders found matching your filters"
+                  : "No tenders have been captured yet"}
+              </div>
+              <Button
+                variant="outline"
+                onClick={() => setIsCreateDialogOpen(true)}
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Add Tender
+              </Button>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-[140px]">Reference</TableHead>
+                  <TableHead>Title</TableHead>
+                  <TableHead className="w-[200px]">Publisher</TableHead>
+                  <TableHead className="w-[130px]">Province</TableHead>
+                  <TableHead className="w-[160px]">Closing</TableHead>
+                  <TableHead className="w-[100px]">Status</TableHead>
+                  <TableHead className="w-[100px] text-right">
+                    Actions
+                  </TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredTenders.map((tender) => (
+                  <TableRow key={tender.id}>
+                    <TableCell className="font-mono text-xs">
+                      {tender.referenceNumber}
+                    </TableCell>
+                    <TableCell className="font-medium">
+                      {tender.title}
+                      {tender.briefingDate && (
+                        <p className="text-xs text-muted-foreground">
+                          Briefing{" "}
+                          {format(new Date(tender.briefingDate), "PPp")}
+                          {tender.briefingCompulsory && " (compulsory)"}
+                        </p>
+                      )}
+                    </TableCell>
+                    <TableCell>{tender.publisherName}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">
+                        {tender.provinceName || "Unknown"}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      {format(new Date(tender.closingDate), "PPp")}
+                    </TableCell>
+                    <TableCell>
+                      <TenderStatusBadge status={tender.status} />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex items-center justify-end gap-2">
+                        <Dialog
+                          open={editingTender?.id === tender.id}
+                          onOpenChange={(open) =>
+                            setEditingTender(open ? tender : null)
+                          }
+                        >
+                          <DialogTrigger asChild>
+                            <Button variant="outline" size="sm">
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                          </DialogTrigger>
+                          <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+                            <DialogHeader>
+                              <DialogTitle>Edit Tender</DialogTitle>
+                              <DialogDescription>
+                                Update tender information.
+                              </DialogDescription>
+                            </DialogHeader>
+                            <TenderForm
+                              tender={tender}
+                              publishers={publishers}
+                              provinces={provinces}
+                              action={handleUpdateTender}
+                            />
+                          </DialogContent>
+                        </Dialog>
+
+                        {canDelete && (
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button variant="outline" size="sm">
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>
+                                  Delete Tender
+                                </AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  Are you sure you want to delete "
+                                  {tender.referenceNumber}"? This action cannot
+                                  be undone.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction
+                                  onClick={() => handleDeleteTender(tender)}
+                                  className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                                >
+                                  Delete
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
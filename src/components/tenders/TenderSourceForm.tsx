@@ -0,0 +1,255 @@
+"use client";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Link2, Rss } from "lucide-react";
+import { useForm } from "react-hook-form";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  InputGroup,
+  InputGroupAddon,
+  InputGroupInput,
+} from "@/components/ui/input-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Spinner } from "@/components/ui/spinner";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import type { TenderSourceType } from "@/db/schema";
+import {
+  TENDER_SOURCE_TYPES,
+  type TenderSourceFormInput,
+  tenderSourceConfigExamples,
+  tenderSourceDefaultValues,
+  tenderSourceFormInputSchema,
+  tenderSourceTypeLabels,
+} from "@/lib/validations/tender-source";
+
+interface TenderSourceFormSource {
+  id: string;
+  publisherId: string;
+  name: string;
+  type: TenderSourceType;
+  url: string;
+  config: unknown;
+  enabled: boolean;
+}
+
+interface TenderSourceFormProps {
+  source?: TenderSourceFormSource;
+  publishers: { id: string; name: string }[];
+  action: (
+    prevState: Record<string, unknown>,
+    formData: FormData,
+  ) => Promise<{ error?: string; success?: boolean }>;
+}
+
+export default function TenderSourceForm({
+  source,
+  publishers,
+  action,
+}: TenderSourceFormProps) {
+  const form = useForm<TenderSourceFormInput>({
+    resolver: zodResolver(tenderSourceFormInputSchema),
+    defaultValues: source
+      ? {
+          publisherId: source.publisherId,
+          name: source.name,
+          type: source.type,
+          url: source.url,
+          configText: JSON.stringify(source.config ?? {}, null, 2),
+          enabled: source.enabled,
+        }
+      : tenderSourceDefaultValues,
+  });
+
+  const selectedType = form.watch("type");
+
+  const onSubmit = async (data: TenderSourceFormInput) => {
+    try {
+      const formData = new FormData();
+      formData.append("publisherId", data.publisherId);
+      formData.append("name", data.name.trim());
+      formData.append("type", data.type);
+      formData.append("url", data.url.trim());
+      formData.append("config", data.configText || "{}");
+      formData.append("enabled", String(data.enabled));
+      if (source?.id) formData.append("id", source.id);
+
+      const result = await action({}, formData);
+
+      if (result?.error) {
+        toast.error(result.error);
+      } else {
+        toast.success(
+          source
+            ? "Tender source updated successfully"
+            : "Tender source created successfully",
+        );
+      }
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "An unexpected error occurred";
+      toast.error(errorMessage);
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <div className="grid gap-4 sm:grid-cols-2">
+          <FormField
+            control={form.control}
+            name="publisherId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Publisher</FormLabel>
+                <Select
+                  onValueChange={field.onChange}
+                  defaultValue={field.value}
+                >
+                  <FormControl>
+                    <SelectTrigger className="w-full">
+                      <SelectValue placeholder="Select a publisher" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {publishers.map((pub) => (
+                      <SelectItem key={pub.id} value={pub.id}>
+                        {pub.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="type"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Source Type</FormLabel>
+                <Select
+                  onValueChange={field.onChange}
+                  defaultValue={field.value}
+                >
+                  <FormControl>
+                    <SelectTrigger className="w-full">
+                      <SelectValue placeholder="Select a type" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {TENDER_SOURCE_TYPES.map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {tenderSourceTypeLabels[type]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Name</FormLabel>
+              <FormControl>
+                <InputGroup>
+                  <InputGroupAddon>
+                    <Rss className="size-4" />
+                  </InputGroupAddon>
+                  <InputGroupInput placeholder="e.g. Tenders page" {...field} />
+                </InputGroup>
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="url"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>URL</FormLabel>
+              <FormControl>
+                <InputGroup>
+                  <InputGroupAddon>
+                    <Link2 className="size-4" />
+                  </InputGroupAddon>
+                  <InputGroupInput
+                    placeholder="https://example.gov.za/tenders"
+                    {...field}
+                  />
+                </InputGroup>
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="configText"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Parser Configuration (JSON)</FormLabel>
+              <FormControl>
+                <Textarea
+                  className="font-mono text-xs"
+                  rows={10}
+                  placeholder={tenderSourceConfigExamples[selectedType]}
+                  {...field}
+                />
+              </FormControl>
+              <FormDescription>
+                Field mappings, selectors and patterns used to read tenders from
+                this source.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="enabled"
+          render={({ field }) => (
+            <FormItem className="flex flex-row items-center gap-2">
+              <FormControl>
+                <Switch
+                  checked={field.value}
+                  onCheckedChange={field.onChange}
+                />
+              </FormControl>
+              <FormLabel className="font-normal">
+                Include in scheduled ingestion runs
+              </FormLabel>
+            </FormItem>
+          )}
+        />
+        <Button type="submit" disabled={form.formState.isSubmitting}>
+          {form.formState.isSubmitting && <Spinner className="mr-2" />}
+          {source ? "Update" : "Create"} Source
+        </Button>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,329 @@
+"use client";
+
+import { formatDistanceToNow } from "date-fns";
+import { Edit, Play, Plus, Trash2 } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { toast } from "sonner";
+import TenderSourceForm from "@/components/tenders/TenderSourceForm";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { tenderSourceTypeLabels } from "@/lib/validations/tender-source";
+import {
+  createTenderSource,
+  deleteTenderSource,
+  runTenderSource,
+  type TenderSourceListItem,
+  updateTenderSource,
+} from "@/server/tender-source";
+
+interface TenderSourceManagementProps {
+  sources: TenderSourceListItem[];
+  publishers: { id: string; name: string }[];
+}
+
+const runStatusVariants: Record<
+  string,
+  "default" | "secondary" | "destructive" | "outline"
+> = {
+  success: "default",
+  partial: "secondary",
+  failed: "destructive",
+};
+
+export function TenderSourceManagement({
+  sources,
+  publishers,
+}: TenderSourceManagementProps) {
+  const router = useRouter();
+  const [editingSource, setEditingSource] =
+    useState<TenderSourceListItem | null>(null);
+  const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const [runningSourceId, setRunningSourceId] = useState<string | null>(null);
+
+  const handleCreateSource = async (
+    prevState: Record<string, unknown>,
+    formData: FormData,
+  ) => {
+    const result = await createTenderSource(prevState, formData);
+    if (!result.error) {
+      setIsCreateDialogOpen(false);
+      router.refresh();
+    }
+    return result;
+  };
+
+  const handleUpdateSource = async (
+    prevState: Record<string, unknown>,
+    formData: FormData,
+  ) => {
+    const result = await updateTenderSource(prevState, formData);
+    if (!result.error) {
+      setEditingSource(null);
+      router.refresh();
+    }
+    return result;
+  };
+
+  const handleDeleteSource = async (source: TenderSourceListItem) => {
+    try {
+      const formData = new FormData();
+      formData.append("id", source.id);
+      await deleteTenderSource(formData);
+      toast.success("Tender source deleted successfully");
+      router.refresh();
+    } catch (error) {
+      console.error("Error deleting tender source:", error);
+      toast.error("Failed to delete tender source");
+    }
+  };
+
+  const handleRunSource = async (source: TenderSourceListItem) => {
+    setRunningSourceId(source.id);
+    try {
+      const formData = new FormData();
+      formData.append("id", source.id);
+      const result = await runTenderSource(formData);
+
+      if ("error" in result) {
+        toast.error(result.error);
+      } else if (result.report) {
+        const { report } = result;
+        const summary = `Found ${report.found}, new ${report.created}, updated ${report.updated}, failed ${report.failed}`;
+        if (report.status === "failed") {
+          toast.error(report.errors[0] ?? "Ingestion failed");
+        } else {
+          toast.success(summary);
+        }
+      }
+      router.refresh();
+    } finally {
+      setRunningSourceId(null);
+    }
+  };
+
+  return (
+    <div className="flex-1 space-y-4 p-4 pt-0">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold">Tender Sources</h1>
+          <p className="text-muted-foreground">
+            Feeds and pages that tenders are ingested from automatically
+          </p>
+        </div>
+        <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+          <DialogTrigger asChild>
+            <Button>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Source
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>Create Tender Source</DialogTitle>
+              <DialogDescription>
+                Configure where and how to read a publisher's tenders.
+              </DialogDescription>
+            </DialogHeader>
+            <TenderSourceForm
+              publishers={publishers}
+              action={handleCreateSource}
+            />
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      <Card className="bg-background">
+        <CardHeader>
+          <CardTitle>Sources</CardTitle>
+          <CardDescription>
+            Enabled sources are processed by the scheduled ingestion job
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {sources.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-12">
+              <div className="text-sm text-muted-foreground mb-4">
+                No tender sources have been configured yet
+              </div>
+              <Button
+                variant="outline"
+                onClick={() => setIsCreateDialogOpen(true)}
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Add Source
+              </Button>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Source</TableHead>
+                  <TableHead className="w-[200px]">Publisher</TableHead>
+                  <TableHead className="w-[120px]">Type</TableHead>
+                  <TableHead className="w-[260px]">Last Run</TableHead>
+                  <TableHead className="w-[140px] text-right">
+                    Actions
+                  </TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sources.map((source) => (
+                  <TableRow key={source.id}>
+                    <TableCell>
+                      <p className="font-medium">
+                        {source.name}
+                        {!source.enabled && (
+                          <Badge variant="outline" className="ml-2">
+                            Disabled
+                          </Badge>
+                        )}
+                      </p>
+                      <p className="text-xs text-muted-foreground truncate max-w-[320px]">
+                        {source.url}
+                      </p>
+                    </TableCell>
+                    <TableCell>{source.publisherName}</TableCell>
+                    <TableCell>{tenderSourceTypeLabels[source.type]}</TableCell>
+                    <TableCell>
+                      {source.latestRun ? (
+                        <div className="space-y-1">
+                          <div className="flex items-center gap-2">
+                            <Badge
+                              variant={
+                                runStatusVariants[source.latestRun.status] ??
+                                "outline"
+                              }
+                            >
+                              {source.latestRun.status}
+                            </Badge>
+                            <span className="text-xs text-muted-foreground">
+                              {formatDistanceToNow(
+                                new Date(source.latestRun.startedAt),
+                                { addSuffix: true },
+                              )}
+                            </span>
+                          </div>
+                          <p className="text-xs text-muted-foreground">
+                            Found {source.latestRun.found} · new{" "}
+                            {source.latestRun.created} · updated{" "}
+                            {source.latestRun.updated} · failed{" "}
+                            {source.latestRun.failed}
+                          </p>
+                        </div>
+                      ) : (
+                        <span className="text-xs text-muted-foreground">
+                          Never run
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex items-center justify-end gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={runningSourceId !== null}
+                          onClick={() => handleRunSource(source)}
+                          title="Run now"
+                        >
+                          <Play className="h-4 w-4" />
+                        </Button>
+                        <Dialog
+                          open={editingSource?.id === source.id}
+                          onOpenChange={(open) =>
+                            setEditingSource(open ? source : null)
+                          }
+                        >
+                          <DialogTrigger asChild>
+                            <Button variant="outline" size="sm">
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                          </DialogTrigger>
+                          <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+                            <DialogHeader>
+                              <DialogTitle>Edit Tender Source</DialogTitle>
+                              <DialogDescription>
+                                Update the source location or parser settings.
+                              </DialogDescription>
+                            </DialogHeader>
+                            <TenderSourceForm
+                              source={source}
+                              publishers={publishers}
+                              action={handleUpdateSource}
+                            />
+                          </DialogContent>
+                        </Dialog>
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button variant="outline" size="sm">
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>
+                                Delete Tender Source
+                              </AlertDialogTitle>
+                              <AlertDialogDescription>
+                                Are you sure you want to delete "{source.name}
+                                "? Tenders already ingested are kept, but the
+                                run history is removed.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction
+                                onClick={() => handleDeleteSource(source)}
+                                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                              >
+                                Delete
+                              </AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,19 @@
+import { Badge } from "@/components/ui/badge";
+import type { TenderStatus } from "@/db/schema";
+import { tenderStatusLabels } from "@/lib/validations/tender";
+
+const statusVariants: Record<
+  TenderStatus,
+  "default" | "secondary" | "destructive" | "outline"
+> = {
+  open: "default",
+  closed: "secondary",
+  cancelled: "destructive",
+  awarded: "outline",
+};
+
+export function TenderStatusBadge({ status }: { status: TenderStatus }) {
+  return (
+    <Badge variant={statusVariants[status]}>{tenderStatusLabels[status]}</Badge>
+  );
+}
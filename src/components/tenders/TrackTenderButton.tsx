@@ -0,0 +1,59 @@
+"use client";
+
+import { CalendarCheck, CalendarPlus } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { useState, useTransition } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { toggleTenderTracking } from "@/server/tracked-tender";
+
+interface TrackTenderButtonProps {
+  tenderId: string;
+  tracked: boolean;
+}
+
+export function TrackTenderButton({
+  tenderId,
+  tracked: initialTracked,
+}: TrackTenderButtonProps) {
+  const router = useRouter();
+  const [tracked, setTracked] = useState(initialTracked);
+  const [isPending, startTransition] = useTransition();
+
+  const handleToggle = () => {
+    startTransition(async () => {
+      const formData = new FormData();
+      formData.append("tenderId", tenderId);
+      const result = await toggleTenderTracking(formData);
+
+      if ("error" in result) {
+        toast.error(result.error);
+        return;
+      }
+
+      setTracked(Boolean(result.tracked));
+      toast.success(
+        result.tracked
+          ? "Tender added to your deadline calendar"
+          : "Tender removed from your deadline calendar",
+      );
+      router.refresh();
+    });
+  };
+
+  return (
+    <Button
+      variant={tracked ? "secondary" : "outline"}
+      size="sm"
+      disabled={isPending}
+      onClick={handleToggle}
+      title={tracked ? "Stop tracking" : "Track closing date"}
+    >
+      {tracked ? (
+        <CalendarCheck className="h-4 w-4" />
+      ) : (
+        <CalendarPlus className="h-4 w-4" />
+      )}
+    </Button>
+  );
+}
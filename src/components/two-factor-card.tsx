@@ -0,0 +1,352 @@
+"use client";
+
+import { Copy, KeyRound, ShieldCheck, ShieldOff } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { useState, useTransition } from "react";
+import QRCode from "react-qr-code";
+import { toast } from "sonner";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import {
+  InputOTP,
+  InputOTPGroup,
+  InputOTPSlot,
+} from "@/components/ui/input-otp";
+import { Label } from "@/components/ui/label";
+import { authClient } from "@/lib/auth-client";
+
+type PasswordAction = "enable" | "disable" | "regenerate";
+
+const PASSWORD_ACTION_LABELS: Record<PasswordAction, string> = {
+  enable: "Set up two-factor authentication",
+  disable: "Turn off two-factor authentication",
+  regenerate: "Generate new recovery codes",
+};
+
+interface TwoFactorCardProps {
+  enabled: boolean;
+  // Required for the user's role, so it cannot be turned off
+  required: boolean;
+}
+
+function getTotpSecret(totpURI: string) {
+  try {
+    return new URL(totpURI).searchParams.get("secret") ?? "";
+  } catch {
+    return "";
+  }
+}
+
+export function TwoFactorCard({ enabled, required }: TwoFactorCardProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [passwordAction, setPasswordAction] = useState<PasswordAction | null>(
+    null,
+  );
+  const [password, setPassword] = useState("");
+  // Enrolment in progress: the secret is stored but not yet confirmed
+  const [totpURI, setTotpURI] = useState<string | null>(null);
+  const [code, setCode] = useState("");
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null);
+
+  const closePasswordDialog = () => {
+    setPasswordAction(null);
+    setPassword("");
+  };
+
+  const handlePasswordSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!passwordAction || !password) return;
+
+    startTransition(async () => {
+      if (passwordAction === "enable") {
+        const { data, error } = await authClient.twoFactor.enable({
+          password,
+        });
+        if (error || data?.method !== "totp") {
+          toast.error(error?.message || "Could not start setup");
+          return;
+        }
+        setTotpURI(data.totpURI);
+        setBackupCodes(data.backupCodes);
+        closePasswordDialog();
+        return;
+      }
+
+      if (passwordAction === "regenerate") {
+        const { data, error } = await authClient.twoFactor.generateBackupCodes({
+          password,
+        });
+        if (error || !data) {
+          toast.error(error?.message || "Could not generate recovery codes");
+          return;
+        }
+        setBackupCodes(data.backupCodes);
+        closePasswordDialog();
+        toast.success(
+          "New recovery codes generated. The old ones no longer work.",
+        );
+        return;
+      }
+
+      const { error } = await authClient.twoFactor.disable({ password });
+      if (error) {
+        toast.error(
+          error.message || "Could not turn off two-factor authentication",
+        );
+        return;
+      }
+      closePasswordDialog();
+      toast.success("Two-factor authentication turned off");
+      router.refresh();
+    });
+  };
+
+  const handleVerify = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (code.length !== 6) return;
+
+    startTransition(async () => {
+      const { error } = await authClient.twoFactor.verifyTotp({ code });
+      if (error) {
+        toast.error(error.message || "Invalid code");
+        setCode("");
+        return;
+      }
+      setTotpURI(null);
+      setCode("");
+      toast.success("Two-factor authentication turned on");
+      router.refresh();
+    });
+  };
+
+  const handleCopy = async (value: string, label: string) => {
+    try {
+      await navigator.clipboard.writeText(value);
+      toast.success(`${label} copied`);
+    } catch {
+      toast.error(`Could not copy the ${label.toLowerCase()}`);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          Two-factor authentication
+          <Badge variant={enabled ? "default" : "outline"}>
+            {enabled ? "On" : "Off"}
+          </Badge>
+        </CardTitle>
+        <CardDescription>
+          Ask for a code from an authenticator app, such as Google Authenticator
+          or 1Password, each time you sign in.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {required && !enabled && !totpURI && (
+          <Alert variant="destructive">
+            <AlertDescription>
+              Your role requires two-factor authentication. Set it up to
+              continue using Tender Hub.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {totpURI ? (
+          <form onSubmit={handleVerify} className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Scan the QR code with your authenticator app, or enter the key
+              manually, then enter the 6-digit code it shows.
+            </p>
+            <div className="flex flex-col items-start gap-4 sm:flex-row sm:items-center">
+              <div className="rounded-md border bg-white p-3">
+                <QRCode value={totpURI} size={160} />
+              </div>
+              <div className="space-y-2">
+                <Label>Setup key</Label>
+                <div className="flex gap-2">
+                  <Input
+                    readOnly
+                    value={getTotpSecret(totpURI)}
+                    className="font-mono text-xs"
+                    onFocus={(event) => event.currentTarget.select()}
+                  />
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="icon"
+                    onClick={() =>
+                      handleCopy(getTotpSecret(totpURI), "Setup key")
+                    }
+                  >
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Verification code</Label>
+              <InputOTP
+                maxLength={6}
+                value={code}
+                onChange={setCode}
+                disabled={isPending}
+              >
+                <InputOTPGroup>
+                  {[0, 1, 2, 3, 4, 5].map((index) => (
+                    <InputOTPSlot key={index} index={index} />
+                  ))}
+                </InputOTPGroup>
+              </InputOTP>
+            </div>
+            <div className="flex gap-2">
+              <Button type="submit" disabled={isPending || code.length !== 6}>
+                Verify and turn on
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                disabled={isPending}
+                onClick={() => {
+                  setTotpURI(null);
+                  setBackupCodes(null);
+                  setCode("");
+                }}
+              >
+                Cancel
+              </Button>
+            </div>
+          </form>
+        ) : enabled ? (
+          <div className="flex flex-wrap gap-2">
+            <Button
+              variant="outline"
+              disabled={isPending}
+              onClick={() => setPasswordAction("regenerate")}
+            >
+              <KeyRound className="mr-2 h-4 w-4" />
+              New recovery codes
+            </Button>
+            {!required && (
+              <Button
+                variant="outline"
+                disabled={isPending}
+                onClick={() => setPasswordAction("disable")}
+              >
+                <ShieldOff className="mr-2 h-4 w-4" />
+                Turn off
+              </Button>
+            )}
+          </div>
+        ) : (
+          <Button
+            disabled={isPending}
+            onClick={() => setPasswordAction("enable")}
+          >
+            <ShieldCheck className="mr-2 h-4 w-4" />
+            Set up two-factor authentication
+          </Button>
+        )}
+
+        {backupCodes && (
+          <div className="space-y-2 rounded-md border p-4">
+            <div className="flex items-center justify-between">
+              <Label>Recovery codes</Label>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() =>
+                  handleCopy(backupCodes.join("\n"), "Recovery codes")
+                }
+              >
+                <Copy className="mr-2 h-4 w-4" />
+                Copy
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Store these somewhere safe. Each code signs you in once if you
+              lose access to your authenticator app. They will not be shown
+              again.
+            </p>
+            <div className="grid grid-cols-2 gap-1 font-mono text-sm">
+              {backupCodes.map((backupCode) => (
+                <span key={backupCode}>{backupCode}</span>
+              ))}
+            </div>
+            {!totpURI && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setBackupCodes(null)}
+              >
+                I have saved my codes
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog
+        open={passwordAction !== null}
+        onOpenChange={(open) => !open && closePasswordDialog()}
+      >
+        <DialogContent>
+          <form onSubmit={handlePasswordSubmit} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>
+                {passwordAction && PASSWORD_ACTION_LABELS[passwordAction]}
+              </DialogTitle>
+              <DialogDescription>
+                Enter your password to continue.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2">
+              <Label htmlFor="two-factor-password">Password</Label>
+              <Input
+                id="two-factor-password"
+                type="password"
+                autoComplete="current-password"
+                value={password}
+                onChange={(event) => setPassword(event.target.value)}
+                disabled={isPending}
+                required
+              />
+            </div>
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={closePasswordDialog}
+                disabled={isPending}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isPending || !password}>
+                Continue
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
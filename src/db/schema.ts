@@ -1,8 +1,12 @@
 // src/db/schema.ts
+import { type SQL, sql } from "drizzle-orm";
 import {
+  type AnyPgColumn,
   bigint,
   boolean,
+  customType,
   decimal,
+  doublePrecision,
   index,
   integer,
   jsonb,
@@ -10,6 +14,8 @@ import {
   pgTable,
   text,
   timestamp,
+  unique,
+  uniqueIndex,
   uuid,
   varchar,
 } from "drizzle-orm/pg-core";
@@ -23,6 +29,13 @@ export const userStatusEnum = pgEnum("user_status", [
 
 export const role = pgEnum("role", ["owner", "admin", "manager", "user"]);
 
+// Postgres full-text search document
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return "tsvector";
+  },
+});
+
 export const user = pgTable(
   "user",
   {
@@ -39,6 +52,15 @@ export const user = pgTable(
     status: userStatusEnum("status").default("active"),
     invitedBy: text("invited_by").references((): any => user.id),
     invitedAt: timestamp("invited_at"),
+    // Organisation the user is currently working in
+    activeOrganizationId: uuid("active_organization_id").references(
+      (): AnyPgColumn => organization.id,
+      { onDelete: "set null" },
+    ),
+    // Failed sign-ins since the last success or lockout
+    failedLoginAttempts: integer("failed_login_attempts").default(0).notNull(),
+    lockedUntil: timestamp("locked_until"),
+    twoFactorEnabled: boolean("two_factor_enabled").default(false),
     createdAt: timestamp("created_at").defaultNow().notNull(),
     updatedAt: timestamp("updated_at")
       .defaultNow()
@@ -52,6 +74,93 @@ export const user = pgTable(
   }),
 );
 
+/**
+ * Organizations Table
+ * A workspace for one firm. Bookmarks, pipelines, invitations, audit logs
+ * and settings belong to an organisation; publishers and tenders are a
+ * shared catalogue.
+ */
+export const organization = pgTable("organization", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  name: text("name").notNull(),
+  slug: text("slug").notNull().unique(),
+  createdBy: text("created_by").references(() => user.id, {
+    onDelete: "set null",
+  }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at")
+    .defaultNow()
+    .$onUpdate(() => new Date())
+    .notNull(),
+});
+
+/**
+ * Custom Roles Table
+ * Roles an organisation defines on top of the built-in ones, e.g. "Bid
+ * Coordinator". `permissions` maps resources in `appStatement` to granted
+ * actions; `base_role` decides which area of the app members work in.
+ */
+export const customRole = pgTable(
+  "custom_role",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    organizationId: uuid("organization_id")
+      .notNull()
+      .references(() => organization.id, { onDelete: "cascade" }),
+    name: text("name").notNull(),
+    description: text("description"),
+    baseRole: role("base_role").default("user").notNull(),
+    permissions: jsonb("permissions")
+      .$type<Record<string, string[]>>()
+      .default({})
+      .notNull(),
+    createdBy: text("created_by").references(() => user.id, {
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (table) => ({
+    organizationNameIdx: uniqueIndex("custom_role_organization_name_idx").on(
+      table.organizationId,
+      table.name,
+    ),
+  }),
+);
+
+/**
+ * Organization Members Table
+ * A user's membership of an organisation and their role in it. The role
+ * here, not `user.role`, decides what the user may do in that workspace.
+ * A custom role replaces the built-in role's permissions.
+ */
+export const organizationMember = pgTable(
+  "organization_member",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    organizationId: uuid("organization_id")
+      .notNull()
+      .references(() => organization.id, { onDelete: "cascade" }),
+    userId: text("user_id")
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+    role: role("role").default("user").notNull(),
+    customRoleId: uuid("custom_role_id").references(() => customRole.id, {
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    organizationUserIdx: uniqueIndex(
+      "organization_member_organization_user_idx",
+    ).on(table.organizationId, table.userId),
+    userIdx: index("organization_member_user_idx").on(table.userId),
+  }),
+);
+
 export const session = pgTable("session", {
   id: text("id").primaryKey(),
   expiresAt: timestamp("expires_at").notNull(),
@@ -100,6 +209,31 @@ export const verification = pgTable("verification", {
     .notNull(),
 });
 
+/**
+ * Two Factor Table
+ * TOTP secrets and recovery codes for the Better Auth two-factor
+ * plugin. Both are encrypted by Better Auth before they are stored.
+ */
+export const twoFactor = pgTable(
+  "two_factor",
+  {
+    id: text("id").primaryKey(),
+    secret: text("secret").notNull(),
+    backupCodes: text("backup_codes").notNull(),
+    userId: text("user_id")
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+    // False until the first code from the authenticator app is confirmed
+    verified: boolean("verified").default(true),
+    failedVerificationCount: integer("failed_verification_count").default(0),
+    lockedUntil: timestamp("locked_until"),
+  },
+  (table) => ({
+    userIdx: index("two_factor_user_idx").on(table.userId),
+    secretIdx: index("two_factor_secret_idx").on(table.secret),
+  }),
+);
+
 /**
  * Provinces Table
  * Stores a list of provinces (e.g. Gauteng, Mpumalanga).
@@ -112,6 +246,14 @@ export const provinces = pgTable("provinces", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Kind of organisation issuing tenders
+export const publisherCategoryEnum = pgEnum("publisher_category", [
+  "government",
+  "municipal",
+  "provincial",
+  "private",
+]);
+
 /**
  * Publishers Table
  * Each publisher belongs to one province.
@@ -125,10 +267,449 @@ export const publishers = pgTable(
     province_id: uuid("province_id")
       .notNull()
       .references(() => provinces.id, { onDelete: "restrict" }),
+    category: publisherCategoryEnum("category"),
+    description: text("description"),
+    // Free-form labels, stored lowercase, e.g. "infrastructure"
+    tags: jsonb("tags").$type<string[]>().default([]).notNull(),
+    contactName: text("contact_name"),
+    contactEmail: text("contact_email"),
+    contactPhone: text("contact_phone"),
+    // Where the publisher lists its tenders, when not on the main website
+    procurementPortalUrl: text("procurement_portal_url"),
+    logoUrl: text("logo_url"),
+    // Maintained by Postgres, names rank above descriptions
+    searchVector: tsvector("search_vector").generatedAlwaysAs(
+      (): SQL =>
+        sql`setweight(to_tsvector('english', coalesce(${publishers.name}, '')), 'A') || setweight(to_tsvector('english', coalesce(${publishers.description}, '')), 'B')`,
+    ),
     createdAt: timestamp("created_at").defaultNow().notNull(),
   },
   (table) => ({
     provinceIdx: index("publishers_province_idx").on(table.province_id),
+    categoryIdx: index("publishers_category_idx").on(table.category),
+    searchIdx: index("publishers_search_idx").using("gin", table.searchVector),
+  }),
+);
+
+// How a tender source is fetched and parsed
+export const tenderSourceTypeEnum = pgEnum("tender_source_type", [
+  "rss",
+  "atom",
+  "json",
+  "html",
+]);
+
+/**
+ * Tender Sources Table
+ * Per-publisher configuration for automated tender ingestion.
+ * `config` holds the parser settings (field paths, CSS selectors, patterns).
+ */
+export const tenderSources = pgTable(
+  "tender_sources",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    publisherId: uuid("publisher_id")
+      .notNull()
+      .references(() => publishers.id, { onDelete: "cascade" }),
+    name: text("name").notNull(),
+    type: tenderSourceTypeEnum("type").notNull(),
+    url: text("url").notNull(),
+    config: jsonb("config").default({}).notNull(),
+    enabled: boolean("enabled").default(true).notNull(),
+    lastRunAt: timestamp("last_run_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (table) => ({
+    publisherIdx: index("tender_sources_publisher_idx").on(table.publisherId),
+    enabledIdx: index("tender_sources_enabled_idx").on(table.enabled),
+  }),
+);
+
+/**
+ * Tender Ingestion Runs Table
+ * One row per source per ingestion run with the run report.
+ */
+export const tenderIngestionRuns = pgTable(
+  "tender_ingestion_runs",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    sourceId: uuid("source_id")
+      .notNull()
+      .references(() => tenderSources.id, { onDelete: "cascade" }),
+    status: text("status").notNull(), // success, partial, failed
+    found: integer("found").default(0).notNull(),
+    created: integer("created").default(0).notNull(),
+    updated: integer("updated").default(0).notNull(),
+    failed: integer("failed").default(0).notNull(),
+    errors: jsonb("errors"), // Per-item and fetch errors
+    startedAt: timestamp("started_at").notNull(),
+    completedAt: timestamp("completed_at"),
+  },
+  (table) => ({
+    sourceIdx: index("tender_ingestion_runs_source_idx").on(table.sourceId),
+    startedAtIdx: index("tender_ingestion_runs_started_at_idx").on(
+      table.startedAt,
+    ),
+  }),
+);
+
+/**
+ * Publisher Link Checks Table
+ * History of website health checks, one row per publisher per run.
+ * `redirectUrl` is the final URL when the website redirected elsewhere.
+ */
+export const publisherLinkChecks = pgTable(
+  "publisher_link_checks",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    publisherId: uuid("publisher_id")
+      .notNull()
+      .references(() => publishers.id, { onDelete: "cascade" }),
+    url: text("url").notNull(),
+    ok: boolean("ok").notNull(),
+    statusCode: integer("status_code"),
+    redirectUrl: text("redirect_url"),
+    responseTimeMs: integer("response_time_ms"),
+    tlsExpiresAt: timestamp("tls_expires_at"),
+    error: text("error"),
+    checkedAt: timestamp("checked_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    publisherCheckedAtIdx: index("publisher_link_checks_publisher_idx").on(
+      table.publisherId,
+      table.checkedAt,
+    ),
+  }),
+);
+
+/**
+ * Publisher Link Status Table
+ * Current website health per publisher. A publisher is broken once
+ * `consecutiveFailures` reaches the configured threshold; `brokenSince`
+ * is cleared by the next successful check.
+ */
+export const publisherLinkStatus = pgTable("publisher_link_status", {
+  publisherId: uuid("publisher_id")
+    .primaryKey()
+    .references(() => publishers.id, { onDelete: "cascade" }),
+  consecutiveFailures: integer("consecutive_failures").default(0).notNull(),
+  brokenSince: timestamp("broken_since"),
+  lastCheckedAt: timestamp("last_checked_at").notNull(),
+  lastStatusCode: integer("last_status_code"),
+  lastError: text("last_error"),
+  tlsExpiresAt: timestamp("tls_expires_at"),
+});
+
+/**
+ * Publisher Snapshots Table
+ * Normalised text of a publisher's tender page. A row is added only when
+ * the text hash changes; `diff` holds the lines added and removed since
+ * the previous snapshot and is null for the first one. `lastSeenAt` is
+ * bumped whenever a check finds the same text again.
+ */
+export const publisherSnapshots = pgTable(
+  "publisher_snapshots",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    publisherId: uuid("publisher_id")
+      .notNull()
+      .references(() => publishers.id, { onDelete: "cascade" }),
+    url: text("url").notNull(),
+    contentHash: text("content_hash").notNull(), // SHA-256 of `content`
+    content: text("content").notNull(),
+    diff: jsonb("diff").$type<{ added: string[]; removed: string[] }>(),
+    addedLines: integer("added_lines").default(0).notNull(),
+    removedLines: integer("removed_lines").default(0).notNull(),
+    capturedAt: timestamp("captured_at").defaultNow().notNull(),
+    lastSeenAt: timestamp("last_seen_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    publisherCapturedAtIdx: index("publisher_snapshots_publisher_idx").on(
+      table.publisherId,
+      table.capturedAt,
+    ),
+  }),
+);
+
+// Tender lifecycle status
+export const tenderStatusEnum = pgEnum("tender_status", [
+  "open",
+  "closed",
+  "cancelled",
+  "awarded",
+]);
+
+/**
+ * Tenders Table
+ * Each tender is issued by one publisher and belongs to one province.
+ * Reference numbers are unique per publisher.
+ */
+export const tenders = pgTable(
+  "tenders",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    referenceNumber: text("reference_number").notNull(),
+    title: text("title").notNull(),
+    description: text("description"),
+    closingDate: timestamp("closing_date").notNull(),
+    briefingDate: timestamp("briefing_date"),
+    briefingVenue: text("briefing_venue"),
+    briefingCompulsory: boolean("briefing_compulsory").default(false).notNull(),
+    publisherId: uuid("publisher_id")
+      .notNull()
+      .references(() => publishers.id, { onDelete: "cascade" }),
+    provinceId: uuid("province_id")
+      .notNull()
+      .references(() => provinces.id, { onDelete: "restrict" }),
+    status: tenderStatusEnum("status").default("open").notNull(),
+    category: text("category"), // Procurement category, e.g. construction
+    estimatedValue: decimal("estimated_value", { precision: 15, scale: 2 }),
+    sourceUrl: text("source_url"),
+    // Maintained by Postgres, titles and references rank above descriptions
+    searchVector: tsvector("search_vector").generatedAlwaysAs(
+      (): SQL =>
+        sql`setweight(to_tsvector('english', coalesce(${tenders.title}, '') || ' ' || coalesce(${tenders.referenceNumber}, '')), 'A') || setweight(to_tsvector('english', coalesce(${tenders.description}, '')), 'B')`,
+    ),
+    sourceId: uuid("source_id").references(() => tenderSources.id, {
+      onDelete: "set null",
+    }),
+    createdBy: text("created_by").references(() => user.id, {
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (table) => ({
+    publisherIdx: index("tenders_publisher_idx").on(table.publisherId),
+    provinceIdx: index("tenders_province_idx").on(table.provinceId),
+    statusIdx: index("tenders_status_idx").on(table.status),
+    closingDateIdx: index("tenders_closing_date_idx").on(table.closingDate),
+    categoryIdx: index("tenders_category_idx").on(table.category),
+    createdAtIdx: index("tenders_created_at_idx").on(table.createdAt),
+    searchIdx: index("tenders_search_idx").using("gin", table.searchVector),
+    publisherReferenceIdx: uniqueIndex("tenders_publisher_reference_idx").on(
+      table.publisherId,
+      table.referenceNumber,
+    ),
+  }),
+);
+
+/**
+ * Saved Searches Table
+ * Tender search criteria saved by a user. New tenders matching a saved
+ * search are emailed according to the user's email preferences.
+ */
+export const savedSearches = pgTable(
+  "saved_searches",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    userId: text("user_id")
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+    name: text("name").notNull(),
+    keywords: text("keywords"),
+    provinceIds: jsonb("province_ids").$type<string[]>().default([]).notNull(),
+    publisherIds: jsonb("publisher_ids")
+      .$type<string[]>()
+      .default([])
+      .notNull(),
+    categories: jsonb("categories").$type<string[]>().default([]).notNull(),
+    minValue: decimal("min_value", { precision: 15, scale: 2 }),
+    maxValue: decimal("max_value", { precision: 15, scale: 2 }),
+    alertsEnabled: boolean("alerts_enabled").default(true).notNull(),
+    lastMatchedAt: timestamp("last_matched_at"), // Tenders created before this were already matched
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (table) => ({
+    userIdx: index("saved_searches_user_idx").on(table.userId),
+  }),
+);
+
+/**
+ * Saved Search Matches Table
+ * Tenders matched by a saved search; `notifiedAt` is set once the match
+ * has been included in an alert email so it is never sent twice.
+ */
+export const savedSearchMatches = pgTable(
+  "saved_search_matches",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    savedSearchId: uuid("saved_search_id")
+      .notNull()
+      .references(() => savedSearches.id, { onDelete: "cascade" }),
+    tenderId: uuid("tender_id")
+      .notNull()
+      .references(() => tenders.id, { onDelete: "cascade" }),
+    matchedAt: timestamp("matched_at").defaultNow().notNull(),
+    notifiedAt: timestamp("notified_at"),
+  },
+  (table) => ({
+    searchTenderIdx: uniqueIndex("saved_search_matches_search_tender_idx").on(
+      table.savedSearchId,
+      table.tenderId,
+    ),
+    notifiedAtIdx: index("saved_search_matches_notified_at_idx").on(
+      table.notifiedAt,
+    ),
+  }),
+);
+
+/**
+ * Tracked Tenders Table
+ * Tenders a user is following. Their closing dates appear on the user's
+ * deadline calendar and trigger closing-date reminder emails.
+ */
+export const trackedTenders = pgTable(
+  "tracked_tenders",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    userId: text("user_id")
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+    tenderId: uuid("tender_id")
+      .notNull()
+      .references(() => tenders.id, { onDelete: "cascade" }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    userTenderIdx: uniqueIndex("tracked_tenders_user_tender_idx").on(
+      table.userId,
+      table.tenderId,
+    ),
+    tenderIdx: index("tracked_tenders_tender_idx").on(table.tenderId),
+  }),
+);
+
+/**
+ * Calendar Feed Tokens Table
+ * Secret token in a user's iCalendar subscription URL. Deleting the row
+ * revokes the feed; a user has at most one active token.
+ */
+export const calendarFeedTokens = pgTable(
+  "calendar_feed_tokens",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    userId: text("user_id")
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" })
+      .unique(),
+    token: text("token").notNull().unique(),
+    lastAccessedAt: timestamp("last_accessed_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    tokenIdx: index("calendar_feed_tokens_token_idx").on(table.token),
+  }),
+);
+
+// Bid/no-bid pipeline stages, in board order
+export const pipelineStageEnum = pgEnum("pipeline_stage", [
+  "identified",
+  "reviewing",
+  "bid",
+  "submitted",
+  "won",
+  "lost",
+  "no_bid",
+]);
+
+/**
+ * Tender Pipeline Table
+ * A tender's card on an organisation's bid/no-bid board. Each tender is on
+ * a board at most once; stage changes are recorded in the audit log.
+ */
+export const tenderPipeline = pgTable(
+  "tender_pipeline",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    organizationId: uuid("organization_id")
+      .notNull()
+      .references(() => organization.id, { onDelete: "cascade" }),
+    tenderId: uuid("tender_id")
+      .notNull()
+      .references(() => tenders.id, { onDelete: "cascade" }),
+    stage: pipelineStageEnum("stage").default("identified").notNull(),
+    ownerId: text("owner_id").references(() => user.id, {
+      onDelete: "set null",
+    }),
+    // Internal deadlines ahead of the tender's own closing date
+    reviewDueDate: timestamp("review_due_date"),
+    submissionDueDate: timestamp("submission_due_date"),
+    notes: text("notes"),
+    // Why the tender was declined or lost
+    outcomeReason: text("outcome_reason"),
+    stageChangedAt: timestamp("stage_changed_at").defaultNow().notNull(),
+    createdBy: text("created_by").references(() => user.id, {
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (table) => ({
+    organizationTenderIdx: uniqueIndex(
+      "tender_pipeline_organization_tender_idx",
+    ).on(table.organizationId, table.tenderId),
+    stageIdx: index("tender_pipeline_stage_idx").on(table.stage),
+    ownerIdx: index("tender_pipeline_owner_idx").on(table.ownerId),
+  }),
+);
+
+/**
+ * Coverage Assignments Table
+ * Publishers a member is responsible for monitoring, assigned one by one
+ * or a whole province at a time. Each row sets exactly one of
+ * publisherId and provinceId.
+ */
+export const coverageAssignments = pgTable(
+  "coverage_assignments",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    organizationId: uuid("organization_id")
+      .notNull()
+      .references(() => organization.id, { onDelete: "cascade" }),
+    userId: text("user_id")
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+    publisherId: uuid("publisher_id").references(() => publishers.id, {
+      onDelete: "cascade",
+    }),
+    provinceId: uuid("province_id").references(() => provinces.id, {
+      onDelete: "cascade",
+    }),
+    assignedBy: text("assigned_by").references(() => user.id, {
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    organizationUserIdx: index("coverage_assignments_organization_user_idx").on(
+      table.organizationId,
+      table.userId,
+    ),
+    userPublisherIdx: uniqueIndex("coverage_assignments_user_publisher_idx").on(
+      table.organizationId,
+      table.userId,
+      table.publisherId,
+    ),
+    userProvinceIdx: uniqueIndex("coverage_assignments_user_province_idx").on(
+      table.organizationId,
+      table.userId,
+      table.provinceId,
+    ),
   }),
 );
 
@@ -143,6 +724,9 @@ export const userBookmarks = pgTable(
     userId: text("user_id")
       .notNull()
       .references(() => user.id, { onDelete: "cascade" }),
+    organizationId: uuid("organization_id")
+      .notNull()
+      .references(() => organization.id, { onDelete: "cascade" }),
     publisherId: uuid("publisher_id")
       .notNull()
       .references(() => publishers.id, { onDelete: "cascade" }),
@@ -150,6 +734,9 @@ export const userBookmarks = pgTable(
   },
   (table) => ({
     userIdx: index("user_bookmarks_user_idx").on(table.userId),
+    organizationIdx: index("user_bookmarks_organization_idx").on(
+      table.organizationId,
+    ),
     publisherIdx: index("user_bookmarks_publisher_idx").on(table.publisherId),
     uniqueBookmark: index("user_bookmarks_unique_idx").on(
       table.userId,
@@ -180,6 +767,10 @@ export const invitation = pgTable(
     inviterId: text("inviter_id")
       .notNull()
       .references(() => user.id, { onDelete: "cascade" }),
+    // Organisation the invitee joins, with `role` as their role there
+    organizationId: uuid("organization_id")
+      .notNull()
+      .references(() => organization.id, { onDelete: "cascade" }),
     // Enhanced tracking fields
     sentAt: timestamp("sent_at"),
     openedAt: timestamp("opened_at"),
@@ -206,6 +797,9 @@ export const invitation = pgTable(
     emailIdx: index("invitation_email_idx").on(table.email),
     statusIdx: index("invitation_status_idx").on(table.status),
     inviterIdx: index("invitation_inviter_idx").on(table.inviterId),
+    organizationIdx: index("invitation_organization_idx").on(
+      table.organizationId,
+    ),
     createdAtIdx: index("invitation_created_at_idx").on(table.createdAt),
     expiresAtIdx: index("invitation_expires_at_idx").on(table.expiresAt),
   }),
@@ -404,6 +998,27 @@ export const analyticsCache = pgTable(
   }),
 );
 
+// Cache invalidations broadcast between app instances when the shared
+// Postgres cache backend is enabled; each instance polls for new rows
+export const cacheInvalidations = pgTable(
+  "cache_invalidations",
+  {
+    id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+    cacheName: text("cache_name").notNull(),
+    // Keys to drop, or a pattern to match them; neither clears the cache
+    keys: jsonb("keys").$type<string[]>(),
+    pattern: text("pattern"),
+    // Instance that published it, which skips its own invalidations
+    origin: text("origin").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    createdAtIdx: index("cache_invalidations_created_at_idx").on(
+      table.createdAt,
+    ),
+  }),
+);
+
 // GDPR compliance tracking
 export const userConsent = pgTable(
   "user_consent",
@@ -455,6 +1070,33 @@ export const retentionPolicies = pgTable(
   }),
 );
 
+// One execution of a retention policy, including dry runs
+export const retentionPolicyRuns = pgTable(
+  "retention_policy_runs",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    policyId: uuid("policy_id")
+      .notNull()
+      .references(() => retentionPolicies.id, { onDelete: "cascade" }),
+    status: text("status").notNull(), // success, dry_run, failed
+    matched: integer("matched").default(0).notNull(), // rows past the cutoff
+    deleted: integer("deleted").default(0).notNull(),
+    cutoff: timestamp("cutoff").notNull(),
+    error: text("error"),
+    triggeredBy: text("triggered_by").references(() => user.id, {
+      onDelete: "set null",
+    }), // null when run by the scheduler
+    startedAt: timestamp("started_at").notNull(),
+    completedAt: timestamp("completed_at"),
+  },
+  (table) => ({
+    policyIdx: index("retention_policy_runs_policy_idx").on(table.policyId),
+    startedAtIdx: index("retention_policy_runs_started_at_idx").on(
+      table.startedAt,
+    ),
+  }),
+);
+
 // Audit trail for analytics access
 export const analyticsAccessLog = pgTable(
   "analytics_access_log",
@@ -491,15 +1133,39 @@ export const analyticsAccessLog = pgTable(
 export type User = typeof user.$inferSelect;
 export type NewUser = typeof user.$inferInsert;
 export type Role = (typeof role.enumValues)[number];
+export type Organization = typeof organization.$inferSelect;
+export type OrganizationMember = typeof organizationMember.$inferSelect;
+export type CustomRole = typeof customRole.$inferSelect;
 export type InvitationStatus = (typeof invitationStatusEnum.enumValues)[number];
 export type Invitation = typeof invitation.$inferSelect;
 export type NewInvitation = typeof invitation.$inferInsert;
 export type Session = typeof session.$inferSelect;
 export type Account = typeof account.$inferSelect;
 export type Verification = typeof verification.$inferSelect;
+export type TwoFactor = typeof twoFactor.$inferSelect;
 export type Province = typeof provinces.$inferSelect;
 export type Publisher = typeof publishers.$inferSelect;
 export type NewPublisher = typeof publishers.$inferInsert;
+export type PublisherCategory =
+  (typeof publisherCategoryEnum.enumValues)[number];
+export type TenderStatus = (typeof tenderStatusEnum.enumValues)[number];
+export type Tender = typeof tenders.$inferSelect;
+export type NewTender = typeof tenders.$inferInsert;
+export type TenderSourceType = (typeof tenderSourceTypeEnum.enumValues)[number];
+export type TenderSource = typeof tenderSources.$inferSelect;
+export type NewTenderSource = typeof tenderSources.$inferInsert;
+export type TenderIngestionRun = typeof tenderIngestionRuns.$inferSelect;
+export type PublisherLinkCheck = typeof publisherLinkChecks.$inferSelect;
+export type PublisherLinkStatus = typeof publisherLinkStatus.$inferSelect;
+export type PublisherSnapshot = typeof publisherSnapshots.$inferSelect;
+export type SavedSearch = typeof savedSearches.$inferSelect;
+export type NewSavedSearch = typeof savedSearches.$inferInsert;
+export type SavedSearchMatch = typeof savedSearchMatches.$inferSelect;
+export type TrackedTender = typeof trackedTenders.$inferSelect;
+export type CalendarFeedToken = typeof calendarFeedTokens.$inferSelect;
+export type PipelineStage = (typeof pipelineStageEnum.enumValues)[number];
+export type TenderPipelineItem = typeof tenderPipeline.$inferSelect;
+export type CoverageAssignment = typeof coverageAssignments.$inferSelect;
 export type UserBookmark = typeof userBookmarks.$inferSelect;
 export type NewUserBookmark = typeof userBookmarks.$inferInsert;
 
@@ -516,10 +1182,12 @@ export type DailyAnalytic = typeof dailyAnalytics.$inferSelect;
 export type NewDailyAnalytic = typeof dailyAnalytics.$inferInsert;
 export type AnalyticsCache = typeof analyticsCache.$inferSelect;
 export type NewAnalyticsCache = typeof analyticsCache.$inferInsert;
+export type CacheInvalidation = typeof cacheInvalidations.$inferSelect;
 export type UserConsent = typeof userConsent.$inferSelect;
 export type NewUserConsent = typeof userConsent.$inferInsert;
 export type RetentionPolicy = typeof retentionPolicies.$inferSelect;
 export type NewRetentionPolicy = typeof retentionPolicies.$inferInsert;
+export type RetentionPolicyRun = typeof retentionPolicyRuns.$inferSelect;
 export type AnalyticsAccessLog = typeof analyticsAccessLog.$inferSelect;
 export type NewAnalyticsAccessLog = typeof analyticsAccessLog.$inferInsert;
 
@@ -543,6 +1211,10 @@ export const auditLog = pgTable(
   {
     id: text("id").primaryKey(),
     userId: text("user_id"),
+    // Null for platform events outside any organisation
+    organizationId: uuid("organization_id").references(() => organization.id, {
+      onDelete: "cascade",
+    }),
     action: text("action").notNull(),
     targetUserId: text("target_user_id"),
     ipAddress: text("ip_address"),
@@ -551,6 +1223,9 @@ export const auditLog = pgTable(
   },
   (table) => ({
     userIdIdx: index("audit_log_user_idx").on(table.userId),
+    organizationIdx: index("audit_log_organization_idx").on(
+      table.organizationId,
+    ),
     actionIdx: index("audit_log_action_idx").on(table.action),
     createdAtIdx: index("audit_log_created_at_idx").on(table.createdAt),
   }),
@@ -577,12 +1252,50 @@ export const profileUpdateRequest = pgTable(
   }),
 );
 
-// ✅ System settings table for global configuration
+// ✅ Data erasure request table (POPIA/GDPR right to erasure). The user
+// row is anonymised rather than deleted, so requests outlive the erasure.
+export const dataErasureRequest = pgTable(
+  "data_erasure_request",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    userId: text("user_id")
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+    // Organisation whose managers review the request
+    organizationId: uuid("organization_id")
+      .notNull()
+      .references(() => organization.id, { onDelete: "cascade" }),
+    reason: text("reason"),
+    status: text("status").notNull().default("pending"), // pending, completed, rejected, cancelled
+    requestedAt: timestamp("requested_at").defaultNow().notNull(),
+    reviewedBy: text("reviewed_by").references(() => user.id, {
+      onDelete: "set null",
+    }),
+    reviewedAt: timestamp("reviewed_at"),
+    rejectionReason: text("rejection_reason"),
+    // Rows anonymised or deleted per table
+    summary: jsonb("summary"),
+    completedAt: timestamp("completed_at"),
+  },
+  (table) => ({
+    userIdIdx: index("data_erasure_user_idx").on(table.userId),
+    organizationStatusIdx: index("data_erasure_organization_status_idx").on(
+      table.organizationId,
+      table.status,
+    ),
+  }),
+);
+
+// ✅ System settings table, per organisation; a null organisation holds
+// the platform-wide defaults
 export const systemSettings = pgTable(
   "system_settings",
   {
     id: uuid("id").defaultRandom().primaryKey(),
-    settingKey: text("setting_key").notNull().unique(),
+    organizationId: uuid("organization_id").references(() => organization.id, {
+      onDelete: "cascade",
+    }),
+    settingKey: text("setting_key").notNull(),
     settingValue: jsonb("setting_value").notNull(),
     description: text("description"),
     updatedBy: text("updated_by").references(() => user.id),
@@ -594,6 +1307,9 @@ export const systemSettings = pgTable(
   },
   (table) => ({
     settingKeyIdx: index("system_settings_key_idx").on(table.settingKey),
+    organizationKeyUnique: unique("system_settings_organization_key_unique")
+      .on(table.organizationId, table.settingKey)
+      .nullsNotDistinct(),
   }),
 );
 
@@ -603,11 +1319,29 @@ export const backupHistory = pgTable(
   {
     id: uuid("id").defaultRandom().primaryKey(),
     backupType: text("backup_type").notNull(), // manual, scheduled, auto
-    status: text("status").notNull(), // running, completed, failed
+    status: text("status").notNull(), // queued, running, completed, failed
+    // Target the file is stored in (local, s3, sftp) and its key there
+    storageTarget: text("storage_target").default("local").notNull(),
     filePath: text("file_path"),
+    // Encrypted with BACKUP_ENCRYPTION_KEY before it was stored
+    encrypted: boolean("encrypted").default(false).notNull(),
     fileSize: bigint("file_size", { mode: "number" }),
     errorMessage: text("error_message"),
     duration: integer("duration"), // in seconds
+    // SHA-256 of the file, hex encoded, taken when the backup completed
+    checksum: text("checksum"),
+    // Result of restoring into a scratch schema: passed, failed, skipped;
+    // queued or running while a verification is pending
+    verificationStatus: text("verification_status"),
+    verificationError: text("verification_error"),
+    verifiedAt: timestamp("verified_at"),
+    // Restoring the live database from this backup: queued, running,
+    // completed or failed
+    restoreStatus: text("restore_status"),
+    restoreError: text("restore_error"),
+    restoredAt: timestamp("restored_at"),
+    // Set once the file has been deleted by retention
+    prunedAt: timestamp("pruned_at"),
     initiatedBy: text("initiated_by").references(() => user.id),
     createdAt: timestamp("created_at").defaultNow().notNull(),
   },
@@ -618,6 +1352,79 @@ export const backupHistory = pgTable(
   }),
 );
 
+// ✅ Monitoring alert rules, evaluated against error and performance
+// metrics by `src/lib/sentry-alerting.ts`
+export const alertRules = pgTable(
+  "alert_rules",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    name: text("name").notNull().unique(),
+    metric: text("metric").notNull(), // error_count, error_rate, average_response_time, affected_users
+    operator: text("operator").notNull().default("gt"), // gt, gte
+    threshold: doublePrecision("threshold").notNull(),
+    // Only match metrics gathered over this window, e.g. "5m"; null for any
+    timeWindow: text("time_window"),
+    severity: text("severity").notNull(), // low, medium, high, critical
+    cooldownMinutes: integer("cooldown_minutes").notNull().default(15),
+    channels: jsonb("channels").$type<string[]>().default([]).notNull(),
+    enabled: boolean("enabled").default(true).notNull(),
+    // Incidents are still recorded while muted, but nobody is notified
+    mutedUntil: timestamp("muted_until"),
+    createdBy: text("created_by").references(() => user.id, {
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (table) => ({
+    enabledIdx: index("alert_rules_enabled_idx").on(table.enabled),
+  }),
+);
+
+// ✅ One row per alert from first trigger until it is resolved; repeat
+// triggers while it is open add to `occurrences`
+export const alertIncidents = pgTable(
+  "alert_incidents",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    ruleId: uuid("rule_id").references(() => alertRules.id, {
+      onDelete: "set null",
+    }),
+    // Snapshot of the rule, kept if the rule changes or is deleted
+    ruleName: text("rule_name").notNull(),
+    severity: text("severity").notNull(),
+    status: text("status").notNull().default("open"), // open, acknowledged, resolved
+    // Metrics from the latest trigger
+    context: jsonb("context").notNull(),
+    occurrences: integer("occurrences").default(1).notNull(),
+    notifiedChannels: jsonb("notified_channels")
+      .$type<string[]>()
+      .default([])
+      .notNull(),
+    lastNotifiedAt: timestamp("last_notified_at"),
+    openedAt: timestamp("opened_at").defaultNow().notNull(),
+    lastTriggeredAt: timestamp("last_triggered_at").defaultNow().notNull(),
+    acknowledgedBy: text("acknowledged_by").references(() => user.id, {
+      onDelete: "set null",
+    }),
+    acknowledgedAt: timestamp("acknowledged_at"),
+    resolvedBy: text("resolved_by").references(() => user.id, {
+      onDelete: "set null",
+    }),
+    resolvedAt: timestamp("resolved_at"),
+  },
+  (table) => ({
+    ruleStatusIdx: index("alert_incidents_rule_status_idx").on(
+      table.ruleId,
+      table.status,
+    ),
+    openedAtIdx: index("alert_incidents_opened_at_idx").on(table.openedAt),
+  }),
+);
+
 // ✅ Email preferences table for user notification settings
 export const emailPreferences = pgTable(
   "email_preferences",
@@ -644,6 +1451,9 @@ export const emailPreferences = pgTable(
     immediateNotifications: boolean("immediate_notifications").default(true).notNull(),
     dailyDigest: boolean("daily_digest").default(false).notNull(),
     weeklyDigestNotifications: boolean("weekly_digest_notifications").default(false).notNull(),
+    // Tender closing-date reminders, sent this many days before closing
+    tenderReminders: boolean("tender_reminders").default(true).notNull(),
+    tenderReminderLeadDays: jsonb("tender_reminder_lead_days").$type<number[]>().default([7, 2, 0]).notNull(),
     // Unsubscribe tracking
     unsubscribeToken: text("unsubscribe_token").unique(),
     unsubscribedAt: timestamp("unsubscribed_at"),
@@ -702,3 +1512,6 @@ export type EmailPreferences = typeof emailPreferences.$inferSelect;
 export type NewEmailPreferences = typeof emailPreferences.$inferInsert;
 export type EmailDeliveryLog = typeof emailDeliveryLog.$inferSelect;
 export type NewEmailDeliveryLog = typeof emailDeliveryLog.$inferInsert;
+export type DataErasureRequest = typeof dataErasureRequest.$inferSelect;
+export type AlertRule = typeof alertRules.$inferSelect;
+export type AlertIncident = typeof alertIncidents.$inferSelect;
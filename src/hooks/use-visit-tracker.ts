@@ -7,6 +7,7 @@
 
 import { useCallback, useEffect, useState } from "react";
 import { getCachedLocalStorage } from "@/lib/performance-utils";
+import { flushPendingVisits } from "@/lib/visit-sync";
 import {
   addVisit,
   clearAllVisitData,
@@ -14,6 +15,7 @@ import {
   getTodayVisits,
   getVisitedPagesForSession,
   getVisitStats,
+  hasAnalyticsConsent,
   type VisitStats,
 } from "@/lib/visit-utils";
 
@@ -48,6 +50,11 @@ export function useVisitTracker(): UseVisitTrackerReturn {
    * Track a visit to a specific URL
    */
   const trackVisit = useCallback((url: string): boolean => {
+    // Tracking waits for analytics consent
+    if (!hasAnalyticsConsent()) {
+      return false;
+    }
+
     try {
       // Validate URL
       if (!url || typeof url !== "string") {
@@ -196,6 +203,36 @@ export function useVisitTracker(): UseVisitTrackerReturn {
     };
   }, [trackCurrentPage]);
 
+  /**
+   * Sync queued visits to the server on load, every minute, when the
+   * browser comes back online and when the tab is hidden
+   */
+  useEffect(() => {
+    if (typeof window === "undefined") {
+      return; // SSR guard
+    }
+
+    const sync = () => {
+      void flushPendingVisits();
+    };
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "hidden") {
+        sync();
+      }
+    };
+
+    sync();
+    const interval = setInterval(sync, 60000);
+    window.addEventListener("online", sync);
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener("online", sync);
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+    };
+  }, []);
+
   return {
     // Functions
     trackVisit,
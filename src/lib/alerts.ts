@@ -0,0 +1,238 @@
+/**
+ * Alert rules and incidents
+ *
+ * Rules live in `alert_rules` and are evaluated by
+ * `src/lib/sentry-alerting.ts`. When a rule matches, the rule's unresolved
+ * incident is reused if there is one, otherwise a new incident is opened.
+ * Notifications go out for new incidents and, once the rule's cooldown
+ * has passed, for repeat triggers of incidents nobody has acknowledged.
+ * Muted rules record incidents without notifying anyone.
+ */
+
+import { and, asc, desc, eq, inArray, ne, sql } from "drizzle-orm";
+import { db } from "@/db";
+import {
+  type AlertIncident,
+  type AlertRule,
+  alertIncidents,
+  alertRules,
+  user,
+} from "@/db/schema";
+import type { AlertRuleFormData } from "@/lib/validations/alerts";
+
+const UNRESOLVED = ["open", "acknowledged"];
+
+export async function getAlertRules() {
+  return db.select().from(alertRules).orderBy(asc(alertRules.name));
+}
+
+export async function getEnabledAlertRules() {
+  return db
+    .select()
+    .from(alertRules)
+    .where(eq(alertRules.enabled, true))
+    .orderBy(asc(alertRules.name));
+}
+
+/**
+ * Whether another rule already uses `name`.
+ */
+export async function isAlertRuleNameTaken(name: string, exceptId?: string) {
+  const [existing] = await db
+    .select({ id: alertRules.id })
+    .from(alertRules)
+    .where(
+      and(
+        sql`lower(${alertRules.name}) = lower(${name})`,
+        exceptId ? ne(alertRules.id, exceptId) : undefined,
+      ),
+    )
+    .limit(1);
+  return !!existing;
+}
+
+export async function createAlertRule(
+  data: AlertRuleFormData,
+  createdBy: string,
+) {
+  const [rule] = await db
+    .insert(alertRules)
+    .values({ ...data, createdBy })
+    .returning();
+  return rule;
+}
+
+/**
+ * Returns null when the rule does not exist.
+ */
+export async function updateAlertRule(ruleId: string, data: AlertRuleFormData) {
+  const [rule] = await db
+    .update(alertRules)
+    .set(data)
+    .where(eq(alertRules.id, ruleId))
+    .returning();
+  return rule ?? null;
+}
+
+export async function deleteAlertRule(ruleId: string) {
+  const deleted = await db
+    .delete(alertRules)
+    .where(eq(alertRules.id, ruleId))
+    .returning({ id: alertRules.id });
+  return deleted.length > 0;
+}
+
+/**
+ * Mute a rule until `until`, or unmute it with null. Returns null when
+ * the rule does not exist.
+ */
+export async function muteAlertRule(ruleId: string, until: Date | null) {
+  const [rule] = await db
+    .update(alertRules)
+    .set({ mutedUntil: until })
+    .where(eq(alertRules.id, ruleId))
+    .returning();
+  return rule ?? null;
+}
+
+export function isAlertRuleMuted(rule: AlertRule, now = new Date()) {
+  return !!rule.mutedUntil && rule.mutedUntil > now;
+}
+
+/**
+ * Unresolved incidents, newest trigger first, followed by the latest
+ * resolved ones.
+ */
+export async function getAlertIncidents(resolvedLimit = 20) {
+  const incidents = () =>
+    db
+      .select({ incident: alertIncidents, acknowledgedByName: user.name })
+      .from(alertIncidents)
+      .leftJoin(user, eq(alertIncidents.acknowledgedBy, user.id));
+
+  const [unresolved, resolved] = await Promise.all([
+    incidents()
+      .where(inArray(alertIncidents.status, UNRESOLVED))
+      .orderBy(desc(alertIncidents.lastTriggeredAt)),
+    incidents()
+      .where(eq(alertIncidents.status, "resolved"))
+      .orderBy(desc(alertIncidents.resolvedAt))
+      .limit(resolvedLimit),
+  ]);
+
+  const toRow = (row: (typeof unresolved)[number]) => ({
+    ...row.incident,
+    acknowledgedByName: row.acknowledgedByName,
+  });
+  return { unresolved: unresolved.map(toRow), resolved: resolved.map(toRow) };
+}
+
+/**
+ * Open an incident for a matched rule, or add to its unresolved one.
+ * `notify` says whether the trigger should be sent to the rule's
+ * channels.
+ */
+export async function recordAlertIncident(
+  rule: AlertRule,
+  context: Record<string, unknown>,
+  now = new Date(),
+): Promise<{ incident: AlertIncident; notify: boolean }> {
+  const muted = isAlertRuleMuted(rule, now);
+
+  const [existing] = await db
+    .select()
+    .from(alertIncidents)
+    .where(
+      and(
+        eq(alertIncidents.ruleId, rule.id),
+        inArray(alertIncidents.status, UNRESOLVED),
+      ),
+    )
+    .orderBy(desc(alertIncidents.openedAt))
+    .limit(1);
+
+  if (!existing) {
+    const [incident] = await db
+      .insert(alertIncidents)
+      .values({
+        ruleId: rule.id,
+        ruleName: rule.name,
+        severity: rule.severity,
+        context,
+        openedAt: now,
+        lastTriggeredAt: now,
+      })
+      .returning();
+    return { incident, notify: !muted };
+  }
+
+  const [incident] = await db
+    .update(alertIncidents)
+    .set({
+      context,
+      severity: rule.severity,
+      occurrences: sql`${alertIncidents.occurrences} + 1`,
+      lastTriggeredAt: now,
+    })
+    .where(eq(alertIncidents.id, existing.id))
+    .returning();
+
+  const cooledDown =
+    !existing.lastNotifiedAt ||
+    now.getTime() - existing.lastNotifiedAt.getTime() >=
+      rule.cooldownMinutes * 60 * 1000;
+
+  return {
+    incident,
+    notify: !muted && existing.status === "open" && cooledDown,
+  };
+}
+
+export async function markAlertIncidentNotified(
+  incidentId: string,
+  channels: string[],
+  now = new Date(),
+) {
+  await db
+    .update(alertIncidents)
+    .set({ notifiedChannels: channels, lastNotifiedAt: now })
+    .where(eq(alertIncidents.id, incidentId));
+}
+
+/**
+ * Returns null when there is no open incident with this id.
+ */
+export async function acknowledgeAlertIncident(
+  incidentId: string,
+  userId: string,
+) {
+  const [incident] = await db
+    .update(alertIncidents)
+    .set({
+      status: "acknowledged",
+      acknowledgedBy: userId,
+      acknowledgedAt: new Date(),
+    })
+    .where(
+      and(eq(alertIncidents.id, incidentId), eq(alertIncidents.status, "open")),
+    )
+    .returning();
+  return incident ?? null;
+}
+
+/**
+ * Returns null when there is no unresolved incident with this id.
+ */
+export async function resolveAlertIncident(incidentId: string, userId: string) {
+  const [incident] = await db
+    .update(alertIncidents)
+    .set({ status: "resolved", resolvedBy: userId, resolvedAt: new Date() })
+    .where(
+      and(
+        eq(alertIncidents.id, incidentId),
+        inArray(alertIncidents.status, UNRESOLVED),
+      ),
+    )
+    .returning();
+  return incident ?? null;
+}
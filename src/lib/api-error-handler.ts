@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from "next/server";
 import { ZodError } from "zod";
 import { trackAPIError, trackDatabaseError, trackAuthError } from "./sentry-utils";
 import { AuditLogger } from "./audit-logger";
+import { performanceMonitor } from "./performance-monitor";
+import { normalizeRoute } from "./prometheus-metrics";
 
 /**
  * Standard API error response interface
@@ -355,15 +357,26 @@ export function withErrorHandler<T = any>(
   }
 ) {
   return async (request: NextRequest, context?: any): Promise<NextResponse> => {
+    const startTime = performance.now();
+    let response: NextResponse;
     try {
-      return await handler(request, context);
+      response = await handler(request, context);
     } catch (error) {
-      return handleAPIError(error, request, {
+      response = await handleAPIError(error, request, {
         endpoint: options?.endpoint,
         method: request.method,
         // Add user context extraction here if needed
       });
     }
+
+    performanceMonitor.trackAPIRequest({
+      endpoint: options?.endpoint || normalizeRoute(request.nextUrl.pathname),
+      method: request.method,
+      statusCode: response.status,
+      responseTime: performance.now() - startTime,
+      timestamp: new Date(),
+    });
+    return response;
   };
 }
 
@@ -33,6 +33,11 @@ export type AuditAction =
   | "profile_update_requested"
   | "profile_update_approved"
   | "profile_update_rejected"
+  | "erasure_requested"
+  | "erasure_cancelled"
+  | "erasure_approved"
+  | "erasure_rejected"
+  | "erasure_completed"
   | "invitation_created"
   | "invitation_accepted"
   | "invitation_cancelled"
@@ -40,17 +45,30 @@ export type AuditAction =
   | "role_changed"
   | "permission_granted"
   | "permission_revoked"
+  | "custom_role_created"
+  | "custom_role_updated"
+  | "custom_role_deleted"
   | "data_exported"
   | "data_deleted"
   | "system_access"
   | "configuration_changed"
   | "backup_created"
+  | "pipeline_stage_changed"
+  | "publisher_updated"
+  | "coverage_assigned"
   | "security_scan"
   | "failed_login"
+  | "two_factor_enabled"
+  | "two_factor_disabled"
+  | "two_factor_verified"
+  | "two_factor_recovery_code_used"
+  | "two_factor_reset"
   | "suspicious_activity";
 
 export interface AuditLogContext {
   userId?: string;
+  // Defaults to the acting user's active organisation
+  organizationId?: string | null;
   sessionId?: string;
   ipAddress?: string;
   userAgent?: string;
@@ -78,6 +96,10 @@ export async function logAuditEvent(
     const auditEntry = {
       id: crypto.randomUUID(),
       userId: context.userId || "system",
+      organizationId:
+        context.organizationId === undefined
+          ? await getActiveOrganizationId(context.userId)
+          : context.organizationId,
       action,
       targetUserId: context.resourceId, // For user-specific actions
       ipAddress: context.ipAddress || "unknown",
@@ -122,6 +144,22 @@ export async function logAuditEvent(
   }
 }
 
+/**
+ * The organisation a user is working in, for events logged on their
+ * behalf. System and anonymous events have none.
+ */
+async function getActiveOrganizationId(userId?: string) {
+  if (!userId) return null;
+
+  const [account] = await db
+    .select({ activeOrganizationId: user.activeOrganizationId })
+    .from(user)
+    .where(eq(user.id, userId))
+    .limit(1);
+
+  return account?.activeOrganizationId ?? null;
+}
+
 /**
  * Role-specific audit logging functions
  */
@@ -146,6 +184,58 @@ export const AuditLogger = {
     );
   },
 
+  async logTwoFactorEnabled(userId: string, context: AuditLogContext) {
+    return logAuditEvent("two_factor_enabled", {
+      ...context,
+      userId,
+      resourceType: "user",
+      resourceId: userId,
+    });
+  },
+
+  async logTwoFactorDisabled(userId: string, context: AuditLogContext) {
+    return logAuditEvent(
+      "two_factor_disabled",
+      { ...context, userId, resourceType: "user", resourceId: userId },
+      { alertLevel: "medium" },
+    );
+  },
+
+  async logTwoFactorVerified(userId: string, context: AuditLogContext) {
+    return logAuditEvent("two_factor_verified", {
+      ...context,
+      userId,
+      resourceType: "user",
+      resourceId: userId,
+    });
+  },
+
+  async logRecoveryCodeUsed(userId: string, context: AuditLogContext) {
+    return logAuditEvent(
+      "two_factor_recovery_code_used",
+      { ...context, userId, resourceType: "user", resourceId: userId },
+      { alertLevel: "medium" },
+    );
+  },
+
+  async logTwoFactorReset(
+    userId: string,
+    resetBy: string,
+    context: AuditLogContext,
+  ) {
+    return logAuditEvent(
+      "two_factor_reset",
+      {
+        ...context,
+        userId: resetBy,
+        resourceType: "user",
+        resourceId: userId,
+        metadata: { ...context.metadata, resetBy },
+      },
+      { alertLevel: "high" },
+    );
+  },
+
   // User management events
   async logUserCreated(
     userId: string,
@@ -160,6 +250,24 @@ export const AuditLogger = {
     });
   },
 
+  // Accounts created without an acting admin: self-registration, an
+  // invitation being accepted or the first-owner bootstrap
+  async logUserProvisioned(
+    userId: string,
+    source: string,
+    role: string,
+    context: AuditLogContext,
+  ) {
+    return logAuditEvent("user_created", {
+      ...context,
+      userId,
+      resourceType: "user",
+      resourceId: userId,
+      newValues: { role },
+      metadata: { ...context.metadata, source },
+    });
+  },
+
   async logUserUpdated(
     userId: string,
     changes: Record<string, unknown>,
@@ -213,6 +321,18 @@ export const AuditLogger = {
     );
   },
 
+  async logCustomRoleChanged(
+    roleId: string,
+    change: "created" | "updated" | "deleted",
+    context: AuditLogContext,
+  ) {
+    return logAuditEvent(
+      `custom_role_${change}`,
+      { ...context, resourceType: "custom_role", resourceId: roleId },
+      { alertLevel: "medium" },
+    );
+  },
+
   // Invitation events
   async logInvitationCreated(
     email: string,
@@ -310,6 +430,89 @@ export const AuditLogger = {
     });
   },
 
+  // Personal data erasure workflow
+  async logErasureRequested(
+    userId: string,
+    requestId: string,
+    context: AuditLogContext,
+  ) {
+    return logAuditEvent("erasure_requested", {
+      ...context,
+      userId,
+      resourceType: "data_erasure_request",
+      resourceId: requestId,
+    });
+  },
+
+  async logErasureCancelled(
+    userId: string,
+    requestId: string,
+    context: AuditLogContext,
+  ) {
+    return logAuditEvent("erasure_cancelled", {
+      ...context,
+      userId,
+      resourceType: "data_erasure_request",
+      resourceId: requestId,
+    });
+  },
+
+  async logErasureApproved(
+    userId: string,
+    requestId: string,
+    approvedBy: string,
+    context: AuditLogContext,
+  ) {
+    return logAuditEvent(
+      "erasure_approved",
+      {
+        ...context,
+        userId: approvedBy,
+        resourceType: "user",
+        resourceId: userId,
+        metadata: { ...context.metadata, requestId, approvedBy },
+      },
+      { alertLevel: "high" },
+    );
+  },
+
+  async logErasureRejected(
+    userId: string,
+    requestId: string,
+    rejectedBy: string,
+    reason: string,
+    context: AuditLogContext,
+  ) {
+    return logAuditEvent("erasure_rejected", {
+      ...context,
+      userId: rejectedBy,
+      resourceType: "user",
+      resourceId: userId,
+      metadata: { ...context.metadata, requestId, rejectedBy, reason },
+    });
+  },
+
+  async logErasureCompleted(
+    userId: string,
+    requestId: string,
+    completedBy: string,
+    summary: Record<string, number>,
+    context: AuditLogContext,
+  ) {
+    return logAuditEvent(
+      "erasure_completed",
+      {
+        ...context,
+        userId: completedBy,
+        resourceType: "user",
+        resourceId: userId,
+        newValues: summary,
+        metadata: { ...context.metadata, requestId },
+      },
+      { alertLevel: "high" },
+    );
+  },
+
   // Data access events
   async logDataExported(
     userId: string,
@@ -378,6 +581,56 @@ export const AuditLogger = {
     );
   },
 
+  // Tender pipeline events
+  async logPipelineStageChanged(
+    changedBy: string,
+    pipelineItemId: string,
+    previousStage: string,
+    newStage: string,
+    context: AuditLogContext,
+  ) {
+    return logAuditEvent("pipeline_stage_changed", {
+      ...context,
+      userId: changedBy,
+      resourceType: "tender_pipeline",
+      resourceId: pipelineItemId,
+      previousValues: { stage: previousStage },
+      newValues: { stage: newStage },
+    });
+  },
+
+  // Publisher events
+  async logPublisherUpdated(
+    changedBy: string,
+    publisherId: string,
+    changes: Record<string, unknown>,
+    context: AuditLogContext,
+  ) {
+    return logAuditEvent("publisher_updated", {
+      ...context,
+      userId: changedBy,
+      resourceType: "publisher",
+      resourceId: publisherId,
+      newValues: changes,
+    });
+  },
+
+  // Coverage events
+  async logCoverageAssigned(
+    assignedBy: string,
+    memberId: string,
+    coverage: { publisherIds: string[]; provinceIds: string[] },
+    context: AuditLogContext,
+  ) {
+    return logAuditEvent("coverage_assigned", {
+      ...context,
+      userId: assignedBy,
+      resourceType: "user",
+      resourceId: memberId,
+      newValues: coverage,
+    });
+  },
+
   // Security events
   async logSuspiciousActivity(
     userId: string,
@@ -469,6 +722,7 @@ async function isSuspiciousActivity(
 interface AuditEntry {
   id: string;
   userId: string | null;
+  organizationId?: string | null;
   action: string;
   targetUserId?: string | null;
   ipAddress: string | null;
@@ -568,6 +822,7 @@ async function handleSuspiciousActivity(auditEntry: AuditEntry) {
     await db.insert(auditLog).values({
       id: crypto.randomUUID(),
       userId: "system",
+      organizationId: auditEntry.organizationId ?? null,
       action: "suspicious_activity",
       targetUserId: auditEntry.userId,
       ipAddress: auditEntry.ipAddress,
@@ -609,6 +864,7 @@ async function handleSuspiciousActivity(auditEntry: AuditEntry) {
  * Query audit logs with filtering and pagination
  */
 export async function queryAuditLogs(filters: {
+  organizationId?: string;
   userId?: string;
   action?: AuditAction;
   resourceId?: string;
@@ -620,6 +876,7 @@ export async function queryAuditLogs(filters: {
 }) {
   try {
     const {
+      organizationId,
       userId,
       action,
       resourceId,
@@ -633,6 +890,10 @@ export async function queryAuditLogs(filters: {
     // Build where conditions
     const conditions = [];
 
+    if (organizationId) {
+      conditions.push(eq(auditLog.organizationId, organizationId));
+    }
+
     if (userId) {
       conditions.push(eq(auditLog.userId, userId));
     }
@@ -840,40 +1101,3 @@ export async function getAuditLogStats(
     throw new Error("Failed to retrieve audit statistics");
   }
 }
-
-/**
- * Clean up old audit logs based on retention policy
- */
-export async function cleanupAuditLogs(retentionDays: number = 90) {
-  try {
-    const cutoffDate = new Date();
-    cutoffDate.setDate(cutoffDate.getDate() - retentionDays);
-
-    // Delete old audit logs
-    const deleted = await db
-      .delete(auditLog)
-      .where(lte(auditLog.createdAt, cutoffDate));
-
-    // Log the cleanup operation itself
-    await logAuditEvent("system_access", {
-      metadata: {
-        retentionDays,
-        cutoffDate: cutoffDate.toISOString(),
-        action: "audit_cleanup",
-        deletedCount: deleted.rowCount || 0,
-      },
-    });
-
-    return {
-      success: true,
-      deletedCount: deleted.rowCount || 0,
-      cutoffDate: cutoffDate.toISOString(),
-    };
-  } catch (error) {
-    console.error("Failed to cleanup audit logs:", error);
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : "Unknown error",
-    };
-  }
-}
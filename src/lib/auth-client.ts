@@ -1,3 +1,4 @@
+import { twoFactorClient } from "better-auth/client/plugins";
 import { createAuthClient } from "better-auth/react";
 
 export const authClient = createAuthClient({
@@ -10,6 +11,8 @@ export const authClient = createAuthClient({
       }
     },
   },
+
+  plugins: [twoFactorClient()],
 });
 
 export const {
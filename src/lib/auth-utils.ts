@@ -4,6 +4,15 @@ import { db } from "@/db";
 import { user } from "@/db/schema";
 import { eq } from "drizzle-orm";
 import { auth } from "./auth";
+import { resolveActiveOrganization } from "./organization";
+import {
+  checkPermission,
+  limitToPlatformRole,
+  type PermissionAction,
+  type PermissionResource,
+  type Permissions,
+} from "./permissions";
+import { resolveMemberPermissions } from "./roles";
 
 export async function getSession() {
   try {
@@ -38,12 +47,30 @@ export async function getSessionWithRole() {
 
     const fullUser = userData[0];
 
+    // Roles are per organisation: the active membership decides access,
+    // except on shared resources where the platform role caps it
+    const activeOrganization = await resolveActiveOrganization(fullUser);
+    const organization = {
+      ...activeOrganization,
+      permissions: limitToPlatformRole(
+        await resolveMemberPermissions({
+          organizationId: activeOrganization.id,
+          role: activeOrganization.role,
+          customRoleId: activeOrganization.customRoleId,
+        }),
+        fullUser.role,
+      ),
+    };
+
     return {
       ...session,
+      organization,
       user: {
         ...session.user,
         id: fullUser.id,
-        role: fullUser.role,
+        role: organization.role,
+        // Account-level role, for operations spanning every organisation
+        platformRole: fullUser.role,
         status: fullUser.status,
         banned: fullUser.banned,
         banReason: fullUser.banReason,
@@ -51,6 +78,7 @@ export async function getSessionWithRole() {
         invitedBy: fullUser.invitedBy,
         invitedAt: fullUser.invitedAt,
         image: fullUser.image,
+        twoFactorEnabled: fullUser.twoFactorEnabled,
       },
     };
   } catch (error) {
@@ -75,12 +103,46 @@ export async function requireRole(allowedRoles: string[]) {
   return session;
 }
 
+/**
+ * Require a permission in the active organisation, from the member's
+ * custom role or built-in role.
+ */
+export async function requirePermission<R extends PermissionResource>(
+  resource: R,
+  action: PermissionAction<R>,
+) {
+  const session = await requireAuth();
+  if (!getPermissionChecker(session).can(resource, action)) {
+    throw new Error(`Access denied. Required permission: ${resource}:${action}`);
+  }
+  return session;
+}
+
+/**
+ * Permission checker for the session's member in the active organisation.
+ */
+export function getPermissionChecker(session: {
+  user: { id: string };
+  organization: {
+    role: string;
+    permissions: Permissions;
+    customRoleId?: string | null;
+  };
+}) {
+  return checkPermission(
+    session.user,
+    session.organization.role,
+    session.organization.permissions,
+    session.organization.customRoleId,
+  );
+}
+
 export async function requireAdmin() {
-  return requireRole(["admin"]);
+  return requireRole(["owner", "admin"]);
 }
 
 export async function requireManager() {
-  return requireRole(["admin", "manager"]);
+  return requireRole(["owner", "admin", "manager"]);
 }
 
 // API-specific auth functions that return NextResponse for better error handling
@@ -130,10 +192,32 @@ export async function requireRoleAPI(allowedRoles: string[]) {
   return { session };
 }
 
+export async function requirePermissionAPI<R extends PermissionResource>(
+  resource: R,
+  action: PermissionAction<R>,
+) {
+  const authResult = await requireAuthAPI();
+  if (authResult.error) {
+    return authResult;
+  }
+
+  const { session } = authResult;
+  if (!getPermissionChecker(session).can(resource, action)) {
+    return {
+      error: NextResponse.json(
+        { error: `Access denied. Required permission: ${resource}:${action}` },
+        { status: 403 }
+      )
+    };
+  }
+
+  return { session };
+}
+
 export async function requireAdminAPI() {
-  return requireRoleAPI(["admin"]);
+  return requireRoleAPI(["owner", "admin"]);
 }
 
 export async function requireManagerAPI() {
-  return requireRoleAPI(["admin", "manager"]);
+  return requireRoleAPI(["owner", "admin", "manager"]);
 }
\ No newline at end of file
@@ -2,23 +2,40 @@ import * as BetterAuthModule from "better-auth";
 // Support both named and default exports from the third-party package
 const betterAuth = (BetterAuthModule as any).betterAuth ?? (BetterAuthModule as any).default ?? BetterAuthModule;
 import { drizzleAdapter } from "better-auth/adapters/drizzle";
+import {
+  APIError,
+  createAuthMiddleware,
+  getSessionFromCtx,
+  isAPIError,
+} from "better-auth/api";
 import { nextCookies } from "better-auth/next-js";
+import { twoFactor } from "better-auth/plugins";
 import { db } from "@/db";
-import { user, session, account, verification } from "@/db/schema";
-import { eq } from "drizzle-orm";
-
-// Helper function to determine role from email
-function getDefaultRoleFromEmail(email: string): "owner" | "admin" | "manager" | "user" {
-  const [username] = email.split('@');
-  const lowerUsername = username.toLowerCase();
-  
-  if (lowerUsername.includes('admin')) {
-    return 'admin';
-  } else if (lowerUsername.includes('manager')) {
-    return 'manager';
-  }
-  return 'user';
-}
+import {
+  user,
+  session,
+  account,
+  verification,
+  twoFactor as twoFactorTable,
+} from "@/db/schema";
+import { AuditLogger } from "@/lib/audit-logger";
+import { createAppError, logError } from "@/lib/error-utils";
+import {
+  clearFailedLogins,
+  getLoginLockedUntil,
+  recordFailedLogin,
+} from "@/lib/login-lockout";
+import { getMemberRole } from "@/lib/organization";
+import {
+  getRegistrationRefusal,
+  hasPendingInvitation,
+} from "@/lib/registration";
+import { getSystemSettings } from "@/lib/system-settings";
+import {
+  isTwoFactorRequired,
+  logTwoFactorRequest,
+  TWO_FACTOR_ISSUER,
+} from "@/lib/two-factor";
 
 export const auth = betterAuth({
   database: drizzleAdapter(db, {
@@ -28,6 +45,7 @@ export const auth = betterAuth({
       session,
       account,
       verification,
+      twoFactor: twoFactorTable,
     },
   }),
   
@@ -35,6 +53,16 @@ export const auth = betterAuth({
     enabled: true,
     autoSignIn: true,
   },
+
+  // Whether verification is required is the `emailVerificationRequired`
+  // setting, applied per request in the before hook
+  emailVerification: {
+    sendOnSignIn: true,
+    sendVerificationEmail: async ({ user, url }: { user: { id: string; email: string }; url: string }) => {
+      const { sendEmailVerification } = await import("@/lib/email");
+      await sendEmailVerification(user.email, url, user.id);
+    },
+  },
   
   session: {
     expiresIn: 60 * 60 * 24 * 7, // 7 days
@@ -85,25 +113,111 @@ export const auth = betterAuth({
         required: false,
         input: false,
       },
+      activeOrganizationId: {
+        type: "string",
+        required: false,
+        input: false,
+      },
     },
   },
   
     hooks: {
-    user: {
-      created: async (userData: any) => {
-        // Set role based on email when user is created
-        const role = getDefaultRoleFromEmail(userData.email);
-        
-        // Update user with the determined role
-        await db.update(user).set({ 
-          role: role,
-          status: 'active',
-          banned: false,
-        }).where(eq(user.id, userData.id));
-        
-        return userData;
-      },
-    },
+    // Enforce the registration, lockout and required 2FA settings before
+    // the endpoint runs
+    before: createAuthMiddleware(async (ctx) => {
+      if (ctx.path === "/two-factor/disable") {
+        const current = await getSessionFromCtx(ctx);
+        if (!current) return;
+
+        const { activeOrganizationId } = current.user as {
+          activeOrganizationId?: string | null;
+        };
+        const role = activeOrganizationId
+          ? await getMemberRole(activeOrganizationId, current.user.id)
+          : null;
+        if (await isTwoFactorRequired({ role, platformRole: current.user.role })) {
+          throw new APIError("FORBIDDEN", {
+            message: "Two-factor authentication is required for your role",
+          });
+        }
+        return;
+      }
+
+      const email = typeof ctx.body?.email === "string" ? ctx.body.email : null;
+      if (!email) return;
+
+      if (ctx.path === "/sign-up/email") {
+        const refusal = await getRegistrationRefusal(email);
+        if (refusal) {
+          throw new APIError("FORBIDDEN", { message: refusal });
+        }
+      }
+
+      if (ctx.path === "/sign-in/email") {
+        const lockedUntil = await getLoginLockedUntil(email);
+        if (lockedUntil) {
+          const minutes = Math.ceil((lockedUntil.getTime() - Date.now()) / 60_000);
+          throw new APIError("FORBIDDEN", {
+            message: `Too many failed sign-in attempts. Try again in ${minutes} minute${minutes === 1 ? "" : "s"}.`,
+          });
+        }
+      }
+
+      // Better Auth checks verification only after the password, so this
+      // reveals nothing about unverified accounts
+      if (ctx.path === "/sign-in/email" || ctx.path === "/sign-up/email") {
+        const { general } = await getSystemSettings();
+        if (general.emailVerificationRequired) {
+          return {
+            context: {
+              context: {
+                options: { emailAndPassword: { requireEmailVerification: true } },
+              },
+            },
+          };
+        }
+      }
+    }),
+    // Count failed sign-ins towards the lockout and reset them on success,
+    // and audit two-factor enrolment, verification and removal
+    after: createAuthMiddleware(async (ctx) => {
+      const isSignIn = ctx.path === "/sign-in/email";
+      if (!isSignIn && !ctx.path.startsWith("/two-factor/")) return;
+
+      const requestContext = {
+        ipAddress: ctx.headers?.get("x-forwarded-for") || "unknown",
+        userAgent: ctx.headers?.get("user-agent") || undefined,
+      };
+
+      try {
+        if (isSignIn) {
+          const email = typeof ctx.body?.email === "string" ? ctx.body.email : null;
+          if (!email) return;
+
+          if (isAPIError(ctx.context.returned)) {
+            await recordFailedLogin(email, requestContext);
+          } else if (ctx.context.newSession) {
+            await clearFailedLogins(ctx.context.newSession.user.id);
+          }
+        } else if (!isAPIError(ctx.context.returned)) {
+          await logTwoFactorRequest(
+            ctx.path,
+            ctx.context.returned,
+            ctx.context.newSession?.user.id ?? ctx.context.session?.user.id,
+            requestContext,
+          );
+        }
+      } catch (error) {
+        // Never turn an auth response into a server error
+        logError(
+          createAppError("Failed to record authentication event", {
+            code: "AUTH_EVENT_RECORD_FAILED",
+            details: { path: ctx.path, originalError: error },
+          }),
+          "high",
+        );
+      }
+    }),
     session: {
       created: async (session: any) => {
         console.log("Session created:", session.session?.id);
@@ -112,6 +226,47 @@ export const auth = betterAuth({
     },
   },
   
+  // Accounts created through Better Auth always start as a plain user.
+  // Invitations grant roles through the organisation membership, and
+  // admins change them explicitly; nothing is derived from the email.
+  databaseHooks: {
+    user: {
+      create: {
+        before: async (newUser: Record<string, unknown>) => {
+          return {
+            data: { ...newUser, role: "user", status: "active", banned: false },
+          };
+        },
+        after: async (
+          createdUser: { id: string; email: string },
+          ctx: { headers?: Headers } | null,
+        ) => {
+          try {
+            const invited = await hasPendingInvitation(createdUser.email);
+            await AuditLogger.logUserProvisioned(
+              createdUser.id,
+              invited ? "invitation" : "self_registration",
+              "user",
+              {
+                organizationId: null,
+                ipAddress: ctx?.headers?.get("x-forwarded-for") || "unknown",
+                userAgent: ctx?.headers?.get("user-agent") || undefined,
+              },
+            );
+          } catch (error) {
+            logError(
+              createAppError("Failed to record account creation", {
+                code: "AUTH_EVENT_RECORD_FAILED",
+                details: { userId: createdUser.id, originalError: error },
+              }),
+              "high",
+            );
+          }
+        },
+      },
+    },
+  },
+
   advanced: {
     generateId: () => {
       return `user_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
@@ -119,6 +274,7 @@ export const auth = betterAuth({
   },
   
   plugins: [
+    twoFactor({ issuer: TWO_FACTOR_ISSUER }),
     nextCookies(), // Enable automatic cookie handling for server actions
   ],
 });
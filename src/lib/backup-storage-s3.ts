@@ -0,0 +1,80 @@
+/**
+ * S3 backup storage
+ *
+ * Works with AWS S3 and S3-compatible services such as MinIO; with
+ * `BACKUP_S3_ENDPOINT` set, path-style URLs are used since those services
+ * rarely resolve bucket subdomains.
+ */
+
+import { createReadStream, createWriteStream } from "node:fs";
+import { stat } from "node:fs/promises";
+import { posix } from "node:path";
+import type { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  PutObjectCommand,
+  S3Client,
+} from "@aws-sdk/client-s3";
+import type { BackupStorage } from "./backup-storage";
+import { backupConfig } from "./env-validation";
+
+export class S3BackupStorage implements BackupStorage {
+  readonly name = "s3";
+  private client: S3Client;
+  private bucket: string;
+  private prefix: string;
+
+  constructor(config = backupConfig.s3) {
+    if (!config.bucket) {
+      throw new Error("BACKUP_S3_BUCKET not configured");
+    }
+    this.bucket = config.bucket;
+    this.prefix = config.prefix;
+    this.client = new S3Client({
+      region: config.region,
+      endpoint: config.endpoint || undefined,
+      forcePathStyle: !!config.endpoint,
+      credentials:
+        config.accessKeyId && config.secretAccessKey
+          ? {
+              accessKeyId: config.accessKeyId,
+              secretAccessKey: config.secretAccessKey,
+            }
+          : undefined,
+    });
+  }
+
+  // A single PUT takes objects up to 5 GB
+  async upload(localPath: string, fileName: string): Promise<string> {
+    const key = posix.join(this.prefix, fileName);
+    const { size } = await stat(localPath);
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+        Body: createReadStream(localPath),
+        ContentLength: size,
+        ContentType: "application/octet-stream",
+      }),
+    );
+    return key;
+  }
+
+  async download(key: string, localPath: string): Promise<void> {
+    const { Body } = await this.client.send(
+      new GetObjectCommand({ Bucket: this.bucket, Key: key }),
+    );
+    if (!Body) {
+      throw new Error(`Backup object ${key} is empty`);
+    }
+    await pipeline(Body as Readable, createWriteStream(localPath));
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(
+      new DeleteObjectCommand({ Bucket: this.bucket, Key: key }),
+    );
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * SFTP backup storage
+ *
+ * Each operation opens its own connection; backups are infrequent and a
+ * long-lived connection would only be dropped by the server in between.
+ * The server must present the host key pinned in `BACKUP_SFTP_HOST_KEY`,
+ * so backups are never handed to an impostor.
+ */
+
+import { createHash } from "node:crypto";
+import { readFile } from "node:fs/promises";
+import { posix } from "node:path";
+import SftpClient from "ssh2-sftp-client";
+import type { BackupStorage } from "./backup-storage";
+import { backupConfig } from "./env-validation";
+
+/**
+ * SHA-256 fingerprint of an SSH host key in wire format, as `ssh-keygen
+ * -lf` prints it
+ */
+export function hostKeyFingerprint(key: Buffer) {
+  const digest = createHash("sha256").update(key).digest("base64");
+  return `SHA256:${digest.replace(/=+$/, "")}`;
+}
+
+/**
+ * Accept only a server whose host key matches `fingerprint`
+ */
+export function createHostVerifier(fingerprint: string) {
+  return (key: Buffer) => hostKeyFingerprint(key) === fingerprint;
+}
+
+export class SftpBackupStorage implements BackupStorage {
+  readonly name = "sftp";
+
+  constructor(private config = backupConfig.sftp) {
+    if (!config.host || !config.username) {
+      throw new Error("BACKUP_SFTP_HOST and BACKUP_SFTP_USERNAME are required");
+    }
+    if (!config.hostKey) {
+      throw new Error("BACKUP_SFTP_HOST_KEY is required");
+    }
+  }
+
+  private async withClient<T>(
+    action: (client: SftpClient) => Promise<T>,
+  ): Promise<T> {
+    const { host, port, username, password, privateKeyPath, hostKey } =
+      this.config;
+    const client = new SftpClient();
+    await client.connect({
+      host,
+      port,
+      username,
+      password: password || undefined,
+      privateKey: privateKeyPath ? await readFile(privateKeyPath) : undefined,
+      hostVerifier: createHostVerifier(hostKey ?? ""),
+    });
+
+    try {
+      return await action(client);
+    } finally {
+      await client.end().catch((error) => {
+        console.error("Failed to close SFTP connection:", error);
+      });
+    }
+  }
+
+  async upload(localPath: string, fileName: string): Promise<string> {
+    const key = posix.join(this.config.dir, fileName);
+    await this.withClient(async (client) => {
+      await client.mkdir(this.config.dir, true);
+      await client.fastPut(localPath, key);
+    });
+    return key;
+  }
+
+  async download(key: string, localPath: string): Promise<void> {
+    await this.withClient((client) => client.fastGet(key, localPath));
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.withClient((client) => client.delete(key, true));
+  }
+}
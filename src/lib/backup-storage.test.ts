@@ -0,0 +1,183 @@
+import assert from "node:assert/strict";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { createServer, type IncomingMessage, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import { S3BackupStorage } from "./backup-storage-s3";
+import {
+  createHostVerifier,
+  hostKeyFingerprint,
+  SftpBackupStorage,
+} from "./backup-storage-sftp";
+
+// Local stub speaking the path-style S3 API that MinIO serves
+let server: Server;
+let endpoint: string;
+let workDir: string;
+const objects = new Map<string, Buffer>();
+
+async function readBody(request: IncomingMessage) {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks);
+}
+
+// Streaming uploads arrive as `aws-chunked`: hex size, data, and a final
+// empty chunk followed by checksum trailers
+function decodeAwsChunked(body: Buffer) {
+  const chunks: Buffer[] = [];
+  let offset = 0;
+  for (;;) {
+    const lineEnd = body.indexOf("\r\n", offset);
+    const size = Number.parseInt(
+      body.subarray(offset, lineEnd).toString().split(";")[0],
+      16,
+    );
+    if (size === 0) break;
+    chunks.push(body.subarray(lineEnd + 2, lineEnd + 2 + size));
+    offset = lineEnd + 2 + size + 2;
+  }
+  return Buffer.concat(chunks);
+}
+
+before(async () => {
+  workDir = await mkdtemp(join(tmpdir(), "backup-storage-test-"));
+
+  server = createServer(async (request, response) => {
+    const path = decodeURIComponent(
+      new URL(request.url ?? "/", "http://localhost").pathname,
+    );
+
+    if (request.method === "PUT") {
+      const body = await readBody(request);
+      const chunked =
+        request.headers["content-encoding"]?.includes("aws-chunked") ||
+        String(request.headers["x-amz-content-sha256"]).startsWith(
+          "STREAMING-",
+        );
+      objects.set(path, chunked ? decodeAwsChunked(body) : body);
+      response.writeHead(200, { ETag: '"stub"' });
+      response.end();
+    } else if (request.method === "GET" && objects.has(path)) {
+      const object = objects.get(path) as Buffer;
+      response.writeHead(200, {
+        "Content-Type": "application/octet-stream",
+        "Content-Length": object.length,
+      });
+      response.end(object);
+    } else if (request.method === "DELETE") {
+      objects.delete(path);
+      response.writeHead(204);
+      response.end();
+    } else {
+      response.writeHead(404, { "Content-Type": "application/xml" });
+      response.end(
+        "<Error><Code>NoSuchKey</Code><Message>Not found</Message></Error>",
+      );
+    }
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(async () => {
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+  await rm(workDir, { recursive: true, force: true });
+});
+
+describe("S3BackupStorage", () => {
+  const storage = () =>
+    new S3BackupStorage({
+      bucket: "tender-hub-backups",
+      region: "us-east-1",
+      endpoint,
+      accessKeyId: "minioadmin",
+      secretAccessKey: "minioadmin",
+      prefix: "database-backups",
+    });
+
+  it("uploads, downloads and deletes a backup file", async () => {
+    const contents = Buffer.from("-- pg_dump output\n".repeat(1000));
+    const localPath = join(workDir, "backup.sql");
+    await writeFile(localPath, contents);
+
+    const key = await storage().upload(localPath, "backup-2026-03-01.sql");
+    assert.equal(key, "database-backups/backup-2026-03-01.sql");
+    assert.deepEqual(
+      objects.get("/tender-hub-backups/database-backups/backup-2026-03-01.sql"),
+      contents,
+    );
+
+    const downloadPath = join(workDir, "downloaded.sql");
+    await storage().download(key, downloadPath);
+    assert.deepEqual(await readFile(downloadPath), contents);
+
+    await storage().delete(key);
+    assert.equal(objects.size, 0);
+  });
+
+  it("fails to download a missing backup", async () => {
+    await assert.rejects(
+      storage().download("database-backups/missing.sql", join(workDir, "x")),
+    );
+  });
+
+  it("requires a bucket", () => {
+    assert.throws(
+      () =>
+        new S3BackupStorage({
+          bucket: undefined,
+          region: "us-east-1",
+          endpoint,
+          accessKeyId: undefined,
+          secretAccessKey: undefined,
+          prefix: "database-backups",
+        }),
+      /BACKUP_S3_BUCKET/,
+    );
+  });
+});
+
+// Generated with `ssh-keygen -t ed25519`; the fingerprint is what
+// `ssh-keygen -lf` printed for it
+const hostKey = Buffer.from(
+  "AAAAC3NzaC1lZDI1NTE5AAAAIAbVNQ1qgPPhY3ekcSIzzE3c4kvAPQbHN2HWrIC+l/Vn",
+  "base64",
+);
+const fingerprint = "SHA256:3xzymYuqViJyPSkB5kHwLp8QQiU1lYRrEzTfwTqHJf0";
+
+describe("SFTP host key verification", () => {
+  it("fingerprints host keys the way ssh-keygen does", () => {
+    assert.equal(hostKeyFingerprint(hostKey), fingerprint);
+  });
+
+  it("accepts only the pinned host key", () => {
+    const verify = createHostVerifier(fingerprint);
+    const otherKey = Buffer.from(hostKey);
+    otherKey[otherKey.length - 1] ^= 1;
+
+    assert.equal(verify(hostKey), true);
+    assert.equal(verify(otherKey), false);
+    assert.equal(createHostVerifier("")(hostKey), false);
+  });
+
+  it("requires a host key fingerprint", () => {
+    assert.throws(
+      () =>
+        new SftpBackupStorage({
+          host: "backups.example.com",
+          port: 22,
+          username: "tender-hub",
+          password: "secret",
+          privateKeyPath: undefined,
+          dir: "backups",
+          hostKey: undefined,
+        }),
+      /BACKUP_SFTP_HOST_KEY/,
+    );
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * Backup storage targets
+ *
+ * Backups are written to a local file first and then stored in a target.
+ * `BACKUP_STORAGE` picks the target for new backups:
+ *
+ * - `local` (default): a directory on this machine, `BACKUP_LOCAL_DIR`.
+ *   Mount a volume there in containers, or the files go with the container.
+ * - `s3`: a bucket on S3 or any S3-compatible service such as MinIO
+ *   (`BACKUP_S3_*`; set `BACKUP_S3_ENDPOINT` for non-AWS services).
+ * - `sftp`: a directory on an SFTP server (`BACKUP_SFTP_*`). The server's
+ *   host key fingerprint is required in `BACKUP_SFTP_HOST_KEY`.
+ *
+ * Each backup records its target and key, so older backups can still be
+ * verified and restored after `BACKUP_STORAGE` changes, as long as their
+ * target stays configured.
+ *
+ * With `BACKUP_ENCRYPTION_KEY` set, files are encrypted with AES-256-GCM
+ * before they leave this machine. If the backup settings cannot be read,
+ * no storage target is available, so backups fail instead of silently
+ * going unencrypted to local disk.
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes } from "node:crypto";
+import { createReadStream, createWriteStream } from "node:fs";
+import { copyFile, mkdir, open, stat, unlink } from "node:fs/promises";
+import { basename, join, resolve } from "node:path";
+import { pipeline } from "node:stream/promises";
+import { backupConfig } from "./env-validation";
+
+export const BACKUP_STORAGE_NAMES = ["local", "s3", "sftp"] as const;
+export type BackupStorageName = (typeof BACKUP_STORAGE_NAMES)[number];
+
+export interface BackupStorage {
+  readonly name: BackupStorageName;
+  // Store a local file under `fileName`; returns the key to fetch it by
+  upload(localPath: string, fileName: string): Promise<string>;
+  download(key: string, localPath: string): Promise<void>;
+  // Missing files are not an error
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Files in a directory on this machine. Keys are absolute paths, which
+ * matches backups recorded before storage targets existed.
+ */
+export class LocalBackupStorage implements BackupStorage {
+  readonly name = "local";
+  private dir = resolve(process.cwd(), backupConfig.localDir);
+
+  async upload(localPath: string, fileName: string): Promise<string> {
+    await mkdir(this.dir, { recursive: true });
+    const key = join(this.dir, basename(fileName));
+    await copyFile(localPath, key);
+    return key;
+  }
+
+  async download(key: string, localPath: string): Promise<void> {
+    await copyFile(key, localPath);
+  }
+
+  async delete(key: string): Promise<void> {
+    await unlink(key).catch((error: NodeJS.ErrnoException) => {
+      if (error.code !== "ENOENT") throw error;
+    });
+  }
+}
+
+/**
+ * Targets with enough configuration to use
+ */
+export function getConfiguredBackupStorages(): BackupStorageName[] {
+  const { s3, sftp } = backupConfig;
+  const configured: Record<BackupStorageName, boolean> = {
+    local: true,
+    s3: !!s3.bucket,
+    sftp: !!sftp.host && !!sftp.username && !!sftp.hostKey,
+  };
+  return BACKUP_STORAGE_NAMES.filter((name) => configured[name]);
+}
+
+/**
+ * A storage target, by default the one new backups go to. The S3 and
+ * SFTP clients are only loaded when their target is used.
+ */
+export async function getBackupStorage(
+  name: string = backupConfig.storage,
+): Promise<BackupStorage> {
+  if (backupConfig.settingsError) {
+    throw new Error(
+      `Backup settings are invalid: ${backupConfig.settingsError}`,
+    );
+  }
+  if (!getConfiguredBackupStorages().includes(name as BackupStorageName)) {
+    throw new Error(`Backup storage "${name}" is not configured`);
+  }
+
+  switch (name) {
+    case "s3": {
+      const { S3BackupStorage } = await import("./backup-storage-s3");
+      return new S3BackupStorage();
+    }
+    case "sftp": {
+      const { SftpBackupStorage } = await import("./backup-storage-sftp");
+      return new SftpBackupStorage();
+    }
+    default:
+      return new LocalBackupStorage();
+  }
+}
+
+// Encrypted files are MAGIC, IV, ciphertext, then the GCM auth tag
+const ENCRYPTION_MAGIC = Buffer.from("THBKENC1");
+const IV_LENGTH = 12;
+const AUTH_TAG_LENGTH = 16;
+
+export function isBackupEncryptionEnabled() {
+  return !!backupConfig.encryptionKey;
+}
+
+function getEncryptionKey() {
+  const key = Buffer.from(backupConfig.encryptionKey ?? "", "base64");
+  if (key.length !== 32) {
+    throw new Error("BACKUP_ENCRYPTION_KEY must be 32 bytes, base64 encoded");
+  }
+  return key;
+}
+
+/**
+ * Encrypt `inputPath` into `outputPath` with the backup encryption key
+ */
+export async function encryptBackupFile(
+  inputPath: string,
+  outputPath: string,
+): Promise<void> {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv("aes-256-gcm", getEncryptionKey(), iv);
+
+  await pipeline(
+    createReadStream(inputPath),
+    cipher,
+    async function* (ciphertext: AsyncIterable<Buffer>) {
+      yield ENCRYPTION_MAGIC;
+      yield iv;
+      yield* ciphertext;
+      // Only available once the cipher has finished
+      yield cipher.getAuthTag();
+    },
+    createWriteStream(outputPath),
+  );
+}
+
+/**
+ * Decrypt a file written by `encryptBackupFile`. Fails if the file was
+ * changed or the key is wrong.
+ */
+export async function decryptBackupFile(
+  inputPath: string,
+  outputPath: string,
+): Promise<void> {
+  const { size } = await stat(inputPath);
+  const headerLength = ENCRYPTION_MAGIC.length + IV_LENGTH;
+  if (size < headerLength + AUTH_TAG_LENGTH) {
+    throw new Error("Encrypted backup file is truncated");
+  }
+
+  // The tag is at the end but must be known before the data is streamed
+  const header = Buffer.alloc(headerLength);
+  const authTag = Buffer.alloc(AUTH_TAG_LENGTH);
+  const file = await open(inputPath, "r");
+  try {
+    await file.read(header, 0, headerLength, 0);
+    await file.read(authTag, 0, AUTH_TAG_LENGTH, size - AUTH_TAG_LENGTH);
+  } finally {
+    await file.close();
+  }
+
+  if (!header.subarray(0, ENCRYPTION_MAGIC.length).equals(ENCRYPTION_MAGIC)) {
+    throw new Error("Backup file is not encrypted with a known format");
+  }
+
+  const decipher = createDecipheriv(
+    "aes-256-gcm",
+    getEncryptionKey(),
+    header.subarray(ENCRYPTION_MAGIC.length),
+  );
+  decipher.setAuthTag(authTag);
+
+  await pipeline(
+    createReadStream(inputPath, {
+      start: headerLength,
+      end: size - AUTH_TAG_LENGTH - 1,
+    }),
+    decipher,
+    createWriteStream(outputPath),
+  );
+}
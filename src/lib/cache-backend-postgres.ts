@@ -0,0 +1,209 @@
+/**
+ * Postgres cache backend
+ *
+ * Entries live in `analytics_cache` under `<cache>:<key>`, with the cache
+ * name in `query_hash`. Invalidations are rows in `cache_invalidations`;
+ * the HTTP driver cannot LISTEN, so each instance polls for rows published
+ * by the others.
+ */
+
+import { and, eq, gt, inArray, lt, max, ne, sql } from "drizzle-orm";
+import { db } from "@/db";
+import { analyticsCache, cacheInvalidations } from "@/db/schema";
+import {
+  type CacheBackend,
+  type CacheInvalidation,
+  cacheInstanceId,
+  invalidationMatches,
+  type StoredCacheEntry,
+} from "./cache-backend";
+
+// Re-read this far back each poll, so rows whose transaction committed
+// after a later row was seen are not missed
+const POLL_OVERLAP_MS = 30 * 1000;
+// Invalidations older than this have been seen by every live instance
+const INVALIDATION_MAX_AGE_MS = 60 * 60 * 1000;
+const PRUNE_EVERY_POLLS = 100;
+
+function storeKey(cache: string, key: string) {
+  return `${cache}:${key}`;
+}
+
+export class PostgresCacheBackend implements CacheBackend {
+  readonly shared = true;
+  private listeners = new Set<(invalidation: CacheInvalidation) => void>();
+  private pollTimer: NodeJS.Timeout | null = null;
+  private cursor: Date | null = null;
+  // Rows already applied in the overlap window, by id
+  private applied = new Map<number, number>();
+  private polls = 0;
+
+  constructor(private pollInterval: number) {}
+
+  async get(cache: string, key: string): Promise<StoredCacheEntry | null> {
+    const [entry] = await db
+      .select({
+        data: analyticsCache.data,
+        expiresAt: analyticsCache.expiresAt,
+      })
+      .from(analyticsCache)
+      .where(
+        and(
+          eq(analyticsCache.cacheKey, storeKey(cache, key)),
+          gt(analyticsCache.expiresAt, new Date()),
+        ),
+      )
+      .limit(1);
+    return entry
+      ? { value: entry.data, expiresAt: entry.expiresAt.getTime() }
+      : null;
+  }
+
+  async set(
+    cache: string,
+    key: string,
+    value: unknown,
+    expiresAt: number,
+  ): Promise<void> {
+    const now = new Date();
+    await db
+      .insert(analyticsCache)
+      .values({
+        cacheKey: storeKey(cache, key),
+        queryHash: cache,
+        data: value,
+        expiresAt: new Date(expiresAt),
+        lastAccessed: now,
+      })
+      .onConflictDoUpdate({
+        target: analyticsCache.cacheKey,
+        set: {
+          data: value,
+          expiresAt: new Date(expiresAt),
+          lastAccessed: now,
+          createdAt: now,
+        },
+      });
+  }
+
+  async invalidate(invalidation: CacheInvalidation): Promise<void> {
+    const { cache, keys, pattern } = invalidation;
+    const prefix = `${cache}:`;
+
+    if (keys) {
+      if (keys.length > 0) {
+        await db.delete(analyticsCache).where(
+          inArray(
+            analyticsCache.cacheKey,
+            keys.map((key) => storeKey(cache, key)),
+          ),
+        );
+      }
+    } else if (pattern) {
+      // Patterns are JavaScript regular expressions, which Postgres `~`
+      // does not read the same way, so match keys here as local caches do
+      const stored = await db
+        .select({ cacheKey: analyticsCache.cacheKey })
+        .from(analyticsCache)
+        .where(sql`starts_with(${analyticsCache.cacheKey}, ${prefix})`);
+      const matching = stored
+        .map(({ cacheKey }) => cacheKey)
+        .filter((cacheKey) =>
+          invalidationMatches(invalidation, cacheKey.slice(prefix.length)),
+        );
+      if (matching.length > 0) {
+        await db
+          .delete(analyticsCache)
+          .where(inArray(analyticsCache.cacheKey, matching));
+      }
+    } else {
+      await db
+        .delete(analyticsCache)
+        .where(sql`starts_with(${analyticsCache.cacheKey}, ${prefix})`);
+    }
+
+    await db.insert(cacheInvalidations).values({
+      cacheName: cache,
+      keys: keys ?? null,
+      pattern: pattern ?? null,
+      origin: cacheInstanceId,
+    });
+  }
+
+  subscribe(listener: (invalidation: CacheInvalidation) => void): () => void {
+    this.listeners.add(listener);
+    this.startPolling();
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private startPolling(): void {
+    if (this.pollTimer) return;
+    const poll = () => {
+      this.poll().catch((error) => {
+        console.error("Failed to poll cache invalidations:", error);
+      });
+    };
+    // Set the cursor now rather than on the first tick, or invalidations
+    // published before that tick would be skipped
+    poll();
+    this.pollTimer = setInterval(poll, this.pollInterval);
+    // Polling alone should not keep scripts and tests running
+    this.pollTimer.unref();
+  }
+
+  private async poll(): Promise<void> {
+    if (!this.cursor) {
+      // Start from the latest invalidation; earlier ones are already
+      // reflected in what this instance loads from now on
+      const [latest] = await db
+        .select({ createdAt: max(cacheInvalidations.createdAt) })
+        .from(cacheInvalidations);
+      this.cursor = latest?.createdAt ?? new Date(0);
+      return;
+    }
+
+    const since = new Date(this.cursor.getTime() - POLL_OVERLAP_MS);
+    const rows = await db
+      .select()
+      .from(cacheInvalidations)
+      .where(
+        and(
+          gt(cacheInvalidations.createdAt, since),
+          ne(cacheInvalidations.origin, cacheInstanceId),
+        ),
+      )
+      .orderBy(cacheInvalidations.id);
+
+    for (const row of rows) {
+      if (row.createdAt > this.cursor) this.cursor = row.createdAt;
+      if (this.applied.has(row.id)) continue;
+      this.applied.set(row.id, row.createdAt.getTime());
+
+      const invalidation: CacheInvalidation = {
+        cache: row.cacheName,
+        keys: row.keys ?? undefined,
+        pattern: row.pattern ?? undefined,
+      };
+      for (const listener of this.listeners) {
+        listener(invalidation);
+      }
+    }
+
+    for (const [id, createdAt] of this.applied) {
+      if (createdAt <= since.getTime()) this.applied.delete(id);
+    }
+
+    if (++this.polls % PRUNE_EVERY_POLLS === 0) {
+      await db
+        .delete(cacheInvalidations)
+        .where(
+          lt(
+            cacheInvalidations.createdAt,
+            new Date(Date.now() - INVALIDATION_MAX_AGE_MS),
+          ),
+        );
+    }
+  }
+}
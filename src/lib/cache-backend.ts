@@ -0,0 +1,104 @@
+/**
+ * Cache backends
+ *
+ * Caches keep hot entries in their own per-process map. A backend adds a
+ * store shared by every app instance and broadcasts invalidations, so
+ * replicas behind the load balancer drop the same keys. `CACHE_BACKEND`
+ * picks one:
+ *
+ * - `memory` (default): nothing is shared, each process keeps its own
+ *   entries as before. Fine for a single instance.
+ * - `postgres`: entries are stored in `analytics_cache` and invalidations
+ *   in `cache_invalidations`, which every instance polls.
+ *
+ * Values in a shared store must be JSON-serialisable.
+ */
+
+import { cacheConfig } from "./env-validation";
+
+export interface CacheInvalidation {
+  cache: string;
+  // Keys to drop, or a regular expression matching them; neither clears
+  // the whole cache
+  keys?: string[];
+  pattern?: string;
+}
+
+export interface StoredCacheEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+export interface CacheBackend {
+  // Whether entries and invalidations reach other instances
+  readonly shared: boolean;
+  get(cache: string, key: string): Promise<StoredCacheEntry | null>;
+  set(
+    cache: string,
+    key: string,
+    value: unknown,
+    expiresAt: number,
+  ): Promise<void>;
+  // Remove matching entries from the store and tell other instances
+  invalidate(invalidation: CacheInvalidation): Promise<void>;
+  // Invalidations published by other instances
+  subscribe(listener: (invalidation: CacheInvalidation) => void): () => void;
+}
+
+// Identifies this process, so it can skip invalidations it published
+export const cacheInstanceId = crypto.randomUUID();
+
+/**
+ * Keeps nothing itself; each cache's own map is the only store.
+ */
+export class MemoryCacheBackend implements CacheBackend {
+  readonly shared = false;
+
+  async get(): Promise<StoredCacheEntry | null> {
+    return null;
+  }
+
+  async set(): Promise<void> {}
+
+  async invalidate(): Promise<void> {}
+
+  subscribe(): () => void {
+    return () => {};
+  }
+}
+
+let backend: Promise<CacheBackend> | null = null;
+
+/**
+ * The configured backend, created on first use. Falls back to memory if
+ * the shared backend cannot be loaded.
+ */
+export function getCacheBackend(): Promise<CacheBackend> {
+  if (!backend) {
+    backend =
+      cacheConfig.backend === "postgres"
+        ? import("./cache-backend-postgres")
+            .then(
+              ({ PostgresCacheBackend }) =>
+                new PostgresCacheBackend(cacheConfig.invalidationPollInterval),
+            )
+            .catch((error) => {
+              console.error("Failed to load Postgres cache backend:", error);
+              return new MemoryCacheBackend();
+            })
+        : Promise.resolve(new MemoryCacheBackend());
+  }
+  return backend;
+}
+
+/**
+ * Whether an invalidation covers `key`.
+ */
+export function invalidationMatches(
+  invalidation: CacheInvalidation,
+  key: string,
+) {
+  if (invalidation.keys) return invalidation.keys.includes(key);
+  if (invalidation.pattern) return new RegExp(invalidation.pattern).test(key);
+  return true;
+}
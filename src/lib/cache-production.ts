@@ -1,8 +1,20 @@
 /**
  * Production-grade in-memory caching system with TTL support
  * Provides high-performance caching with automatic cleanup and monitoring
+ *
+ * Named caches also use the configured cache backend (see cache-backend.ts):
+ * writes go through to the shared store, `fetch` falls back to it on a
+ * local miss, and deletes are broadcast to every instance.
  */
 
+import {
+  type CacheBackend,
+  type CacheInvalidation,
+  getCacheBackend,
+  invalidationMatches,
+} from "./cache-backend";
+import { cacheRequests } from "./prometheus-metrics";
+
 // Use performance API that works in both Node.js and browser environments
 const getPerformanceNow = (): number => {
   if (typeof performance !== 'undefined') {
@@ -49,6 +61,7 @@ export interface CacheConfig {
   defaultTTL: number; // Default TTL in milliseconds
   cleanupInterval: number; // Cleanup interval in milliseconds
   enableMetrics: boolean; // Enable performance metrics
+  name?: string; // Shared backend namespace and metrics label
 }
 
 /**
@@ -64,6 +77,7 @@ export class ProductionCache<T = any> {
   };
   private cleanupTimer: NodeJS.Timeout | null = null;
   private config: CacheConfig;
+  private backend: CacheBackend | null = null;
 
   constructor(config: Partial<CacheConfig> = {}) {
     this.config = {
@@ -72,18 +86,71 @@ export class ProductionCache<T = any> {
       defaultTTL: config.defaultTTL || 300000, // 5 minutes default
       cleanupInterval: config.cleanupInterval || 60000, // 1 minute cleanup
       enableMetrics: config.enableMetrics !== false,
+      name: config.name,
     };
 
     // Start automatic cleanup
     this.startCleanup();
+
+    if (this.config.name) {
+      this.connectBackend(this.config.name);
+    }
   }
 
   /**
-   * Set cache entry with TTL
+   * Set cache entry with TTL, writing through to the shared store
    */
   set(key: string, data: T, ttl?: number): void {
-    const now = Date.now();
     const entryTTL = ttl || this.config.defaultTTL;
+    this.setLocal(key, data, entryTTL);
+
+    const { name } = this.config;
+    if (name && this.backend?.shared) {
+      this.backend
+        .set(name, key, data, Date.now() + entryTTL)
+        .catch((error) => console.error(`Failed to write ${name} cache entry:`, error));
+    }
+  }
+
+  /**
+   * Get an entry, falling back to the shared store when this instance
+   * does not have it
+   */
+  async fetch(key: string): Promise<T | null> {
+    const local = this.get(key);
+    const { name } = this.config;
+    if (local !== null || !name || !this.backend?.shared) {
+      return local;
+    }
+
+    try {
+      const stored = await this.backend.get(name, key);
+      if (!stored) return null;
+      this.setLocal(key, stored.value as T, stored.expiresAt - Date.now());
+      return stored.value as T;
+    } catch (error) {
+      console.error(`Failed to read ${name} cache entry:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Get an entry, or load and cache it
+   */
+  async getOrSet(key: string, load: () => Promise<T>, ttl?: number): Promise<T> {
+    const cached = await this.fetch(key);
+    if (cached !== null) return cached;
+
+    const data = await load();
+    this.set(key, data, ttl);
+    return data;
+  }
+
+  /**
+   * Store an entry in this instance only
+   */
+  private setLocal(key: string, data: T, ttl: number): void {
+    const now = Date.now();
     const size = this.estimateSize(data);
 
     // Check if we need to evict entries
@@ -92,7 +159,7 @@ export class ProductionCache<T = any> {
     const entry: CacheEntry<T> = {
       data,
       timestamp: now,
-      ttl: entryTTL,
+      ttl,
       accessCount: 0,
       lastAccessed: now,
       size,
@@ -111,6 +178,7 @@ export class ProductionCache<T = any> {
     
     if (!entry) {
       this.stats.misses++;
+      this.recordLookup("miss");
       return null;
     }
 
@@ -120,6 +188,7 @@ export class ProductionCache<T = any> {
     if (now - entry.timestamp > entry.ttl) {
       this.cache.delete(key);
       this.stats.misses++;
+      this.recordLookup("miss");
       return null;
     }
 
@@ -127,6 +196,7 @@ export class ProductionCache<T = any> {
     entry.accessCount++;
     entry.lastAccessed = now;
     this.stats.hits++;
+    this.recordLookup("hit");
 
     // Track performance metrics
     if (this.config.enableMetrics) {
@@ -155,16 +225,27 @@ export class ProductionCache<T = any> {
   }
 
   /**
-   * Delete cache entry
+   * Delete cache entry on every instance
    */
   delete(key: string): boolean {
+    this.broadcast({ keys: [key] });
     return this.cache.delete(key);
   }
 
   /**
-   * Clear all cache entries
+   * Delete entries whose keys match a regular expression on every
+   * instance. Returns how many this instance held.
+   */
+  deleteMatching(pattern: string): number {
+    this.broadcast({ pattern });
+    return this.applyInvalidation({ cache: this.config.name ?? '', pattern });
+  }
+
+  /**
+   * Clear all cache entries on every instance
    */
   clear(): void {
+    this.broadcast({});
     this.cache.clear();
     this.resetStats();
   }
@@ -387,6 +468,57 @@ export class ProductionCache<T = any> {
     };
   }
 
+  /**
+   * Load the backend and drop entries other instances invalidate
+   */
+  private connectBackend(name: string): void {
+    getCacheBackend()
+      .then((backend) => {
+        this.backend = backend;
+        backend.subscribe((invalidation) => {
+          if (invalidation.cache === name) {
+            this.applyInvalidation(invalidation);
+          }
+        });
+      })
+      .catch((error) => console.error(`Failed to connect ${name} cache:`, error));
+  }
+
+  /**
+   * Tell the backend, and through it other instances, to drop entries
+   */
+  private broadcast(invalidation: Omit<CacheInvalidation, 'cache'>): void {
+    const { name } = this.config;
+    if (!name || !this.backend?.shared) return;
+
+    this.backend
+      .invalidate({ ...invalidation, cache: name })
+      .catch((error) => console.error(`Failed to invalidate ${name} cache:`, error));
+  }
+
+  /**
+   * Drop local entries covered by an invalidation
+   */
+  private applyInvalidation(invalidation: CacheInvalidation): number {
+    let removed = 0;
+    for (const key of Array.from(this.cache.keys())) {
+      if (invalidationMatches(invalidation, key)) {
+        this.cache.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  /**
+   * Count a lookup for Prometheus; unlike stats this survives clear()
+   */
+  private recordLookup(result: 'hit' | 'miss'): void {
+    if (this.config.name) {
+      cacheRequests.inc({ cache: this.config.name, result });
+    }
+  }
+
   /**
    * Destroy cache and cleanup resources
    */
@@ -400,6 +532,7 @@ export class ProductionCache<T = any> {
  * Global cache instances for different use cases
  */
 export const dashboardCache = new ProductionCache({
+  name: 'dashboard',
   maxSize: 500,
   maxMemory: 50 * 1024 * 1024, // 50MB
   defaultTTL: 300000, // 5 minutes
@@ -407,6 +540,7 @@ export const dashboardCache = new ProductionCache({
 });
 
 export const publisherCache = new ProductionCache({
+  name: 'publisher',
   maxSize: 1000,
   maxMemory: 100 * 1024 * 1024, // 100MB
   defaultTTL: 600000, // 10 minutes
@@ -414,6 +548,7 @@ export const publisherCache = new ProductionCache({
 });
 
 export const analyticsCache = new ProductionCache({
+  name: 'analytics',
   maxSize: 200,
   maxMemory: 20 * 1024 * 1024, // 20MB
   defaultTTL: 900000, // 15 minutes
@@ -421,6 +556,7 @@ export const analyticsCache = new ProductionCache({
 });
 
 export const sessionCache = new ProductionCache({
+  name: 'session',
   maxSize: 2000,
   maxMemory: 10 * 1024 * 1024, // 10MB
   defaultTTL: 1800000, // 30 minutes
@@ -440,11 +576,17 @@ export class CacheInvalidator {
     this.caches.set('session', sessionCache);
   }
 
+  /**
+   * Include another cache in pattern invalidation and stats
+   */
+  register(name: string, cache: ProductionCache): void {
+    this.caches.set(name, cache);
+  }
+
   /**
    * Invalidate cache entries by pattern
    */
   invalidateByPattern(pattern: string, cacheNames?: string[]): number {
-    const regex = new RegExp(pattern);
     let totalInvalidated = 0;
 
     const cachesToCheck = cacheNames 
@@ -453,14 +595,7 @@ export class CacheInvalidator {
 
     for (const cache of cachesToCheck) {
       if (!cache) continue;
-
-      const keys = cache.keys();
-      for (const key of keys) {
-        if (regex.test(key)) {
-          cache.delete(key);
-          totalInvalidated++;
-        }
-      }
+      totalInvalidated += cache.deleteMatching(pattern);
     }
 
     return totalInvalidated;
@@ -0,0 +1,120 @@
+/**
+ * Calendar feed
+ *
+ * Per-user iCalendar subscription for tender deadlines. The feed URL
+ * carries a secret token instead of a session, so calendar apps such as
+ * Outlook and Google Calendar can poll it. It publishes the same tenders
+ * as the dashboard bookmarks page: closing dates and briefing sessions.
+ */
+
+import { randomBytes } from "node:crypto";
+import { subDays } from "date-fns";
+import { eq } from "drizzle-orm";
+import { db } from "@/db";
+import { calendarFeedTokens } from "@/db/schema";
+import { buildIcsCalendar, type IcsEvent } from "@/lib/ical";
+import {
+  type DeadlineTender,
+  getBookmarkedTenders,
+} from "@/lib/tender-deadlines";
+
+const APP_URL = process.env.NEXT_PUBLIC_APP_URL || "https://tenderhub.com";
+
+// Recently closed tenders stay in the feed so they don't vanish mid-week
+export const FEED_HISTORY_DAYS = 30;
+
+const CLOSING_EVENT_MINUTES = 30;
+const BRIEFING_EVENT_MINUTES = 60;
+const ALARM_MINUTES_BEFORE = 24 * 60;
+
+export function generateCalendarFeedToken() {
+  return randomBytes(32).toString("hex");
+}
+
+export function getCalendarFeedUrl(token: string, baseUrl = APP_URL) {
+  return `${baseUrl}/api/calendar/${token}.ics`;
+}
+
+/**
+ * Map deadline tenders to calendar events: one for the closing date and
+ * one for the briefing session when there is one. UIDs are stable so
+ * calendar apps update events in place when a tender changes.
+ */
+export function buildTenderFeedEvents(
+  tenders: DeadlineTender[],
+  appUrl = APP_URL,
+) {
+  const events: IcsEvent[] = [];
+
+  for (const tender of tenders) {
+    const closingDate = new Date(tender.closingDate);
+    const details = [
+      `Reference: ${tender.referenceNumber}`,
+      `Publisher: ${tender.publisherName}`,
+      tender.provinceName ? `Province: ${tender.provinceName}` : null,
+      tender.sourceUrl ? `Tender documents: ${tender.sourceUrl}` : null,
+    ]
+      .filter(Boolean)
+      .join("\n");
+    const status = tender.status === "cancelled" ? "CANCELLED" : "CONFIRMED";
+
+    events.push({
+      uid: `tender-${tender.id}-closing@tenderhub`,
+      start: closingDate,
+      end: new Date(closingDate.getTime() + CLOSING_EVENT_MINUTES * 60_000),
+      summary: `Closes: ${tender.referenceNumber} – ${tender.title}`,
+      description: details,
+      url: tender.sourceUrl ?? `${appUrl}/dashboard/calendar`,
+      status,
+      alarmMinutesBefore: ALARM_MINUTES_BEFORE,
+    });
+
+    if (tender.briefingDate) {
+      const briefingDate = new Date(tender.briefingDate);
+      events.push({
+        uid: `tender-${tender.id}-briefing@tenderhub`,
+        start: briefingDate,
+        end: new Date(briefingDate.getTime() + BRIEFING_EVENT_MINUTES * 60_000),
+        summary: `${tender.briefingCompulsory ? "Compulsory briefing" : "Briefing"}: ${tender.referenceNumber} – ${tender.title}`,
+        description: details,
+        location: tender.briefingVenue ?? undefined,
+        url: tender.sourceUrl ?? `${appUrl}/dashboard/calendar`,
+        status,
+        alarmMinutesBefore: ALARM_MINUTES_BEFORE,
+      });
+    }
+  }
+
+  return events;
+}
+
+/**
+ * Build the `.ics` document for a feed token, or null when the token is
+ * unknown or has been revoked.
+ */
+export async function getCalendarFeed(token: string, now = new Date()) {
+  const [feed] = await db
+    .select({ id: calendarFeedTokens.id, userId: calendarFeedTokens.userId })
+    .from(calendarFeedTokens)
+    .where(eq(calendarFeedTokens.token, token))
+    .limit(1);
+
+  if (!feed) return null;
+
+  const tenders = await getBookmarkedTenders(
+    feed.userId,
+    subDays(now, FEED_HISTORY_DAYS),
+  );
+
+  await db
+    .update(calendarFeedTokens)
+    .set({ lastAccessedAt: now })
+    .where(eq(calendarFeedTokens.id, feed.id));
+
+  return buildIcsCalendar({
+    name: "Tender Hub deadlines",
+    description: "Closing dates and briefings for your tracked tenders",
+    events: buildTenderFeedEvents(tenders),
+    generatedAt: now,
+  });
+}
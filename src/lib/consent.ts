@@ -0,0 +1,219 @@
+/**
+ * Consent management
+ *
+ * Every choice a user makes is a row in `user_consent`, tagged with the
+ * policy version it was made under. Rows are revoked rather than deleted
+ * when the user changes their mind, so the table doubles as the consent
+ * trail.
+ *
+ * The analytics category gates the visit tracker and anything written to
+ * `page_views`, `sessions`, `user_interactions` and `events`. Events are
+ * written through `recordAnalyticsEvent`, which applies the check.
+ */
+
+import { and, desc, eq, isNull } from "drizzle-orm";
+import { db } from "@/db";
+import { events, organizationMember, userConsent } from "@/db/schema";
+import { type AuditLogContext, AuditLogger } from "@/lib/audit-logger";
+import {
+  CONSENT_POLICY_VERSIONS,
+  type ConsentCategory,
+  type ConsentPreferences,
+  CURRENT_CONSENT_POLICY_VERSION,
+  OPTIONAL_CONSENT_CATEGORIES,
+  type OptionalConsentCategory,
+} from "@/lib/validations/consent";
+
+export interface ConsentStatus {
+  // Policy version of the user's latest decision
+  version: string | null;
+  preferences: ConsentPreferences;
+  // The user has not decided under the current policy yet
+  needsReview: boolean;
+}
+
+export interface ConsentReportRow {
+  version: string;
+  effectiveDate: string | null;
+  // Members who made a choice under this version
+  members: number;
+  categories: Record<
+    OptionalConsentCategory,
+    { decided: number; granted: number }
+  >;
+}
+
+/**
+ * A user's current choices, one per category.
+ */
+export async function getConsentStatus(userId: string): Promise<ConsentStatus> {
+  const rows = await db
+    .select({
+      consentType: userConsent.consentType,
+      granted: userConsent.granted,
+      version: userConsent.version,
+    })
+    .from(userConsent)
+    .where(and(eq(userConsent.userId, userId), isNull(userConsent.revokedAt)))
+    .orderBy(desc(userConsent.grantedAt));
+
+  const latest = new Map<string, (typeof rows)[number]>();
+  for (const row of rows) {
+    if (!latest.has(row.consentType)) latest.set(row.consentType, row);
+  }
+
+  return {
+    version: rows[0]?.version ?? null,
+    preferences: {
+      analytics: latest.get("analytics")?.granted ?? false,
+      marketing: latest.get("marketing")?.granted ?? false,
+    },
+    needsReview: OPTIONAL_CONSENT_CATEGORIES.some(
+      (category) =>
+        latest.get(category)?.version !== CURRENT_CONSENT_POLICY_VERSION,
+    ),
+  };
+}
+
+/**
+ * Whether the user currently grants a category. Nothing is granted until
+ * the user says so.
+ */
+export async function hasConsent(userId: string, category: ConsentCategory) {
+  if (category === "necessary") return true;
+
+  const [consent] = await db
+    .select({ granted: userConsent.granted })
+    .from(userConsent)
+    .where(
+      and(
+        eq(userConsent.userId, userId),
+        eq(userConsent.consentType, category),
+        isNull(userConsent.revokedAt),
+      ),
+    )
+    .orderBy(desc(userConsent.grantedAt))
+    .limit(1);
+
+  return consent?.granted ?? false;
+}
+
+/**
+ * Write an analytics event if consent allows it; returns whether it was
+ * written. System events describe jobs rather than people and are always
+ * written. Any other event needs a user who grants analytics, so events
+ * about people who cannot be asked, such as invitees, are dropped.
+ */
+export async function recordAnalyticsEvent(event: typeof events.$inferInsert) {
+  if (event.eventType !== "system") {
+    if (!event.userId || !(await hasConsent(event.userId, "analytics"))) {
+      return false;
+    }
+  }
+
+  await db.insert(events).values(event);
+  return true;
+}
+
+/**
+ * Record a user's choices under the current policy version, revoking
+ * their earlier choices.
+ */
+export async function setConsentPreferences(
+  userId: string,
+  preferences: ConsentPreferences,
+  context: AuditLogContext = {},
+) {
+  await db
+    .update(userConsent)
+    .set({ revokedAt: new Date() })
+    .where(and(eq(userConsent.userId, userId), isNull(userConsent.revokedAt)));
+
+  const choices: Record<ConsentCategory, boolean> = {
+    necessary: true,
+    ...preferences,
+  };
+
+  await db.insert(userConsent).values(
+    Object.entries(choices).map(([consentType, granted]) => ({
+      userId,
+      consentType,
+      granted,
+      version: CURRENT_CONSENT_POLICY_VERSION,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+    })),
+  );
+
+  await AuditLogger.logSystemAccess(userId, "consent", {
+    ...context,
+    newValues: { ...preferences, version: CURRENT_CONSENT_POLICY_VERSION },
+    metadata: { action: "consent_updated" },
+  });
+}
+
+/**
+ * Share of an organisation's members granting each category, per policy
+ * version. A member who changed their mind under one version counts once,
+ * with their latest choice.
+ */
+export async function getConsentReport(
+  organizationId: string,
+): Promise<ConsentReportRow[]> {
+  const decisions = await db
+    .selectDistinctOn(
+      [userConsent.userId, userConsent.version, userConsent.consentType],
+      {
+        userId: userConsent.userId,
+        version: userConsent.version,
+        consentType: userConsent.consentType,
+        granted: userConsent.granted,
+      },
+    )
+    .from(userConsent)
+    .innerJoin(
+      organizationMember,
+      eq(userConsent.userId, organizationMember.userId),
+    )
+    .where(eq(organizationMember.organizationId, organizationId))
+    .orderBy(
+      userConsent.userId,
+      userConsent.version,
+      userConsent.consentType,
+      desc(userConsent.grantedAt),
+    );
+
+  const versions = [
+    ...CONSENT_POLICY_VERSIONS.map((policy) => policy.version as string),
+    ...decisions.map((decision) => decision.version),
+  ];
+
+  return [...new Set(versions)].map((version) => {
+    const forVersion = decisions.filter(
+      (decision) => decision.version === version,
+    );
+    const categories = Object.fromEntries(
+      OPTIONAL_CONSENT_CATEGORIES.map((category) => {
+        const decided = forVersion.filter(
+          (decision) => decision.consentType === category,
+        );
+        return [
+          category,
+          {
+            decided: decided.length,
+            granted: decided.filter((decision) => decision.granted).length,
+          },
+        ];
+      }),
+    ) as ConsentReportRow["categories"];
+
+    return {
+      version,
+      effectiveDate:
+        CONSENT_POLICY_VERSIONS.find((policy) => policy.version === version)
+          ?.effectiveDate ?? null,
+      members: new Set(forVersion.map((decision) => decision.userId)).size,
+      categories,
+    };
+  });
+}
@@ -0,0 +1,330 @@
+/**
+ * Publisher coverage
+ *
+ * Managers split publishers among the members of their organisation,
+ * either one publisher at a time or a whole province at once. A member
+ * covers every publisher assigned to them directly or through a province.
+ *
+ * Visits are read from `page_views`, matching a view's URL against the
+ * publisher's website or procurement portal.
+ */
+
+import { and, asc, eq, inArray, max, or } from "drizzle-orm";
+import { db } from "@/db";
+import {
+  coverageAssignments,
+  organizationMember,
+  pageViews,
+  provinces,
+  publishers,
+  user,
+} from "@/db/schema";
+import { type AuditLogContext, AuditLogger } from "@/lib/audit-logger";
+import { COVERAGE_STALE_DAYS } from "@/lib/validations/coverage";
+
+export interface MemberCoverage {
+  publisherIds: string[];
+  provinceIds: string[];
+}
+
+export interface CoveredPublisher {
+  id: string;
+  name: string;
+  website: string | null;
+  procurementPortalUrl: string | null;
+  provinceName: string;
+  // Assigned directly, or through the publisher's province
+  assignedVia: "publisher" | "province";
+  lastVisitedAt: Date | null;
+}
+
+export interface CoverageReportRow {
+  id: string;
+  name: string;
+  provinceName: string;
+  assignees: Array<{ id: string; name: string }>;
+  lastVisitedAt: Date | null;
+}
+
+export interface CoverageReport {
+  staleDays: number;
+  totalPublishers: number;
+  unassigned: CoverageReportRow[];
+  stale: CoverageReportRow[];
+}
+
+function publisherUrls(publisher: {
+  website: string | null;
+  procurementPortalUrl: string | null;
+}) {
+  return [publisher.website, publisher.procurementPortalUrl].filter(
+    (url): url is string => !!url,
+  );
+}
+
+/**
+ * Latest view of each URL, by one user or by any member of the
+ * organisation.
+ */
+async function getLastVisits(
+  urls: string[],
+  viewers: { organizationId: string } | { userId: string },
+) {
+  if (urls.length === 0) return new Map<string, Date>();
+
+  const visits =
+    "userId" in viewers
+      ? await db
+          .select({
+            url: pageViews.url,
+            lastVisitedAt: max(pageViews.timestamp),
+          })
+          .from(pageViews)
+          .where(
+            and(
+              eq(pageViews.userId, viewers.userId),
+              inArray(pageViews.url, urls),
+            ),
+          )
+          .groupBy(pageViews.url)
+      : await db
+          .select({
+            url: pageViews.url,
+            lastVisitedAt: max(pageViews.timestamp),
+          })
+          .from(pageViews)
+          .innerJoin(
+            organizationMember,
+            eq(pageViews.userId, organizationMember.userId),
+          )
+          .where(
+            and(
+              eq(organizationMember.organizationId, viewers.organizationId),
+              inArray(pageViews.url, urls),
+            ),
+          )
+          .groupBy(pageViews.url);
+
+  return new Map(
+    visits.flatMap((visit) =>
+      visit.lastVisitedAt ? [[visit.url, visit.lastVisitedAt] as const] : [],
+    ),
+  );
+}
+
+function latestVisit(
+  publisher: { website: string | null; procurementPortalUrl: string | null },
+  visits: Map<string, Date>,
+) {
+  let latest: Date | null = null;
+  for (const url of publisherUrls(publisher)) {
+    const visitedAt = visits.get(url);
+    if (visitedAt && (!latest || visitedAt > latest)) latest = visitedAt;
+  }
+  return latest;
+}
+
+/**
+ * Publisher and province ids assigned to a member.
+ */
+export async function getMemberCoverage(
+  organizationId: string,
+  userId: string,
+): Promise<MemberCoverage> {
+  const assignments = await db
+    .select({
+      publisherId: coverageAssignments.publisherId,
+      provinceId: coverageAssignments.provinceId,
+    })
+    .from(coverageAssignments)
+    .where(
+      and(
+        eq(coverageAssignments.organizationId, organizationId),
+        eq(coverageAssignments.userId, userId),
+      ),
+    );
+
+  return {
+    publisherIds: assignments.flatMap((a) => a.publisherId ?? []),
+    provinceIds: assignments.flatMap((a) => a.provinceId ?? []),
+  };
+}
+
+/**
+ * Replace a member's assignments. Returns false when the user is not a
+ * member of the organisation.
+ */
+export async function setMemberCoverage(
+  organizationId: string,
+  userId: string,
+  coverage: MemberCoverage,
+  context: AuditLogContext & { userId: string },
+) {
+  const [membership] = await db
+    .select({ id: organizationMember.id })
+    .from(organizationMember)
+    .where(
+      and(
+        eq(organizationMember.organizationId, organizationId),
+        eq(organizationMember.userId, userId),
+      ),
+    )
+    .limit(1);
+  if (!membership) return false;
+
+  await db
+    .delete(coverageAssignments)
+    .where(
+      and(
+        eq(coverageAssignments.organizationId, organizationId),
+        eq(coverageAssignments.userId, userId),
+      ),
+    );
+
+  const rows = [
+    ...coverage.publisherIds.map((publisherId) => ({ publisherId })),
+    ...coverage.provinceIds.map((provinceId) => ({ provinceId })),
+  ].map((target) => ({
+    ...target,
+    organizationId,
+    userId,
+    assignedBy: context.userId,
+  }));
+
+  if (rows.length > 0) {
+    await db.insert(coverageAssignments).values(rows).onConflictDoNothing();
+  }
+
+  await AuditLogger.logCoverageAssigned(context.userId, userId, coverage, {
+    ...context,
+    organizationId,
+  });
+  return true;
+}
+
+/**
+ * Publishers a member covers, with when they last visited each, least
+ * recently visited first.
+ */
+export async function getCoveredPublishers(
+  organizationId: string,
+  userId: string,
+): Promise<CoveredPublisher[]> {
+  const { publisherIds, provinceIds } = await getMemberCoverage(
+    organizationId,
+    userId,
+  );
+  if (publisherIds.length === 0 && provinceIds.length === 0) return [];
+
+  const covered = await db
+    .select({
+      id: publishers.id,
+      name: publishers.name,
+      website: publishers.website,
+      procurementPortalUrl: publishers.procurementPortalUrl,
+      provinceId: publishers.province_id,
+      provinceName: provinces.name,
+    })
+    .from(publishers)
+    .innerJoin(provinces, eq(publishers.province_id, provinces.id))
+    .where(
+      or(
+        publisherIds.length > 0
+          ? inArray(publishers.id, publisherIds)
+          : undefined,
+        provinceIds.length > 0
+          ? inArray(publishers.province_id, provinceIds)
+          : undefined,
+      ),
+    )
+    .orderBy(asc(publishers.name));
+
+  const visits = await getLastVisits(covered.flatMap(publisherUrls), {
+    userId,
+  });
+
+  return covered
+    .map((publisher) => ({
+      id: publisher.id,
+      name: publisher.name,
+      website: publisher.website,
+      procurementPortalUrl: publisher.procurementPortalUrl,
+      provinceName: publisher.provinceName,
+      assignedVia: publisherIds.includes(publisher.id)
+        ? ("publisher" as const)
+        : ("province" as const),
+      lastVisitedAt: latestVisit(publisher, visits),
+    }))
+    .sort(
+      (a, b) =>
+        (a.lastVisitedAt?.getTime() ?? 0) - (b.lastVisitedAt?.getTime() ?? 0),
+    );
+}
+
+/**
+ * Publishers nobody in the organisation covers, and publishers no member
+ * has visited in `staleDays` days.
+ */
+export async function getCoverageReport(
+  organizationId: string,
+  staleDays = COVERAGE_STALE_DAYS,
+): Promise<CoverageReport> {
+  const [allPublishers, assignments] = await Promise.all([
+    db
+      .select({
+        id: publishers.id,
+        name: publishers.name,
+        website: publishers.website,
+        procurementPortalUrl: publishers.procurementPortalUrl,
+        provinceId: publishers.province_id,
+        provinceName: provinces.name,
+      })
+      .from(publishers)
+      .innerJoin(provinces, eq(publishers.province_id, provinces.id))
+      .orderBy(asc(provinces.name), asc(publishers.name)),
+    db
+      .select({
+        userId: coverageAssignments.userId,
+        userName: user.name,
+        publisherId: coverageAssignments.publisherId,
+        provinceId: coverageAssignments.provinceId,
+      })
+      .from(coverageAssignments)
+      .innerJoin(user, eq(coverageAssignments.userId, user.id))
+      .where(eq(coverageAssignments.organizationId, organizationId)),
+  ]);
+
+  const visits = await getLastVisits(allPublishers.flatMap(publisherUrls), {
+    organizationId,
+  });
+  const staleBefore = Date.now() - staleDays * 24 * 60 * 60 * 1000;
+
+  const rows = allPublishers.map((publisher) => {
+    const assignees = new Map<string, string>();
+    for (const assignment of assignments) {
+      if (
+        assignment.publisherId === publisher.id ||
+        assignment.provinceId === publisher.provinceId
+      ) {
+        assignees.set(assignment.userId, assignment.userName);
+      }
+    }
+
+    return {
+      id: publisher.id,
+      name: publisher.name,
+      provinceName: publisher.provinceName,
+      assignees: [...assignees].map(([id, name]) => ({ id, name })),
+      lastVisitedAt: latestVisit(publisher, visits),
+    };
+  });
+
+  return {
+    staleDays,
+    totalPublishers: rows.length,
+    unassigned: rows.filter((row) => row.assignees.length === 0),
+    stale: rows.filter(
+      (row) => !row.lastVisitedAt || row.lastVisitedAt.getTime() < staleBefore,
+    ),
+  };
+}
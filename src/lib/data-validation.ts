@@ -8,7 +8,10 @@ import {
   auditLog,
   profileUpdateRequest 
 } from "@/db/schema";
-import { eq, count, isNull, sql } from "drizzle-orm";
+import { eq, count, isNull } from "drizzle-orm";
+
+// Any database the checks can read from, e.g. a restored backup
+export type IntegrityCheckDatabase = Pick<typeof db, "select">;
 
 export interface ValidationResult {
   isValid: boolean;
@@ -39,13 +42,13 @@ export interface DataIntegrityReport {
 /**
  * Validates province data integrity
  */
-export async function validateProvinces(): Promise<ValidationResult> {
+export async function validateProvinces(database: IntegrityCheckDatabase = db): Promise<ValidationResult> {
   const errors: string[] = [];
   const warnings: string[] = [];
   
   try {
     // Get all provinces
-    const allProvinces = await db.select().from(provinces);
+    const allProvinces = await database.select().from(provinces);
     const totalRecords = allProvinces.length;
 
     // Check if we have at least 9 SA provinces (allowing for test data)
@@ -126,13 +129,13 @@ export async function validateProvinces(): Promise<ValidationResult> {
 /**
  * Validates publisher data integrity and relationships
  */
-export async function validatePublishers(): Promise<ValidationResult> {
+export async function validatePublishers(database: IntegrityCheckDatabase = db): Promise<ValidationResult> {
   const errors: string[] = [];
   const warnings: string[] = [];
   
   try {
     // Get all publishers with province information
-    const allPublishers = await db
+    const allPublishers = await database
       .select({
         id: publishers.id,
         name: publishers.name,
@@ -236,12 +239,12 @@ export async function validatePublishers(): Promise<ValidationResult> {
 /**
  * Validates user data integrity
  */
-export async function validateUsers(): Promise<ValidationResult> {
+export async function validateUsers(database: IntegrityCheckDatabase = db): Promise<ValidationResult> {
   const errors: string[] = [];
   const warnings: string[] = [];
   
   try {
-    const allUsers = await db.select().from(user);
+    const allUsers = await database.select().from(user);
     const totalRecords = allUsers.length;
     let invalidRecords = 0;
 
@@ -322,13 +325,13 @@ export async function validateUsers(): Promise<ValidationResult> {
 /**
  * Validates user bookmarks and relationships
  */
-export async function validateBookmarks(): Promise<ValidationResult> {
+export async function validateBookmarks(database: IntegrityCheckDatabase = db): Promise<ValidationResult> {
   const errors: string[] = [];
   const warnings: string[] = [];
   
   try {
     // Get all bookmarks with user and publisher information
-    const allBookmarks = await db
+    const allBookmarks = await database
       .select({
         id: userBookmarks.id,
         userId: userBookmarks.userId,
@@ -397,12 +400,12 @@ export async function validateBookmarks(): Promise<ValidationResult> {
 /**
  * Validates invitation data and cleanup expired invitations
  */
-export async function validateInvitations(): Promise<ValidationResult> {
+export async function validateInvitations(database: IntegrityCheckDatabase = db): Promise<ValidationResult> {
   const errors: string[] = [];
   const warnings: string[] = [];
   
   try {
-    const allInvitations = await db
+    const allInvitations = await database
       .select({
         id: invitation.id,
         email: invitation.email,
@@ -480,15 +483,15 @@ export async function validateInvitations(): Promise<ValidationResult> {
 /**
  * Performs comprehensive data integrity check across all tables
  */
-export async function performDataIntegrityCheck(): Promise<DataIntegrityReport> {
+export async function performDataIntegrityCheck(database: IntegrityCheckDatabase = db): Promise<DataIntegrityReport> {
   console.log("🔍 Starting comprehensive data integrity check...");
 
   const [provincesResult, publishersResult, usersResult, bookmarksResult, invitationsResult] = await Promise.all([
-    validateProvinces(),
-    validatePublishers(),
-    validateUsers(),
-    validateBookmarks(),
-    validateInvitations()
+    validateProvinces(database),
+    validatePublishers(database),
+    validateUsers(database),
+    validateBookmarks(database),
+    validateInvitations(database)
   ]);
 
   // Calculate overall health
@@ -517,7 +520,7 @@ export async function performDataIntegrityCheck(): Promise<DataIntegrityReport>
   }
 
   if (invitationsResult.warnings.some(w => w.includes('expired'))) {
-    recommendations.push("Run cleanup script to remove expired invitations");
+    recommendations.push("Run process-expired-invitations and an invitation retention policy to remove expired invitations");
   }
 
   return {
@@ -535,55 +538,6 @@ export async function performDataIntegrityCheck(): Promise<DataIntegrityReport>
   };
 }
 
-/**
- * Cleans up expired and invalid data
- */
-export async function cleanupExpiredData(): Promise<{
-  expiredInvitations: number;
-  orphanedBookmarks: number;
-  invalidSessions: number;
-}> {
-  console.log("🧹 Starting data cleanup...");
-
-  const now = new Date();
-  let expiredInvitations = 0;
-  let orphanedBookmarks = 0;
-  let invalidSessions = 0;
-
-  try {
-    // Clean up expired invitations
-    const expiredInvitationResult = await db
-      .update(invitation)
-      .set({ status: 'expired' })
-      .where(sql`${invitation.expiresAt} < ${now} AND ${invitation.status} = 'pending'`);
-    
-    expiredInvitations = expiredInvitationResult.rowCount || 0;
-
-    // Clean up orphaned bookmarks (bookmarks for deleted users or publishers)
-    const orphanedUserBookmarks = await db
-      .delete(userBookmarks)
-      .where(sql`${userBookmarks.userId} NOT IN (SELECT id FROM ${user})`);
-    
-    const orphanedPublisherBookmarks = await db
-      .delete(userBookmarks)
-      .where(sql`${userBookmarks.publisherId} NOT IN (SELECT id FROM ${publishers})`);
-
-    orphanedBookmarks = (orphanedUserBookmarks.rowCount || 0) + (orphanedPublisherBookmarks.rowCount || 0);
-
-    console.log(`✅ Cleanup completed: ${expiredInvitations} expired invitations, ${orphanedBookmarks} orphaned bookmarks`);
-
-    return {
-      expiredInvitations,
-      orphanedBookmarks,
-      invalidSessions
-    };
-
-  } catch (error) {
-    console.error("❌ Data cleanup failed:", error);
-    throw error;
-  }
-}
-
 /**
  * Generates a detailed data integrity report
  */
@@ -1,8 +1,9 @@
 /**
  * Database Backup Configuration
  *
- * This file contains configuration options and S3 setup instructions
- * for database backup and restore functionality.
+ * This file contains configuration options and S3 setup recommendations
+ * for database backup and restore functionality. Storage targets are
+ * implemented in backup-storage.ts.
  */
 
 // Local Backup Configuration
@@ -35,28 +36,38 @@ export const BACKUP_CONFIG = {
 } as const;
 
 /**
- * S3 Configuration Setup
+ * Storage Target Setup
  *
- * When ready to use S3 storage instead of local storage, uncomment and configure:
+ * BACKUP_STORAGE picks where new backups go: local, s3 or sftp.
+ *
+ * # Local disk (default); mount a volume here in containers
+ * BACKUP_LOCAL_DIR=backups
+ *
+ * # S3 or an S3-compatible service
+ * BACKUP_S3_BUCKET=tender-hub-database-backups
+ * BACKUP_S3_REGION=us-east-1
+ * BACKUP_S3_ACCESS_KEY_ID=your_access_key_id
+ * BACKUP_S3_SECRET_ACCESS_KEY=your_secret_access_key
+ * BACKUP_S3_PREFIX=database-backups
+ * BACKUP_S3_ENDPOINT=http://localhost:9000  # MinIO and other non-AWS services
+ *
+ * # SFTP; set a password or a private key, and pin the server's host key
+ * # with the fingerprint from: ssh-keyscan backups.example.com | ssh-keygen -lf -
+ * BACKUP_SFTP_HOST=backups.example.com
+ * BACKUP_SFTP_PORT=22
+ * BACKUP_SFTP_USERNAME=tender-hub
+ * BACKUP_SFTP_PASSWORD=
+ * BACKUP_SFTP_PRIVATE_KEY_PATH=/run/secrets/backup_sftp_key
+ * BACKUP_SFTP_DIR=backups
+ * BACKUP_SFTP_HOST_KEY=SHA256:...
+ *
+ * # Optional client-side encryption: openssl rand -base64 32
+ * BACKUP_ENCRYPTION_KEY=
+ *
+ * Keep a previous target configured while its backups may still be
+ * restored; each backup is read from the target it was stored in.
  */
 
-// Environment Variables to Add to .env
-/*
-# AWS S3 Configuration for Database Backups
-AWS_ACCESS_KEY_ID=your_aws_access_key_id
-AWS_SECRET_ACCESS_KEY=your_aws_secret_access_key
-AWS_REGION=us-east-1
-S3_BACKUP_BUCKET=tender-hub-database-backups
-
-# Optional: Enable S3 backup upload after local backup
-ENABLE_S3_BACKUP_UPLOAD=true
-
-# S3 Backup Configuration
-S3_BACKUP_PREFIX=database-backups
-S3_BACKUP_ENCRYPTION=AES256
-S3_DELETE_AFTER_UPLOAD=false  # Set to true to delete local file after S3 upload
-*/
-
 // S3 Bucket Policy Recommendations
 export const S3_BUCKET_POLICY_RECOMMENDATIONS = {
   bucketName: "tender-hub-database-backups",
@@ -204,13 +215,14 @@ export const BACKUP_SCHEDULE = {
  *    - Linux: sudo apt install postgresql-client
  *
  * 2. Database Type Detection:
- *    - Regular PostgreSQL: Uses pg_dump/pg_restore with S3 upload
+ *    - Regular PostgreSQL: Uses pg_dump/pg_restore and the configured storage target
  *    - Neon Database: Provides guidance for dashboard/manual export
  *
- * 3. S3 Configuration (for regular PostgreSQL):
- *    - Create S3 bucket with security policies above
+ * 3. Storage Target Configuration (for regular PostgreSQL):
+ *    - Create S3 bucket with security policies above, or an SFTP account
  *    - Set up IAM user with appropriate permissions
- *    - Add environment variables to production
+ *    - Add the BACKUP_STORAGE environment variables to production
+ *    - Set BACKUP_ENCRYPTION_KEY and keep a copy outside the app
  *    - Enable lifecycle policies for cost optimization
  *
  * 4. Neon Database Backup Strategy:
@@ -0,0 +1,952 @@
+/**
+ * Database backups
+ *
+ * A backup dumps the database with `pg_dump`, optionally encrypts the
+ * dump, stores it in the configured storage target (see
+ * backup-storage.ts) and records the stored file's SHA-256 in
+ * `backup_history`. It can be verified: the file is fetched back, the
+ * dump is restored into a scratch schema in the same database and
+ * `performDataIntegrityCheck` runs against it before the schema is
+ * dropped.
+ *
+ * `runScheduledBackups` runs backups, verifications and restores queued
+ * from the admin dashboard, takes a backup when one is due under the
+ * `database.backupFrequency` setting, verifies it, and deletes files
+ * older than `database.retentionDays`. `src/scripts/run-database-backups.ts`
+ * calls it and is meant to be scheduled, e.g. every five minutes via
+ * cron. Failed backups and verifications raise the `backup_failures`
+ * alert metric, failed restores `restore_failures`.
+ */
+
+import { spawn } from "node:child_process";
+import { createHash } from "node:crypto";
+import { createReadStream } from "node:fs";
+import { mkdtemp, rm, stat, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { basename, join } from "node:path";
+import { createInterface } from "node:readline";
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import { neon } from "@neondatabase/serverless";
+import {
+  and,
+  asc,
+  desc,
+  eq,
+  gt,
+  isNotNull,
+  isNull,
+  lt,
+  ne,
+  notInArray,
+  or,
+} from "drizzle-orm";
+import { drizzle } from "drizzle-orm/pg-proxy";
+import { db } from "@/db";
+import * as schema from "@/db/schema";
+import { type BackupHistory, backupHistory } from "@/db/schema";
+import {
+  decryptBackupFile,
+  encryptBackupFile,
+  getBackupStorage,
+  isBackupEncryptionEnabled,
+} from "@/lib/backup-storage";
+import {
+  type DataIntegrityReport,
+  type IntegrityCheckDatabase,
+  performDataIntegrityCheck,
+} from "@/lib/data-validation";
+import { checkAlerts, createAlertContext } from "@/lib/sentry-alerting";
+import { getSystemSettings } from "@/lib/system-settings";
+import type { DatabaseSettings } from "@/lib/validations/system-settings";
+
+const BACKUP_INTERVAL_DAYS: Record<
+  DatabaseSettings["backupFrequency"],
+  number
+> = {
+  daily: 1,
+  weekly: 7,
+  monthly: 30,
+};
+
+// A scheduled backup is due this long before a full interval has passed,
+// so a cron job drifting by a few minutes does not skip a whole interval
+const SCHEDULE_SLACK_MS = 60 * 60 * 1000;
+
+// Running backups older than this are assumed to have died with their
+// process and no longer block a scheduled run
+const STALE_RUNNING_MS = 6 * 60 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface BackupVerificationResult {
+  status: "passed" | "failed" | "skipped";
+  error?: string;
+  report?: DataIntegrityReport;
+}
+
+export interface BackupRestoreResult {
+  status: "completed" | "failed";
+  error?: string;
+}
+
+export interface QueuedBackupJobsResult {
+  backups: BackupHistory[];
+  verifications: (BackupVerificationResult & { backupId: string })[];
+  restores: (BackupRestoreResult & { backupId: string })[];
+}
+
+export interface ScheduledBackupResult {
+  status: "completed" | "failed" | "not_due";
+  queued: QueuedBackupJobsResult;
+  backup?: BackupHistory;
+  verification?: BackupVerificationResult;
+  pruned: number;
+  nextDueAt: Date;
+}
+
+interface PgConnection {
+  args: string[];
+  env: NodeJS.ProcessEnv;
+}
+
+function getDatabaseUrl() {
+  const databaseUrl = process.env.DATABASE_URL;
+  if (!databaseUrl) {
+    throw new Error("DATABASE_URL not configured");
+  }
+  return databaseUrl;
+}
+
+// Neon databases get a guidance file instead of a dump; see
+// `writeNeonGuidance`
+function isNeonDatabase(databaseUrl: string) {
+  return (
+    databaseUrl.includes("neon.tech") || databaseUrl.includes("neon.database")
+  );
+}
+
+/**
+ * Connection arguments for the Postgres client tools. The password goes
+ * in the environment so it never shows up in a process listing.
+ */
+function getPgConnection(databaseUrl: string): PgConnection {
+  const url = new URL(databaseUrl);
+  const sslMode = url.searchParams.get("sslmode");
+
+  return {
+    args: [
+      "--host",
+      url.hostname,
+      "--port",
+      url.port || "5432",
+      "--username",
+      decodeURIComponent(url.username),
+      "--dbname",
+      decodeURIComponent(url.pathname.slice(1)),
+      "--no-password",
+    ],
+    env: {
+      ...process.env,
+      PGPASSWORD: decodeURIComponent(url.password),
+      ...(sslMode ? { PGSSLMODE: sslMode } : {}),
+    },
+  };
+}
+
+/**
+ * Wait for a child process, rejecting with the end of its stderr when it
+ * fails
+ */
+function waitForExit(
+  child: ReturnType<typeof spawn>,
+  command: string,
+): Promise<void> {
+  let stderr = "";
+  child.stderr?.on("data", (chunk: Buffer) => {
+    stderr = (stderr + chunk.toString()).slice(-2000);
+  });
+
+  return new Promise((resolve, reject) => {
+    child.on("error", reject);
+    child.on("close", (code) => {
+      if (code === 0) {
+        resolve();
+      } else {
+        const output = stderr.trim();
+        reject(
+          new Error(
+            `${command} exited with code ${code}${output ? `: ${output}` : ""}`,
+          ),
+        );
+      }
+    });
+  });
+}
+
+async function fileChecksum(filePath: string) {
+  const hash = createHash("sha256");
+  for await (const chunk of createReadStream(filePath)) {
+    hash.update(chunk);
+  }
+  return hash.digest("hex");
+}
+
+function errorMessage(error: unknown) {
+  return error instanceof Error ? error.message : "Unknown error";
+}
+
+/**
+ * Run `action` with a private temporary directory for dumps and
+ * downloads, removed afterwards
+ */
+async function withWorkDir<T>(action: (dir: string) => Promise<T>) {
+  const dir = await mkdtemp(join(tmpdir(), "tender-hub-backup-"));
+  try {
+    return await action(dir);
+  } finally {
+    await rm(dir, { recursive: true, force: true }).catch((error) => {
+      console.error(`Failed to remove ${dir}:`, error);
+    });
+  }
+}
+
+/**
+ * Fetch a backup from its storage target into `workDir`, check it
+ * against the recorded checksum and decrypt it. Returns the dump's path.
+ */
+async function fetchBackupFile(backup: BackupHistory, workDir: string) {
+  if (!backup.filePath || backup.prunedAt) {
+    throw new Error("Backup file has been deleted");
+  }
+
+  const storage = await getBackupStorage(backup.storageTarget);
+  const storedPath = join(workDir, basename(backup.filePath));
+  await storage.download(backup.filePath, storedPath);
+
+  if (!backup.checksum) {
+    throw new Error("Backup has no recorded checksum");
+  }
+  if ((await fileChecksum(storedPath)) !== backup.checksum) {
+    throw new Error("Backup file does not match its recorded checksum");
+  }
+
+  if (!backup.encrypted) {
+    return storedPath;
+  }
+  const dumpPath = join(workDir, "backup.dump");
+  await decryptBackupFile(storedPath, dumpPath);
+  return dumpPath;
+}
+
+/**
+ * Create the `running` history row for a new backup
+ */
+export async function createBackupRecord(
+  backupType: "manual" | "scheduled",
+  initiatedBy?: string,
+): Promise<BackupHistory> {
+  const [backup] = await db
+    .insert(backupHistory)
+    .values({ backupType, status: "running", initiatedBy })
+    .returning();
+  return backup;
+}
+
+/**
+ * Queue a manual backup for the next scheduler run
+ */
+export async function queueDatabaseBackup(
+  initiatedBy: string,
+): Promise<BackupHistory> {
+  const [backup] = await db
+    .insert(backupHistory)
+    .values({ backupType: "manual", status: "queued", initiatedBy })
+    .returning();
+  return backup;
+}
+
+/**
+ * Queue verification of a completed backup for the next scheduler run.
+ * Returns false if the backup cannot be verified or is already queued.
+ */
+export async function queueBackupVerification(
+  backupId: string,
+): Promise<boolean> {
+  const queued = await db
+    .update(backupHistory)
+    .set({ verificationStatus: "queued", verificationError: null })
+    .where(
+      and(
+        eq(backupHistory.id, backupId),
+        eq(backupHistory.status, "completed"),
+        isNull(backupHistory.prunedAt),
+        or(
+          isNull(backupHistory.verificationStatus),
+          notInArray(backupHistory.verificationStatus, [
+            "skipped",
+            "queued",
+            "running",
+          ]),
+        ),
+      ),
+    )
+    .returning({ id: backupHistory.id });
+  return queued.length > 0;
+}
+
+/**
+ * Queue a restore of the live database from a completed backup for the
+ * next scheduler run. Returns false if the backup cannot be restored or a
+ * restore from it is already queued.
+ */
+export async function queueDatabaseRestore(backupId: string): Promise<boolean> {
+  const queued = await db
+    .update(backupHistory)
+    .set({ restoreStatus: "queued", restoreError: null })
+    .where(
+      and(
+        eq(backupHistory.id, backupId),
+        eq(backupHistory.status, "completed"),
+        isNull(backupHistory.prunedAt),
+        or(
+          isNull(backupHistory.verificationStatus),
+          ne(backupHistory.verificationStatus, "skipped"),
+        ),
+        or(
+          isNull(backupHistory.restoreStatus),
+          notInArray(backupHistory.restoreStatus, ["queued", "running"]),
+        ),
+      ),
+    )
+    .returning({ id: backupHistory.id });
+  return queued.length > 0;
+}
+
+/**
+ * Run the backups, verifications and restores queued from the admin
+ * dashboard. Each job is claimed before it runs, so overlapping scheduler
+ * runs never take the same one.
+ */
+export async function runQueuedBackupJobs(): Promise<QueuedBackupJobsResult> {
+  const result: QueuedBackupJobsResult = {
+    backups: [],
+    verifications: [],
+    restores: [],
+  };
+
+  const queuedBackups = await db
+    .select({ id: backupHistory.id })
+    .from(backupHistory)
+    .where(eq(backupHistory.status, "queued"))
+    .orderBy(asc(backupHistory.createdAt));
+
+  for (const { id } of queuedBackups) {
+    const [claimed] = await db
+      .update(backupHistory)
+      .set({ status: "running" })
+      .where(and(eq(backupHistory.id, id), eq(backupHistory.status, "queued")))
+      .returning({ id: backupHistory.id });
+    if (claimed) {
+      result.backups.push(await runDatabaseBackup(id));
+    }
+  }
+
+  const queuedVerifications = await db
+    .select({ id: backupHistory.id })
+    .from(backupHistory)
+    .where(eq(backupHistory.verificationStatus, "queued"))
+    .orderBy(asc(backupHistory.createdAt));
+
+  for (const { id } of queuedVerifications) {
+    const [claimed] = await db
+      .update(backupHistory)
+      .set({ verificationStatus: "running" })
+      .where(
+        and(
+          eq(backupHistory.id, id),
+          eq(backupHistory.verificationStatus, "queued"),
+        ),
+      )
+      .returning({ id: backupHistory.id });
+    if (!claimed) continue;
+
+    let verification: BackupVerificationResult;
+    try {
+      verification = await verifyDatabaseBackup(id);
+    } catch (error) {
+      // The backup changed after it was queued; record why so the job
+      // does not stay running
+      verification = { status: "failed", error: errorMessage(error) };
+      await db
+        .update(backupHistory)
+        .set({
+          verificationStatus: verification.status,
+          verificationError: verification.error,
+          verifiedAt: new Date(),
+        })
+        .where(eq(backupHistory.id, id));
+    }
+    result.verifications.push({ ...verification, backupId: id });
+  }
+
+  // Restores run last: they replace every table, this one included
+  const queuedRestores = await db
+    .select({ id: backupHistory.id })
+    .from(backupHistory)
+    .where(eq(backupHistory.restoreStatus, "queued"))
+    .orderBy(asc(backupHistory.createdAt));
+
+  for (const { id } of queuedRestores) {
+    const [claimed] = await db
+      .update(backupHistory)
+      .set({ restoreStatus: "running" })
+      .where(
+        and(
+          eq(backupHistory.id, id),
+          eq(backupHistory.restoreStatus, "queued"),
+        ),
+      )
+      .returning({ id: backupHistory.id });
+    if (!claimed) continue;
+
+    let restore: BackupRestoreResult;
+    try {
+      await restoreDatabaseBackup(id);
+      restore = { status: "completed" };
+    } catch (error) {
+      restore = { status: "failed", error: errorMessage(error) };
+    }
+
+    // Recorded after the restore, which replaced this table with the
+    // dump's copy; a dump from an older schema may lack these columns
+    try {
+      await db
+        .update(backupHistory)
+        .set({
+          restoreStatus: restore.status,
+          restoreError: restore.error ?? null,
+          restoredAt: new Date(),
+        })
+        .where(eq(backupHistory.id, id));
+    } catch (error) {
+      console.error(`Failed to record restore from backup ${id}:`, error);
+    }
+    if (restore.status === "failed") {
+      await raiseRestoreFailureAlert();
+    }
+    result.restores.push({ ...restore, backupId: id });
+  }
+
+  return result;
+}
+
+/**
+ * Dump the database for a `running` backup row and record the file, its
+ * size and checksum. Failures are recorded on the row, not thrown.
+ */
+export async function runDatabaseBackup(
+  backupId: string,
+): Promise<BackupHistory> {
+  const startTime = Date.now();
+  const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+
+  let values: Partial<BackupHistory>;
+  try {
+    const databaseUrl = getDatabaseUrl();
+    const storage = await getBackupStorage();
+
+    values = await withWorkDir(async (workDir) => {
+      const dumpPath = join(workDir, `backup-${timestamp}.sql`);
+      const neonGuidance = isNeonDatabase(databaseUrl);
+      if (neonGuidance) {
+        await writeNeonGuidance(dumpPath);
+      } else {
+        const connection = getPgConnection(databaseUrl);
+        await waitForExit(
+          spawn(
+            "pg_dump",
+            [
+              ...connection.args,
+              "--file",
+              dumpPath,
+              "--format=custom",
+              "--compress=6",
+            ],
+            { env: connection.env },
+          ),
+          "pg_dump",
+        );
+      }
+
+      const encrypted = isBackupEncryptionEnabled();
+      const storedPath = encrypted ? `${dumpPath}.enc` : dumpPath;
+      if (encrypted) {
+        await encryptBackupFile(dumpPath, storedPath);
+      }
+
+      const { size } = await stat(storedPath);
+      const checksum = await fileChecksum(storedPath);
+      const key = await storage.upload(storedPath, basename(storedPath));
+      console.log(`Backup completed: ${storage.name}:${key} (${size} bytes)`);
+
+      return {
+        status: "completed",
+        storageTarget: storage.name,
+        filePath: key,
+        encrypted,
+        fileSize: size,
+        checksum,
+        ...(neonGuidance
+          ? {
+              errorMessage:
+                "Neon database - backup guidance provided (see file content)",
+              verificationStatus: "skipped",
+            }
+          : {}),
+      };
+    });
+  } catch (error) {
+    console.error("Backup process failed:", error);
+    values = { status: "failed", errorMessage: errorMessage(error) };
+  }
+
+  const [backup] = await db
+    .update(backupHistory)
+    .set({
+      ...values,
+      duration: Math.round((Date.now() - startTime) / 1000),
+    })
+    .where(eq(backupHistory.id, backupId))
+    .returning();
+
+  if (backup.status === "failed") {
+    await raiseBackupFailureAlert();
+  }
+  return backup;
+}
+
+/**
+ * Neon's serverless connections cannot be dumped with pg_dump, so the
+ * backup file explains how to export the database instead
+ */
+async function writeNeonGuidance(backupPath: string) {
+  const guidance = `-- Neon Database Backup Guidance
+-- Generated on: ${new Date().toISOString()}
+
+-- IMPORTANT: Neon databases do not support direct pg_dump/restore operations
+-- due to their serverless, connection-pooled architecture.
+
+-- RECOMMENDED BACKUP OPTIONS FOR NEON:
+
+1. NEON DASHBOARD EXPORT (Recommended):
+   - Go to your Neon dashboard: https://neon.tech
+   - Navigate to your project → Database → Export
+   - Download full database export as SQL file
+   - This is the secure production backup method
+
+2. READ REPLICA BACKUP (Automated):
+   - Set up a read replica with direct PostgreSQL access
+   - Use pg_dump on the replica for automated backups
+   - Keep the replica in sync for disaster recovery
+
+3. PROGRAMMATIC EXPORT:
+   - Use Neon's HTTP API to export data programmatically
+   - Consider using a separate connection pooling service
+   - Implement custom data export logic
+
+4. THIRD-PARTY BACKUP SERVICES:
+   - Use services like pgBackRest with Neon
+   - Consider managed backup solutions
+
+-- SECURITY NOTE: Never include database credentials in backup files
+-- Current backup marked as "guidance" rather than actual backup
+-- Visit: https://neon.tech/docs/introduction/export-import-datasets/
+`;
+
+  await writeFile(backupPath, guidance, "utf8");
+}
+
+/**
+ * Restore a custom-format dump of the public schema into `schemaName`.
+ * pg_restore cannot rename schemas, so its SQL output is rewritten to
+ * qualify objects with the scratch schema instead; COPY data is passed
+ * through untouched.
+ */
+async function restoreIntoSchema(
+  backupPath: string,
+  schemaName: string,
+  connection: PgConnection,
+) {
+  const restore = spawn(
+    "pg_restore",
+    [
+      "--schema=public",
+      "--no-owner",
+      "--no-privileges",
+      "--file=-",
+      backupPath,
+    ],
+    { env: connection.env },
+  );
+  const psql = spawn(
+    "psql",
+    [...connection.args, "--quiet", "--set=ON_ERROR_STOP=1"],
+    { env: connection.env },
+  );
+
+  const qualified = `"${schemaName}".`;
+  async function* rewrite(lines: AsyncIterable<string>) {
+    yield `CREATE SCHEMA "${schemaName}";\n`;
+    let inCopyData = false;
+    for await (const line of lines) {
+      if (inCopyData) {
+        if (line === "\\.") inCopyData = false;
+        yield `${line}\n`;
+        continue;
+      }
+      if (/^(CREATE|ALTER|COMMENT ON) SCHEMA public\b/.test(line)) continue;
+      if (line.startsWith("COPY ") && line.endsWith("FROM stdin;")) {
+        inCopyData = true;
+      }
+      yield `${line.replace(/\bpublic\./g, qualified)}\n`;
+    }
+  }
+
+  if (!restore.stdout || !psql.stdin) {
+    throw new Error("Failed to start pg_restore and psql");
+  }
+  const lines = createInterface({ input: restore.stdout, crlfDelay: Infinity });
+  try {
+    await Promise.all([
+      pipeline(Readable.from(rewrite(lines)), psql.stdin),
+      waitForExit(restore, "pg_restore"),
+      waitForExit(psql, "psql"),
+    ]);
+  } catch (error) {
+    // Nothing reads pg_restore's output any more
+    restore.kill();
+    psql.kill();
+    throw error;
+  }
+}
+
+/**
+ * A read-only view of the scratch schema for the integrity checks. The
+ * HTTP driver has no sessions, so every query runs in a transaction that
+ * first points `search_path` at the schema.
+ */
+function scratchDatabase(schemaName: string): IntegrityCheckDatabase {
+  const client = neon(getDatabaseUrl());
+
+  return drizzle(
+    async (query, params, method) => {
+      const [, rows] = await client.transaction(
+        [
+          client.query(`SET LOCAL search_path TO "${schemaName}"`),
+          client.query(query, params),
+        ],
+        { arrayMode: method === "all", readOnly: true },
+      );
+      return { rows };
+    },
+    { schema },
+  );
+}
+
+async function dropSchema(schemaName: string, connection: PgConnection) {
+  await waitForExit(
+    spawn(
+      "psql",
+      [
+        ...connection.args,
+        "--quiet",
+        "--command",
+        `DROP SCHEMA IF EXISTS "${schemaName}" CASCADE`,
+      ],
+      { env: connection.env },
+    ),
+    "psql",
+  );
+}
+
+/**
+ * Check a completed backup's checksum, restore it into a scratch schema
+ * and run the data integrity checks against the restored copy. The
+ * result is recorded on the backup row.
+ */
+export async function verifyDatabaseBackup(
+  backupId: string,
+): Promise<BackupVerificationResult> {
+  const [backup] = await db
+    .select()
+    .from(backupHistory)
+    .where(eq(backupHistory.id, backupId))
+    .limit(1);
+
+  if (!backup || backup.status !== "completed") {
+    throw new Error("Can only verify completed backups");
+  }
+  if (backup.verificationStatus === "skipped") {
+    return { status: "skipped", error: "Backup file has nothing to restore" };
+  }
+
+  // The backup ID keeps concurrent verifications apart; a schema left by
+  // a crashed run is dropped first
+  const schemaName = `backup_verify_${backupId.replace(/-/g, "")}`;
+  let result: BackupVerificationResult;
+  let connection: PgConnection | null = null;
+
+  try {
+    const pgConnection = getPgConnection(getDatabaseUrl());
+    connection = pgConnection;
+    await withWorkDir(async (workDir) => {
+      const dumpPath = await fetchBackupFile(backup, workDir);
+      await dropSchema(schemaName, pgConnection);
+      await restoreIntoSchema(dumpPath, schemaName, pgConnection);
+    });
+
+    const report = await performDataIntegrityCheck(scratchDatabase(schemaName));
+    result = report.overall.isHealthy
+      ? { status: "passed", report }
+      : {
+          status: "failed",
+          error: `Restored data has ${report.overall.criticalIssues} integrity issues`,
+          report,
+        };
+  } catch (error) {
+    console.error("Backup verification failed:", error);
+    result = { status: "failed", error: errorMessage(error) };
+  } finally {
+    if (connection) {
+      await dropSchema(schemaName, connection).catch((error) => {
+        console.error(`Failed to drop ${schemaName}:`, error);
+      });
+    }
+  }
+
+  await db
+    .update(backupHistory)
+    .set({
+      verificationStatus: result.status,
+      verificationError: result.error ?? null,
+      verifiedAt: new Date(),
+    })
+    .where(eq(backupHistory.id, backupId));
+
+  if (result.status === "failed") {
+    await raiseBackupFailureAlert();
+  }
+  return result;
+}
+
+/**
+ * Restore the live database from a backup, fetching it from whichever
+ * target it was stored in. Objects in the dump are dropped and recreated.
+ */
+export async function restoreDatabaseBackup(backupId: string): Promise<void> {
+  const [backup] = await db
+    .select()
+    .from(backupHistory)
+    .where(eq(backupHistory.id, backupId))
+    .limit(1);
+
+  if (!backup || backup.status !== "completed") {
+    throw new Error("Can only restore from completed backups");
+  }
+  if (backup.verificationStatus === "skipped") {
+    throw new Error("Backup file has nothing to restore");
+  }
+
+  const startTime = Date.now();
+  const connection = getPgConnection(getDatabaseUrl());
+  await withWorkDir(async (workDir) => {
+    const dumpPath = await fetchBackupFile(backup, workDir);
+    await waitForExit(
+      spawn(
+        "pg_restore",
+        [
+          ...connection.args,
+          "--clean",
+          "--if-exists",
+          "--no-owner",
+          "--no-privileges",
+          dumpPath,
+        ],
+        { env: connection.env },
+      ),
+      "pg_restore",
+    );
+  });
+
+  const duration = Math.round((Date.now() - startTime) / 1000);
+  console.log(`Database restored from backup ${backupId} (${duration}s)`);
+}
+
+/**
+ * Delete backup files older than `retentionDays`. The newest completed
+ * backup is always kept. History rows stay, marked as pruned.
+ */
+export async function pruneDatabaseBackups(
+  retentionDays: number,
+  now = new Date(),
+): Promise<number> {
+  const cutoff = new Date(now.getTime() - retentionDays * DAY_MS);
+
+  const [latest] = await db
+    .select({ id: backupHistory.id })
+    .from(backupHistory)
+    .where(eq(backupHistory.status, "completed"))
+    .orderBy(desc(backupHistory.createdAt))
+    .limit(1);
+
+  const expired = await db
+    .select()
+    .from(backupHistory)
+    .where(
+      and(
+        isNotNull(backupHistory.filePath),
+        isNull(backupHistory.prunedAt),
+        ne(backupHistory.status, "running"),
+        lt(backupHistory.createdAt, cutoff),
+        latest ? ne(backupHistory.id, latest.id) : undefined,
+      ),
+    );
+
+  let pruned = 0;
+  for (const backup of expired) {
+    try {
+      if (backup.filePath) {
+        const storage = await getBackupStorage(backup.storageTarget);
+        await storage.delete(backup.filePath);
+      }
+      await db
+        .update(backupHistory)
+        .set({ prunedAt: now })
+        .where(eq(backupHistory.id, backup.id));
+      pruned++;
+    } catch (error) {
+      console.error(`Failed to prune backup ${backup.id}:`, error);
+    }
+  }
+
+  return pruned;
+}
+
+/**
+ * When the next scheduled backup is due under the current settings
+ */
+export async function getNextScheduledBackup(
+  settings: DatabaseSettings,
+): Promise<{ lastScheduledAt: Date | null; nextDueAt: Date }> {
+  const [last] = await db
+    .select({ createdAt: backupHistory.createdAt })
+    .from(backupHistory)
+    .where(
+      and(
+        eq(backupHistory.backupType, "scheduled"),
+        eq(backupHistory.status, "completed"),
+      ),
+    )
+    .orderBy(desc(backupHistory.createdAt))
+    .limit(1);
+
+  const interval = BACKUP_INTERVAL_DAYS[settings.backupFrequency] * DAY_MS;
+  return {
+    lastScheduledAt: last?.createdAt ?? null,
+    nextDueAt: new Date(last ? last.createdAt.getTime() + interval : 0),
+  };
+}
+
+/**
+ * Take, verify and prune backups according to the database settings.
+ * With `force` a backup is taken even if one is not due yet.
+ */
+export async function runScheduledBackups(
+  options: { force?: boolean } = {},
+): Promise<ScheduledBackupResult> {
+  const queued = await runQueuedBackupJobs();
+
+  const { database } = await getSystemSettings();
+  const now = new Date();
+  const { nextDueAt } = await getNextScheduledBackup(database);
+
+  const [running] = await db
+    .select({ id: backupHistory.id })
+    .from(backupHistory)
+    .where(
+      and(
+        eq(backupHistory.status, "running"),
+        gt(backupHistory.createdAt, new Date(now.getTime() - STALE_RUNNING_MS)),
+      ),
+    )
+    .limit(1);
+
+  const due = nextDueAt.getTime() - SCHEDULE_SLACK_MS <= now.getTime();
+  if (running || (!due && !options.force)) {
+    return {
+      status: "not_due",
+      queued,
+      pruned: await pruneDatabaseBackups(database.retentionDays, now),
+      nextDueAt,
+    };
+  }
+
+  const record = await createBackupRecord("scheduled");
+  const backup = await runDatabaseBackup(record.id);
+  const verification =
+    backup.status === "completed"
+      ? await verifyDatabaseBackup(backup.id)
+      : undefined;
+
+  return {
+    status:
+      backup.status === "completed" && verification?.status !== "failed"
+        ? "completed"
+        : "failed",
+    queued,
+    backup,
+    verification,
+    pruned: await pruneDatabaseBackups(database.retentionDays, now),
+    nextDueAt: (await getNextScheduledBackup(database)).nextDueAt,
+  };
+}
+
+/**
+ * Number of most recent backups that failed or did not verify
+ */
+async function countConsecutiveFailures() {
+  const recent = await db
+    .select({
+      status: backupHistory.status,
+      verificationStatus: backupHistory.verificationStatus,
+    })
+    .from(backupHistory)
+    .where(ne(backupHistory.status, "running"))
+    .orderBy(desc(backupHistory.createdAt))
+    .limit(20);
+
+  const firstGood = recent.findIndex(
+    (backup) =>
+      backup.status === "completed" && backup.verificationStatus !== "failed",
+  );
+  return firstGood === -1 ? recent.length : firstGood;
+}
+
+async function raiseRestoreFailureAlert() {
+  try {
+    await checkAlerts(createAlertContext({ restoreFailures: 1 }));
+  } catch (error) {
+    console.error("Failed to raise restore alert:", error);
+  }
+}
+
+async function raiseBackupFailureAlert() {
+  try {
+    await checkAlerts(
+      createAlertContext({ backupFailures: await countConsecutiveFailures() }),
+    );
+  } catch (error) {
+    console.error("Failed to raise backup alert:", error);
+  }
+}
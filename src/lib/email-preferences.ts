@@ -19,6 +19,8 @@ export interface EmailPreferenceUpdate {
   immediateNotifications?: boolean;
   dailyDigest?: boolean;
   weeklyDigestNotifications?: boolean;
+  tenderReminders?: boolean;
+  tenderReminderLeadDays?: number[];
 }
 
 export interface UnsubscribeOptions {
@@ -62,6 +64,7 @@ export async function createDefaultEmailPreferences(userId: string): Promise<Ema
       immediateNotifications: true,
       dailyDigest: false,
       weeklyDigestNotifications: false,
+      tenderReminders: true,
       unsubscribeToken: generateUnsubscribeToken(),
     };
 
@@ -179,6 +182,7 @@ export async function unsubscribeUser(
           immediateNotifications: false,
           dailyDigest: false,
           weeklyDigestNotifications: false,
+          tenderReminders: false,
           unsubscribedAt: new Date(),
           unsubscribeReason: options.reason || "User requested unsubscribe from all emails",
           lastUpdated: new Date(),
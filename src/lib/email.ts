@@ -5,12 +5,19 @@ import InvitationEmail from "@emails/invitation";
 import PasswordChangedEmail from "@emails/password-changed";
 import PasswordResetEmail from "@emails/password-reset";
 import SystemMaintenanceEmail from "@emails/system-maintenance";
+import TenderAlertEmail from "@emails/tender-alert";
+import TenderReminderEmail from "@emails/tender-reminder";
 import UserStatusChangeEmail from "@emails/user-status-change";
 import { render } from "@react-email/render";
 import React from "react";
 import { Resend } from "resend";
 import { AuditLogger } from "@/lib/audit-logger";
-import { canReceiveEmail, logEmailDelivery } from "@/lib/email-preferences";
+import {
+  canReceiveEmail,
+  type EmailPreferenceUpdate,
+  logEmailDelivery,
+} from "@/lib/email-preferences";
+import { emailsSent } from "@/lib/prometheus-metrics";
 
 const resend = new Resend(process.env.RESEND_API_KEY);
 
@@ -63,7 +70,11 @@ async function sendEmailWithTracking(
     from?: string;
   },
   emailType: string,
-  userId?: string
+  userId?: string,
+  // Preference column gating this email when it differs from emailType
+  preferenceKey?: keyof EmailPreferenceUpdate,
+  // Extra context stored with the delivery log entry
+  metadata?: Record<string, unknown>
 ): Promise<EmailDeliveryResult> {
   const startTime = Date.now();
   let retryCount = 0;
@@ -71,8 +82,10 @@ async function sendEmailWithTracking(
   try {
     // Check email preferences if userId is provided
     if (userId) {
-      const canSend = await canReceiveEmail(userId, emailType as keyof import("@/lib/email-preferences").EmailPreferenceUpdate);
+      const canSend = await canReceiveEmail(userId, preferenceKey ?? (emailType as keyof EmailPreferenceUpdate));
       if (!canSend) {
+        emailsSent.inc({ type: emailType, status: "blocked" });
+
         // Log blocked email
         await logEmailDelivery({
           userId,
@@ -83,6 +96,7 @@ async function sendEmailWithTracking(
           errorMessage: "User has unsubscribed from this email type",
           deliveryTime: Date.now() - startTime,
           retryCount: 0,
+          metadata,
         });
 
         return {
@@ -105,6 +119,7 @@ async function sendEmailWithTracking(
     });
 
     const deliveryTime = Date.now() - startTime;
+    emailsSent.inc({ type: emailType, status: "sent" });
 
     // Log successful email delivery
     await Promise.all([
@@ -129,6 +144,7 @@ async function sendEmailWithTracking(
         status: "sent",
         deliveryTime,
         retryCount: retryCount - 1,
+        metadata,
       }),
     ]);
 
@@ -142,6 +158,7 @@ async function sendEmailWithTracking(
   } catch (error) {
     const deliveryTime = Date.now() - startTime;
     const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    emailsSent.inc({ type: emailType, status: "failed" });
 
     // Log failed email delivery
     await Promise.all([
@@ -166,6 +183,7 @@ async function sendEmailWithTracking(
         errorMessage,
         deliveryTime,
         retryCount: retryCount - 1,
+        metadata,
       }),
     ]);
 
@@ -344,6 +362,125 @@ export async function sendInvitationEmail({
   );
 }
 
+export type TenderAlertFrequency = "immediate" | "daily" | "weekly";
+
+// Preference column that controls each tender alert frequency
+export const TENDER_ALERT_PREFERENCES: Record<
+  TenderAlertFrequency,
+  keyof EmailPreferenceUpdate
+> = {
+  immediate: "immediateNotifications",
+  daily: "dailyDigest",
+  weekly: "weeklyDigestNotifications",
+};
+
+export async function sendTenderAlertEmail({
+  to,
+  userName,
+  userId,
+  frequency,
+  searches,
+  tendersUrl,
+  unsubscribeUrl,
+}: {
+  to: string;
+  userName: string;
+  userId: string;
+  frequency: TenderAlertFrequency;
+  searches: {
+    name: string;
+    tenders: {
+      title: string;
+      referenceNumber: string;
+      publisherName: string;
+      closingDate: string;
+      url?: string | null;
+    }[];
+  }[];
+  tendersUrl: string;
+  unsubscribeUrl: string;
+}): Promise<EmailDeliveryResult> {
+  const total = searches.reduce((sum, search) => sum + search.tenders.length, 0);
+  const renderedHtml = await render(
+    React.createElement(TenderAlertEmail, {
+      userEmail: to,
+      userName,
+      frequency,
+      searches,
+      tendersUrl,
+      unsubscribeUrl,
+    }),
+  );
+
+  return await sendEmailWithTracking(
+    {
+      to,
+      subject: `${total} new matching ${total === 1 ? "tender" : "tenders"} - Tender Hub`,
+      html: renderedHtml,
+    },
+    "tender_alert",
+    userId,
+    TENDER_ALERT_PREFERENCES[frequency]
+  );
+}
+
+export async function sendTenderReminderEmail({
+  to,
+  userName,
+  userId,
+  tender,
+  leadDays,
+  reminderKey,
+  calendarUrl,
+  unsubscribeUrl,
+}: {
+  to: string;
+  userName: string;
+  userId: string;
+  tender: {
+    id: string;
+    title: string;
+    referenceNumber: string;
+    publisherName: string;
+    closingDate: string;
+    briefingDate?: string | null;
+    url?: string | null;
+  };
+  leadDays: number;
+  // Stored in the delivery log so the same reminder is never sent twice
+  reminderKey: string;
+  calendarUrl: string;
+  unsubscribeUrl: string;
+}): Promise<EmailDeliveryResult> {
+  const renderedHtml = await render(
+    React.createElement(TenderReminderEmail, {
+      userEmail: to,
+      userName,
+      tender,
+      leadDays,
+      calendarUrl,
+      unsubscribeUrl,
+    }),
+  );
+
+  const when =
+    leadDays === 0
+      ? "closes today"
+      : `closes in ${leadDays} ${leadDays === 1 ? "day" : "days"}`;
+
+  return await sendEmailWithTracking(
+    {
+      to,
+      subject: `Reminder: ${tender.referenceNumber} ${when} - Tender Hub`,
+      html: renderedHtml,
+    },
+    "tender_reminder",
+    userId,
+    "tenderReminders",
+    { reminderKey, tenderId: tender.id, leadDays }
+  );
+}
+
 // Email service performance monitoring
 export interface EmailPerformanceMetrics {
   totalSent: number;
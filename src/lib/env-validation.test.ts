@@ -0,0 +1,23 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+// An invalid setting elsewhere forces the build-time fallback; backup
+// settings must survive it
+process.env.EMAIL_FROM = "not an email";
+process.env.BACKUP_STORAGE = "s3";
+process.env.BACKUP_S3_BUCKET = "tender-hub-backups";
+process.env.BACKUP_S3_ENDPOINT = "http://localhost:9000";
+process.env.BACKUP_ENCRYPTION_KEY = Buffer.alloc(32, 1).toString("base64");
+
+describe("backupConfig", () => {
+  it("keeps backup settings when other settings are invalid", async () => {
+    const { backupConfig } = await import("./env-validation");
+    const { isBackupEncryptionEnabled } = await import("./backup-storage");
+
+    assert.equal(backupConfig.settingsError, null);
+    assert.equal(backupConfig.storage, "s3");
+    assert.equal(backupConfig.s3.bucket, "tender-hub-backups");
+    assert.equal(backupConfig.s3.endpoint, "http://localhost:9000");
+    assert.equal(isBackupEncryptionEnabled(), true);
+  });
+});
@@ -0,0 +1,164 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  buildIcsCalendar,
+  escapeIcsText,
+  foldIcsLine,
+  formatIcsDate,
+} from "./ical";
+
+const generatedAt = new Date("2026-03-01T06:30:00.000Z");
+
+const closingEvent = {
+  uid: "tender-1-closing@tenderhub.com",
+  start: new Date("2026-03-14T09:00:00.000Z"),
+  end: new Date("2026-03-14T09:30:00.000Z"),
+  summary: "Closes: Supply of water meters",
+  description: "Reference 101S/2025/26\nCity of Cape Town",
+  url: "https://tenderhub.com/dashboard/tenders/1",
+  alarmMinutesBefore: 1440,
+};
+
+// Unfold continuation lines as a calendar client would
+function unfold(document: string) {
+  return document.replace(/\r\n /g, "");
+}
+
+describe("escapeIcsText", () => {
+  it("escapes backslashes, separators and newlines", () => {
+    assert.equal(
+      escapeIcsText("Roads; bridges, culverts\\drains\r\nPhase 2\nPhase 3"),
+      "Roads\\; bridges\\, culverts\\\\drains\\nPhase 2\\nPhase 3",
+    );
+  });
+});
+
+describe("formatIcsDate", () => {
+  it("writes UTC date-times without separators or milliseconds", () => {
+    assert.equal(
+      formatIcsDate(new Date("2026-03-14T11:00:00.123+02:00")),
+      "20260314T090000Z",
+    );
+  });
+});
+
+describe("foldIcsLine", () => {
+  it("leaves short lines alone", () => {
+    assert.equal(foldIcsLine("SUMMARY:Short"), "SUMMARY:Short");
+  });
+
+  it("folds long lines into 75-octet chunks", () => {
+    const line = `DESCRIPTION:${"a".repeat(200)}`;
+    const folded = foldIcsLine(line);
+    const chunks = folded.split("\r\n");
+
+    assert.equal(chunks[0].length, 75);
+    for (const chunk of chunks.slice(1)) {
+      assert.ok(chunk.startsWith(" "));
+      assert.ok(Buffer.byteLength(chunk) <= 75);
+    }
+    assert.equal(unfold(folded), line);
+  });
+
+  it("never splits a multi-byte character", () => {
+    const line = `SUMMARY:${"é".repeat(60)}`;
+    const chunks = foldIcsLine(line).split("\r\n");
+
+    for (const chunk of chunks) {
+      assert.ok(Buffer.byteLength(chunk) <= 75);
+      assert.ok(!chunk.includes("�"));
+    }
+    assert.equal(unfold(chunks.join("\r\n")), line);
+  });
+});
+
+describe("buildIcsCalendar", () => {
+  it("wraps events in a calendar with CRLF line endings", () => {
+    const document = buildIcsCalendar({
+      name: "Tender deadlines",
+      description: "Closing dates, briefings",
+      events: [closingEvent],
+      generatedAt,
+    });
+
+    assert.ok(document.endsWith("END:VCALENDAR\r\n"));
+    assert.ok(!/[^\r]\n/.test(document));
+    assert.deepEqual(document.split("\r\n"), [
+      "BEGIN:VCALENDAR",
+      "VERSION:2.0",
+      "PRODID:-//Tender Hub//Tender Deadlines//EN",
+      "CALSCALE:GREGORIAN",
+      "METHOD:PUBLISH",
+      "X-WR-CALNAME:Tender deadlines",
+      "X-WR-CALDESC:Closing dates\\, briefings",
+      "BEGIN:VEVENT",
+      "UID:tender-1-closing@tenderhub.com",
+      "DTSTAMP:20260301T063000Z",
+      "DTSTART:20260314T090000Z",
+      "DTEND:20260314T093000Z",
+      "SUMMARY:Closes: Supply of water meters",
+      "DESCRIPTION:Reference 101S/2025/26\\nCity of Cape Town",
+      "URL:https://tenderhub.com/dashboard/tenders/1",
+      "STATUS:CONFIRMED",
+      "BEGIN:VALARM",
+      "ACTION:DISPLAY",
+      "DESCRIPTION:Closes: Supply of water meters",
+      "TRIGGER:-PT1440M",
+      "END:VALARM",
+      "END:VEVENT",
+      "END:VCALENDAR",
+      "",
+    ]);
+  });
+
+  it("omits optional properties that are not set", () => {
+    const document = buildIcsCalendar({
+      name: "Tender deadlines",
+      events: [
+        {
+          uid: "tender-2-briefing@tenderhub.com",
+          start: new Date("2026-03-04T08:00:00.000Z"),
+          end: new Date("2026-03-04T09:00:00.000Z"),
+          summary: "Briefing: Road K46",
+          status: "TENTATIVE",
+        },
+      ],
+      generatedAt,
+    });
+
+    assert.ok(!document.includes("X-WR-CALDESC"));
+    assert.ok(!document.includes("DESCRIPTION:"));
+    assert.ok(!document.includes("LOCATION:"));
+    assert.ok(!document.includes("URL:"));
+    assert.ok(!document.includes("VALARM"));
+    assert.ok(document.includes("\r\nSTATUS:TENTATIVE\r\n"));
+  });
+
+  it("produces an empty but valid calendar without events", () => {
+    const document = buildIcsCalendar({
+      name: "Tender deadlines",
+      events: [],
+      generatedAt,
+    });
+
+    assert.ok(document.startsWith("BEGIN:VCALENDAR\r\n"));
+    assert.ok(
+      document.endsWith("X-WR-CALNAME:Tender deadlines\r\nEND:VCALENDAR\r\n"),
+    );
+    assert.ok(!document.includes("BEGIN:VEVENT"));
+  });
+
+  it("folds long summaries so no line exceeds 75 octets", () => {
+    const summary = `Closes: ${"Rehabilitation of provincial road P1-1, ".repeat(4)}`;
+    const document = buildIcsCalendar({
+      name: "Tender deadlines",
+      events: [{ ...closingEvent, summary }],
+      generatedAt,
+    });
+
+    for (const line of document.split("\r\n")) {
+      assert.ok(Buffer.byteLength(line) <= 75, line);
+    }
+    assert.ok(unfold(document).includes(`SUMMARY:${escapeIcsText(summary)}`));
+  });
+});
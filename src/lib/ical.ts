@@ -0,0 +1,142 @@
+/**
+ * iCalendar (RFC 5545) generation
+ *
+ * Builds `.ics` documents from plain event objects. Kept free of database
+ * and framework imports so the output can be verified in isolation.
+ */
+
+export interface IcsEvent {
+  uid: string;
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string;
+  location?: string;
+  url?: string;
+  status?: "CONFIRMED" | "TENTATIVE" | "CANCELLED";
+  // Minutes before `start` to show a calendar alarm
+  alarmMinutesBefore?: number;
+}
+
+export interface IcsCalendar {
+  name: string;
+  description?: string;
+  events: IcsEvent[];
+  // Timestamp written to DTSTAMP, defaults to now
+  generatedAt?: Date;
+}
+
+const PRODUCT_ID = "-//Tender Hub//Tender Deadlines//EN";
+
+// RFC 5545 limits content lines to 75 octets excluding the line break
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * Escape a TEXT value: backslashes, semicolons, commas and newlines.
+ */
+export function escapeIcsText(value: string) {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r\n|\r|\n/g, "\\n");
+}
+
+/**
+ * Format a date as a UTC DATE-TIME, e.g. 20251114T090000Z.
+ */
+export function formatIcsDate(date: Date) {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+}
+
+/**
+ * Fold a content line into 75-octet chunks, continuing each with a space.
+ * Multi-byte characters are never split.
+ */
+export function foldIcsLine(line: string) {
+  const encoder = new TextEncoder();
+  const chunks: string[] = [];
+  let current = "";
+  let currentOctets = 0;
+
+  for (const char of line) {
+    const octets = encoder.encode(char).length;
+    // Continuation lines lose one octet to the leading space
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      chunks.push(current);
+      current = "";
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  chunks.push(current);
+
+  return chunks.join("\r\n ");
+}
+
+function buildEvent(event: IcsEvent, generatedAt: Date) {
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatIcsDate(generatedAt)}`,
+    `DTSTART:${formatIcsDate(event.start)}`,
+    `DTEND:${formatIcsDate(event.end)}`,
+    `SUMMARY:${escapeIcsText(event.summary)}`,
+  ];
+
+  if (event.description) {
+    lines.push(`DESCRIPTION:${escapeIcsText(event.description)}`);
+  }
+  if (event.location) {
+    lines.push(`LOCATION:${escapeIcsText(event.location)}`);
+  }
+  if (event.url) {
+    lines.push(`URL:${event.url}`);
+  }
+  lines.push(`STATUS:${event.status ?? "CONFIRMED"}`);
+
+  if (event.alarmMinutesBefore !== undefined) {
+    lines.push(
+      "BEGIN:VALARM",
+      "ACTION:DISPLAY",
+      `DESCRIPTION:${escapeIcsText(event.summary)}`,
+      `TRIGGER:-PT${event.alarmMinutesBefore}M`,
+      "END:VALARM",
+    );
+  }
+
+  lines.push("END:VEVENT");
+  return lines;
+}
+
+/**
+ * Serialise a calendar to an `.ics` document with CRLF line endings.
+ */
+export function buildIcsCalendar(calendar: IcsCalendar) {
+  const generatedAt = calendar.generatedAt ?? new Date();
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeIcsText(calendar.name)}`,
+  ];
+  if (calendar.description) {
+    lines.push(`X-WR-CALDESC:${escapeIcsText(calendar.description)}`);
+  }
+
+  for (const event of calendar.events) {
+    lines.push(...buildEvent(event, generatedAt));
+  }
+
+  lines.push("END:VCALENDAR");
+
+  return `${lines.map(foldIcsLine).join("\r\n")}\r\n`;
+}
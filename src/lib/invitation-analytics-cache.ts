@@ -1,6 +1,14 @@
 import { and, eq, gte, lte, sql } from "drizzle-orm";
 import { db } from "@/db";
 import { analyticsCache } from "@/db/schema";
+import {
+  type CacheInvalidation,
+  getCacheBackend,
+  invalidationMatches,
+} from "./cache-backend";
+
+// Namespace for broadcast invalidations and the prefix of stored keys
+const CACHE_NAME = "invitation_analytics";
 
 export interface CacheEntry<T = any> {
   key: string;
@@ -31,6 +39,19 @@ export class InvitationAnalyticsCache {
       maxSize: options.maxSize || 100,
       enableCompression: options.enableCompression || false,
     };
+
+    // Drop entries that other instances delete
+    getCacheBackend()
+      .then((backend) =>
+        backend.subscribe((invalidation) => {
+          if (invalidation.cache === CACHE_NAME) {
+            this.dropFromMemory(invalidation);
+          }
+        }),
+      )
+      .catch((error) => {
+        console.error("Error subscribing to cache invalidations:", error);
+      });
   }
 
   static getInstance(
@@ -54,7 +75,7 @@ export class InvitationAnalyticsCache {
       .map((key) => `${key}:${params[key]}`)
       .join("|");
 
-    return `invitation_analytics:${type}:${sortedParams}`;
+    return `${CACHE_NAME}:${type}:${sortedParams}`;
   }
 
   /**
@@ -146,8 +167,11 @@ export class InvitationAnalyticsCache {
         createdAt: now,
       };
 
-      // Store in database
-      await db.insert(analyticsCache).values(cacheData);
+      // Store in database, replacing an entry another instance wrote
+      await db.insert(analyticsCache).values(cacheData).onConflictDoUpdate({
+        target: analyticsCache.cacheKey,
+        set: cacheData,
+      });
 
       // Store in memory cache
       this.memoryCache.set(key, {
@@ -177,8 +201,12 @@ export class InvitationAnalyticsCache {
       // Remove from database
       await db.delete(analyticsCache).where(eq(analyticsCache.cacheKey, key));
 
-      // Remove from memory
+      // Remove from memory here and on other instances
       this.memoryCache.delete(key);
+      await this.broadcast({
+        cache: CACHE_NAME,
+        keys: [key.slice(CACHE_NAME.length + 1)],
+      });
     } catch (error) {
       console.error("Error deleting from cache:", error);
       throw error;
@@ -190,8 +218,14 @@ export class InvitationAnalyticsCache {
    */
   async clear(): Promise<void> {
     try {
-      await db.delete(analyticsCache);
+      // The table is shared with other caches, so only remove our rows
+      await db
+        .delete(analyticsCache)
+        .where(
+          sql`starts_with(${analyticsCache.cacheKey}, ${`${CACHE_NAME}:`})`,
+        );
       this.memoryCache.clear();
+      await this.broadcast({ cache: CACHE_NAME });
     } catch (error) {
       console.error("Error clearing cache:", error);
       throw error;
@@ -279,6 +313,25 @@ export class InvitationAnalyticsCache {
     return Math.abs(hash).toString(36);
   }
 
+  /**
+   * Tell other instances to drop entries from their memory caches
+   */
+  private async broadcast(invalidation: CacheInvalidation): Promise<void> {
+    const backend = await getCacheBackend();
+    await backend.invalidate(invalidation);
+  }
+
+  /**
+   * Remove memory cache entries covered by an invalidation
+   */
+  private dropFromMemory(invalidation: CacheInvalidation): void {
+    for (const key of Array.from(this.memoryCache.keys())) {
+      if (invalidationMatches(invalidation, key.slice(CACHE_NAME.length + 1))) {
+        this.memoryCache.delete(key);
+      }
+    }
+  }
+
   /**
    * Enforce memory cache size limits
    */
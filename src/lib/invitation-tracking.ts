@@ -1,7 +1,8 @@
 import { and, eq, sql } from "drizzle-orm";
 import { db } from "@/db";
-import { events, invitation } from "@/db/schema";
+import { invitation } from "@/db/schema";
 import { AuditLogger } from "@/lib/audit-logger";
+import { recordAnalyticsEvent } from "@/lib/consent";
 
 export interface InvitationEventData {
   invitationId: string;
@@ -39,7 +40,7 @@ export const invitationTracking: InvitationTrackingService = {
   async trackSent(data: InvitationEventData): Promise<void> {
     try {
       // Track the event
-      await db.insert(events).values({
+      await recordAnalyticsEvent({
         sessionId: data.metadata?.sessionId,
         userId: data.inviterId,
         eventType: "invitation",
@@ -96,7 +97,7 @@ export const invitationTracking: InvitationTrackingService = {
   ): Promise<void> {
     try {
       // Track the event
-      await db.insert(events).values({
+      await recordAnalyticsEvent({
         sessionId: data.metadata?.sessionId,
         eventType: "invitation",
         eventName: "opened",
@@ -145,7 +146,7 @@ export const invitationTracking: InvitationTrackingService = {
       }
 
       // Track the event
-      await db.insert(events).values({
+      await recordAnalyticsEvent({
         sessionId: data.metadata?.sessionId,
         userId: data.userId,
         eventType: "invitation",
@@ -197,7 +198,7 @@ export const invitationTracking: InvitationTrackingService = {
   async trackExpired(data: InvitationEventData): Promise<void> {
     try {
       // Track the event
-      await db.insert(events).values({
+      await recordAnalyticsEvent({
         sessionId: data.metadata?.sessionId,
         userId: data.inviterId,
         eventType: "invitation",
@@ -230,7 +231,7 @@ export const invitationTracking: InvitationTrackingService = {
   ): Promise<void> {
     try {
       // Track the event
-      await db.insert(events).values({
+      await recordAnalyticsEvent({
         sessionId: data.metadata?.sessionId,
         userId: data.cancelledBy,
         eventType: "invitation",
@@ -278,7 +279,7 @@ export const invitationTracking: InvitationTrackingService = {
   async trackDeclined(data: InvitationEventData): Promise<void> {
     try {
       // Track the event
-      await db.insert(events).values({
+      await recordAnalyticsEvent({
         sessionId: data.metadata?.sessionId,
         eventType: "invitation",
         eventName: "declined",
@@ -310,7 +311,7 @@ export const invitationTracking: InvitationTrackingService = {
   ): Promise<void> {
     try {
       // Track the event
-      await db.insert(events).values({
+      await recordAnalyticsEvent({
         sessionId: data.metadata?.sessionId,
         userId: data.resentBy,
         eventType: "invitation",
@@ -1,9 +1,9 @@
-import { auth } from "@/lib/auth";
+import { getSessionWithRole } from "@/lib/auth-utils";
 import {
   invitationTracking,
   invitationTrackingUtils,
 } from "@/lib/invitation-tracking";
-import { checkPermission } from "@/lib/permissions";
+import { getMemberPermissionChecker } from "@/lib/roles";
 
 export async function createInvitation({
   email,
@@ -16,10 +16,7 @@ export async function createInvitation({
 }) {
   try {
     // Get current session to verify user exists and get their info
-    const { headers } = await import("next/headers");
-    const session = await auth.api.getSession({
-      headers: await headers(),
-    });
+    const session = await getSessionWithRole();
 
     if (!session?.user?.id) {
       throw new Error("Unauthorized: No valid session");
@@ -58,10 +55,13 @@ export async function createInvitation({
 
     const inviter = inviterUsers[0];
 
-    // Check permissions
-    const permissions = checkPermission(inviter);
+    // Check permissions against the inviter's role in the active organisation
+    const permissions = await getMemberPermissionChecker(
+      session.organization.id,
+      inviter.id,
+    );
 
-    if (!permissions.canInviteUsers()) {
+    if (!permissions?.canInviteUsers()) {
       throw new Error("Insufficient permissions to invite users");
     }
 
@@ -164,6 +164,7 @@ export async function acceptInvitation({
     // Get invitation details from database directly
     const { db } = await import("@/db");
     const { invitation, user } = await import("@/db/schema");
+    const { addOrganizationMember } = await import("@/lib/organization");
     const { eq } = await import("drizzle-orm");
 
     const inviteResults = await db
@@ -174,6 +175,7 @@ export async function acceptInvitation({
         status: invitation.status,
         expiresAt: invitation.expiresAt,
         inviterId: invitation.inviterId,
+        organizationId: invitation.organizationId,
       })
       .from(invitation)
       .where(eq(invitation.id, invitationId))
@@ -232,7 +234,14 @@ export async function acceptInvitation({
 
     if (existingUser.length > 0) {
       console.log("⚠️ DEBUG: User already exists:", existingUser[0]);
-      // Mark invitation as accepted anyway
+      // Existing accounts join the inviting organisation
+      await addOrganizationMember(
+        invite.organizationId,
+        existingUser[0].id,
+        (invite.role as "owner" | "admin" | "manager" | "user") || "user",
+      );
+
+      // Mark invitation as accepted
       await db
         .update(invitation)
         .set({
@@ -276,19 +285,25 @@ export async function acceptInvitation({
         signUpResult.user.id,
       );
 
-      // Update the user with role and status (since Better Auth doesn't handle custom fields in signUp)
+      // Update the user's status (since Better Auth doesn't handle custom fields in signUp).
+      // The invited role applies to the organisation membership below.
       await db
         .update(user)
         .set({
-          role:
-            (invite.role as "owner" | "admin" | "manager" | "user") || "user",
           status: "active" as const,
           emailVerified: true, // Skip verification for invited users
           invitedBy: invite.inviterId,
           invitedAt: new Date(),
+          activeOrganizationId: invite.organizationId,
         })
         .where(eq(user.id, signUpResult.user.id));
 
+      await addOrganizationMember(
+        invite.organizationId,
+        signUpResult.user.id,
+        (invite.role as "owner" | "admin" | "manager" | "user") || "user",
+      );
+
       console.log("✅ DEBUG: User role and status updated");
 
       // Mark invitation as accepted
@@ -357,32 +372,17 @@ export async function resendInvitation(
       throw new Error("Can only resend pending invitations");
     }
 
-    // Verify requester permissions
-    const requesterResponse = await fetch(
-      `${process.env.NEXT_PUBLIC_APP_URL}/api/admin/users`,
-      {
-        method: "GET",
-        headers: {
-          "Content-Type": "application/json",
-        },
-      },
-    );
-
-    if (!requesterResponse.ok) {
-      throw new Error("Failed to verify requester permissions");
-    }
-
-    const requesterData = await requesterResponse.json();
-    const requester = requesterData.users?.find(
-      (u: any) => u.id === requesterId,
+    // Verify requester permissions in the invitation's organisation
+    const permissions = await getMemberPermissionChecker(
+      invite.organizationId,
+      requesterId,
     );
 
-    if (!requester) {
+    if (!permissions) {
       throw new Error("Requester not found");
     }
 
-    const permissions = checkPermission(requester);
-    if (!permissions.canInviteUsers()) {
+    if (!permissions.can("invitation", "resend")) {
       throw new Error("Insufficient permissions");
     }
 
@@ -441,31 +441,20 @@ export async function cancelInvitation(
       throw new Error("Invitation not found");
     }
 
-    // Verify requester permissions
-    const requesterResponse = await fetch(
-      `${process.env.NEXT_PUBLIC_APP_URL}/api/admin/users`,
-      {
-        method: "GET",
-        headers: {
-          "Content-Type": "application/json",
-        },
-      },
-    );
-
-    if (!requesterResponse.ok) {
-      throw new Error("Failed to verify requester permissions");
-    }
-
-    const requesterData = await requesterResponse.json();
-    const requester = requesterData.users?.find(
-      (u: any) => u.id === requesterId,
+    // Verify requester permissions in the invitation's organisation
+    const permissions = await getMemberPermissionChecker(
+      invite.organizationId,
+      requesterId,
     );
 
-    if (!requester) {
+    if (!permissions) {
       throw new Error("Requester not found");
     }
 
-    if (invite.inviterId !== requesterId && requester.role !== "admin") {
+    if (
+      invite.inviterId !== requesterId &&
+      !permissions.can("invitation", "cancel")
+    ) {
       throw new Error(
         "Only the inviter or an admin can cancel this invitation",
       );
@@ -0,0 +1,181 @@
+import assert from "node:assert/strict";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { after, before, describe, it } from "node:test";
+import { checkLink, nextLinkStatus, normalizeWebsiteUrl } from "./link-health";
+
+// Local stub standing in for publisher websites
+let server: Server;
+let baseUrl: string;
+const requests: { path: string; userAgent?: string }[] = [];
+
+before(async () => {
+  server = createServer((request, response) => {
+    const path = request.url ?? "/";
+    requests.push({ path, userAgent: request.headers["user-agent"] });
+
+    if (path === "/ok") {
+      response.writeHead(200, { "Content-Type": "text/html" });
+      response.end("<html><body>Tenders</body></html>");
+    } else if (path === "/moved") {
+      response.writeHead(301, { Location: "/tenders/current" });
+      response.end();
+    } else if (path === "/tenders/current") {
+      response.writeHead(302, { Location: `${baseUrl}/ok` });
+      response.end();
+    } else if (path.startsWith("/loop/")) {
+      const hop = Number(path.slice("/loop/".length));
+      response.writeHead(307, { Location: `/loop/${hop + 1}` });
+      response.end();
+    } else if (path === "/redirect-without-location") {
+      response.writeHead(302);
+      response.end();
+    } else if (path === "/error") {
+      response.writeHead(503);
+      response.end("Service unavailable");
+    } else if (path === "/hang") {
+      // Never respond; the checker must give up on its own
+    } else {
+      response.writeHead(404);
+      response.end("Not found");
+    }
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(async () => {
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+describe("checkLink", () => {
+  it("reports a healthy page with its status and timing", async () => {
+    const result = await checkLink(`${baseUrl}/ok`);
+
+    assert.equal(result.ok, true);
+    assert.equal(result.statusCode, 200);
+    assert.equal(result.redirectUrl, null);
+    assert.equal(result.error, null);
+    assert.equal(result.tlsExpiresAt, null);
+    assert.ok(result.responseTimeMs >= 0);
+    assert.equal(requests.at(-1)?.userAgent, "TenderHub-LinkChecker/1.0");
+  });
+
+  it("follows relative and absolute redirects and records the target", async () => {
+    const result = await checkLink(`${baseUrl}/moved`);
+
+    assert.equal(result.ok, true);
+    assert.equal(result.statusCode, 200);
+    assert.equal(result.url, `${baseUrl}/moved`);
+    assert.equal(result.redirectUrl, `${baseUrl}/ok`);
+  });
+
+  it("fails on error statuses", async () => {
+    const missing = await checkLink(`${baseUrl}/gone`);
+    assert.equal(missing.ok, false);
+    assert.equal(missing.statusCode, 404);
+    assert.equal(missing.error, "HTTP 404");
+
+    const unavailable = await checkLink(`${baseUrl}/error`);
+    assert.equal(unavailable.ok, false);
+    assert.equal(unavailable.statusCode, 503);
+  });
+
+  it("treats a redirect without a location as a failed response", async () => {
+    const result = await checkLink(`${baseUrl}/redirect-without-location`);
+
+    assert.equal(result.ok, false);
+    assert.equal(result.statusCode, 302);
+    assert.equal(result.error, "HTTP 302");
+  });
+
+  it("gives up after too many redirects", async () => {
+    const result = await checkLink(`${baseUrl}/loop/0`);
+
+    assert.equal(result.ok, false);
+    assert.equal(result.statusCode, 307);
+    assert.equal(result.error, "More than 5 redirects");
+    assert.equal(result.redirectUrl, `${baseUrl}/loop/5`);
+  });
+
+  it("times out on a server that never responds", async () => {
+    const result = await checkLink(`${baseUrl}/hang`, { timeoutMs: 200 });
+
+    assert.equal(result.ok, false);
+    assert.equal(result.statusCode, null);
+    assert.equal(result.error, "Timed out after 200ms");
+  });
+
+  it("reports connection failures without throwing", async () => {
+    // Listen and close again to get a port nothing listens on
+    const closed = createServer();
+    await new Promise<void>((resolve) =>
+      closed.listen(0, "127.0.0.1", resolve),
+    );
+    const { port } = closed.address() as AddressInfo;
+    await new Promise((resolve) => closed.close(resolve));
+
+    const result = await checkLink(`http://127.0.0.1:${port}/`);
+
+    assert.equal(result.ok, false);
+    assert.equal(result.statusCode, null);
+    assert.match(result.error ?? "", /ECONNREFUSED/);
+  });
+
+  it("rejects invalid URLs and unsupported protocols", async () => {
+    assert.equal((await checkLink("not a url")).error, "Invalid URL");
+    assert.equal(
+      (await checkLink("ftp://ftp.example.gov.za/tenders")).error,
+      "Unsupported protocol ftp:",
+    );
+  });
+});
+
+describe("normalizeWebsiteUrl", () => {
+  it("adds https to websites captured without a scheme", () => {
+    assert.equal(normalizeWebsiteUrl(" www.gov.za "), "https://www.gov.za");
+    assert.equal(
+      normalizeWebsiteUrl("http://www.capetown.gov.za"),
+      "http://www.capetown.gov.za",
+    );
+  });
+});
+
+describe("nextLinkStatus", () => {
+  const first = new Date("2026-03-01T02:00:00Z");
+  const second = new Date("2026-03-02T02:00:00Z");
+  const third = new Date("2026-03-03T02:00:00Z");
+
+  it("flags a publisher once failures reach the threshold", () => {
+    let status = nextLinkStatus(undefined, false, first, 3);
+    assert.deepEqual(status, { consecutiveFailures: 1, brokenSince: null });
+
+    status = nextLinkStatus(status, false, second, 3);
+    assert.deepEqual(status, { consecutiveFailures: 2, brokenSince: null });
+
+    status = nextLinkStatus(status, false, third, 3);
+    assert.deepEqual(status, { consecutiveFailures: 3, brokenSince: third });
+  });
+
+  it("keeps the time a publisher first broke", () => {
+    const status = nextLinkStatus(
+      { consecutiveFailures: 5, brokenSince: first },
+      false,
+      third,
+      3,
+    );
+    assert.deepEqual(status, { consecutiveFailures: 6, brokenSince: first });
+  });
+
+  it("clears the flag on the next successful check", () => {
+    const status = nextLinkStatus(
+      { consecutiveFailures: 5, brokenSince: first },
+      true,
+      third,
+      3,
+    );
+    assert.deepEqual(status, { consecutiveFailures: 0, brokenSince: null });
+  });
+});
@@ -0,0 +1,367 @@
+/**
+ * Publisher link health
+ *
+ * Requests each publisher website and records the status code, final
+ * redirect target, response time and TLS certificate expiry in
+ * `publisher_link_checks`. `publisher_link_status` keeps the running
+ * failure count; a publisher is flagged broken after
+ * LINK_FAILURE_THRESHOLD consecutive failures and unflagged by the next
+ * successful check.
+ *
+ * Requests go through node:http/https rather than fetch so the peer
+ * certificate is available, and redirects are followed by hand so the
+ * final URL can be recorded.
+ */
+
+import http from "node:http";
+import https from "node:https";
+import type { TLSSocket } from "node:tls";
+import { and, eq, inArray, isNotNull } from "drizzle-orm";
+import { db } from "@/db";
+import {
+  type PublisherLinkStatus,
+  publisherLinkChecks,
+  publisherLinkStatus,
+  publishers,
+} from "@/db/schema";
+import { createAppError, logError } from "@/lib/error-utils";
+
+const USER_AGENT = "TenderHub-LinkChecker/1.0";
+const MAX_REDIRECTS = 5;
+// Publishers checked in parallel
+const CHECK_CONCURRENCY = 5;
+
+export const LINK_CHECK_TIMEOUT_MS = 15_000;
+
+// Consecutive failed checks before a publisher is flagged as broken
+export const LINK_FAILURE_THRESHOLD =
+  Number.parseInt(process.env.LINK_CHECK_FAILURE_THRESHOLD ?? "", 10) || 3;
+
+export interface LinkCheckResult {
+  url: string;
+  ok: boolean;
+  statusCode: number | null;
+  // Final URL when the request was redirected
+  redirectUrl: string | null;
+  responseTimeMs: number;
+  tlsExpiresAt: Date | null;
+  error: string | null;
+}
+
+export interface PublisherLinkReport extends LinkCheckResult {
+  publisherId: string;
+  publisherName: string;
+  consecutiveFailures: number;
+  broken: boolean;
+}
+
+export interface LinkHealthRunReport {
+  checked: number;
+  ok: number;
+  failed: number;
+  newlyBroken: number;
+  recovered: number;
+  results: PublisherLinkReport[];
+}
+
+interface HopResponse {
+  statusCode: number;
+  location: string | null;
+  tlsExpiresAt: Date | null;
+}
+
+/**
+ * Websites are sometimes captured without a scheme, e.g. "www.gov.za".
+ */
+export function normalizeWebsiteUrl(website: string) {
+  const trimmed = website.trim();
+  return /^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
+}
+
+function isRedirect(statusCode: number) {
+  return [301, 302, 303, 307, 308].includes(statusCode);
+}
+
+/**
+ * Issue one GET and resolve as soon as the headers arrive. The body is
+ * never read.
+ */
+function requestHeaders(url: URL, timeoutMs: number) {
+  return new Promise<HopResponse>((resolve, reject) => {
+    const client = url.protocol === "https:" ? https : http;
+    const request = client.request(
+      url,
+      {
+        method: "GET",
+        headers: { "User-Agent": USER_AGENT, Accept: "text/html,*/*" },
+        timeout: timeoutMs,
+      },
+      (response) => {
+        const socket = response.socket as TLSSocket;
+        const certificate =
+          typeof socket.getPeerCertificate === "function"
+            ? socket.getPeerCertificate()
+            : undefined;
+
+        resolve({
+          statusCode: response.statusCode ?? 0,
+          location: response.headers.location ?? null,
+          tlsExpiresAt: certificate?.valid_to
+            ? new Date(certificate.valid_to)
+            : null,
+        });
+        response.destroy();
+      },
+    );
+
+    request.on("timeout", () => {
+      request.destroy(new Error(`Timed out after ${timeoutMs}ms`));
+    });
+    request.on("error", reject);
+    request.end();
+  });
+}
+
+/**
+ * Check one URL, following up to MAX_REDIRECTS redirects. Any 2xx
+ * response after redirects counts as healthy. Never throws.
+ */
+export async function checkLink(
+  url: string,
+  options: { timeoutMs?: number } = {},
+): Promise<LinkCheckResult> {
+  const timeoutMs = options.timeoutMs ?? LINK_CHECK_TIMEOUT_MS;
+  const startedAt = performance.now();
+  const elapsed = () => Math.round(performance.now() - startedAt);
+  const failure = (
+    error: string,
+    fields: Partial<LinkCheckResult> = {},
+  ): LinkCheckResult => ({
+    url,
+    ok: false,
+    statusCode: null,
+    redirectUrl: null,
+    responseTimeMs: elapsed(),
+    tlsExpiresAt: null,
+    error,
+    ...fields,
+  });
+
+  let current: URL;
+  try {
+    current = new URL(url);
+  } catch {
+    return failure("Invalid URL");
+  }
+  if (current.protocol !== "http:" && current.protocol !== "https:") {
+    return failure(`Unsupported protocol ${current.protocol}`);
+  }
+
+  const original = current.href;
+  const redirectTarget = () =>
+    current.href !== original ? current.href : null;
+
+  try {
+    for (let redirects = 0; ; redirects++) {
+      const hop = await requestHeaders(current, timeoutMs);
+
+      if (isRedirect(hop.statusCode) && hop.location) {
+        if (redirects >= MAX_REDIRECTS) {
+          return failure(`More than ${MAX_REDIRECTS} redirects`, {
+            statusCode: hop.statusCode,
+            redirectUrl: redirectTarget(),
+          });
+        }
+        current = new URL(hop.location, current);
+        continue;
+      }
+
+      const ok = hop.statusCode >= 200 && hop.statusCode < 300;
+      return {
+        url,
+        ok,
+        statusCode: hop.statusCode,
+        redirectUrl: redirectTarget(),
+        responseTimeMs: elapsed(),
+        tlsExpiresAt: hop.tlsExpiresAt,
+        error: ok ? null : `HTTP ${hop.statusCode}`,
+      };
+    }
+  } catch (error) {
+    return failure(error instanceof Error ? error.message : String(error), {
+      redirectUrl: redirectTarget(),
+    });
+  }
+}
+
+/**
+ * Failure count and broken flag after a check. `brokenSince` keeps the
+ * time the publisher first crossed the threshold.
+ */
+export function nextLinkStatus(
+  previous:
+    | Pick<PublisherLinkStatus, "consecutiveFailures" | "brokenSince">
+    | undefined,
+  ok: boolean,
+  checkedAt: Date,
+  threshold = LINK_FAILURE_THRESHOLD,
+) {
+  const consecutiveFailures = ok ? 0 : (previous?.consecutiveFailures ?? 0) + 1;
+  const brokenSince =
+    consecutiveFailures >= threshold
+      ? (previous?.brokenSince ?? checkedAt)
+      : null;
+
+  return { consecutiveFailures, brokenSince };
+}
+
+async function recordLinkCheck(
+  publisherId: string,
+  result: LinkCheckResult,
+  status: ReturnType<typeof nextLinkStatus>,
+  checkedAt: Date,
+) {
+  await db.insert(publisherLinkChecks).values({
+    publisherId,
+    url: result.url,
+    ok: result.ok,
+    statusCode: result.statusCode,
+    redirectUrl: result.redirectUrl,
+    responseTimeMs: result.responseTimeMs,
+    tlsExpiresAt: result.tlsExpiresAt,
+    error: result.error,
+    checkedAt,
+  });
+
+  const values = {
+    consecutiveFailures: status.consecutiveFailures,
+    brokenSince: status.brokenSince,
+    lastCheckedAt: checkedAt,
+    lastStatusCode: result.statusCode,
+    lastError: result.error,
+    tlsExpiresAt: result.tlsExpiresAt,
+  };
+  await db
+    .insert(publisherLinkStatus)
+    .values({ publisherId, ...values })
+    .onConflictDoUpdate({
+      target: publisherLinkStatus.publisherId,
+      set: values,
+    });
+}
+
+/**
+ * Check every publisher website, or only the given publishers, and
+ * record the results.
+ */
+export async function runLinkHealthCheck(
+  options: { publisherIds?: string[]; timeoutMs?: number } = {},
+): Promise<LinkHealthRunReport> {
+  const { publisherIds, timeoutMs } = options;
+
+  const targets = await db
+    .select({
+      id: publishers.id,
+      name: publishers.name,
+      website: publishers.website,
+      consecutiveFailures: publisherLinkStatus.consecutiveFailures,
+      brokenSince: publisherLinkStatus.brokenSince,
+    })
+    .from(publishers)
+    .leftJoin(
+      publisherLinkStatus,
+      eq(publisherLinkStatus.publisherId, publishers.id),
+    )
+    .where(
+      and(
+        isNotNull(publishers.website),
+        publisherIds ? inArray(publishers.id, publisherIds) : undefined,
+      ),
+    )
+    .orderBy(publishers.name);
+
+  const report: LinkHealthRunReport = {
+    checked: 0,
+    ok: 0,
+    failed: 0,
+    newlyBroken: 0,
+    recovered: 0,
+    results: [],
+  };
+
+  for (let i = 0; i < targets.length; i += CHECK_CONCURRENCY) {
+    const batch = targets.slice(i, i + CHECK_CONCURRENCY);
+
+    await Promise.all(
+      batch.map(async (target) => {
+        if (!target.website) return;
+
+        const result = await checkLink(normalizeWebsiteUrl(target.website), {
+          timeoutMs,
+        });
+        const checkedAt = new Date();
+        const previous =
+          target.consecutiveFailures === null
+            ? undefined
+            : {
+                consecutiveFailures: target.consecutiveFailures,
+                brokenSince: target.brokenSince,
+              };
+        const status = nextLinkStatus(previous, result.ok, checkedAt);
+
+        try {
+          await recordLinkCheck(target.id, result, status, checkedAt);
+        } catch (error) {
+          logError(
+            createAppError("Failed to record publisher link check", {
+              code: "LINK_CHECK_RECORD_FAILED",
+              details: { publisherId: target.id, originalError: error },
+            }),
+            "medium",
+          );
+        }
+
+        report.checked++;
+        if (result.ok) report.ok++;
+        else report.failed++;
+        if (status.brokenSince && !previous?.brokenSince) report.newlyBroken++;
+        if (!status.brokenSince && previous?.brokenSince) report.recovered++;
+
+        report.results.push({
+          ...result,
+          publisherId: target.id,
+          publisherName: target.name,
+          consecutiveFailures: status.consecutiveFailures,
+          broken: status.brokenSince !== null,
+        });
+      }),
+    );
+  }
+
+  return report;
+}
+
+/**
+ * Publishers currently flagged as broken, longest broken first.
+ */
+export async function getBrokenPublisherLinks() {
+  return db
+    .select({
+      publisherId: publishers.id,
+      publisherName: publishers.name,
+      website: publishers.website,
+      consecutiveFailures: publisherLinkStatus.consecutiveFailures,
+      brokenSince: publisherLinkStatus.brokenSince,
+      lastCheckedAt: publisherLinkStatus.lastCheckedAt,
+      lastStatusCode: publisherLinkStatus.lastStatusCode,
+      lastError: publisherLinkStatus.lastError,
+    })
+    .from(publisherLinkStatus)
+    .innerJoin(publishers, eq(publisherLinkStatus.publisherId, publishers.id))
+    .where(isNotNull(publisherLinkStatus.brokenSince))
+    .orderBy(publisherLinkStatus.brokenSince);
+}
+
+export type BrokenPublisherLink = Awaited<
+  ReturnType<typeof getBrokenPublisherLinks>
+>[number];
@@ -0,0 +1,86 @@
+/**
+ * Sign-in lockout
+ *
+ * Counts failed email/password sign-ins per account in
+ * `user.failed_login_attempts`. Reaching the `security.maxLoginAttempts`
+ * setting locks the account for LOGIN_LOCKOUT_MINUTES and resets the
+ * count; a successful sign-in also resets it. A limit of 0 turns the
+ * lockout off.
+ */
+
+import { addMinutes } from "date-fns";
+import { eq, sql } from "drizzle-orm";
+import { db } from "@/db";
+import { user } from "@/db/schema";
+import { AuditLogger } from "@/lib/audit-logger";
+import { getSystemSettings } from "@/lib/system-settings";
+
+export const LOGIN_LOCKOUT_MINUTES = 15;
+
+interface SignInContext {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/**
+ * When the account's lockout ends, or null when it can sign in.
+ */
+export async function getLoginLockedUntil(email: string) {
+  const [account] = await db
+    .select({ lockedUntil: user.lockedUntil })
+    .from(user)
+    .where(eq(user.email, email.toLowerCase()))
+    .limit(1);
+
+  const lockedUntil = account?.lockedUntil;
+  return lockedUntil && lockedUntil > new Date() ? lockedUntil : null;
+}
+
+/**
+ * Count a failed sign-in and lock the account once it reaches the limit.
+ * Attempts against unknown emails are audited but not counted.
+ */
+export async function recordFailedLogin(email: string, context: SignInContext) {
+  const { security } = await getSystemSettings();
+
+  const [account] = await db
+    .update(user)
+    .set({ failedLoginAttempts: sql`${user.failedLoginAttempts} + 1` })
+    .where(eq(user.email, email.toLowerCase()))
+    .returning({ id: user.id, failedLoginAttempts: user.failedLoginAttempts });
+
+  let lockedUntil: Date | null = null;
+  if (
+    account &&
+    security.maxLoginAttempts > 0 &&
+    account.failedLoginAttempts >= security.maxLoginAttempts
+  ) {
+    lockedUntil = addMinutes(new Date(), LOGIN_LOCKOUT_MINUTES);
+    await db
+      .update(user)
+      .set({ failedLoginAttempts: 0, lockedUntil })
+      .where(eq(user.id, account.id));
+  }
+
+  await AuditLogger.logFailedLogin(email, {
+    ...context,
+    userId: account?.id,
+    organizationId: null,
+    resourceType: "user",
+    resourceId: account?.id,
+    metadata: {
+      failedAttempts: account?.failedLoginAttempts,
+      lockedUntil: lockedUntil?.toISOString(),
+    },
+  });
+}
+
+/**
+ * Reset the failure count after a successful sign-in.
+ */
+export async function clearFailedLogins(userId: string) {
+  await db
+    .update(user)
+    .set({ failedLoginAttempts: 0, lockedUntil: null })
+    .where(eq(user.id, userId));
+}
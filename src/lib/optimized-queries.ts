@@ -18,6 +18,8 @@ import {
   type User,
   type UserBookmark,
 } from "@/db/schema";
+import { cacheInvalidator, ProductionCache } from "@/lib/cache-production";
+import { publisherSearchCondition } from "@/lib/search";
 
 /**
  * Dashboard data interface for single-query loading
@@ -172,8 +174,9 @@ export async function getOptimizedPublishers(
 
   // Build WHERE conditions
   const conditions = [];
-  if (search) {
-    conditions.push(ilike(publishers.name, `%${search}%`));
+  const searchCondition = search ? publisherSearchCondition(search) : undefined;
+  if (searchCondition) {
+    conditions.push(searchCondition);
   }
   if (provinceId) {
     conditions.push(eq(publishers.province_id, provinceId));
@@ -548,9 +551,18 @@ export async function bulkUpdatePublishers(
 }
 
 /**
- * Query result caching utilities
+ * Query result caching utilities, shared across instances through the
+ * configured cache backend
  */
-const queryCache = new Map<string, { data: any; timestamp: number; ttl: number }>();
+const queryCache = new ProductionCache<any>({
+  name: "query",
+  maxSize: 1000,
+  maxMemory: 20 * 1024 * 1024, // 20MB
+  defaultTTL: 300000, // 5 minutes
+  cleanupInterval: 60000, // 1 minute
+});
+
+cacheInvalidator.register("query", queryCache);
 
 /**
  * Cache query results with TTL
@@ -560,41 +572,21 @@ export function cacheQueryResult<T>(
   data: T,
   ttl: number = 300000 // 5 minutes default
 ): void {
-  queryCache.set(key, {
-    data,
-    timestamp: Date.now(),
-    ttl,
-  });
+  queryCache.set(key, data, ttl);
 }
 
 /**
- * Get cached query result
+ * Get cached query result from this instance
  */
 export function getCachedQueryResult<T>(key: string): T | null {
-  const cached = queryCache.get(key);
-  
-  if (!cached) {
-    return null;
-  }
-
-  if (Date.now() - cached.timestamp > cached.ttl) {
-    queryCache.delete(key);
-    return null;
-  }
-
-  return cached.data as T;
+  return queryCache.get(key) as T | null;
 }
 
 /**
  * Clear expired cache entries
  */
 export function clearExpiredQueryCache(): void {
-  const now = Date.now();
-  for (const [key, cached] of queryCache.entries()) {
-    if (now - cached.timestamp > cached.ttl) {
-      queryCache.delete(key);
-    }
-  }
+  queryCache.cleanup();
 }
 
 /**
@@ -617,15 +609,6 @@ export async function withQueryCache<T>(
   queryFn: () => Promise<T>,
   ttl: number = 300000
 ): Promise<T> {
-  // Check cache first
-  const cached = getCachedQueryResult<T>(key);
-  if (cached !== null) {
-    return cached;
-  }
-
-  // Execute query and cache result
-  const result = await queryFn();
-  cacheQueryResult(key, result, ttl);
-  
-  return result;
+  // Check this instance, then the shared store, before querying
+  return queryCache.getOrSet(key, queryFn, ttl) as Promise<T>;
 }
\ No newline at end of file
@@ -0,0 +1,188 @@
+/**
+ * Organisations
+ *
+ * Every user works inside one organisation at a time, stored as
+ * `user.active_organization_id`. Their membership role in that
+ * organisation is the role used for authorisation, so switching
+ * organisations changes what the user can see and do.
+ *
+ * Users without any membership (e.g. created outside an invitation) are
+ * added to the default organisation with their account role.
+ */
+
+import { and, asc, eq } from "drizzle-orm";
+import { db } from "@/db";
+import { organization, organizationMember, type Role, user } from "@/db/schema";
+
+export const DEFAULT_ORGANIZATION_SLUG = "default";
+
+export interface ActiveOrganization {
+  id: string;
+  name: string;
+  slug: string;
+  role: Role;
+  customRoleId: string | null;
+}
+
+export function slugifyOrganizationName(name: string) {
+  return name
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 48);
+}
+
+/**
+ * Organisations the user belongs to, with their role in each.
+ */
+export async function getUserOrganizations(
+  userId: string,
+): Promise<ActiveOrganization[]> {
+  return db
+    .select({
+      id: organization.id,
+      name: organization.name,
+      slug: organization.slug,
+      role: organizationMember.role,
+      customRoleId: organizationMember.customRoleId,
+    })
+    .from(organizationMember)
+    .innerJoin(
+      organization,
+      eq(organizationMember.organizationId, organization.id),
+    )
+    .where(eq(organizationMember.userId, userId))
+    .orderBy(asc(organization.name));
+}
+
+/**
+ * The user's role in an organisation, or null when not a member.
+ */
+export async function getMemberRole(organizationId: string, userId: string) {
+  const [membership] = await db
+    .select({ role: organizationMember.role })
+    .from(organizationMember)
+    .where(
+      and(
+        eq(organizationMember.organizationId, organizationId),
+        eq(organizationMember.userId, userId),
+      ),
+    )
+    .limit(1);
+
+  return membership?.role ?? null;
+}
+
+/**
+ * Add a user to an organisation. An existing membership keeps its role.
+ */
+export async function addOrganizationMember(
+  organizationId: string,
+  userId: string,
+  role: Role,
+) {
+  await db
+    .insert(organizationMember)
+    .values({ organizationId, userId, role })
+    .onConflictDoNothing({
+      target: [organizationMember.organizationId, organizationMember.userId],
+    });
+}
+
+async function getDefaultOrganizationId() {
+  const [existing] = await db
+    .select({ id: organization.id })
+    .from(organization)
+    .where(eq(organization.slug, DEFAULT_ORGANIZATION_SLUG))
+    .limit(1);
+  if (existing) return existing.id;
+
+  await db
+    .insert(organization)
+    .values({ name: "Tender Hub", slug: DEFAULT_ORGANIZATION_SLUG })
+    .onConflictDoNothing({ target: organization.slug });
+
+  const [created] = await db
+    .select({ id: organization.id })
+    .from(organization)
+    .where(eq(organization.slug, DEFAULT_ORGANIZATION_SLUG))
+    .limit(1);
+  return created.id;
+}
+
+/**
+ * Resolve the organisation the user is working in. Falls back to their
+ * first membership when the stored one is missing or no longer valid,
+ * and joins them to the default organisation when they have none.
+ */
+export async function resolveActiveOrganization(account: {
+  id: string;
+  role: Role;
+  activeOrganizationId: string | null;
+}): Promise<ActiveOrganization> {
+  let organizations = await getUserOrganizations(account.id);
+
+  if (organizations.length === 0) {
+    await addOrganizationMember(
+      await getDefaultOrganizationId(),
+      account.id,
+      account.role,
+    );
+    organizations = await getUserOrganizations(account.id);
+  }
+
+  const active =
+    organizations.find((org) => org.id === account.activeOrganizationId) ??
+    organizations[0];
+
+  if (active.id !== account.activeOrganizationId) {
+    await db
+      .update(user)
+      .set({ activeOrganizationId: active.id })
+      .where(eq(user.id, account.id));
+  }
+
+  return active;
+}
+
+/**
+ * Switch the user's active organisation. Returns false when the user is
+ * not a member of it.
+ */
+export async function setActiveOrganization(
+  userId: string,
+  organizationId: string,
+) {
+  const role = await getMemberRole(organizationId, userId);
+  if (!role) return false;
+
+  await db
+    .update(user)
+    .set({ activeOrganizationId: organizationId })
+    .where(eq(user.id, userId));
+  return true;
+}
+
+/**
+ * Create an organisation with the creator as its admin and make it their
+ * active organisation. Slugs get a numeric suffix when taken.
+ */
+export async function createOrganization(name: string, createdBy: string) {
+  const baseSlug = slugifyOrganizationName(name) || "organization";
+
+  let created: typeof organization.$inferSelect | undefined;
+  for (let attempt = 1; !created; attempt++) {
+    const slug = attempt === 1 ? baseSlug : `${baseSlug}-${attempt}`;
+    [created] = await db
+      .insert(organization)
+      .values({ name, slug, createdBy })
+      .onConflictDoNothing({ target: organization.slug })
+      .returning();
+  }
+
+  await addOrganizationMember(created.id, createdBy, "admin");
+  await setActiveOrganization(createdBy, created.id);
+
+  return created;
+}
@@ -4,6 +4,7 @@
  */
 
 import { getCacheHealth, cacheInvalidator } from "./cache-production";
+import { dbQueryDuration, httpRequestDuration, normalizeRoute } from "./prometheus-metrics";
 
 // Use performance API that works in both Node.js and browser environments
 const getPerformanceNow = (): number => {
@@ -105,6 +106,14 @@ export class PerformanceMonitor {
   trackAPIRequest(metric: APIMetric): void {
     this.apiMetrics.push(metric);
     this.cleanupOldMetrics();
+    httpRequestDuration.observe(
+      {
+        method: metric.method,
+        route: normalizeRoute(metric.endpoint),
+        status: String(metric.statusCode),
+      },
+      metric.responseTime / 1000
+    );
 
     // Log slow requests
     if (metric.responseTime > 1000) {
@@ -123,6 +132,10 @@ export class PerformanceMonitor {
   trackDatabaseQuery(metric: DatabaseMetric): void {
     this.dbMetrics.push(metric);
     this.cleanupOldMetrics();
+    dbQueryDuration.observe(
+      { query_type: metric.queryType, cached: String(metric.cached) },
+      metric.executionTime / 1000
+    );
 
     // Log slow queries
     if (metric.executionTime > 100) {
@@ -399,7 +412,7 @@ export class PerformanceMonitor {
   }
 
   /**
-   * Clear all metrics
+   * Clear all metrics. Prometheus histograms are cumulative and kept.
    */
   clearMetrics(): void {
     this.apiMetrics = [];
@@ -546,6 +559,36 @@ export function createPerformanceMiddleware() {
   };
 }
 
+/**
+ * Wrap a route handler to record its latency and status, counting a
+ * thrown error as a 500. Requests are labelled by the route template,
+ * e.g. `/api/calendar/[token]`, so ids and tokens never reach metrics
+ * or logs.
+ */
+export function withRequestMetrics<R extends Request, C extends unknown[], T extends Response>(
+  route: string,
+  handler: (request: R, ...context: C) => Promise<T>
+): (request: R, ...context: C) => Promise<T> {
+  return async (request, ...context) => {
+    const startTime = getPerformanceNow();
+    let statusCode = 500;
+
+    try {
+      const response = await handler(request, ...context);
+      statusCode = response.status;
+      return response;
+    } finally {
+      performanceMonitor.trackAPIRequest({
+        endpoint: route,
+        method: request.method,
+        statusCode,
+        responseTime: getPerformanceNow() - startTime,
+        timestamp: new Date(),
+      });
+    }
+  };
+}
+
 /**
  * Database query performance tracker
  */
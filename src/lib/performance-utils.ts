@@ -150,18 +150,19 @@ export function clearExpiredCache(): void {
 }
 
 /**
- * Enhanced caching with production cache integration
+ * Enhanced caching with production cache integration, reading through to
+ * the shared cache backend when this instance misses
  */
-export function getCachedData<T>(
+export async function getCachedData<T>(
   key: string,
   cacheType: 'dashboard' | 'publisher' | 'local' = 'local',
   ttl?: number
-): T | null {
+): Promise<T | null> {
   switch (cacheType) {
     case 'dashboard':
-      return dashboardCache ? dashboardCache.get(key) : null;
+      return dashboardCache ? dashboardCache.fetch(key) : null;
     case 'publisher':
-      return publisherCache ? publisherCache.get(key) : null;
+      return publisherCache ? publisherCache.fetch(key) : null;
     case 'local':
     default:
       return getCachedLocalStorage<T>(key, ttl);
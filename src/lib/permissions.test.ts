@@ -0,0 +1,207 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  builtInRolePermissions,
+  type CustomRoleRef,
+  checkPermission,
+  isPermissionSubset,
+  limitToPlatformRole,
+} from "./permissions";
+
+describe("limitToPlatformRole", () => {
+  it("keeps an organisation admin's shared-resource rights from a plain account", () => {
+    // Anyone can create an organisation and become its admin
+    const permissions = limitToPlatformRole(
+      builtInRolePermissions.admin,
+      "user",
+    );
+
+    assert.deepEqual(permissions.publisher, ["read"]);
+    assert.deepEqual(permissions.tender, ["read"]);
+    assert.deepEqual(permissions.province, ["read"]);
+    assert.equal(permissions.profileUpdate, undefined);
+    // Organisation-scoped resources are untouched
+    assert.deepEqual(permissions.team, builtInRolePermissions.admin.team);
+    assert.deepEqual(permissions.role, builtInRolePermissions.admin.role);
+  });
+
+  it("caps platform managers at manager rights on shared resources", () => {
+    const permissions = limitToPlatformRole(
+      builtInRolePermissions.admin,
+      "manager",
+    );
+
+    assert.deepEqual(permissions.publisher, [
+      "create",
+      "read",
+      "update",
+      "suspend",
+    ]);
+    assert.ok(!permissions.tender?.includes("delete"));
+    assert.deepEqual(permissions.profileUpdate, ["approve", "reject"]);
+  });
+
+  it("never grants more than the organisation role", () => {
+    const permissions = limitToPlatformRole(
+      builtInRolePermissions.user,
+      "owner",
+    );
+
+    assert.deepEqual(permissions, builtInRolePermissions.user);
+  });
+
+  it("treats a missing platform role as a plain user", () => {
+    const permissions = limitToPlatformRole(builtInRolePermissions.owner, null);
+
+    assert.deepEqual(permissions.publisher, ["read"]);
+  });
+
+  it("grants nothing on shared resources for unknown platform roles", () => {
+    const permissions = limitToPlatformRole(
+      builtInRolePermissions.owner,
+      "superuser",
+    );
+
+    assert.equal(permissions.publisher, undefined);
+    assert.equal(permissions.tender, undefined);
+  });
+});
+
+// Regression tests for role escalation through PUT /api/team/[id]
+describe("PermissionChecker.canChangeRole", () => {
+  const owner = { id: "owner-1", role: "owner" };
+  const admin = { id: "admin-1", role: "admin" };
+  const manager = { id: "manager-1", role: "manager" };
+  const member = { id: "user-1", role: "user" };
+
+  const checker = (actor: { id: string; role: string }) =>
+    checkPermission({ id: actor.id }, actor.role);
+
+  it("stops anyone from changing their own role", () => {
+    for (const actor of [owner, admin, manager]) {
+      for (const role of ["owner", "admin", "manager", "user"]) {
+        assert.equal(checker(actor).canChangeRole(actor, role), false);
+      }
+    }
+  });
+
+  it("stops a manager from raising their own role to owner", () => {
+    assert.equal(checker(manager).canChangeRole(manager, "owner"), false);
+  });
+
+  it("rejects roles at or above the caller's level", () => {
+    assert.equal(checker(manager).canChangeRole(member, "owner"), false);
+    assert.equal(checker(manager).canChangeRole(member, "admin"), false);
+    assert.equal(checker(manager).canChangeRole(member, "manager"), false);
+    assert.equal(checker(admin).canChangeRole(member, "admin"), false);
+    assert.equal(checker(admin).canChangeRole(member, "owner"), false);
+    assert.equal(checker(owner).canChangeRole(member, "owner"), false);
+  });
+
+  it("allows roles below the caller's level for members they outrank", () => {
+    assert.equal(checker(admin).canChangeRole(member, "manager"), true);
+    assert.equal(checker(admin).canChangeRole(manager, "user"), true);
+    assert.equal(checker(owner).canChangeRole(member, "admin"), true);
+    assert.equal(checker(manager).canChangeRole(member, "user"), true);
+  });
+
+  it("never lets an admin change an owner's role", () => {
+    assert.equal(checker(admin).canChangeRole(owner, "user"), false);
+  });
+
+  it("rejects roles outside the role enum", () => {
+    for (const role of ["superadmin", "", "constructor", "__proto__"]) {
+      assert.equal(checker(owner).canChangeRole(member, role), false, role);
+    }
+  });
+
+  it("requires team:update", () => {
+    const readOnly = checkPermission({ id: "viewer-1" }, "admin", {
+      team: ["read"],
+    });
+    assert.equal(readOnly.canChangeRole(member, "user"), false);
+    assert.equal(checker(member).canChangeRole(member, "user"), false);
+    assert.equal(
+      checker(member).canChangeRole({ id: "user-2", role: "user" }, "user"),
+      false,
+    );
+  });
+});
+
+// Regression tests for escalation through custom roles
+describe("PermissionChecker.canGrantRole", () => {
+  // A custom role that may manage roles but not remove team members
+  const roleManager = checkPermission(
+    { id: "manager-1" },
+    "manager",
+    {
+      team: ["read", "update"],
+      role: ["create", "update", "assign"],
+    },
+    "role-held",
+  );
+  const member = { id: "user-1", role: "user" };
+
+  it("rejects permissions the caller does not hold", () => {
+    assert.equal(
+      roleManager.canGrantRole({ permissions: { team: ["read", "remove"] } }),
+      false,
+    );
+    assert.equal(
+      roleManager.canGrantRole({ permissions: { settings: ["update"] } }),
+      false,
+    );
+    assert.equal(
+      roleManager.canAssignRoles(member, {
+        id: "role-other",
+        permissions: { role: ["delete"] },
+      }),
+      false,
+    );
+  });
+
+  it("allows roles within the caller's permissions", () => {
+    assert.equal(
+      roleManager.canGrantRole({ permissions: { team: ["read"] } }),
+      true,
+    );
+    assert.equal(
+      roleManager.canAssignRoles(member, {
+        id: "role-other",
+        permissions: { team: ["read"], role: ["assign"] },
+      }),
+      true,
+    );
+  });
+
+  it("rejects the role the caller holds", () => {
+    const held: CustomRoleRef = {
+      id: "role-held",
+      permissions: { team: ["read"] },
+    };
+
+    assert.equal(roleManager.holdsCustomRole("role-held"), true);
+    assert.equal(roleManager.canGrantRole(held), false);
+    assert.equal(roleManager.canAssignRoles(member, held), false);
+  });
+});
+
+describe("isPermissionSubset", () => {
+  it("compares every resource's actions", () => {
+    assert.equal(
+      isPermissionSubset(
+        builtInRolePermissions.manager,
+        builtInRolePermissions.admin,
+      ),
+      true,
+    );
+    assert.equal(
+      isPermissionSubset(
+        builtInRolePermissions.admin,
+        builtInRolePermissions.manager,
+      ),
+      false,
+    );
+    assert.equal(isPermissionSubset({}, {}), true);
+  });
+});
@@ -1,133 +1,356 @@
 import { createAccessControl } from "better-auth/plugins/access";
 import { adminAc, defaultStatements } from "better-auth/plugins/admin/access";
-import type { User } from "@/db/schema";
+import type { Role, User } from "@/db/schema";
 
-// ✅ Complete permission statements
-export const statement = {
-  ...defaultStatements, // Better Auth defaults
-
-  // Application resources
+// ✅ Application resources and their actions. Custom roles are built
+// from these, so every permission check in the app names one of them.
+export const appStatement = {
   project: ["create", "read", "update", "delete", "share"],
   publisher: ["create", "read", "update", "delete", "publish", "suspend"],
+  tender: ["create", "read", "update", "delete"],
   province: ["create", "read", "update", "delete"],
+  pipeline: ["read", "manage"],
+  coverage: ["read", "assign"],
   analytics: ["view", "export", "delete"],
-  invitation: ["create", "cancel", "resend"],
+  team: ["read", "update", "suspend", "remove", "reset_two_factor"],
+  invitation: ["create", "read", "cancel", "resend"],
   profileUpdate: ["approve", "reject"],
+  dataErasure: ["approve", "reject"],
+  role: ["create", "update", "delete", "assign"],
+  auditLog: ["read"],
+  settings: ["read", "update"],
+} as const;
+
+// ✅ Complete permission statements
+export const statement = {
+  ...defaultStatements, // Better Auth defaults
+  ...appStatement,
 } as const;
 
 export const ac = createAccessControl(statement);
 
-// ✅ User role - read-only
-export const user = ac.newRole({
+export type PermissionResource = keyof typeof appStatement;
+export type PermissionAction<
+  R extends PermissionResource = PermissionResource,
+> = (typeof appStatement)[R][number];
+
+// Granted actions per resource; missing resources grant nothing
+export type Permissions = {
+  [R in PermissionResource]?: PermissionAction<R>[];
+};
+
+export const PERMISSION_RESOURCES = Object.keys(
+  appStatement,
+) as PermissionResource[];
+
+// ✅ Built-in role permissions
+const userPermissions: Permissions = {
   project: ["read", "share"],
   publisher: ["read"],
+  tender: ["read"],
   province: ["read"],
+  pipeline: ["read"], // Only own cards
   analytics: ["view"], // Only own analytics
-});
+};
 
-// ✅ Manager role - operational control
-export const manager = ac.newRole({
+const managerPermissions: Permissions = {
   project: ["create", "read", "update", "share"],
   publisher: ["create", "read", "update", "suspend"], // Cannot delete
-  province: ["read"],
+  tender: ["create", "read", "update"], // Cannot delete
+  province: ["create", "read", "update"], // Cannot delete
+  pipeline: ["read", "manage"],
+  coverage: ["read", "assign"],
   analytics: ["view", "export"], // Aggregate analytics only
-  invitation: ["create", "resend"], // Can invite users only
+  team: ["read", "update", "suspend"], // Only plain users, see below
+  invitation: ["create", "read", "resend"], // Can invite users only
   profileUpdate: ["approve", "reject"],
-});
+  dataErasure: ["approve", "reject"], // Only plain users, see PermissionChecker
+};
+
+// Admins and owners hold every application permission
+const allPermissions = Object.fromEntries(
+  PERMISSION_RESOURCES.map((resource) => [
+    resource,
+    [...appStatement[resource]],
+  ]),
+) as Permissions;
+
+export const builtInRolePermissions: Record<Role, Permissions> = {
+  owner: allPermissions,
+  admin: allPermissions,
+  manager: managerPermissions,
+  user: userPermissions,
+};
+
+// ✅ User role - read-only
+export const user = ac.newRole(userPermissions);
+
+// ✅ Manager role - operational control
+export const manager = ac.newRole(managerPermissions);
 
 // ✅ Admin role - full control
 export const admin = ac.newRole({
   ...adminAc.statements,
-  project: ["create", "read", "update", "delete", "share"],
-  publisher: ["create", "read", "update", "delete", "publish", "suspend"],
-  province: ["create", "read", "update", "delete"],
-  analytics: ["view", "export", "delete"],
-  invitation: ["create", "cancel", "resend"],
-  profileUpdate: ["approve", "reject"],
+  ...allPermissions,
 });
 
-// ✅ Owner role (if using organization plugin)
+// ✅ Owner role - admin statements, and the only role that can manage owners
 export const owner = ac.newRole({
-  ...adminAc.statements, // Use admin statements as base
-  project: ["create", "read", "update", "delete", "share"],
-  publisher: ["create", "read", "update", "delete", "publish", "suspend"],
-  province: ["create", "read", "update", "delete"],
-  analytics: ["view", "export", "delete"],
-  invitation: ["create", "cancel", "resend"],
-  profileUpdate: ["approve", "reject"],
+  ...adminAc.statements,
+  ...allPermissions,
 });
 
-// ✅ Permission checker utility
+// ✅ Resources shared by every organisation. Anyone can create an
+// organisation and administer it, so these also need the account-level
+// (platform) role to grant the action.
+export const PLATFORM_RESOURCES = [
+  "publisher",
+  "tender",
+  "province",
+  "profileUpdate",
+] as const satisfies readonly PermissionResource[];
+
+/**
+ * Narrow a member's permissions on platform resources to what their
+ * platform role's built-in permissions also grant.
+ */
+export function limitToPlatformRole(
+  permissions: Permissions,
+  platformRole: Role | string | null,
+): Permissions {
+  const platformPermissions =
+    builtInRolePermissions[(platformRole ?? "user") as Role] ?? {};
+
+  const platformResources: readonly string[] = PLATFORM_RESOURCES;
+  return Object.fromEntries(
+    Object.entries(permissions)
+      .map(([resource, actions]: [string, string[]]) => {
+        if (!platformResources.includes(resource)) return [resource, actions];
+        const allowed: readonly string[] =
+          platformPermissions[resource as PermissionResource] ?? [];
+        return [resource, actions.filter((action) => allowed.includes(action))];
+      })
+      .filter(([, actions]) => actions.length > 0),
+  ) as Permissions;
+}
+
+const ROLE_HIERARCHY: Record<string, number> = {
+  owner: 4,
+  admin: 3,
+  manager: 2,
+  user: 1,
+};
+
+/**
+ * Seniority of a built-in role, 0 for unknown roles.
+ */
+export function getRoleLevel(role: string | null): number {
+  return ROLE_HIERARCHY[role || "user"] || 0;
+}
+
+/**
+ * Keep only known resources and actions, e.g. from a stored custom role
+ * or a submitted form.
+ */
+export function sanitizePermissions(input: unknown): Permissions {
+  if (!input || typeof input !== "object") return {};
+
+  const permissions: Permissions = {};
+  for (const resource of PERMISSION_RESOURCES) {
+    const actions = (input as Record<string, unknown>)[resource];
+    if (!Array.isArray(actions)) continue;
+
+    const allowed: readonly string[] = appStatement[resource];
+    const granted = allowed.filter((action) => actions.includes(action));
+    if (granted.length > 0) {
+      (permissions as Record<string, string[]>)[resource] = granted;
+    }
+  }
+  return permissions;
+}
+
+/**
+ * Whether `held` includes every action `granted` does.
+ */
+export function isPermissionSubset(
+  granted: Permissions,
+  held: Permissions,
+): boolean {
+  return PERMISSION_RESOURCES.every((resource) => {
+    const heldActions: readonly string[] = held[resource] ?? [];
+    const grantedActions: readonly string[] = granted[resource] ?? [];
+    return grantedActions.every((action) => heldActions.includes(action));
+  });
+}
+
+export function hasPermission<R extends PermissionResource>(
+  permissions: Permissions,
+  resource: R,
+  action: PermissionAction<R>,
+): boolean {
+  const granted: readonly string[] | undefined = permissions[resource];
+  return granted?.includes(action) ?? false;
+}
+
+// ✅ A user as a member of one organisation, with their role there
+export interface OrganizationMemberRef {
+  id: string;
+  role: Role | string | null;
+}
+
+// ✅ A custom role being created, edited or assigned
+export interface CustomRoleRef {
+  id?: string;
+  permissions: Permissions;
+}
+
+// ✅ Permission checker utility. Roles are evaluated per organisation:
+// both the acting user and any target carry their role in the same one.
+// Permissions come from the member's custom role when they have one,
+// otherwise from their built-in role.
 export class PermissionChecker {
-  constructor(private user: User) {}
+  private permissions: Permissions;
+
+  constructor(
+    private user: Pick<User, "id">,
+    private organizationRole: Role | string | null,
+    permissions?: Permissions,
+    private customRoleId: string | null = null,
+  ) {
+    this.permissions =
+      permissions ??
+      builtInRolePermissions[(organizationRole ?? "user") as Role] ??
+      {};
+  }
+
+  can<R extends PermissionResource>(
+    resource: R,
+    action: PermissionAction<R>,
+  ): boolean {
+    return hasPermission(this.permissions, resource, action);
+  }
 
   hasRole(role: string): boolean {
-    return this.user.role === role;
+    return this.organizationRole === role;
   }
 
   hasRoleOrHigher(role: string): boolean {
-    const hierarchy: Record<string, number> = { admin: 3, manager: 2, user: 1 };
-    return (hierarchy[this.user.role || "user"] || 0) >= (hierarchy[role] || 0);
+    return getRoleLevel(this.organizationRole) >= getRoleLevel(role);
+  }
+
+  // Below admin, team permissions only reach plain users
+  private outranks(targetUser: OrganizationMemberRef): boolean {
+    if (targetUser.role === "owner") return this.hasRole("owner");
+    if (this.hasRoleOrHigher("admin")) return true;
+    return getRoleLevel(targetUser.role) < getRoleLevel(this.organizationRole);
   }
 
   // Invitation permissions
   canInviteUsers(): boolean {
-    return this.hasRoleOrHigher("manager");
+    return this.can("invitation", "create");
   }
 
   canInviteAdmin(): boolean {
-    return this.hasRole("admin");
+    return this.canInviteUsers() && this.hasRoleOrHigher("admin");
   }
 
   canInviteManager(): boolean {
-    return this.hasRoleOrHigher("manager");
+    return this.canInviteUsers() && this.hasRoleOrHigher("manager");
   }
 
   // User management permissions
-  canModifyUser(targetUser: User): boolean {
-    if (this.user.role === "admin") return true;
-    if (this.user.role === "manager") {
-      return targetUser.role === "user";
-    }
+  canModifyUser(targetUser: OrganizationMemberRef): boolean {
+    if (this.can("team", "update") && this.outranks(targetUser)) return true;
     return this.user.id === targetUser.id;
   }
 
-  canSuspendUser(targetUser: User): boolean {
-    if (this.user.role === "admin") return true;
-    if (this.user.role === "manager") {
-      return targetUser.role === "user"; // Can only suspend users
-    }
-    return false;
+  // Built-in role changes: never one's own, and only to a known role below
+  // the caller's, so nobody can grant more than they hold
+  canChangeRole(targetUser: OrganizationMemberRef, newRole: string): boolean {
+    return (
+      this.can("team", "update") &&
+      this.user.id !== targetUser.id &&
+      this.outranks(targetUser) &&
+      Object.hasOwn(ROLE_HIERARCHY, newRole) &&
+      getRoleLevel(newRole) < getRoleLevel(this.organizationRole)
+    );
   }
 
-  canResetUserPassword(targetUser: User): boolean {
-    if (this.user.role === "admin") return true;
-    if (this.user.role === "manager") {
-      return targetUser.role === "user";
-    }
-    return this.user.id === targetUser.id;
+  canSuspendUser(targetUser: OrganizationMemberRef): boolean {
+    return this.can("team", "suspend") && this.outranks(targetUser);
+  }
+
+  canResetUserPassword(targetUser: OrganizationMemberRef): boolean {
+    return this.canModifyUser(targetUser);
+  }
+
+  canDeleteUser(targetUser: OrganizationMemberRef): boolean {
+    return this.can("team", "remove") && this.outranks(targetUser);
   }
 
-  canDeleteUser(_targetUser: User): boolean {
-    return this.user.role === "admin";
+  canResetTwoFactor(targetUser: OrganizationMemberRef): boolean {
+    return this.can("team", "reset_two_factor") && this.outranks(targetUser);
+  }
+
+  canAssignRoles(
+    targetUser: OrganizationMemberRef,
+    role?: CustomRoleRef,
+  ): boolean {
+    return (
+      this.can("role", "assign") &&
+      this.outranks(targetUser) &&
+      (role === undefined || this.canGrantRole(role))
+    );
+  }
+
+  holdsCustomRole(roleId: string): boolean {
+    return this.customRoleId === roleId;
+  }
+
+  // Custom roles: never the one the caller holds, and only permissions the
+  // caller holds themselves, so nobody can grant more than they have
+  canGrantRole(role: CustomRoleRef): boolean {
+    if (role.id !== undefined && this.holdsCustomRole(role.id)) return false;
+    return isPermissionSubset(role.permissions, this.permissions);
   }
 
   // Analytics permissions
   canViewUserAnalytics(targetUserId: string): boolean {
-    if (this.user.role === "admin") return true;
+    if (this.can("team", "read") && this.can("analytics", "view")) {
+      return true;
+    }
     return this.user.id === targetUserId; // Users can view own analytics
   }
 
   canViewAggregateAnalytics(): boolean {
-    return this.hasRoleOrHigher("manager");
+    return this.can("team", "read") && this.can("analytics", "view");
   }
 
   // Profile update approval
   canApproveProfileUpdates(): boolean {
-    return this.hasRoleOrHigher("manager");
+    return this.can("profileUpdate", "approve");
+  }
+
+  // Personal data erasure approval; never for one's own request
+  canReviewErasure(targetUser: OrganizationMemberRef): boolean {
+    return (
+      this.can("dataErasure", "approve") &&
+      this.user.id !== targetUser.id &&
+      this.outranks(targetUser)
+    );
   }
 }
 
-export function checkPermission(user: User) {
-  return new PermissionChecker(user);
+export function checkPermission(
+  user: Pick<User, "id">,
+  organizationRole: Role | string | null,
+  permissions?: Permissions,
+  customRoleId?: string | null,
+) {
+  return new PermissionChecker(
+    user,
+    organizationRole,
+    permissions,
+    customRoleId,
+  );
 }
@@ -0,0 +1,463 @@
+/**
+ * Personal data access and erasure (POPIA/GDPR data subject requests)
+ *
+ * An export gathers everything held about one user into a ZIP with a
+ * JSON and, for lists, a CSV file per dataset.
+ *
+ * Erasure runs once a manager approves a request. Analytics rows are kept
+ * for aggregate reporting but lose their link to the user and any device
+ * or location details; personal records such as bookmarks and saved
+ * searches are deleted. The user row itself is anonymised rather than
+ * deleted so foreign keys from tenders, pipeline cards and audit entries
+ * stay valid. Audit entries are kept as the record of processing.
+ *
+ * Every step is idempotent, so a failed erasure can simply be re-run.
+ */
+
+import { and, desc, eq, or } from "drizzle-orm";
+import { strToU8, zipSync } from "fflate";
+import Papa from "papaparse";
+import { db } from "@/db";
+import {
+  account,
+  analyticsAccessLog,
+  auditLog,
+  calendarFeedTokens,
+  coverageAssignments,
+  dataErasureRequest,
+  emailDeliveryLog,
+  emailPreferences,
+  events,
+  invitation,
+  organization,
+  organizationMember,
+  pageViews,
+  profileUpdateRequest,
+  publishers,
+  savedSearches,
+  session,
+  sessions,
+  trackedTenders,
+  twoFactor,
+  user,
+  userBookmarks,
+  userConsent,
+  userInteractions,
+} from "@/db/schema";
+import {
+  ERASED_EMAIL_DOMAIN,
+  ERASED_USER_NAME,
+} from "@/lib/validations/personal-data";
+
+type Row = Record<string, unknown>;
+
+export interface PersonalDataExport {
+  profile: Row;
+  datasets: Record<string, Row[]>;
+}
+
+/**
+ * Everything held about a user, or null when the user does not exist.
+ */
+export async function collectPersonalData(
+  userId: string,
+): Promise<PersonalDataExport | null> {
+  const [subject] = await db
+    .select()
+    .from(user)
+    .where(eq(user.id, userId))
+    .limit(1);
+  if (!subject) return null;
+
+  const { password: _password, ...profile } = subject;
+
+  const [
+    organizations,
+    bookmarks,
+    savedSearchRows,
+    trackedTenderRows,
+    pageViewRows,
+    sessionRows,
+    interactionRows,
+    eventRows,
+    consentRows,
+    emailPreferenceRows,
+    emailLogRows,
+    auditRows,
+    profileUpdateRows,
+    erasureRows,
+  ] = await Promise.all([
+    db
+      .select({
+        organizationId: organizationMember.organizationId,
+        organizationName: organization.name,
+        role: organizationMember.role,
+        joinedAt: organizationMember.createdAt,
+      })
+      .from(organizationMember)
+      .innerJoin(
+        organization,
+        eq(organizationMember.organizationId, organization.id),
+      )
+      .where(eq(organizationMember.userId, userId)),
+    db
+      .select({
+        id: userBookmarks.id,
+        organizationId: userBookmarks.organizationId,
+        publisherId: userBookmarks.publisherId,
+        publisherName: publishers.name,
+        createdAt: userBookmarks.createdAt,
+      })
+      .from(userBookmarks)
+      .leftJoin(publishers, eq(userBookmarks.publisherId, publishers.id))
+      .where(eq(userBookmarks.userId, userId)),
+    db.select().from(savedSearches).where(eq(savedSearches.userId, userId)),
+    db.select().from(trackedTenders).where(eq(trackedTenders.userId, userId)),
+    db
+      .select()
+      .from(pageViews)
+      .where(eq(pageViews.userId, userId))
+      .orderBy(desc(pageViews.timestamp)),
+    db
+      .select()
+      .from(sessions)
+      .where(eq(sessions.userId, userId))
+      .orderBy(desc(sessions.startedAt)),
+    db
+      .select()
+      .from(userInteractions)
+      .where(eq(userInteractions.userId, userId))
+      .orderBy(desc(userInteractions.timestamp)),
+    db
+      .select()
+      .from(events)
+      .where(eq(events.userId, userId))
+      .orderBy(desc(events.timestamp)),
+    db
+      .select()
+      .from(userConsent)
+      .where(eq(userConsent.userId, userId))
+      .orderBy(desc(userConsent.grantedAt)),
+    db
+      .select()
+      .from(emailPreferences)
+      .where(eq(emailPreferences.userId, userId)),
+    db
+      .select()
+      .from(emailDeliveryLog)
+      .where(
+        or(
+          eq(emailDeliveryLog.userId, userId),
+          eq(emailDeliveryLog.recipient, subject.email),
+        ),
+      )
+      .orderBy(desc(emailDeliveryLog.sentAt)),
+    db
+      .select()
+      .from(auditLog)
+      .where(or(eq(auditLog.userId, userId), eq(auditLog.targetUserId, userId)))
+      .orderBy(desc(auditLog.createdAt)),
+    db
+      .select()
+      .from(profileUpdateRequest)
+      .where(eq(profileUpdateRequest.userId, userId)),
+    db
+      .select()
+      .from(dataErasureRequest)
+      .where(eq(dataErasureRequest.userId, userId)),
+  ]);
+
+  return {
+    profile,
+    datasets: {
+      organizations,
+      bookmarks,
+      saved_searches: savedSearchRows,
+      tracked_tenders: trackedTenderRows,
+      page_views: pageViewRows,
+      sessions: sessionRows,
+      interactions: interactionRows,
+      events: eventRows,
+      consent: consentRows,
+      email_preferences: emailPreferenceRows,
+      email_log: emailLogRows,
+      audit_log: auditRows,
+      profile_update_requests: profileUpdateRows,
+      erasure_requests: erasureRows,
+    },
+  };
+}
+
+// CSV cells hold dates as ISO strings and nested values as JSON
+function toCsv(rows: Row[]) {
+  return Papa.unparse(
+    rows.map((row) =>
+      Object.fromEntries(
+        Object.entries(row).map(([key, value]) => [
+          key,
+          value instanceof Date
+            ? value.toISOString()
+            : value !== null && typeof value === "object"
+              ? JSON.stringify(value)
+              : value,
+        ]),
+      ),
+    ),
+  );
+}
+
+/**
+ * A ZIP of the export: `profile.json`, plus `<dataset>.json` and
+ * `<dataset>.csv` for every dataset.
+ */
+export function buildPersonalDataArchive(data: PersonalDataExport) {
+  const files: Record<string, Uint8Array> = {
+    "README.txt": strToU8(
+      [
+        "Your Tender Hub data",
+        `Exported ${new Date().toISOString()}`,
+        "",
+        "profile.json holds your account details. Every other dataset is",
+        "included as JSON and as CSV for spreadsheets.",
+      ].join("\n"),
+    ),
+    "profile.json": strToU8(JSON.stringify(data.profile, null, 2)),
+  };
+
+  for (const [name, rows] of Object.entries(data.datasets)) {
+    files[`${name}.json`] = strToU8(JSON.stringify(rows, null, 2));
+    files[`${name}.csv`] = strToU8(toCsv(rows));
+  }
+
+  return zipSync(files);
+}
+
+export function countPersonalDataRecords(data: PersonalDataExport) {
+  return Object.values(data.datasets).reduce(
+    (total, rows) => total + rows.length,
+    1,
+  );
+}
+
+/**
+ * Anonymise a user's analytics and delete their personal records.
+ * Returns the rows touched per table.
+ */
+export async function erasePersonalData(userId: string) {
+  const [subject] = await db
+    .select({ email: user.email })
+    .from(user)
+    .where(eq(user.id, userId))
+    .limit(1);
+  if (!subject) throw new Error("User not found");
+
+  const erasedEmail = `${userId}@${ERASED_EMAIL_DOMAIN}`;
+  const summary: Record<string, number> = {};
+  const record = async (
+    name: string,
+    query: PromiseLike<{ rowCount: number | null }>,
+  ) => {
+    summary[name] = (await query).rowCount ?? 0;
+  };
+
+  // Analytics keep their counts but lose the user, device and location
+  await record(
+    "sessions",
+    db
+      .update(sessions)
+      .set({
+        userId: null,
+        ipAddress: null,
+        userAgent: null,
+        city: null,
+        region: null,
+        latitude: null,
+        longitude: null,
+      })
+      .where(eq(sessions.userId, userId)),
+  );
+  await record(
+    "page_views",
+    db
+      .update(pageViews)
+      .set({ userId: null })
+      .where(eq(pageViews.userId, userId)),
+  );
+  await record(
+    "user_interactions",
+    db
+      .update(userInteractions)
+      .set({ userId: null })
+      .where(eq(userInteractions.userId, userId)),
+  );
+  await record(
+    "events",
+    db
+      .update(events)
+      .set({
+        userId: null,
+        ipAddress: null,
+        userAgent: null,
+        city: null,
+        region: null,
+      })
+      .where(eq(events.userId, userId)),
+  );
+  await record(
+    "analytics_access_log",
+    db
+      .update(analyticsAccessLog)
+      .set({ userId: null, ipAddress: null, userAgent: null })
+      .where(eq(analyticsAccessLog.userId, userId)),
+  );
+  await record(
+    "email_delivery_log",
+    db
+      .update(emailDeliveryLog)
+      .set({ userId: null, recipient: erasedEmail })
+      .where(
+        or(
+          eq(emailDeliveryLog.userId, userId),
+          eq(emailDeliveryLog.recipient, subject.email),
+        ),
+      ),
+  );
+  await record(
+    "invitation",
+    db
+      .update(invitation)
+      .set({ email: erasedEmail })
+      .where(eq(invitation.email, subject.email)),
+  );
+
+  // Personal records go entirely
+  await record(
+    "user_bookmarks",
+    db.delete(userBookmarks).where(eq(userBookmarks.userId, userId)),
+  );
+  await record(
+    "saved_searches",
+    db.delete(savedSearches).where(eq(savedSearches.userId, userId)),
+  );
+  await record(
+    "tracked_tenders",
+    db.delete(trackedTenders).where(eq(trackedTenders.userId, userId)),
+  );
+  await record(
+    "calendar_feed_tokens",
+    db.delete(calendarFeedTokens).where(eq(calendarFeedTokens.userId, userId)),
+  );
+  await record(
+    "email_preferences",
+    db.delete(emailPreferences).where(eq(emailPreferences.userId, userId)),
+  );
+  await record(
+    "user_consent",
+    db.delete(userConsent).where(eq(userConsent.userId, userId)),
+  );
+  await record(
+    "profile_update_request",
+    db
+      .delete(profileUpdateRequest)
+      .where(eq(profileUpdateRequest.userId, userId)),
+  );
+  await record(
+    "coverage_assignments",
+    db
+      .delete(coverageAssignments)
+      .where(eq(coverageAssignments.userId, userId)),
+  );
+  await record(
+    "organization_member",
+    db.delete(organizationMember).where(eq(organizationMember.userId, userId)),
+  );
+
+  // Finally sign the user out for good and anonymise the account
+  await record("session", db.delete(session).where(eq(session.userId, userId)));
+  await record("account", db.delete(account).where(eq(account.userId, userId)));
+  await record(
+    "two_factor",
+    db.delete(twoFactor).where(eq(twoFactor.userId, userId)),
+  );
+  await record(
+    "user",
+    db
+      .update(user)
+      .set({
+        name: ERASED_USER_NAME,
+        email: erasedEmail,
+        emailVerified: false,
+        image: null,
+        password: null,
+        banned: true,
+        banReason: "Personal data erased",
+        banExpires: null,
+        status: "suspended",
+        activeOrganizationId: null,
+        twoFactorEnabled: false,
+      })
+      .where(eq(user.id, userId)),
+  );
+
+  return summary;
+}
+
+/**
+ * The user's most recent erasure request, if any.
+ */
+export async function getLatestErasureRequest(userId: string) {
+  const [request] = await db
+    .select()
+    .from(dataErasureRequest)
+    .where(eq(dataErasureRequest.userId, userId))
+    .orderBy(desc(dataErasureRequest.requestedAt))
+    .limit(1);
+  return request ?? null;
+}
+
+/**
+ * An organisation's erasure requests with the requester, newest first,
+ * or just the one with `requestId`.
+ */
+export async function getErasureRequests(
+  organizationId: string,
+  options: { requestId?: string } = {},
+) {
+  return db
+    .select({
+      id: dataErasureRequest.id,
+      userId: dataErasureRequest.userId,
+      userName: user.name,
+      userEmail: user.email,
+      memberRole: organizationMember.role,
+      reason: dataErasureRequest.reason,
+      status: dataErasureRequest.status,
+      requestedAt: dataErasureRequest.requestedAt,
+      reviewedBy: dataErasureRequest.reviewedBy,
+      reviewedAt: dataErasureRequest.reviewedAt,
+      rejectionReason: dataErasureRequest.rejectionReason,
+      summary: dataErasureRequest.summary,
+      completedAt: dataErasureRequest.completedAt,
+    })
+    .from(dataErasureRequest)
+    .innerJoin(user, eq(dataErasureRequest.userId, user.id))
+    .leftJoin(
+      organizationMember,
+      and(
+        eq(organizationMember.userId, dataErasureRequest.userId),
+        eq(
+          organizationMember.organizationId,
+          dataErasureRequest.organizationId,
+        ),
+      ),
+    )
+    .where(
+      and(
+        eq(dataErasureRequest.organizationId, organizationId),
+        options.requestId
+          ? eq(dataErasureRequest.id, options.requestId)
+          : undefined,
+      ),
+    )
+    .orderBy(desc(dataErasureRequest.requestedAt));
+}
@@ -0,0 +1,125 @@
+/**
+ * Pipeline reporting
+ *
+ * Win rate and decline reasons are read from the audit log rather than
+ * the board itself, so outcomes still count after a card is removed. Each
+ * card's latest stage change inside the period decides its outcome.
+ */
+
+import { and, asc, eq, gte } from "drizzle-orm";
+import { db } from "@/db";
+import { auditLog, type PipelineStage } from "@/db/schema";
+import { PIPELINE_OUTCOME_STAGES } from "@/lib/validations/pipeline";
+
+export const PIPELINE_REPORT_DAYS = 90;
+
+export interface PipelineStageChange {
+  pipelineItemId: string;
+  stage: PipelineStage;
+  reason?: string | null;
+  changedAt: Date;
+}
+
+export interface PipelineReasonCount {
+  reason: string;
+  count: number;
+}
+
+export interface PipelineReport {
+  since: Date;
+  won: number;
+  lost: number;
+  noBid: number;
+  // Won out of decided bids (won + lost), null until a bid is decided
+  winRate: number | null;
+  declineReasons: PipelineReasonCount[];
+  lossReasons: PipelineReasonCount[];
+}
+
+function countReasons(reasons: string[]) {
+  // Group free-text reasons case-insensitively, keeping the first spelling
+  const counts = new Map<string, PipelineReasonCount>();
+  for (const reason of reasons) {
+    const key = reason.trim().toLowerCase();
+    const entry = counts.get(key) ?? { reason: reason.trim(), count: 0 };
+    entry.count++;
+    counts.set(key, entry);
+  }
+  return [...counts.values()].sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Summarise outcomes from stage changes. Changes must be in date order.
+ */
+export function summarisePipelineOutcomes(
+  changes: PipelineStageChange[],
+  since: Date,
+): PipelineReport {
+  const latest = new Map<string, PipelineStageChange>();
+  for (const change of changes) {
+    latest.set(change.pipelineItemId, change);
+  }
+
+  const outcomes = [...latest.values()].filter((change) =>
+    (PIPELINE_OUTCOME_STAGES as readonly PipelineStage[]).includes(
+      change.stage,
+    ),
+  );
+  const reasonsFor = (stage: PipelineStage) =>
+    outcomes
+      .filter((change) => change.stage === stage && change.reason?.trim())
+      .map((change) => change.reason as string);
+
+  const won = outcomes.filter((change) => change.stage === "won").length;
+  const lost = outcomes.filter((change) => change.stage === "lost").length;
+
+  return {
+    since,
+    won,
+    lost,
+    noBid: outcomes.filter((change) => change.stage === "no_bid").length,
+    winRate: won + lost > 0 ? won / (won + lost) : null,
+    declineReasons: countReasons(reasonsFor("no_bid")),
+    lossReasons: countReasons(reasonsFor("lost")),
+  };
+}
+
+/**
+ * Pipeline outcomes for an organisation's stage changes recorded since
+ * the given date.
+ */
+export async function getPipelineReport(organizationId: string, since: Date) {
+  const entries = await db
+    .select({
+      targetId: auditLog.targetUserId,
+      metadata: auditLog.metadata,
+      createdAt: auditLog.createdAt,
+    })
+    .from(auditLog)
+    .where(
+      and(
+        eq(auditLog.organizationId, organizationId),
+        eq(auditLog.action, "pipeline_stage_changed"),
+        gte(auditLog.createdAt, since),
+      ),
+    )
+    .orderBy(asc(auditLog.createdAt));
+
+  const changes: PipelineStageChange[] = [];
+  for (const entry of entries) {
+    const metadata = entry.metadata as {
+      newValues?: { stage?: PipelineStage };
+      reason?: string;
+    } | null;
+    if (!entry.targetId || !metadata?.newValues?.stage) continue;
+
+    changes.push({
+      pipelineItemId: entry.targetId,
+      stage: metadata.newValues.stage,
+      reason: metadata.reason,
+      changedAt: entry.createdAt,
+    });
+  }
+
+  return summarisePipelineOutcomes(changes, since);
+}
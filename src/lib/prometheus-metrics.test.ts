@@ -0,0 +1,188 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  Counter,
+  formatLabels,
+  formatSampleValue,
+  Gauge,
+  Histogram,
+  normalizeRoute,
+  renderPrometheusMetrics,
+} from "./prometheus-metrics";
+
+// Metrics register themselves globally, so each test renders only its own
+
+describe("renderPrometheusMetrics", () => {
+  it("writes HELP and TYPE before each metric's samples", () => {
+    const counter = new Counter("test_jobs_total", "Jobs run", ["status"]);
+    counter.inc({ status: "ok" });
+    counter.inc({ status: "ok" }, 2);
+    counter.inc({ status: "failed" });
+
+    assert.equal(
+      renderPrometheusMetrics([counter]),
+      [
+        "# HELP test_jobs_total Jobs run",
+        "# TYPE test_jobs_total counter",
+        'test_jobs_total{status="ok"} 3',
+        'test_jobs_total{status="failed"} 1',
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("ends with a line feed even without samples", () => {
+    const counter = new Counter("test_empty_total", "Nothing yet");
+
+    assert.equal(
+      renderPrometheusMetrics([counter]),
+      "# HELP test_empty_total Nothing yet\n# TYPE test_empty_total counter\n",
+    );
+  });
+
+  it("escapes backslashes and line feeds in help text", () => {
+    const gauge = new Gauge(
+      "test_escaped",
+      "Path C:\\tmp\nsecond line",
+      () => 1,
+    );
+
+    assert.equal(
+      renderPrometheusMetrics([gauge]).split("\n")[0],
+      "# HELP test_escaped Path C:\\\\tmp\\nsecond line",
+    );
+  });
+});
+
+describe("Counter", () => {
+  it("ignores negative increments", () => {
+    const counter = new Counter("test_up_only_total", "Only goes up");
+    counter.inc({}, 5);
+    counter.inc({}, -2);
+
+    assert.deepEqual(counter.collect(), ["test_up_only_total 5"]);
+  });
+
+  it("keeps labels in declared order and fills missing ones", () => {
+    const counter = new Counter("test_ordered_total", "Ordered", [
+      "cache",
+      "result",
+    ]);
+    counter.inc({ result: "hit", cache: "search" });
+    counter.inc({ cache: "search", result: "hit" });
+    counter.inc({ cache: "search" });
+
+    assert.deepEqual(counter.collect(), [
+      'test_ordered_total{cache="search",result="hit"} 2',
+      'test_ordered_total{cache="search",result=""} 1',
+    ]);
+  });
+
+  it("stops adding series past the limit", () => {
+    const counter = new Counter("test_bounded_total", "Bounded", ["id"]);
+    for (let id = 0; id < 1005; id++) counter.inc({ id: String(id) });
+    counter.inc({ id: "0" });
+
+    const samples = counter.collect();
+    assert.equal(samples.length, 1000);
+    assert.equal(samples[0], 'test_bounded_total{id="0"} 2');
+  });
+});
+
+describe("Gauge", () => {
+  it("reads its value at render time and skips unknown values", () => {
+    let value: number | undefined = 42;
+    const gauge = new Gauge("test_queue_depth", "Queued jobs", () => value);
+
+    assert.deepEqual(gauge.collect(), ["test_queue_depth 42"]);
+    value = undefined;
+    assert.deepEqual(gauge.collect(), []);
+  });
+});
+
+describe("Histogram", () => {
+  it("renders cumulative buckets, +Inf, sum and count", () => {
+    const histogram = new Histogram(
+      "test_duration_seconds",
+      "Durations",
+      ["route"],
+      [0.25, 0.5, 1],
+    );
+    for (const value of [0.125, 0.25, 0.375, 0.75, 4]) {
+      histogram.observe({ route: "/api/search" }, value);
+    }
+
+    assert.deepEqual(histogram.collect(), [
+      'test_duration_seconds_bucket{route="/api/search",le="0.25"} 2',
+      'test_duration_seconds_bucket{route="/api/search",le="0.5"} 3',
+      'test_duration_seconds_bucket{route="/api/search",le="1"} 4',
+      'test_duration_seconds_bucket{route="/api/search",le="+Inf"} 5',
+      'test_duration_seconds_sum{route="/api/search"} 5.5',
+      'test_duration_seconds_count{route="/api/search"} 5',
+    ]);
+  });
+
+  it("ignores observations that are not finite", () => {
+    const histogram = new Histogram("test_finite_seconds", "Finite", [], [1]);
+    histogram.observe({}, Number.NaN);
+    histogram.observe({}, Number.POSITIVE_INFINITY);
+
+    assert.deepEqual(histogram.collect(), []);
+  });
+});
+
+describe("formatLabels", () => {
+  it("escapes quotes, backslashes and line feeds in values", () => {
+    assert.equal(
+      formatLabels({ path: 'C:\\a "b"\nc' }),
+      '{path="C:\\\\a \\"b\\"\\nc"}',
+    );
+  });
+
+  it("renders nothing for an empty label set", () => {
+    assert.equal(formatLabels({}), "");
+  });
+});
+
+describe("formatSampleValue", () => {
+  it("uses the exposition format's spelling of special values", () => {
+    assert.equal(formatSampleValue(Number.NaN), "NaN");
+    assert.equal(formatSampleValue(Number.POSITIVE_INFINITY), "+Inf");
+    assert.equal(formatSampleValue(Number.NEGATIVE_INFINITY), "-Inf");
+    assert.equal(formatSampleValue(0.25), "0.25");
+  });
+});
+
+describe("normalizeRoute", () => {
+  it("collapses numeric ids, UUIDs and tokens", () => {
+    assert.equal(normalizeRoute("/api/team/42"), "/api/team/:id");
+    assert.equal(
+      normalizeRoute(
+        "/api/manager/approvals/3f1c2a9e-7b4d-4c1a-9e8f-0a1b2c3d4e5f/approve",
+      ),
+      "/api/manager/approvals/:id/approve",
+    );
+    assert.equal(
+      normalizeRoute("/api/calendar/Zx8_kq3LmNpQrStUvWxYz012"),
+      "/api/calendar/:id",
+    );
+  });
+
+  it("collapses tokens that carry a file extension", () => {
+    const token =
+      "9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08";
+
+    assert.equal(
+      normalizeRoute(`/api/calendar/${token}.ics`),
+      "/api/calendar/:id.ics",
+    );
+    assert.equal(normalizeRoute("/api/team/42.json"), "/api/team/:id.json");
+  });
+
+  it("keeps ordinary path segments", () => {
+    assert.equal(
+      normalizeRoute("/api/admin/publishers/link-health"),
+      "/api/admin/publishers/link-health",
+    );
+  });
+});
@@ -0,0 +1,260 @@
+/**
+ * Prometheus metrics registry and text exposition
+ *
+ * Counters and histograms are cumulative for the life of the process, as
+ * Prometheus expects: unlike the performance monitor's rolling history they
+ * are never trimmed or cleared. `/api/metrics` renders every registered
+ * metric with `renderPrometheusMetrics`.
+ */
+
+type Labels = Record<string, string>;
+
+// Latency buckets in seconds, from 5ms to 10s
+export const DURATION_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+
+// Label combinations kept per metric; past this new ones are dropped so a
+// bad label can't grow memory without bound
+const MAX_SERIES = 1000;
+
+interface Metric {
+  readonly name: string;
+  readonly help: string;
+  readonly type: "counter" | "gauge" | "histogram";
+  collect(): string[];
+}
+
+const registry: Metric[] = [];
+
+function escapeLabelValue(value: string) {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n");
+}
+
+function escapeHelp(help: string) {
+  return help.replace(/\\/g, "\\\\").replace(/\n/g, "\\n");
+}
+
+export function formatSampleValue(value: number) {
+  if (Number.isNaN(value)) return "NaN";
+  if (value === Number.POSITIVE_INFINITY) return "+Inf";
+  if (value === Number.NEGATIVE_INFINITY) return "-Inf";
+  return String(value);
+}
+
+export function formatLabels(labels: Labels) {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) => `${name}="${escapeLabelValue(value)}"`,
+  );
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+/**
+ * Series key for a label set, in the metric's label order so the same
+ * labels always land on the same series.
+ */
+function seriesKey(labelNames: readonly string[], labels: Labels) {
+  return JSON.stringify(labelNames.map((name) => labels[name] ?? ""));
+}
+
+function pickLabels(labelNames: readonly string[], labels: Labels): Labels {
+  return Object.fromEntries(
+    labelNames.map((name) => [name, labels[name] ?? ""]),
+  );
+}
+
+export class Counter<L extends string = string> implements Metric {
+  readonly type = "counter";
+  private series = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    private labelNames: readonly L[] = [],
+  ) {
+    registry.push(this);
+  }
+
+  inc(labels: Partial<Record<L, string>> = {}, value = 1): void {
+    if (value < 0) return; // Counters only go up
+    const key = seriesKey(this.labelNames, labels as Labels);
+    const existing = this.series.get(key);
+    if (existing) {
+      existing.value += value;
+    } else if (this.series.size < MAX_SERIES) {
+      this.series.set(key, {
+        labels: pickLabels(this.labelNames, labels as Labels),
+        value,
+      });
+    }
+  }
+
+  collect(): string[] {
+    return Array.from(this.series.values()).map(
+      ({ labels, value }) =>
+        `${this.name}${formatLabels(labels)} ${formatSampleValue(value)}`,
+    );
+  }
+}
+
+/**
+ * Gauge read when metrics are scraped.
+ */
+export class Gauge implements Metric {
+  readonly type = "gauge";
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    private read: () => number | undefined,
+  ) {
+    registry.push(this);
+  }
+
+  collect(): string[] {
+    const value = this.read();
+    return value === undefined
+      ? []
+      : [`${this.name} ${formatSampleValue(value)}`];
+  }
+}
+
+export class Histogram<L extends string = string> implements Metric {
+  readonly type = "histogram";
+  private series = new Map<
+    string,
+    { labels: Labels; buckets: number[]; sum: number; count: number }
+  >();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    private labelNames: readonly L[] = [],
+    private buckets: readonly number[] = DURATION_BUCKETS,
+  ) {
+    registry.push(this);
+  }
+
+  observe(labels: Partial<Record<L, string>>, value: number): void {
+    if (!Number.isFinite(value)) return;
+    const key = seriesKey(this.labelNames, labels as Labels);
+    let series = this.series.get(key);
+    if (!series) {
+      if (this.series.size >= MAX_SERIES) return;
+      series = {
+        labels: pickLabels(this.labelNames, labels as Labels),
+        buckets: this.buckets.map(() => 0),
+        sum: 0,
+        count: 0,
+      };
+      this.series.set(key, series);
+    }
+
+    // Each observation lands in its own bucket; they are summed into
+    // cumulative counts when rendered
+    const index = this.buckets.findIndex((bound) => value <= bound);
+    if (index !== -1) series.buckets[index]++;
+    series.sum += value;
+    series.count++;
+  }
+
+  collect(): string[] {
+    const lines: string[] = [];
+    for (const { labels, buckets, sum, count } of this.series.values()) {
+      let cumulative = 0;
+      this.buckets.forEach((bound, index) => {
+        cumulative += buckets[index];
+        lines.push(
+          `${this.name}_bucket${formatLabels({ ...labels, le: formatSampleValue(bound) })} ${cumulative}`,
+        );
+      });
+      lines.push(
+        `${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`,
+      );
+      lines.push(
+        `${this.name}_sum${formatLabels(labels)} ${formatSampleValue(sum)}`,
+      );
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines;
+  }
+}
+
+/**
+ * Render metrics in the Prometheus text exposition format (version 0.0.4).
+ */
+export function renderPrometheusMetrics(
+  metrics: readonly Metric[] = registry,
+): string {
+  const lines: string[] = [];
+  for (const metric of metrics) {
+    lines.push(`# HELP ${metric.name} ${escapeHelp(metric.help)}`);
+    lines.push(`# TYPE ${metric.name} ${metric.type}`);
+    lines.push(...metric.collect());
+  }
+  // The format requires a trailing line feed
+  return `${lines.join("\n")}\n`;
+}
+
+export const PROMETHEUS_CONTENT_TYPE =
+  "text/plain; version=0.0.4; charset=utf-8";
+
+const ID_SEGMENT =
+  /^(\d+|[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}|[A-Za-z0-9_-]{20,})$/i;
+
+const FILE_EXTENSION = /\.[A-Za-z0-9]+$/;
+
+/**
+ * Collapse ids and tokens in a request path so each route is one series,
+ * e.g. `/api/manager/approvals/3f1c…` becomes `/api/manager/approvals/:id`
+ * and `/api/calendar/<token>.ics` becomes `/api/calendar/:id.ics`. Route
+ * handlers label by their route template instead where they can.
+ */
+export function normalizeRoute(pathname: string) {
+  return pathname
+    .split("/")
+    .map((segment) => {
+      const extension = segment.match(FILE_EXTENSION)?.[0] ?? "";
+      const name = segment.slice(0, segment.length - extension.length);
+      return ID_SEGMENT.test(name) ? `:id${extension}` : segment;
+    })
+    .join("/");
+}
+
+export const httpRequestDuration = new Histogram(
+  "http_request_duration_seconds",
+  "API request latency by route",
+  ["method", "route", "status"],
+);
+
+export const dbQueryDuration = new Histogram(
+  "db_query_duration_seconds",
+  "Database query latency by query type",
+  ["query_type", "cached"],
+);
+
+export const cacheRequests = new Counter(
+  "cache_requests_total",
+  "Cache lookups by cache and result",
+  ["cache", "result"],
+);
+
+export const emailsSent = new Counter(
+  "emails_sent_total",
+  "Emails sent by type and outcome",
+  ["type", "status"],
+);
+
+new Gauge(
+  "process_resident_memory_bytes",
+  "Resident memory size in bytes",
+  () =>
+    typeof process !== "undefined" ? process.memoryUsage().rss : undefined,
+);
+
+new Gauge("process_uptime_seconds", "Seconds since the process started", () =>
+  typeof process !== "undefined" ? process.uptime() : undefined,
+);
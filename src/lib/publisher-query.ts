@@ -0,0 +1,18 @@
+/**
+ * Publisher queries
+ *
+ * Conditions shared by the admin and manager publisher APIs.
+ */
+
+import { sql } from "drizzle-orm";
+import { publishers } from "@/db/schema";
+import { parsePublisherTags } from "@/lib/validations/publisher";
+
+/**
+ * Match publishers carrying a tag. Tags are stored lowercase, so the
+ * lookup is case-insensitive.
+ */
+export function publisherHasTag(tag: string) {
+  const [normalized = ""] = parsePublisherTags([tag]);
+  return sql`${publishers.tags} @> ${JSON.stringify([normalized])}::jsonb`;
+}
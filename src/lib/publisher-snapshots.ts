@@ -0,0 +1,271 @@
+/**
+ * Publisher page snapshots
+ *
+ * Fetches each publisher's tender page (the procurement portal when set,
+ * otherwise the website), reduces it to normalised text lines and stores
+ * a snapshot in `publisher_snapshots` whenever the text hash changes,
+ * together with the lines added and removed since the previous snapshot.
+ *
+ * The dashboard compares the latest change with the user's visit history
+ * to show a "changed since your last visit" indicator.
+ */
+
+import { createHash } from "node:crypto";
+import { load } from "cheerio";
+import { and, desc, eq, inArray, isNotNull, or } from "drizzle-orm";
+import { db } from "@/db";
+import { publisherSnapshots, publishers } from "@/db/schema";
+import { createAppError, logError } from "@/lib/error-utils";
+import { normalizeWebsiteUrl } from "@/lib/link-health";
+import { fetchSourceDocument } from "@/lib/tender-ingestion";
+
+// Lines kept per side of a stored diff
+const MAX_DIFF_LINES = 200;
+
+// Elements whose text is never page content
+const IGNORED_ELEMENTS = "script, style, noscript, template, svg, iframe, head";
+
+// Elements that start a new line of text
+const BLOCK_ELEMENTS =
+  "address, article, aside, blockquote, dd, div, dl, dt, fieldset, figcaption, figure, footer, form, h1, h2, h3, h4, h5, h6, header, hr, li, main, nav, ol, p, pre, section, table, tbody, td, th, thead, tr, ul";
+
+export interface PageTextDiff {
+  added: string[];
+  removed: string[];
+}
+
+export interface PublisherChange {
+  publisherId: string;
+  changedAt: Date;
+  addedLines: number;
+  removedLines: number;
+}
+
+export type SnapshotOutcome = "created" | "changed" | "unchanged" | "failed";
+
+export interface SnapshotReport {
+  publisherId: string;
+  publisherName: string;
+  url: string;
+  outcome: SnapshotOutcome;
+  addedLines: number;
+  removedLines: number;
+  error?: string;
+}
+
+/**
+ * Reduce an HTML page to its visible text, one trimmed line per block
+ * element, with whitespace collapsed and empty lines dropped.
+ */
+export function normalizePageText(html: string) {
+  const $ = load(html);
+  $(IGNORED_ELEMENTS).remove();
+  $("br").replaceWith("\n");
+  $(BLOCK_ELEMENTS).each((_, element) => {
+    $(element).prepend("\n").append("\n");
+  });
+
+  const lines: string[] = [];
+  for (const rawLine of $.root().text().split("\n")) {
+    const line = rawLine.replace(/\s+/g, " ").trim();
+    // Nested blocks repeat boundaries, not content
+    if (line && line !== lines[lines.length - 1]) lines.push(line);
+  }
+  return lines.join("\n");
+}
+
+export function hashPageText(text: string) {
+  return createHash("sha256").update(text).digest("hex");
+}
+
+/**
+ * Lines added and removed between two texts. Lines are compared as a
+ * multiset, so moving a line does not count as a change.
+ */
+export function diffPageText(previous: string, next: string): PageTextDiff {
+  const remaining = new Map<string, number>();
+  for (const line of previous.split("\n")) {
+    if (line) remaining.set(line, (remaining.get(line) ?? 0) + 1);
+  }
+
+  const added: string[] = [];
+  for (const line of next.split("\n")) {
+    if (!line) continue;
+    const count = remaining.get(line) ?? 0;
+    if (count > 0) remaining.set(line, count - 1);
+    else added.push(line);
+  }
+
+  const removed: string[] = [];
+  for (const [line, count] of remaining) {
+    for (let i = 0; i < count; i++) removed.push(line);
+  }
+
+  return { added, removed };
+}
+
+/**
+ * Take a snapshot of one publisher page. `html` skips the fetch, which
+ * is useful for offline runs against a saved copy.
+ */
+export async function snapshotPublisherPage(
+  publisher: { id: string; name: string; url: string },
+  html?: string,
+): Promise<SnapshotReport> {
+  const report: SnapshotReport = {
+    publisherId: publisher.id,
+    publisherName: publisher.name,
+    url: publisher.url,
+    outcome: "unchanged",
+    addedLines: 0,
+    removedLines: 0,
+  };
+
+  let content: string;
+  try {
+    content = normalizePageText(
+      html ?? (await fetchSourceDocument(publisher.url)),
+    );
+  } catch (error) {
+    return {
+      ...report,
+      outcome: "failed",
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+
+  const contentHash = hashPageText(content);
+  const now = new Date();
+
+  const [latest] = await db
+    .select({
+      id: publisherSnapshots.id,
+      contentHash: publisherSnapshots.contentHash,
+      content: publisherSnapshots.content,
+    })
+    .from(publisherSnapshots)
+    .where(eq(publisherSnapshots.publisherId, publisher.id))
+    .orderBy(desc(publisherSnapshots.capturedAt))
+    .limit(1);
+
+  if (latest?.contentHash === contentHash) {
+    await db
+      .update(publisherSnapshots)
+      .set({ lastSeenAt: now })
+      .where(eq(publisherSnapshots.id, latest.id));
+    return report;
+  }
+
+  const diff = latest ? diffPageText(latest.content, content) : null;
+
+  await db.insert(publisherSnapshots).values({
+    publisherId: publisher.id,
+    url: publisher.url,
+    contentHash,
+    content,
+    diff: diff && {
+      added: diff.added.slice(0, MAX_DIFF_LINES),
+      removed: diff.removed.slice(0, MAX_DIFF_LINES),
+    },
+    addedLines: diff?.added.length ?? 0,
+    removedLines: diff?.removed.length ?? 0,
+    capturedAt: now,
+    lastSeenAt: now,
+  });
+
+  return {
+    ...report,
+    outcome: diff ? "changed" : "created",
+    addedLines: diff?.added.length ?? 0,
+    removedLines: diff?.removed.length ?? 0,
+  };
+}
+
+/**
+ * Snapshot every publisher page, or only the given publishers. Pages are
+ * fetched one at a time to stay polite to municipal servers.
+ */
+export async function runPublisherSnapshots(
+  options: { publisherIds?: string[]; html?: string } = {},
+) {
+  const { publisherIds, html } = options;
+
+  const targets = await db
+    .select({
+      id: publishers.id,
+      name: publishers.name,
+      website: publishers.website,
+      procurementPortalUrl: publishers.procurementPortalUrl,
+    })
+    .from(publishers)
+    .where(
+      and(
+        or(
+          isNotNull(publishers.website),
+          isNotNull(publishers.procurementPortalUrl),
+        ),
+        publisherIds ? inArray(publishers.id, publisherIds) : undefined,
+      ),
+    )
+    .orderBy(publishers.name);
+
+  const reports: SnapshotReport[] = [];
+
+  for (const target of targets) {
+    const page = target.procurementPortalUrl ?? target.website;
+    if (!page) continue;
+
+    const publisher = {
+      id: target.id,
+      name: target.name,
+      url: normalizeWebsiteUrl(page),
+    };
+
+    try {
+      reports.push(await snapshotPublisherPage(publisher, html));
+    } catch (error) {
+      logError(
+        createAppError("Failed to snapshot publisher page", {
+          code: "PUBLISHER_SNAPSHOT_FAILED",
+          details: { publisherId: target.id, originalError: error },
+        }),
+        "medium",
+      );
+      reports.push({
+        publisherId: target.id,
+        publisherName: target.name,
+        url: publisher.url,
+        outcome: "failed",
+        addedLines: 0,
+        removedLines: 0,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return reports;
+}
+
+/**
+ * The most recent change per publisher. First snapshots are not changes,
+ * so publishers with a single snapshot are left out.
+ */
+export async function getLatestPublisherChanges(): Promise<
+  Map<string, PublisherChange>
+> {
+  const changes = await db
+    .selectDistinctOn([publisherSnapshots.publisherId], {
+      publisherId: publisherSnapshots.publisherId,
+      changedAt: publisherSnapshots.capturedAt,
+      addedLines: publisherSnapshots.addedLines,
+      removedLines: publisherSnapshots.removedLines,
+    })
+    .from(publisherSnapshots)
+    .where(isNotNull(publisherSnapshots.diff))
+    .orderBy(
+      publisherSnapshots.publisherId,
+      desc(publisherSnapshots.capturedAt),
+    );
+
+  return new Map(changes.map((change) => [change.publisherId, change]));
+}
@@ -0,0 +1,79 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { auth } from "./auth";
+import { getEmailDomain, isSignupDomainAllowed } from "./registration";
+
+// Regression tests for role escalation at sign-up: roles used to be
+// derived from the email local-part, so admin.foo@gmail.com became admin.
+
+const createUser = auth.options.databaseHooks.user.create.before as (
+  user: Record<string, unknown>,
+) => Promise<{ data: Record<string, unknown> }>;
+
+describe("account creation", () => {
+  for (const email of [
+    "admin.foo@gmail.com",
+    "manager@example.com",
+    "site-administrator@tenderhub.co.za",
+    "owner@tenderhub.co.za",
+  ]) {
+    it(`creates ${email} as a plain user`, async () => {
+      const { data } = await createUser({ email, name: "New User" });
+
+      assert.equal(data.role, "user");
+      assert.equal(data.status, "active");
+      assert.equal(data.banned, false);
+      assert.equal(data.email, email);
+    });
+  }
+
+  it("overrides a role smuggled into the new user", async () => {
+    const { data } = await createUser({
+      email: "someone@example.com",
+      role: "owner",
+      status: "active",
+      banned: false,
+    });
+
+    assert.equal(data.role, "user");
+  });
+
+  it("never accepts role or status from sign-up or profile input", () => {
+    const fields = auth.options.user.additionalFields;
+
+    assert.equal(fields.role.input, false);
+    assert.equal(fields.status.input, false);
+    assert.equal(fields.banned.input, false);
+  });
+});
+
+describe("isSignupDomainAllowed", () => {
+  const allowed = ["tenderhub.co.za", "example.gov.za"];
+
+  it("lets every domain register when the allow-list is empty", () => {
+    assert.equal(isSignupDomainAllowed("anyone@gmail.com", []), true);
+  });
+
+  it("accepts listed domains regardless of case and spacing", () => {
+    assert.equal(isSignupDomainAllowed("Jane@TenderHub.co.za ", allowed), true);
+    assert.equal(isSignupDomainAllowed("bid@example.gov.za", allowed), true);
+  });
+
+  it("rejects look-alike and nested domains", () => {
+    for (const email of [
+      "admin@gmail.com",
+      "admin@evil-tenderhub.co.za",
+      "admin@tenderhub.co.za.evil.com",
+      "admin@sub.tenderhub.co.za",
+      "admin@tenderhub.co.za@evil.com",
+    ]) {
+      assert.equal(isSignupDomainAllowed(email, allowed), false, email);
+    }
+  });
+});
+
+describe("getEmailDomain", () => {
+  it("uses the part after the last @", () => {
+    assert.equal(getEmailDomain("a@b@Example.COM"), "example.com");
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Account provisioning
+ *
+ * Accounts are created in three ways, and only these decide roles:
+ * - invitations, which grant the invited role in the inviting
+ *   organisation (see invitation.ts)
+ * - self-registration, which always creates a `user`, subject to the
+ *   `registrationEnabled` and `allowedSignupDomains` settings
+ * - the first-owner bootstrap script, `src/scripts/create-first-admin.ts`
+ *
+ * Everything else is an explicit role change by an admin.
+ */
+
+import { and, eq, gt } from "drizzle-orm";
+import { db } from "@/db";
+import { invitation } from "@/db/schema";
+import { getSystemSettings } from "@/lib/system-settings";
+
+export type ProvisioningSource =
+  | "invitation"
+  | "self_registration"
+  | "bootstrap";
+
+export function getEmailDomain(email: string) {
+  return email.trim().toLowerCase().split("@").pop() ?? "";
+}
+
+/**
+ * An empty allow-list lets every domain register.
+ */
+export function isSignupDomainAllowed(email: string, allowedDomains: string[]) {
+  if (allowedDomains.length === 0) return true;
+  return allowedDomains.includes(getEmailDomain(email));
+}
+
+export async function hasPendingInvitation(email: string) {
+  const [pending] = await db
+    .select({ id: invitation.id })
+    .from(invitation)
+    .where(
+      and(
+        eq(invitation.email, email.trim().toLowerCase()),
+        eq(invitation.status, "pending"),
+        gt(invitation.expiresAt, new Date()),
+      ),
+    )
+    .limit(1);
+  return !!pending;
+}
+
+/**
+ * Why the email may not sign up, or null when it may. Invited users can
+ * always sign up; the registration settings only limit self-registration.
+ */
+export async function getRegistrationRefusal(email: string) {
+  if (await hasPendingInvitation(email)) return null;
+
+  const { general } = await getSystemSettings();
+  if (!general.registrationEnabled) {
+    return "Registration is currently closed";
+  }
+  if (!isSignupDomainAllowed(email, general.allowedSignupDomains)) {
+    return "Registration is limited to approved email domains. Ask an administrator for an invitation.";
+  }
+  return null;
+}
@@ -0,0 +1,51 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { retentionPolicyFormSchema } from "./validations/retention";
+
+const policy = {
+  policyName: "Trim link checks",
+  tableName: "publisher_link_checks",
+  retentionDays: 90,
+  enabled: true,
+};
+
+describe("retentionPolicyFormSchema", () => {
+  it("accepts a condition the table supports", () => {
+    const result = retentionPolicyFormSchema.safeParse({
+      ...policy,
+      condition: "healthy",
+    });
+
+    assert.equal(result.success, true);
+    assert.equal(result.data?.condition, "healthy");
+  });
+
+  it("rejects conditions from another table", () => {
+    const result = retentionPolicyFormSchema.safeParse({
+      ...policy,
+      condition: "delivered",
+    });
+
+    assert.equal(result.success, false);
+  });
+
+  it("rejects inherited object properties as conditions", () => {
+    for (const condition of ["constructor", "toString", "__proto__"]) {
+      const result = retentionPolicyFormSchema.safeParse({
+        ...policy,
+        condition,
+      });
+
+      assert.equal(result.success, false, condition);
+    }
+  });
+
+  it("rejects inherited object properties as table names", () => {
+    const result = retentionPolicyFormSchema.safeParse({
+      ...policy,
+      tableName: "constructor",
+    });
+
+    assert.equal(result.success, false);
+  });
+});
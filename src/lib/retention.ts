@@ -0,0 +1,357 @@
+/**
+ * Retention policies
+ *
+ * Each enabled row in `retention_policies` deletes rows older than
+ * `retentionDays` from one allow-listed table, optionally narrowed by a
+ * named condition. A run always counts the matching rows first; a dry
+ * run stops there. Every run is recorded in `retention_policy_runs` and
+ * moves the policy's `nextRun` forward.
+ *
+ * `src/scripts/apply-retention-policies.ts` runs the policies that are
+ * due and is meant to be scheduled, e.g. daily via cron.
+ */
+
+import {
+  and,
+  asc,
+  count,
+  desc,
+  eq,
+  inArray,
+  isNull,
+  lt,
+  lte,
+  or,
+  type SQL,
+} from "drizzle-orm";
+import type { PgColumn, PgTable } from "drizzle-orm/pg-core";
+import { db } from "@/db";
+import {
+  analyticsAccessLog,
+  analyticsCache,
+  auditLog,
+  emailDeliveryLog,
+  events,
+  invitation,
+  pageViews,
+  publisherLinkChecks,
+  type RetentionPolicy,
+  retentionPolicies,
+  retentionPolicyRuns,
+  sessions,
+  tenderIngestionRuns,
+  userInteractions,
+} from "@/db/schema";
+import { AuditLogger } from "@/lib/audit-logger";
+import {
+  RETENTION_RUN_INTERVAL_HOURS,
+  RETENTION_TABLES,
+  type RetentionPolicyFormData,
+  type RetentionTableName,
+} from "@/lib/validations/retention";
+
+interface RetentionTarget {
+  table: PgTable;
+  // Rows are old once this is before the cutoff
+  dateColumn: PgColumn;
+  conditions: Record<string, SQL | undefined>;
+}
+
+const RETENTION_TARGETS: Record<RetentionTableName, RetentionTarget> = {
+  audit_log: {
+    table: auditLog,
+    dateColumn: auditLog.createdAt,
+    conditions: {},
+  },
+  page_views: {
+    table: pageViews,
+    dateColumn: pageViews.timestamp,
+    conditions: {},
+  },
+  sessions: {
+    table: sessions,
+    dateColumn: sessions.startedAt,
+    conditions: {},
+  },
+  user_interactions: {
+    table: userInteractions,
+    dateColumn: userInteractions.timestamp,
+    conditions: {},
+  },
+  events: {
+    table: events,
+    dateColumn: events.timestamp,
+    conditions: {},
+  },
+  analytics_access_log: {
+    table: analyticsAccessLog,
+    dateColumn: analyticsAccessLog.timestamp,
+    conditions: { successful: eq(analyticsAccessLog.success, true) },
+  },
+  analytics_cache: {
+    table: analyticsCache,
+    dateColumn: analyticsCache.expiresAt,
+    conditions: {},
+  },
+  email_delivery_log: {
+    table: emailDeliveryLog,
+    dateColumn: emailDeliveryLog.sentAt,
+    conditions: { delivered: eq(emailDeliveryLog.status, "delivered") },
+  },
+  publisher_link_checks: {
+    table: publisherLinkChecks,
+    dateColumn: publisherLinkChecks.checkedAt,
+    conditions: { healthy: eq(publisherLinkChecks.ok, true) },
+  },
+  tender_ingestion_runs: {
+    table: tenderIngestionRuns,
+    dateColumn: tenderIngestionRuns.startedAt,
+    conditions: {},
+  },
+  invitation: {
+    table: invitation,
+    dateColumn: invitation.createdAt,
+    conditions: {
+      resolved: inArray(invitation.status, [
+        "accepted",
+        "expired",
+        "cancelled",
+      ]),
+    },
+  },
+  retention_policy_runs: {
+    table: retentionPolicyRuns,
+    dateColumn: retentionPolicyRuns.startedAt,
+    conditions: {},
+  },
+};
+
+export interface RetentionRunResult {
+  policyId: string;
+  policyName: string;
+  status: "success" | "dry_run" | "failed";
+  matched: number;
+  deleted: number;
+  cutoff: Date;
+  error?: string;
+}
+
+function isRetentionTable(tableName: string): tableName is RetentionTableName {
+  return Object.hasOwn(RETENTION_TABLES, tableName);
+}
+
+function getNextRun(from: Date) {
+  return new Date(from.getTime() + RETENTION_RUN_INTERVAL_HOURS * 3600 * 1000);
+}
+
+/**
+ * The rows a policy would delete, or null when the policy names a table
+ * or condition outside the allow-list.
+ */
+function getPolicyFilter(policy: RetentionPolicy, cutoff: Date) {
+  if (!isRetentionTable(policy.tableName)) return null;
+  const target = RETENTION_TARGETS[policy.tableName];
+
+  let condition: SQL | undefined;
+  if (policy.condition) {
+    if (!Object.hasOwn(target.conditions, policy.condition)) return null;
+    condition = target.conditions[policy.condition];
+  }
+
+  return {
+    table: target.table,
+    where: and(lt(target.dateColumn, cutoff), condition),
+  };
+}
+
+export async function getRetentionPolicies() {
+  return db
+    .select()
+    .from(retentionPolicies)
+    .orderBy(
+      asc(retentionPolicies.tableName),
+      asc(retentionPolicies.policyName),
+    );
+}
+
+/**
+ * Latest runs across all policies, newest first.
+ */
+export async function getRetentionRuns(limit = 50) {
+  return db
+    .select({
+      id: retentionPolicyRuns.id,
+      policyId: retentionPolicyRuns.policyId,
+      policyName: retentionPolicies.policyName,
+      tableName: retentionPolicies.tableName,
+      status: retentionPolicyRuns.status,
+      matched: retentionPolicyRuns.matched,
+      deleted: retentionPolicyRuns.deleted,
+      cutoff: retentionPolicyRuns.cutoff,
+      error: retentionPolicyRuns.error,
+      triggeredBy: retentionPolicyRuns.triggeredBy,
+      startedAt: retentionPolicyRuns.startedAt,
+      completedAt: retentionPolicyRuns.completedAt,
+    })
+    .from(retentionPolicyRuns)
+    .innerJoin(
+      retentionPolicies,
+      eq(retentionPolicyRuns.policyId, retentionPolicies.id),
+    )
+    .orderBy(desc(retentionPolicyRuns.startedAt))
+    .limit(limit);
+}
+
+export async function createRetentionPolicy(data: RetentionPolicyFormData) {
+  const [policy] = await db
+    .insert(retentionPolicies)
+    .values({ ...data, nextRun: data.enabled ? new Date() : null })
+    .returning();
+  return policy;
+}
+
+/**
+ * Returns null when the policy does not exist.
+ */
+export async function updateRetentionPolicy(
+  policyId: string,
+  data: RetentionPolicyFormData,
+) {
+  const [existing] = await db
+    .select({ nextRun: retentionPolicies.nextRun })
+    .from(retentionPolicies)
+    .where(eq(retentionPolicies.id, policyId))
+    .limit(1);
+  if (!existing) return null;
+
+  const [policy] = await db
+    .update(retentionPolicies)
+    .set({
+      ...data,
+      // A re-enabled policy is due straight away
+      nextRun: data.enabled ? (existing.nextRun ?? new Date()) : null,
+    })
+    .where(eq(retentionPolicies.id, policyId))
+    .returning();
+  return policy;
+}
+
+export async function deleteRetentionPolicy(policyId: string) {
+  const deleted = await db
+    .delete(retentionPolicies)
+    .where(eq(retentionPolicies.id, policyId))
+    .returning({ id: retentionPolicies.id });
+  return deleted.length > 0;
+}
+
+/**
+ * Count, and unless `dryRun` is set delete, the rows a policy covers.
+ * The run is recorded whatever the outcome; only real runs move
+ * `lastRun` and `nextRun`.
+ */
+export async function runRetentionPolicy(
+  policy: RetentionPolicy,
+  options: { dryRun?: boolean; triggeredBy?: string } = {},
+): Promise<RetentionRunResult> {
+  const startedAt = new Date();
+  const cutoff = new Date(
+    startedAt.getTime() - policy.retentionDays * 24 * 3600 * 1000,
+  );
+  const result: RetentionRunResult = {
+    policyId: policy.id,
+    policyName: policy.policyName,
+    status: options.dryRun ? "dry_run" : "success",
+    matched: 0,
+    deleted: 0,
+    cutoff,
+  };
+
+  try {
+    const filter = getPolicyFilter(policy, cutoff);
+    if (!filter) {
+      throw new Error(
+        `Table "${policy.tableName}" or condition "${policy.condition}" is not allowed`,
+      );
+    }
+
+    const [{ matched }] = await db
+      .select({ matched: count() })
+      .from(filter.table)
+      .where(filter.where);
+    result.matched = matched;
+
+    if (!options.dryRun && matched > 0) {
+      const deleted = await db.delete(filter.table).where(filter.where);
+      result.deleted = deleted.rowCount ?? 0;
+    }
+  } catch (error) {
+    result.status = "failed";
+    result.error = error instanceof Error ? error.message : "Unknown error";
+  }
+
+  const completedAt = new Date();
+  await db.insert(retentionPolicyRuns).values({
+    policyId: policy.id,
+    status: result.status,
+    matched: result.matched,
+    deleted: result.deleted,
+    cutoff,
+    error: result.error,
+    triggeredBy: options.triggeredBy,
+    startedAt,
+    completedAt,
+  });
+
+  if (!options.dryRun) {
+    await db
+      .update(retentionPolicies)
+      .set({ lastRun: completedAt, nextRun: getNextRun(completedAt) })
+      .where(eq(retentionPolicies.id, policy.id));
+  }
+
+  if (options.triggeredBy && result.deleted > 0) {
+    await AuditLogger.logDataDeleted(
+      options.triggeredBy,
+      policy.tableName,
+      result.deleted,
+      {
+        resourceType: "retention_policy",
+        resourceId: policy.id,
+        metadata: { cutoff: cutoff.toISOString() },
+      },
+    );
+  }
+
+  return result;
+}
+
+/**
+ * Run every enabled policy whose `nextRun` has passed, or every enabled
+ * policy when `all` is set.
+ */
+export async function runDueRetentionPolicies(
+  options: { dryRun?: boolean; all?: boolean } = {},
+) {
+  const now = new Date();
+  const due = await db
+    .select()
+    .from(retentionPolicies)
+    .where(
+      and(
+        eq(retentionPolicies.enabled, true),
+        options.all
+          ? undefined
+          : or(
+              isNull(retentionPolicies.nextRun),
+              lte(retentionPolicies.nextRun, now),
+            ),
+      ),
+    )
+    .orderBy(asc(retentionPolicies.nextRun));
+
+  const results: RetentionRunResult[] = [];
+  for (const policy of due) {
+    results.push(await runRetentionPolicy(policy, { dryRun: options.dryRun }));
+  }
+  return results;
+}
@@ -5,6 +5,7 @@ import { db } from "@/db";
 import { rateLimit, user } from "@/db/schema";
 import { logAuditEvent } from "@/lib/audit-logger";
 import { auth } from "@/lib/auth";
+import { getRoleLevel } from "@/lib/permissions";
 
 /**
  * Production Role-Based Middleware System
@@ -23,18 +24,8 @@ import { auth } from "@/lib/auth";
 
 export type RoleLevel = "admin" | "manager" | "user";
 
-/**
- * Get user role with hierarchy level
- */
-export function getRoleLevel(role: string | null): number {
-  const roleHierarchy: Record<string, number> = {
-    owner: 4,
-    admin: 3,
-    manager: 2,
-    user: 1,
-  };
-  return roleHierarchy[role || "user"] || 0;
-}
+// Role seniority is defined once, with the permissions
+export { getRoleLevel };
 
 /**
  * Check if user has minimum required role level
@@ -0,0 +1,323 @@
+/**
+ * Custom roles
+ *
+ * Organisations can define roles beyond owner/admin/manager/user, built
+ * from the resources and actions in `appStatement`. A member assigned a
+ * custom role gets exactly its permissions; their membership role is set
+ * to the custom role's base role, which decides the area of the app they
+ * work in and their seniority for team management.
+ *
+ * Permission checks themselves live in permissions.ts so client
+ * components can use them; this module resolves them from the database.
+ */
+
+import { and, asc, count, eq } from "drizzle-orm";
+import { db } from "@/db";
+import { customRole, organizationMember, type Role } from "@/db/schema";
+import { type AuditLogContext, AuditLogger } from "@/lib/audit-logger";
+import {
+  builtInRolePermissions,
+  checkPermission,
+  type PermissionChecker,
+  type Permissions,
+  sanitizePermissions,
+} from "@/lib/permissions";
+import {
+  type CustomRoleFormData,
+  customRoleErrorMessages,
+} from "@/lib/validations/custom-role";
+
+/**
+ * The acting member may not create, change or hand out this custom role.
+ */
+export class RoleGrantError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RoleGrantError";
+  }
+}
+
+function assertCanGrantRole(
+  actor: PermissionChecker,
+  role: { id?: string; permissions: Permissions },
+) {
+  if (role.id !== undefined && actor.holdsCustomRole(role.id)) {
+    throw new RoleGrantError(customRoleErrorMessages.heldRole);
+  }
+  if (!actor.canGrantRole(role)) {
+    throw new RoleGrantError(customRoleErrorMessages.beyondOwnPermissions);
+  }
+}
+
+/**
+ * Custom roles of an organisation with the number of members holding
+ * each, by name.
+ */
+export async function getCustomRoles(organizationId: string) {
+  const roles = await db
+    .select({
+      id: customRole.id,
+      name: customRole.name,
+      description: customRole.description,
+      baseRole: customRole.baseRole,
+      permissions: customRole.permissions,
+      updatedAt: customRole.updatedAt,
+      memberCount: count(organizationMember.id),
+    })
+    .from(customRole)
+    .leftJoin(
+      organizationMember,
+      eq(organizationMember.customRoleId, customRole.id),
+    )
+    .where(eq(customRole.organizationId, organizationId))
+    .groupBy(customRole.id)
+    .orderBy(asc(customRole.name));
+
+  return roles.map((role) => ({
+    ...role,
+    permissions: sanitizePermissions(role.permissions),
+  }));
+}
+
+export type CustomRoleSummary = Awaited<
+  ReturnType<typeof getCustomRoles>
+>[number];
+
+async function getCustomRole(organizationId: string, roleId: string) {
+  const [existing] = await db
+    .select()
+    .from(customRole)
+    .where(
+      and(
+        eq(customRole.id, roleId),
+        eq(customRole.organizationId, organizationId),
+      ),
+    )
+    .limit(1);
+  return existing ?? null;
+}
+
+/**
+ * Permissions of a member: their custom role's when set, otherwise their
+ * built-in role's. A custom role from another organisation grants
+ * nothing beyond the built-in role.
+ */
+export async function resolveMemberPermissions(membership: {
+  organizationId: string;
+  role: Role;
+  customRoleId: string | null;
+}): Promise<Permissions> {
+  if (membership.customRoleId) {
+    const assigned = await getCustomRole(
+      membership.organizationId,
+      membership.customRoleId,
+    );
+    if (assigned) return sanitizePermissions(assigned.permissions);
+  }
+  return builtInRolePermissions[membership.role] ?? {};
+}
+
+/**
+ * Permission checker for a user in an organisation, or null when they are
+ * not a member. Use `getPermissionChecker` for the signed-in user.
+ */
+export async function getMemberPermissionChecker(
+  organizationId: string,
+  userId: string,
+) {
+  const [membership] = await db
+    .select({
+      role: organizationMember.role,
+      customRoleId: organizationMember.customRoleId,
+    })
+    .from(organizationMember)
+    .where(
+      and(
+        eq(organizationMember.organizationId, organizationId),
+        eq(organizationMember.userId, userId),
+      ),
+    )
+    .limit(1);
+  if (!membership) return null;
+
+  return checkPermission(
+    { id: userId },
+    membership.role,
+    await resolveMemberPermissions({ organizationId, ...membership }),
+    membership.customRoleId,
+  );
+}
+
+/**
+ * Create a custom role with permissions the actor holds. Returns null
+ * when the name is taken; throws `RoleGrantError` on escalation.
+ */
+export async function createCustomRole(
+  organizationId: string,
+  actor: PermissionChecker,
+  input: CustomRoleFormData,
+  context: AuditLogContext & { userId: string },
+) {
+  const permissions = sanitizePermissions(input.permissions);
+  assertCanGrantRole(actor, { permissions });
+
+  const [created] = await db
+    .insert(customRole)
+    .values({
+      organizationId,
+      name: input.name,
+      description: input.description || null,
+      baseRole: input.baseRole,
+      permissions,
+      createdBy: context.userId,
+    })
+    .onConflictDoNothing({
+      target: [customRole.organizationId, customRole.name],
+    })
+    .returning();
+
+  if (!created) return null;
+
+  await AuditLogger.logCustomRoleChanged(created.id, "created", {
+    ...context,
+    organizationId,
+    newValues: {
+      name: created.name,
+      baseRole: created.baseRole,
+      permissions: created.permissions,
+    },
+  });
+  return created;
+}
+
+/**
+ * Update a custom role. Members holding it move to the new base role.
+ * Returns null when the role does not exist in the organisation; throws
+ * `RoleGrantError` when the actor holds it or lacks the new permissions.
+ */
+export async function updateCustomRole(
+  organizationId: string,
+  roleId: string,
+  actor: PermissionChecker,
+  input: CustomRoleFormData,
+  context: AuditLogContext & { userId: string },
+) {
+  const existing = await getCustomRole(organizationId, roleId);
+  if (!existing) return null;
+
+  const permissions = sanitizePermissions(input.permissions);
+  assertCanGrantRole(actor, { id: roleId, permissions });
+
+  const [updated] = await db
+    .update(customRole)
+    .set({
+      name: input.name,
+      description: input.description || null,
+      baseRole: input.baseRole,
+      permissions,
+    })
+    .where(eq(customRole.id, roleId))
+    .returning();
+
+  if (updated.baseRole !== existing.baseRole) {
+    await db
+      .update(organizationMember)
+      .set({ role: updated.baseRole })
+      .where(eq(organizationMember.customRoleId, roleId));
+  }
+
+  await AuditLogger.logCustomRoleChanged(roleId, "updated", {
+    ...context,
+    organizationId,
+    previousValues: {
+      name: existing.name,
+      baseRole: existing.baseRole,
+      permissions: existing.permissions,
+    },
+    newValues: {
+      name: updated.name,
+      baseRole: updated.baseRole,
+      permissions: updated.permissions,
+    },
+  });
+  return updated;
+}
+
+/**
+ * Delete a custom role. Members holding it keep their base role and fall
+ * back to its built-in permissions, so the actor may not delete their own.
+ */
+export async function deleteCustomRole(
+  organizationId: string,
+  roleId: string,
+  actor: PermissionChecker,
+  context: AuditLogContext & { userId: string },
+) {
+  const existing = await getCustomRole(organizationId, roleId);
+  if (!existing) return false;
+
+  if (actor.holdsCustomRole(roleId)) {
+    throw new RoleGrantError(customRoleErrorMessages.heldRole);
+  }
+
+  // The foreign key clears assignments
+  await db.delete(customRole).where(eq(customRole.id, roleId));
+
+  await AuditLogger.logCustomRoleChanged(roleId, "deleted", {
+    ...context,
+    organizationId,
+    previousValues: {
+      name: existing.name,
+      baseRole: existing.baseRole,
+      permissions: existing.permissions,
+    },
+  });
+  return true;
+}
+
+/**
+ * Give a member a custom role, or clear it with null. Their membership
+ * role becomes the custom role's base role. Returns the new membership
+ * role, or null when the custom role does not exist in the organisation;
+ * throws `RoleGrantError` when the actor holds it or lacks its permissions.
+ */
+export async function assignCustomRole(
+  organizationId: string,
+  userId: string,
+  roleId: string | null,
+  actor: PermissionChecker,
+): Promise<{ role: Role; customRoleId: string | null } | null> {
+  if (roleId === null) {
+    const [updated] = await db
+      .update(organizationMember)
+      .set({ customRoleId: null })
+      .where(
+        and(
+          eq(organizationMember.organizationId, organizationId),
+          eq(organizationMember.userId, userId),
+        ),
+      )
+      .returning({ role: organizationMember.role });
+    return updated ? { role: updated.role, customRoleId: null } : null;
+  }
+
+  const assigned = await getCustomRole(organizationId, roleId);
+  if (!assigned) return null;
+
+  assertCanGrantRole(actor, {
+    id: assigned.id,
+    permissions: sanitizePermissions(assigned.permissions),
+  });
+
+  await db
+    .update(organizationMember)
+    .set({ role: assigned.baseRole, customRoleId: assigned.id })
+    .where(
+      and(
+        eq(organizationMember.organizationId, organizationId),
+        eq(organizationMember.userId, userId),
+      ),
+    );
+
+  return { role: assigned.baseRole, customRoleId: assigned.id };
+}
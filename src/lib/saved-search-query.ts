@@ -0,0 +1,58 @@
+/**
+ * Saved search queries
+ *
+ * Shared by tender listings and tender alerts so a saved search shows the
+ * same tenders on screen as it emails.
+ */
+
+import { gte, ilike, inArray, lte, or, type SQL } from "drizzle-orm";
+import { type SavedSearch, tenders } from "@/db/schema";
+
+export type SavedSearchCriteria = Pick<
+  SavedSearch,
+  | "keywords"
+  | "provinceIds"
+  | "publisherIds"
+  | "categories"
+  | "minValue"
+  | "maxValue"
+>;
+
+/**
+ * Translate saved search criteria into tender query conditions. Every
+ * keyword must appear in the title, description or reference number.
+ * Tenders without an estimated value are excluded when a value range is
+ * set.
+ */
+export function buildSavedSearchConditions(search: SavedSearchCriteria) {
+  const conditions: SQL[] = [];
+
+  const keywords = search.keywords?.trim().split(/\s+/).filter(Boolean) ?? [];
+  for (const keyword of keywords) {
+    const term = `%${keyword}%`;
+    const keywordCondition = or(
+      ilike(tenders.title, term),
+      ilike(tenders.description, term),
+      ilike(tenders.referenceNumber, term),
+    );
+    if (keywordCondition) conditions.push(keywordCondition);
+  }
+
+  if (search.provinceIds.length > 0) {
+    conditions.push(inArray(tenders.provinceId, search.provinceIds));
+  }
+  if (search.publisherIds.length > 0) {
+    conditions.push(inArray(tenders.publisherId, search.publisherIds));
+  }
+  if (search.categories.length > 0) {
+    conditions.push(inArray(tenders.category, search.categories));
+  }
+  if (search.minValue) {
+    conditions.push(gte(tenders.estimatedValue, search.minValue));
+  }
+  if (search.maxValue) {
+    conditions.push(lte(tenders.estimatedValue, search.maxValue));
+  }
+
+  return conditions;
+}
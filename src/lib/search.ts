@@ -0,0 +1,199 @@
+/**
+ * Full-text search
+ *
+ * Ranked Postgres full-text search across publishers and tenders, backed
+ * by the generated `search_vector` columns. Every word of the query must
+ * match, and the last word matches as a prefix so results appear while
+ * the user is still typing.
+ *
+ * Snippets come from `ts_headline` with control characters as highlight
+ * markers. They are split into plain segments here, so the UI never has
+ * to render stored text as HTML.
+ */
+
+import { desc, eq, type SQL, sql } from "drizzle-orm";
+import { db } from "@/db";
+import { provinces, publishers, tenders } from "@/db/schema";
+
+export const SEARCH_RESULT_TYPES = ["publisher", "tender"] as const;
+export type SearchResultType = (typeof SEARCH_RESULT_TYPES)[number];
+
+export const DEFAULT_SEARCH_LIMIT = 5;
+export const MAX_SEARCH_LIMIT = 20;
+export const MAX_SEARCH_QUERY_LENGTH = 200;
+
+const HIGHLIGHT_START = "\u0002";
+const HIGHLIGHT_STOP = "\u0003";
+const HIGHLIGHT_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}`;
+const SNIPPET_OPTIONS = `${HIGHLIGHT_OPTIONS}, MaxWords=24, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "`;
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+export interface SearchResult {
+  type: SearchResultType;
+  id: string;
+  title: HighlightSegment[];
+  subtitle: string | null;
+  snippet: HighlightSegment[] | null;
+  // External page for the result, opened in a new tab
+  url: string | null;
+  rank: number;
+}
+
+export type SearchResults = Record<SearchResultType, SearchResult[]>;
+
+/**
+ * Turn free text into a `to_tsquery` expression: words joined with AND,
+ * the last one as a prefix. Returns null when nothing searchable is left.
+ */
+export function buildTsQuery(input: string) {
+  const terms = input
+    .slice(0, MAX_SEARCH_QUERY_LENGTH)
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+
+  if (terms.length === 0) return null;
+
+  const last = terms.length - 1;
+  return terms
+    .map((term, index) => (index === last ? `${term}:*` : term))
+    .join(" & ");
+}
+
+/**
+ * Split a `ts_headline` result into highlighted and plain segments.
+ */
+export function parseHighlights(headline: string): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+  const pattern = new RegExp(`${HIGHLIGHT_START}(.*?)${HIGHLIGHT_STOP}`, "gs");
+  let lastIndex = 0;
+
+  for (const match of headline.matchAll(pattern)) {
+    if (match.index > lastIndex) {
+      segments.push({
+        text: headline.slice(lastIndex, match.index),
+        match: false,
+      });
+    }
+    segments.push({ text: match[1], match: true });
+    lastIndex = match.index + match[0].length;
+  }
+  if (lastIndex < headline.length) {
+    segments.push({ text: headline.slice(lastIndex), match: false });
+  }
+
+  return segments;
+}
+
+function toTsQuery(query: string) {
+  return sql`to_tsquery('english', ${query})`;
+}
+
+/**
+ * Match publishers against free text. Returns undefined when the text has
+ * no searchable words, so callers can drop the condition.
+ */
+export function publisherSearchCondition(input: string): SQL | undefined {
+  const query = buildTsQuery(input);
+  if (!query) return undefined;
+  return sql`${publishers.searchVector} @@ ${toTsQuery(query)}`;
+}
+
+async function searchPublishers(query: string, limit: number) {
+  const tsQuery = toTsQuery(query);
+  const rank = sql<number>`ts_rank(${publishers.searchVector}, ${tsQuery})`;
+
+  const rows = await db
+    .select({
+      id: publishers.id,
+      name: sql<string>`ts_headline('english', ${publishers.name}, ${tsQuery}, ${`${HIGHLIGHT_OPTIONS}, HighlightAll=true`})`,
+      snippet: sql<
+        string | null
+      >`case when ${publishers.description} is null then null else ts_headline('english', ${publishers.description}, ${tsQuery}, ${SNIPPET_OPTIONS}) end`,
+      website: publishers.website,
+      provinceName: provinces.name,
+      rank,
+    })
+    .from(publishers)
+    .leftJoin(provinces, eq(publishers.province_id, provinces.id))
+    .where(sql`${publishers.searchVector} @@ ${tsQuery}`)
+    .orderBy(desc(rank), publishers.name)
+    .limit(limit);
+
+  return rows.map(
+    (row): SearchResult => ({
+      type: "publisher",
+      id: row.id,
+      title: parseHighlights(row.name),
+      subtitle: row.provinceName,
+      snippet: row.snippet ? parseHighlights(row.snippet) : null,
+      url: row.website,
+      rank: Number(row.rank),
+    }),
+  );
+}
+
+async function searchTenders(query: string, limit: number) {
+  const tsQuery = toTsQuery(query);
+  const rank = sql<number>`ts_rank(${tenders.searchVector}, ${tsQuery})`;
+
+  const rows = await db
+    .select({
+      id: tenders.id,
+      title: sql<string>`ts_headline('english', ${tenders.title}, ${tsQuery}, ${`${HIGHLIGHT_OPTIONS}, HighlightAll=true`})`,
+      snippet: sql<
+        string | null
+      >`case when ${tenders.description} is null then null else ts_headline('english', ${tenders.description}, ${tsQuery}, ${SNIPPET_OPTIONS}) end`,
+      referenceNumber: tenders.referenceNumber,
+      status: tenders.status,
+      sourceUrl: tenders.sourceUrl,
+      publisherName: publishers.name,
+      rank,
+    })
+    .from(tenders)
+    .innerJoin(publishers, eq(tenders.publisherId, publishers.id))
+    .where(sql`${tenders.searchVector} @@ ${tsQuery}`)
+    // Open tenders first, then by relevance
+    .orderBy(
+      sql`${tenders.status} = 'open' desc`,
+      desc(rank),
+      tenders.closingDate,
+    )
+    .limit(limit);
+
+  return rows.map(
+    (row): SearchResult => ({
+      type: "tender",
+      id: row.id,
+      title: parseHighlights(row.title),
+      subtitle: `${row.referenceNumber} · ${row.publisherName} · ${row.status}`,
+      snippet: row.snippet ? parseHighlights(row.snippet) : null,
+      url: row.sourceUrl,
+      rank: Number(row.rank),
+    }),
+  );
+}
+
+/**
+ * Search publishers and tenders, each group ordered by relevance.
+ */
+export async function search(
+  input: string,
+  options: { types?: readonly SearchResultType[]; limit?: number } = {},
+): Promise<SearchResults> {
+  const { types = SEARCH_RESULT_TYPES, limit = DEFAULT_SEARCH_LIMIT } = options;
+  const query = buildTsQuery(input);
+
+  if (!query) return { publisher: [], tender: [] };
+
+  const [publisherResults, tenderResults] = await Promise.all([
+    types.includes("publisher") ? searchPublishers(query, limit) : [],
+    types.includes("tender") ? searchTenders(query, limit) : [],
+  ]);
+
+  return { publisher: publisherResults, tender: tenderResults };
+}
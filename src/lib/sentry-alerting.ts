@@ -1,4 +1,7 @@
 import * as Sentry from "@sentry/nextjs";
+import type { AlertRule } from "@/db/schema";
+import { getEnabledAlertRules, markAlertIncidentNotified, recordAlertIncident } from "./alerts";
+import { sendEmail } from "./email";
 import { sentryConfig } from "./env-validation";
 
 /**
@@ -6,129 +9,147 @@ import { sentryConfig } from "./env-validation";
  */
 
 export interface AlertContext {
-  errorCount: number;
-  timeWindow: string;
+  // Error metrics are absent for alerts raised by jobs such as backups
+  errorCount?: number;
+  timeWindow?: string;
   environment: string;
   release: string;
   affectedUsers?: number;
   errorRate?: number;
+  backupFailures?: number;
+  restoreFailures?: number;
   performanceImpact?: {
     averageResponseTime: number;
     slowestEndpoint: string;
   };
 }
 
-export interface AlertRule {
-  name: string;
-  condition: (context: AlertContext) => boolean;
-  severity: "low" | "medium" | "high" | "critical";
-  cooldown: number; // minutes
-  channels: ("email" | "webhook" | "sentry")[];
+/**
+ * Metric a rule compares against its threshold, if the context has it
+ */
+function getMetricValue(metric: string, context: AlertContext): number | undefined {
+  switch (metric) {
+    case "error_count":
+      return context.errorCount;
+    case "error_rate":
+      return context.errorRate;
+    case "average_response_time":
+      return context.performanceImpact?.averageResponseTime;
+    case "affected_users":
+      return context.affectedUsers;
+    case "backup_failures":
+      return context.backupFailures;
+    case "restore_failures":
+      return context.restoreFailures;
+    default:
+      return undefined;
+  }
 }
 
 /**
- * Predefined alert rules for production monitoring
+ * Check whether a rule's condition holds for the context
  */
-export const ALERT_RULES: AlertRule[] = [
-  {
-    name: "High Error Rate",
-    condition: (ctx) => ctx.errorRate !== undefined && ctx.errorRate > 0.05, // 5% error rate
-    severity: "high",
-    cooldown: 15,
-    channels: ["email", "webhook", "sentry"],
-  },
-  {
-    name: "Critical Error Spike",
-    condition: (ctx) => ctx.errorCount > sentryConfig.alerting.errorThreshold,
-    severity: "critical",
-    cooldown: 5,
-    channels: ["email", "webhook", "sentry"],
-  },
-  {
-    name: "Performance Degradation",
-    condition: (ctx) => 
-      ctx.performanceImpact !== undefined && 
-      ctx.performanceImpact.averageResponseTime > sentryConfig.alerting.performanceThreshold,
-    severity: "medium",
-    cooldown: 30,
-    channels: ["webhook", "sentry"],
-  },
-  {
-    name: "Database Connection Issues",
-    condition: (ctx) => ctx.errorCount > 5 && ctx.timeWindow === "5m",
-    severity: "high",
-    cooldown: 10,
-    channels: ["email", "webhook", "sentry"],
-  },
-  {
-    name: "Authentication Failures",
-    condition: (ctx) => ctx.errorCount > 10 && ctx.timeWindow === "10m",
-    severity: "medium",
-    cooldown: 20,
-    channels: ["webhook", "sentry"],
-  },
-];
+export function matchesAlertRule(rule: AlertRule, context: AlertContext): boolean {
+  if (rule.timeWindow && rule.timeWindow !== context.timeWindow) return false;
+
+  const value = getMetricValue(rule.metric, context);
+  if (value === undefined) return false;
+
+  return rule.operator === "gte" ? value >= rule.threshold : value > rule.threshold;
+}
 
 /**
- * Alert cooldown tracking
+ * Rules are cached briefly since every recorded error evaluates them.
+ * The last good copy is kept so alerts still fire while the database is
+ * unreachable.
  */
-const alertCooldowns = new Map<string, number>();
+const RULE_CACHE_TTL = 60 * 1000; // 1 minute
+let ruleCache: { rules: AlertRule[]; loadedAt: number } | null = null;
+
+async function loadAlertRules(): Promise<AlertRule[]> {
+  if (ruleCache && Date.now() - ruleCache.loadedAt < RULE_CACHE_TTL) {
+    return ruleCache.rules;
+  }
+
+  try {
+    const rules = await getEnabledAlertRules();
+    ruleCache = { rules, loadedAt: Date.now() };
+    return rules;
+  } catch (error) {
+    console.error("Failed to load alert rules:", error);
+    return ruleCache?.rules ?? [];
+  }
+}
 
 /**
- * Check if alert is in cooldown period
+ * Drop cached rules after they are edited
  */
-function isInCooldown(ruleName: string, cooldownMinutes: number): boolean {
-  const lastAlert = alertCooldowns.get(ruleName);
-  if (!lastAlert) return false;
-  
-  const cooldownMs = cooldownMinutes * 60 * 1000;
-  return Date.now() - lastAlert < cooldownMs;
+export function invalidateAlertRuleCache(): void {
+  ruleCache = null;
 }
 
 /**
- * Set alert cooldown
+ * Cooldowns used only when incidents cannot be stored
  */
-function setCooldown(ruleName: string): void {
-  alertCooldowns.set(ruleName, Date.now());
+const fallbackCooldowns = new Map<string, number>();
+
+function isInFallbackCooldown(rule: AlertRule): boolean {
+  const lastAlert = fallbackCooldowns.get(rule.id);
+  if (!lastAlert) return false;
+
+  return Date.now() - lastAlert < rule.cooldownMinutes * 60 * 1000;
 }
 
 /**
- * Send email alert
+ * Send email alert. Each channel returns whether the alert went out.
  */
-async function sendEmailAlert(rule: AlertRule, context: AlertContext): Promise<void> {
+async function sendEmailAlert(rule: AlertRule, context: AlertContext): Promise<boolean> {
   if (!sentryConfig.alerting.email) {
     console.warn("Email alerting configured but no email address provided");
-    return;
+    return false;
   }
 
-  try {
-    // This would integrate with your email service (Resend)
-    // For now, we'll log the alert details
-    console.error(`EMAIL ALERT [${rule.severity.toUpperCase()}]: ${rule.name}`, {
-      context,
-      timestamp: new Date().toISOString(),
-      recipient: sentryConfig.alerting.email,
-    });
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || "https://tenderhub.com";
+  const rows = [
+    ["Rule", rule.name],
+    ["Severity", rule.severity.toUpperCase()],
+    ["Errors", context.errorCount !== undefined ? `${context.errorCount} in ${context.timeWindow}` : undefined],
+    ["Error rate", context.errorRate !== undefined ? `${(context.errorRate * 100).toFixed(1)}%` : undefined],
+    ["Affected users", context.affectedUsers?.toString()],
+    ["Backup failures in a row", context.backupFailures?.toString()],
+    ["Failed database restores", context.restoreFailures?.toString()],
+    ["Average response time", context.performanceImpact ? `${context.performanceImpact.averageResponseTime}ms (slowest: ${context.performanceImpact.slowestEndpoint})` : undefined],
+    ["Environment", context.environment],
+    ["Release", context.release],
+  ].filter((row): row is [string, string] => row[1] !== undefined);
+
+  const result = await sendEmail({
+    to: sentryConfig.alerting.email,
+    subject: `[${rule.severity.toUpperCase()}] ${rule.name} - Tender Hub`,
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2>Alert triggered: ${rule.name}</h2>
+        <table style="border-collapse: collapse;">
+          ${rows.map(([label, value]) => `<tr><td style="padding: 4px 12px 4px 0; color: #6b7280;">${label}</td><td style="padding: 4px 0;">${value}</td></tr>`).join("")}
+        </table>
+        <p>Acknowledge or resolve it in <a href="${appUrl}/admin/monitoring">System Monitoring</a>.</p>
+      </div>
+    `,
+  });
 
-    // TODO: Integrate with actual email service
-    // await emailService.sendAlert({
-    //   to: sentryConfig.alerting.email,
-    //   subject: `[${rule.severity.toUpperCase()}] ${rule.name} - Tender Hub`,
-    //   template: 'error-alert',
-    //   data: { rule, context }
-    // });
-  } catch (error) {
-    console.error("Failed to send email alert:", error);
+  if (!result.success) {
+    console.error("Failed to send email alert:", result.error);
   }
+  return result.success;
 }
 
 /**
  * Send webhook alert
  */
-async function sendWebhookAlert(rule: AlertRule, context: AlertContext): Promise<void> {
+async function sendWebhookAlert(rule: AlertRule, context: AlertContext): Promise<boolean> {
   if (!sentryConfig.alerting.webhook) {
     console.warn("Webhook alerting configured but no webhook URL provided");
-    return;
+    return false;
   }
 
   try {
@@ -161,15 +182,17 @@ async function sendWebhookAlert(rule: AlertRule, context: AlertContext): Promise
     }
 
     console.log(`Webhook alert sent successfully for: ${rule.name}`);
+    return true;
   } catch (error) {
     console.error("Failed to send webhook alert:", error);
+    return false;
   }
 }
 
 /**
  * Send Sentry alert (create issue or add comment)
  */
-async function sendSentryAlert(rule: AlertRule, context: AlertContext): Promise<void> {
+async function sendSentryAlert(rule: AlertRule, context: AlertContext): Promise<boolean> {
   try {
     Sentry.withScope((scope) => {
       scope.setLevel(rule.severity === "critical" ? "fatal" : "error");
@@ -181,8 +204,10 @@ async function sendSentryAlert(rule: AlertRule, context: AlertContext): Promise<
     });
 
     console.log(`Sentry alert sent for: ${rule.name}`);
+    return true;
   } catch (error) {
     console.error("Failed to send Sentry alert:", error);
+    return false;
   }
 }
 
@@ -190,21 +215,29 @@ async function sendSentryAlert(rule: AlertRule, context: AlertContext): Promise<
  * Process alert rule and send notifications
  */
 async function processAlert(rule: AlertRule, context: AlertContext): Promise<void> {
-  // Check cooldown
-  if (isInCooldown(rule.name, rule.cooldown)) {
-    console.log(`Alert ${rule.name} is in cooldown, skipping`);
-    return;
-  }
-
   // Check condition
-  if (!rule.condition(context)) {
+  if (!matchesAlertRule(rule, context)) {
     return;
   }
 
   console.warn(`Alert triggered: ${rule.name} [${rule.severity}]`, context);
 
-  // Set cooldown
-  setCooldown(rule.name);
+  // Record the incident; its state decides whether anyone is notified
+  let incidentId: string | undefined;
+  try {
+    const { incident, notify } = await recordAlertIncident(rule, { ...context });
+    if (!notify) {
+      console.log(`Alert ${rule.name} is acknowledged, muted or in cooldown, skipping notifications`);
+      return;
+    }
+    incidentId = incident.id;
+  } catch (error) {
+    console.error("Failed to record alert incident:", error);
+    if (isInFallbackCooldown(rule)) {
+      return;
+    }
+    fallbackCooldowns.set(rule.id, Date.now());
+  }
 
   // Send notifications based on configured channels
   const notifications = rule.channels.map(async (channel) => {
@@ -217,11 +250,39 @@ async function processAlert(rule: AlertRule, context: AlertContext): Promise<voi
         return sendSentryAlert(rule, context);
       default:
         console.warn(`Unknown alert channel: ${channel}`);
+        return false;
     }
   });
 
   // Wait for all notifications to complete
-  await Promise.allSettled(notifications);
+  const results = await Promise.allSettled(notifications);
+  const delivered = rule.channels.filter((_, index) => {
+    const result = results[index];
+    return result.status === "fulfilled" && result.value;
+  });
+
+  if (incidentId) {
+    try {
+      await markAlertIncidentNotified(incidentId, delivered);
+    } catch (error) {
+      console.error("Failed to record alert notifications:", error);
+    }
+  }
+}
+
+// Evaluations of the same rule run one at a time, so concurrent errors
+// add to one incident instead of opening several
+const ruleQueues = new Map<string, Promise<void>>();
+
+function queueAlert(rule: AlertRule, context: AlertContext): Promise<void> {
+  const previous = ruleQueues.get(rule.id) ?? Promise.resolve();
+  const next = previous.then(() => processAlert(rule, context));
+  ruleQueues.set(rule.id, next);
+  return next.finally(() => {
+    if (ruleQueues.get(rule.id) === next) {
+      ruleQueues.delete(rule.id);
+    }
+  });
 }
 
 /**
@@ -234,7 +295,8 @@ export async function checkAlerts(context: AlertContext): Promise<void> {
   }
 
   try {
-    const alertPromises = ALERT_RULES.map(rule => processAlert(rule, context));
+    const rules = await loadAlertRules();
+    const alertPromises = rules.map(rule => queueAlert(rule, context));
     await Promise.allSettled(alertPromises);
   } catch (error) {
     console.error("Error processing alerts:", error);
@@ -245,14 +307,16 @@ export async function checkAlerts(context: AlertContext): Promise<void> {
  * Create alert context from error metrics
  */
 export function createAlertContext(metrics: {
-  errorCount: number;
-  timeWindow: string;
+  errorCount?: number;
+  timeWindow?: string;
   totalRequests?: number;
   affectedUsers?: number;
   averageResponseTime?: number;
   slowestEndpoint?: string;
+  backupFailures?: number;
+  restoreFailures?: number;
 }): AlertContext {
-  const errorRate = metrics.totalRequests ? metrics.errorCount / metrics.totalRequests : undefined;
+  const errorRate = metrics.totalRequests && metrics.errorCount !== undefined ? metrics.errorCount / metrics.totalRequests : undefined;
   
   return {
     errorCount: metrics.errorCount,
@@ -261,6 +325,8 @@ export function createAlertContext(metrics: {
     release: sentryConfig.release,
     affectedUsers: metrics.affectedUsers,
     errorRate,
+    backupFailures: metrics.backupFailures,
+    restoreFailures: metrics.restoreFailures,
     performanceImpact: metrics.averageResponseTime ? {
       averageResponseTime: metrics.averageResponseTime,
       slowestEndpoint: metrics.slowestEndpoint || "unknown",
@@ -361,7 +427,6 @@ export function initializeSentryAlerting(): void {
   console.log("Sentry alerting system initialized", {
     environment: sentryConfig.environment,
     release: sentryConfig.release,
-    alertRules: ALERT_RULES.length,
     emailAlerting: !!sentryConfig.alerting.email,
     webhookAlerting: !!sentryConfig.alerting.webhook,
   });
@@ -0,0 +1,160 @@
+/**
+ * System settings
+ *
+ * Typed access to the settings edited through /api/admin/settings.
+ * Maintenance mode, registration and the sign-in lockout are enforced in
+ * the proxy and the auth hooks, before any organisation is known, so
+ * these settings are platform-wide `system_settings` rows without an
+ * organisation.
+ *
+ * Reads are cached per server instance. Updates clear the local cache
+ * straight away; other instances pick them up when their entry expires.
+ */
+
+import { isNull } from "drizzle-orm";
+import { db } from "@/db";
+import { systemSettings } from "@/db/schema";
+import { AuditLogger } from "@/lib/audit-logger";
+import { createAppError, logError } from "@/lib/error-utils";
+import {
+  defaultSystemSettings,
+  type SystemSettings,
+  type SystemSettingsUpdate,
+} from "@/lib/validations/system-settings";
+
+const SETTINGS_CACHE_TTL_MS = 30_000;
+
+// A plain value rather than a ProductionCache: its cleanup timer would
+// keep scripts that import the auth config from exiting
+let cachedSettings: { settings: SystemSettings; expiresAt: number } | null =
+  null;
+
+type SettingCategory = keyof SystemSettings;
+
+const SETTING_CATEGORIES = Object.keys(
+  defaultSystemSettings,
+) as SettingCategory[];
+
+/**
+ * Stored values over the defaults, per field, so rows saved before a
+ * field existed still produce complete settings.
+ */
+async function loadSystemSettings(): Promise<SystemSettings> {
+  const rows = await db
+    .select({
+      settingKey: systemSettings.settingKey,
+      settingValue: systemSettings.settingValue,
+    })
+    .from(systemSettings)
+    .where(isNull(systemSettings.organizationId));
+
+  const stored = new Map(rows.map((row) => [row.settingKey, row.settingValue]));
+
+  return {
+    general: {
+      ...defaultSystemSettings.general,
+      ...(stored.get("general") as object | undefined),
+    },
+    security: {
+      ...defaultSystemSettings.security,
+      ...(stored.get("security") as object | undefined),
+    },
+    database: {
+      ...defaultSystemSettings.database,
+      ...(stored.get("database") as object | undefined),
+    },
+  };
+}
+
+/**
+ * Current platform settings. Falls back to the defaults, uncached, when
+ * the database cannot be read so a settings outage never locks everyone
+ * out.
+ */
+export async function getSystemSettings(): Promise<SystemSettings> {
+  if (cachedSettings && cachedSettings.expiresAt > Date.now()) {
+    return cachedSettings.settings;
+  }
+
+  try {
+    const settings = await loadSystemSettings();
+    cachedSettings = {
+      settings,
+      expiresAt: Date.now() + SETTINGS_CACHE_TTL_MS,
+    };
+    return settings;
+  } catch (error) {
+    logError(
+      createAppError("Failed to load system settings", {
+        code: "SYSTEM_SETTINGS_LOAD_FAILED",
+        details: { originalError: error },
+      }),
+      "high",
+    );
+    return defaultSystemSettings;
+  }
+}
+
+export function invalidateSystemSettingsCache() {
+  cachedSettings = null;
+}
+
+/**
+ * Apply a partial update, clear the cache and record the changed fields
+ * as a `configuration_changed` audit event. Returns the new settings.
+ */
+export async function updateSystemSettings(
+  changes: SystemSettingsUpdate,
+  context: { userId: string; ipAddress?: string; userAgent?: string },
+): Promise<SystemSettings> {
+  const previous = await loadSystemSettings();
+  const next: SystemSettings = { ...previous };
+  const previousValues: Record<string, unknown> = {};
+  const newValues: Record<string, unknown> = {};
+
+  for (const category of SETTING_CATEGORIES) {
+    const categoryChanges = changes[category];
+    if (!categoryChanges) continue;
+
+    const merged = { ...previous[category], ...categoryChanges };
+    const before = previous[category] as Record<string, unknown>;
+    for (const [field, value] of Object.entries(categoryChanges)) {
+      if (before[field] === value) continue;
+      previousValues[`${category}.${field}`] = before[field];
+      newValues[`${category}.${field}`] = value;
+    }
+
+    await db
+      .insert(systemSettings)
+      .values({
+        organizationId: null,
+        settingKey: category,
+        settingValue: merged,
+        updatedBy: context.userId,
+      })
+      .onConflictDoUpdate({
+        target: [systemSettings.organizationId, systemSettings.settingKey],
+        set: {
+          settingValue: merged,
+          updatedBy: context.userId,
+          updatedAt: new Date(),
+        },
+      });
+
+    Object.assign(next, { [category]: merged });
+  }
+
+  invalidateSystemSettingsCache();
+
+  if (Object.keys(newValues).length > 0) {
+    await AuditLogger.logConfigurationChanged(context.userId, newValues, {
+      organizationId: null,
+      resourceType: "system_settings",
+      previousValues,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+    });
+  }
+
+  return next;
+}
@@ -0,0 +1,213 @@
+/**
+ * Tender alerts
+ *
+ * Matches newly captured tenders against users' saved searches and emails
+ * the matches. Each match is recorded in `saved_search_matches` and marked
+ * as notified once emailed, so a tender is never alerted twice for the
+ * same search. Delivery frequency follows the user's email preferences:
+ * `immediateNotifications`, `dailyDigest` and `weeklyDigestNotifications`.
+ */
+
+import { and, eq, gt, inArray, isNull, lte } from "drizzle-orm";
+import { db } from "@/db";
+import {
+  publishers,
+  savedSearches,
+  savedSearchMatches,
+  tenders,
+  user,
+} from "@/db/schema";
+import {
+  sendTenderAlertEmail,
+  TENDER_ALERT_PREFERENCES,
+  type TenderAlertFrequency,
+} from "@/lib/email";
+import { canReceiveEmail, getUnsubscribeUrl } from "@/lib/email-preferences";
+import { createAppError, logError } from "@/lib/error-utils";
+import { buildSavedSearchConditions } from "@/lib/saved-search-query";
+import { formatSastDateTime } from "@/lib/tender-deadline-schedule";
+
+const APP_URL = process.env.NEXT_PUBLIC_APP_URL || "https://tenderhub.com";
+
+// Cap per email so digests stay readable; the rest go in the next one
+const MAX_TENDERS_PER_EMAIL = 50;
+
+/**
+ * Record matches for tenders created since each saved search was last
+ * checked. Only open tenders that have not closed yet are matched.
+ */
+export async function collectSavedSearchMatches(now = new Date()) {
+  const searches = await db
+    .select()
+    .from(savedSearches)
+    .where(eq(savedSearches.alertsEnabled, true));
+
+  let matched = 0;
+
+  for (const search of searches) {
+    const since = search.lastMatchedAt ?? search.createdAt;
+
+    const matchingTenders = await db
+      .select({ id: tenders.id })
+      .from(tenders)
+      .where(
+        and(
+          gt(tenders.createdAt, since),
+          lte(tenders.createdAt, now),
+          eq(tenders.status, "open"),
+          gt(tenders.closingDate, now),
+          ...buildSavedSearchConditions(search),
+        ),
+      );
+
+    if (matchingTenders.length > 0) {
+      const inserted = await db
+        .insert(savedSearchMatches)
+        .values(
+          matchingTenders.map((tender) => ({
+            savedSearchId: search.id,
+            tenderId: tender.id,
+            matchedAt: now,
+          })),
+        )
+        .onConflictDoNothing()
+        .returning({ id: savedSearchMatches.id });
+      matched += inserted.length;
+    }
+
+    await db
+      .update(savedSearches)
+      .set({ lastMatchedAt: now })
+      .where(eq(savedSearches.id, search.id));
+  }
+
+  return { searches: searches.length, matched };
+}
+
+/**
+ * Email pending matches to users whose preferences enable the given
+ * frequency, then mark those matches as notified.
+ */
+export async function sendTenderAlerts(
+  frequency: TenderAlertFrequency,
+  now = new Date(),
+) {
+  const pending = await db
+    .select({
+      matchId: savedSearchMatches.id,
+      searchName: savedSearches.name,
+      userId: user.id,
+      userName: user.name,
+      userEmail: user.email,
+      tenderTitle: tenders.title,
+      referenceNumber: tenders.referenceNumber,
+      closingDate: tenders.closingDate,
+      sourceUrl: tenders.sourceUrl,
+      publisherName: publishers.name,
+    })
+    .from(savedSearchMatches)
+    .innerJoin(
+      savedSearches,
+      eq(savedSearchMatches.savedSearchId, savedSearches.id),
+    )
+    .innerJoin(user, eq(savedSearches.userId, user.id))
+    .innerJoin(tenders, eq(savedSearchMatches.tenderId, tenders.id))
+    .innerJoin(publishers, eq(tenders.publisherId, publishers.id))
+    .where(
+      and(
+        isNull(savedSearchMatches.notifiedAt),
+        eq(savedSearches.alertsEnabled, true),
+        gt(tenders.closingDate, now),
+      ),
+    )
+    .orderBy(savedSearchMatches.matchedAt);
+
+  const byUser = new Map<string, typeof pending>();
+  for (const row of pending) {
+    const rows = byUser.get(row.userId) ?? [];
+    rows.push(row);
+    byUser.set(row.userId, rows);
+  }
+
+  const preferenceKey = TENDER_ALERT_PREFERENCES[frequency];
+  const result = { users: 0, emailsSent: 0, failed: 0, skipped: 0 };
+
+  for (const [userId, rows] of byUser) {
+    result.users++;
+
+    // Users who chose a different frequency are picked up by that run
+    if (!(await canReceiveEmail(userId, preferenceKey))) {
+      result.skipped++;
+      continue;
+    }
+
+    const batch = rows.slice(0, MAX_TENDERS_PER_EMAIL);
+    const searches = new Map<
+      string,
+      Parameters<typeof sendTenderAlertEmail>[0]["searches"][number]
+    >();
+    for (const row of batch) {
+      const search = searches.get(row.searchName) ?? {
+        name: row.searchName,
+        tenders: [],
+      };
+      search.tenders.push({
+        title: row.tenderTitle,
+        referenceNumber: row.referenceNumber,
+        publisherName: row.publisherName,
+        closingDate: formatSastDateTime(row.closingDate),
+        url: row.sourceUrl,
+      });
+      searches.set(row.searchName, search);
+    }
+
+    try {
+      const delivery = await sendTenderAlertEmail({
+        to: batch[0].userEmail,
+        userName: batch[0].userName,
+        userId,
+        frequency,
+        searches: [...searches.values()],
+        tendersUrl: `${APP_URL}/dashboard/tenders`,
+        unsubscribeUrl: await getUnsubscribeUrl(userId, preferenceKey, APP_URL),
+      });
+
+      if (!delivery.success) {
+        result.failed++;
+        continue;
+      }
+
+      await db
+        .update(savedSearchMatches)
+        .set({ notifiedAt: now })
+        .where(
+          inArray(
+            savedSearchMatches.id,
+            batch.map((row) => row.matchId),
+          ),
+        );
+      result.emailsSent++;
+    } catch (error) {
+      result.failed++;
+      logError(
+        createAppError("Failed to send tender alert", {
+          code: "TENDER_ALERT_FAILED",
+          details: { userId, frequency, originalError: error },
+        }),
+        "medium",
+      );
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Match new tenders and send alerts for one frequency.
+ */
+export async function processTenderAlerts(frequency: TenderAlertFrequency) {
+  const now = new Date();
+  const matching = await collectSavedSearchMatches(now);
+  const delivery = await sendTenderAlerts(frequency, now);
+  return { ...matching, ...delivery };
+}
@@ -0,0 +1,174 @@
+/**
+ * Tender deadline scheduling
+ *
+ * Pure helpers shared by the deadline calendar, the email preferences form
+ * and the reminder job. Nothing here touches the database so it can be
+ * used from client components and exercised in isolation.
+ */
+
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  endOfDay,
+  endOfMonth,
+  endOfWeek,
+  isValid,
+  parseISO,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+
+export const CALENDAR_VIEWS = ["month", "week", "agenda"] as const;
+export type CalendarView = (typeof CALENDAR_VIEWS)[number];
+
+// Number of days listed by the agenda view
+export const AGENDA_DAYS = 30;
+
+// Lead times users can choose from, in days before closing
+export const REMINDER_LEAD_DAY_OPTIONS = [14, 7, 3, 2, 1, 0] as const;
+export const DEFAULT_REMINDER_LEAD_DAYS = [7, 2, 0];
+
+// Reminders go out in the morning, South African time (UTC+2, no DST)
+const REMINDER_HOUR = 7;
+const SAST_OFFSET_MS = 2 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const SAST_DATE_TIME_FORMAT = new Intl.DateTimeFormat("en-GB", {
+  timeZone: "Africa/Johannesburg",
+  day: "numeric",
+  month: "long",
+  year: "numeric",
+  hour: "2-digit",
+  minute: "2-digit",
+  hourCycle: "h23",
+});
+
+export function isValidReminderLeadDays(value: unknown): value is number[] {
+  return (
+    Array.isArray(value) &&
+    value.length <= REMINDER_LEAD_DAY_OPTIONS.length &&
+    value.every((days) =>
+      (REMINDER_LEAD_DAY_OPTIONS as readonly unknown[]).includes(days),
+    ) &&
+    new Set(value).size === value.length
+  );
+}
+
+export function formatLeadTime(days: number) {
+  if (days === 0) return "Morning of closing";
+  return `${days} ${days === 1 ? "day" : "days"} before`;
+}
+
+/**
+ * A closing or briefing time as shown in emails, e.g. "14 March 2026,
+ * 11:00". Always South African time, whatever the server's timezone.
+ */
+export function formatSastDateTime(date: Date) {
+  const parts = Object.fromEntries(
+    SAST_DATE_TIME_FORMAT.formatToParts(date).map((part) => [
+      part.type,
+      part.value,
+    ]),
+  );
+  return `${parts.day} ${parts.month} ${parts.year}, ${parts.hour}:${parts.minute}`;
+}
+
+/**
+ * When the reminder for a lead time is due: 07:00 SAST on the calendar
+ * day `leadDays` before the closing day.
+ */
+export function getReminderDueAt(closingDate: Date, leadDays: number) {
+  const closingLocal = new Date(closingDate.getTime() + SAST_OFFSET_MS);
+  const dueLocal = Date.UTC(
+    closingLocal.getUTCFullYear(),
+    closingLocal.getUTCMonth(),
+    closingLocal.getUTCDate(),
+    REMINDER_HOUR,
+  );
+  return new Date(dueLocal - leadDays * DAY_MS - SAST_OFFSET_MS);
+}
+
+/**
+ * Pick the reminder that should go out now for a tender, if any. Only the
+ * most recent due lead time is returned, so a tender tracked three days
+ * before closing gets the 2-day reminder rather than a late 7-day one.
+ */
+export function pickDueReminder(
+  closingDate: Date,
+  leadDays: number[],
+  now: Date,
+) {
+  if (closingDate <= now) return null;
+
+  const due = [...leadDays]
+    .sort((a, b) => a - b)
+    .find((days) => getReminderDueAt(closingDate, days) <= now);
+
+  return due ?? null;
+}
+
+/**
+ * Identifies a reminder in the email delivery log. The closing date is
+ * part of the key so an extended tender is reminded about again.
+ */
+export function getReminderKey(
+  tenderId: string,
+  closingDate: Date,
+  leadDays: number,
+) {
+  return `${tenderId}:${closingDate.toISOString()}:${leadDays}`;
+}
+
+export function parseCalendarView(value?: string): CalendarView {
+  return CALENDAR_VIEWS.includes(value as CalendarView)
+    ? (value as CalendarView)
+    : "month";
+}
+
+export function parseCalendarDate(value?: string, today = new Date()) {
+  const date = value ? parseISO(value) : today;
+  return isValid(date) ? date : today;
+}
+
+/**
+ * Date range shown by a calendar view. Weeks start on Monday.
+ */
+export function getCalendarRange(view: CalendarView, date: Date) {
+  switch (view) {
+    case "week":
+      return {
+        from: startOfWeek(date, { weekStartsOn: 1 }),
+        to: endOfWeek(date, { weekStartsOn: 1 }),
+      };
+    case "agenda":
+      return {
+        from: startOfDay(date),
+        to: endOfDay(addDays(date, AGENDA_DAYS - 1)),
+      };
+    default:
+      return {
+        from: startOfWeek(startOfMonth(date), { weekStartsOn: 1 }),
+        to: endOfWeek(endOfMonth(date), { weekStartsOn: 1 }),
+      };
+  }
+}
+
+/**
+ * The date to navigate to for the previous (-1) or next (1) page.
+ */
+export function shiftCalendarDate(
+  view: CalendarView,
+  date: Date,
+  direction: -1 | 1,
+) {
+  switch (view) {
+    case "week":
+      return addWeeks(date, direction);
+    case "agenda":
+      return addDays(date, direction * AGENDA_DAYS);
+    default:
+      return addMonths(date, direction);
+  }
+}
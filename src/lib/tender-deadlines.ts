@@ -0,0 +1,307 @@
+/**
+ * Tender deadlines
+ *
+ * A user's deadlines are the tenders they track plus open tenders from
+ * publishers they have bookmarked. The same set feeds the deadline
+ * calendar and the closing-date reminder emails.
+ *
+ * Reminders are sent through the tracked email path, which records every
+ * delivery in `email_delivery_log`. The log entry carries a reminder key
+ * (tender, closing date and lead time) and is checked before sending, so
+ * a reminder is never sent twice however often the job runs.
+ */
+
+import { subDays } from "date-fns";
+import {
+  and,
+  eq,
+  gt,
+  gte,
+  inArray,
+  isNotNull,
+  lte,
+  or,
+  type SQL,
+} from "drizzle-orm";
+import { db } from "@/db";
+import {
+  emailDeliveryLog,
+  emailPreferences,
+  provinces,
+  publishers,
+  tenders,
+  trackedTenders,
+  user,
+  userBookmarks,
+} from "@/db/schema";
+import { sendTenderReminderEmail } from "@/lib/email";
+import { getUnsubscribeUrl } from "@/lib/email-preferences";
+import { createAppError, logError } from "@/lib/error-utils";
+import {
+  DEFAULT_REMINDER_LEAD_DAYS,
+  formatSastDateTime,
+  getReminderKey,
+  pickDueReminder,
+  REMINDER_LEAD_DAY_OPTIONS,
+} from "@/lib/tender-deadline-schedule";
+
+const APP_URL = process.env.NEXT_PUBLIC_APP_URL || "https://tenderhub.com";
+
+const REMINDER_EMAIL_TYPE = "tender_reminder";
+
+// Only tenders closing within the longest lead time can need a reminder
+const REMINDER_WINDOW_DAYS = Math.max(...REMINDER_LEAD_DAY_OPTIONS) + 1;
+
+/**
+ * Tenders a user tracks, plus open tenders from bookmarked publishers,
+ * narrowed by a date condition. `trackedAt` is null for tenders that only
+ * appear because their publisher is bookmarked.
+ */
+function selectUserDeadlineTenders(userId: string, dateCondition?: SQL) {
+  const bookmarkedPublishers = db
+    .select({ publisherId: userBookmarks.publisherId })
+    .from(userBookmarks)
+    .where(eq(userBookmarks.userId, userId));
+
+  return db
+    .select({
+      id: tenders.id,
+      referenceNumber: tenders.referenceNumber,
+      title: tenders.title,
+      closingDate: tenders.closingDate,
+      briefingDate: tenders.briefingDate,
+      briefingVenue: tenders.briefingVenue,
+      briefingCompulsory: tenders.briefingCompulsory,
+      status: tenders.status,
+      sourceUrl: tenders.sourceUrl,
+      publisherId: tenders.publisherId,
+      publisherName: publishers.name,
+      provinceName: provinces.name,
+      trackedAt: trackedTenders.createdAt,
+    })
+    .from(tenders)
+    .innerJoin(publishers, eq(tenders.publisherId, publishers.id))
+    .leftJoin(provinces, eq(tenders.provinceId, provinces.id))
+    .leftJoin(
+      trackedTenders,
+      and(
+        eq(trackedTenders.tenderId, tenders.id),
+        eq(trackedTenders.userId, userId),
+      ),
+    )
+    .where(
+      and(
+        or(
+          isNotNull(trackedTenders.id),
+          and(
+            eq(tenders.status, "open"),
+            inArray(tenders.publisherId, bookmarkedPublishers),
+          ),
+        ),
+        dateCondition,
+      ),
+    )
+    .orderBy(tenders.closingDate);
+}
+
+/**
+ * Deadline tenders with a closing or briefing date inside the range.
+ */
+export async function getUserDeadlineTenders(
+  userId: string,
+  range: { from: Date; to: Date },
+) {
+  return selectUserDeadlineTenders(
+    userId,
+    or(
+      and(
+        gte(tenders.closingDate, range.from),
+        lte(tenders.closingDate, range.to),
+      ),
+      and(
+        gte(tenders.briefingDate, range.from),
+        lte(tenders.briefingDate, range.to),
+      ),
+    ),
+  );
+}
+
+/**
+ * Deadline tenders closing on or after `since`. Shown on the bookmarks
+ * page and published in the user's calendar feed.
+ */
+export async function getBookmarkedTenders(userId: string, since: Date) {
+  return selectUserDeadlineTenders(userId, gte(tenders.closingDate, since));
+}
+
+export type DeadlineTender = Awaited<
+  ReturnType<typeof getUserDeadlineTenders>
+>[number];
+
+/**
+ * Open tenders closing soon for every user who tracks them or bookmarked
+ * their publisher, with each user's reminder preferences.
+ */
+async function getReminderCandidates(now: Date) {
+  const windowEnd = new Date(
+    now.getTime() + REMINDER_WINDOW_DAYS * 24 * 60 * 60 * 1000,
+  );
+  const tenderFilter = and(
+    eq(tenders.status, "open"),
+    gt(tenders.closingDate, now),
+    lte(tenders.closingDate, windowEnd),
+  );
+
+  const fields = {
+    userId: user.id,
+    userName: user.name,
+    userEmail: user.email,
+    remindersEnabled: emailPreferences.tenderReminders,
+    leadDays: emailPreferences.tenderReminderLeadDays,
+    unsubscribedAt: emailPreferences.unsubscribedAt,
+    tenderId: tenders.id,
+    title: tenders.title,
+    referenceNumber: tenders.referenceNumber,
+    closingDate: tenders.closingDate,
+    briefingDate: tenders.briefingDate,
+    sourceUrl: tenders.sourceUrl,
+    publisherName: publishers.name,
+  };
+
+  const [tracked, bookmarked] = await Promise.all([
+    db
+      .select(fields)
+      .from(trackedTenders)
+      .innerJoin(tenders, eq(trackedTenders.tenderId, tenders.id))
+      .innerJoin(publishers, eq(tenders.publisherId, publishers.id))
+      .innerJoin(user, eq(trackedTenders.userId, user.id))
+      .leftJoin(emailPreferences, eq(emailPreferences.userId, user.id))
+      .where(tenderFilter),
+    db
+      .select(fields)
+      .from(userBookmarks)
+      .innerJoin(tenders, eq(userBookmarks.publisherId, tenders.publisherId))
+      .innerJoin(publishers, eq(tenders.publisherId, publishers.id))
+      .innerJoin(user, eq(userBookmarks.userId, user.id))
+      .leftJoin(emailPreferences, eq(emailPreferences.userId, user.id))
+      .where(tenderFilter),
+  ]);
+
+  // A tender can be both tracked and from a bookmarked publisher
+  const candidates = new Map<string, (typeof tracked)[number]>();
+  for (const row of [...tracked, ...bookmarked]) {
+    candidates.set(`${row.userId}:${row.tenderId}`, row);
+  }
+  return [...candidates.values()];
+}
+
+/**
+ * Reminder keys already delivered, per user, from the email delivery log.
+ */
+async function getSentReminderKeys(now: Date) {
+  const sent = await db
+    .select({
+      userId: emailDeliveryLog.userId,
+      metadata: emailDeliveryLog.metadata,
+    })
+    .from(emailDeliveryLog)
+    .where(
+      and(
+        eq(emailDeliveryLog.emailType, REMINDER_EMAIL_TYPE),
+        eq(emailDeliveryLog.status, "sent"),
+        gte(emailDeliveryLog.sentAt, subDays(now, REMINDER_WINDOW_DAYS * 2)),
+      ),
+    );
+
+  const keys = new Set<string>();
+  for (const entry of sent) {
+    const reminderKey = (entry.metadata as { reminderKey?: string } | null)
+      ?.reminderKey;
+    if (entry.userId && reminderKey) keys.add(`${entry.userId}|${reminderKey}`);
+  }
+  return keys;
+}
+
+/**
+ * Send every closing-date reminder that is due and has not been sent yet.
+ */
+export async function sendTenderReminders(now = new Date()) {
+  const [candidates, sentKeys] = await Promise.all([
+    getReminderCandidates(now),
+    getSentReminderKeys(now),
+  ]);
+
+  const result = { candidates: candidates.length, sent: 0, failed: 0 };
+
+  for (const candidate of candidates) {
+    // Users without a preferences row get the defaults
+    if (candidate.remindersEnabled === false || candidate.unsubscribedAt) {
+      continue;
+    }
+
+    const leadDays = pickDueReminder(
+      candidate.closingDate,
+      candidate.leadDays ?? DEFAULT_REMINDER_LEAD_DAYS,
+      now,
+    );
+    if (leadDays === null) continue;
+
+    const reminderKey = getReminderKey(
+      candidate.tenderId,
+      candidate.closingDate,
+      leadDays,
+    );
+    if (sentKeys.has(`${candidate.userId}|${reminderKey}`)) continue;
+
+    try {
+      const delivery = await sendTenderReminderEmail({
+        to: candidate.userEmail,
+        userName: candidate.userName,
+        userId: candidate.userId,
+        tender: {
+          id: candidate.tenderId,
+          title: candidate.title,
+          referenceNumber: candidate.referenceNumber,
+          publisherName: candidate.publisherName,
+          closingDate: formatSastDateTime(candidate.closingDate),
+          briefingDate:
+            candidate.briefingDate && candidate.briefingDate > now
+              ? formatSastDateTime(candidate.briefingDate)
+              : null,
+          url: candidate.sourceUrl,
+        },
+        leadDays,
+        reminderKey,
+        calendarUrl: `${APP_URL}/dashboard/calendar`,
+        unsubscribeUrl: await getUnsubscribeUrl(
+          candidate.userId,
+          "tenderReminders",
+          APP_URL,
+        ),
+      });
+
+      if (delivery.success) {
+        sentKeys.add(`${candidate.userId}|${reminderKey}`);
+        result.sent++;
+      } else {
+        result.failed++;
+      }
+    } catch (error) {
+      result.failed++;
+      logError(
+        createAppError("Failed to send tender reminder", {
+          code: "TENDER_REMINDER_FAILED",
+          details: {
+            userId: candidate.userId,
+            tenderId: candidate.tenderId,
+            leadDays,
+            originalError: error,
+          },
+        }),
+        "medium",
+      );
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,288 @@
+/**
+ * Tender ingestion
+ *
+ * Fetches each configured tender source, parses it with the matching
+ * parser from tender-parsers.ts and upserts the results into `tenders`,
+ * deduplicating by reference number per publisher. Every run is recorded
+ * in `tender_ingestion_runs` with found/new/updated/failed counts.
+ */
+
+import { and, desc, eq, inArray } from "drizzle-orm";
+import { db } from "@/db";
+import {
+  publishers,
+  type TenderSource,
+  tenderIngestionRuns,
+  tenderSources,
+  tenders,
+} from "@/db/schema";
+import { createAppError, logError, retryWithBackoff } from "@/lib/error-utils";
+import {
+  type ParsedTender,
+  parseTenderSource,
+  type TenderSourceConfig,
+} from "@/lib/tender-parsers";
+
+const FETCH_TIMEOUT_MS = 30_000;
+const USER_AGENT = "TenderHub-Ingestion/1.0";
+
+export type IngestionStatus = "success" | "partial" | "failed";
+
+export interface IngestionReport {
+  sourceId: string;
+  sourceName: string;
+  publisherId: string;
+  status: IngestionStatus;
+  found: number;
+  created: number;
+  updated: number;
+  failed: number;
+  errors: string[];
+  startedAt: Date;
+  completedAt: Date;
+  dryRun: boolean;
+}
+
+export interface IngestionOptions {
+  // Use this document instead of fetching the source URL (offline runs)
+  body?: string;
+  // Parse and compare without writing tenders or run history
+  dryRun?: boolean;
+}
+
+/**
+ * Fetch a source document, retrying transient network failures.
+ */
+export async function fetchSourceDocument(url: string) {
+  return retryWithBackoff(
+    async () => {
+      const response = await fetch(url, {
+        headers: { "User-Agent": USER_AGENT },
+        signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status} fetching ${url}`);
+      }
+      return response.text();
+    },
+    {
+      maxRetries: 2,
+      shouldRetry: (error) => !error.message.startsWith("HTTP 4"),
+    },
+  );
+}
+
+/**
+ * Keep the first occurrence of each reference number; feeds often repeat
+ * an item when it is amended.
+ */
+export function dedupeByReference(items: ParsedTender[]) {
+  const seen = new Map<string, ParsedTender>();
+  for (const item of items) {
+    const key = item.referenceNumber.toLowerCase();
+    if (!seen.has(key)) seen.set(key, item);
+  }
+  return [...seen.values()];
+}
+
+function hasChanges(
+  existing: typeof tenders.$inferSelect,
+  incoming: ParsedTender,
+) {
+  return (
+    existing.title !== incoming.title ||
+    (existing.description ?? null) !== incoming.description ||
+    existing.closingDate.getTime() !== incoming.closingDate.getTime() ||
+    (existing.briefingDate?.getTime() ?? null) !==
+      (incoming.briefingDate?.getTime() ?? null) ||
+    (existing.sourceUrl ?? null) !== incoming.url
+  );
+}
+
+/**
+ * Run ingestion for a single source and record the run report.
+ */
+export async function ingestTenderSource(
+  source: TenderSource,
+  options: IngestionOptions = {},
+): Promise<IngestionReport> {
+  const startedAt = new Date();
+  const report: IngestionReport = {
+    sourceId: source.id,
+    sourceName: source.name,
+    publisherId: source.publisherId,
+    status: "success",
+    found: 0,
+    created: 0,
+    updated: 0,
+    failed: 0,
+    errors: [],
+    startedAt,
+    completedAt: startedAt,
+    dryRun: options.dryRun ?? false,
+  };
+
+  try {
+    const [publisher] = await db
+      .select({ provinceId: publishers.province_id })
+      .from(publishers)
+      .where(eq(publishers.id, source.publisherId))
+      .limit(1);
+
+    if (!publisher) {
+      throw new Error(`Publisher ${source.publisherId} not found`);
+    }
+
+    const body = options.body ?? (await fetchSourceDocument(source.url));
+    const parsed = parseTenderSource(
+      source.type,
+      body,
+      source.config as TenderSourceConfig,
+      source.url,
+    );
+
+    const items = dedupeByReference(parsed.tenders);
+    report.found = items.length + parsed.errors.length;
+    report.failed = parsed.errors.length;
+    report.errors.push(...parsed.errors);
+
+    const existingTenders =
+      items.length > 0
+        ? await db
+            .select()
+            .from(tenders)
+            .where(
+              and(
+                eq(tenders.publisherId, source.publisherId),
+                inArray(
+                  tenders.referenceNumber,
+                  items.map((item) => item.referenceNumber),
+                ),
+              ),
+            )
+        : [];
+    const existingByReference = new Map(
+      existingTenders.map((tender) => [tender.referenceNumber, tender]),
+    );
+
+    const now = new Date();
+    for (const item of items) {
+      const existing = existingByReference.get(item.referenceNumber);
+      try {
+        if (existing) {
+          if (!hasChanges(existing, item)) continue;
+          if (!options.dryRun) {
+            await db
+              .update(tenders)
+              .set({
+                title: item.title,
+                description: item.description,
+                closingDate: item.closingDate,
+                briefingDate: item.briefingDate,
+                sourceUrl: item.url,
+                sourceId: source.id,
+              })
+              .where(eq(tenders.id, existing.id));
+          }
+          report.updated++;
+        } else {
+          if (!options.dryRun) {
+            await db.insert(tenders).values({
+              referenceNumber: item.referenceNumber,
+              title: item.title,
+              description: item.description,
+              closingDate: item.closingDate,
+              briefingDate: item.briefingDate,
+              publisherId: source.publisherId,
+              provinceId: publisher.provinceId,
+              status: item.closingDate < now ? "closed" : "open",
+              sourceUrl: item.url,
+              sourceId: source.id,
+            });
+          }
+          report.created++;
+        }
+      } catch (error) {
+        report.failed++;
+        report.errors.push(
+          `${item.referenceNumber}: ${error instanceof Error ? error.message : "Unknown error"}`,
+        );
+      }
+    }
+
+    report.status = report.failed > 0 ? "partial" : "success";
+  } catch (error) {
+    report.status = "failed";
+    report.errors.push(
+      error instanceof Error ? error.message : "Unknown ingestion error",
+    );
+    logError(
+      createAppError(`Tender ingestion failed for source ${source.name}`, {
+        code: "INGESTION_FAILED",
+        details: { sourceId: source.id, url: source.url, originalError: error },
+      }),
+      "medium",
+    );
+  }
+
+  report.completedAt = new Date();
+
+  if (!report.dryRun) {
+    await db.insert(tenderIngestionRuns).values({
+      sourceId: source.id,
+      status: report.status,
+      found: report.found,
+      created: report.created,
+      updated: report.updated,
+      failed: report.failed,
+      errors: report.errors.length > 0 ? report.errors : null,
+      startedAt: report.startedAt,
+      completedAt: report.completedAt,
+    });
+    await db
+      .update(tenderSources)
+      .set({ lastRunAt: report.completedAt })
+      .where(eq(tenderSources.id, source.id));
+  }
+
+  return report;
+}
+
+/**
+ * Run ingestion for every enabled source, or a single source by id.
+ * Sources are processed one at a time to stay polite to publisher sites.
+ */
+export async function runTenderIngestion(
+  options: IngestionOptions & { sourceId?: string } = {},
+) {
+  const sources = await db
+    .select()
+    .from(tenderSources)
+    .where(
+      options.sourceId
+        ? eq(tenderSources.id, options.sourceId)
+        : eq(tenderSources.enabled, true),
+    );
+
+  if (options.sourceId && sources.length === 0) {
+    throw new Error(`Tender source ${options.sourceId} not found`);
+  }
+
+  const reports: IngestionReport[] = [];
+  for (const source of sources) {
+    reports.push(await ingestTenderSource(source, options));
+  }
+  return reports;
+}
+
+/**
+ * Most recent ingestion runs for a source, newest first.
+ */
+export async function getRecentIngestionRuns(sourceId: string, limit = 10) {
+  return db
+    .select()
+    .from(tenderIngestionRuns)
+    .where(eq(tenderIngestionRuns.sourceId, sourceId))
+    .orderBy(desc(tenderIngestionRuns.startedAt))
+    .limit(limit);
+}
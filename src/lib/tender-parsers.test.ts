@@ -0,0 +1,260 @@
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { describe, it } from "node:test";
+import {
+  normalizeTender,
+  parseTenderDate,
+  parseTenderSource,
+} from "./tender-parsers";
+
+// Saved publisher documents; parsers must never need the network
+function fixture(name: string) {
+  return readFileSync(
+    join(__dirname, "fixtures", "tender-sources", name),
+    "utf8",
+  );
+}
+
+describe("parseTenderSource", () => {
+  it("parses RSS items with reference and closing date patterns", () => {
+    const result = parseTenderSource(
+      "rss",
+      fixture("rss-feed.xml"),
+      {
+        referencePattern: "^(GT/[A-Z]+/\\d+/\\d{4})",
+        closingDatePattern: "Closing date: (\\S+?)\\.?(?:\\s|$)",
+      },
+      "https://www.gauteng.gov.za/tenders",
+    );
+
+    assert.equal(result.tenders.length, 2);
+    assert.deepEqual(result.tenders[0], {
+      referenceNumber: "GT/GDRT/045/2026",
+      title:
+        "GT/GDRT/045/2026 - Rehabilitation of Road K46 (William Nicol Drive)",
+      description:
+        "Rehabilitation of Road K46. Closing date: 2026-03-14T11:00:00+02:00. Compulsory briefing session at the Koedoespoort depot.",
+      closingDate: new Date("2026-03-14T09:00:00Z"),
+      briefingDate: null,
+      url: "https://www.gauteng.gov.za/tenders/gt-gdrt-045-2026",
+    });
+    assert.equal(result.tenders[1].referenceNumber, "GT/GDRT/046/2026");
+    assert.deepEqual(result.errors, [
+      "Missing reference number (Notice: office closed over Easter)",
+    ]);
+  });
+
+  it("falls back to the RSS guid and reads namespaced fields", () => {
+    const result = parseTenderSource(
+      "rss",
+      fixture("rss-feed.xml"),
+      {
+        fields: { closingDate: "dc:date" },
+      },
+      "https://www.gauteng.gov.za/tenders",
+    );
+
+    assert.equal(result.tenders.length, 1);
+    assert.equal(
+      result.tenders[0].referenceNumber,
+      "https://www.gauteng.gov.za/tenders/45",
+    );
+    assert.deepEqual(
+      result.tenders[0].closingDate,
+      new Date("2026-02-10T06:00:00Z"),
+    );
+    assert.equal(result.errors.length, 2);
+  });
+
+  it("parses Atom entries and resolves relative links", () => {
+    const result = parseTenderSource(
+      "atom",
+      fixture("atom-feed.xml"),
+      {
+        referencePattern: "^([A-Z]+\\d+[A-Z]*):",
+        closingDatePattern: "Closing (\\S+?)\\.?$",
+      },
+      "https://tenderbulletin.eskom.co.za/feed",
+    );
+
+    assert.deepEqual(result.errors, []);
+    assert.deepEqual(
+      result.tenders.map((tender) => [
+        tender.referenceNumber,
+        tender.closingDate.toISOString(),
+        tender.url,
+      ]),
+      [
+        [
+          "MWP1234GX",
+          "2026-04-02T10:00:00.000Z",
+          "https://tenderbulletin.eskom.co.za/tender/MWP1234GX",
+        ],
+        [
+          "CORP5678",
+          "2026-03-30T10:00:00.000Z",
+          "https://tenderbulletin.eskom.co.za/tender/CORP5678",
+        ],
+      ],
+    );
+  });
+
+  it("maps JSON dot paths onto tender fields", () => {
+    const result = parseTenderSource(
+      "json",
+      fixture("json-endpoint.json"),
+      {
+        itemsPath: "data.tenders",
+        fields: {
+          referenceNumber: "tender_no",
+          title: "name",
+          description: "details.summary",
+          closingDate: "closes",
+          briefingDate: "briefing",
+          url: "link",
+        },
+      },
+      "https://www.nra.co.za",
+    );
+
+    assert.equal(result.tenders.length, 2);
+    assert.deepEqual(result.tenders[0], {
+      referenceNumber: "SANRAL N.001-020-2026/1",
+      title: "Routine road maintenance on National Route N1 Section 20",
+      description: "Routine road maintenance for 36 months.",
+      closingDate: new Date("2026-03-25T09:00:00Z"),
+      briefingDate: new Date("2026-03-04T08:00:00Z"),
+      url: "https://www.nra.co.za/tenders/n001-020",
+    });
+    assert.equal(result.tenders[1].description, null);
+    assert.equal(
+      result.tenders[1].url,
+      "https://www.nra.co.za/tenders/n003-050",
+    );
+    assert.deepEqual(result.errors, [
+      'Missing or invalid closing date "TBC" (SANRAL N.004-010-2026/1)',
+    ]);
+  });
+
+  it("rejects JSON without an array at the items path", () => {
+    assert.throws(
+      () =>
+        parseTenderSource(
+          "json",
+          fixture("json-endpoint.json"),
+          { itemsPath: "meta" },
+          "https://www.nra.co.za",
+        ),
+      /No array found at "meta"/,
+    );
+    assert.throws(
+      () => parseTenderSource("json", "<html>", {}, "https://www.nra.co.za"),
+      /Invalid JSON/,
+    );
+  });
+
+  it("parses HTML rows with selectors, attributes and a date format", () => {
+    const result = parseTenderSource(
+      "html",
+      fixture("html-page.html"),
+      {
+        itemSelector: "table.tenders tr.tender",
+        fields: {
+          referenceNumber: "@data-ref",
+          title: "td.title",
+          closingDate: "td.closing",
+        },
+        dateFormat: "dd/MM/yyyy HH:mm",
+      },
+      "https://web1.capetown.gov.za/web1/tenderportal",
+    );
+
+    assert.deepEqual(
+      result.tenders.map((tender) => ({
+        referenceNumber: tender.referenceNumber,
+        title: tender.title,
+        closingDate: tender.closingDate,
+        url: tender.url,
+      })),
+      [
+        {
+          referenceNumber: "101S/2025/26",
+          title: "Supply and delivery of water meters",
+          closingDate: new Date(2026, 2, 14, 10, 0),
+          url: "https://web1.capetown.gov.za/tenders/101S-2025-26.pdf",
+        },
+        {
+          referenceNumber: "205Q/2025/26",
+          title: "Cleaning of stormwater culverts in Khayelitsha",
+          closingDate: new Date(2026, 2, 21, 10, 0),
+          url: "https://web1.capetown.gov.za/tenders/205Q.pdf",
+        },
+      ],
+    );
+    // The spacer row is skipped, the row without a number is reported
+    assert.deepEqual(result.errors, [
+      "Missing reference number (Tender without a number)",
+    ]);
+  });
+
+  it("requires an item selector for HTML sources", () => {
+    assert.throws(
+      () =>
+        parseTenderSource(
+          "html",
+          fixture("html-page.html"),
+          {},
+          "https://web1.capetown.gov.za",
+        ),
+      /itemSelector/,
+    );
+  });
+});
+
+describe("parseTenderDate", () => {
+  it("parses ISO and RFC 822 dates without a format", () => {
+    assert.deepEqual(
+      parseTenderDate("2026-03-14T11:00:00+02:00"),
+      new Date("2026-03-14T09:00:00Z"),
+    );
+    assert.deepEqual(
+      parseTenderDate("Sat, 14 Mar 2026 09:00:00 GMT"),
+      new Date("2026-03-14T09:00:00Z"),
+    );
+  });
+
+  it("returns null for missing or unparseable dates", () => {
+    assert.equal(parseTenderDate(null), null);
+    assert.equal(parseTenderDate("next Friday"), null);
+    assert.equal(parseTenderDate("31/02/2026", "dd/MM/yyyy"), null);
+  });
+});
+
+describe("normalizeTender", () => {
+  it("reports a missing title before other fields", () => {
+    assert.deepEqual(
+      normalizeTender(
+        { referenceNumber: "ABC/1", closingDate: "2026-03-14" },
+        {},
+        "https://example.gov.za",
+      ),
+      { error: "Missing title (ABC/1)" },
+    );
+  });
+
+  it("drops URLs that cannot be resolved", () => {
+    const result = normalizeTender(
+      {
+        referenceNumber: "ABC/1",
+        title: "Tender",
+        closingDate: "2026-03-14",
+        url: "http://[invalid",
+      },
+      {},
+      "https://example.gov.za",
+    );
+    assert.ok("tender" in result);
+    assert.equal(result.tender.url, null);
+  });
+});
@@ -0,0 +1,361 @@
+/**
+ * Tender source parsers
+ *
+ * Pure functions that turn a fetched document (RSS/Atom XML, JSON or HTML)
+ * into tender records. They never touch the network or the database, so
+ * they can be run against saved fixtures offline.
+ */
+
+import { type CheerioAPI, load } from "cheerio";
+import { parse as parseWithFormat } from "date-fns";
+import type { TenderSourceType } from "@/db/schema";
+
+// Fields a source can map onto a tender
+export type TenderField =
+  | "referenceNumber"
+  | "title"
+  | "description"
+  | "closingDate"
+  | "briefingDate"
+  | "url";
+
+/**
+ * Parser settings stored in `tender_sources.config`.
+ *
+ * - rss/atom: `fields` name child elements of each item/entry
+ * - json: `itemsPath` is a dot path to the array, `fields` are dot paths
+ * - html: `itemSelector` selects each row, `fields` are CSS selectors,
+ *   optionally suffixed with `@attr` to read an attribute
+ */
+export interface TenderSourceConfig {
+  itemsPath?: string;
+  itemSelector?: string;
+  fields?: Partial<Record<TenderField, string>>;
+  // Regex applied to the reference/title/description to extract the reference
+  referencePattern?: string;
+  // Regex applied to the closing date/description to extract the date text
+  closingDatePattern?: string;
+  // date-fns format string for non-ISO dates, e.g. "dd/MM/yyyy HH:mm"
+  dateFormat?: string;
+}
+
+export interface ParsedTender {
+  referenceNumber: string;
+  title: string;
+  description: string | null;
+  closingDate: Date;
+  briefingDate: Date | null;
+  url: string | null;
+}
+
+export interface ParseResult {
+  tenders: ParsedTender[];
+  // Items that were found but could not be mapped to a tender
+  errors: string[];
+}
+
+export type TenderParser = (
+  body: string,
+  config: TenderSourceConfig,
+  baseUrl: string,
+) => ParseResult;
+
+type RawTender = Partial<Record<TenderField, string | null>>;
+
+// A selection of parsed nodes (cheerio does not export its node types)
+type ElementSelection = ReturnType<ReturnType<CheerioAPI["root"]>["contents"]>;
+
+function clean(value: string | null | undefined) {
+  const text = value?.replace(/\s+/g, " ").trim();
+  return text ? text : null;
+}
+
+function matchPattern(
+  pattern: string | undefined,
+  ...values: (string | null)[]
+) {
+  if (!pattern) return null;
+  const regex = new RegExp(pattern, "i");
+  for (const value of values) {
+    if (!value) continue;
+    const match = value.match(regex);
+    if (match) return clean(match[1] ?? match[0]);
+  }
+  return null;
+}
+
+function resolveUrl(value: string | null, baseUrl: string) {
+  if (!value) return null;
+  try {
+    return new URL(value, baseUrl).toString();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse a date as found on a publisher site. Uses `dateFormat` when given,
+ * otherwise anything `Date.parse` understands (ISO 8601, RFC 822).
+ */
+export function parseTenderDate(value: string | null, dateFormat?: string) {
+  if (!value) return null;
+  const date = dateFormat
+    ? parseWithFormat(value, dateFormat, new Date())
+    : new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Apply reference/date patterns to raw field values and validate the
+ * result. Returns an error message instead of a tender when a required
+ * field is missing.
+ */
+export function normalizeTender(
+  raw: RawTender,
+  config: TenderSourceConfig,
+  baseUrl: string,
+): { tender: ParsedTender } | { error: string } {
+  const title = clean(raw.title);
+  const description = clean(raw.description);
+
+  const referenceNumber = config.referencePattern
+    ? matchPattern(
+        config.referencePattern,
+        clean(raw.referenceNumber),
+        title,
+        description,
+      )
+    : clean(raw.referenceNumber);
+
+  const closingDateText = config.closingDatePattern
+    ? matchPattern(
+        config.closingDatePattern,
+        clean(raw.closingDate),
+        description,
+      )
+    : clean(raw.closingDate);
+
+  const label = title ?? referenceNumber ?? "untitled item";
+
+  if (!title) return { error: `Missing title (${label})` };
+  if (!referenceNumber) return { error: `Missing reference number (${label})` };
+
+  const closingDate = parseTenderDate(closingDateText, config.dateFormat);
+  if (!closingDate) {
+    return {
+      error: `Missing or invalid closing date "${closingDateText ?? ""}" (${referenceNumber})`,
+    };
+  }
+
+  return {
+    tender: {
+      referenceNumber,
+      title,
+      description,
+      closingDate,
+      briefingDate: parseTenderDate(clean(raw.briefingDate), config.dateFormat),
+      url: resolveUrl(clean(raw.url), baseUrl),
+    },
+  };
+}
+
+function collect(
+  rawItems: RawTender[],
+  config: TenderSourceConfig,
+  baseUrl: string,
+): ParseResult {
+  const result: ParseResult = { tenders: [], errors: [] };
+  for (const raw of rawItems) {
+    const normalized = normalizeTender(raw, config, baseUrl);
+    if ("error" in normalized) {
+      result.errors.push(normalized.error);
+    } else {
+      result.tenders.push(normalized.tender);
+    }
+  }
+  return result;
+}
+
+// Read a child element's text from a feed item, by configured or default name
+function childText(item: ElementSelection, names: (string | undefined)[]) {
+  for (const name of names) {
+    if (!name) continue;
+    // Escape namespace prefixes such as "dc:date" for the selector engine
+    const text = item.children(name.replace(/:/g, "\\:")).first().text();
+    if (text.trim()) return text;
+  }
+  return null;
+}
+
+/**
+ * RSS 2.0 feeds: one tender per `<item>`.
+ * Without a reference pattern the reference falls back to `<guid>`; the
+ * closing date usually comes from `closingDatePattern` on the description.
+ */
+export const parseRssFeed: TenderParser = (body, config, baseUrl) => {
+  const $ = load(body, { xml: true });
+  const fields = config.fields ?? {};
+  const rawItems = $("item")
+    .toArray()
+    .map((element) => {
+      const item = $(element);
+      return {
+        // A reference pattern targets the title, so skip the guid fallback
+        referenceNumber: childText(item, [
+          fields.referenceNumber,
+          config.referencePattern ? undefined : "guid",
+        ]),
+        title: childText(item, [fields.title, "title"]),
+        description: childText(item, [fields.description, "description"]),
+        closingDate: childText(item, [fields.closingDate]),
+        briefingDate: childText(item, [fields.briefingDate]),
+        url: childText(item, [fields.url, "link"]),
+      };
+    });
+  return collect(rawItems, config, baseUrl);
+};
+
+/**
+ * Atom feeds: one tender per `<entry>`, link taken from `<link href>`.
+ */
+export const parseAtomFeed: TenderParser = (body, config, baseUrl) => {
+  const $ = load(body, { xml: true });
+  const fields = config.fields ?? {};
+  const rawItems = $("entry")
+    .toArray()
+    .map((element) => {
+      const entry = $(element);
+      const link =
+        entry.children("link[rel='alternate']").attr("href") ??
+        entry.children("link").first().attr("href") ??
+        null;
+      return {
+        referenceNumber: childText(entry, [
+          fields.referenceNumber,
+          config.referencePattern ? undefined : "id",
+        ]),
+        title: childText(entry, [fields.title, "title"]),
+        description: childText(entry, [
+          fields.description,
+          "summary",
+          "content",
+        ]),
+        closingDate: childText(entry, [fields.closingDate]),
+        briefingDate: childText(entry, [fields.briefingDate]),
+        url: fields.url ? childText(entry, [fields.url]) : link,
+      };
+    });
+  return collect(rawItems, config, baseUrl);
+};
+
+function getPath(value: unknown, path: string | undefined): unknown {
+  if (!path) return value;
+  return path.split(".").reduce<unknown>((current, key) => {
+    if (current && typeof current === "object") {
+      return (current as Record<string, unknown>)[key];
+    }
+    return undefined;
+  }, value);
+}
+
+function toText(value: unknown) {
+  if (value === null || value === undefined) return null;
+  if (typeof value === "object") return null;
+  return String(value);
+}
+
+/**
+ * JSON endpoints: `itemsPath` locates the array, `fields` map dot paths
+ * inside each item onto tender fields.
+ */
+export const parseJsonEndpoint: TenderParser = (body, config, baseUrl) => {
+  let data: unknown;
+  try {
+    data = JSON.parse(body);
+  } catch (error) {
+    throw new Error(
+      `Invalid JSON: ${error instanceof Error ? error.message : "Unknown error"}`,
+    );
+  }
+
+  const items = getPath(data, config.itemsPath);
+  if (!Array.isArray(items)) {
+    throw new Error(
+      `No array found at "${config.itemsPath ?? "(root)"}" in JSON response`,
+    );
+  }
+
+  const fields = config.fields ?? {};
+  const rawItems = items.map((item) => ({
+    referenceNumber: toText(
+      getPath(item, fields.referenceNumber ?? "reference"),
+    ),
+    title: toText(getPath(item, fields.title ?? "title")),
+    description: toText(getPath(item, fields.description ?? "description")),
+    closingDate: toText(getPath(item, fields.closingDate ?? "closingDate")),
+    briefingDate: fields.briefingDate
+      ? toText(getPath(item, fields.briefingDate))
+      : null,
+    url: toText(getPath(item, fields.url ?? "url")),
+  }));
+  return collect(rawItems, config, baseUrl);
+};
+
+/**
+ * HTML pages: `itemSelector` selects each tender (usually a table row),
+ * `fields` are selectors relative to it. "a@href" reads an attribute,
+ * "@data-ref" reads an attribute of the item itself.
+ */
+export const parseHtmlPage: TenderParser = (body, config, baseUrl) => {
+  if (!config.itemSelector) {
+    throw new Error("HTML sources require an itemSelector");
+  }
+
+  const $ = load(body);
+  const fields = config.fields ?? {};
+
+  const read = (item: ElementSelection, spec: string | undefined) => {
+    if (spec === undefined) return null;
+    const [selector, attribute] = spec.split("@");
+    const target = selector.trim() ? item.find(selector).first() : item;
+    return attribute ? (target.attr(attribute) ?? null) : target.text();
+  };
+
+  const rawItems = $(config.itemSelector)
+    .toArray()
+    .map((element) => {
+      const item = $(element);
+      return {
+        referenceNumber: read(item, fields.referenceNumber),
+        title: read(item, fields.title),
+        description: read(item, fields.description),
+        closingDate: read(item, fields.closingDate),
+        briefingDate: read(item, fields.briefingDate),
+        url: read(item, fields.url ?? "a@href"),
+      };
+    })
+    // Skip header rows and spacer rows that carry no content
+    .filter((raw) => clean(raw.title) || clean(raw.referenceNumber));
+
+  return collect(rawItems, config, baseUrl);
+};
+
+// Parser registry; add a source type here to support a new format
+export const tenderParsers: Record<TenderSourceType, TenderParser> = {
+  rss: parseRssFeed,
+  atom: parseAtomFeed,
+  json: parseJsonEndpoint,
+  html: parseHtmlPage,
+};
+
+/**
+ * Parse a fetched document with the parser for the given source type.
+ */
+export function parseTenderSource(
+  type: TenderSourceType,
+  body: string,
+  config: TenderSourceConfig,
+  baseUrl: string,
+) {
+  return tenderParsers[type](body, config, baseUrl);
+}
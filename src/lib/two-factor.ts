@@ -0,0 +1,101 @@
+/**
+ * Two-factor authentication
+ *
+ * TOTP enrolment, verification and recovery codes are handled by the
+ * Better Auth two-factor plugin (see auth.ts). This module adds what the
+ * plugin leaves to the app: the `security.twoFactorRequiredRoles`
+ * setting, admin resets and audit logging of the plugin's endpoints.
+ */
+
+import { eq } from "drizzle-orm";
+import { db } from "@/db";
+import { twoFactor, user } from "@/db/schema";
+import { type AuditLogContext, AuditLogger } from "@/lib/audit-logger";
+import { getSystemSettings } from "@/lib/system-settings";
+
+export const TWO_FACTOR_ISSUER = "Tender Hub";
+
+/**
+ * Whether 2FA is required for the user: their role in the active
+ * organisation, or their account role, is in the required list.
+ */
+export async function isTwoFactorRequired(account: {
+  role?: string | null;
+  platformRole?: string | null;
+}) {
+  const { security } = await getSystemSettings();
+  const requiredRoles: string[] = security.twoFactorRequiredRoles;
+  return [account.role, account.platformRole].some(
+    (role) => !!role && requiredRoles.includes(role),
+  );
+}
+
+/**
+ * Whether the user must set up 2FA before using the app.
+ */
+export async function isTwoFactorEnrollmentRequired(account: {
+  role?: string | null;
+  platformRole?: string | null;
+  twoFactorEnabled?: boolean | null;
+}) {
+  return !account.twoFactorEnabled && (await isTwoFactorRequired(account));
+}
+
+/**
+ * Turn off 2FA for a user who lost their authenticator and recovery
+ * codes. They can sign in with their password and enrol again.
+ */
+export async function resetTwoFactor(
+  userId: string,
+  resetBy: string,
+  context: AuditLogContext,
+) {
+  await db.delete(twoFactor).where(eq(twoFactor.userId, userId));
+  await db
+    .update(user)
+    .set({ twoFactorEnabled: false })
+    .where(eq(user.id, userId));
+
+  await AuditLogger.logTwoFactorReset(userId, resetBy, context);
+}
+
+/**
+ * Audit a successful call to one of the plugin's endpoints. Called from
+ * the auth after-hook with the endpoint's response.
+ */
+export async function logTwoFactorRequest(
+  path: string,
+  response: unknown,
+  sessionUserId: string | undefined,
+  context: AuditLogContext,
+) {
+  const responseUser = (
+    response as { user?: { id: string; twoFactorEnabled?: boolean } } | null
+  )?.user;
+
+  switch (path) {
+    case "/two-factor/verify-totp":
+      if (!responseUser) return;
+      // The first confirmed code completes enrolment; users signing in
+      // already have 2FA turned on
+      if (responseUser.twoFactorEnabled) {
+        await AuditLogger.logTwoFactorVerified(responseUser.id, {
+          ...context,
+          metadata: { method: "totp" },
+        });
+      } else {
+        await AuditLogger.logTwoFactorEnabled(responseUser.id, context);
+      }
+      return;
+    case "/two-factor/verify-backup-code":
+      if (responseUser) {
+        await AuditLogger.logRecoveryCodeUsed(responseUser.id, context);
+      }
+      return;
+    case "/two-factor/disable":
+      if (sessionUserId) {
+        await AuditLogger.logTwoFactorDisabled(sessionUserId, context);
+      }
+      return;
+  }
+}
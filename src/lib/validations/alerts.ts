@@ -0,0 +1,93 @@
+import { z } from "zod";
+import { uuidSchema } from "./common";
+
+/**
+ * Monitoring alert rule and incident validation schemas
+ */
+
+export const ALERT_SEVERITIES = ["low", "medium", "high", "critical"] as const;
+export type AlertSeverity = (typeof ALERT_SEVERITIES)[number];
+
+export const ALERT_CHANNELS = ["email", "webhook", "sentry"] as const;
+export type AlertChannel = (typeof ALERT_CHANNELS)[number];
+
+export const ALERT_METRICS = {
+  error_count: "Errors in window",
+  error_rate: "Error rate (0-1)",
+  average_response_time: "Average response time (ms)",
+  affected_users: "Affected users",
+  backup_failures: "Consecutive backup failures",
+  restore_failures: "Failed database restores",
+} as const;
+export type AlertMetric = keyof typeof ALERT_METRICS;
+export const ALERT_METRIC_NAMES = Object.keys(ALERT_METRICS) as AlertMetric[];
+
+export const ALERT_OPERATORS = { gt: ">", gte: "≥" } as const;
+export type AlertOperator = keyof typeof ALERT_OPERATORS;
+
+// Windows the error monitor reports metrics over
+export const ALERT_TIME_WINDOWS = ["5m", "10m"] as const;
+
+export const ALERT_INCIDENT_STATUSES = [
+  "open",
+  "acknowledged",
+  "resolved",
+] as const;
+export type AlertIncidentStatus = (typeof ALERT_INCIDENT_STATUSES)[number];
+
+// Mute durations offered in the alerts panel, in hours
+export const ALERT_MUTE_HOURS = [1, 4, 24] as const;
+
+export const alertRuleFormSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(2, "Rule name must be at least 2 characters")
+    .max(100, "Rule name must be less than 100 characters"),
+  metric: z.enum(ALERT_METRIC_NAMES, { message: "Choose a metric" }),
+  operator: z.enum(["gt", "gte"]),
+  threshold: z.coerce
+    .number()
+    .nonnegative("Threshold cannot be negative")
+    .finite(),
+  timeWindow: z
+    .enum(ALERT_TIME_WINDOWS)
+    .nullish()
+    .transform((value) => value ?? null),
+  severity: z.enum(ALERT_SEVERITIES),
+  cooldownMinutes: z.coerce
+    .number()
+    .int("Cooldown must be a whole number of minutes")
+    .min(1, "Cooldown must be at least 1 minute")
+    .max(1440, "Cooldown must be a day or less"),
+  channels: z
+    .array(z.enum(ALERT_CHANNELS))
+    .min(1, "Choose at least one channel"),
+  enabled: z.boolean(),
+});
+
+export const alertMuteSchema = z.object({
+  ruleId: uuidSchema,
+  hours: z.coerce
+    .number()
+    .refine(
+      (hours) => (ALERT_MUTE_HOURS as readonly number[]).includes(hours),
+      "Choose a mute duration",
+    ),
+});
+
+// Type exports for TypeScript
+export type AlertRuleFormData = z.infer<typeof alertRuleFormSchema>;
+
+// Error messages specific to alerting
+export const alertErrorMessages = {
+  ruleNotFound: "Alert rule not found",
+  ruleNameTaken: "An alert rule with this name already exists",
+  incidentNotFound: "Alert incident not found",
+  alreadyResolved: "This incident is already resolved",
+  createFailed: "Failed to create alert rule",
+  updateFailed: "Failed to update alert rule",
+  deleteFailed: "Failed to delete alert rule",
+  incidentUpdateFailed: "Failed to update alert incident",
+  muteFailed: "Failed to mute alert rule",
+};
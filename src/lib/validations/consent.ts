@@ -0,0 +1,73 @@
+import { z } from "zod";
+
+/**
+ * Consent validation schemas and policy versions
+ */
+
+export const CONSENT_CATEGORIES = [
+  "necessary",
+  "analytics",
+  "marketing",
+] as const;
+
+export type ConsentCategory = (typeof CONSENT_CATEGORIES)[number];
+
+// Categories a user can decline. Necessary cookies and storage are always on
+export const OPTIONAL_CONSENT_CATEGORIES = ["analytics", "marketing"] as const;
+
+export type OptionalConsentCategory =
+  (typeof OPTIONAL_CONSENT_CATEGORIES)[number];
+
+export const CONSENT_CATEGORY_DETAILS: Record<
+  ConsentCategory,
+  { label: string; description: string }
+> = {
+  necessary: {
+    label: "Necessary",
+    description:
+      "Sign-in, security and your settings. The app does not work without these.",
+  },
+  analytics: {
+    label: "Analytics",
+    description:
+      "Pages you visit and how you use them, including the visit history synced to your account and shown to your manager as coverage.",
+  },
+  marketing: {
+    label: "Marketing",
+    description: "Product news and offers tailored to how you use Tender Hub.",
+  },
+};
+
+/**
+ * Every published consent policy, oldest first. Add a version whenever
+ * what a category covers changes; users are asked again for the latest.
+ */
+export const CONSENT_POLICY_VERSIONS = [
+  {
+    version: "1",
+    effectiveDate: "2026-10-01",
+    summary: "Opt-in sync of visit history to your account.",
+  },
+  {
+    version: "2",
+    effectiveDate: "2026-10-18",
+    summary:
+      "Separate analytics and marketing consent covering visit tracking, interactions and events.",
+  },
+] as const;
+
+export const CURRENT_CONSENT_POLICY_VERSION =
+  CONSENT_POLICY_VERSIONS[CONSENT_POLICY_VERSIONS.length - 1].version;
+
+export const consentPreferencesSchema = z.object({
+  analytics: z.boolean(),
+  marketing: z.boolean(),
+});
+
+// Type exports for TypeScript
+export type ConsentPreferences = z.infer<typeof consentPreferencesSchema>;
+
+// Error messages specific to consent
+export const consentErrorMessages = {
+  updateFailed: "Failed to save your privacy preferences",
+};
@@ -0,0 +1,36 @@
+import { z } from "zod";
+import { uuidSchema } from "./common";
+
+/**
+ * Coverage assignment validation schemas
+ */
+
+// Publishers nobody has visited for this many days are stale by default
+export const COVERAGE_STALE_DAYS = 30;
+
+// Stale periods a manager can pick on the coverage report
+export const COVERAGE_STALE_DAY_OPTIONS = [7, 14, 30, 60, 90] as const;
+
+export const memberCoverageSchema = z.object({
+  userId: z.string().min(1, "Member is required"),
+  publisherIds: z.array(uuidSchema).max(2000),
+  provinceIds: z.array(uuidSchema).max(100),
+});
+
+export const coverageReportSchema = z.object({
+  days: z.coerce
+    .number()
+    .int()
+    .min(1, "Days must be at least 1")
+    .max(365, "Days must be 365 or less")
+    .catch(COVERAGE_STALE_DAYS),
+});
+
+// Type exports for TypeScript
+export type MemberCoverageData = z.infer<typeof memberCoverageSchema>;
+
+// Error messages specific to coverage
+export const coverageErrorMessages = {
+  notMember: "That user is not a member of this organisation",
+  updateFailed: "Failed to update coverage",
+};
@@ -0,0 +1,56 @@
+import { z } from "zod";
+import { type Permissions, sanitizePermissions } from "@/lib/permissions";
+import { errorMessages, uuidSchema } from "./common";
+
+/**
+ * Custom role validation schemas
+ */
+
+// Custom roles may not work in the admin area, which assumes full control
+export const CUSTOM_ROLE_BASE_ROLES = ["manager", "user"] as const;
+
+// Permissions are submitted as "resource:action" checkbox values
+const permissionsSchema = z.array(z.string()).transform((values) => {
+  const grouped: Record<string, string[]> = {};
+  for (const value of values) {
+    const [resource, action] = value.split(":");
+    if (!resource || !action) continue;
+    grouped[resource] = [...(grouped[resource] ?? []), action];
+  }
+  return sanitizePermissions(grouped);
+});
+
+export const customRoleFormSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(2, errorMessages.tooShort("Role name", 2))
+    .max(50, errorMessages.tooLong("Role name", 50)),
+  description: z
+    .string()
+    .trim()
+    .max(200, errorMessages.tooLong("Description", 200))
+    .optional(),
+  baseRole: z.enum(CUSTOM_ROLE_BASE_ROLES),
+  permissions: permissionsSchema.refine(
+    (permissions: Permissions) => Object.keys(permissions).length > 0,
+    "Select at least one permission",
+  ),
+});
+
+export const customRoleIdSchema = z.object({
+  id: uuidSchema,
+});
+
+// Type exports for TypeScript
+export type CustomRoleFormData = z.infer<typeof customRoleFormSchema>;
+
+// Error messages specific to custom roles
+export const customRoleErrorMessages = {
+  duplicateName: "A role with this name already exists",
+  notFound: "Role not found",
+  saveFailed: "Failed to save role",
+  deleteFailed: "Failed to delete role",
+  heldRole: "You cannot change or assign a role you hold",
+  beyondOwnPermissions: "You can only grant permissions you hold yourself",
+};
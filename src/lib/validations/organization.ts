@@ -0,0 +1,28 @@
+import { z } from "zod";
+import { errorMessages, uuidSchema } from "./common";
+
+/**
+ * Organisation validation schemas
+ */
+
+export const organizationFormSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(2, errorMessages.tooShort("Organisation name", 2))
+    .max(100, errorMessages.tooLong("Organisation name", 100)),
+});
+
+export const switchOrganizationSchema = z.object({
+  organizationId: uuidSchema,
+});
+
+// Type exports for TypeScript
+export type OrganizationFormData = z.infer<typeof organizationFormSchema>;
+
+// Error messages specific to organisations
+export const organizationErrorMessages = {
+  notMember: "You are not a member of that organisation",
+  creationFailed: "Failed to create organisation",
+  switchFailed: "Failed to switch organisation",
+};
@@ -0,0 +1,63 @@
+import { z } from "zod";
+import { uuidSchema } from "./common";
+
+/**
+ * Personal data export and erasure validation schemas (POPIA/GDPR)
+ */
+
+export const ERASURE_REQUEST_STATUSES = [
+  "pending",
+  // Approved but the erasure has not finished; it can be retried
+  "approved",
+  "completed",
+  "rejected",
+  "cancelled",
+] as const;
+
+export type ErasureRequestStatus = (typeof ERASURE_REQUEST_STATUSES)[number];
+
+// Name and email domain an erased user is left with
+export const ERASED_USER_NAME = "Erased user";
+export const ERASED_EMAIL_DOMAIN = "erased.invalid";
+
+export const erasureRequestSchema = z.object({
+  reason: z
+    .string()
+    .trim()
+    .max(500, "Reason must be less than 500 characters")
+    .optional()
+    .transform((value) => value || null),
+});
+
+export const erasureReviewSchema = z
+  .object({
+    requestId: uuidSchema,
+    action: z.enum(["approve", "reject"]),
+    reason: z
+      .string()
+      .trim()
+      .max(500, "Reason must be less than 500 characters")
+      .optional(),
+  })
+  .refine((review) => review.action === "approve" || !!review.reason, {
+    message: "A reason is required when rejecting a request",
+    path: ["reason"],
+  });
+
+// Type exports for TypeScript
+export type ErasureRequestData = z.infer<typeof erasureRequestSchema>;
+export type ErasureReviewData = z.infer<typeof erasureReviewSchema>;
+
+// Error messages specific to personal data requests
+export const personalDataErrorMessages = {
+  exportFailed: "Failed to export your data",
+  requestPending: "You already have an erasure request awaiting review",
+  requestFailed: "Failed to submit erasure request",
+  notFound: "Erasure request not found",
+  notPending: "This request has already been reviewed",
+  ownRequest: "You cannot review your own erasure request",
+  outranked: "You cannot approve erasure for this member",
+  cancelFailed: "Failed to cancel erasure request",
+  reviewFailed: "Failed to review erasure request",
+  erasureFailed: "Erasure did not finish. Retry it from the request list",
+};
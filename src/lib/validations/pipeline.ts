@@ -0,0 +1,133 @@
+import { z } from "zod";
+import type { PipelineStage } from "@/db/schema";
+import { errorMessages, uuidSchema } from "./common";
+import { optionalDateString } from "./tender";
+
+/**
+ * Tender pipeline validation schemas
+ */
+
+// Board columns, left to right
+export const PIPELINE_STAGES = [
+  "identified",
+  "reviewing",
+  "bid",
+  "submitted",
+  "won",
+  "lost",
+  "no_bid",
+] as const satisfies readonly PipelineStage[];
+
+export const PIPELINE_STAGE_LABELS: Record<PipelineStage, string> = {
+  identified: "Identified",
+  reviewing: "Reviewing",
+  bid: "Bid",
+  submitted: "Submitted",
+  won: "Won",
+  lost: "Lost",
+  no_bid: "No-bid",
+};
+
+// Final stages; moving a card here records the outcome
+export const PIPELINE_OUTCOME_STAGES = [
+  "won",
+  "lost",
+  "no_bid",
+] as const satisfies readonly PipelineStage[];
+
+// Declining or losing a tender needs a reason for reporting
+export const PIPELINE_REASON_STAGES = [
+  "lost",
+  "no_bid",
+] as const satisfies readonly PipelineStage[];
+
+// Common reasons offered when declining or losing a tender
+export const PIPELINE_REASON_SUGGESTIONS: Record<
+  (typeof PIPELINE_REASON_STAGES)[number],
+  string[]
+> = {
+  no_bid: [
+    "Outside our capability",
+    "Not enough time to prepare",
+    "Not commercially viable",
+    "Compliance requirements not met",
+    "No capacity",
+  ],
+  lost: [
+    "Price too high",
+    "Lower functionality score",
+    "Disqualified on compliance",
+    "Awarded to incumbent",
+  ],
+};
+
+export const pipelineStageSchema = z.enum(PIPELINE_STAGES);
+
+export function requiresPipelineReason(stage: PipelineStage) {
+  return (PIPELINE_REASON_STAGES as readonly PipelineStage[]).includes(stage);
+}
+
+export const pipelineItemFormSchema = z
+  .object({
+    ownerId: z.string().optional().or(z.literal("")),
+    reviewDueDate: optionalDateString,
+    submissionDueDate: optionalDateString,
+    notes: z
+      .string()
+      .max(2000, errorMessages.tooLong("Notes", 2000))
+      .optional()
+      .or(z.literal("")),
+  })
+  .refine(
+    (data) =>
+      !data.reviewDueDate ||
+      !data.submissionDueDate ||
+      new Date(data.reviewDueDate) <= new Date(data.submissionDueDate),
+    {
+      message: "Review must be due before the submission",
+      path: ["submissionDueDate"],
+    },
+  );
+
+export const addToPipelineSchema = z.object({
+  tenderId: uuidSchema,
+});
+
+export const pipelineStageChangeSchema = z
+  .object({
+    id: uuidSchema,
+    stage: pipelineStageSchema,
+    reason: z
+      .string()
+      .trim()
+      .max(500, errorMessages.tooLong("Reason", 500))
+      .optional()
+      .or(z.literal("")),
+  })
+  .refine((data) => !requiresPipelineReason(data.stage) || !!data.reason, {
+    message: errorMessages.required("Reason"),
+    path: ["reason"],
+  });
+
+// Type exports for TypeScript
+export type PipelineItemFormData = z.infer<typeof pipelineItemFormSchema>;
+export type PipelineStageChangeData = z.infer<typeof pipelineStageChangeSchema>;
+
+// Default values for forms
+export const pipelineItemDefaultValues: PipelineItemFormData = {
+  ownerId: "",
+  reviewDueDate: "",
+  submissionDueDate: "",
+  notes: "",
+};
+
+// Error messages specific to the pipeline
+export const pipelineErrorMessages = {
+  itemNotFound: "Pipeline card not found",
+  alreadyInPipeline: "This tender is already on the pipeline board",
+  notAllowed: "You can only change cards you own",
+  addFailed: "Failed to add tender to the pipeline",
+  updateFailed: "Failed to update pipeline card",
+  moveFailed: "Failed to move pipeline card",
+  removeFailed: "Failed to remove pipeline card",
+};
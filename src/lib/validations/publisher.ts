@@ -1,5 +1,7 @@
 import { z } from "zod";
+import type { PublisherCategory } from "@/db/schema";
 import {
+  descriptionSchema,
   errorMessages,
   formDataTransforms,
   nameSchema,
@@ -11,11 +13,100 @@ import {
  * Publisher validation schemas
  */
 
-// Base publisher schema for form data
+export const PUBLISHER_CATEGORIES = [
+  "government",
+  "municipal",
+  "provincial",
+  "private",
+] as const satisfies readonly PublisherCategory[];
+
+export const publisherCategoryLabels: Record<PublisherCategory, string> = {
+  government: "National Government",
+  municipal: "Municipal",
+  provincial: "Provincial",
+  private: "Private Sector",
+};
+
+export function isPublisherCategory(value: string): value is PublisherCategory {
+  return (PUBLISHER_CATEGORIES as readonly string[]).includes(value);
+}
+
+export const MAX_PUBLISHER_TAGS = 10;
+const MAX_TAG_LENGTH = 30;
+
+/**
+ * Split comma-separated tag input into lowercase, de-duplicated tags.
+ */
+export function parsePublisherTags(input: string | string[]) {
+  const values = Array.isArray(input) ? input : input.split(",");
+  const tags = values
+    .map((tag) => tag.trim().toLowerCase().replace(/\s+/g, " "))
+    .filter(Boolean);
+  return [...new Set(tags)];
+}
+
+const optionalText = (field: string, max: number) =>
+  z
+    .string()
+    .trim()
+    .max(max, errorMessages.tooLong(field, max))
+    .optional()
+    .or(z.literal(""));
+
+// Category, description, tags, contact details, portal and logo
+const publisherDetailsShape = {
+  category: z.enum(PUBLISHER_CATEGORIES).optional().or(z.literal("")),
+  description: descriptionSchema,
+  tags: z
+    .array(
+      z
+        .string()
+        .max(MAX_TAG_LENGTH, errorMessages.tooLong("Tag", MAX_TAG_LENGTH)),
+    )
+    .max(MAX_PUBLISHER_TAGS, `Use at most ${MAX_PUBLISHER_TAGS} tags`),
+  contactName: optionalText("Contact name", 100),
+  contactEmail: z
+    .string()
+    .trim()
+    .email("Invalid contact email address")
+    .optional()
+    .or(z.literal("")),
+  contactPhone: z
+    .string()
+    .trim()
+    .regex(/^[+]?[0-9\s\-()]+$/, "Invalid contact phone number")
+    .optional()
+    .or(z.literal("")),
+  procurementPortalUrl: websiteSchema,
+  logoUrl: websiteSchema,
+};
+
+// Details schema for API routes and server actions
+export const publisherDetailsSchema = z.object(publisherDetailsShape);
+
+// Base publisher schema for form data. Tags are typed comma-separated.
 export const publisherFormSchema = z.object({
   name: nameSchema,
   website: z.string().optional().or(z.literal("")),
   province_id: uuidSchema,
+  category: publisherDetailsShape.category,
+  description: z
+    .string()
+    .max(1000, errorMessages.tooLong("Description", 1000))
+    .optional()
+    .or(z.literal("")),
+  tags: z
+    .string()
+    .optional()
+    .refine(
+      (val) => parsePublisherTags(val ?? "").length <= MAX_PUBLISHER_TAGS,
+      `Use at most ${MAX_PUBLISHER_TAGS} tags`,
+    ),
+  contactName: publisherDetailsShape.contactName,
+  contactEmail: publisherDetailsShape.contactEmail,
+  contactPhone: publisherDetailsShape.contactPhone,
+  procurementPortalUrl: z.string().optional().or(z.literal("")),
+  logoUrl: z.string().optional().or(z.literal("")),
 });
 
 // Publisher creation schema (for server actions)
@@ -23,6 +114,7 @@ export const createPublisherSchema = z.object({
   name: nameSchema,
   website: websiteSchema,
   province_id: uuidSchema,
+  ...publisherDetailsShape,
 });
 
 // Publisher update schema (includes id)
@@ -31,6 +123,7 @@ export const updatePublisherSchema = z.object({
   name: nameSchema,
   website: websiteSchema,
   province_id: uuidSchema,
+  ...publisherDetailsShape,
 });
 
 // Publisher deletion schema
@@ -54,8 +147,63 @@ export const publisherEnhancedSchema = z.object({
   updatedAt: z.date().optional(),
 });
 
+/**
+ * Read publisher detail fields out of submitted FormData. Tags are
+ * submitted as repeated keys.
+ */
+export function publisherDetailsFormDataToObject(formData: FormData) {
+  return {
+    category: (formData.get("category") as string) ?? "",
+    description: (formData.get("description") as string) ?? "",
+    tags: parsePublisherTags(formData.getAll("tags") as string[]),
+    contactName: (formData.get("contactName") as string) ?? "",
+    contactEmail: (formData.get("contactEmail") as string) ?? "",
+    contactPhone: (formData.get("contactPhone") as string) ?? "",
+    procurementPortalUrl:
+      (formData.get("procurementPortalUrl") as string) ?? "",
+    logoUrl: (formData.get("logoUrl") as string) ?? "",
+  };
+}
+
+/**
+ * Map validated details to column values, storing blanks as null.
+ */
+export function toPublisherDetailsValues(data: PublisherDetailsData) {
+  return {
+    category: data.category || null,
+    description: data.description || null,
+    tags: data.tags,
+    contactName: data.contactName || null,
+    contactEmail: data.contactEmail?.toLowerCase() || null,
+    contactPhone: data.contactPhone || null,
+    procurementPortalUrl: data.procurementPortalUrl || null,
+    logoUrl: data.logoUrl || null,
+  };
+}
+
+/**
+ * Validate detail fields from FormData and map them to column values.
+ */
+export function parsePublisherDetails(
+  formData: FormData,
+):
+  | { error: string; field: string }
+  | { values: ReturnType<typeof toPublisherDetailsValues> } {
+  const parsed = publisherDetailsSchema.safeParse(
+    publisherDetailsFormDataToObject(formData),
+  );
+  if (!parsed.success) {
+    return {
+      error: parsed.error.issues[0].message,
+      field: parsed.error.issues[0].path.join("."),
+    };
+  }
+  return { values: toPublisherDetailsValues(parsed.data) };
+}
+
 // Type exports for TypeScript
 export type PublisherFormData = z.infer<typeof publisherFormSchema>;
+export type PublisherDetailsData = z.infer<typeof publisherDetailsSchema>;
 export type CreatePublisherData = z.infer<typeof createPublisherSchema>;
 export type UpdatePublisherData = z.infer<typeof updatePublisherSchema>;
 export type DeletePublisherData = z.infer<typeof deletePublisherSchema>;
@@ -122,11 +270,12 @@ export const publisherValidationHelpers = {
   /**
    * Transform form data for database insertion
    */
-  transformForCreate: (data: PublisherFormData) => {
+  transformForCreate: (data: CreatePublisherData) => {
     return {
       name: formDataTransforms.trimString(data.name),
       website: formDataTransforms.nullIfEmpty(data.website),
       province_id: data.province_id,
+      ...toPublisherDetailsValues(data),
     };
   },
 
@@ -139,6 +288,7 @@ export const publisherValidationHelpers = {
       name: formDataTransforms.trimString(data.name),
       website: formDataTransforms.nullIfEmpty(data.website),
       province_id: data.province_id,
+      ...toPublisherDetailsValues(data),
     };
   },
 
@@ -146,7 +296,7 @@ export const publisherValidationHelpers = {
    * Validate and transform form data in one step
    */
   validateAndTransformForCreate: (data: unknown) => {
-    const validatedData = publisherValidationHelpers.validateForm(data);
+    const validatedData = publisherValidationHelpers.validateCreate(data);
     return publisherValidationHelpers.transformForCreate(validatedData);
   },
 
@@ -164,6 +314,14 @@ export const publisherDefaultValues: Partial<PublisherFormData> = {
   name: "",
   website: "",
   province_id: "",
+  category: "",
+  description: "",
+  tags: "",
+  contactName: "",
+  contactEmail: "",
+  contactPhone: "",
+  procurementPortalUrl: "",
+  logoUrl: "",
 };
 
 // Error messages specific to publishers
@@ -0,0 +1,105 @@
+import { z } from "zod";
+
+/**
+ * Retention policy validation schemas
+ */
+
+// Policies run at most once per this many hours
+export const RETENTION_RUN_INTERVAL_HOURS = 24;
+
+export const RETENTION_MIN_DAYS = 1;
+export const RETENTION_MAX_DAYS = 3650;
+
+/**
+ * Tables a retention policy may delete from, with the named conditions
+ * each supports. Policies store a condition name, never SQL.
+ */
+export const RETENTION_TABLES = {
+  audit_log: { label: "Audit log", conditions: {} },
+  page_views: { label: "Page views", conditions: {} },
+  sessions: { label: "Tracking sessions", conditions: {} },
+  user_interactions: { label: "User interactions", conditions: {} },
+  events: { label: "Analytics events", conditions: {} },
+  analytics_access_log: {
+    label: "Analytics access log",
+    conditions: { successful: "Successful requests only" },
+  },
+  analytics_cache: { label: "Analytics cache", conditions: {} },
+  email_delivery_log: {
+    label: "Email delivery log",
+    conditions: { delivered: "Delivered emails only" },
+  },
+  publisher_link_checks: {
+    label: "Publisher link checks",
+    conditions: { healthy: "Healthy checks only" },
+  },
+  tender_ingestion_runs: { label: "Tender ingestion runs", conditions: {} },
+  invitation: {
+    label: "Invitations",
+    conditions: { resolved: "Accepted, expired or cancelled only" },
+  },
+  retention_policy_runs: { label: "Retention run history", conditions: {} },
+} as const satisfies Record<
+  string,
+  { label: string; conditions: Record<string, string> }
+>;
+
+export type RetentionTableName = keyof typeof RETENTION_TABLES;
+
+export const RETENTION_TABLE_NAMES = Object.keys(
+  RETENTION_TABLES,
+) as RetentionTableName[];
+
+export const retentionPolicyFormSchema = z
+  .object({
+    policyName: z
+      .string()
+      .trim()
+      .min(2, "Policy name must be at least 2 characters")
+      .max(100, "Policy name must be less than 100 characters"),
+    tableName: z.enum(RETENTION_TABLE_NAMES, {
+      message: "Choose a supported table",
+    }),
+    retentionDays: z.coerce
+      .number()
+      .int("Retention must be a whole number of days")
+      .min(
+        RETENTION_MIN_DAYS,
+        `Keep data for at least ${RETENTION_MIN_DAYS} day`,
+      )
+      .max(
+        RETENTION_MAX_DAYS,
+        `Retention must be ${RETENTION_MAX_DAYS} days or less`,
+      ),
+    condition: z
+      .string()
+      .trim()
+      .nullish()
+      .transform((value) => value || null),
+    enabled: z.boolean(),
+  })
+  .refine(
+    (policy) =>
+      !policy.condition ||
+      Object.hasOwn(
+        RETENTION_TABLES[policy.tableName].conditions,
+        policy.condition,
+      ),
+    {
+      message: "That condition is not available for this table",
+      path: ["condition"],
+    },
+  );
+
+// Type exports for TypeScript
+export type RetentionPolicyFormData = z.infer<typeof retentionPolicyFormSchema>;
+
+// Error messages specific to retention
+export const retentionErrorMessages = {
+  notFound: "Retention policy not found",
+  unsupportedTable: "This table is not covered by retention policies",
+  createFailed: "Failed to create retention policy",
+  updateFailed: "Failed to update retention policy",
+  deleteFailed: "Failed to delete retention policy",
+  runFailed: "Failed to run retention policy",
+};
@@ -0,0 +1,78 @@
+import { z } from "zod";
+import { errorMessages, uuidSchema } from "./common";
+import { optionalAmountString, TENDER_CATEGORIES } from "./tender";
+
+/**
+ * Saved search validation schemas
+ */
+
+export const savedSearchFormSchema = z
+  .object({
+    name: z
+      .string()
+      .trim()
+      .min(1, errorMessages.required("Search name"))
+      .max(100, errorMessages.tooLong("Search name", 100)),
+    keywords: z
+      .string()
+      .max(200, errorMessages.tooLong("Keywords", 200))
+      .optional()
+      .or(z.literal("")),
+    provinceIds: z.array(uuidSchema),
+    publisherIds: z.array(uuidSchema),
+    categories: z.array(z.enum(TENDER_CATEGORIES)),
+    minValue: optionalAmountString,
+    maxValue: optionalAmountString,
+    alertsEnabled: z.boolean(),
+  })
+  .refine(
+    (data) =>
+      !data.minValue ||
+      !data.maxValue ||
+      Number(data.minValue) <= Number(data.maxValue),
+    {
+      message: "Minimum value cannot be more than the maximum value",
+      path: ["maxValue"],
+    },
+  );
+
+// Type exports for TypeScript
+export type SavedSearchFormData = z.infer<typeof savedSearchFormSchema>;
+
+/**
+ * Read saved search fields out of submitted FormData. Multi-select fields
+ * are submitted as repeated keys.
+ */
+export function savedSearchFormDataToObject(formData: FormData) {
+  return {
+    name: (formData.get("name") as string) ?? "",
+    keywords: (formData.get("keywords") as string) ?? "",
+    provinceIds: formData.getAll("provinceIds") as string[],
+    publisherIds: formData.getAll("publisherIds") as string[],
+    categories: formData.getAll("categories") as string[],
+    minValue: (formData.get("minValue") as string) ?? "",
+    maxValue: (formData.get("maxValue") as string) ?? "",
+    alertsEnabled: formData.get("alertsEnabled") !== "false",
+  };
+}
+
+// Default values for forms
+export const savedSearchDefaultValues: SavedSearchFormData = {
+  name: "",
+  keywords: "",
+  provinceIds: [],
+  publisherIds: [],
+  categories: [],
+  minValue: "",
+  maxValue: "",
+  alertsEnabled: true,
+};
+
+// Error messages specific to saved searches
+export const savedSearchErrorMessages = {
+  searchNotFound: "Saved search not found",
+  limitReached: "You have reached the maximum number of saved searches",
+  creationFailed: "Failed to save search",
+  updateFailed: "Failed to update saved search",
+  deleteFailed: "Failed to delete saved search",
+};
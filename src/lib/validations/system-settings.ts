@@ -0,0 +1,88 @@
+import { z } from "zod";
+
+/**
+ * System settings validation schemas
+ */
+
+export const generalSettingsSchema = z.object({
+  siteName: z.string().trim().min(1).max(100),
+  siteDescription: z.string().trim().max(500),
+  maintenanceMode: z.boolean(),
+  registrationEnabled: z.boolean(),
+  // Email domains that may self-register; empty allows any domain
+  allowedSignupDomains: z
+    .array(
+      z
+        .string()
+        .trim()
+        .toLowerCase()
+        .regex(/^([a-z0-9-]+\.)+[a-z]{2,}$/, "Invalid email domain"),
+    )
+    .max(100),
+  emailVerificationRequired: z.boolean(),
+});
+
+export const securitySettingsSchema = z.object({
+  passwordMinLength: z.number().int().min(6).max(128),
+  sessionTimeout: z.number().int().min(1).max(720),
+  // 0 turns the account lockout off
+  maxLoginAttempts: z.number().int().min(0).max(100),
+  // Roles that must enrol in two-factor authentication
+  twoFactorRequiredRoles: z.array(
+    z.enum(["owner", "admin", "manager", "user"]),
+  ),
+  forcePasswordChange: z.boolean(),
+});
+
+export const databaseSettingsSchema = z.object({
+  backupFrequency: z.enum(["daily", "weekly", "monthly"]),
+  retentionDays: z.number().int().min(1).max(3650),
+  autoOptimize: z.boolean(),
+  monitoringEnabled: z.boolean(),
+});
+
+// Each category is optional and may be partial; omitted fields keep
+// their current value
+export const systemSettingsUpdateSchema = z
+  .object({
+    general: generalSettingsSchema.partial().optional(),
+    security: securitySettingsSchema.partial().optional(),
+    database: databaseSettingsSchema.partial().optional(),
+  })
+  .strict();
+
+// Type exports for TypeScript
+export type GeneralSettings = z.infer<typeof generalSettingsSchema>;
+export type SecuritySettings = z.infer<typeof securitySettingsSchema>;
+export type DatabaseSettings = z.infer<typeof databaseSettingsSchema>;
+export type SystemSettingsUpdate = z.infer<typeof systemSettingsUpdateSchema>;
+
+export interface SystemSettings {
+  general: GeneralSettings;
+  security: SecuritySettings;
+  database: DatabaseSettings;
+}
+
+export const defaultSystemSettings: SystemSettings = {
+  general: {
+    siteName: "Tender Hub",
+    siteDescription: "Professional tender and procurement platform",
+    maintenanceMode: false,
+    registrationEnabled: true,
+    allowedSignupDomains: [],
+    emailVerificationRequired: true,
+  },
+  security: {
+    passwordMinLength: 8,
+    sessionTimeout: 24,
+    maxLoginAttempts: 5,
+    twoFactorRequiredRoles: [],
+    forcePasswordChange: false,
+  },
+  database: {
+    backupFrequency: "daily",
+    retentionDays: 30,
+    autoOptimize: true,
+    monitoringEnabled: true,
+  },
+};
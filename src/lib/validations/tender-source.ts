@@ -0,0 +1,184 @@
+import { z } from "zod";
+import type { TenderSourceType } from "@/db/schema";
+import { errorMessages, uuidSchema } from "./common";
+
+/**
+ * Tender source validation schemas
+ */
+
+export const TENDER_SOURCE_TYPES = [
+  "rss",
+  "atom",
+  "json",
+  "html",
+] as const satisfies readonly TenderSourceType[];
+
+// Regex strings are compiled by the parsers, so reject invalid ones up front
+const regexString = z
+  .string()
+  .optional()
+  .refine((val) => {
+    if (!val) return true;
+    try {
+      new RegExp(val);
+      return true;
+    } catch {
+      return false;
+    }
+  }, "Invalid regular expression");
+
+const fieldSpec = z.string().trim().max(500).optional();
+
+// Parser configuration stored as JSON on the source
+export const tenderSourceConfigSchema = z.object({
+  itemsPath: z.string().trim().max(200).optional(),
+  itemSelector: z.string().trim().max(500).optional(),
+  fields: z
+    .object({
+      referenceNumber: fieldSpec,
+      title: fieldSpec,
+      description: fieldSpec,
+      closingDate: fieldSpec,
+      briefingDate: fieldSpec,
+      url: fieldSpec,
+    })
+    .optional(),
+  referencePattern: regexString,
+  closingDatePattern: regexString,
+  dateFormat: z.string().trim().max(50).optional(),
+});
+
+export const tenderSourceFormSchema = z
+  .object({
+    publisherId: uuidSchema,
+    name: z
+      .string()
+      .trim()
+      .min(1, errorMessages.required("Source name"))
+      .max(100, errorMessages.tooLong("Source name", 100)),
+    type: z.enum(TENDER_SOURCE_TYPES),
+    url: z.string().trim().url("Please enter a valid URL"),
+    config: tenderSourceConfigSchema,
+    enabled: z.boolean(),
+  })
+  .refine((data) => data.type !== "html" || !!data.config.itemSelector, {
+    message: "HTML sources require an item selector",
+    path: ["config", "itemSelector"],
+  });
+
+// Client form schema; the parser config is edited as JSON text
+export const tenderSourceFormInputSchema = z.object({
+  publisherId: uuidSchema,
+  name: z
+    .string()
+    .trim()
+    .min(1, errorMessages.required("Source name"))
+    .max(100, errorMessages.tooLong("Source name", 100)),
+  type: z.enum(TENDER_SOURCE_TYPES),
+  url: z.string().trim().url("Please enter a valid URL"),
+  configText: z.string().refine((val) => {
+    try {
+      return tenderSourceConfigSchema.safeParse(JSON.parse(val || "{}"))
+        .success;
+    } catch {
+      return false;
+    }
+  }, "Parser configuration must be a valid JSON object"),
+  enabled: z.boolean(),
+});
+
+// Type exports for TypeScript
+export type TenderSourceFormData = z.infer<typeof tenderSourceFormSchema>;
+export type TenderSourceFormInput = z.infer<typeof tenderSourceFormInputSchema>;
+
+/**
+ * Read tender source fields out of submitted FormData. The parser config
+ * is submitted as a JSON string.
+ */
+export function tenderSourceFormDataToObject(formData: FormData) {
+  const rawConfig = (formData.get("config") as string) || "{}";
+  let config: unknown;
+  try {
+    config = JSON.parse(rawConfig);
+  } catch {
+    config = null;
+  }
+
+  return {
+    publisherId: (formData.get("publisherId") as string) ?? "",
+    name: (formData.get("name") as string) ?? "",
+    type: (formData.get("type") as string) ?? "",
+    url: (formData.get("url") as string) ?? "",
+    config,
+    enabled: formData.get("enabled") !== "false",
+  };
+}
+
+// Default values for forms
+export const tenderSourceDefaultValues: TenderSourceFormInput = {
+  publisherId: "",
+  name: "",
+  type: "rss",
+  url: "",
+  configText: "{}",
+  enabled: true,
+};
+
+// Example parser configuration per source type, shown as a placeholder
+export const tenderSourceConfigExamples: Record<TenderSourceType, string> = {
+  rss: JSON.stringify(
+    {
+      referencePattern: "^([A-Z]+/\\d{4}/\\d+)",
+      closingDatePattern: "Closing:\\s*(\\d{2}/\\d{2}/\\d{4} \\d{2}:\\d{2})",
+      dateFormat: "dd/MM/yyyy HH:mm",
+    },
+    null,
+    2,
+  ),
+  atom: JSON.stringify({ closingDatePattern: "Closes (\\S+)" }, null, 2),
+  json: JSON.stringify(
+    {
+      itemsPath: "data.tenders",
+      fields: {
+        referenceNumber: "reference",
+        title: "title",
+        closingDate: "closing_date",
+        url: "document_url",
+      },
+    },
+    null,
+    2,
+  ),
+  html: JSON.stringify(
+    {
+      itemSelector: "table.tenders tbody tr",
+      fields: {
+        referenceNumber: "td:nth-child(1)",
+        title: "td:nth-child(2)",
+        closingDate: "td:nth-child(3)",
+        url: "a@href",
+      },
+      dateFormat: "dd MMMM yyyy",
+    },
+    null,
+    2,
+  ),
+};
+
+// Display labels for source types
+export const tenderSourceTypeLabels: Record<TenderSourceType, string> = {
+  rss: "RSS feed",
+  atom: "Atom feed",
+  json: "JSON endpoint",
+  html: "HTML page",
+};
+
+// Error messages specific to tender sources
+export const tenderSourceErrorMessages = {
+  sourceNotFound: "Tender source not found",
+  invalidConfig: "Parser configuration must be valid JSON",
+  creationFailed: "Failed to create tender source",
+  updateFailed: "Failed to update tender source",
+  deleteFailed: "Failed to delete tender source",
+  runFailed: "Failed to run tender ingestion",
+};
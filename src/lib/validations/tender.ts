@@ -0,0 +1,166 @@
+import { z } from "zod";
+import type { TenderStatus } from "@/db/schema";
+import { errorMessages, uuidSchema } from "./common";
+
+/**
+ * Tender validation schemas
+ */
+
+export const TENDER_STATUSES = [
+  "open",
+  "closed",
+  "cancelled",
+  "awarded",
+] as const satisfies readonly TenderStatus[];
+
+export const tenderStatusSchema = z.enum(TENDER_STATUSES);
+
+// Procurement categories used to classify tenders and filter saved searches
+export const TENDER_CATEGORIES = [
+  "construction",
+  "consulting",
+  "goods",
+  "services",
+  "ict",
+  "maintenance",
+  "security",
+  "cleaning",
+  "transport",
+  "other",
+] as const;
+
+export type TenderCategory = (typeof TENDER_CATEGORIES)[number];
+
+// Optional non-negative Rand amount entered as text, empty string allowed
+export const optionalAmountString = z
+  .string()
+  .optional()
+  .or(z.literal(""))
+  .refine(
+    (val) => !val || (!Number.isNaN(Number(val)) && Number(val) >= 0),
+    "Must be a positive amount",
+  );
+
+// Optional ISO/datetime-local string, empty string allowed
+export const optionalDateString = z
+  .string()
+  .optional()
+  .or(z.literal(""))
+  .refine((val) => !val || !Number.isNaN(Date.parse(val)), "Invalid date");
+
+// Base tender schema for form data
+export const tenderFormSchema = z
+  .object({
+    referenceNumber: z
+      .string()
+      .trim()
+      .min(1, errorMessages.required("Reference number"))
+      .max(100, errorMessages.tooLong("Reference number", 100)),
+    title: z
+      .string()
+      .trim()
+      .min(1, errorMessages.required("Title"))
+      .max(500, errorMessages.tooLong("Title", 500)),
+    description: z
+      .string()
+      .max(5000, errorMessages.tooLong("Description", 5000))
+      .optional()
+      .or(z.literal("")),
+    closingDate: z
+      .string()
+      .min(1, errorMessages.required("Closing date"))
+      .refine((val) => !Number.isNaN(Date.parse(val)), "Invalid closing date"),
+    briefingDate: optionalDateString,
+    briefingVenue: z
+      .string()
+      .max(500, errorMessages.tooLong("Briefing venue", 500))
+      .optional()
+      .or(z.literal("")),
+    briefingCompulsory: z.boolean(),
+    publisherId: uuidSchema,
+    provinceId: uuidSchema,
+    status: tenderStatusSchema,
+    category: z.enum(TENDER_CATEGORIES).optional().or(z.literal("")),
+    estimatedValue: optionalAmountString,
+  })
+  .refine(
+    (data) =>
+      !data.briefingDate ||
+      Date.parse(data.briefingDate) <= Date.parse(data.closingDate),
+    {
+      message: "Briefing session must be before the closing date",
+      path: ["briefingDate"],
+    },
+  );
+
+// Type exports for TypeScript
+export type TenderFormData = z.infer<typeof tenderFormSchema>;
+
+/**
+ * Read tender fields out of submitted FormData so they can be validated
+ * with tenderFormSchema on the server.
+ */
+export function tenderFormDataToObject(formData: FormData) {
+  return {
+    referenceNumber: (formData.get("referenceNumber") as string) ?? "",
+    title: (formData.get("title") as string) ?? "",
+    description: (formData.get("description") as string) ?? "",
+    closingDate: (formData.get("closingDate") as string) ?? "",
+    briefingDate: (formData.get("briefingDate") as string) ?? "",
+    briefingVenue: (formData.get("briefingVenue") as string) ?? "",
+    briefingCompulsory: formData.get("briefingCompulsory") === "true",
+    publisherId: (formData.get("publisherId") as string) ?? "",
+    provinceId: (formData.get("provinceId") as string) ?? "",
+    status: (formData.get("status") as string) ?? "open",
+    category: (formData.get("category") as string) ?? "",
+    estimatedValue: (formData.get("estimatedValue") as string) ?? "",
+  };
+}
+
+// Default values for forms
+export const tenderDefaultValues: TenderFormData = {
+  referenceNumber: "",
+  title: "",
+  description: "",
+  closingDate: "",
+  briefingDate: "",
+  briefingVenue: "",
+  briefingCompulsory: false,
+  publisherId: "",
+  provinceId: "",
+  status: "open",
+  category: "",
+  estimatedValue: "",
+};
+
+// Display labels for tender statuses
+export const tenderStatusLabels: Record<TenderStatus, string> = {
+  open: "Open",
+  closed: "Closed",
+  cancelled: "Cancelled",
+  awarded: "Awarded",
+};
+
+// Display labels for tender categories
+export const tenderCategoryLabels: Record<TenderCategory, string> = {
+  construction: "Construction",
+  consulting: "Consulting",
+  goods: "Goods & Supplies",
+  services: "General Services",
+  ict: "ICT",
+  maintenance: "Maintenance",
+  security: "Security",
+  cleaning: "Cleaning",
+  transport: "Transport",
+  other: "Other",
+};
+
+// Error messages specific to tenders
+export const tenderErrorMessages = {
+  tenderNotFound: "Tender not found",
+  duplicateReference:
+    "A tender with this reference number already exists for this publisher",
+  creationFailed: "Failed to create tender",
+  updateFailed: "Failed to update tender",
+  deleteFailed: "Failed to delete tender",
+};
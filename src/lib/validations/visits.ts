@@ -0,0 +1,50 @@
+import { z } from "zod";
+import { uuidSchema } from "./common";
+
+/**
+ * Visit history validation schemas
+ */
+
+// Visits sent to the server in one request
+export const VISIT_BATCH_SIZE = 50;
+
+// Visits older than the local cache's retention are not accepted
+export const VISIT_MAX_AGE_DAYS = 30;
+
+// Default range of the visit history page
+export const VISIT_HISTORY_DEFAULT_DAYS = 30;
+
+const dayPattern = /^\d{4}-\d{2}-\d{2}$/;
+
+export const visitSchema = z.object({
+  id: uuidSchema,
+  url: z.string().min(1).max(2048),
+  title: z.string().max(500).optional(),
+  timestamp: z.number().int().positive(),
+  viewportWidth: z.number().int().min(0).max(20000).optional(),
+  viewportHeight: z.number().int().min(0).max(20000).optional(),
+});
+
+export const visitBatchSchema = z.object({
+  sessionId: z.string().min(1).max(100),
+  screenResolution: z.string().max(20).optional(),
+  timezone: z.string().max(100).optional(),
+  language: z.string().max(35).optional(),
+  visits: z.array(visitSchema).min(1).max(VISIT_BATCH_SIZE),
+});
+
+export const visitHistoryRangeSchema = z.object({
+  from: z.string().regex(dayPattern).optional().catch(undefined),
+  to: z.string().regex(dayPattern).optional().catch(undefined),
+});
+
+// Type exports for TypeScript
+export type VisitInput = z.infer<typeof visitSchema>;
+export type VisitBatchData = z.infer<typeof visitBatchSchema>;
+
+// Error messages specific to visit history
+export const visitErrorMessages = {
+  consentRequired: "Analytics consent is required to sync visit history",
+  invalidBatch: "Invalid visit batch",
+  syncFailed: "Failed to record visits",
+};
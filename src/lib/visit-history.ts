@@ -0,0 +1,210 @@
+/**
+ * Server-side visit history
+ *
+ * The browser keeps recent visits in localStorage for instant badges and
+ * sends them here in batches. Visits land in `page_views`, grouped under
+ * the browser's tracking session in `sessions`, so history follows the
+ * user across devices and feeds coverage and reporting.
+ *
+ * Syncing requires analytics consent (see `consent.ts`).
+ */
+
+import {
+  and,
+  count,
+  countDistinct,
+  desc,
+  eq,
+  gte,
+  lt,
+  max,
+  sql,
+} from "drizzle-orm";
+import { db } from "@/db";
+import { pageViews, publishers, sessions } from "@/db/schema";
+import type { AuditLogContext } from "@/lib/audit-logger";
+import {
+  VISIT_HISTORY_DEFAULT_DAYS,
+  VISIT_MAX_AGE_DAYS,
+  type VisitBatchData,
+} from "@/lib/validations/visits";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Tolerate clocks running slightly ahead of the server
+const FUTURE_SKEW_MS = 5 * 60 * 1000;
+
+export interface VisitHistoryRange {
+  from: Date;
+  // Exclusive
+  to: Date;
+}
+
+export interface VisitHistoryPage {
+  url: string;
+  publisherName: string | null;
+  visits: number;
+  lastVisitedAt: Date | null;
+}
+
+export interface VisitHistory {
+  totalVisits: number;
+  uniquePages: number;
+  sessions: number;
+  pages: VisitHistoryPage[];
+}
+
+function splitUrl(url: string) {
+  try {
+    const parsed = new URL(url, "http://localhost");
+    return {
+      path: parsed.pathname,
+      queryParams: parsed.search
+        ? Object.fromEntries(parsed.searchParams)
+        : null,
+    };
+  } catch {
+    return { path: url, queryParams: null };
+  }
+}
+
+/**
+ * Store a batch of visits. Visits carry ids generated in the browser, so
+ * a batch retried after a lost response is not counted twice. Returns the
+ * number of visits that were new.
+ */
+export async function recordVisits(
+  userId: string,
+  batch: VisitBatchData,
+  context: AuditLogContext = {},
+) {
+  const now = Date.now();
+  const visits = batch.visits
+    .filter(
+      (visit) =>
+        visit.timestamp >= now - VISIT_MAX_AGE_DAYS * DAY_MS &&
+        visit.timestamp <= now + FUTURE_SKEW_MS,
+    )
+    .sort((a, b) => a.timestamp - b.timestamp);
+  if (visits.length === 0) return 0;
+
+  const first = visits[0];
+  const last = visits[visits.length - 1];
+
+  await db
+    .insert(sessions)
+    .values({
+      sessionId: batch.sessionId,
+      userId,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+      screenResolution: batch.screenResolution,
+      timezone: batch.timezone,
+      language: batch.language,
+      startedAt: new Date(first.timestamp),
+      pageViews: 0,
+    })
+    .onConflictDoNothing({ target: sessions.sessionId });
+
+  const inserted = await db
+    .insert(pageViews)
+    .values(
+      visits.map((visit) => ({
+        id: visit.id,
+        sessionId: batch.sessionId,
+        userId,
+        url: visit.url,
+        ...splitUrl(visit.url),
+        title: visit.title,
+        viewportWidth: visit.viewportWidth,
+        viewportHeight: visit.viewportHeight,
+        timestamp: new Date(visit.timestamp),
+      })),
+    )
+    .onConflictDoNothing({ target: pageViews.id })
+    .returning({ id: pageViews.id });
+
+  if (inserted.length > 0) {
+    const endedAt = new Date(last.timestamp);
+    // Only the session's owner can extend it
+    await db
+      .update(sessions)
+      .set({
+        pageViews: sql`coalesce(${sessions.pageViews}, 0) + ${inserted.length}`,
+        endedAt: sql`greatest(${sessions.endedAt}, ${endedAt})`,
+        exitPage: last.url,
+      })
+      .where(
+        and(
+          eq(sessions.sessionId, batch.sessionId),
+          eq(sessions.userId, userId),
+        ),
+      );
+  }
+
+  return inserted.length;
+}
+
+/**
+ * Turn `YYYY-MM-DD` bounds into a date range, defaulting to the last
+ * `VISIT_HISTORY_DEFAULT_DAYS` days. Both days are included.
+ */
+export function resolveVisitHistoryRange(range: {
+  from?: string;
+  to?: string;
+}): VisitHistoryRange {
+  const today = new Date(new Date().toISOString().split("T")[0]);
+  const to = range.to ? new Date(range.to) : today;
+  const from = range.from
+    ? new Date(range.from)
+    : new Date(to.getTime() - (VISIT_HISTORY_DEFAULT_DAYS - 1) * DAY_MS);
+
+  const [start, end] = from <= to ? [from, to] : [to, from];
+  return { from: start, to: new Date(end.getTime() + DAY_MS) };
+}
+
+/**
+ * A user's own visits in a date range, most visited pages first.
+ */
+export async function getVisitHistory(
+  userId: string,
+  range: VisitHistoryRange,
+  limit = 100,
+): Promise<VisitHistory> {
+  const inRange = and(
+    eq(pageViews.userId, userId),
+    gte(pageViews.timestamp, range.from),
+    lt(pageViews.timestamp, range.to),
+  );
+
+  const [[totals], pages] = await Promise.all([
+    db
+      .select({
+        totalVisits: count(pageViews.id),
+        uniquePages: countDistinct(pageViews.url),
+        sessions: countDistinct(pageViews.sessionId),
+      })
+      .from(pageViews)
+      .where(inRange),
+    db
+      .select({
+        url: pageViews.url,
+        publisherName: publishers.name,
+        visits: count(pageViews.id),
+        lastVisitedAt: max(pageViews.timestamp),
+      })
+      .from(pageViews)
+      .leftJoin(publishers, eq(publishers.website, pageViews.url))
+      .where(inRange)
+      .groupBy(pageViews.url, publishers.name)
+      .orderBy(desc(count(pageViews.id)))
+      .limit(limit),
+  ]);
+
+  return {
+    totalVisits: totals?.totalVisits ?? 0,
+    uniquePages: totals?.uniquePages ?? 0,
+    sessions: totals?.sessions ?? 0,
+    pages,
+  };
+}
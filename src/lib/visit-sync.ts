@@ -0,0 +1,92 @@
+/**
+ * Sends queued visits to the server
+ *
+ * Visits wait in localStorage until a request succeeds, so they survive
+ * reloads and time offline. Each visit carries an id, which makes a
+ * retried batch harmless.
+ */
+
+import { VISIT_BATCH_SIZE } from "@/lib/validations/visits";
+import {
+  getPendingVisits,
+  hasAnalyticsConsent,
+  removePendingVisits,
+  setAnalyticsConsent,
+} from "@/lib/visit-utils";
+
+const VISITS_ENDPOINT = "/api/user/visits";
+
+let flushing: Promise<void> | null = null;
+
+async function sendBatch(): Promise<boolean> {
+  const pending = getPendingVisits();
+  if (pending.length === 0) {
+    return false;
+  }
+
+  // A batch belongs to a single tracking session
+  const sessionId = pending[0].sessionId;
+  const batch = pending
+    .filter((visit) => visit.sessionId === sessionId)
+    .slice(0, VISIT_BATCH_SIZE);
+
+  const response = await fetch(VISITS_ENDPOINT, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    credentials: "same-origin",
+    keepalive: true,
+    body: JSON.stringify({
+      sessionId,
+      screenResolution: `${screen.width}x${screen.height}`,
+      timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      language: navigator.language,
+      visits: batch.map(({ sessionId: _sessionId, ...visit }) => visit),
+    }),
+  });
+
+  if (response.status === 403) {
+    const body = await response.json().catch(() => null);
+    if (body?.code === "CONSENT_REQUIRED") {
+      setAnalyticsConsent(false);
+    }
+    return false;
+  }
+
+  // Malformed batches will never be accepted, so drop them
+  if (response.ok || response.status === 400) {
+    removePendingVisits(batch.map((visit) => visit.id));
+    return response.ok;
+  }
+
+  return false;
+}
+
+/**
+ * Send every queued visit, stopping at the first failure so the rest are
+ * retried later. Concurrent calls share one flush.
+ */
+export function flushPendingVisits(): Promise<void> {
+  if (typeof window === "undefined" || !hasAnalyticsConsent()) {
+    return Promise.resolve();
+  }
+  if (!navigator.onLine) {
+    return Promise.resolve();
+  }
+
+  if (!flushing) {
+    flushing = (async () => {
+      try {
+        let sent = true;
+        while (sent) {
+          sent = await sendBatch();
+        }
+      } catch (error) {
+        console.warn("Failed to sync visits:", error);
+      } finally {
+        flushing = null;
+      }
+    })();
+  }
+
+  return flushing;
+}
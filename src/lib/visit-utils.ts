@@ -1,6 +1,10 @@
 /**
  * Visit tracking utility functions
  * Handles localStorage operations with error handling and data validation
+ *
+ * Visits are only recorded with analytics consent. They are also queued
+ * for the server (see `visit-sync.ts`) so history survives across
+ * devices; the local copy stays the source for badges.
  */
 
 import {
@@ -9,6 +13,8 @@ import {
 } from "./performance-utils";
 
 export interface VisitData {
+  // Set on visits recorded since server sync was added
+  id?: string;
   url: string;
   timestamp: number;
   sessionId: string;
@@ -31,6 +37,19 @@ export interface DailyVisits {
   totalCount: number;
 }
 
+/**
+ * A visit waiting to be sent to the server
+ */
+export interface PendingVisit {
+  id: string;
+  url: string;
+  title?: string;
+  timestamp: number;
+  sessionId: string;
+  viewportWidth: number;
+  viewportHeight: number;
+}
+
 export interface VisitStats {
   totalVisits: number;
   uniquePages: number;
@@ -46,8 +65,16 @@ const STORAGE_KEYS = {
   VISITS: "visit-tracker-visits",
   SESSION_ID: "visit-tracker-session-id",
   LAST_RESET: "visit-tracker-last-reset",
+  PENDING: "visit-tracker-pending",
+  CONSENT: "visit-tracker-consent",
 } as const;
 
+/**
+ * Oldest queued visits are dropped beyond this, e.g. after a long time
+ * offline
+ */
+const MAX_PENDING_VISITS = 500;
+
 /**
  * Generate a unique session ID for the current browsing session
  */
@@ -197,6 +224,7 @@ export function addVisit(url: string): boolean {
       Date.now() - lastVisit.timestamp > 30000
     ) {
       const visitData: VisitData = {
+        id: crypto.randomUUID(),
         url,
         timestamp: Date.now(),
         sessionId,
@@ -215,6 +243,7 @@ export function addVisit(url: string): boolean {
 
       todayVisits.visits.push(visitData);
       todayVisits.totalCount++;
+      queueVisitForSync(visitData);
 
       return saveVisits(allVisits);
     }
@@ -321,9 +350,103 @@ export function clearAllVisitData(): boolean {
     removeFromStorage(STORAGE_KEYS.VISITS);
     removeFromStorage(STORAGE_KEYS.SESSION_ID);
     removeFromStorage(STORAGE_KEYS.LAST_RESET);
+    removeFromStorage(STORAGE_KEYS.PENDING);
     return true;
   } catch (error) {
     console.warn("Failed to clear visit data:", error);
     return false;
   }
 }
+
+/**
+ * Whether the signed-in user granted analytics consent, as last reported
+ * by the server. Nothing is tracked until they have.
+ */
+export function hasAnalyticsConsent(): boolean {
+  return getFromStorage<boolean>(STORAGE_KEYS.CONSENT) === true;
+}
+
+/**
+ * Remember the user's analytics consent. Withdrawing it drops visits
+ * still waiting to be sent.
+ */
+export function setAnalyticsConsent(granted: boolean): void {
+  saveToStorage(STORAGE_KEYS.CONSENT, granted);
+  if (!granted) {
+    removeFromStorage(STORAGE_KEYS.PENDING);
+  }
+}
+
+/**
+ * Add a visit to the queue of visits not yet sent to the server
+ */
+export function queueVisitForSync(visit: VisitData): boolean {
+  if (!visit.id || !hasAnalyticsConsent()) {
+    return false;
+  }
+
+  const pending = getPendingVisits();
+  pending.push({
+    id: visit.id,
+    url: visit.url,
+    title: document.title || undefined,
+    timestamp: visit.timestamp,
+    sessionId: visit.sessionId,
+    viewportWidth: visit.deviceInfo.viewport.width,
+    viewportHeight: visit.deviceInfo.viewport.height,
+  });
+
+  return saveToStorage(
+    STORAGE_KEYS.PENDING,
+    pending.slice(-MAX_PENDING_VISITS),
+  );
+}
+
+/**
+ * Visits not yet sent to the server, oldest first
+ */
+export function getPendingVisits(): PendingVisit[] {
+  return getFromStorage<PendingVisit[]>(STORAGE_KEYS.PENDING) || [];
+}
+
+/**
+ * Remove visits the server has stored, or will never accept
+ */
+export function removePendingVisits(ids: string[]): boolean {
+  const sent = new Set(ids);
+  return saveToStorage(
+    STORAGE_KEYS.PENDING,
+    getPendingVisits().filter((visit) => !sent.has(visit.id)),
+  );
+}
+
+/**
+ * Latest detected change to a publisher's tender page
+ */
+export interface PublisherPageChange {
+  changedAt: Date | string;
+  addedLines: number;
+  removedLines: number;
+}
+
+/**
+ * Whether a publisher page changed after the user's last visit. Pages the
+ * user has never visited are not flagged.
+ */
+export function hasChangedSinceVisit(
+  change: PublisherPageChange | null | undefined,
+  lastVisit: Date | null,
+): boolean {
+  return (
+    !!change &&
+    !!lastVisit &&
+    new Date(change.changedAt).getTime() > lastVisit.getTime()
+  );
+}
+
+/**
+ * Short summary of a page change, e.g. "+3 / -1 lines".
+ */
+export function formatPageChange(change: PublisherPageChange): string {
+  return `+${change.addedLines} / -${change.removedLines} lines`;
+}
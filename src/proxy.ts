@@ -1,13 +1,89 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getSessionCookie } from "better-auth/cookies";
+import { auth } from "@/lib/auth";
+import { getSystemSettings } from "@/lib/system-settings";
+
+// Reachable during maintenance, so platform admins can still sign in.
+// Only the sign-in and session auth endpoints: sign-up stays closed
+const maintenanceRoutes = ['/maintenance', '/sign-in', '/status'];
+const maintenanceApiRoutes = [
+  '/api/auth/sign-in/email',
+  '/api/auth/two-factor/verify-totp',
+  '/api/auth/two-factor/verify-backup-code',
+  '/api/auth/get-session',
+  '/api/auth/sign-out',
+  '/api/health',
+];
+
+// API requests with these methods only read, so they are served during
+// maintenance
+const readOnlyMethods = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * While maintenance mode is on, send everyone except platform admins and
+ * owners to the maintenance page, and reject their API writes with a 503.
+ * Returns null when the request may pass.
+ */
+async function enforceMaintenanceMode(
+  request: NextRequest,
+  hasSessionCookie: boolean,
+) {
+  const { pathname } = request.nextUrl;
+  const isApiRoute = pathname.startsWith('/api/');
+  const { general } = await getSystemSettings();
+
+  if (!general.maintenanceMode) {
+    return pathname === '/maintenance'
+      ? NextResponse.redirect(new URL('/', request.url))
+      : null;
+  }
+
+  if (isApiRoute) {
+    if (
+      readOnlyMethods.includes(request.method) ||
+      maintenanceApiRoutes.some(route => pathname === route || pathname.startsWith(`${route}/`))
+    ) {
+      return null;
+    }
+  } else if (maintenanceRoutes.some(route => pathname.startsWith(route))) {
+    return null;
+  }
+
+  // The account-level role, not the organisation role: maintenance
+  // covers every organisation
+  const session = hasSessionCookie
+    ? await auth.api.getSession({ headers: request.headers })
+    : null;
+  const role = session?.user.role;
+  if (role === 'admin' || role === 'owner') {
+    return null;
+  }
+
+  if (isApiRoute) {
+    return NextResponse.json(
+      { error: 'Tender Hub is undergoing maintenance. Please try again later.' },
+      { status: 503 }
+    );
+  }
+
+  return NextResponse.redirect(new URL('/maintenance', request.url));
+}
 
 export async function proxy(request: NextRequest) {
   const { pathname } = request.nextUrl;
+
+  // API routes do their own authentication; only maintenance applies here
+  if (pathname.startsWith('/api/')) {
+    const maintenanceResponse = await enforceMaintenanceMode(
+      request,
+      !!getSessionCookie(request)
+    );
+    return maintenanceResponse ?? NextResponse.next();
+  }
   
-  // Skip middleware for static files and API routes
+  // Skip middleware for static files
   if (
     pathname.startsWith('/_next') ||
-    pathname.startsWith('/api') ||
     pathname.includes('.') ||
     pathname === '/favicon.ico'
   ) {
@@ -27,6 +103,11 @@ export async function proxy(request: NextRequest) {
   const sessionCookie = getSessionCookie(request);
   const hasSessionCookie = !!sessionCookie;
 
+  const maintenanceResponse = await enforceMaintenanceMode(request, hasSessionCookie);
+  if (maintenanceResponse) {
+    return maintenanceResponse;
+  }
+
   // Redirect users with session away from auth pages
   if (hasSessionCookie && isAuthRoute) {
     // Default redirect to dashboard, let client-side handle role-based routing
@@ -47,11 +128,11 @@ export const config = {
   matcher: [
     /*
      * Match all request paths except for the ones starting with:
-     * - api (API routes)
      * - _next/static (static files)
      * - _next/image (image optimization files)
      * - favicon.ico (favicon file)
+     * API routes are matched so maintenance mode covers them too
      */
-    '/((?!api|_next/static|_next/image|favicon.ico).*)',
+    '/((?!_next/static|_next/image|favicon.ico).*)',
   ],
 };
\ No newline at end of file
@@ -0,0 +1,66 @@
+#!/usr/bin/env tsx
+
+/**
+ * Script to apply data retention policies
+ * This should be run periodically (e.g., daily via cron job) to:
+ * 1. Find enabled policies whose next run is due
+ * 2. Count the rows each policy covers, then delete them
+ * 3. Record every run and schedule the next one
+ *
+ * Usage:
+ *   tsx src/scripts/apply-retention-policies.ts [--dry-run] [--all]
+ *
+ * --dry-run only counts rows. --all runs every enabled policy, due or not.
+ */
+
+import {
+  type RetentionRunResult,
+  runDueRetentionPolicies,
+} from "@/lib/retention";
+
+function printResult(result: RetentionRunResult) {
+  const details =
+    result.status === "failed"
+      ? result.error
+      : result.status === "dry_run"
+        ? `${result.matched} rows would be deleted`
+        : `${result.deleted} of ${result.matched} rows deleted`;
+  console.log(
+    `[${result.status.toUpperCase()}] ${result.policyName}: ${details} (before ${result.cutoff.toISOString()})`,
+  );
+}
+
+async function applyRetentionPolicies(args: string[] = process.argv.slice(2)) {
+  const results = await runDueRetentionPolicies({
+    dryRun: args.includes("--dry-run"),
+    all: args.includes("--all"),
+  });
+
+  for (const result of results) {
+    printResult(result);
+  }
+
+  const failed = results.filter((result) => result.status === "failed");
+  const deleted = results.reduce((sum, result) => sum + result.deleted, 0);
+  console.log(
+    `Ran ${results.length} retention policies: ${deleted} rows deleted, ${failed.length} failed`,
+  );
+
+  return results;
+}
+
+// Run the script if called directly
+if (require.main === module) {
+  applyRetentionPolicies()
+    .then((results) => {
+      process.exit(
+        results.some((result) => result.status === "failed") ? 1 : 0,
+      );
+    })
+    .catch((error) => {
+      console.error("Retention policies failed:", error);
+      process.exit(1);
+    });
+}
+
+export { applyRetentionPolicies };
@@ -0,0 +1,76 @@
+#!/usr/bin/env tsx
+
+/**
+ * Script to check publisher website health
+ * This should be run periodically (e.g., daily via cron job) to:
+ * 1. Request every publisher website and follow redirects
+ * 2. Record status code, redirect target, response time and TLS expiry
+ * 3. Flag publishers as broken after consecutive failures
+ *
+ * Usage:
+ *   tsx src/scripts/check-publisher-links.ts [--publisher <id>] [--timeout <ms>]
+ */
+
+import {
+  LINK_FAILURE_THRESHOLD,
+  type PublisherLinkReport,
+  runLinkHealthCheck,
+} from "@/lib/link-health";
+
+function getArgValue(args: string[], name: string) {
+  const index = args.indexOf(name);
+  return index !== -1 ? args[index + 1] : undefined;
+}
+
+function printResult(result: PublisherLinkReport) {
+  const status = result.ok ? "OK" : result.broken ? "BROKEN" : "FAILED";
+  const details = [
+    result.statusCode ? `HTTP ${result.statusCode}` : result.error,
+    `${result.responseTimeMs}ms`,
+    result.redirectUrl ? `-> ${result.redirectUrl}` : null,
+    result.tlsExpiresAt
+      ? `TLS expires ${result.tlsExpiresAt.toISOString().slice(0, 10)}`
+      : null,
+    result.ok ? null : `${result.consecutiveFailures} consecutive failure(s)`,
+  ]
+    .filter(Boolean)
+    .join(", ");
+
+  console.log(`[${status}] ${result.publisherName}: ${details}`);
+}
+
+async function checkPublisherLinks(args: string[] = process.argv.slice(2)) {
+  const publisherId = getArgValue(args, "--publisher");
+  const timeout = getArgValue(args, "--timeout");
+
+  const report = await runLinkHealthCheck({
+    publisherIds: publisherId ? [publisherId] : undefined,
+    timeoutMs: timeout ? Number.parseInt(timeout, 10) : undefined,
+  });
+
+  for (const result of report.results) {
+    printResult(result);
+  }
+
+  console.log(
+    `Checked ${report.checked} publisher website(s): ${report.ok} ok, ${report.failed} failed, ` +
+      `${report.newlyBroken} newly broken, ${report.recovered} recovered ` +
+      `(broken after ${LINK_FAILURE_THRESHOLD} consecutive failures)`,
+  );
+
+  return report;
+}
+
+// Run the script if called directly
+if (require.main === module) {
+  checkPublisherLinks()
+    .then(() => {
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error("Publisher link check failed:", error);
+      process.exit(1);
+    });
+}
+
+export { checkPublisherLinks };
@@ -1,51 +1,89 @@
+#!/usr/bin/env tsx
+
+/**
+ * Bootstrap the first platform owner
+ *
+ * Roles are never derived from email addresses, so a fresh installation
+ * has no one who can invite admins. This creates the first owner account.
+ * It refuses to run once an owner or admin exists; after that, roles are
+ * granted through invitations and the team page only.
+ *
+ * Usage:
+ *   tsx src/scripts/create-first-admin.ts <email> <name> <password>
+ */
+
 import { hashPassword } from "better-auth/crypto";
-import { count, eq } from "drizzle-orm";
+import { count, eq, inArray } from "drizzle-orm";
 import { db } from "@/db";
 import { account, user } from "@/db/schema";
+import { AuditLogger } from "@/lib/audit-logger";
 
-async function createFirstAdmin(
+const MIN_PASSWORD_LENGTH = 12;
+
+async function createFirstOwner(
   email?: string,
   name?: string,
   password?: string,
 ) {
-  // Check if any admin exists
-  const adminCount = await db
+  // Only a fresh installation may be bootstrapped
+  const [privileged] = await db
     .select({ count: count() })
     .from(user)
-    .where(eq(user.role, "admin"));
+    .where(inArray(user.role, ["owner", "admin"]));
 
-  if (adminCount[0].count > 0) {
-    process.exit(0);
+  if (privileged.count > 0) {
+    console.error(
+      "An owner or admin already exists. Invite new admins from the team page instead.",
+    );
+    process.exit(1);
   }
 
   // Use provided values or get from command line arguments
-  const adminEmail = email || process.argv[2];
-  const adminName = name || process.argv[3];
-  const adminPassword = password || process.argv[4];
+  const ownerEmail = (email || process.argv[2])?.trim().toLowerCase();
+  const ownerName = name || process.argv[3];
+  const ownerPassword = password || process.argv[4];
 
   // Validate required arguments
-  if (!adminEmail || !adminName || !adminPassword) {
+  if (!ownerEmail || !ownerName || !ownerPassword) {
+    console.error(
+      "Usage: tsx src/scripts/create-first-admin.ts <email> <name> <password>",
+    );
+    process.exit(1);
+  }
+
+  if (!ownerEmail.includes("@")) {
+    console.error("Invalid email address");
     process.exit(1);
   }
 
-  // Validate
-  if (!adminEmail.includes("@")) {
+  if (ownerPassword.length < MIN_PASSWORD_LENGTH) {
+    console.error(
+      `Password must be at least ${MIN_PASSWORD_LENGTH} characters`,
+    );
     process.exit(1);
   }
 
-  if (adminPassword.length < 12) {
+  const [existing] = await db
+    .select({ id: user.id })
+    .from(user)
+    .where(eq(user.email, ownerEmail))
+    .limit(1);
+
+  if (existing) {
+    console.error(`An account for ${ownerEmail} already exists`);
     process.exit(1);
   }
 
-  // Create admin
-  const adminId = crypto.randomUUID();
-  const hashedPassword = await hashPassword(adminPassword);
+  // Create owner. Their membership in the default organisation, with the
+  // same role, is created on first sign-in.
+  const ownerId = crypto.randomUUID();
+  const hashedPassword = await hashPassword(ownerPassword);
 
   await db.insert(user).values({
-    id: adminId,
-    email: adminEmail,
-    name: adminName,
-    role: "admin",
+    id: ownerId,
+    email: ownerEmail,
+    name: ownerName,
+    role: "owner",
     status: "active",
     emailVerified: true,
     createdAt: new Date(),
@@ -53,18 +91,27 @@ async function createFirstAdmin(
 
   await db.insert(account).values({
     id: crypto.randomUUID(),
-    userId: adminId,
-    accountId: adminId,
+    userId: ownerId,
+    accountId: ownerId,
     providerId: "credential",
     password: hashedPassword,
     createdAt: new Date(),
   });
+
+  await AuditLogger.logUserProvisioned(ownerId, "bootstrap", "owner", {
+    organizationId: null,
+    ipAddress: "localhost",
+  });
+
+  console.log(`Created owner account for ${ownerEmail}`);
 }
 
-createFirstAdmin().catch((error) => {
-  console.error(
-    "Failed to create admin:",
-    error instanceof Error ? error.message : error,
-  );
-  process.exit(1);
-});
+createFirstOwner()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(
+      "Failed to create owner:",
+      error instanceof Error ? error.message : error,
+    );
+    process.exit(1);
+  });
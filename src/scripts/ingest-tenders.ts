@@ -0,0 +1,85 @@
+#!/usr/bin/env tsx
+
+/**
+ * Script to ingest tenders from configured publisher sources
+ * This should be run periodically (e.g., via cron job) to:
+ * 1. Fetch every enabled tender source (RSS/Atom feed, JSON endpoint or HTML page)
+ * 2. Parse the document and upsert tenders, deduplicated by reference number
+ * 3. Record a run report (found, new, updated, failed) per source
+ *
+ * Usage:
+ *   tsx src/scripts/ingest-tenders.ts [--source <id>] [--dry-run]
+ *   tsx src/scripts/ingest-tenders.ts --source <id> --file <path> --dry-run
+ *
+ * --file parses a saved copy of the source document instead of fetching it,
+ * which is useful for building selectors against a downloaded page.
+ */
+
+import { readFile } from "node:fs/promises";
+import {
+  type IngestionReport,
+  runTenderIngestion,
+} from "@/lib/tender-ingestion";
+
+function getArgValue(args: string[], name: string) {
+  const index = args.indexOf(name);
+  return index !== -1 ? args[index + 1] : undefined;
+}
+
+function printReport(report: IngestionReport) {
+  console.log(
+    `[${report.status.toUpperCase()}] ${report.sourceName}${report.dryRun ? " (dry run)" : ""}: ` +
+      `found ${report.found}, new ${report.created}, updated ${report.updated}, failed ${report.failed}`,
+  );
+  for (const error of report.errors) {
+    console.log(`  - ${error}`);
+  }
+}
+
+async function ingestTenders(args: string[] = process.argv.slice(2)) {
+  const sourceId = getArgValue(args, "--source");
+  const filePath = getArgValue(args, "--file");
+  const dryRun = args.includes("--dry-run");
+
+  if (filePath && !sourceId) {
+    throw new Error("--file requires --source to select the parser config");
+  }
+
+  const body = filePath ? await readFile(filePath, "utf8") : undefined;
+  const reports = await runTenderIngestion({ sourceId, body, dryRun });
+
+  for (const report of reports) {
+    printReport(report);
+  }
+
+  const totals = reports.reduce(
+    (sum, report) => ({
+      found: sum.found + report.found,
+      created: sum.created + report.created,
+      updated: sum.updated + report.updated,
+      failed: sum.failed + report.failed,
+    }),
+    { found: 0, created: 0, updated: 0, failed: 0 },
+  );
+  console.log(
+    `Processed ${reports.length} source(s): found ${totals.found}, new ${totals.created}, updated ${totals.updated}, failed ${totals.failed}`,
+  );
+
+  return reports;
+}
+
+// Run the script if called directly
+if (require.main === module) {
+  ingestTenders()
+    .then((reports) => {
+      const allFailed =
+        reports.length > 0 && reports.every((r) => r.status === "failed");
+      process.exit(allFailed ? 1 : 0);
+    })
+    .catch((error) => {
+      console.error("Tender ingestion failed:", error);
+      process.exit(1);
+    });
+}
+
+export { ingestTenders };
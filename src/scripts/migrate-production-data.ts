@@ -8,7 +8,7 @@ import {
   auditLog
 } from "@/db/schema";
 import { eq, sql, count } from "drizzle-orm";
-import { performDataIntegrityCheck, cleanupExpiredData } from "@/lib/data-validation";
+import { performDataIntegrityCheck } from "@/lib/data-validation";
 
 interface MigrationResult {
   success: boolean;
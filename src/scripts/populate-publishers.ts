@@ -403,13 +403,22 @@ async function populatePublishers(): Promise<void> {
         }
         
         if (existing) {
-          // Only update if the website or province has changed
-          if (existing.website !== publisherData.website || existing.province_id !== provinceId) {
+          // Only update if the website, province or metadata has changed
+          if (
+            existing.website !== publisherData.website ||
+            existing.province_id !== provinceId ||
+            existing.category !== publisherData.category ||
+            existing.description !== publisherData.description ||
+            existing.contactEmail !== (publisherData.contactEmail ?? null)
+          ) {
             await db
               .update(publishers)
               .set({
                 website: publisherData.website,
                 province_id: provinceId,
+                category: publisherData.category,
+                description: publisherData.description,
+                contactEmail: publisherData.contactEmail ?? null,
                 createdAt: existing.createdAt // Preserve original creation date
               })
               .where(eq(publishers.id, existing.id));
@@ -429,6 +438,9 @@ async function populatePublishers(): Promise<void> {
               name: publisherData.name,
               website: publisherData.website,
               province_id: provinceId,
+              category: publisherData.category,
+              description: publisherData.description,
+              contactEmail: publisherData.contactEmail ?? null,
             });
             
             console.log(`✅ Inserted new publisher: ${publisherData.name}`);
@@ -449,6 +461,9 @@ async function populatePublishers(): Promise<void> {
           name: publisherData.name,
           website: publisherData.website,
           province_id: provinceId,
+          category: publisherData.category,
+          description: publisherData.description,
+          contactEmail: publisherData.contactEmail ?? null,
         };
       });
 
@@ -10,7 +10,8 @@
 
 import { and, eq, lte } from "drizzle-orm";
 import { db } from "@/db";
-import { events, invitation } from "@/db/schema";
+import { invitation } from "@/db/schema";
+import { recordAnalyticsEvent } from "@/lib/consent";
 import {
   invitationTracking,
   invitationTrackingUtils,
@@ -62,7 +63,7 @@ async function processExpiredInvitations() {
     }
 
     // Log the batch processing event
-    await db.insert(events).values({
+    await recordAnalyticsEvent({
       eventType: "system",
       eventName: "batch_process_expired_invitations",
       properties: {
@@ -77,7 +78,7 @@ async function processExpiredInvitations() {
     return { processed: processedCount, errors: errorCount };
   } catch (error) {
     // Log the error event
-    await db.insert(events).values({
+    await recordAnalyticsEvent({
       eventType: "system",
       eventName: "batch_process_error",
       properties: {
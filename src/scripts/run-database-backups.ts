@@ -0,0 +1,71 @@
+#!/usr/bin/env tsx
+
+/**
+ * Script to run scheduled database backups
+ * This should be run periodically (e.g., every five minutes via cron job) to:
+ * 1. Run backups, verifications and restores queued from the admin dashboard
+ * 2. Take a backup when one is due under the backup frequency setting
+ * 3. Verify it by restoring into a scratch schema
+ * 4. Delete backup files older than the retention setting
+ *
+ * Usage:
+ *   tsx src/scripts/run-database-backups.ts [--force]
+ *
+ * --force takes a backup even if one is not due yet.
+ */
+
+import { runScheduledBackups } from "@/lib/database-backup";
+
+async function runDatabaseBackups(args: string[] = process.argv.slice(2)) {
+  const result = await runScheduledBackups({ force: args.includes("--force") });
+
+  for (const backup of result.queued.backups) {
+    console.log(
+      `[${backup.status.toUpperCase()}] Queued backup ${backup.id}: ${backup.filePath ?? backup.errorMessage}`,
+    );
+  }
+  for (const verification of result.queued.verifications) {
+    console.log(
+      `[${verification.status.toUpperCase()}] Queued verification of ${verification.backupId}${verification.error ? `: ${verification.error}` : ""}`,
+    );
+  }
+  for (const restore of result.queued.restores) {
+    console.log(
+      `[${restore.status.toUpperCase()}] Queued restore from ${restore.backupId}${restore.error ? `: ${restore.error}` : ""}`,
+    );
+  }
+
+  if (result.backup) {
+    const { backup, verification } = result;
+    console.log(
+      `[${backup.status.toUpperCase()}] Backup ${backup.id}: ${backup.filePath ?? backup.errorMessage}`,
+    );
+    if (verification) {
+      console.log(
+        `[${verification.status.toUpperCase()}] Verification${verification.error ? `: ${verification.error}` : ""}`,
+      );
+    }
+  } else {
+    console.log("No backup due");
+  }
+
+  console.log(
+    `Pruned ${result.pruned} old backups, next backup due ${result.nextDueAt.toISOString()}`,
+  );
+
+  return result;
+}
+
+// Run the script if called directly
+if (require.main === module) {
+  runDatabaseBackups()
+    .then((result) => {
+      process.exit(result.status === "failed" ? 1 : 0);
+    })
+    .catch((error) => {
+      console.error("Database backups failed:", error);
+      process.exit(1);
+    });
+}
+
+export { runDatabaseBackups };
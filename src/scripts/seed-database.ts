@@ -1,6 +1,7 @@
 import { populateProvinces } from "./populate-provinces";
 import { populatePublishers } from "./populate-publishers";
-import { performDataIntegrityCheck, cleanupExpiredData, generateIntegrityReport } from "@/lib/data-validation";
+import { performDataIntegrityCheck, generateIntegrityReport } from "@/lib/data-validation";
+import { runDueRetentionPolicies } from "@/lib/retention";
 
 interface SeedOptions {
   skipProvinces?: boolean;
@@ -31,12 +32,13 @@ async function seedDatabase(options: SeedOptions = {}): Promise<void> {
       console.log("\n🏢 Step 2: Skipping publishers population");
     }
 
-    // Step 3: Data cleanup
+    // Step 3: Data cleanup, by the retention policies that are due
     if (!options.skipCleanup) {
-      console.log("\n🧹 Step 3: Cleaning up expired and invalid data...");
-      const cleanupResult = await cleanupExpiredData();
-      console.log(`   • Expired invitations processed: ${cleanupResult.expiredInvitations}`);
-      console.log(`   • Orphaned bookmarks removed: ${cleanupResult.orphanedBookmarks}`);
+      console.log("\n🧹 Step 3: Applying due retention policies...");
+      const retentionResults = await runDueRetentionPolicies();
+      for (const result of retentionResults) {
+        console.log(`   • ${result.policyName}: ${result.status === "failed" ? result.error : `${result.deleted} rows deleted`}`);
+      }
     } else {
       console.log("\n🧹 Step 3: Skipping data cleanup");
     }
@@ -104,7 +106,7 @@ Options:
   --skip-provinces    Skip populating provinces data
   --skip-publishers   Skip populating publishers data
   --skip-validation   Skip data integrity validation
-  --skip-cleanup      Skip cleaning up expired data
+  --skip-cleanup      Skip applying due retention policies
   --force             Continue even if validation fails
   --help, -h          Show this help message
 
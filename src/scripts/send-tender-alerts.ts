@@ -0,0 +1,53 @@
+#!/usr/bin/env tsx
+
+/**
+ * Script to send tender alert emails for saved searches
+ * This should be run periodically (e.g., via cron job) to:
+ * 1. Match tenders created since the last run against saved searches
+ * 2. Email pending matches to users whose preferences enable the frequency
+ * 3. Mark emailed matches so they are never sent twice
+ *
+ * Usage:
+ *   tsx src/scripts/send-tender-alerts.ts --frequency immediate   (every 15 minutes)
+ *   tsx src/scripts/send-tender-alerts.ts --frequency daily       (once a day)
+ *   tsx src/scripts/send-tender-alerts.ts --frequency weekly      (once a week)
+ */
+
+import type { TenderAlertFrequency } from "@/lib/email";
+import { processTenderAlerts } from "@/lib/tender-alerts";
+
+const FREQUENCIES: TenderAlertFrequency[] = ["immediate", "daily", "weekly"];
+
+async function sendTenderAlerts(args: string[] = process.argv.slice(2)) {
+  const index = args.indexOf("--frequency");
+  const frequency = (
+    index !== -1 ? args[index + 1] : "immediate"
+  ) as TenderAlertFrequency;
+
+  if (!FREQUENCIES.includes(frequency)) {
+    throw new Error(
+      `Invalid frequency "${frequency}", expected one of: ${FREQUENCIES.join(", ")}`,
+    );
+  }
+
+  const result = await processTenderAlerts(frequency);
+  console.log(
+    `Tender alerts (${frequency}): ${result.matched} new matches across ${result.searches} searches, ` +
+      `${result.emailsSent} emails sent, ${result.skipped} skipped, ${result.failed} failed`,
+  );
+  return result;
+}
+
+// Run the script if called directly
+if (require.main === module) {
+  sendTenderAlerts()
+    .then(() => {
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error("Tender alerts failed:", error);
+      process.exit(1);
+    });
+}
+
+export { sendTenderAlerts };
@@ -0,0 +1,37 @@
+#!/usr/bin/env tsx
+
+/**
+ * Script to send tender closing-date reminder emails
+ * This should be run periodically (e.g., hourly via cron job) to:
+ * 1. Find open tenders that users track or whose publisher they bookmarked
+ * 2. Work out which reminder lead time is due for each user
+ * 3. Send reminders that are not already in the email delivery log
+ *
+ * Usage:
+ *   tsx src/scripts/send-tender-reminders.ts
+ */
+
+import { sendTenderReminders } from "@/lib/tender-deadlines";
+
+async function sendReminders() {
+  const result = await sendTenderReminders();
+  console.log(
+    `Tender reminders: ${result.candidates} deadlines checked, ` +
+      `${result.sent} reminders sent, ${result.failed} failed`,
+  );
+  return result;
+}
+
+// Run the script if called directly
+if (require.main === module) {
+  sendReminders()
+    .then(() => {
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error("Tender reminders failed:", error);
+      process.exit(1);
+    });
+}
+
+export { sendReminders };
@@ -0,0 +1,80 @@
+#!/usr/bin/env tsx
+
+/**
+ * Script to snapshot publisher tender pages
+ * This should be run periodically (e.g., daily via cron job) to:
+ * 1. Fetch each publisher's procurement portal or website
+ * 2. Normalise the page to text lines and hash it
+ * 3. Store a snapshot with the added/removed lines when the hash changed
+ *
+ * Usage:
+ *   tsx src/scripts/snapshot-publishers.ts [--publisher <id>]
+ *   tsx src/scripts/snapshot-publishers.ts --publisher <id> --file <path>
+ *
+ * --file snapshots a saved copy of the page instead of fetching it.
+ */
+
+import { readFile } from "node:fs/promises";
+import {
+  runPublisherSnapshots,
+  type SnapshotReport,
+} from "@/lib/publisher-snapshots";
+
+function getArgValue(args: string[], name: string) {
+  const index = args.indexOf(name);
+  return index !== -1 ? args[index + 1] : undefined;
+}
+
+function printReport(report: SnapshotReport) {
+  const details =
+    report.outcome === "changed"
+      ? `+${report.addedLines} / -${report.removedLines} lines`
+      : report.outcome === "failed"
+        ? report.error
+        : report.url;
+  console.log(
+    `[${report.outcome.toUpperCase()}] ${report.publisherName}: ${details}`,
+  );
+}
+
+async function snapshotPublishers(args: string[] = process.argv.slice(2)) {
+  const publisherId = getArgValue(args, "--publisher");
+  const filePath = getArgValue(args, "--file");
+
+  if (filePath && !publisherId) {
+    throw new Error("--file requires --publisher");
+  }
+
+  const html = filePath ? await readFile(filePath, "utf8") : undefined;
+  const reports = await runPublisherSnapshots({
+    publisherIds: publisherId ? [publisherId] : undefined,
+    html,
+  });
+
+  for (const report of reports) {
+    printReport(report);
+  }
+
+  const count = (outcome: SnapshotReport["outcome"]) =>
+    reports.filter((report) => report.outcome === outcome).length;
+  console.log(
+    `Snapshotted ${reports.length} publisher page(s): ${count("changed")} changed, ` +
+      `${count("unchanged")} unchanged, ${count("created")} first snapshots, ${count("failed")} failed`,
+  );
+
+  return reports;
+}
+
+// Run the script if called directly
+if (require.main === module) {
+  snapshotPublishers()
+    .then(() => {
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error("Publisher snapshots failed:", error);
+      process.exit(1);
+    });
+}
+
+export { snapshotPublishers };
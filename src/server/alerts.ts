@@ -0,0 +1,296 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import {
+  acknowledgeAlertIncident,
+  createAlertRule,
+  deleteAlertRule,
+  getAlertIncidents,
+  getAlertRules,
+  isAlertRuleNameTaken,
+  muteAlertRule,
+  resolveAlertIncident,
+  updateAlertRule,
+} from "@/lib/alerts";
+import { requirePermission } from "@/lib/auth-utils";
+import { sentryConfig } from "@/lib/env-validation";
+import {
+  classifyError,
+  createAppError,
+  getUserFriendlyMessage,
+  logError,
+} from "@/lib/error-utils";
+import { invalidateAlertRuleCache } from "@/lib/sentry-alerting";
+import {
+  type AlertRuleFormData,
+  alertErrorMessages,
+  alertMuteSchema,
+  alertRuleFormSchema,
+} from "@/lib/validations/alerts";
+import { uuidSchema } from "@/lib/validations/common";
+
+// Alerts cover the whole platform, so handling incidents and editing
+// rules is reserved for platform admins and owners
+async function authorizeAlertMutation() {
+  try {
+    const session = await requirePermission("settings", "update");
+    if (
+      session.user.platformRole !== "admin" &&
+      session.user.platformRole !== "owner"
+    ) {
+      throw new Error("Only platform administrators can manage alerts");
+    }
+    return { userId: session.user.id };
+  } catch (error) {
+    const appError = createAppError(
+      error instanceof Error ? error.message : "Access denied",
+      { code: "FORBIDDEN", statusCode: 403 },
+    );
+    logError(appError, classifyError(appError));
+    return { error: getUserFriendlyMessage(appError) };
+  }
+}
+
+function validationError(issues: { message: string; path: PropertyKey[] }[]): {
+  error: string;
+} {
+  const error = createAppError(issues[0].message, {
+    code: "VALIDATION_ERROR",
+    statusCode: 400,
+    details: { field: issues[0].path.join(".") },
+  });
+  logError(error, classifyError(error));
+  return { error: error.message };
+}
+
+function failure(
+  message: string,
+  code: string,
+  details: object,
+  error: unknown,
+) {
+  const appError = createAppError(
+    `${message}: ${error instanceof Error ? error.message : "Unknown error"}`,
+    { code, statusCode: 500, details: { ...details, originalError: error } },
+  );
+  logError(appError, classifyError(appError));
+  return { error: getUserFriendlyMessage(appError) };
+}
+
+/**
+ * Alert rules, incidents and which notification channels are configured.
+ * Alerts cover the whole platform, so only platform admins and owners can
+ * see them.
+ */
+export async function getAlertOverview() {
+  const session = await requirePermission("settings", "read");
+  if (
+    session.user.platformRole !== "admin" &&
+    session.user.platformRole !== "owner"
+  ) {
+    throw new Error("Only platform administrators can view alerts");
+  }
+  const [rules, incidents] = await Promise.all([
+    getAlertRules(),
+    getAlertIncidents(),
+  ]);
+  return {
+    rules,
+    incidents,
+    channels: {
+      email: !!sentryConfig.alerting.email,
+      webhook: !!sentryConfig.alerting.webhook,
+      sentry: !!sentryConfig.dsn,
+    },
+  };
+}
+
+export async function createAlertRuleAction(data: AlertRuleFormData) {
+  const authResult = await authorizeAlertMutation();
+  if ("error" in authResult) return { error: authResult.error };
+
+  const parsed = alertRuleFormSchema.safeParse(data);
+  if (!parsed.success) return validationError(parsed.error.issues);
+
+  try {
+    if (await isAlertRuleNameTaken(parsed.data.name)) {
+      return { error: alertErrorMessages.ruleNameTaken };
+    }
+    await createAlertRule(parsed.data, authResult.userId);
+  } catch (error) {
+    return failure(
+      alertErrorMessages.createFailed,
+      "CREATE_FAILED",
+      { userId: authResult.userId },
+      error,
+    );
+  }
+
+  invalidateAlertRuleCache();
+  revalidatePath("/admin/monitoring");
+  return { success: true };
+}
+
+export async function updateAlertRuleAction(
+  ruleId: string,
+  data: AlertRuleFormData,
+) {
+  const authResult = await authorizeAlertMutation();
+  if ("error" in authResult) return { error: authResult.error };
+
+  const id = uuidSchema.safeParse(ruleId);
+  if (!id.success) return validationError(id.error.issues);
+  const parsed = alertRuleFormSchema.safeParse(data);
+  if (!parsed.success) return validationError(parsed.error.issues);
+
+  try {
+    if (await isAlertRuleNameTaken(parsed.data.name, id.data)) {
+      return { error: alertErrorMessages.ruleNameTaken };
+    }
+    const rule = await updateAlertRule(id.data, parsed.data);
+    if (!rule) return { error: alertErrorMessages.ruleNotFound };
+  } catch (error) {
+    return failure(
+      alertErrorMessages.updateFailed,
+      "UPDATE_FAILED",
+      { userId: authResult.userId, ruleId },
+      error,
+    );
+  }
+
+  invalidateAlertRuleCache();
+  revalidatePath("/admin/monitoring");
+  return { success: true };
+}
+
+/**
+ * Incidents opened by the rule are kept, without the link to it.
+ */
+export async function deleteAlertRuleAction(ruleId: string) {
+  const authResult = await authorizeAlertMutation();
+  if ("error" in authResult) return { error: authResult.error };
+
+  const id = uuidSchema.safeParse(ruleId);
+  if (!id.success) return validationError(id.error.issues);
+
+  try {
+    const deleted = await deleteAlertRule(id.data);
+    if (!deleted) return { error: alertErrorMessages.ruleNotFound };
+  } catch (error) {
+    return failure(
+      alertErrorMessages.deleteFailed,
+      "DELETE_FAILED",
+      { userId: authResult.userId, ruleId },
+      error,
+    );
+  }
+
+  invalidateAlertRuleCache();
+  revalidatePath("/admin/monitoring");
+  return { success: true };
+}
+
+/**
+ * Mute a rule for one of the offered durations. Incidents are still
+ * recorded while it is muted, but nobody is notified.
+ */
+export async function muteAlertRuleAction(ruleId: string, hours: number) {
+  const authResult = await authorizeAlertMutation();
+  if ("error" in authResult) return { error: authResult.error };
+
+  const parsed = alertMuteSchema.safeParse({ ruleId, hours });
+  if (!parsed.success) return validationError(parsed.error.issues);
+
+  try {
+    const until = new Date(Date.now() + parsed.data.hours * 60 * 60 * 1000);
+    const rule = await muteAlertRule(parsed.data.ruleId, until);
+    if (!rule) return { error: alertErrorMessages.ruleNotFound };
+  } catch (error) {
+    return failure(
+      alertErrorMessages.muteFailed,
+      "MUTE_FAILED",
+      { userId: authResult.userId, ruleId },
+      error,
+    );
+  }
+
+  invalidateAlertRuleCache();
+  revalidatePath("/admin/monitoring");
+  return { success: true };
+}
+
+export async function unmuteAlertRuleAction(ruleId: string) {
+  const authResult = await authorizeAlertMutation();
+  if ("error" in authResult) return { error: authResult.error };
+
+  const id = uuidSchema.safeParse(ruleId);
+  if (!id.success) return validationError(id.error.issues);
+
+  try {
+    const rule = await muteAlertRule(id.data, null);
+    if (!rule) return { error: alertErrorMessages.ruleNotFound };
+  } catch (error) {
+    return failure(
+      alertErrorMessages.muteFailed,
+      "MUTE_FAILED",
+      { userId: authResult.userId, ruleId },
+      error,
+    );
+  }
+
+  invalidateAlertRuleCache();
+  revalidatePath("/admin/monitoring");
+  return { success: true };
+}
+
+/**
+ * Acknowledging stops repeat notifications until the incident is resolved.
+ */
+export async function acknowledgeAlertIncidentAction(incidentId: string) {
+  const authResult = await authorizeAlertMutation();
+  if ("error" in authResult) return { error: authResult.error };
+
+  const id = uuidSchema.safeParse(incidentId);
+  if (!id.success) return validationError(id.error.issues);
+
+  try {
+    const incident = await acknowledgeAlertIncident(id.data, authResult.userId);
+    if (!incident) return { error: alertErrorMessages.incidentNotFound };
+  } catch (error) {
+    return failure(
+      alertErrorMessages.incidentUpdateFailed,
+      "UPDATE_FAILED",
+      { userId: authResult.userId, incidentId },
+      error,
+    );
+  }
+
+  revalidatePath("/admin/monitoring");
+  return { success: true };
+}
+
+/**
+ * The rule opens a new incident the next time it matches.
+ */
+export async function resolveAlertIncidentAction(incidentId: string) {
+  const authResult = await authorizeAlertMutation();
+  if ("error" in authResult) return { error: authResult.error };
+
+  const id = uuidSchema.safeParse(incidentId);
+  if (!id.success) return validationError(id.error.issues);
+
+  try {
+    const incident = await resolveAlertIncident(id.data, authResult.userId);
+    if (!incident) return { error: alertErrorMessages.alreadyResolved };
+  } catch (error) {
+    return failure(
+      alertErrorMessages.incidentUpdateFailed,
+      "UPDATE_FAILED",
+      { userId: authResult.userId, incidentId },
+      error,
+    );
+  }
+
+  revalidatePath("/admin/monitoring");
+  return { success: true };
+}
@@ -0,0 +1,129 @@
+"use server";
+
+import { eq } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
+import { db } from "@/db";
+import { calendarFeedTokens } from "@/db/schema";
+import { AuditLogger } from "@/lib/audit-logger";
+import { requireAuth } from "@/lib/auth-utils";
+import {
+  generateCalendarFeedToken,
+  getCalendarFeedUrl,
+} from "@/lib/calendar-feed";
+import {
+  classifyError,
+  createAppError,
+  getUserFriendlyMessage,
+  logError,
+} from "@/lib/error-utils";
+
+/**
+ * The signed-in user's calendar subscription, or null if they have none.
+ */
+export async function getMyCalendarFeed() {
+  const session = await requireAuth();
+
+  const [feed] = await db
+    .select()
+    .from(calendarFeedTokens)
+    .where(eq(calendarFeedTokens.userId, session.user.id))
+    .limit(1);
+
+  if (!feed) return null;
+
+  return {
+    url: getCalendarFeedUrl(feed.token),
+    createdAt: feed.createdAt,
+    lastAccessedAt: feed.lastAccessedAt,
+  };
+}
+
+/**
+ * Create a calendar subscription URL, replacing any existing one so the
+ * old URL stops working.
+ */
+export async function createCalendarFeed() {
+  let userId: string;
+  try {
+    const session = await requireAuth();
+    userId = session.user.id;
+  } catch (error) {
+    const appError = createAppError(
+      error instanceof Error ? error.message : "Authentication required",
+      { code: "UNAUTHORIZED", statusCode: 401 },
+    );
+    logError(appError, classifyError(appError));
+    return { error: getUserFriendlyMessage(appError) };
+  }
+
+  try {
+    const token = generateCalendarFeedToken();
+    await db
+      .insert(calendarFeedTokens)
+      .values({ userId, token })
+      .onConflictDoUpdate({
+        target: calendarFeedTokens.userId,
+        set: { token, createdAt: new Date(), lastAccessedAt: null },
+      });
+
+    await AuditLogger.logSystemAccess(userId, "calendar_feed", {
+      metadata: { action: "calendar_feed_created" },
+    });
+
+    revalidatePath("/account");
+    return { url: getCalendarFeedUrl(token) };
+  } catch (error) {
+    const appError = createAppError(
+      `Failed to create calendar feed: ${error instanceof Error ? error.message : "Unknown error"}`,
+      {
+        code: "CREATE_FAILED",
+        statusCode: 500,
+        details: { userId, originalError: error },
+      },
+    );
+    logError(appError, classifyError(appError));
+    return { error: getUserFriendlyMessage(appError) };
+  }
+}
+
+/**
+ * Revoke the signed-in user's calendar subscription URL.
+ */
+export async function revokeCalendarFeed() {
+  let userId: string;
+  try {
+    const session = await requireAuth();
+    userId = session.user.id;
+  } catch (error) {
+    const appError = createAppError(
+      error instanceof Error ? error.message : "Authentication required",
+      { code: "UNAUTHORIZED", statusCode: 401 },
+    );
+    logError(appError, classifyError(appError));
+    return { error: getUserFriendlyMessage(appError) };
+  }
+
+  try {
+    await db
+      .delete(calendarFeedTokens)
+      .where(eq(calendarFeedTokens.userId, userId));
+
+    await AuditLogger.logSystemAccess(userId, "calendar_feed", {
+      metadata: { action: "calendar_feed_revoked" },
+    });
+
+    revalidatePath("/account");
+    return { success: true };
+  } catch (error) {
+    const appError = createAppError(
+      `Failed to revoke calendar feed: ${error instanceof Error ? error.message : "Unknown error"}`,
+      {
+        code: "DELETE_FAILED",
+        statusCode: 500,
+        details: { userId, originalError: error },
+      },
+    );
+    logError(appError, classifyError(appError));
+    return { error: getUserFriendlyMessage(appError) };
+  }
+}
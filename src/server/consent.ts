@@ -0,0 +1,82 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { getSessionWithRole, requirePermission } from "@/lib/auth-utils";
+import {
+  getConsentReport,
+  getConsentStatus,
+  setConsentPreferences,
+} from "@/lib/consent";
+import {
+  classifyError,
+  createAppError,
+  getUserFriendlyMessage,
+  logError,
+} from "@/lib/error-utils";
+import {
+  type ConsentPreferences,
+  consentErrorMessages,
+  consentPreferencesSchema,
+} from "@/lib/validations/consent";
+
+/**
+ * The signed-in user's consent choices, or null when nobody is signed in.
+ */
+export async function getMyConsentStatus() {
+  const session = await getSessionWithRole();
+  if (!session) return null;
+  return getConsentStatus(session.user.id);
+}
+
+/**
+ * Consent rates per policy version across the active organisation.
+ */
+export async function getOrganizationConsentReport() {
+  const session = await requirePermission("auditLog", "read");
+  return getConsentReport(session.organization.id);
+}
+
+export async function updateConsentPreferences(
+  preferences: ConsentPreferences,
+) {
+  const session = await getSessionWithRole();
+  if (!session) {
+    const appError = createAppError("Authentication required", {
+      code: "UNAUTHORIZED",
+      statusCode: 401,
+    });
+    logError(appError, classifyError(appError));
+    return { error: getUserFriendlyMessage(appError) };
+  }
+  const userId = session.user.id;
+
+  const parsed = consentPreferencesSchema.safeParse(preferences);
+  if (!parsed.success) {
+    const error = createAppError(parsed.error.issues[0].message, {
+      code: "VALIDATION_ERROR",
+      statusCode: 400,
+      details: { field: parsed.error.issues[0].path.join(".") },
+    });
+    logError(error, classifyError(error));
+    return { error: error.message };
+  }
+
+  try {
+    await setConsentPreferences(userId, parsed.data);
+  } catch (error) {
+    const appError = createAppError(
+      `${consentErrorMessages.updateFailed}: ${error instanceof Error ? error.message : "Unknown error"}`,
+      {
+        code: "UPDATE_FAILED",
+        statusCode: 500,
+        details: { userId, originalError: error },
+      },
+    );
+    logError(appError, classifyError(appError));
+    return { error: getUserFriendlyMessage(appError) };
+  }
+
+  revalidatePath("/account");
+  revalidatePath("/dashboard/most-visited");
+  return { success: true };
+}
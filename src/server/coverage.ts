@@ -0,0 +1,140 @@
+"use server";
+
+import { asc } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
+import { db } from "@/db";
+import { provinces, publishers } from "@/db/schema";
+import { requireAuth, requirePermission } from "@/lib/auth-utils";
+import {
+  getCoverageReport,
+  getCoveredPublishers,
+  getMemberCoverage,
+  setMemberCoverage,
+} from "@/lib/coverage";
+import {
+  classifyError,
+  createAppError,
+  getUserFriendlyMessage,
+  logError,
+} from "@/lib/error-utils";
+import {
+  COVERAGE_STALE_DAYS,
+  coverageErrorMessages,
+  memberCoverageSchema,
+} from "@/lib/validations/coverage";
+
+interface FormState {
+  error?: string;
+  success?: boolean;
+}
+
+async function authorizeCoverageMutation() {
+  try {
+    const session = await requirePermission("coverage", "assign");
+    return {
+      userId: session.user.id,
+      organizationId: session.organization.id,
+    };
+  } catch (error) {
+    const appError = createAppError(
+      error instanceof Error ? error.message : "Access denied",
+      { code: "FORBIDDEN", statusCode: 403 },
+    );
+    logError(appError, classifyError(appError));
+    return { error: getUserFriendlyMessage(appError) };
+  }
+}
+
+/**
+ * Publishers the signed-in user covers in the active organisation.
+ */
+export async function getMyCoveredPublishers() {
+  const session = await requireAuth();
+  return getCoveredPublishers(session.organization.id, session.user.id);
+}
+
+/**
+ * Unassigned and stale publishers across the active organisation.
+ */
+export async function getOrganizationCoverageReport(
+  staleDays = COVERAGE_STALE_DAYS,
+) {
+  const session = await requirePermission("coverage", "read");
+  return getCoverageReport(session.organization.id, staleDays);
+}
+
+/**
+ * Provinces and publishers a manager can assign, with one member's
+ * current assignments.
+ */
+export async function getMemberCoverageOptions(userId: string) {
+  const session = await requirePermission("coverage", "assign");
+
+  const [provinceOptions, publisherOptions, coverage] = await Promise.all([
+    db
+      .select({ id: provinces.id, name: provinces.name })
+      .from(provinces)
+      .orderBy(asc(provinces.name)),
+    db
+      .select({
+        id: publishers.id,
+        name: publishers.name,
+        provinceId: publishers.province_id,
+      })
+      .from(publishers)
+      .orderBy(asc(publishers.name)),
+    getMemberCoverage(session.organization.id, userId),
+  ]);
+
+  return { provinces: provinceOptions, publishers: publisherOptions, coverage };
+}
+
+export async function updateMemberCoverage(
+  _prevState: FormState,
+  formData: FormData,
+) {
+  const authResult = await authorizeCoverageMutation();
+  if ("error" in authResult) return { error: authResult.error };
+  const { userId, organizationId } = authResult;
+
+  const parsed = memberCoverageSchema.safeParse({
+    userId: formData.get("userId") ?? "",
+    publisherIds: formData.getAll("publisherIds"),
+    provinceIds: formData.getAll("provinceIds"),
+  });
+  if (!parsed.success) {
+    const error = createAppError(parsed.error.issues[0].message, {
+      code: "VALIDATION_ERROR",
+      statusCode: 400,
+      details: { field: parsed.error.issues[0].path.join(".") },
+    });
+    logError(error, classifyError(error));
+    return { error: error.message };
+  }
+  const { userId: memberId, ...coverage } = parsed.data;
+
+  try {
+    const updated = await setMemberCoverage(
+      organizationId,
+      memberId,
+      coverage,
+      { userId },
+    );
+    if (!updated) return { error: coverageErrorMessages.notMember };
+  } catch (error) {
+    const appError = createAppError(
+      `${coverageErrorMessages.updateFailed}: ${error instanceof Error ? error.message : "Unknown error"}`,
+      {
+        code: "UPDATE_FAILED",
+        statusCode: 500,
+        details: { userId, memberId, organizationId, originalError: error },
+      },
+    );
+    logError(appError, classifyError(appError));
+    return { error: getUserFriendlyMessage(appError) };
+  }
+
+  revalidatePath("/manager/coverage");
+  revalidatePath("/dashboard/my-publishers");
+  return { success: true };
+}
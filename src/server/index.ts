@@ -1,2 +1,16 @@
+export * from "./alerts";
+export * from "./calendar-feed";
+export * from "./consent";
+export * from "./coverage";
+export * from "./organization";
+export * from "./personal-data";
+export * from "./pipeline";
 export * from "./province";
 export * from "./publisher";
+export * from "./retention";
+export * from "./roles";
+export * from "./saved-search";
+export * from "./tender";
+export * from "./tender-source";
+export * from "./tracked-tender";
+export * from "./visits";
@@ -0,0 +1,126 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { requireAuth } from "@/lib/auth-utils";
+import {
+  classifyError,
+  createAppError,
+  getUserFriendlyMessage,
+  logError,
+} from "@/lib/error-utils";
+import {
+  createOrganization,
+  getUserOrganizations,
+  setActiveOrganization,
+} from "@/lib/organization";
+import {
+  organizationErrorMessages,
+  organizationFormSchema,
+  switchOrganizationSchema,
+} from "@/lib/validations/organization";
+
+interface FormState {
+  error?: string;
+  success?: boolean;
+}
+
+async function authorizeOrganizationMutation() {
+  try {
+    const session = await requireAuth();
+    return { userId: session.user.id };
+  } catch (error) {
+    const appError = createAppError(
+      error instanceof Error ? error.message : "Authentication required",
+      { code: "UNAUTHORIZED", statusCode: 401 },
+    );
+    logError(appError, classifyError(appError));
+    return { error: getUserFriendlyMessage(appError) };
+  }
+}
+
+/**
+ * Organisations the signed-in user belongs to, with their role in each.
+ */
+export async function getMyOrganizations() {
+  const session = await requireAuth();
+  return getUserOrganizations(session.user.id);
+}
+
+/**
+ * Make another of the user's organisations the active one. Every page
+ * depends on the active organisation, so the whole layout is revalidated.
+ */
+export async function switchOrganization(formData: FormData) {
+  const authResult = await authorizeOrganizationMutation();
+  if ("error" in authResult) return { error: authResult.error };
+  const { userId } = authResult;
+
+  const parsed = switchOrganizationSchema.safeParse({
+    organizationId: formData.get("organizationId"),
+  });
+  if (!parsed.success) return { error: parsed.error.issues[0].message };
+  const { organizationId } = parsed.data;
+
+  try {
+    const switched = await setActiveOrganization(userId, organizationId);
+    if (!switched) return { error: organizationErrorMessages.notMember };
+  } catch (error) {
+    const appError = createAppError(
+      `${organizationErrorMessages.switchFailed}: ${error instanceof Error ? error.message : "Unknown error"}`,
+      {
+        code: "UPDATE_FAILED",
+        statusCode: 500,
+        details: { userId, organizationId, originalError: error },
+      },
+    );
+    logError(appError, classifyError(appError));
+    return { error: getUserFriendlyMessage(appError) };
+  }
+
+  revalidatePath("/", "layout");
+  return { success: true };
+}
+
+/**
+ * Create an organisation with the signed-in user as its admin and switch
+ * to it.
+ */
+export async function createOrganizationAction(
+  _prevState: FormState,
+  formData: FormData,
+) {
+  const authResult = await authorizeOrganizationMutation();
+  if ("error" in authResult) return { error: authResult.error };
+  const { userId } = authResult;
+
+  const parsed = organizationFormSchema.safeParse({
+    name: formData.get("name") ?? "",
+  });
+  if (!parsed.success) {
+    const error = createAppError(parsed.error.issues[0].message, {
+      code: "VALIDATION_ERROR",
+      statusCode: 400,
+      details: { field: parsed.error.issues[0].path.join(".") },
+    });
+    logError(error, classifyError(error));
+    return { error: error.message };
+  }
+
+  try {
+    await createOrganization(parsed.data.name, userId);
+  } catch (error) {
+    const appError = createAppError(
+      `${organizationErrorMessages.creationFailed}: ${error instanceof Error ? error.message : "Unknown error"}`,
+      {
+        code: "CREATE_FAILED",
+        statusCode: 500,
+        details: { userId, name: parsed.data.name, originalError: error },
+      },
+    );
+    logError(appError, classifyError(appError));
+    return { error: getUserFriendlyMessage(appError) };
+  }
+
+  revalidatePath("/", "layout");
+  return { success: true };
+}
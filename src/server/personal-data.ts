@@ -0,0 +1,294 @@
+"use server";
+
+import { and, eq, inArray } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
+import { db } from "@/db";
+import { dataErasureRequest } from "@/db/schema";
+import { AuditLogger } from "@/lib/audit-logger";
+import {
+  getPermissionChecker,
+  getSessionWithRole,
+  requirePermission,
+} from "@/lib/auth-utils";
+import {
+  classifyError,
+  createAppError,
+  getUserFriendlyMessage,
+  logError,
+} from "@/lib/error-utils";
+import {
+  erasePersonalData,
+  getErasureRequests,
+  getLatestErasureRequest,
+} from "@/lib/personal-data";
+import { uuidSchema } from "@/lib/validations/common";
+import {
+  type ErasureRequestData,
+  type ErasureReviewData,
+  erasureRequestSchema,
+  erasureReviewSchema,
+  personalDataErrorMessages,
+} from "@/lib/validations/personal-data";
+
+function validationError(issues: { message: string; path: PropertyKey[] }[]): {
+  error: string;
+} {
+  const error = createAppError(issues[0].message, {
+    code: "VALIDATION_ERROR",
+    statusCode: 400,
+    details: { field: issues[0].path.join(".") },
+  });
+  logError(error, classifyError(error));
+  return { error: error.message };
+}
+
+function failure(
+  message: string,
+  code: string,
+  details: object,
+  error: unknown,
+) {
+  const appError = createAppError(
+    `${message}: ${error instanceof Error ? error.message : "Unknown error"}`,
+    { code, statusCode: 500, details: { ...details, originalError: error } },
+  );
+  logError(appError, classifyError(appError));
+  return { error: getUserFriendlyMessage(appError) };
+}
+
+async function authenticate() {
+  const session = await getSessionWithRole();
+  if (!session) {
+    const appError = createAppError("Authentication required", {
+      code: "UNAUTHORIZED",
+      statusCode: 401,
+    });
+    logError(appError, classifyError(appError));
+    return { error: getUserFriendlyMessage(appError) };
+  }
+  return { session };
+}
+
+async function authorizeErasureReview(action: "approve" | "reject") {
+  try {
+    const session = await requirePermission("dataErasure", action);
+    return { session };
+  } catch (error) {
+    const appError = createAppError(
+      error instanceof Error ? error.message : "Access denied",
+      { code: "FORBIDDEN", statusCode: 403 },
+    );
+    logError(appError, classifyError(appError));
+    return { error: getUserFriendlyMessage(appError) };
+  }
+}
+
+/**
+ * The signed-in user's latest erasure request, or null.
+ */
+export async function getMyErasureRequest() {
+  const session = await getSessionWithRole();
+  if (!session) return null;
+  return getLatestErasureRequest(session.user.id);
+}
+
+/**
+ * Erasure requests in the active organisation, for managers to review.
+ */
+export async function getOrganizationErasureRequests() {
+  const session = await requirePermission("dataErasure", "approve");
+  return getErasureRequests(session.organization.id);
+}
+
+export async function requestErasure(data: ErasureRequestData) {
+  const authResult = await authenticate();
+  if ("error" in authResult) return { error: authResult.error };
+  const { session } = authResult;
+  const userId = session.user.id;
+
+  const parsed = erasureRequestSchema.safeParse(data);
+  if (!parsed.success) return validationError(parsed.error.issues);
+
+  try {
+    const latest = await getLatestErasureRequest(userId);
+    if (latest && ["pending", "approved"].includes(latest.status)) {
+      return { error: personalDataErrorMessages.requestPending };
+    }
+
+    const [request] = await db
+      .insert(dataErasureRequest)
+      .values({
+        userId,
+        organizationId: session.organization.id,
+        reason: parsed.data.reason,
+      })
+      .returning({ id: dataErasureRequest.id });
+
+    await AuditLogger.logErasureRequested(userId, request.id, {
+      organizationId: session.organization.id,
+      reason: parsed.data.reason ?? undefined,
+    });
+  } catch (error) {
+    return failure(
+      personalDataErrorMessages.requestFailed,
+      "REQUEST_FAILED",
+      { userId },
+      error,
+    );
+  }
+
+  revalidatePath("/account");
+  revalidatePath("/manager/erasure-requests");
+  return { success: true };
+}
+
+export async function cancelErasureRequest(requestId: string) {
+  const authResult = await authenticate();
+  if ("error" in authResult) return { error: authResult.error };
+  const userId = authResult.session.user.id;
+
+  const id = uuidSchema.safeParse(requestId);
+  if (!id.success) return validationError(id.error.issues);
+
+  try {
+    const cancelled = await db
+      .update(dataErasureRequest)
+      .set({ status: "cancelled" })
+      .where(
+        and(
+          eq(dataErasureRequest.id, id.data),
+          eq(dataErasureRequest.userId, userId),
+          eq(dataErasureRequest.status, "pending"),
+        ),
+      )
+      .returning({ organizationId: dataErasureRequest.organizationId });
+    if (cancelled.length === 0) {
+      return { error: personalDataErrorMessages.notPending };
+    }
+
+    await AuditLogger.logErasureCancelled(userId, id.data, {
+      organizationId: cancelled[0].organizationId,
+    });
+  } catch (error) {
+    return failure(
+      personalDataErrorMessages.cancelFailed,
+      "CANCEL_FAILED",
+      { userId, requestId },
+      error,
+    );
+  }
+
+  revalidatePath("/account");
+  revalidatePath("/manager/erasure-requests");
+  return { success: true };
+}
+
+/**
+ * Approve or reject an erasure request. Approving erases the member's
+ * data straight away; an approved request whose erasure failed can be
+ * approved again to retry it.
+ */
+export async function reviewErasureRequest(data: ErasureReviewData) {
+  const parsed = erasureReviewSchema.safeParse(data);
+  if (!parsed.success) return validationError(parsed.error.issues);
+  const { requestId, action, reason } = parsed.data;
+
+  const authResult = await authorizeErasureReview(action);
+  if ("error" in authResult) return { error: authResult.error };
+  const { session } = authResult;
+  const reviewerId = session.user.id;
+  const organizationId = session.organization.id;
+
+  const [request] = await getErasureRequests(organizationId, { requestId });
+  if (!request) return { error: personalDataErrorMessages.notFound };
+
+  if (
+    !getPermissionChecker(session).canReviewErasure({
+      id: request.userId,
+      role: request.memberRole,
+    })
+  ) {
+    return {
+      error:
+        request.userId === reviewerId
+          ? personalDataErrorMessages.ownRequest
+          : personalDataErrorMessages.outranked,
+    };
+  }
+
+  try {
+    const reviewed = await db
+      .update(dataErasureRequest)
+      .set({
+        status: action === "approve" ? "approved" : "rejected",
+        reviewedBy: reviewerId,
+        reviewedAt: new Date(),
+        rejectionReason: action === "reject" ? reason : null,
+      })
+      .where(
+        and(
+          eq(dataErasureRequest.id, requestId),
+          inArray(
+            dataErasureRequest.status,
+            action === "approve" ? ["pending", "approved"] : ["pending"],
+          ),
+        ),
+      )
+      .returning({ id: dataErasureRequest.id });
+    if (reviewed.length === 0) {
+      return { error: personalDataErrorMessages.notPending };
+    }
+
+    if (action === "reject") {
+      await AuditLogger.logErasureRejected(
+        request.userId,
+        requestId,
+        reviewerId,
+        reason ?? "",
+        { organizationId },
+      );
+    } else if (request.status === "pending") {
+      await AuditLogger.logErasureApproved(
+        request.userId,
+        requestId,
+        reviewerId,
+        { organizationId },
+      );
+    }
+  } catch (error) {
+    return failure(
+      personalDataErrorMessages.reviewFailed,
+      "REVIEW_FAILED",
+      { reviewerId, requestId },
+      error,
+    );
+  }
+
+  if (action === "approve") {
+    try {
+      const summary = await erasePersonalData(request.userId);
+      await db
+        .update(dataErasureRequest)
+        .set({ status: "completed", summary, completedAt: new Date() })
+        .where(eq(dataErasureRequest.id, requestId));
+      await AuditLogger.logErasureCompleted(
+        request.userId,
+        requestId,
+        reviewerId,
+        summary,
+        { organizationId },
+      );
+    } catch (error) {
+      revalidatePath("/manager/erasure-requests");
+      return failure(
+        personalDataErrorMessages.erasureFailed,
+        "ERASURE_FAILED",
+        { reviewerId, requestId },
+        error,
+      );
+    }
+  }
+
+  revalidatePath("/manager/erasure-requests");
+  return { success: true };
+}
@@ -0,0 +1,434 @@
+"use server";
+
+import { subDays } from "date-fns";
+import { and, asc, eq, isNull, or } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
+import { db } from "@/db";
+import {
+  organizationMember,
+  publishers,
+  tenderPipeline,
+  tenders,
+  trackedTenders,
+  user,
+} from "@/db/schema";
+import { AuditLogger } from "@/lib/audit-logger";
+import {
+  getPermissionChecker,
+  requireAuth,
+  requirePermission,
+} from "@/lib/auth-utils";
+import {
+  classifyError,
+  createAppError,
+  getUserFriendlyMessage,
+  logError,
+} from "@/lib/error-utils";
+import { getMemberRole } from "@/lib/organization";
+import { getPipelineReport, PIPELINE_REPORT_DAYS } from "@/lib/pipeline-report";
+import {
+  addToPipelineSchema,
+  pipelineErrorMessages,
+  pipelineItemFormSchema,
+  pipelineStageChangeSchema,
+  requiresPipelineReason,
+} from "@/lib/validations/pipeline";
+
+interface FormState {
+  error?: string;
+  success?: boolean;
+}
+
+const PIPELINE_PATH = "/dashboard/pipeline";
+
+async function authorizePipelineMutation() {
+  try {
+    const session = await requireAuth();
+    return {
+      userId: session.user.id,
+      organizationId: session.organization.id,
+      teamView: getPermissionChecker(session).can("pipeline", "manage"),
+    };
+  } catch (error) {
+    const appError = createAppError(
+      error instanceof Error ? error.message : "Authentication required",
+      { code: "UNAUTHORIZED", statusCode: 401 },
+    );
+    logError(appError, classifyError(appError));
+    return { error: getUserFriendlyMessage(appError) };
+  }
+}
+
+function validationError(issue: { message: string; path: PropertyKey[] }) {
+  const error = createAppError(issue.message, {
+    code: "VALIDATION_ERROR",
+    statusCode: 400,
+    details: { field: issue.path.join(".") },
+  });
+  logError(error, classifyError(error));
+  return { error: error.message };
+}
+
+/**
+ * Load a card on the organisation's board if the user may change it:
+ * managers can change any card, everyone else only the cards they own.
+ */
+async function findEditablePipelineItem(
+  id: string,
+  access: { userId: string; organizationId: string; teamView: boolean },
+) {
+  const { userId, organizationId, teamView } = access;
+  const [item] = await db
+    .select()
+    .from(tenderPipeline)
+    .where(
+      and(
+        eq(tenderPipeline.id, id),
+        eq(tenderPipeline.organizationId, organizationId),
+      ),
+    )
+    .limit(1);
+
+  if (!item) return { error: pipelineErrorMessages.itemNotFound };
+  if (!teamView && item.ownerId !== userId) {
+    return { error: pipelineErrorMessages.notAllowed };
+  }
+  return { item };
+}
+
+/**
+ * Cards on the active organisation's board. Managers see the whole
+ * team's pipeline; everyone else sees the cards they own.
+ */
+export async function getPipelineBoard() {
+  const session = await requireAuth();
+  const teamView = getPermissionChecker(session).can("pipeline", "manage");
+
+  const items = await db
+    .select({
+      id: tenderPipeline.id,
+      stage: tenderPipeline.stage,
+      ownerId: tenderPipeline.ownerId,
+      ownerName: user.name,
+      reviewDueDate: tenderPipeline.reviewDueDate,
+      submissionDueDate: tenderPipeline.submissionDueDate,
+      notes: tenderPipeline.notes,
+      outcomeReason: tenderPipeline.outcomeReason,
+      stageChangedAt: tenderPipeline.stageChangedAt,
+      tenderId: tenders.id,
+      referenceNumber: tenders.referenceNumber,
+      title: tenders.title,
+      closingDate: tenders.closingDate,
+      tenderStatus: tenders.status,
+      sourceUrl: tenders.sourceUrl,
+      publisherName: publishers.name,
+    })
+    .from(tenderPipeline)
+    .innerJoin(tenders, eq(tenderPipeline.tenderId, tenders.id))
+    .innerJoin(publishers, eq(tenders.publisherId, publishers.id))
+    .leftJoin(user, eq(tenderPipeline.ownerId, user.id))
+    .where(
+      and(
+        eq(tenderPipeline.organizationId, session.organization.id),
+        teamView ? undefined : eq(tenderPipeline.ownerId, session.user.id),
+      ),
+    )
+    .orderBy(asc(tenders.closingDate));
+
+  return { items, teamView, userId: session.user.id };
+}
+
+/**
+ * Open tenders the signed-in user tracks that are not on the board yet.
+ */
+export async function getPipelineCandidates() {
+  const session = await requireAuth();
+
+  return db
+    .select({
+      id: tenders.id,
+      referenceNumber: tenders.referenceNumber,
+      title: tenders.title,
+      closingDate: tenders.closingDate,
+      publisherName: publishers.name,
+    })
+    .from(trackedTenders)
+    .innerJoin(tenders, eq(trackedTenders.tenderId, tenders.id))
+    .innerJoin(publishers, eq(tenders.publisherId, publishers.id))
+    .leftJoin(
+      tenderPipeline,
+      and(
+        eq(tenderPipeline.tenderId, tenders.id),
+        eq(tenderPipeline.organizationId, session.organization.id),
+      ),
+    )
+    .where(
+      and(
+        eq(trackedTenders.userId, session.user.id),
+        eq(tenders.status, "open"),
+        isNull(tenderPipeline.id),
+      ),
+    )
+    .orderBy(asc(tenders.closingDate));
+}
+
+/**
+ * Active members of the organisation a manager can assign cards to.
+ */
+export async function getPipelineOwners() {
+  const session = await requirePermission("pipeline", "manage");
+
+  return db
+    .select({ id: user.id, name: user.name, email: user.email })
+    .from(organizationMember)
+    .innerJoin(user, eq(organizationMember.userId, user.id))
+    .where(
+      and(
+        eq(organizationMember.organizationId, session.organization.id),
+        or(eq(user.status, "active"), isNull(user.status)),
+      ),
+    )
+    .orderBy(asc(user.name));
+}
+
+/**
+ * Win rate and decline reasons across the team for the report period.
+ */
+export async function getTeamPipelineReport() {
+  const session = await requirePermission("pipeline", "manage");
+  return getPipelineReport(
+    session.organization.id,
+    subDays(new Date(), PIPELINE_REPORT_DAYS),
+  );
+}
+
+/**
+ * Put a tender on the board in the Identified stage, owned by the user
+ * who added it.
+ */
+export async function addTenderToPipeline(
+  _prevState: FormState,
+  formData: FormData,
+) {
+  const authResult = await authorizePipelineMutation();
+  if ("error" in authResult) return { error: authResult.error };
+  const { userId, organizationId } = authResult;
+
+  const parsed = addToPipelineSchema.safeParse({
+    tenderId: formData.get("tenderId"),
+  });
+  if (!parsed.success) return validationError(parsed.error.issues[0]);
+  const { tenderId } = parsed.data;
+
+  try {
+    const inserted = await db
+      .insert(tenderPipeline)
+      .values({ organizationId, tenderId, ownerId: userId, createdBy: userId })
+      .onConflictDoNothing({
+        target: [tenderPipeline.organizationId, tenderPipeline.tenderId],
+      })
+      .returning({ id: tenderPipeline.id });
+
+    if (inserted.length === 0) {
+      return { error: pipelineErrorMessages.alreadyInPipeline };
+    }
+
+    // Owners get the tender's deadlines on their calendar and reminders
+    await db
+      .insert(trackedTenders)
+      .values({ userId, tenderId })
+      .onConflictDoNothing();
+  } catch (error) {
+    const appError = createAppError(
+      `${pipelineErrorMessages.addFailed}: ${error instanceof Error ? error.message : "Unknown error"}`,
+      {
+        code: "CREATE_FAILED",
+        statusCode: 500,
+        details: { userId, tenderId, originalError: error },
+      },
+    );
+    logError(appError, classifyError(appError));
+    return { error: getUserFriendlyMessage(appError) };
+  }
+
+  revalidatePath(PIPELINE_PATH);
+  return { success: true };
+}
+
+/**
+ * Update a card's due dates and notes. Only managers can reassign it.
+ */
+export async function updatePipelineItem(
+  _prevState: FormState,
+  formData: FormData,
+) {
+  const authResult = await authorizePipelineMutation();
+  if ("error" in authResult) return { error: authResult.error };
+  const { userId, teamView } = authResult;
+
+  const id = formData.get("id") as string;
+  if (!id) return { error: "Pipeline card ID is required" };
+
+  const parsed = pipelineItemFormSchema.safeParse({
+    ownerId: (formData.get("ownerId") as string) ?? "",
+    reviewDueDate: (formData.get("reviewDueDate") as string) ?? "",
+    submissionDueDate: (formData.get("submissionDueDate") as string) ?? "",
+    notes: (formData.get("notes") as string) ?? "",
+  });
+  if (!parsed.success) return validationError(parsed.error.issues[0]);
+  const { ownerId, reviewDueDate, submissionDueDate, notes } = parsed.data;
+
+  try {
+    const result = await findEditablePipelineItem(id, authResult);
+    if ("error" in result) return { error: result.error };
+    const { item } = result;
+
+    const newOwnerId = teamView ? ownerId || null : item.ownerId;
+    if (
+      newOwnerId &&
+      newOwnerId !== item.ownerId &&
+      !(await getMemberRole(item.organizationId, newOwnerId))
+    ) {
+      return { error: "The new owner is not a member of this organisation" };
+    }
+
+    await db
+      .update(tenderPipeline)
+      .set({
+        ownerId: newOwnerId,
+        reviewDueDate: reviewDueDate ? new Date(reviewDueDate) : null,
+        submissionDueDate: submissionDueDate
+          ? new Date(submissionDueDate)
+          : null,
+        notes: notes?.trim() || null,
+      })
+      .where(eq(tenderPipeline.id, id));
+
+    if (newOwnerId && newOwnerId !== item.ownerId) {
+      await db
+        .insert(trackedTenders)
+        .values({ userId: newOwnerId, tenderId: item.tenderId })
+        .onConflictDoNothing();
+    }
+  } catch (error) {
+    const appError = createAppError(
+      `${pipelineErrorMessages.updateFailed}: ${error instanceof Error ? error.message : "Unknown error"}`,
+      {
+        code: "UPDATE_FAILED",
+        statusCode: 500,
+        details: { userId, pipelineItemId: id, originalError: error },
+      },
+    );
+    logError(appError, classifyError(appError));
+    return { error: getUserFriendlyMessage(appError) };
+  }
+
+  revalidatePath(PIPELINE_PATH);
+  return { success: true };
+}
+
+/**
+ * Move a card to another stage. Declining or losing a tender needs a
+ * reason, and every move is written to the audit log for reporting.
+ */
+export async function movePipelineItem(formData: FormData) {
+  const authResult = await authorizePipelineMutation();
+  if ("error" in authResult) return { error: authResult.error };
+  const { userId } = authResult;
+
+  const parsed = pipelineStageChangeSchema.safeParse({
+    id: formData.get("id"),
+    stage: formData.get("stage"),
+    reason: (formData.get("reason") as string) ?? "",
+  });
+  if (!parsed.success) return validationError(parsed.error.issues[0]);
+  const { id, stage, reason } = parsed.data;
+
+  try {
+    const result = await findEditablePipelineItem(id, authResult);
+    if ("error" in result) return { error: result.error };
+    const { item } = result;
+
+    if (item.stage === stage) return { success: true };
+
+    const outcomeReason = requiresPipelineReason(stage) ? reason || null : null;
+
+    // Only move from the stage that was read, so concurrent moves are
+    // not logged against the wrong previous stage
+    const moved = await db
+      .update(tenderPipeline)
+      .set({ stage, outcomeReason, stageChangedAt: new Date() })
+      .where(
+        and(eq(tenderPipeline.id, id), eq(tenderPipeline.stage, item.stage)),
+      )
+      .returning({ id: tenderPipeline.id });
+
+    if (moved.length === 0) {
+      return { error: pipelineErrorMessages.moveFailed };
+    }
+
+    await AuditLogger.logPipelineStageChanged(userId, id, item.stage, stage, {
+      organizationId: item.organizationId,
+      reason: outcomeReason ?? undefined,
+      metadata: { tenderId: item.tenderId, ownerId: item.ownerId },
+    });
+  } catch (error) {
+    const appError = createAppError(
+      `${pipelineErrorMessages.moveFailed}: ${error instanceof Error ? error.message : "Unknown error"}`,
+      {
+        code: "UPDATE_FAILED",
+        statusCode: 500,
+        details: { userId, pipelineItemId: id, stage, originalError: error },
+      },
+    );
+    logError(appError, classifyError(appError));
+    return { error: getUserFriendlyMessage(appError) };
+  }
+
+  revalidatePath(PIPELINE_PATH);
+  return { success: true };
+}
+
+export async function removePipelineItem(formData: FormData) {
+  const id = formData.get("id") as string;
+  if (!id) {
+    throw createAppError("Pipeline card ID is required", {
+      code: "VALIDATION_ERROR",
+      statusCode: 400,
+    });
+  }
+
+  const authResult = await authorizePipelineMutation();
+  if ("error" in authResult) {
+    throw createAppError(authResult.error ?? "Authentication required", {
+      code: "UNAUTHORIZED",
+      statusCode: 401,
+    });
+  }
+  const { userId, organizationId, teamView } = authResult;
+
+  try {
+    await db
+      .delete(tenderPipeline)
+      .where(
+        and(
+          eq(tenderPipeline.id, id),
+          eq(tenderPipeline.organizationId, organizationId),
+          teamView ? undefined : eq(tenderPipeline.ownerId, userId),
+        ),
+      );
+  } catch (error) {
+    const appError = createAppError(
+      `${pipelineErrorMessages.removeFailed}: ${error instanceof Error ? error.message : "Unknown error"}`,
+      {
+        code: "DELETE_FAILED",
+        statusCode: 500,
+        details: { userId, pipelineItemId: id, originalError: error },
+      },
+    );
+    logError(appError, classifyError(appError));
+    throw appError;
+  }
+
+  revalidatePath(PIPELINE_PATH);
+}
@@ -1,9 +1,10 @@
 "use server";
 
-import { eq } from "drizzle-orm";
+import { and, eq } from "drizzle-orm";
 import { redirect } from "next/navigation";
 import { db } from "@/db";
-import { publishers, userBookmarks } from "@/db/schema";
+import { publisherLinkStatus, publishers, userBookmarks } from "@/db/schema";
+import { requireAuth } from "@/lib/auth-utils";
 import {
   classifyError,
   createAppError,
@@ -11,8 +12,14 @@ import {
   logError,
   retryWithBackoff,
 } from "@/lib/error-utils";
+import { getMemberRole } from "@/lib/organization";
+import { getLatestPublisherChanges } from "@/lib/publisher-snapshots";
+import { parsePublisherDetails } from "@/lib/validations/publisher";
 
-export async function getAllPublishers(userId?: string) {
+export async function getAllPublishers(
+  userId?: string,
+  organizationId?: string,
+) {
   try {
     console.log("getAllPublishers called with userId:", userId);
     const result = await retryWithBackoff(
@@ -25,24 +32,45 @@ export async function getAllPublishers(userId?: string) {
               id: publishers.id,
               name: publishers.name,
               website: publishers.website,
+              category: publishers.category,
+              tags: publishers.tags,
+              logoUrl: publishers.logoUrl,
+              linkBrokenSince: publisherLinkStatus.brokenSince,
             })
             .from(publishers)
+            .leftJoin(
+              publisherLinkStatus,
+              eq(publisherLinkStatus.publisherId, publishers.id),
+            )
             .orderBy(publishers.name);
 
           // Get bookmarked publisher IDs for the user
           const bookmarkedIds = await db
             .select({ publisherId: userBookmarks.publisherId })
             .from(userBookmarks)
-            .where(eq(userBookmarks.userId, userId));
+            .where(
+              and(
+                eq(userBookmarks.userId, userId),
+                organizationId
+                  ? eq(userBookmarks.organizationId, organizationId)
+                  : undefined,
+              ),
+            );
 
           const bookmarkedSet = new Set(
             bookmarkedIds.map((b) => b.publisherId),
           );
+          const changes = await getLatestPublisherChanges();
 
           return publishersList.map((p) => ({
             id: p.id,
             name: p.name,
             website: p.website,
+            category: p.category,
+            tags: p.tags,
+            logoUrl: p.logoUrl,
+            linkBrokenSince: p.linkBrokenSince,
+            lastChange: changes.get(p.id) ?? null,
             isBookmarked: bookmarkedSet.has(p.id),
           }));
         } else {
@@ -51,11 +79,23 @@ export async function getAllPublishers(userId?: string) {
               id: publishers.id,
               name: publishers.name,
               website: publishers.website,
+              category: publishers.category,
+              tags: publishers.tags,
+              logoUrl: publishers.logoUrl,
+              linkBrokenSince: publisherLinkStatus.brokenSince,
             })
             .from(publishers)
+            .leftJoin(
+              publisherLinkStatus,
+              eq(publisherLinkStatus.publisherId, publishers.id),
+            )
             .orderBy(publishers.name);
+          const changes = await getLatestPublisherChanges();
 
-          return publishersList;
+          return publishersList.map((p) => ({
+            ...p,
+            lastChange: changes.get(p.id) ?? null,
+          }));
         }
       },
       {
@@ -235,6 +275,17 @@ export async function updatePublisher(
     return { error: getUserFriendlyMessage(error) };
   }
 
+  const details = parsePublisherDetails(formData);
+  if ("error" in details) {
+    const error = createAppError(details.error, {
+      code: "VALIDATION_ERROR",
+      statusCode: 400,
+      details: { field: details.field },
+    });
+    logError(error, classifyError(error));
+    return { error: error.message };
+  }
+
   try {
     // Use retry mechanism for database operations
     await retryWithBackoff(
@@ -245,6 +296,7 @@ export async function updatePublisher(
             name: name.trim(),
             website: website?.trim() || null,
             province_id,
+            ...details.values,
           })
           .where(eq(publishers.id, id));
       },
@@ -325,6 +377,17 @@ export async function createPublisher(
     }
   }
 
+  const details = parsePublisherDetails(formData);
+  if ("error" in details) {
+    const error = createAppError(details.error, {
+      code: "VALIDATION_ERROR",
+      statusCode: 400,
+      details: { field: details.field },
+    });
+    logError(error, classifyError(error));
+    return { error: error.message };
+  }
+
   try {
     // Use retry mechanism for database operations
     await retryWithBackoff(
@@ -333,6 +396,7 @@ export async function createPublisher(
           name: name.trim(),
           website: website?.trim() || null,
           province_id,
+          ...details.values,
         });
       },
       {
@@ -368,30 +432,42 @@ export async function createPublisher(
   redirect("/admin/publishers");
 }
 
-export async function toggleBookmark(userId: string, publisherId: string) {
+export async function toggleBookmark(publisherId: string) {
+  // Bookmark for the signed-in user in their active organisation, never
+  // for IDs the client sends
+  const session = await requireAuth();
+  const userId = session.user.id;
+  const organizationId = session.organization.id;
+  if (!(await getMemberRole(organizationId, userId))) {
+    throw createAppError("Not a member of this organisation", {
+      code: "FORBIDDEN",
+      statusCode: 403,
+    });
+  }
+
   try {
+    // Bookmarks are kept per organisation
+    const bookmarkCondition = and(
+      eq(userBookmarks.userId, userId),
+      eq(userBookmarks.organizationId, organizationId),
+      eq(userBookmarks.publisherId, publisherId),
+    );
+
     // Check if any bookmark exists for this user and publisher
     const existingBookmarks = await db
       .select()
       .from(userBookmarks)
-      .where(
-        eq(userBookmarks.userId, userId) &&
-          eq(userBookmarks.publisherId, publisherId),
-      );
+      .where(bookmarkCondition);
 
     if (existingBookmarks.length > 0) {
       // Remove all bookmarks for this user and publisher
-      await db
-        .delete(userBookmarks)
-        .where(
-          eq(userBookmarks.userId, userId) &&
-            eq(userBookmarks.publisherId, publisherId),
-        );
+      await db.delete(userBookmarks).where(bookmarkCondition);
       return { bookmarked: false };
     } else {
       // Add bookmark
       await db.insert(userBookmarks).values({
         userId,
+        organizationId,
         publisherId,
       });
       return { bookmarked: true };
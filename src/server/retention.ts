@@ -0,0 +1,206 @@
+"use server";
+
+import { eq } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
+import { db } from "@/db";
+import { retentionPolicies } from "@/db/schema";
+import { requirePermission } from "@/lib/auth-utils";
+import {
+  classifyError,
+  createAppError,
+  getUserFriendlyMessage,
+  logError,
+} from "@/lib/error-utils";
+import {
+  createRetentionPolicy,
+  deleteRetentionPolicy,
+  getRetentionPolicies,
+  getRetentionRuns,
+  runRetentionPolicy,
+  updateRetentionPolicy,
+} from "@/lib/retention";
+import { uuidSchema } from "@/lib/validations/common";
+import {
+  type RetentionPolicyFormData,
+  retentionErrorMessages,
+  retentionPolicyFormSchema,
+} from "@/lib/validations/retention";
+
+// Retention deletes data across every organisation, so changing or
+// running policies is reserved for platform admins and owners
+async function authorizeRetentionMutation() {
+  try {
+    const session = await requirePermission("settings", "update");
+    if (
+      session.user.platformRole !== "admin" &&
+      session.user.platformRole !== "owner"
+    ) {
+      throw new Error("Only platform administrators can manage retention");
+    }
+    return { userId: session.user.id };
+  } catch (error) {
+    const appError = createAppError(
+      error instanceof Error ? error.message : "Access denied",
+      { code: "FORBIDDEN", statusCode: 403 },
+    );
+    logError(appError, classifyError(appError));
+    return { error: getUserFriendlyMessage(appError) };
+  }
+}
+
+function validationError(issues: { message: string; path: PropertyKey[] }[]): {
+  error: string;
+} {
+  const error = createAppError(issues[0].message, {
+    code: "VALIDATION_ERROR",
+    statusCode: 400,
+    details: { field: issues[0].path.join(".") },
+  });
+  logError(error, classifyError(error));
+  return { error: error.message };
+}
+
+function failure(
+  message: string,
+  code: string,
+  details: object,
+  error: unknown,
+) {
+  const appError = createAppError(
+    `${message}: ${error instanceof Error ? error.message : "Unknown error"}`,
+    { code, statusCode: 500, details: { ...details, originalError: error } },
+  );
+  logError(appError, classifyError(appError));
+  return { error: getUserFriendlyMessage(appError) };
+}
+
+/**
+ * Retention policies with their latest runs. They cover every
+ * organisation, so only platform admins and owners can see them.
+ */
+export async function getRetentionOverview() {
+  const session = await requirePermission("settings", "read");
+  if (
+    session.user.platformRole !== "admin" &&
+    session.user.platformRole !== "owner"
+  ) {
+    throw new Error("Only platform administrators can view retention");
+  }
+  const [policies, runs] = await Promise.all([
+    getRetentionPolicies(),
+    getRetentionRuns(),
+  ]);
+  return { policies, runs };
+}
+
+export async function createRetentionPolicyAction(
+  data: RetentionPolicyFormData,
+) {
+  const authResult = await authorizeRetentionMutation();
+  if ("error" in authResult) return { error: authResult.error };
+
+  const parsed = retentionPolicyFormSchema.safeParse(data);
+  if (!parsed.success) return validationError(parsed.error.issues);
+
+  try {
+    await createRetentionPolicy(parsed.data);
+  } catch (error) {
+    return failure(
+      retentionErrorMessages.createFailed,
+      "CREATE_FAILED",
+      { userId: authResult.userId },
+      error,
+    );
+  }
+
+  revalidatePath("/admin/database");
+  return { success: true };
+}
+
+export async function updateRetentionPolicyAction(
+  policyId: string,
+  data: RetentionPolicyFormData,
+) {
+  const authResult = await authorizeRetentionMutation();
+  if ("error" in authResult) return { error: authResult.error };
+
+  const id = uuidSchema.safeParse(policyId);
+  if (!id.success) return validationError(id.error.issues);
+  const parsed = retentionPolicyFormSchema.safeParse(data);
+  if (!parsed.success) return validationError(parsed.error.issues);
+
+  try {
+    const policy = await updateRetentionPolicy(id.data, parsed.data);
+    if (!policy) return { error: retentionErrorMessages.notFound };
+  } catch (error) {
+    return failure(
+      retentionErrorMessages.updateFailed,
+      "UPDATE_FAILED",
+      { userId: authResult.userId, policyId },
+      error,
+    );
+  }
+
+  revalidatePath("/admin/database");
+  return { success: true };
+}
+
+export async function deleteRetentionPolicyAction(policyId: string) {
+  const authResult = await authorizeRetentionMutation();
+  if ("error" in authResult) return { error: authResult.error };
+
+  const id = uuidSchema.safeParse(policyId);
+  if (!id.success) return validationError(id.error.issues);
+
+  try {
+    const deleted = await deleteRetentionPolicy(id.data);
+    if (!deleted) return { error: retentionErrorMessages.notFound };
+  } catch (error) {
+    return failure(
+      retentionErrorMessages.deleteFailed,
+      "DELETE_FAILED",
+      { userId: authResult.userId, policyId },
+      error,
+    );
+  }
+
+  revalidatePath("/admin/database");
+  return { success: true };
+}
+
+/**
+ * Run one policy now. A dry run only counts the rows it would delete.
+ */
+export async function runRetentionPolicyAction(
+  policyId: string,
+  dryRun: boolean,
+) {
+  const authResult = await authorizeRetentionMutation();
+  if ("error" in authResult) return { error: authResult.error };
+
+  const id = uuidSchema.safeParse(policyId);
+  if (!id.success) return validationError(id.error.issues);
+
+  try {
+    const [policy] = await db
+      .select()
+      .from(retentionPolicies)
+      .where(eq(retentionPolicies.id, id.data))
+      .limit(1);
+    if (!policy) return { error: retentionErrorMessages.notFound };
+
+    const result = await runRetentionPolicy(policy, {
+      dryRun: dryRun === true,
+      triggeredBy: authResult.userId,
+    });
+    revalidatePath("/admin/database");
+    return { result };
+  } catch (error) {
+    return failure(
+      retentionErrorMessages.runFailed,
+      "RUN_FAILED",
+      { userId: authResult.userId, policyId },
+      error,
+    );
+  }
+}
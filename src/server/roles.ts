@@ -0,0 +1,191 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { getPermissionChecker, requirePermission } from "@/lib/auth-utils";
+import {
+  classifyError,
+  createAppError,
+  getUserFriendlyMessage,
+  logError,
+} from "@/lib/error-utils";
+import type { PermissionAction } from "@/lib/permissions";
+import {
+  createCustomRole,
+  deleteCustomRole,
+  getCustomRoles,
+  RoleGrantError,
+  updateCustomRole,
+} from "@/lib/roles";
+import {
+  customRoleErrorMessages,
+  customRoleFormSchema,
+  customRoleIdSchema,
+} from "@/lib/validations/custom-role";
+
+interface FormState {
+  error?: string;
+  success?: boolean;
+}
+
+const ROLES_PATH = "/admin/settings";
+
+async function authorizeRoleMutation(
+  action: Exclude<PermissionAction<"role">, "assign">,
+) {
+  try {
+    const session = await requirePermission("role", action);
+    return {
+      userId: session.user.id,
+      organizationId: session.organization.id,
+      actor: getPermissionChecker(session),
+    };
+  } catch (error) {
+    const appError = createAppError(
+      error instanceof Error ? error.message : "Access denied",
+      { code: "FORBIDDEN", statusCode: 403 },
+    );
+    logError(appError, classifyError(appError));
+    return { error: getUserFriendlyMessage(appError) };
+  }
+}
+
+function parseRoleForm(formData: FormData) {
+  const parsed = customRoleFormSchema.safeParse({
+    name: formData.get("name") ?? "",
+    description: formData.get("description") || undefined,
+    baseRole: formData.get("baseRole"),
+    permissions: formData.getAll("permissions"),
+  });
+  if (parsed.success) return parsed;
+
+  const error = createAppError(parsed.error.issues[0].message, {
+    code: "VALIDATION_ERROR",
+    statusCode: 400,
+    details: { field: parsed.error.issues[0].path.join(".") },
+  });
+  logError(error, classifyError(error));
+  return { success: false as const, error: error.message };
+}
+
+function saveFailed(error: unknown, details: Record<string, unknown>) {
+  if (error instanceof RoleGrantError) {
+    const appError = createAppError(error.message, {
+      code: "FORBIDDEN",
+      statusCode: 403,
+      details,
+    });
+    logError(appError, classifyError(appError));
+    return { error: appError.message };
+  }
+
+  const appError = createAppError(
+    `${customRoleErrorMessages.saveFailed}: ${error instanceof Error ? error.message : "Unknown error"}`,
+    {
+      code: "UPDATE_FAILED",
+      statusCode: 500,
+      details: { ...details, originalError: error },
+    },
+  );
+  logError(appError, classifyError(appError));
+  return { error: getUserFriendlyMessage(appError) };
+}
+
+/**
+ * Custom roles of the active organisation.
+ */
+export async function getOrganizationRoles() {
+  const session = await requirePermission("role", "assign");
+  return getCustomRoles(session.organization.id);
+}
+
+export async function createCustomRoleAction(
+  _prevState: FormState,
+  formData: FormData,
+) {
+  const authResult = await authorizeRoleMutation("create");
+  if ("error" in authResult) return { error: authResult.error };
+  const { userId, organizationId, actor } = authResult;
+
+  const parsed = parseRoleForm(formData);
+  if (!parsed.success) return { error: parsed.error };
+
+  try {
+    const created = await createCustomRole(organizationId, actor, parsed.data, {
+      userId,
+    });
+    if (!created) return { error: customRoleErrorMessages.duplicateName };
+  } catch (error) {
+    return saveFailed(error, { userId, organizationId });
+  }
+
+  revalidatePath(ROLES_PATH);
+  return { success: true };
+}
+
+export async function updateCustomRoleAction(
+  _prevState: FormState,
+  formData: FormData,
+) {
+  const authResult = await authorizeRoleMutation("update");
+  if ("error" in authResult) return { error: authResult.error };
+  const { userId, organizationId, actor } = authResult;
+
+  const id = customRoleIdSchema.safeParse({ id: formData.get("id") });
+  if (!id.success) return { error: customRoleErrorMessages.notFound };
+
+  const parsed = parseRoleForm(formData);
+  if (!parsed.success) return { error: parsed.error };
+
+  try {
+    const updated = await updateCustomRole(
+      organizationId,
+      id.data.id,
+      actor,
+      parsed.data,
+      { userId },
+    );
+    if (!updated) return { error: customRoleErrorMessages.notFound };
+  } catch (error) {
+    // Renaming onto an existing role violates the unique index
+    if (error instanceof Error && error.message.includes("unique")) {
+      return { error: customRoleErrorMessages.duplicateName };
+    }
+    return saveFailed(error, { userId, organizationId, roleId: id.data.id });
+  }
+
+  // Members holding the role may have moved to another base role
+  revalidatePath("/", "layout");
+  return { success: true };
+}
+
+export async function deleteCustomRoleAction(formData: FormData) {
+  const authResult = await authorizeRoleMutation("delete");
+  if ("error" in authResult) return { error: authResult.error };
+  const { userId, organizationId, actor } = authResult;
+
+  const id = customRoleIdSchema.safeParse({ id: formData.get("id") });
+  if (!id.success) return { error: customRoleErrorMessages.notFound };
+
+  try {
+    const deleted = await deleteCustomRole(organizationId, id.data.id, actor, {
+      userId,
+    });
+    if (!deleted) return { error: customRoleErrorMessages.notFound };
+  } catch (error) {
+    if (error instanceof RoleGrantError) return { error: error.message };
+
+    const appError = createAppError(
+      `${customRoleErrorMessages.deleteFailed}: ${error instanceof Error ? error.message : "Unknown error"}`,
+      {
+        code: "DELETE_FAILED",
+        statusCode: 500,
+        details: { userId, organizationId, roleId: id.data.id },
+      },
+    );
+    logError(appError, classifyError(appError));
+    return { error: getUserFriendlyMessage(appError) };
+  }
+
+  revalidatePath("/", "layout");
+  return { success: true };
+}
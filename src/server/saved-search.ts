@@ -0,0 +1,221 @@
+"use server";
+
+import { and, count, desc, eq } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
+import { db } from "@/db";
+import { savedSearches } from "@/db/schema";
+import { requireAuth } from "@/lib/auth-utils";
+import {
+  classifyError,
+  createAppError,
+  getUserFriendlyMessage,
+  logError,
+} from "@/lib/error-utils";
+import { uuidSchema } from "@/lib/validations/common";
+import {
+  savedSearchErrorMessages,
+  savedSearchFormDataToObject,
+  savedSearchFormSchema,
+} from "@/lib/validations/saved-search";
+
+interface FormState {
+  error?: string;
+  success?: boolean;
+}
+
+const SAVED_SEARCHES_PATH = "/dashboard/saved-searches";
+
+// Keeps the alert matcher's per-run work bounded
+const MAX_SAVED_SEARCHES_PER_USER = 20;
+
+async function authorizeSavedSearchMutation() {
+  try {
+    const session = await requireAuth();
+    return { session };
+  } catch (error) {
+    const appError = createAppError(
+      error instanceof Error ? error.message : "Authentication required",
+      { code: "UNAUTHORIZED", statusCode: 401 },
+    );
+    logError(appError, classifyError(appError));
+    return { error: getUserFriendlyMessage(appError) };
+  }
+}
+
+function parseSavedSearchForm(formData: FormData) {
+  const parsed = savedSearchFormSchema.safeParse(
+    savedSearchFormDataToObject(formData),
+  );
+  if (!parsed.success) {
+    const error = createAppError(parsed.error.issues[0].message, {
+      code: "VALIDATION_ERROR",
+      statusCode: 400,
+      details: { field: parsed.error.issues[0].path.join(".") },
+    });
+    logError(error, classifyError(error));
+    return { error: error.message };
+  }
+
+  const { keywords, minValue, maxValue, ...rest } = parsed.data;
+  return {
+    data: {
+      ...rest,
+      keywords: keywords?.trim() || null,
+      minValue: minValue || null,
+      maxValue: maxValue || null,
+    },
+  };
+}
+
+/**
+ * List the signed-in user's saved searches, newest first.
+ */
+export async function getMySavedSearches() {
+  const session = await requireAuth();
+
+  return db
+    .select()
+    .from(savedSearches)
+    .where(eq(savedSearches.userId, session.user.id))
+    .orderBy(desc(savedSearches.createdAt));
+}
+
+/**
+ * Load one of the signed-in user's saved searches, or null if it does not
+ * exist or belongs to someone else.
+ */
+export async function getMySavedSearch(id: string) {
+  const session = await requireAuth();
+  if (!uuidSchema.safeParse(id).success) return null;
+
+  const [search] = await db
+    .select()
+    .from(savedSearches)
+    .where(
+      and(eq(savedSearches.id, id), eq(savedSearches.userId, session.user.id)),
+    )
+    .limit(1);
+
+  return search ?? null;
+}
+
+export async function createSavedSearch(
+  _prevState: FormState,
+  formData: FormData,
+) {
+  const authResult = await authorizeSavedSearchMutation();
+  if ("error" in authResult) return { error: authResult.error };
+  const userId = authResult.session.user.id;
+
+  const result = parseSavedSearchForm(formData);
+  if ("error" in result) return { error: result.error };
+
+  try {
+    const [{ total }] = await db
+      .select({ total: count() })
+      .from(savedSearches)
+      .where(eq(savedSearches.userId, userId));
+
+    if (total >= MAX_SAVED_SEARCHES_PER_USER) {
+      return { error: savedSearchErrorMessages.limitReached };
+    }
+
+    // Start matching from now so existing tenders are not alerted
+    await db
+      .insert(savedSearches)
+      .values({ ...result.data, userId, lastMatchedAt: new Date() });
+  } catch (error) {
+    const appError = createAppError(
+      `${savedSearchErrorMessages.creationFailed}: ${error instanceof Error ? error.message : "Unknown error"}`,
+      {
+        code: "CREATE_FAILED",
+        statusCode: 500,
+        details: { userId, name: result.data.name, originalError: error },
+      },
+    );
+    logError(appError, classifyError(appError));
+    return { error: getUserFriendlyMessage(appError) };
+  }
+
+  revalidatePath(SAVED_SEARCHES_PATH);
+  return { success: true };
+}
+
+export async function updateSavedSearch(
+  _prevState: FormState,
+  formData: FormData,
+) {
+  const authResult = await authorizeSavedSearchMutation();
+  if ("error" in authResult) return { error: authResult.error };
+  const userId = authResult.session.user.id;
+
+  const id = formData.get("id") as string;
+  if (!id) return { error: "Saved search ID is required" };
+
+  const result = parseSavedSearchForm(formData);
+  if ("error" in result) return { error: result.error };
+
+  try {
+    const updated = await db
+      .update(savedSearches)
+      .set(result.data)
+      .where(and(eq(savedSearches.id, id), eq(savedSearches.userId, userId)))
+      .returning({ id: savedSearches.id });
+
+    if (updated.length === 0) {
+      return { error: savedSearchErrorMessages.searchNotFound };
+    }
+  } catch (error) {
+    const appError = createAppError(
+      `${savedSearchErrorMessages.updateFailed}: ${error instanceof Error ? error.message : "Unknown error"}`,
+      {
+        code: "UPDATE_FAILED",
+        statusCode: 500,
+        details: { userId, savedSearchId: id, originalError: error },
+      },
+    );
+    logError(appError, classifyError(appError));
+    return { error: getUserFriendlyMessage(appError) };
+  }
+
+  revalidatePath(SAVED_SEARCHES_PATH);
+  return { success: true };
+}
+
+export async function deleteSavedSearch(formData: FormData) {
+  const id = formData.get("id") as string;
+  if (!id) {
+    throw createAppError("Saved search ID is required", {
+      code: "VALIDATION_ERROR",
+      statusCode: 400,
+    });
+  }
+
+  const authResult = await authorizeSavedSearchMutation();
+  if ("error" in authResult) {
+    throw createAppError(authResult.error ?? "Authentication required", {
+      code: "UNAUTHORIZED",
+      statusCode: 401,
+    });
+  }
+  const userId = authResult.session.user.id;
+
+  try {
+    await db
+      .delete(savedSearches)
+      .where(and(eq(savedSearches.id, id), eq(savedSearches.userId, userId)));
+  } catch (error) {
+    const appError = createAppError(
+      `${savedSearchErrorMessages.deleteFailed}: ${error instanceof Error ? error.message : "Unknown error"}`,
+      {
+        code: "DELETE_FAILED",
+        statusCode: 500,
+        details: { userId, savedSearchId: id, originalError: error },
+      },
+    );
+    logError(appError, classifyError(appError));
+    throw appError;
+  }
+
+  revalidatePath(SAVED_SEARCHES_PATH);
+}
@@ -0,0 +1,244 @@
+"use server";
+
+import { desc, eq } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
+import { db } from "@/db";
+import { publishers, tenderIngestionRuns, tenderSources } from "@/db/schema";
+import { requireAdmin } from "@/lib/auth-utils";
+import {
+  classifyError,
+  createAppError,
+  getUserFriendlyMessage,
+  logError,
+} from "@/lib/error-utils";
+import { runTenderIngestion } from "@/lib/tender-ingestion";
+import {
+  tenderSourceErrorMessages,
+  tenderSourceFormDataToObject,
+  tenderSourceFormSchema,
+} from "@/lib/validations/tender-source";
+
+interface FormState {
+  error?: string;
+  success?: boolean;
+}
+
+const SOURCES_PATH = "/admin/tenders/sources";
+
+async function authorizeSourceMutation() {
+  try {
+    const session = await requireAdmin();
+    // Sources feed the tender list every organisation sees
+    if (
+      session.user.platformRole !== "admin" &&
+      session.user.platformRole !== "owner"
+    ) {
+      throw new Error("Access denied. Platform admin required");
+    }
+    return { session };
+  } catch (error) {
+    const appError = createAppError(
+      error instanceof Error ? error.message : "Access denied",
+      { code: "FORBIDDEN", statusCode: 403 },
+    );
+    logError(appError, classifyError(appError));
+    return { error: getUserFriendlyMessage(appError) };
+  }
+}
+
+function parseSourceForm(formData: FormData) {
+  const raw = tenderSourceFormDataToObject(formData);
+  if (raw.config === null) {
+    return { error: tenderSourceErrorMessages.invalidConfig };
+  }
+
+  const parsed = tenderSourceFormSchema.safeParse(raw);
+  if (!parsed.success) {
+    const error = createAppError(parsed.error.issues[0].message, {
+      code: "VALIDATION_ERROR",
+      statusCode: 400,
+      details: { field: parsed.error.issues[0].path.join(".") },
+    });
+    logError(error, classifyError(error));
+    return { error: error.message };
+  }
+
+  return { data: parsed.data };
+}
+
+/**
+ * List tender sources with their publisher and most recent run report.
+ */
+export async function getTenderSources() {
+  const [sources, latestRuns] = await Promise.all([
+    db
+      .select({
+        id: tenderSources.id,
+        name: tenderSources.name,
+        type: tenderSources.type,
+        url: tenderSources.url,
+        config: tenderSources.config,
+        enabled: tenderSources.enabled,
+        lastRunAt: tenderSources.lastRunAt,
+        publisherId: tenderSources.publisherId,
+        publisherName: publishers.name,
+      })
+      .from(tenderSources)
+      .innerJoin(publishers, eq(tenderSources.publisherId, publishers.id))
+      .orderBy(publishers.name, tenderSources.name),
+    db
+      .selectDistinctOn([tenderIngestionRuns.sourceId])
+      .from(tenderIngestionRuns)
+      .orderBy(
+        tenderIngestionRuns.sourceId,
+        desc(tenderIngestionRuns.startedAt),
+      ),
+  ]);
+
+  const latestRunBySource = new Map(
+    latestRuns.map((run) => [run.sourceId, run]),
+  );
+
+  return sources.map((source) => ({
+    ...source,
+    latestRun: latestRunBySource.get(source.id) ?? null,
+  }));
+}
+
+export type TenderSourceListItem = Awaited<
+  ReturnType<typeof getTenderSources>
+>[number];
+
+export async function createTenderSource(
+  _prevState: FormState,
+  formData: FormData,
+) {
+  const authResult = await authorizeSourceMutation();
+  if ("error" in authResult) return { error: authResult.error };
+
+  const result = parseSourceForm(formData);
+  if ("error" in result) return { error: result.error };
+
+  try {
+    await db.insert(tenderSources).values(result.data);
+  } catch (error) {
+    const appError = createAppError(
+      `${tenderSourceErrorMessages.creationFailed}: ${error instanceof Error ? error.message : "Unknown error"}`,
+      {
+        code: "CREATE_FAILED",
+        statusCode: 500,
+        details: { name: result.data.name, originalError: error },
+      },
+    );
+    logError(appError, classifyError(appError));
+    return { error: getUserFriendlyMessage(appError) };
+  }
+
+  revalidatePath(SOURCES_PATH);
+  return { success: true };
+}
+
+export async function updateTenderSource(
+  _prevState: FormState,
+  formData: FormData,
+) {
+  const authResult = await authorizeSourceMutation();
+  if ("error" in authResult) return { error: authResult.error };
+
+  const id = formData.get("id") as string;
+  if (!id) return { error: "Tender source ID is required" };
+
+  const result = parseSourceForm(formData);
+  if ("error" in result) return { error: result.error };
+
+  try {
+    const updated = await db
+      .update(tenderSources)
+      .set(result.data)
+      .where(eq(tenderSources.id, id))
+      .returning({ id: tenderSources.id });
+
+    if (updated.length === 0) {
+      return { error: tenderSourceErrorMessages.sourceNotFound };
+    }
+  } catch (error) {
+    const appError = createAppError(
+      `${tenderSourceErrorMessages.updateFailed}: ${error instanceof Error ? error.message : "Unknown error"}`,
+      {
+        code: "UPDATE_FAILED",
+        statusCode: 500,
+        details: { sourceId: id, originalError: error },
+      },
+    );
+    logError(appError, classifyError(appError));
+    return { error: getUserFriendlyMessage(appError) };
+  }
+
+  revalidatePath(SOURCES_PATH);
+  return { success: true };
+}
+
+export async function deleteTenderSource(formData: FormData) {
+  const id = formData.get("id") as string;
+  if (!id) {
+    throw createAppError("Tender source ID is required", {
+      code: "VALIDATION_ERROR",
+      statusCode: 400,
+    });
+  }
+
+  const authResult = await authorizeSourceMutation();
+  if ("error" in authResult) {
+    throw createAppError(authResult.error ?? "Access denied", {
+      code: "FORBIDDEN",
+      statusCode: 403,
+    });
+  }
+
+  try {
+    await db.delete(tenderSources).where(eq(tenderSources.id, id));
+  } catch (error) {
+    const appError = createAppError(
+      `${tenderSourceErrorMessages.deleteFailed}: ${error instanceof Error ? error.message : "Unknown error"}`,
+      {
+        code: "DELETE_FAILED",
+        statusCode: 500,
+        details: { sourceId: id, originalError: error },
+      },
+    );
+    logError(appError, classifyError(appError));
+    throw appError;
+  }
+
+  revalidatePath(SOURCES_PATH);
+}
+
+/**
+ * Run ingestion for one source immediately and return its report.
+ */
+export async function runTenderSource(formData: FormData) {
+  const authResult = await authorizeSourceMutation();
+  if ("error" in authResult) return { error: authResult.error };
+
+  const id = formData.get("id") as string;
+  if (!id) return { error: "Tender source ID is required" };
+
+  try {
+    const [report] = await runTenderIngestion({ sourceId: id });
+    revalidatePath(SOURCES_PATH);
+    revalidatePath("/admin/tenders");
+    revalidatePath("/dashboard/tenders");
+    return { report };
+  } catch (error) {
+    const appError = createAppError(
+      `${tenderSourceErrorMessages.runFailed}: ${error instanceof Error ? error.message : "Unknown error"}`,
+      {
+        code: "INGESTION_FAILED",
+        statusCode: 500,
+        details: { sourceId: id, originalError: error },
+      },
+    );
+    logError(appError, classifyError(appError));
+    return { error: getUserFriendlyMessage(appError) };
+  }
+}
@@ -0,0 +1,385 @@
+"use server";
+
+import { and, asc, desc, eq, gte, ilike, or, type SQL } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
+import { db } from "@/db";
+import { provinces, publishers, type TenderStatus, tenders } from "@/db/schema";
+import { requirePermission } from "@/lib/auth-utils";
+import {
+  classifyError,
+  createAppError,
+  getUserFriendlyMessage,
+  logError,
+  retryWithBackoff,
+} from "@/lib/error-utils";
+import type { PermissionAction } from "@/lib/permissions";
+import {
+  buildSavedSearchConditions,
+  type SavedSearchCriteria,
+} from "@/lib/saved-search-query";
+import {
+  tenderErrorMessages,
+  tenderFormDataToObject,
+  tenderFormSchema,
+} from "@/lib/validations/tender";
+
+interface FormState {
+  error?: string;
+  success?: boolean;
+}
+
+export interface TenderFilters {
+  search?: string;
+  status?: TenderStatus;
+  publisherId?: string;
+  provinceId?: string;
+  closingAfter?: Date;
+  // Criteria of a saved search, applied on top of the other filters
+  criteria?: SavedSearchCriteria;
+  limit?: number;
+}
+
+// Paths that render tender lists and must be refreshed after a mutation
+const TENDER_PATHS = [
+  "/admin/tenders",
+  "/manager/tenders",
+  "/dashboard",
+  "/dashboard/calendar",
+  "/dashboard/tenders",
+];
+
+function revalidateTenderPaths() {
+  for (const path of TENDER_PATHS) {
+    revalidatePath(path);
+  }
+}
+
+const retryOptions = (operation: string, details: Record<string, unknown>) => ({
+  maxRetries: 2,
+  shouldRetry: (error: Error) => {
+    const message = error.message.toLowerCase();
+    return message.includes("connection") || message.includes("timeout");
+  },
+  onRetry: (error: Error, attempt: number) => {
+    logError(
+      createAppError(`${operation} retry attempt ${attempt}`, {
+        details: { originalError: error, ...details },
+      }),
+      "medium",
+    );
+  },
+});
+
+function isDuplicateReferenceError(error: unknown) {
+  if (!(error instanceof Error)) return false;
+  const message = error.message.toLowerCase();
+  return (
+    message.includes("duplicate key") ||
+    message.includes("tenders_publisher_reference_idx")
+  );
+}
+
+async function authorizeTenderMutation(
+  action: Exclude<PermissionAction<"tender">, "read">,
+) {
+  try {
+    const session = await requirePermission("tender", action);
+    return { session };
+  } catch (error) {
+    const appError = createAppError(
+      error instanceof Error ? error.message : "Access denied",
+      { code: "FORBIDDEN", statusCode: 403 },
+    );
+    logError(appError, classifyError(appError));
+    return { error: getUserFriendlyMessage(appError) };
+  }
+}
+
+/**
+ * List tenders together with the publisher that issued them.
+ */
+export async function getTenders(filters: TenderFilters = {}) {
+  const conditions: SQL[] = [];
+
+  if (filters.search?.trim()) {
+    const term = `%${filters.search.trim()}%`;
+    const searchCondition = or(
+      ilike(tenders.title, term),
+      ilike(tenders.referenceNumber, term),
+    );
+    if (searchCondition) conditions.push(searchCondition);
+  }
+  if (filters.status) conditions.push(eq(tenders.status, filters.status));
+  if (filters.publisherId) {
+    conditions.push(eq(tenders.publisherId, filters.publisherId));
+  }
+  if (filters.provinceId) {
+    conditions.push(eq(tenders.provinceId, filters.provinceId));
+  }
+  if (filters.closingAfter) {
+    conditions.push(gte(tenders.closingDate, filters.closingAfter));
+  }
+  if (filters.criteria) {
+    conditions.push(...buildSavedSearchConditions(filters.criteria));
+  }
+
+  try {
+    return await retryWithBackoff(
+      async () => {
+        const query = db
+          .select({
+            id: tenders.id,
+            referenceNumber: tenders.referenceNumber,
+            title: tenders.title,
+            description: tenders.description,
+            closingDate: tenders.closingDate,
+            briefingDate: tenders.briefingDate,
+            briefingVenue: tenders.briefingVenue,
+            briefingCompulsory: tenders.briefingCompulsory,
+            status: tenders.status,
+            category: tenders.category,
+            estimatedValue: tenders.estimatedValue,
+            publisherId: tenders.publisherId,
+            publisherName: publishers.name,
+            publisherWebsite: publishers.website,
+            provinceId: tenders.provinceId,
+            provinceName: provinces.name,
+            createdAt: tenders.createdAt,
+            updatedAt: tenders.updatedAt,
+          })
+          .from(tenders)
+          .innerJoin(publishers, eq(tenders.publisherId, publishers.id))
+          .leftJoin(provinces, eq(tenders.provinceId, provinces.id))
+          .where(conditions.length > 0 ? and(...conditions) : undefined)
+          .orderBy(asc(tenders.closingDate), desc(tenders.createdAt));
+
+        return filters.limit ? await query.limit(filters.limit) : await query;
+      },
+      retryOptions("Get tenders", { filters }),
+    );
+  } catch (error) {
+    const appError = createAppError(
+      `Failed to fetch tenders: ${error instanceof Error ? error.message : "Unknown error"}`,
+      {
+        code: "FETCH_FAILED",
+        statusCode: 500,
+        details: { filters, originalError: error },
+      },
+    );
+    logError(appError, classifyError(appError));
+    throw appError;
+  }
+}
+
+export type TenderListItem = Awaited<ReturnType<typeof getTenders>>[number];
+
+/**
+ * Publishers and provinces available in the tender form.
+ */
+export async function getTenderFormOptions() {
+  const [publisherOptions, provinceOptions] = await Promise.all([
+    db
+      .select({
+        id: publishers.id,
+        name: publishers.name,
+        province_id: publishers.province_id,
+      })
+      .from(publishers)
+      .orderBy(publishers.name),
+    db
+      .select({ id: provinces.id, name: provinces.name })
+      .from(provinces)
+      .orderBy(provinces.name),
+  ]);
+
+  return { publishers: publisherOptions, provinces: provinceOptions };
+}
+
+export async function createTender(_prevState: FormState, formData: FormData) {
+  const authResult = await authorizeTenderMutation("create");
+  if ("error" in authResult) return { error: authResult.error };
+
+  const parsed = tenderFormSchema.safeParse(tenderFormDataToObject(formData));
+
+  if (!parsed.success) {
+    const error = createAppError(parsed.error.issues[0].message, {
+      code: "VALIDATION_ERROR",
+      statusCode: 400,
+      details: { field: parsed.error.issues[0].path.join(".") },
+    });
+    logError(error, classifyError(error));
+    return { error: error.message };
+  }
+
+  const data = parsed.data;
+
+  try {
+    await retryWithBackoff(
+      async () => {
+        await db.insert(tenders).values({
+          referenceNumber: data.referenceNumber,
+          title: data.title,
+          description: data.description?.trim() || null,
+          closingDate: new Date(data.closingDate),
+          briefingDate: data.briefingDate ? new Date(data.briefingDate) : null,
+          briefingVenue: data.briefingVenue?.trim() || null,
+          briefingCompulsory: data.briefingCompulsory,
+          publisherId: data.publisherId,
+          provinceId: data.provinceId,
+          status: data.status,
+          category: data.category || null,
+          estimatedValue: data.estimatedValue || null,
+          createdBy: authResult.session.user.id,
+        });
+      },
+      retryOptions("Create tender", { referenceNumber: data.referenceNumber }),
+    );
+  } catch (error) {
+    if (isDuplicateReferenceError(error)) {
+      return { error: tenderErrorMessages.duplicateReference };
+    }
+
+    const appError = createAppError(
+      `${tenderErrorMessages.creationFailed}: ${error instanceof Error ? error.message : "Unknown error"}`,
+      {
+        code: "CREATE_FAILED",
+        statusCode: 500,
+        details: {
+          referenceNumber: data.referenceNumber,
+          originalError: error,
+        },
+      },
+    );
+    logError(appError, classifyError(appError));
+    return { error: getUserFriendlyMessage(appError) };
+  }
+
+  revalidateTenderPaths();
+  return { success: true };
+}
+
+export async function updateTender(_prevState: FormState, formData: FormData) {
+  const authResult = await authorizeTenderMutation("update");
+  if ("error" in authResult) return { error: authResult.error };
+
+  const id = formData.get("id") as string;
+
+  if (!id) {
+    const error = createAppError("Tender ID is required", {
+      code: "VALIDATION_ERROR",
+      statusCode: 400,
+      details: { field: "id" },
+    });
+    logError(error, classifyError(error));
+    return { error: getUserFriendlyMessage(error) };
+  }
+
+  const parsed = tenderFormSchema.safeParse(tenderFormDataToObject(formData));
+
+  if (!parsed.success) {
+    const error = createAppError(parsed.error.issues[0].message, {
+      code: "VALIDATION_ERROR",
+      statusCode: 400,
+      details: { field: parsed.error.issues[0].path.join(".") },
+    });
+    logError(error, classifyError(error));
+    return { error: error.message };
+  }
+
+  const data = parsed.data;
+
+  try {
+    const updated = await retryWithBackoff(
+      async () => {
+        return await db
+          .update(tenders)
+          .set({
+            referenceNumber: data.referenceNumber,
+            title: data.title,
+            description: data.description?.trim() || null,
+            closingDate: new Date(data.closingDate),
+            briefingDate: data.briefingDate
+              ? new Date(data.briefingDate)
+              : null,
+            briefingVenue: data.briefingVenue?.trim() || null,
+            briefingCompulsory: data.briefingCompulsory,
+            publisherId: data.publisherId,
+            provinceId: data.provinceId,
+            status: data.status,
+            category: data.category || null,
+            estimatedValue: data.estimatedValue || null,
+          })
+          .where(eq(tenders.id, id))
+          .returning({ id: tenders.id });
+      },
+      retryOptions("Update tender", { tenderId: id }),
+    );
+
+    if (updated.length === 0) {
+      return { error: tenderErrorMessages.tenderNotFound };
+    }
+  } catch (error) {
+    if (isDuplicateReferenceError(error)) {
+      return { error: tenderErrorMessages.duplicateReference };
+    }
+
+    const appError = createAppError(
+      `${tenderErrorMessages.updateFailed}: ${error instanceof Error ? error.message : "Unknown error"}`,
+      {
+        code: "UPDATE_FAILED",
+        statusCode: 500,
+        details: { tenderId: id, originalError: error },
+      },
+    );
+    logError(appError, classifyError(appError));
+    return { error: getUserFriendlyMessage(appError) };
+  }
+
+  revalidateTenderPaths();
+  return { success: true };
+}
+
+export async function deleteTender(formData: FormData) {
+  const id = formData.get("id") as string;
+
+  // Validation
+  if (!id) {
+    const error = createAppError("Tender ID is required", {
+      code: "VALIDATION_ERROR",
+      statusCode: 400,
+      details: { field: "id" },
+    });
+    logError(error, classifyError(error));
+    throw error;
+  }
+
+  const authResult = await authorizeTenderMutation("delete");
+  if ("error" in authResult) {
+    throw createAppError(authResult.error ?? "Access denied", {
+      code: "FORBIDDEN",
+      statusCode: 403,
+    });
+  }
+
+  try {
+    await retryWithBackoff(
+      async () => {
+        await db.delete(tenders).where(eq(tenders.id, id));
+      },
+      retryOptions("Delete tender", { tenderId: id }),
+    );
+  } catch (error) {
+    const appError = createAppError(
+      `${tenderErrorMessages.deleteFailed}: ${error instanceof Error ? error.message : "Unknown error"}`,
+      {
+        code: "DELETE_FAILED",
+        statusCode: 500,
+        details: { tenderId: id, originalError: error },
+      },
+    );
+    logError(appError, classifyError(appError));
+    throw appError;
+  }
+
+  revalidateTenderPaths();
+}
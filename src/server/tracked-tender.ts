@@ -0,0 +1,84 @@
+"use server";
+
+import { and, eq } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
+import { db } from "@/db";
+import { trackedTenders } from "@/db/schema";
+import { requireAuth } from "@/lib/auth-utils";
+import {
+  classifyError,
+  createAppError,
+  getUserFriendlyMessage,
+  logError,
+} from "@/lib/error-utils";
+
+/**
+ * IDs of the tenders the signed-in user tracks.
+ */
+export async function getMyTrackedTenderIds() {
+  const session = await requireAuth();
+
+  const rows = await db
+    .select({ tenderId: trackedTenders.tenderId })
+    .from(trackedTenders)
+    .where(eq(trackedTenders.userId, session.user.id));
+
+  return rows.map((row) => row.tenderId);
+}
+
+/**
+ * Start or stop tracking a tender for the signed-in user. Tracked tenders
+ * appear on the deadline calendar and get closing-date reminders.
+ */
+export async function toggleTenderTracking(formData: FormData) {
+  const tenderId = formData.get("tenderId") as string;
+  if (!tenderId) return { error: "Tender ID is required" };
+
+  let userId: string;
+  try {
+    const session = await requireAuth();
+    userId = session.user.id;
+  } catch (error) {
+    const appError = createAppError(
+      error instanceof Error ? error.message : "Authentication required",
+      { code: "UNAUTHORIZED", statusCode: 401 },
+    );
+    logError(appError, classifyError(appError));
+    return { error: getUserFriendlyMessage(appError) };
+  }
+
+  try {
+    const removed = await db
+      .delete(trackedTenders)
+      .where(
+        and(
+          eq(trackedTenders.userId, userId),
+          eq(trackedTenders.tenderId, tenderId),
+        ),
+      )
+      .returning({ id: trackedTenders.id });
+
+    if (removed.length === 0) {
+      await db
+        .insert(trackedTenders)
+        .values({ userId, tenderId })
+        .onConflictDoNothing();
+    }
+
+    revalidatePath("/dashboard/tenders");
+    revalidatePath("/dashboard/calendar");
+    revalidatePath("/dashboard/bookmarks");
+    return { tracked: removed.length === 0 };
+  } catch (error) {
+    const appError = createAppError(
+      `Failed to update tender tracking: ${error instanceof Error ? error.message : "Unknown error"}`,
+      {
+        code: "TOGGLE_TRACKING_FAILED",
+        statusCode: 500,
+        details: { userId, tenderId, originalError: error },
+      },
+    );
+    logError(appError, classifyError(appError));
+    return { error: getUserFriendlyMessage(appError) };
+  }
+}
@@ -0,0 +1,21 @@
+"use server";
+
+import { requireAuth } from "@/lib/auth-utils";
+import { visitHistoryRangeSchema } from "@/lib/validations/visits";
+import { getVisitHistory, resolveVisitHistoryRange } from "@/lib/visit-history";
+
+/**
+ * The signed-in user's synced visits between two `YYYY-MM-DD` days.
+ */
+export async function getMyVisitHistory(range: { from?: string; to?: string }) {
+  const session = await requireAuth();
+  const { from, to } = resolveVisitHistoryRange(
+    visitHistoryRangeSchema.parse(range),
+  );
+
+  return {
+    from,
+    to,
+    history: await getVisitHistory(session.user.id, { from, to }),
+  };
+}